@@ -0,0 +1,372 @@
+import { https } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { writeAuditEvent } from './auditLog';
+import { writeNotification } from './notifications';
+import {
+  AssignReviewersRequest,
+  DEFAULT_WORKFLOW_STAGES,
+  RecordDecisionRequest,
+  SaveWorkflowConfigRequest,
+  SerializedWorkflowSubmission,
+  SubmitForReviewRequest,
+  WORKFLOW_SUBMISSIONS_COLLECTION,
+  WithdrawSubmissionRequest,
+  WorkflowRole,
+  WorkflowStage,
+  WorkflowSubmissionRecord,
+  WorkflowTransitionType,
+  applyWorkflowDecision,
+  dueDateFor,
+  submissionIdFor,
+  validateWorkflowStages,
+} from './workflowTypes';
+
+type StoredSubmission = WorkflowSubmissionRecord<admin.firestore.Timestamp>;
+
+const DECISIONS = ['approve', 'reject', 'request_changes'];
+
+const submissions = () => admin.firestore().collection(WORKFLOW_SUBMISSIONS_COLLECTION);
+
+const configRef = (universityId: string) =>
+  admin.firestore().doc(`universities/${universityId}/settings/approvalWorkflow`);
+
+const toDate = (value: unknown): Date =>
+  value instanceof admin.firestore.Timestamp ? value.toDate() : new Date();
+
+const toTimestamp = (date: Date) => admin.firestore.Timestamp.fromDate(date);
+
+function fromStored(data: StoredSubmission): WorkflowSubmissionRecord {
+  return {
+    ...data,
+    submittedAt: toDate(data.submittedAt),
+    stageEnteredAt: toDate(data.stageEnteredAt),
+    dueAt: toDate(data.dueAt),
+    completedAt: data.completedAt ? toDate(data.completedAt) : undefined,
+    decisions: (data.decisions ?? []).map(decision => ({ ...decision, decidedAt: toDate(decision.decidedAt) })),
+  };
+}
+
+function toStored(submission: WorkflowSubmissionRecord): StoredSubmission {
+  const { completedAt, contentVersion, ...rest } = submission;
+  return {
+    ...rest,
+    submittedAt: toTimestamp(submission.submittedAt),
+    stageEnteredAt: toTimestamp(submission.stageEnteredAt),
+    dueAt: toTimestamp(submission.dueAt),
+    decisions: submission.decisions.map(decision => ({ ...decision, decidedAt: toTimestamp(decision.decidedAt) })),
+    ...(contentVersion !== undefined && { contentVersion }),
+    ...(completedAt && { completedAt: toTimestamp(completedAt) }),
+  };
+}
+
+function serialize(id: string, submission: WorkflowSubmissionRecord): SerializedWorkflowSubmission {
+  const { completedAt, ...rest } = submission;
+  return {
+    ...rest,
+    id,
+    submittedAt: submission.submittedAt.toISOString(),
+    stageEnteredAt: submission.stageEnteredAt.toISOString(),
+    dueAt: submission.dueAt.toISOString(),
+    decisions: submission.decisions.map(decision => ({ ...decision, decidedAt: decision.decidedAt.toISOString() })),
+    ...(completedAt && { completedAt: completedAt.toISOString() }),
+  };
+}
+
+function callerId(context: https.CallableContext): string {
+  const uid = context.auth?.uid;
+  if (!uid) throw new https.HttpsError('unauthenticated', 'Must be signed in');
+  return uid;
+}
+
+function requireString(value: unknown, label: string): string {
+  if (typeof value !== 'string' || !value) {
+    throw new https.HttpsError('invalid-argument', `${label} is required`);
+  }
+  return value;
+}
+
+async function roleAt(path: string): Promise<WorkflowRole | null> {
+  const permissionDoc = await admin.firestore().doc(path).get();
+  return (permissionDoc.data()?.role as WorkflowRole | undefined) ?? null;
+}
+
+const universityRole = (uid: string, universityId: string) =>
+  roleAt(`universities/${universityId}/permissions/${uid}`);
+
+const profileRole = (uid: string, profileId: string) =>
+  roleAt(`profiles/${profileId}/permissions/${uid}`);
+
+/** Authors and editors of the resource, and the university's admins */
+async function canSubmit(uid: string, ref: SubmitForReviewRequest): Promise<boolean> {
+  const roleAtUniversity = await universityRole(uid, ref.universityId);
+  if (roleAtUniversity === 'admin') return true;
+
+  if (ref.resourceType === 'memorial') {
+    const memorial = (await admin.firestore().doc(`memorials/${ref.resourceId}`).get()).data();
+    if (!memorial || memorial.universityId !== ref.universityId) return false;
+    return memorial.creatorId === uid || roleAtUniversity === 'editor';
+  }
+
+  const role = await profileRole(uid, ref.resourceId);
+  return role === 'admin' || role === 'editor';
+}
+
+/**
+ * A reviewer qualifies for a stage when their role on the profile, or on
+ * the university, is one of the stage's reviewer roles.
+ */
+async function isEligibleReviewer(
+  uid: string,
+  submission: WorkflowSubmissionRecord,
+  stage: WorkflowStage
+): Promise<boolean> {
+  const roles = await Promise.all([
+    universityRole(uid, submission.universityId),
+    submission.resourceType === 'profile' ? profileRole(uid, submission.resourceId) : Promise.resolve(null),
+  ]);
+  return roles.some(role => role !== null && stage.reviewerRoles.includes(role));
+}
+
+/**
+ * Assigned reviewers take precedence; unassigned stages are open to every
+ * user holding one of the stage's roles.
+ */
+async function canReview(uid: string, submission: WorkflowSubmissionRecord): Promise<boolean> {
+  if (submission.status !== 'in_review') return false;
+
+  const stage = submission.stages[submission.currentStageIndex];
+  const assigned = submission.assignedReviewers[stage.id] ?? [];
+  return assigned.length > 0 ? assigned.includes(uid) : isEligibleReviewer(uid, submission, stage);
+}
+
+async function isUniversityAdmin(uid: string, universityId: string): Promise<boolean> {
+  return (await universityRole(uid, universityId)) === 'admin';
+}
+
+async function loadSubmission(submissionId: unknown) {
+  const id = requireString(submissionId, 'A submission');
+  const submissionDoc = await submissions().doc(id).get();
+  if (!submissionDoc.exists) throw new https.HttpsError('not-found', 'Submission not found');
+  return { ref: submissionDoc.ref, submission: fromStored(submissionDoc.data() as StoredSubmission) };
+}
+
+async function logTransition(
+  submissionId: string,
+  submission: WorkflowSubmissionRecord,
+  transition: WorkflowTransitionType,
+  actedBy: string,
+  extra: { stageId?: string; comments?: string } = {}
+): Promise<void> {
+  await writeAuditEvent({
+    action: `workflow.${transition}`,
+    resourceType: submission.resourceType,
+    resourceId: submission.resourceId,
+    universityId: submission.universityId,
+    actor: { id: actedBy },
+    metadata: { submissionId, ...extra },
+  });
+}
+
+/** Ask the given reviewers to review the submission's current stage */
+async function notifyReviewers(
+  submissionId: string,
+  submission: WorkflowSubmissionRecord,
+  reviewerIds: string[],
+  actorId: string
+): Promise<void> {
+  const stage = submission.stages[submission.currentStageIndex];
+  const link = submission.resourceType === 'memorial'
+    ? `/university/${submission.universityId}/memorials/${submission.resourceId}`
+    : `/profile/${submission.resourceId}`;
+
+  await Promise.all(reviewerIds.map(userId => writeNotification({
+    userId,
+    type: 'approval_requested',
+    title: `Review requested: ${stage.name}`,
+    body: `A ${submission.resourceType} is waiting for your review. Please decide by ${submission.dueAt.toLocaleDateString()}.`,
+    link,
+    actor: { id: actorId },
+    resourceType: submission.resourceType,
+    resourceId: submission.resourceId,
+    universityId: submission.universityId,
+    metadata: { submissionId, stageId: stage.id },
+  })));
+}
+
+/**
+ * Opens a review of a profile or memorial. Submissions are numbered per
+ * resource and each number is created once, so two people submitting at
+ * the same moment can't both open a review.
+ */
+export const submitForReview = https.onCall(
+  async (data: SubmitForReviewRequest, context): Promise<SerializedWorkflowSubmission> => {
+    const uid = callerId(context);
+    const ref: SubmitForReviewRequest = {
+      resourceType: data?.resourceType === 'memorial' ? 'memorial' : 'profile',
+      resourceId: requireString(data?.resourceId, 'A resource'),
+      universityId: requireString(data?.universityId, 'A university'),
+      ...(typeof data?.contentVersion === 'number' && { contentVersion: data.contentVersion }),
+    };
+
+    if (!(await canSubmit(uid, ref))) {
+      throw new https.HttpsError('permission-denied', 'You cannot submit this content for review');
+    }
+
+    const previous = await submissions().where('resourceId', '==', ref.resourceId).get();
+    if (previous.docs.some(submissionDoc => submissionDoc.data().status === 'in_review')) {
+      throw new https.HttpsError('already-exists', 'This content is already in review');
+    }
+
+    const config = (await configRef(ref.universityId).get()).data();
+    const stages: WorkflowStage[] = config?.stages ?? DEFAULT_WORKFLOW_STAGES;
+    const now = new Date();
+    const submission: WorkflowSubmissionRecord = {
+      ...ref,
+      status: 'in_review',
+      stages,
+      currentStageIndex: 0,
+      assignedReviewers: {},
+      decisions: [],
+      submittedBy: uid,
+      submittedAt: now,
+      stageEnteredAt: now,
+      dueAt: dueDateFor(stages[0], now),
+      slaBreached: false,
+    };
+
+    const submissionRef = submissions().doc(submissionIdFor(ref.resourceType, ref.resourceId, previous.size + 1));
+    try {
+      await submissionRef.create(toStored(submission));
+    } catch (error) {
+      if ((error as { code?: number }).code === 6) {
+        throw new https.HttpsError('already-exists', 'This content is already in review');
+      }
+      throw error;
+    }
+
+    await logTransition(submissionRef.id, submission, 'submitted', uid, { stageId: stages[0].id });
+    return serialize(submissionRef.id, submission);
+  }
+);
+
+export const assignWorkflowReviewers = https.onCall(
+  async (data: AssignReviewersRequest, context): Promise<SerializedWorkflowSubmission> => {
+    const uid = callerId(context);
+    const { ref, submission } = await loadSubmission(data?.submissionId);
+
+    if (!(await isUniversityAdmin(uid, submission.universityId))) {
+      throw new https.HttpsError('permission-denied', 'Only university admins can assign reviewers');
+    }
+
+    const stage = submission.stages.find(candidate => candidate.id === data.stageId);
+    if (!stage) throw new https.HttpsError('not-found', 'Stage not found');
+
+    const reviewerIds = Array.isArray(data.reviewerIds)
+      ? data.reviewerIds.filter((id): id is string => typeof id === 'string' && !!id)
+      : [];
+    const eligibility = await Promise.all(reviewerIds.map(id => isEligibleReviewer(id, submission, stage)));
+    if (eligibility.includes(false)) {
+      throw new https.HttpsError(
+        'invalid-argument',
+        `Reviewers must hold one of these roles: ${stage.reviewerRoles.join(', ')}`,
+        { ineligible: reviewerIds.filter((_, index) => !eligibility[index]) }
+      );
+    }
+
+    await ref.update({ [`assignedReviewers.${stage.id}`]: reviewerIds });
+    await logTransition(ref.id, submission, 'reviewers_assigned', uid, { stageId: stage.id });
+
+    const updated = { ...submission, assignedReviewers: { ...submission.assignedReviewers, [stage.id]: reviewerIds } };
+    // Reviewers of later stages hear about it when the submission reaches them
+    if (updated.status === 'in_review' && updated.stages[updated.currentStageIndex].id === stage.id) {
+      await notifyReviewers(ref.id, updated, reviewerIds, uid);
+    }
+    return serialize(ref.id, updated);
+  }
+);
+
+/**
+ * Records the caller's decision on the submission's current stage. The
+ * permission check and the write happen in one transaction, so a decision
+ * can't land on a stage that has already moved on.
+ */
+export const decideWorkflowSubmission = https.onCall(
+  async (data: RecordDecisionRequest, context): Promise<SerializedWorkflowSubmission> => {
+    const uid = callerId(context);
+    const submissionId = requireString(data?.submissionId, 'A submission');
+    if (!DECISIONS.includes(data.decision)) {
+      throw new https.HttpsError('invalid-argument', 'Unknown decision');
+    }
+    const comments = typeof data.comments === 'string' && data.comments.trim() ? data.comments.trim() : undefined;
+    if (data.decision !== 'approve' && !comments) {
+      throw new https.HttpsError('invalid-argument', 'Comments are required when rejecting or requesting changes');
+    }
+
+    const ref = submissions().doc(submissionId);
+    const { next, transition, stageId } = await admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) throw new https.HttpsError('not-found', 'Submission not found');
+
+      const submission = fromStored(snapshot.data() as StoredSubmission);
+      if (!(await canReview(uid, submission))) {
+        throw new https.HttpsError('permission-denied', 'You are not a reviewer for this stage');
+      }
+
+      const decided = applyWorkflowDecision(submission, uid, data.decision, comments, new Date());
+      transaction.set(ref, toStored(decided.next));
+      return { ...decided, stageId: submission.stages[submission.currentStageIndex].id };
+    });
+
+    await logTransition(submissionId, next, transition, uid, { stageId, ...(comments && { comments }) });
+    if (transition === 'stage_advanced') {
+      const nextStage = next.stages[next.currentStageIndex];
+      await notifyReviewers(submissionId, next, next.assignedReviewers[nextStage.id] ?? [], uid);
+    }
+    return serialize(submissionId, next);
+  }
+);
+
+export const withdrawWorkflowSubmission = https.onCall(
+  async (data: WithdrawSubmissionRequest, context): Promise<{ success: boolean }> => {
+    const uid = callerId(context);
+    const { ref, submission } = await loadSubmission(data?.submissionId);
+
+    if (submission.submittedBy !== uid && !(await isUniversityAdmin(uid, submission.universityId))) {
+      throw new https.HttpsError('permission-denied', 'You cannot withdraw this submission');
+    }
+
+    await admin.firestore().runTransaction(async (transaction) => {
+      const latest = await transaction.get(ref);
+      if (latest.data()?.status !== 'in_review') {
+        throw new https.HttpsError('failed-precondition', 'Only open submissions can be withdrawn');
+      }
+      transaction.update(ref, { status: 'withdrawn', completedAt: admin.firestore.Timestamp.now() });
+    });
+
+    await logTransition(ref.id, submission, 'withdrawn', uid);
+    return { success: true };
+  }
+);
+
+export const saveWorkflowConfig = https.onCall(
+  async (data: SaveWorkflowConfigRequest, context): Promise<{ success: boolean }> => {
+    const uid = callerId(context);
+    const universityId = requireString(data?.universityId, 'A university');
+
+    if (!(await isUniversityAdmin(uid, universityId))) {
+      throw new https.HttpsError('permission-denied', 'Only university admins can configure the approval workflow');
+    }
+
+    const validationError = validateWorkflowStages(data.stages);
+    if (validationError) throw new https.HttpsError('invalid-argument', validationError);
+
+    // Only the stage fields are kept, whatever else the caller sent
+    const stages = data.stages.map(({ id, name, reviewerRoles, slaHours }) => ({ id, name, reviewerRoles, slaHours }));
+    await configRef(universityId).set({
+      stages,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: uid,
+    });
+    return { success: true };
+  }
+);
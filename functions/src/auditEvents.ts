@@ -0,0 +1,90 @@
+/**
+ * Audit event schema shared by Cloud Functions and the web client (which
+ * re-exports it from src/types/audit.ts). Keep this file free of runtime
+ * dependencies so both sides can compile it.
+ */
+
+export const AUDIT_LOG_COLLECTION = 'audit_logs';
+
+export const AUDIT_ACTIONS = [
+  'profile.created',
+  'profile.updated',
+  'profile.published',
+  'profile.archived',
+  'memorial.created',
+  'memorial.updated',
+  'memorial.published',
+  'memorial.approved',
+  'memorial.archived',
+  'media.uploaded',
+  'media.deleted',
+  'comment.hidden',
+  'comment.restored',
+  'comment.deleted',
+  'comment.author_banned',
+  'invitation.created',
+  'invitation.resent',
+  'invitation.revoked',
+  'invitation.accepted',
+  'invitation.expired',
+  'settings.updated',
+  'role.granted',
+  'role.revoked',
+  'editor_request.approved',
+  'editor_request.rejected',
+  'domain.verification_requested',
+  'domain.verified',
+  'domain.removed',
+  'workflow.submitted',
+  'workflow.reviewers_assigned',
+  'workflow.stage_advanced',
+  'workflow.approved',
+  'workflow.rejected',
+  'workflow.changes_requested',
+  'workflow.withdrawn',
+  'workflow.sla_breached',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_RESOURCE_TYPES = [
+  'profile',
+  'memorial',
+  'university',
+  'media',
+  'comment',
+  'invitation',
+  'settings',
+] as const;
+
+export type AuditResourceType = typeof AUDIT_RESOURCE_TYPES[number];
+
+export interface AuditActor {
+  /** User ID, or 'system' for scheduled jobs */
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * @template TTimestamp Date on the client, a Firestore timestamp or
+ * server-timestamp sentinel when written.
+ */
+export interface AuditEvent<TTimestamp = Date> {
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string;
+  universityId: string | null;
+  actor: AuditActor;
+  changes?: AuditFieldChange[];
+  metadata?: Record<string, unknown>;
+  timestamp: TTimestamp;
+}
+
+export const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'System' };
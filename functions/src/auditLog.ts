@@ -0,0 +1,28 @@
+import * as admin from 'firebase-admin';
+import { AUDIT_LOG_COLLECTION, AuditEvent } from './auditEvents';
+
+export type AuditEventInput = Omit<AuditEvent, 'timestamp' | 'universityId'> & {
+  universityId?: string | null;
+};
+
+const toDocument = (event: AuditEventInput) => ({
+  ...JSON.parse(JSON.stringify(event)),
+  universityId: event.universityId ?? null,
+  timestamp: admin.firestore.FieldValue.serverTimestamp(),
+});
+
+/**
+ * Write an audit event, or queue it on a batch so it commits together with
+ * the change it describes.
+ */
+export async function writeAuditEvent(
+  event: AuditEventInput,
+  batch?: admin.firestore.WriteBatch
+): Promise<void> {
+  const ref = admin.firestore().collection(AUDIT_LOG_COLLECTION).doc();
+  if (batch) {
+    batch.set(ref, toDocument(event));
+    return;
+  }
+  await ref.set(toDocument(event));
+}
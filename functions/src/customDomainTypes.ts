@@ -0,0 +1,63 @@
+/**
+ * Custom domain verification, shared by Cloud Functions and the web app
+ * (which re-exports it from src/types/university.ts). Kept free of SDK
+ * imports so both sides can use it.
+ */
+
+/** Hostname-to-university lookups read by the middleware */
+export const CUSTOM_DOMAINS_COLLECTION = 'customDomains';
+
+/** The TXT record is published at this label under the domain being verified */
+export const CUSTOM_DOMAIN_TXT_LABEL = '_storiats-verification';
+
+const TXT_VALUE_PREFIX = 'storiats-verification=';
+
+export type CustomDomainStatus = 'pending' | 'verified';
+
+/**
+ * Stored on the university document under `domainVerification`. Only the
+ * custom domain functions write it.
+ */
+export interface CustomDomainVerification<TTimestamp = Date> {
+  domain: string;
+  token: string;
+  status: CustomDomainStatus;
+  requestedAt: TTimestamp;
+  lastCheckedAt?: TTimestamp;
+  verifiedAt?: TTimestamp;
+  /** Why the last check failed, for the admin to act on */
+  failureReason?: string;
+}
+
+/** Stored at customDomains/{hostname} once the domain is verified */
+export interface CustomDomainRecord<TTimestamp = Date> {
+  universityId: string;
+  verifiedAt: TTimestamp;
+}
+
+/** The DNS record an admin publishes to prove they control the domain */
+export interface CustomDomainTxtRecord {
+  name: string;
+  value: string;
+}
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Lower-cases a domain and strips any scheme, path, port or trailing dot
+ * @returns The bare hostname, or null when it isn't one
+ */
+export function normalizeDomain(input: string): string | null {
+  const hostname = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '');
+  return HOSTNAME_PATTERN.test(hostname) ? hostname : null;
+}
+
+export function customDomainTxtRecord(domain: string, token: string): CustomDomainTxtRecord {
+  return { name: `${CUSTOM_DOMAIN_TXT_LABEL}.${domain}`, value: `${TXT_VALUE_PREFIX}${token}` };
+}
@@ -0,0 +1,198 @@
+import { https } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
+import { promises as dns } from 'dns';
+import { writeAuditEvent } from './auditLog';
+import {
+  CUSTOM_DOMAINS_COLLECTION,
+  CustomDomainTxtRecord,
+  CustomDomainVerification,
+  customDomainTxtRecord,
+  normalizeDomain,
+} from './customDomainTypes';
+
+interface UniversityData {
+  universityId: string;
+}
+
+interface RequestVerificationData extends UniversityData {
+  domain: string;
+}
+
+interface RequestVerificationResponse {
+  domain: string;
+  record: CustomDomainTxtRecord;
+}
+
+interface VerifyResponse {
+  verified: boolean;
+  domain: string;
+  failureReason?: string;
+}
+
+type StoredVerification = CustomDomainVerification<admin.firestore.Timestamp>;
+
+/** The university document, once the caller is confirmed as one of its admins */
+async function adminUniversity(universityId: unknown, uid: string | undefined) {
+  if (!uid) throw new https.HttpsError('unauthenticated', 'Must be signed in');
+  if (typeof universityId !== 'string' || !universityId) {
+    throw new https.HttpsError('invalid-argument', 'A university is required');
+  }
+
+  const db = admin.firestore();
+  const [universityDoc, permissionDoc] = await Promise.all([
+    db.doc(`universities/${universityId}`).get(),
+    db.doc(`universities/${universityId}/permissions/${uid}`).get(),
+  ]);
+  if (!universityDoc.exists) throw new https.HttpsError('not-found', 'University not found');
+
+  const adminIds: string[] = universityDoc.data()?.adminIds ?? universityDoc.data()?.admins ?? [];
+  if (!adminIds.includes(uid) && permissionDoc.data()?.role !== 'admin') {
+    throw new https.HttpsError('permission-denied', 'Not a university admin');
+  }
+  return universityDoc;
+}
+
+async function assertUnclaimed(domain: string, universityId: string) {
+  const claim = await admin.firestore().doc(`${CUSTOM_DOMAINS_COLLECTION}/${domain}`).get();
+  if (claim.exists && claim.data()?.universityId !== universityId) {
+    throw new https.HttpsError('already-exists', 'That domain is in use by another university');
+  }
+}
+
+/** Why the TXT record doesn't prove control of the domain, or null when it does */
+async function txtRecordProblem({ name, value }: CustomDomainTxtRecord): Promise<string | null> {
+  let records: string[][];
+  try {
+    records = await dns.resolveTxt(name);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') return `No TXT record was found at ${name}`;
+    throw error;
+  }
+  // Long records come back split into chunks
+  return records.some(chunks => chunks.join('') === value)
+    ? null
+    : `The TXT record at ${name} does not contain ${value}`;
+}
+
+/**
+ * Starts verifying a custom domain for a university, returning the TXT
+ * record its admin must publish. A domain already verified stays in use
+ * until the new one is.
+ */
+export const requestCustomDomainVerification = https.onCall(
+  async (data: RequestVerificationData, context): Promise<RequestVerificationResponse> => {
+    const universityDoc = await adminUniversity(data?.universityId, context.auth?.uid);
+    const domain = normalizeDomain(String(data?.domain ?? ''));
+    if (!domain) {
+      throw new https.HttpsError('invalid-argument', 'Enter a domain such as alumni.example.edu');
+    }
+    await assertUnclaimed(domain, universityDoc.id);
+
+    const current = universityDoc.data()?.domainVerification as StoredVerification | undefined;
+    const token = current?.domain === domain ? current.token : randomBytes(16).toString('hex');
+    const verification: StoredVerification = {
+      domain,
+      token,
+      status: 'pending',
+      requestedAt: admin.firestore.Timestamp.now(),
+    };
+    await universityDoc.ref.update({ domainVerification: verification });
+
+    await writeAuditEvent({
+      action: 'domain.verification_requested',
+      resourceType: 'university',
+      resourceId: universityDoc.id,
+      universityId: universityDoc.id,
+      actor: { id: context.auth!.uid },
+      metadata: { domain },
+    });
+
+    return { domain, record: customDomainTxtRecord(domain, token) };
+  }
+);
+
+/**
+ * Looks up the pending domain's TXT record and, when it matches, points
+ * the domain at the university
+ */
+export const verifyCustomDomain = https.onCall(async (data: UniversityData, context): Promise<VerifyResponse> => {
+  const universityDoc = await adminUniversity(data?.universityId, context.auth?.uid);
+  const universityId = universityDoc.id;
+  const verification = universityDoc.data()?.domainVerification as StoredVerification | undefined;
+  if (!verification) {
+    throw new https.HttpsError('failed-precondition', 'Add a domain before verifying it');
+  }
+
+  const { domain, token } = verification;
+  const failureReason = await txtRecordProblem(customDomainTxtRecord(domain, token));
+  const now = admin.firestore.Timestamp.now();
+
+  if (failureReason) {
+    await universityDoc.ref.update({
+      'domainVerification.lastCheckedAt': now,
+      'domainVerification.failureReason': failureReason,
+    });
+    return { verified: false, domain, failureReason };
+  }
+
+  const db = admin.firestore();
+  await db.runTransaction(async transaction => {
+    const claimRef = db.doc(`${CUSTOM_DOMAINS_COLLECTION}/${domain}`);
+    const [claim, university] = await Promise.all([transaction.get(claimRef), transaction.get(universityDoc.ref)]);
+    if (claim.exists && claim.data()?.universityId !== universityId) {
+      throw new https.HttpsError('already-exists', 'That domain is in use by another university');
+    }
+
+    const previous: string | undefined = university.data()?.settings?.customDomain;
+    if (previous && previous !== domain) {
+      transaction.delete(db.doc(`${CUSTOM_DOMAINS_COLLECTION}/${previous}`));
+    }
+    transaction.set(claimRef, { universityId, verifiedAt: now });
+    transaction.update(universityDoc.ref, {
+      'domainVerification.status': 'verified',
+      'domainVerification.lastCheckedAt': now,
+      'domainVerification.verifiedAt': now,
+      'domainVerification.failureReason': admin.firestore.FieldValue.delete(),
+      'settings.customDomain': domain,
+    });
+  });
+
+  await writeAuditEvent({
+    action: 'domain.verified',
+    resourceType: 'university',
+    resourceId: universityId,
+    universityId,
+    actor: { id: context.auth!.uid },
+    metadata: { domain },
+  });
+
+  return { verified: true, domain };
+});
+
+/** Stops serving the university on its custom domain and drops any pending verification */
+export const removeCustomDomain = https.onCall(async (data: UniversityData, context): Promise<{ success: boolean }> => {
+  const universityDoc = await adminUniversity(data?.universityId, context.auth?.uid);
+  const domain: string | undefined = universityDoc.data()?.settings?.customDomain;
+
+  const batch = admin.firestore().batch();
+  if (domain) {
+    batch.delete(admin.firestore().doc(`${CUSTOM_DOMAINS_COLLECTION}/${domain}`));
+  }
+  batch.update(universityDoc.ref, {
+    domainVerification: admin.firestore.FieldValue.delete(),
+    'settings.customDomain': admin.firestore.FieldValue.delete(),
+  });
+  await writeAuditEvent({
+    action: 'domain.removed',
+    resourceType: 'university',
+    resourceId: universityDoc.id,
+    universityId: universityDoc.id,
+    actor: { id: context.auth!.uid },
+    metadata: { domain: domain ?? universityDoc.data()?.domainVerification?.domain ?? null },
+  }, batch);
+  await batch.commit();
+
+  return { success: true };
+});
@@ -0,0 +1,145 @@
+import { pubsub } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  DigestPeriod,
+  NOTIFICATIONS_COLLECTION,
+  NOTIFICATION_PREFERENCES_COLLECTION,
+  NotificationEmailStatus,
+  NotificationRecord,
+  NotificationPreferencesRecord,
+  resolveNotificationChannel,
+} from './notificationTypes';
+import { buildNotificationDigest, isDigestDue } from './notificationDigest';
+
+const LAST_DIGEST_FIELD: Record<DigestPeriod, 'lastDailyDigestAt' | 'lastWeeklyDigestAt'> = {
+  daily: 'lastDailyDigestAt',
+  weekly: 'lastWeeklyDigestAt',
+};
+
+type PendingNotification = {
+  ref: admin.firestore.DocumentReference;
+  data: NotificationRecord;
+};
+
+/**
+ * Send an email through the web app, which owns the templates and the
+ * email transport.
+ */
+async function sendEmail(templateId: string, to: string, variables: Record<string, unknown>): Promise<void> {
+  const response = await fetch(`${process.env.APP_URL}/api/notifications/email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.NOTIFICATION_EMAIL_SECRET}`,
+    },
+    body: JSON.stringify({ templateId, to, variables }),
+  });
+  if (!response.ok) {
+    throw new Error(`Notification email responded with ${response.status}`);
+  }
+}
+
+const toPending = (snapshot: admin.firestore.QueryDocumentSnapshot): PendingNotification => {
+  const data = snapshot.data();
+  return {
+    ref: snapshot.ref,
+    data: { ...data, createdAt: data.createdAt?.toDate?.() ?? new Date() } as NotificationRecord,
+  };
+};
+
+/**
+ * Hourly sweep over notifications still waiting for email. Immediate ones
+ * are those the browser couldn't send itself (or that were written by a
+ * Cloud Function); daily and weekly ones are rolled into a digest once the
+ * user's last digest for that period is old enough.
+ */
+export const deliverNotificationEmails = pubsub.schedule('every 1 hours').onRun(async () => {
+  const appUrl = process.env.APP_URL;
+  if (!appUrl || !process.env.NOTIFICATION_EMAIL_SECRET) {
+    console.warn('APP_URL or NOTIFICATION_EMAIL_SECRET is not set; skipping notification emails');
+    return;
+  }
+
+  const db = admin.firestore();
+  const now = new Date();
+  const pending = await db.collection(NOTIFICATIONS_COLLECTION)
+    .where('emailStatus', '==', 'pending')
+    .get();
+
+  const byUser = new Map<string, PendingNotification[]>();
+  for (const snapshot of pending.docs) {
+    const notification = toPending(snapshot);
+    byUser.set(notification.data.userId, [...(byUser.get(notification.data.userId) ?? []), notification]);
+  }
+
+  let sent = 0;
+  let digests = 0;
+
+  for (const [userId, notifications] of Array.from(byUser.entries())) {
+    const [userDoc, preferencesDoc] = await Promise.all([
+      db.doc(`users/${userId}`).get(),
+      db.doc(`${NOTIFICATION_PREFERENCES_COLLECTION}/${userId}`).get(),
+    ]);
+    const email: string | undefined = userDoc.data()?.email;
+    const recipientName: string | undefined = userDoc.data()?.displayName || undefined;
+    const preferences = (preferencesDoc.data() ?? {}) as NotificationPreferencesRecord<admin.firestore.Timestamp>;
+
+    const batch = db.batch();
+    const setStatus = (notification: PendingNotification, emailStatus: NotificationEmailStatus) =>
+      batch.update(notification.ref, { emailStatus });
+    const digestItems: Record<DigestPeriod, PendingNotification[]> = { daily: [], weekly: [] };
+
+    for (const notification of notifications) {
+      const channel = resolveNotificationChannel(preferences.channels, notification.data.type);
+      if (!email || channel === 'in_app') {
+        setStatus(notification, 'skipped');
+      } else if (channel === 'immediate') {
+        try {
+          await sendEmail('notification', email, {
+            recipientName,
+            title: notification.data.title,
+            body: notification.data.body,
+            actionUrl: notification.data.link ? `${appUrl}${notification.data.link}` : undefined,
+          });
+          setStatus(notification, 'sent');
+          sent++;
+        } catch (error) {
+          console.error(`Error emailing notification ${notification.ref.id}:`, error);
+          setStatus(notification, 'failed');
+        }
+      } else {
+        digestItems[channel].push(notification);
+      }
+    }
+
+    for (const period of ['daily', 'weekly'] as DigestPeriod[]) {
+      const items = digestItems[period];
+      const lastSentAt = preferences[LAST_DIGEST_FIELD[period]]?.toDate();
+      if (!email || !items.length || !isDigestDue(period, lastSentAt, now)) continue;
+
+      const digest = buildNotificationDigest(period, items.map(item => item.data), appUrl);
+      try {
+        await sendEmail('notification_digest', email, {
+          recipientName,
+          period,
+          sections: digest.sections,
+          omittedCount: digest.omittedCount,
+          notificationsUrl: `${appUrl}/notifications`,
+        });
+        items.forEach(item => setStatus(item, 'digested'));
+        batch.set(preferencesDoc.ref, {
+          userId,
+          [LAST_DIGEST_FIELD[period]]: admin.firestore.Timestamp.fromDate(now),
+        }, { merge: true });
+        digests++;
+      } catch (error) {
+        // Left pending so the next run retries the digest
+        console.error(`Error sending ${period} digest to ${userId}:`, error);
+      }
+    }
+
+    await batch.commit();
+  }
+
+  console.log(`Sent ${sent} notification emails and ${digests} digests`);
+});
@@ -0,0 +1,87 @@
+/**
+ * Editor access request limits and statistics, shared by Cloud Functions
+ * and the web app (which re-exports them from src/types/requests.ts).
+ * Kept free of SDK imports so both sides can use it.
+ */
+
+export const EDITOR_REQUEST_LIMITS = {
+  MAX_PENDING_REQUESTS: 3,
+  COOLDOWN_PERIOD_DAYS: 7,
+  MAX_REQUESTS_PER_MONTH: 5
+} as const;
+
+export type EditorRequestStatus = 'pending' | 'approved' | 'rejected';
+
+/** Reviewer recorded on requests turned down automatically for breaking a limit */
+export const EDITOR_REQUEST_SYSTEM_REVIEWER = 'system';
+
+/**
+ * Stored at users/{userId}/editorRequestStats/stats. Only the
+ * syncEditorRequestStats function writes it, from the requests themselves.
+ */
+export interface EditorRequestStatsRecord<TTimestamp = Date> {
+  userId: string;
+  totalRequests: number;
+  pendingRequests: number;
+  /** The counts below are missing from stats written before they were kept server-side */
+  approvedRequests?: number;
+  rejectedRequests?: number;
+  /** Requests made in the last 30 days */
+  requestsThisMonth?: number;
+  lastRequestAt: TTimestamp;
+  cooldownUntil?: TTimestamp;
+}
+
+export type EditorRequestLimit = 'pending' | 'cooldown' | 'monthly';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAYS = 30;
+
+/**
+ * Statistics for one user's requests. The cooldown runs from their latest
+ * request.
+ */
+export function summarizeEditorRequests(
+  userId: string,
+  requests: { status: EditorRequestStatus; requestedAt: Date }[],
+  now: Date = new Date()
+): EditorRequestStatsRecord {
+  const monthAgo = now.getTime() - MONTH_DAYS * DAY_MS;
+  const latest = requests.reduce<Date | null>(
+    (last, request) => (!last || request.requestedAt > last ? request.requestedAt : last),
+    null
+  );
+  const count = (status: EditorRequestStatus) => requests.filter(request => request.status === status).length;
+
+  return {
+    userId,
+    totalRequests: requests.length,
+    pendingRequests: count('pending'),
+    approvedRequests: count('approved'),
+    rejectedRequests: count('rejected'),
+    requestsThisMonth: requests.filter(request => request.requestedAt.getTime() >= monthAgo).length,
+    lastRequestAt: latest ?? now,
+    ...(latest && { cooldownUntil: new Date(latest.getTime() + EDITOR_REQUEST_LIMITS.COOLDOWN_PERIOD_DAYS * DAY_MS) }),
+  };
+}
+
+/**
+ * The limit that stops a user making another request, or null when they
+ * may make one
+ */
+export function editorRequestLimitReached(
+  stats: Pick<EditorRequestStatsRecord, 'pendingRequests' | 'requestsThisMonth' | 'cooldownUntil'> | null,
+  now: Date = new Date()
+): EditorRequestLimit | null {
+  if (!stats) return null;
+  if (stats.pendingRequests >= EDITOR_REQUEST_LIMITS.MAX_PENDING_REQUESTS) return 'pending';
+  if ((stats.requestsThisMonth ?? 0) >= EDITOR_REQUEST_LIMITS.MAX_REQUESTS_PER_MONTH) return 'monthly';
+  if (stats.cooldownUntil && stats.cooldownUntil > now) return 'cooldown';
+  return null;
+}
+
+export const EDITOR_REQUEST_LIMIT_MESSAGES: Record<EditorRequestLimit, string> = {
+  pending: 'You have reached the maximum number of pending requests',
+  cooldown: 'You made a request recently; please wait before making another',
+  monthly: 'You have made the maximum number of requests for this month',
+};
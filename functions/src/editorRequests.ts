@@ -0,0 +1,84 @@
+import { firestore } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { SYSTEM_ACTOR } from './auditEvents';
+import { writeAuditEvent } from './auditLog';
+import {
+  EDITOR_REQUEST_LIMIT_MESSAGES,
+  EDITOR_REQUEST_SYSTEM_REVIEWER,
+  EditorRequestStatus,
+  editorRequestLimitReached,
+  summarizeEditorRequests,
+} from './editorRequestTypes';
+
+const toDate = (value: unknown): Date =>
+  value instanceof admin.firestore.Timestamp ? value.toDate() : new Date();
+
+async function userRequests(userId: string) {
+  const snapshot = await admin.firestore()
+    .collectionGroup('editorRequests')
+    .where('userId', '==', userId)
+    .get();
+  return snapshot.docs.map(requestDoc => ({
+    path: requestDoc.ref.path,
+    status: requestDoc.data().status as EditorRequestStatus,
+    requestedAt: toDate(requestDoc.data().requestedAt),
+  }));
+}
+
+/**
+ * Keeps users/{userId}/editorRequestStats/stats in step with the user's
+ * requests, counting them afresh on every change so the limits don't rest
+ * on figures the browser wrote. A new request that breaks a limit is
+ * turned down on the spot, and every new request is tagged with the
+ * profile's university for the admins' review queue.
+ */
+export const syncEditorRequestStats = firestore
+  .document('profiles/{profileId}/editorRequests/{requestId}')
+  .onWrite(async (change, context) => {
+    const request = change.after.exists ? change.after.data() : change.before.data();
+    const userId: string | undefined = request?.userId;
+    if (!userId) return;
+
+    const db = admin.firestore();
+    let requests = await userRequests(userId);
+
+    if (!change.before.exists && change.after.exists) {
+      const { profileId, requestId } = context.params;
+      const earlier = requests.filter(other => other.path !== change.after.ref.path);
+      const limit = editorRequestLimitReached(summarizeEditorRequests(userId, earlier));
+      const profile = (await db.doc(`profiles/${profileId}`).get()).data();
+      const universityId: string | null = profile?.universityId ?? profile?.orgId ?? null;
+
+      await change.after.ref.update({
+        universityId,
+        ...(limit && {
+          status: 'rejected',
+          reviewedBy: EDITOR_REQUEST_SYSTEM_REVIEWER,
+          reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+          reviewNotes: EDITOR_REQUEST_LIMIT_MESSAGES[limit],
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }),
+      });
+
+      if (limit) {
+        await writeAuditEvent({
+          action: 'editor_request.rejected',
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId,
+          actor: SYSTEM_ACTOR,
+          metadata: { requestId, targetUserId: userId, limit },
+        });
+        requests = requests.map(other =>
+          other.path === change.after.ref.path ? { ...other, status: 'rejected' as const } : other
+        );
+      }
+    }
+
+    const stats = summarizeEditorRequests(userId, requests);
+    await db.doc(`users/${userId}/editorRequestStats/stats`).set({
+      ...stats,
+      lastRequestAt: admin.firestore.Timestamp.fromDate(stats.lastRequestAt),
+      ...(stats.cooldownUntil && { cooldownUntil: admin.firestore.Timestamp.fromDate(stats.cooldownUntil) }),
+    });
+  });
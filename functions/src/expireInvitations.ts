@@ -0,0 +1,39 @@
+import { pubsub } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { SYSTEM_ACTOR } from './auditEvents';
+import { writeAuditEvent } from './auditLog';
+
+// Each invitation takes two writes (status + audit event); Firestore caps a
+// batch at 500.
+const BATCH_SIZE = 250;
+
+/**
+ * Hourly sweep that marks pending invitations past their expiry as expired.
+ * expiresAt is stored as an ISO string, which compares chronologically.
+ */
+export const expireInvitations = pubsub.schedule('every 1 hours').onRun(async () => {
+  const db = admin.firestore();
+  const overdue = await db.collection('invitations')
+    .where('status', '==', 'pending')
+    .where('expiresAt', '<', new Date().toISOString())
+    .get();
+
+  for (let i = 0; i < overdue.docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const invitationDoc of overdue.docs.slice(i, i + BATCH_SIZE)) {
+      const invitation = invitationDoc.data();
+      batch.update(invitationDoc.ref, { status: 'expired' });
+      await writeAuditEvent({
+        action: 'invitation.expired',
+        resourceType: 'invitation',
+        resourceId: invitationDoc.id,
+        universityId: invitation.universityId,
+        actor: SYSTEM_ACTOR,
+        metadata: { expiresAt: invitation.expiresAt },
+      }, batch);
+    }
+    await batch.commit();
+  }
+
+  console.log(`Expired ${overdue.size} invitations`);
+});
@@ -0,0 +1,37 @@
+import { pubsub } from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { SYSTEM_ACTOR } from './auditEvents';
+import { writeAuditEvent } from './auditLog';
+
+/**
+ * Hourly sweep that flags approval submissions sitting in a stage past its
+ * SLA, once per stage.
+ */
+export const flagOverdueSubmissions = pubsub.schedule('every 1 hours').onRun(async () => {
+  const db = admin.firestore();
+  const overdue = await db.collection('approvalSubmissions')
+    .where('status', '==', 'in_review')
+    .where('slaBreached', '==', false)
+    .where('dueAt', '<', admin.firestore.Timestamp.now())
+    .get();
+
+  const batch = db.batch();
+  for (const submissionDoc of overdue.docs) {
+    const submission = submissionDoc.data();
+    batch.update(submissionDoc.ref, { slaBreached: true });
+    await writeAuditEvent({
+      action: 'workflow.sla_breached',
+      resourceType: submission.resourceType,
+      resourceId: submission.resourceId,
+      universityId: submission.universityId,
+      actor: SYSTEM_ACTOR,
+      metadata: {
+        submissionId: submissionDoc.id,
+        stageId: submission.stages?.[submission.currentStageIndex]?.id ?? null,
+      },
+    }, batch);
+  }
+
+  await batch.commit();
+  console.log(`Flagged ${overdue.size} overdue approval submissions`);
+});
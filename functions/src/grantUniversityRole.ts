@@ -1,5 +1,7 @@
 import { https } from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { writeAuditEvent } from './auditLog';
+import { writeNotification } from './notifications';
 
 interface GrantRoleData {
   orgId: string;
@@ -42,6 +44,28 @@ export const grantUniversityRole = https.onCall(async (data: GrantRoleData, cont
       [`organizations.${orgId}`]: role
     });
 
+    await writeAuditEvent({
+      action: 'role.granted',
+      resourceType: 'university',
+      resourceId: orgId,
+      universityId: orgId,
+      actor: { id: adminUid },
+      metadata: { targetUserId: userId, email, role }
+    });
+
+    await writeNotification({
+      userId,
+      type: 'role_changed',
+      title: 'Your access has changed',
+      body: `You were given the ${role} role`,
+      link: '/dashboard',
+      actor: { id: adminUid },
+      resourceType: 'university',
+      resourceId: orgId,
+      universityId: orgId,
+      metadata: { role, change: 'granted' },
+    });
+
     return {
       success: true,
       message: `Successfully granted ${role} role to ${email}`
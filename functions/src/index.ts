@@ -1,5 +1,6 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { writeAuditEvent } from './auditLog';
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -29,22 +30,6 @@ async function isUserAdmin(userId: string, universityId: string): Promise<boolea
   return adminPermission.exists && adminPermission.data()?.role === 'admin';
 }
 
-// Helper function to log audit events
-async function logAuditEvent(
-  action: string,
-  data: Record<string, any>,
-  userId: string
-): Promise<void> {
-  await admin.firestore()
-    .collection('audit_logs')
-    .add({
-      action,
-      ...data,
-      performedBy: userId,
-      timestamp: admin.firestore.FieldValue.serverTimestamp()
-    });
-}
-
 // Grant role to user
 export const grantRole = functions.https.onCall(async (data: GrantRoleData, context) => {
   // Validate request
@@ -79,12 +64,14 @@ export const grantRole = functions.https.onCall(async (data: GrantRoleData, cont
     });
 
     // Log the action
-    await logAuditEvent('role_granted', {
-      profileId,
+    await writeAuditEvent({
+      action: 'role.granted',
+      resourceType: 'profile',
+      resourceId: profileId,
       universityId,
-      email,
-      role
-    }, adminUid);
+      actor: { id: adminUid },
+      metadata: { email, role }
+    });
 
     return { success: true };
   } catch (error) {
@@ -126,11 +113,14 @@ export const revokeRole = functions.https.onCall(async (data: RevokeRoleData, co
     await permissionRef.delete();
 
     // Log the action
-    await logAuditEvent('role_revoked', {
-      profileId,
+    await writeAuditEvent({
+      action: 'role.revoked',
+      resourceType: 'profile',
+      resourceId: profileId,
       universityId,
-      email
-    }, adminUid);
+      actor: { id: adminUid },
+      metadata: { email }
+    });
 
     return { success: true };
   } catch (error) {
@@ -174,4 +164,10 @@ export const getUserRole = functions.https.onCall(async (data: { profileId: stri
   }
 });
 
-export * from './grantUniversityRole'; 
\ No newline at end of file
+export * from './grantUniversityRole';
+export * from './flagOverdueSubmissions';
+export * from './expireInvitations';
+export * from './deliverNotificationEmails';
+export * from './editorRequests';
+export * from './customDomains';
+export * from './approvalWorkflow';
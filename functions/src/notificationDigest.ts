@@ -0,0 +1,66 @@
+import {
+  DIGEST_INTERVAL_HOURS,
+  DigestPeriod,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationRecord,
+} from './notificationTypes';
+
+/** Most notifications listed in one digest; the rest are summarised as a count */
+export const MAX_DIGEST_ITEMS = 25;
+
+export interface NotificationDigestSection {
+  label: string;
+  items: { title: string; body: string; url?: string }[];
+}
+
+export interface NotificationDigest {
+  period: DigestPeriod;
+  sections: NotificationDigestSection[];
+  totalCount: number;
+  omittedCount: number;
+}
+
+/**
+ * Whether a user's digest for the period is due, given when the last one went out
+ */
+export function isDigestDue(period: DigestPeriod, lastSentAt: Date | undefined, now: Date): boolean {
+  if (!lastSentAt) return true;
+  const elapsedHours = (now.getTime() - lastSentAt.getTime()) / (60 * 60 * 1000);
+  // Allow for the scheduler firing a little early
+  return elapsedHours >= DIGEST_INTERVAL_HOURS[period] - 0.5;
+}
+
+/**
+ * Group a user's pending notifications into digest sections, newest first
+ * within each type. Links are made absolute against appUrl.
+ */
+export function buildNotificationDigest(
+  period: DigestPeriod,
+  notifications: Pick<NotificationRecord, 'type' | 'title' | 'body' | 'link' | 'createdAt'>[],
+  appUrl: string
+): NotificationDigest {
+  const newestFirst = [...notifications].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const listed = newestFirst.slice(0, MAX_DIGEST_ITEMS);
+  const baseUrl = appUrl.replace(/\/+$/, '');
+
+  const sections = NOTIFICATION_TYPES
+    .map(type => ({
+      label: NOTIFICATION_TYPE_LABELS[type],
+      items: listed
+        .filter(notification => notification.type === type)
+        .map(notification => ({
+          title: notification.title,
+          body: notification.body,
+          url: notification.link ? `${baseUrl}${notification.link}` : undefined,
+        })),
+    }))
+    .filter(section => section.items.length > 0);
+
+  return {
+    period,
+    sections,
+    totalCount: notifications.length,
+    omittedCount: notifications.length - listed.length,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Notification schema shared by Cloud Functions and the web app. Kept free
+ * of SDK imports so both sides can use it.
+ */
+
+export const NOTIFICATIONS_COLLECTION = 'notifications';
+export const NOTIFICATION_PREFERENCES_COLLECTION = 'notificationPreferences';
+
+export const NOTIFICATION_TYPES = [
+  'comment_reply',
+  'mention',
+  'approval_requested',
+  'invitation_accepted',
+  'role_changed',
+  'memorial_published',
+  'editor_request_reviewed',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  comment_reply: 'Replies to your comments',
+  mention: 'Mentions',
+  approval_requested: 'Approval requests',
+  invitation_accepted: 'Accepted invitations',
+  role_changed: 'Role changes',
+  memorial_published: 'New memorials at pinned schools',
+  editor_request_reviewed: 'Editor access requests',
+};
+
+/**
+ * How a user hears about a notification type. Every notification shows in
+ * the app; the channel decides whether and when it is also emailed.
+ */
+export const NOTIFICATION_CHANNELS = ['in_app', 'immediate', 'daily', 'weekly'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export type DigestPeriod = Extract<NotificationChannel, 'daily' | 'weekly'>;
+
+/**
+ * pending: waiting for an immediate send or the next digest
+ * skipped: the recipient only wants in-app notifications of this type
+ */
+export type NotificationEmailStatus = 'pending' | 'sent' | 'digested' | 'skipped' | 'failed';
+
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<NotificationType, NotificationChannel> = {
+  comment_reply: 'daily',
+  mention: 'immediate',
+  approval_requested: 'immediate',
+  invitation_accepted: 'daily',
+  role_changed: 'immediate',
+  memorial_published: 'weekly',
+  editor_request_reviewed: 'immediate',
+};
+
+export interface NotificationRecord<TTimestamp = Date> {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** App path the notification opens */
+  link?: string;
+  actor?: { id: string; name?: string };
+  resourceType?: string;
+  resourceId?: string;
+  universityId: string | null;
+  metadata?: Record<string, unknown>;
+  isRead: boolean;
+  emailStatus: NotificationEmailStatus;
+  createdAt: TTimestamp;
+  readAt?: TTimestamp;
+}
+
+/** Stored at notificationPreferences/{userId} */
+export interface NotificationPreferencesRecord<TTimestamp = Date> {
+  userId: string;
+  channels: Partial<Record<NotificationType, NotificationChannel>>;
+  lastDailyDigestAt?: TTimestamp;
+  lastWeeklyDigestAt?: TTimestamp;
+  updatedAt?: TTimestamp;
+}
+
+export const DIGEST_INTERVAL_HOURS: Record<DigestPeriod, number> = {
+  daily: 24,
+  weekly: 24 * 7,
+};
+
+/**
+ * The channel a user has chosen for a type, falling back to the default
+ */
+export function resolveNotificationChannel(
+  channels: Partial<Record<NotificationType, NotificationChannel>> | undefined,
+  type: NotificationType
+): NotificationChannel {
+  return channels?.[type] ?? DEFAULT_NOTIFICATION_CHANNELS[type];
+}
@@ -0,0 +1,21 @@
+import * as admin from 'firebase-admin';
+import { NOTIFICATIONS_COLLECTION, NotificationRecord } from './notificationTypes';
+
+export type NotificationInput = Omit<NotificationRecord, 'createdAt' | 'isRead' | 'emailStatus' | 'universityId'> & {
+  universityId?: string | null;
+};
+
+/**
+ * Write an in-app notification. Email delivery, immediate or as a digest,
+ * is left to the web app's delivery job, which reads the recipient's
+ * preferences.
+ */
+export async function writeNotification(notification: NotificationInput): Promise<void> {
+  await admin.firestore().collection(NOTIFICATIONS_COLLECTION).add({
+    ...JSON.parse(JSON.stringify(notification)),
+    universityId: notification.universityId ?? null,
+    isRead: false,
+    emailStatus: 'pending',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
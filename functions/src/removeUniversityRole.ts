@@ -1,5 +1,7 @@
 import { https } from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { writeAuditEvent } from './auditLog';
+import { writeNotification } from './notifications';
 
 interface RemoveRoleData {
   orgId: string;
@@ -43,13 +45,26 @@ export const removeUniversityRole = https.onCall(async (data: RemoveRoleData, co
   await permRef.delete();
 
   // 6. Audit log
-  await admin.firestore().collection('audit_logs').add({
-    action: 'role_removed',
-    orgId,
+  await writeAuditEvent({
+    action: 'role.revoked',
+    resourceType: 'university',
+    resourceId: orgId,
+    universityId: orgId,
+    actor: { id: adminUid },
+    metadata: { targetUserId: userId, role },
+  });
+
+  await writeNotification({
     userId,
-    role,
-    removedBy: adminUid,
-    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    type: 'role_changed',
+    title: 'Your access has changed',
+    body: `Your ${role} role was removed`,
+    link: '/dashboard',
+    actor: { id: adminUid },
+    resourceType: 'university',
+    resourceId: orgId,
+    universityId: orgId,
+    metadata: { role, change: 'revoked' },
   });
 
   return { success: true };
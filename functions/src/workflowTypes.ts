@@ -0,0 +1,198 @@
+/**
+ * Content approval workflow, shared by the Cloud Functions that move
+ * submissions through it and the web app (which re-exports it from
+ * src/types/workflow.ts). Kept free of SDK imports so both sides can use it.
+ */
+
+export const WORKFLOW_SUBMISSIONS_COLLECTION = 'approvalSubmissions';
+
+export const WORKFLOW_ROLES = ['admin', 'editor', 'contributor', 'viewer'] as const;
+export type WorkflowRole = typeof WORKFLOW_ROLES[number];
+
+export type WorkflowResourceType = 'profile' | 'memorial';
+
+export interface WorkflowStage {
+  id: string;
+  name: string;
+  /** Roles (on the profile or the university) allowed to review this stage */
+  reviewerRoles: WorkflowRole[];
+  /** Hours a submission may wait in this stage before it is flagged */
+  slaHours: number;
+}
+
+export type WorkflowDecisionType = 'approve' | 'reject' | 'request_changes';
+
+export interface WorkflowDecision<TTimestamp = Date> {
+  stageId: string;
+  reviewerId: string;
+  decision: WorkflowDecisionType;
+  comments?: string;
+  decidedAt: TTimestamp;
+}
+
+export type SubmissionStatus = 'in_review' | 'approved' | 'rejected' | 'changes_requested' | 'withdrawn';
+
+export type WorkflowTransitionType =
+  | 'submitted'
+  | 'reviewers_assigned'
+  | 'stage_advanced'
+  | 'approved'
+  | 'rejected'
+  | 'changes_requested'
+  | 'withdrawn'
+  | 'sla_breached';
+
+/**
+ * Stored at approvalSubmissions/{resourceType}_{resourceId}_{n}. Only the
+ * workflow functions write it.
+ */
+export interface WorkflowSubmissionRecord<TTimestamp = Date> {
+  resourceType: WorkflowResourceType;
+  resourceId: string;
+  universityId: string;
+  status: SubmissionStatus;
+  /** Stages copied from the config at submission time */
+  stages: WorkflowStage[];
+  currentStageIndex: number;
+  assignedReviewers: Record<string, string[]>;
+  decisions: WorkflowDecision<TTimestamp>[];
+  submittedBy: string;
+  submittedAt: TTimestamp;
+  /** The resource's edit counter when submitted; an approval covers only that version */
+  contentVersion?: number;
+  stageEnteredAt: TTimestamp;
+  dueAt: TTimestamp;
+  slaBreached: boolean;
+  completedAt?: TTimestamp;
+}
+
+export const DEFAULT_WORKFLOW_STAGES: WorkflowStage[] = [
+  // Family members are granted the contributor role on the profiles they help write
+  { id: 'family_review', name: 'Family review', reviewerRoles: ['contributor'], slaHours: 72 },
+  { id: 'editor_review', name: 'Editor review', reviewerRoles: ['editor'], slaHours: 48 },
+  { id: 'university_approval', name: 'University admin approval', reviewerRoles: ['admin'], slaHours: 48 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const dueDateFor = (stage: WorkflowStage, enteredAt: Date): Date =>
+  new Date(enteredAt.getTime() + stage.slaHours * HOUR_MS);
+
+/** Submissions are numbered per resource so each number opens one review */
+export const submissionIdFor = (resourceType: WorkflowResourceType, resourceId: string, number: number): string =>
+  `${resourceType}_${resourceId}_${number}`;
+
+/**
+ * Validate a university's stage configuration
+ * @returns An error message, or null when the stages are valid
+ */
+export const validateWorkflowStages = (stages: WorkflowStage[]): string | null => {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    return 'At least one review stage is required';
+  }
+
+  const ids = new Set<string>();
+  for (const stage of stages) {
+    if (!stage.id?.trim() || !stage.name?.trim()) {
+      return 'Every stage needs an ID and a name';
+    }
+    if (ids.has(stage.id)) {
+      return `Duplicate stage ID: ${stage.id}`;
+    }
+    ids.add(stage.id);
+
+    if (!stage.reviewerRoles?.length) {
+      return `Stage "${stage.name}" needs at least one reviewer role`;
+    }
+    if (stage.reviewerRoles.some(role => !WORKFLOW_ROLES.includes(role))) {
+      return `Stage "${stage.name}" has an unknown reviewer role`;
+    }
+    if (!(stage.slaHours > 0)) {
+      return `Stage "${stage.name}" needs a positive SLA`;
+    }
+  }
+
+  return null;
+};
+
+export const isSubmissionOverdue = (
+  submission: Pick<WorkflowSubmissionRecord, 'status' | 'dueAt'>,
+  now: Date = new Date()
+): boolean =>
+  submission.status === 'in_review' && submission.dueAt.getTime() < now.getTime();
+
+/**
+ * Applies a reviewer's decision to the submission's current stage. An
+ * approval moves it to the next stage, or approves it outright at the
+ * last one; any other decision closes it.
+ */
+export function applyWorkflowDecision(
+  submission: WorkflowSubmissionRecord,
+  reviewerId: string,
+  decision: WorkflowDecisionType,
+  comments: string | undefined,
+  now: Date
+): { next: WorkflowSubmissionRecord; transition: WorkflowTransitionType } {
+  const stage = submission.stages[submission.currentStageIndex];
+  const decisions = [
+    ...submission.decisions,
+    { stageId: stage.id, reviewerId, decision, decidedAt: now, ...(comments ? { comments } : {}) },
+  ];
+
+  if (decision === 'approve' && submission.currentStageIndex < submission.stages.length - 1) {
+    const nextStage = submission.stages[submission.currentStageIndex + 1];
+    return {
+      next: {
+        ...submission,
+        decisions,
+        currentStageIndex: submission.currentStageIndex + 1,
+        stageEnteredAt: now,
+        dueAt: dueDateFor(nextStage, now),
+        slaBreached: false,
+      },
+      transition: 'stage_advanced',
+    };
+  }
+
+  const statusByDecision = {
+    approve: 'approved',
+    reject: 'rejected',
+    request_changes: 'changes_requested',
+  } as const;
+  return {
+    next: { ...submission, decisions, status: statusByDecision[decision], completedAt: now },
+    transition: statusByDecision[decision],
+  };
+}
+
+export interface SubmitForReviewRequest {
+  resourceType: WorkflowResourceType;
+  resourceId: string;
+  universityId: string;
+  /** The version being submitted, when the caller knows it */
+  contentVersion?: number;
+}
+
+export interface AssignReviewersRequest {
+  submissionId: string;
+  stageId: string;
+  reviewerIds: string[];
+}
+
+export interface RecordDecisionRequest {
+  submissionId: string;
+  decision: WorkflowDecisionType;
+  comments?: string;
+}
+
+export interface WithdrawSubmissionRequest {
+  submissionId: string;
+}
+
+export interface SaveWorkflowConfigRequest {
+  universityId: string;
+  stages: WorkflowStage[];
+}
+
+/** Submissions as the workflow functions return them, with ISO timestamps */
+export type SerializedWorkflowSubmission = WorkflowSubmissionRecord<string> & { id: string };
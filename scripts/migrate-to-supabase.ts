@@ -0,0 +1,231 @@
+/**
+ * Migrates the Firestore database into Supabase.
+ *
+ *   npm run migrate:supabase -- [options]
+ *
+ *   --fixtures <path>      read a JSON export instead of the live project
+ *   --dry-run              transform and report without writing anything
+ *   --collections <a,b>    only these collections (default: all, in order)
+ *   --batch-size <n>       documents per batch (default 200)
+ *   --checkpoint <file>    progress file (default supabase-migration-checkpoint.json)
+ *   --report <file>        reconciliation report (default supabase-migration-report.json)
+ *   --reset                ignore the checkpoint and start from the beginning
+ *
+ * Progress is checkpointed after every batch, so rerunning the same command
+ * after a failure picks up where it stopped.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { MIGRATION_COLLECTIONS } from './supabase-migration/transforms';
+import { FirestoreSource, FixtureSource } from './supabase-migration/sources';
+import { SupabaseTarget } from './supabase-migration/target';
+import { loadCheckpoint, newProgress, saveCheckpoint } from './supabase-migration/checkpoint';
+import { combineDigests, printSummary, reconcile, rowDigest } from './supabase-migration/report';
+import type {
+  Checkpoint,
+  CollectionProgress,
+  CollectionSpec,
+  MigrationSource,
+  MigrationTarget,
+  ReconciliationReport,
+  SourceDocument,
+} from './supabase-migration/types';
+
+interface Options {
+  fixtures: string | null;
+  dryRun: boolean;
+  collections: CollectionSpec[];
+  batchSize: number;
+  checkpoint: string;
+  report: string;
+  reset: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    fixtures: null,
+    dryRun: false,
+    collections: MIGRATION_COLLECTIONS,
+    batchSize: 200,
+    checkpoint: 'supabase-migration-checkpoint.json',
+    report: 'supabase-migration-report.json',
+    reset: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined || next.startsWith('--')) {
+        throw new Error(`${flag} needs a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--fixtures':
+        options.fixtures = path.resolve(value());
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--reset':
+        options.reset = true;
+        break;
+      case '--checkpoint':
+        options.checkpoint = value();
+        break;
+      case '--report':
+        options.report = value();
+        break;
+      case '--batch-size': {
+        const size = Number(value());
+        if (!Number.isInteger(size) || size < 1 || size > 1000) {
+          throw new Error('--batch-size must be a whole number from 1 to 1000');
+        }
+        options.batchSize = size;
+        break;
+      }
+      case '--collections': {
+        const names = value().split(',').map(name => name.trim());
+        const unknown = names.filter(name => !MIGRATION_COLLECTIONS.some(spec => spec.name === name));
+        if (unknown.length) {
+          throw new Error(`Unknown collections: ${unknown.join(', ')}. Known: ${MIGRATION_COLLECTIONS.map(spec => spec.name).join(', ')}`);
+        }
+        // Keep dependency order whatever order they were passed in
+        options.collections = MIGRATION_COLLECTIONS.filter(spec => names.includes(spec.name));
+        break;
+      }
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Moves one batch: transform every document, write the rows that survived
+ * and read them back to compare against what was sent.
+ */
+async function migrateBatch(
+  spec: CollectionSpec,
+  batch: SourceDocument[],
+  progress: CollectionProgress,
+  target: MigrationTarget | null
+) {
+  const rows: Record<string, unknown>[] = [];
+  const paths = new Map<string, string>();
+
+  batch.forEach(doc => {
+    try {
+      rows.push(spec.transform(doc));
+      paths.set(doc.id, doc.path);
+    } catch (error) {
+      progress.failures.push({ path: doc.path, stage: 'transform', error: (error as Error).message });
+    }
+  });
+
+  progress.read += batch.length;
+  progress.sourceChecksum = combineDigests(progress.sourceChecksum, rows.map(row => rowDigest(row, spec.columns)));
+  if (!target || !rows.length) return;
+
+  try {
+    await target.upsert(spec.table, rows);
+    progress.written += rows.length;
+  } catch (error) {
+    rows.forEach(row => progress.failures.push({
+      path: paths.get(row.id as string) as string,
+      stage: 'write',
+      error: (error as Error).message,
+    }));
+    return;
+  }
+
+  const stored = new Map(
+    (await target.fetch(spec.table, rows.map(row => row.id as string), spec.columns)).map(row => [row.id as string, row])
+  );
+  progress.targetChecksum = combineDigests(
+    progress.targetChecksum,
+    Array.from(stored.values()).map(row => rowDigest(row, spec.columns))
+  );
+  rows.forEach(row => {
+    const found = stored.get(row.id as string);
+    const problem = !found
+      ? 'row missing after write'
+      : rowDigest(found, spec.columns) !== rowDigest(row, spec.columns) ? 'stored row differs from the transformed row' : null;
+    if (problem) {
+      progress.failures.push({ path: paths.get(row.id as string) as string, stage: 'verify', error: problem });
+    }
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
+
+  const source: MigrationSource = options.fixtures ? new FixtureSource(options.fixtures) : await FirestoreSource.connect();
+  const target = options.dryRun ? null : await SupabaseTarget.connect();
+
+  // A dry run never reads or moves the real checkpoint
+  if (options.reset && !options.dryRun && fs.existsSync(options.checkpoint)) {
+    fs.unlinkSync(options.checkpoint);
+  }
+  const checkpoint: Checkpoint = options.dryRun
+    ? { version: 1, source: source.name, startedAt: new Date().toISOString(), updatedAt: '', collections: {} }
+    : loadCheckpoint(options.checkpoint, source.name);
+  const save = () => !options.dryRun && saveCheckpoint(options.checkpoint, checkpoint);
+
+  console.log(`🚀 Migrating ${source.name} → ${target?.name ?? 'nowhere (dry run)'}`);
+
+  let failure: unknown = null;
+  try {
+    for (const spec of options.collections) {
+      const progress = checkpoint.collections[spec.name] ??= newProgress();
+      if (progress.done) {
+        console.log(`⏭️ ${spec.name} already migrated`);
+        continue;
+      }
+
+      console.log(`📤 ${spec.name}${progress.cursor ? ` (resuming after ${progress.cursor})` : ''}`);
+      for await (const batch of source.stream(spec, { after: progress.cursor, batchSize: options.batchSize })) {
+        await migrateBatch(spec, batch, progress, target);
+        progress.cursor = batch[batch.length - 1].path;
+        save();
+        console.log(`   ${progress.read} read, ${progress.failures.length} failed`);
+      }
+      progress.done = true;
+      save();
+    }
+  } catch (error) {
+    failure = error;
+  }
+
+  const collections = [];
+  for (const spec of options.collections) {
+    const progress = checkpoint.collections[spec.name] ?? newProgress();
+    collections.push(reconcile(spec, progress, target ? await target.count(spec.table) : null, options.dryRun));
+  }
+
+  const report: ReconciliationReport = {
+    generatedAt: new Date().toISOString(),
+    source: source.name,
+    dryRun: options.dryRun,
+    complete: options.collections.every(spec => checkpoint.collections[spec.name]?.done),
+    collections,
+  };
+  fs.writeFileSync(options.report, JSON.stringify(report, null, 2));
+  await source.close();
+
+  printSummary(report);
+  console.log(`📝 Report written to ${options.report}`);
+
+  if (failure) throw failure;
+  const clean = report.complete && collections.every(item => !item.failures.length && item.checksumsMatch !== false);
+  process.exitCode = clean ? 0 : 1;
+}
+
+main().catch(error => {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import { EMPTY_CHECKSUM } from './report';
+import type { Checkpoint, CollectionProgress } from './types';
+
+export function newProgress(): CollectionProgress {
+  return {
+    cursor: null,
+    done: false,
+    read: 0,
+    written: 0,
+    sourceChecksum: EMPTY_CHECKSUM,
+    targetChecksum: EMPTY_CHECKSUM,
+    failures: [],
+  };
+}
+
+/**
+ * Loads the checkpoint for a resumed run. A checkpoint from a different
+ * source is refused, since its cursors would point into the wrong data.
+ */
+export function loadCheckpoint(file: string, source: string): Checkpoint {
+  const now = new Date().toISOString();
+  if (!fs.existsSync(file)) {
+    return { version: 1, source, startedAt: now, updatedAt: now, collections: {} };
+  }
+
+  const checkpoint = JSON.parse(fs.readFileSync(file, 'utf8')) as Checkpoint;
+  if (checkpoint.version !== 1) {
+    throw new Error(`Unsupported checkpoint version in ${file}`);
+  }
+  if (checkpoint.source !== source) {
+    throw new Error(`${file} belongs to ${checkpoint.source}; pass --reset to start over from ${source}`);
+  }
+  return checkpoint;
+}
+
+/** Written to a temporary file first so an interrupted run can't leave half a checkpoint */
+export function saveCheckpoint(file: string, checkpoint: Checkpoint): void {
+  checkpoint.updatedAt = new Date().toISOString();
+  const temporary = `${file}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(checkpoint, null, 2));
+  fs.renameSync(temporary, file);
+}
@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+import type { CollectionProgress, CollectionReconciliation, CollectionSpec, ReconciliationReport } from './types';
+
+export const EMPTY_CHECKSUM = '0'.repeat(64);
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+/**
+ * A stable JSON form of a row: keys sorted at every level and timestamps
+ * normalised, because Postgres hands back "+00:00" where we wrote "Z"
+ */
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.keys(value as object)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = canonical((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toISOString();
+  }
+  return value === undefined ? null : value;
+}
+
+/** Hash of one row over the collection's columns */
+export function rowDigest(row: Record<string, unknown>, columns: readonly string[]): string {
+  const picked = columns.reduce<Record<string, unknown>>((result, column) => {
+    result[column] = row[column];
+    return result;
+  }, {});
+  return createHash('sha256').update(JSON.stringify(canonical(picked))).digest('hex');
+}
+
+/**
+ * Folds row digests together with XOR, so a collection's checksum doesn't
+ * depend on the order rows were read in and survives being resumed
+ */
+export function combineDigests(checksum: string, digests: string[]): string {
+  const result = Buffer.from(checksum, 'hex');
+  digests.forEach(digest => {
+    const bytes = Buffer.from(digest, 'hex');
+    for (let i = 0; i < result.length; i++) {
+      result[i] ^= bytes[i];
+    }
+  });
+  return result.toString('hex');
+}
+
+export function reconcile(
+  spec: CollectionSpec,
+  progress: CollectionProgress,
+  targetCount: number | null,
+  dryRun: boolean
+): CollectionReconciliation {
+  const transformFailures = progress.failures.filter(failure => failure.stage === 'transform').length;
+  return {
+    collection: spec.name,
+    table: spec.table,
+    sourceCount: progress.read,
+    transformedCount: progress.read - transformFailures,
+    writtenCount: progress.written,
+    targetCount,
+    sourceChecksum: progress.sourceChecksum,
+    targetChecksum: dryRun ? null : progress.targetChecksum,
+    checksumsMatch: dryRun ? null : progress.sourceChecksum === progress.targetChecksum,
+    failures: progress.failures,
+  };
+}
+
+export function printSummary(report: ReconciliationReport): void {
+  console.log(`\n📊 Reconciliation (${report.dryRun ? 'dry run' : 'live'}, source ${report.source})`);
+  report.collections.forEach(item => {
+    const checksum = item.checksumsMatch === null ? '' : item.checksumsMatch ? ' ✓ checksum' : ' ✗ checksum mismatch';
+    const target = item.targetCount === null ? '' : `, ${item.targetCount} in ${item.table}`;
+    console.log(
+      `   - ${item.collection}: ${item.sourceCount} read, ${item.transformedCount} transformed, ` +
+      `${item.writtenCount} written${target}, ${item.failures.length} failed${checksum}`
+    );
+  });
+  if (!report.complete) {
+    console.log('⚠️ Some collections did not finish; rerun to resume from the checkpoint');
+  }
+}
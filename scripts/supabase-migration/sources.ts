@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CollectionSpec, MigrationSource, SourceDocument } from './types';
+
+type ExportedDocs = Record<string, any>[] | Record<string, Record<string, any>>;
+
+const SUBCOLLECTIONS_KEY = '__collections__';
+
+/**
+ * Reads a JSON export of the Firestore database. The export is either one
+ * file holding every collection or a directory of <collection>.json files.
+ * A collection is an array of documents with an `id` or an object keyed by
+ * document ID, and subcollections sit under a document's `__collections__`
+ * key, the layout firestore-export tools produce.
+ */
+export class FixtureSource implements MigrationSource {
+  readonly name: string;
+  private documents = new Map<string, SourceDocument[]>();
+
+  constructor(fixturePath: string) {
+    this.name = `fixtures:${fixturePath}`;
+
+    const stat = fs.statSync(fixturePath);
+    const collections: Record<string, ExportedDocs> = stat.isDirectory()
+      ? Object.fromEntries(
+          fs.readdirSync(fixturePath)
+            .filter(file => file.endsWith('.json'))
+            .map(file => [path.basename(file, '.json'), readJson(path.join(fixturePath, file))])
+        )
+      : readJson(fixturePath);
+
+    Object.entries(collections).forEach(([collectionId, docs]) => this.collect(collectionId, docs, ''));
+    this.documents.forEach(list => list.sort((a, b) => a.path.localeCompare(b.path)));
+  }
+
+  private collect(collectionId: string, docs: ExportedDocs, parentPath: string) {
+    const entries = Array.isArray(docs)
+      ? docs.map(doc => [String(doc.id), doc] as const)
+      : Object.entries(docs);
+
+    entries.forEach(([id, raw]) => {
+      const { [SUBCOLLECTIONS_KEY]: subcollections, id: _id, ...data } = raw;
+      const docPath = `${parentPath}${collectionId}/${id}`;
+      const parentSegments = parentPath.split('/').filter(Boolean);
+
+      const list = this.documents.get(collectionId) ?? [];
+      list.push({ path: docPath, id, parentId: parentSegments[parentSegments.length - 1] ?? null, data });
+      this.documents.set(collectionId, list);
+
+      Object.entries((subcollections ?? {}) as Record<string, ExportedDocs>).forEach(([childId, childDocs]) =>
+        this.collect(childId, childDocs, `${docPath}/`)
+      );
+    });
+  }
+
+  async *stream(spec: CollectionSpec, { after, batchSize }: { after: string | null; batchSize: number }) {
+    const pending = (this.documents.get(spec.collection) ?? [])
+      .filter(doc => matchesParent(doc.path, spec))
+      .filter(doc => after === null || doc.path.localeCompare(after) > 0);
+
+    for (let start = 0; start < pending.length; start += batchSize) {
+      yield pending.slice(start, start + batchSize);
+    }
+  }
+
+  async close() {}
+}
+
+/**
+ * Pages through a live project with the admin SDK, ordered by document ID
+ * so a checkpointed path resumes the query. Subcollections are read as a
+ * collection group.
+ */
+export class FirestoreSource implements MigrationSource {
+  readonly name: string;
+
+  private constructor(private readonly admin: typeof import('firebase-admin'), projectId: string) {
+    this.name = `firestore:${projectId}`;
+  }
+
+  static async connect(): Promise<FirestoreSource> {
+    const missing = ['NEXT_PUBLIC_FIREBASE_PROJECT_ID', 'FIREBASE_ADMIN_CLIENT_EMAIL', 'FIREBASE_ADMIN_PRIVATE_KEY']
+      .filter(name => !process.env[name]);
+    if (missing.length) {
+      throw new Error(`Missing environment variables: ${missing.join(', ')}`);
+    }
+
+    // Loaded lazily so fixture runs work without the admin SDK or credentials
+    const admin = await import('firebase-admin');
+    const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID as string;
+    if (!admin.apps.length) {
+      admin.initializeApp({
+        credential: admin.credential.cert({
+          projectId,
+          clientEmail: process.env.FIREBASE_ADMIN_CLIENT_EMAIL,
+          privateKey: process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+        }),
+      });
+    }
+    return new FirestoreSource(admin, projectId);
+  }
+
+  async *stream(spec: CollectionSpec, { after, batchSize }: { after: string | null; batchSize: number }) {
+    const db = this.admin.firestore();
+    const base = spec.parent ? db.collectionGroup(spec.collection) : db.collection(spec.collection);
+    // Collection group cursors are full paths; root collection cursors are IDs
+    const cursorOf = (docPath: string) => (spec.parent ? docPath : docPath.split('/').pop() as string);
+
+    let cursor = after;
+    for (;;) {
+      let query = base.orderBy(this.admin.firestore.FieldPath.documentId()).limit(batchSize);
+      if (cursor) {
+        query = query.startAfter(cursorOf(cursor));
+      }
+
+      const snapshot = await query.get();
+      if (snapshot.empty) return;
+      cursor = snapshot.docs[snapshot.docs.length - 1].ref.path;
+
+      const batch = snapshot.docs
+        .filter(doc => matchesParent(doc.ref.path, spec))
+        .map(doc => ({
+          path: doc.ref.path,
+          id: doc.id,
+          parentId: doc.ref.parent.parent?.id ?? null,
+          data: doc.data(),
+        }));
+      if (batch.length) {
+        yield batch;
+      }
+      if (snapshot.size < batchSize) return;
+    }
+  }
+
+  async close() {
+    await Promise.all(this.admin.apps.map(app => app?.delete()));
+  }
+}
+
+function readJson(file: string) {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+// A collection group also matches same-named subcollections of other parents
+function matchesParent(docPath: string, spec: CollectionSpec): boolean {
+  const segments = docPath.split('/');
+  return spec.parent ? segments.length === 4 && segments[0] === spec.parent : segments.length === 2;
+}
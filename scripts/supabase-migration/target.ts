@@ -0,0 +1,41 @@
+import type { MigrationTarget } from './types';
+
+/**
+ * Writes with the service role key, which bypasses row level security;
+ * the anon key the app uses can't insert into most tables.
+ */
+export class SupabaseTarget implements MigrationTarget {
+  readonly name: string;
+
+  private constructor(private readonly client: import('@supabase/supabase-js').SupabaseClient, url: string) {
+    this.name = `supabase:${url}`;
+  }
+
+  static async connect(): Promise<SupabaseTarget> {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error('Missing environment variables: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    }
+
+    const { createClient } = await import('@supabase/supabase-js');
+    return new SupabaseTarget(createClient(url, serviceRoleKey, { auth: { persistSession: false } }), url);
+  }
+
+  async upsert(table: string, rows: Record<string, unknown>[]) {
+    const { error } = await this.client.from(table).upsert(rows, { onConflict: 'id' });
+    if (error) throw new Error(error.message);
+  }
+
+  async fetch(table: string, ids: string[], columns: readonly string[]) {
+    const { data, error } = await this.client.from(table).select(columns.join(',')).in('id', ids);
+    if (error) throw new Error(error.message);
+    return (data ?? []) as unknown as Record<string, unknown>[];
+  }
+
+  async count(table: string) {
+    const { count, error } = await this.client.from(table).select('id', { count: 'exact', head: true });
+    if (error) throw new Error(error.message);
+    return count;
+  }
+}
@@ -0,0 +1,456 @@
+import type {
+  SupabaseProfile,
+  SupabaseTimelineEvent,
+  SupabaseUniversity,
+} from '../../src/lib/supabase-services';
+import { toTimelineEventType } from '../../src/utils/timelineConverters';
+import { fuzzyDateColumn } from '../../src/utils/date';
+import { CollectionSpec, SourceDocument, TransformError } from './types';
+
+/*
+ * Pure document-to-row transforms. Nothing here touches Firestore or
+ * Supabase, so a fixture export goes through exactly the same code as a
+ * live project.
+ */
+
+/**
+ * Firestore timestamps arrive as admin SDK Timestamps from a live project
+ * and as plain objects ({ _seconds }, { seconds } or
+ * { __datatype__: 'timestamp', value }) from JSON exports; older documents
+ * hold ISO strings or epoch milliseconds.
+ */
+export function toIso(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    date = new Date(value);
+  } else if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    date = (value as { toDate: () => Date }).toDate();
+  } else if (typeof value === 'object') {
+    const stamp = (value as { __datatype__?: string; value?: unknown }).__datatype__ === 'timestamp'
+      ? (value as { value: Record<string, number> }).value
+      : value as Record<string, number>;
+    const seconds = stamp._seconds ?? stamp.seconds;
+    const nanos = stamp._nanoseconds ?? stamp.nanoseconds ?? 0;
+    if (typeof seconds !== 'number') {
+      throw new TransformError(`${field} is not a timestamp`);
+    }
+    date = new Date(seconds * 1000 + Math.floor(nanos / 1e6));
+  } else {
+    throw new TransformError(`${field} is not a timestamp`);
+  }
+
+  if (Number.isNaN(date.getTime())) {
+    throw new TransformError(`${field} is not a valid date`);
+  }
+  return date.toISOString();
+}
+
+const text = (...values: unknown[]): string | null => {
+  const found = values.find(value => typeof value === 'string' && value.trim() !== '');
+  return (found as string | undefined) ?? null;
+};
+
+const requiredText = (field: string, ...values: unknown[]): string => {
+  const found = text(...values);
+  if (found === null) {
+    throw new TransformError(`${field} is missing`);
+  }
+  return found;
+};
+
+const numberOrNull = (value: unknown, field: string): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new TransformError(`${field} is not a number`);
+  }
+  return parsed;
+};
+
+const stringList = (...values: unknown[]): string[] => {
+  const found = values.find(Array.isArray) as unknown[] | undefined;
+  return (found ?? []).filter((item): item is string => typeof item === 'string');
+};
+
+/** An enum column: unset falls back, anything unknown fails the record */
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T, field: string): T => {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new TransformError(`${field} "${String(value)}" is not one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+/** Rows keep their creation time; a document without one can't be placed */
+const timestamps = (data: Record<string, any>) => {
+  const createdAt = toIso(data.createdAt, 'createdAt') ?? toIso(data.updatedAt, 'updatedAt');
+  if (!createdAt) {
+    throw new TransformError('createdAt is missing');
+  }
+  return { createdAt, updatedAt: toIso(data.updatedAt, 'updatedAt') ?? createdAt };
+};
+
+const parentOf = (doc: SourceDocument): string => {
+  if (!doc.parentId) {
+    throw new TransformError('document has no parent profile');
+  }
+  return doc.parentId;
+};
+
+export interface SupabaseUserRow {
+  id: string;
+  email: string;
+  displayName: string | null;
+  emailVerified: boolean;
+  photoUrl: string | null;
+  preferences: any;
+  isPlatformAdmin: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SupabaseStoryAnswerRow {
+  id: string;
+  profileId: string;
+  questionId: string;
+  answer: string;
+  isPrivate: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string | null;
+}
+
+export interface SupabaseMediaFileRow {
+  id: string;
+  profileId: string | null;
+  folderId: string | null;
+  fileName: string | null;
+  fileUrl: string;
+  fileType: string;
+  fileSize: number | null;
+  mimeType: string | null;
+  width: number | null;
+  height: number | null;
+  thumbnailUrl: string | null;
+  duration: number | null;
+  caption: string | null;
+  tags: string[];
+  uploadedAt: string;
+  uploadedBy: string | null;
+}
+
+export interface SupabaseCommentRow {
+  id: string;
+  profileId: string;
+  parentCommentId: string | null;
+  content: string;
+  isApproved: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string | null;
+}
+
+export interface SupabaseSupportTicketRow {
+  id: string;
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+  status: string;
+  priority: string;
+  type: string;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SupabaseAdminSettingRow {
+  id: string;
+  key: string;
+  value: any;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function transformUser({ id, data }: SourceDocument): SupabaseUserRow {
+  return {
+    id,
+    email: requiredText('email', data.email),
+    displayName: text(data.displayName, data.displayUsername),
+    emailVerified: data.emailVerified === true,
+    photoUrl: text(data.photoURL, data.photoUrl),
+    preferences: data.preferences ?? { receiveUpdates: true },
+    isPlatformAdmin: data.isPlatformAdmin === true,
+    ...timestamps(data),
+  };
+}
+
+/** Admins move to the university_admins table, which this tool doesn't fill */
+export function transformUniversity({ id, data }: SourceDocument): SupabaseUniversity {
+  return {
+    id,
+    name: requiredText('name', data.name),
+    domain: text(data.domain),
+    logoUrl: text(data.logoUrl, data.logo),
+    description: text(data.description),
+    location: text(data.location),
+    website: text(data.website),
+    contactEmail: text(data.contact?.email),
+    contactPhone: text(data.contact?.phone),
+    // The Supabase university repository reads createdBy from settings
+    settings: { ...(data.settings ?? {}), ...(data.createdBy ? { createdBy: data.createdBy } : {}) },
+    branding: data.branding ?? {},
+    isActive: data.isActive !== false,
+    ...timestamps(data),
+  };
+}
+
+/**
+ * Current profiles keep their details under basicInfo; profiles from
+ * before that used flat fields, so both are read.
+ */
+export function transformProfile({ id, data }: SourceDocument): SupabaseProfile {
+  const basicInfo = data.basicInfo ?? {};
+  // Partly known dates ('1923', '192X~') go in as their earliest day and
+  // keep their text in metadata.fuzzyDates
+  const fuzzyDates: Record<string, string> = {};
+  const profileDate = (field: 'dateOfBirth' | 'dateOfDeath') => {
+    const value = basicInfo[field] ?? data[field];
+    const fuzzy = fuzzyDateColumn(value);
+    if (!fuzzy) return toIso(value, field);
+    fuzzyDates[field] = fuzzy.text;
+    return fuzzy.iso;
+  };
+  const dateOfBirth = profileDate('dateOfBirth');
+  const dateOfDeath = profileDate('dateOfDeath');
+  const lifeStory = data.lifeStory
+    ? { content: data.lifeStory.content ?? '', updatedAt: toIso(data.lifeStory.updatedAt, 'lifeStory.updatedAt') }
+    : undefined;
+
+  return {
+    id,
+    universityId: text(data.universityId),
+    userId: text(data.userId, data.createdBy),
+    type: oneOf(data.type, ['personal', 'memorial', 'university'], data.isDeceased || dateOfDeath ? 'memorial' : 'personal', 'type'),
+    status: oneOf(data.status, ['draft', 'published', 'pending_review', 'archived'], 'draft', 'status'),
+    visibility: oneOf(data.visibility, ['public', 'private', 'restricted'], data.isPublic === false ? 'private' : 'public', 'visibility'),
+    fullName: requiredText('name', data.name, data.fullName),
+    bio: text(basicInfo.biography, data.bio, data.description),
+    photoUrl: text(basicInfo.photo, data.photoURL, data.photoUrl),
+    coverImageUrl: text(data.coverImageUrl, data.coverImage),
+    department: text(data.department),
+    graduationYear: numberOrNull(data.graduationYear, 'graduationYear'),
+    location: text(data.location),
+    contact: data.contact ?? {},
+    dateOfBirth,
+    dateOfDeath,
+    birthLocation: text(basicInfo.birthLocation, data.birthLocation),
+    deathLocation: text(basicInfo.deathLocation, data.deathLocation),
+    tags: stringList(data.tags, data.metadata?.tags),
+    metadata: {
+      ...(data.metadata ?? {}),
+      ...(data.createdBy ? { createdBy: data.createdBy } : {}),
+      ...(lifeStory ? { lifeStory } : {}),
+      ...(Object.keys(fuzzyDates).length ? { fuzzyDates } : {}),
+    },
+    isFeatured: data.isFeatured === true,
+    ...timestamps(data),
+    publishedAt: toIso(data.publishedAt, 'publishedAt'),
+    publishedBy: text(data.publishedBy),
+  };
+}
+
+export function transformTimelineEvent(doc: SourceDocument): SupabaseTimelineEvent {
+  const { id, data } = doc;
+  const metadata = data.metadata ?? {};
+  const details = data.details ?? {};
+  const dateText = (value: unknown, field: string) =>
+    typeof value === 'string' ? text(value) : toIso(value, field);
+
+  const startDate = dateText(data.startDate ?? data.start_date, 'startDate');
+  if (!startDate) {
+    throw new TransformError('startDate is missing');
+  }
+
+  return {
+    id,
+    profileId: parentOf(doc),
+    // 'job', 'other' and 'achievement' were all stored at some point
+    type: toTimelineEventType(data.type).type,
+    title: requiredText('title', data.title),
+    description: text(data.description),
+    startDate,
+    endDate: dateText(data.endDate ?? data.end_date, 'endDate'),
+    location: text(data.location),
+    institution: text(details.institution, data.institution, metadata.institution),
+    degree: text(details.degree, data.degree, metadata.degree),
+    fieldOfStudy: text(details.fieldOfStudy, data.fieldOfStudy, metadata.fieldOfStudy),
+    company: text(details.company, data.company, metadata.company),
+    position: text(details.position, data.position, metadata.position),
+    mediaUrls: stringList(data.mediaUrls),
+    importance: oneOf(data.importance ?? metadata.importance, ['high', 'medium', 'low'], 'medium', 'importance'),
+    visibility: oneOf(data.visibility ?? metadata.visibility, ['public', 'private'], 'public', 'visibility'),
+    tags: stringList(data.tags, metadata.tags),
+    version: numberOrNull(data.version, 'version') ?? 1,
+    ...timestamps(data),
+    createdBy: text(data.createdBy),
+  };
+}
+
+export function transformStoryAnswer(doc: SourceDocument): SupabaseStoryAnswerRow {
+  const { id, data } = doc;
+  return {
+    id,
+    profileId: parentOf(doc),
+    questionId: text(data.questionId) ?? id,
+    answer: requiredText('answer', data.answer),
+    isPrivate: data.isPrivate === true,
+    ...timestamps(data),
+    createdBy: text(data.authorId, data.createdBy),
+  };
+}
+
+export function transformMediaFile({ id, data }: SourceDocument): SupabaseMediaFileRow {
+  const metadata = data.metadata ?? {};
+  const uploadedAt = toIso(data.uploadedAt, 'uploadedAt') ?? toIso(data.createdAt, 'createdAt');
+  if (!uploadedAt) {
+    throw new TransformError('uploadedAt is missing');
+  }
+
+  return {
+    id,
+    profileId: text(data.profileId),
+    folderId: text(data.folderId),
+    fileName: text(data.fileName, data.name),
+    fileUrl: requiredText('url', data.url, data.fileUrl),
+    fileType: text(data.fileType, data.type) ?? 'image',
+    fileSize: numberOrNull(data.fileSize ?? data.size, 'fileSize'),
+    mimeType: text(data.mimeType),
+    width: numberOrNull(data.width ?? metadata.width, 'width'),
+    height: numberOrNull(data.height ?? metadata.height, 'height'),
+    thumbnailUrl: text(data.thumbnailUrl, metadata.thumbnailUrl),
+    duration: numberOrNull(data.duration ?? metadata.duration, 'duration'),
+    caption: text(data.caption),
+    tags: stringList(data.tags),
+    uploadedAt,
+    uploadedBy: text(data.uploadedBy, data.createdBy),
+  };
+}
+
+/** Hidden and deleted comments move over unapproved rather than being dropped */
+export function transformComment({ id, data }: SourceDocument): SupabaseCommentRow {
+  return {
+    id,
+    profileId: requiredText('profileId', data.profileId),
+    parentCommentId: text(data.parentId, data.parentCommentId),
+    content: requiredText('content', data.content, data.message),
+    isApproved: data.isApproved ?? !(data.isHidden || data.isDeleted),
+    ...timestamps(data),
+    createdBy: text(data.userId, data.authorId, data.createdBy?.id),
+  };
+}
+
+export function transformSupportTicket({ id, data }: SourceDocument): SupabaseSupportTicketRow {
+  return {
+    id,
+    name: text(data.name) ?? '',
+    email: requiredText('email', data.email),
+    subject: text(data.subject) ?? '',
+    message: requiredText('message', data.message),
+    status: text(data.status) ?? 'new',
+    priority: text(data.priority) ?? 'medium',
+    type: text(data.type) ?? 'contact',
+    createdBy: text(data.createdBy),
+    ...timestamps(data),
+  };
+}
+
+/** Settings documents often carry no timestamps, so the epoch stands in */
+export function transformAdminSetting({ id, data }: SourceDocument): SupabaseAdminSettingRow {
+  const createdAt = toIso(data.createdAt, 'createdAt') ?? toIso(data.updatedAt, 'updatedAt') ?? new Date(0).toISOString();
+  return {
+    id,
+    key: id,
+    value: data,
+    createdAt,
+    updatedAt: toIso(data.updatedAt, 'updatedAt') ?? createdAt,
+  };
+}
+
+const columnsOf = <Row>(...columns: (keyof Row & string)[]) => columns;
+
+/**
+ * Every collection the migration moves, in dependency order: rows that
+ * reference a profile come after profiles.
+ */
+export const MIGRATION_COLLECTIONS: CollectionSpec[] = [
+  {
+    name: 'users',
+    collection: 'users',
+    table: 'users',
+    columns: columnsOf<SupabaseUserRow>('id', 'email', 'displayName', 'emailVerified', 'photoUrl', 'preferences', 'isPlatformAdmin', 'createdAt', 'updatedAt'),
+    transform: transformUser,
+  },
+  {
+    name: 'universities',
+    collection: 'universities',
+    table: 'universities',
+    columns: columnsOf<SupabaseUniversity>('id', 'name', 'domain', 'logoUrl', 'description', 'location', 'website', 'contactEmail', 'contactPhone', 'settings', 'branding', 'isActive', 'createdAt', 'updatedAt'),
+    transform: transformUniversity,
+  },
+  {
+    name: 'profiles',
+    collection: 'profiles',
+    table: 'profiles',
+    columns: columnsOf<SupabaseProfile>('id', 'universityId', 'userId', 'type', 'status', 'visibility', 'fullName', 'bio', 'photoUrl', 'coverImageUrl', 'department', 'graduationYear', 'location', 'contact', 'dateOfBirth', 'dateOfDeath', 'birthLocation', 'deathLocation', 'tags', 'metadata', 'isFeatured', 'createdAt', 'updatedAt', 'publishedAt', 'publishedBy'),
+    transform: transformProfile,
+  },
+  {
+    name: 'timeline',
+    collection: 'timeline',
+    parent: 'profiles',
+    table: 'timeline_events',
+    columns: columnsOf<SupabaseTimelineEvent>('id', 'profileId', 'type', 'title', 'description', 'startDate', 'endDate', 'location', 'institution', 'degree', 'fieldOfStudy', 'company', 'position', 'mediaUrls', 'importance', 'visibility', 'tags', 'version', 'createdAt', 'updatedAt', 'createdBy'),
+    transform: transformTimelineEvent,
+  },
+  {
+    name: 'stories',
+    collection: 'stories',
+    parent: 'profiles',
+    table: 'story_answers',
+    columns: columnsOf<SupabaseStoryAnswerRow>('id', 'profileId', 'questionId', 'answer', 'isPrivate', 'createdAt', 'updatedAt', 'createdBy'),
+    transform: transformStoryAnswer,
+  },
+  {
+    name: 'media',
+    collection: 'media',
+    table: 'media_files',
+    columns: columnsOf<SupabaseMediaFileRow>('id', 'profileId', 'folderId', 'fileName', 'fileUrl', 'fileType', 'fileSize', 'mimeType', 'width', 'height', 'thumbnailUrl', 'duration', 'caption', 'tags', 'uploadedAt', 'uploadedBy'),
+    transform: transformMediaFile,
+  },
+  {
+    name: 'comments',
+    collection: 'comments',
+    table: 'comments',
+    columns: columnsOf<SupabaseCommentRow>('id', 'profileId', 'parentCommentId', 'content', 'isApproved', 'createdAt', 'updatedAt', 'createdBy'),
+    transform: transformComment,
+  },
+  {
+    name: 'support_tickets',
+    collection: 'support_tickets',
+    table: 'support_tickets',
+    columns: columnsOf<SupabaseSupportTicketRow>('id', 'name', 'email', 'subject', 'message', 'status', 'priority', 'type', 'createdBy', 'createdAt', 'updatedAt'),
+    transform: transformSupportTicket,
+  },
+  {
+    name: 'admin_settings',
+    collection: 'adminSettings',
+    table: 'admin_settings',
+    columns: columnsOf<SupabaseAdminSettingRow>('id', 'key', 'value', 'createdAt', 'updatedAt'),
+    transform: transformAdminSetting,
+  },
+];
@@ -0,0 +1,103 @@
+/**
+ * Shapes shared by the Firebase-to-Supabase migration CLI
+ * (scripts/migrate-to-supabase.ts).
+ */
+
+/** A Firestore document as the migration reads it */
+export interface SourceDocument {
+  /** Full document path, e.g. profiles/abc/timeline/xyz; also the resume cursor */
+  path: string;
+  id: string;
+  /** ID of the owning document for subcollections */
+  parentId: string | null;
+  data: Record<string, any>;
+}
+
+/**
+ * Where documents come from. Batches are yielded in path order so a
+ * checkpointed cursor can restart the stream after the last written batch.
+ */
+export interface MigrationSource {
+  readonly name: string;
+  stream(collection: CollectionSpec, options: { after: string | null; batchSize: number }): AsyncIterable<SourceDocument[]>;
+  close(): Promise<void>;
+}
+
+/** Where transformed rows go */
+export interface MigrationTarget {
+  readonly name: string;
+  upsert(table: string, rows: Record<string, unknown>[]): Promise<void>;
+  /** Reads rows back by ID, limited to the given columns */
+  fetch(table: string, ids: string[], columns: readonly string[]): Promise<Record<string, unknown>[]>;
+  count(table: string): Promise<number | null>;
+}
+
+/** Thrown by a transform when a document can't become a valid row */
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+export interface CollectionSpec<Row extends { id: string } = any> {
+  /** Name used on the command line, in checkpoints and in the report */
+  name: string;
+  /** Firestore collection ID; read as a collection group when `parent` is set */
+  collection: string;
+  /** Parent collection of a subcollection, e.g. profiles for timeline */
+  parent?: string;
+  table: string;
+  /** The columns a row is written with, and compared on during verification */
+  columns: readonly (keyof Row & string)[];
+  transform(doc: SourceDocument): Row;
+}
+
+export interface MigrationFailure {
+  path: string;
+  stage: 'transform' | 'write' | 'verify';
+  error: string;
+}
+
+/** Progress of one collection, persisted after every batch */
+export interface CollectionProgress {
+  cursor: string | null;
+  done: boolean;
+  read: number;
+  written: number;
+  /** Order-independent digest of every transformed row so far */
+  sourceChecksum: string;
+  /** The same digest over the rows read back from the target */
+  targetChecksum: string;
+  failures: MigrationFailure[];
+}
+
+export interface Checkpoint {
+  version: 1;
+  source: string;
+  startedAt: string;
+  updatedAt: string;
+  collections: Record<string, CollectionProgress>;
+}
+
+export interface CollectionReconciliation {
+  collection: string;
+  table: string;
+  sourceCount: number;
+  transformedCount: number;
+  writtenCount: number;
+  /** Rows in the target table after the run; null in a dry run */
+  targetCount: number | null;
+  sourceChecksum: string;
+  targetChecksum: string | null;
+  checksumsMatch: boolean | null;
+  failures: MigrationFailure[];
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  source: string;
+  dryRun: boolean;
+  complete: boolean;
+  collections: CollectionReconciliation[];
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useStoriatsAdmins } from '@/hooks/useStoriatsAdmins';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Spinner } from '@/components/ui/Spinner';
+import { Icon } from '@/components/ui/Icon';
+import { Breadcrumbs } from '@/components/ui/Breadcrumbs';
+import { auditLogService, auditEntriesToCsv } from '@/services/auditLogService';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_RESOURCE_TYPES,
+  AuditAction,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditResourceType,
+} from '@/types/audit';
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+interface FilterForm {
+  actorId: string;
+  resourceType: string;
+  resourceId: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  actorId: '',
+  resourceType: '',
+  resourceId: '',
+  action: '',
+  from: '',
+  to: '',
+};
+
+const toQueryFilters = (form: FilterForm): AuditLogFilters => ({
+  actorId: form.actorId.trim() || undefined,
+  resourceType: (form.resourceType || undefined) as AuditResourceType | undefined,
+  resourceId: form.resourceId.trim() || undefined,
+  action: (form.action || undefined) as AuditAction | undefined,
+  from: form.from ? new Date(`${form.from}T00:00:00`) : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`) : undefined,
+});
+
+const describeActor = (entry: AuditLogEntry) =>
+  entry.actor.name || entry.actor.email || entry.actor.id;
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { isStoriatsAdmin, loading: storiatsAdminsLoading } = useStoriatsAdmins();
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasAccess = !!user?.email && isStoriatsAdmin(user.email.toLowerCase());
+
+  useEffect(() => {
+    if (authLoading || storiatsAdminsLoading) return;
+    if (!hasAccess) {
+      router.push('/');
+    }
+  }, [authLoading, storiatsAdminsLoading, hasAccess, router]);
+
+  const loadEntries = useCallback(async (
+    filters: AuditLogFilters,
+    after: QueryDocumentSnapshot<DocumentData> | null = null
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await auditLogService.queryEvents(filters, PAGE_SIZE, after);
+      setEntries(prev => (after ? [...prev, ...page.entries] : page.entries));
+      setCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading audit log:', err);
+      setError('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasAccess) {
+      loadEntries(appliedFilters);
+    }
+  }, [hasAccess, appliedFilters, loadEntries]);
+
+  const updateForm = (field: keyof FilterForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(toQueryFilters(form));
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FILTERS);
+    setAppliedFilters({});
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const rows: AuditLogEntry[] = [];
+      let after: QueryDocumentSnapshot<DocumentData> | null = null;
+      do {
+        const page = await auditLogService.queryEvents(appliedFilters, EXPORT_PAGE_SIZE, after);
+        rows.push(...page.entries);
+        after = page.nextCursor;
+      } while (after && rows.length < MAX_EXPORT_ROWS);
+
+      const blob = new Blob([auditEntriesToCsv(rows)], { type: 'text/csv;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success(
+        after ? `Exported the first ${rows.length} matching events` : `Exported ${rows.length} events`
+      );
+    } catch (err) {
+      console.error('Error exporting audit log:', err);
+      toast.error('Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (authLoading || storiatsAdminsLoading || !hasAccess) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 to-white">
+        <Spinner className="w-8 h-8 text-indigo-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: 'Admin', href: '/admin' },
+          { label: 'Audit Log' }
+        ]}
+      />
+
+      <div className="mt-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Audit Log</h1>
+          <p className="text-gray-600 mb-8">Who changed what, and when</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={exporting}>
+          <Icon name="download" className="w-4 h-4 mr-2" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      <Card className="p-6 mb-6">
+        <form onSubmit={handleApply} className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+          <Input
+            id="audit-actor"
+            label="Actor ID"
+            value={form.actorId}
+            onChange={(e) => updateForm('actorId', e.target.value)}
+          />
+          <div className="mb-4">
+            <label htmlFor="audit-resource-type" className="block text-sm font-medium leading-6 text-gray-900 mb-1">
+              Resource type
+            </label>
+            <Select
+              id="audit-resource-type"
+              value={form.resourceType}
+              onChange={(value) => updateForm('resourceType', value)}
+              options={[
+                { value: '', label: 'All resources' },
+                ...AUDIT_RESOURCE_TYPES.map(type => ({ value: type, label: type })),
+              ]}
+            />
+          </div>
+          <Input
+            id="audit-resource-id"
+            label="Resource ID"
+            value={form.resourceId}
+            onChange={(e) => updateForm('resourceId', e.target.value)}
+          />
+          <div className="mb-4">
+            <label htmlFor="audit-action" className="block text-sm font-medium leading-6 text-gray-900 mb-1">
+              Action
+            </label>
+            <Select
+              id="audit-action"
+              value={form.action}
+              onChange={(value) => updateForm('action', value)}
+              options={[
+                { value: '', label: 'All actions' },
+                ...AUDIT_ACTIONS.map(action => ({ value: action, label: action })),
+              ]}
+            />
+          </div>
+          <Input
+            id="audit-from"
+            label="From"
+            type="date"
+            value={form.from}
+            onChange={(e) => updateForm('from', e.target.value)}
+          />
+          <Input
+            id="audit-to"
+            label="To"
+            type="date"
+            value={form.to}
+            onChange={(e) => updateForm('to', e.target.value)}
+          />
+          <div className="md:col-span-3 flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={handleReset}>
+              Reset
+            </Button>
+            <Button type="submit">Apply filters</Button>
+          </div>
+        </form>
+      </Card>
+
+      {error && <div className="text-center py-4 text-red-600">{error}</div>}
+
+      <Card className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-500">When</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-500">Actor</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-500">Action</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-500">Resource</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-500">Changes</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {entries.map(entry => (
+              <tr key={entry.id} className="align-top">
+                <td className="px-4 py-3 whitespace-nowrap text-gray-700">
+                  {format(entry.timestamp, 'yyyy-MM-dd HH:mm:ss')}
+                </td>
+                <td className="px-4 py-3 text-gray-900" title={entry.actor.id}>
+                  {describeActor(entry)}
+                </td>
+                <td className="px-4 py-3 font-mono text-gray-900">{entry.action}</td>
+                <td className="px-4 py-3 text-gray-700">
+                  <div>{entry.resourceType}</div>
+                  <div className="font-mono text-xs text-gray-500">{entry.resourceId}</div>
+                </td>
+                <td className="px-4 py-3 text-gray-700">
+                  {entry.changes?.length ? (
+                    <ul className="space-y-1">
+                      {entry.changes.map(change => (
+                        <li key={change.field}>
+                          <span className="font-medium">{change.field}</span>
+                          {': '}
+                          <span className="text-red-600 line-through">{JSON.stringify(change.oldValue)}</span>
+                          {' → '}
+                          <span className="text-green-700">{JSON.stringify(change.newValue)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {!loading && entries.length === 0 && (
+          <div className="text-center py-8 text-gray-500">No audit events match these filters</div>
+        )}
+      </Card>
+
+      <div className="mt-4 flex justify-center">
+        {loading ? (
+          <Spinner className="w-6 h-6 text-indigo-600" />
+        ) : (
+          cursor && (
+            <Button variant="outline" onClick={() => loadEntries(appliedFilters, cursor)}>
+              Load more
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
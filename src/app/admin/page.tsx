@@ -181,6 +181,34 @@ export default function AdminDashboard() {
               Manage Content
             </Button>
           </Card>
+
+          <Card className="p-6 bg-white/80 backdrop-blur-sm border border-indigo-100 shadow-lg hover:shadow-xl transition-all duration-300">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Audit Log</h2>
+              <Icon name="clock" className="w-6 h-6 text-indigo-600" />
+            </div>
+            <p className="mb-4 text-gray-600">Review who changed what across the platform</p>
+            <Button 
+              onClick={() => handleNavigation('/admin/audit')}
+              className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+            >
+              View Audit Log
+            </Button>
+          </Card>
+
+          <Card className="p-6 bg-white/80 backdrop-blur-sm border border-indigo-100 shadow-lg hover:shadow-xl transition-all duration-300">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Story Prompts</h2>
+              <Icon name="document" className="w-6 h-6 text-indigo-600" />
+            </div>
+            <p className="mb-4 text-gray-600">Edit the prompts every university starts from</p>
+            <Button
+              onClick={() => handleNavigation('/admin/story-prompts')}
+              className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+            >
+              Manage Story Prompts
+            </Button>
+          </Card>
         </div>
       </div>
     </div>
@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useStoriatsAdmins } from '@/hooks/useStoriatsAdmins';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { Spinner } from '@/components/ui/Spinner';
+import { Breadcrumbs } from '@/components/ui/Breadcrumbs';
+import { StoryPromptForm } from '@/components/story-prompts/StoryPromptForm';
+import { auditActorFromUser } from '@/services/auditLogService';
+import { storyPromptService, validateStoryPrompts } from '@/services/storyPrompts';
+import { CATEGORIES, QuestionCategory, StoryQuestion } from '@/types/questions';
+
+const AUDIENCE_LABELS = {
+  all: 'Everyone',
+  alumni: 'Alumni',
+  memorial: 'Memorials',
+};
+
+export default function StoryPromptLibraryPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { isStoriatsAdmin, loading: storiatsAdminsLoading } = useStoriatsAdmins();
+  const [prompts, setPrompts] = useState<StoryQuestion[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<Date | undefined>();
+  const [categoryId, setCategoryId] = useState<QuestionCategory>(CATEGORIES[0].id);
+  const [editing, setEditing] = useState<StoryQuestion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const hasAccess = !!user?.email && isStoriatsAdmin(user.email.toLowerCase());
+
+  useEffect(() => {
+    if (authLoading || storiatsAdminsLoading) return;
+    if (!hasAccess) {
+      router.push('/');
+    }
+  }, [authLoading, storiatsAdminsLoading, hasAccess, router]);
+
+  useEffect(() => {
+    if (!hasAccess) return;
+
+    const loadLibrary = async () => {
+      try {
+        const library = await storyPromptService.getLibrary();
+        setPrompts(library.prompts);
+        setUpdatedAt(library.updatedAt);
+      } catch (err) {
+        console.error('Error loading story prompt library:', err);
+        toast.error('Failed to load story prompts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLibrary();
+  }, [hasAccess]);
+
+  const categoryPrompts = prompts.filter(prompt => prompt.categoryId === categoryId);
+  const isSaved = (id: string) => prompts.some(prompt => prompt.id === id);
+
+  // Swaps a prompt with its neighbour in the same category
+  const move = (index: number, offset: number) => {
+    const from = prompts.indexOf(categoryPrompts[index]);
+    const to = prompts.indexOf(categoryPrompts[index + offset]);
+    setPrompts(prev => {
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  const savePrompt = (edited: StoryQuestion) => {
+    setPrompts(prev =>
+      isSaved(edited.id)
+        ? prev.map(prompt => (prompt.id === edited.id ? edited : prompt))
+        : [...prev, edited]
+    );
+    setCategoryId(edited.categoryId);
+    setEditing(null);
+  };
+
+  const deletePrompt = (id: string) => {
+    if (!window.confirm('Remove this prompt for every university? Answers already given are kept.')) return;
+    setPrompts(prev => prev.filter(prompt => prompt.id !== id));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validationError = validateStoryPrompts(prompts);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await storyPromptService.saveLibrary(prompts, auditActorFromUser(user));
+      setPrompts(saved.prompts);
+      setUpdatedAt(saved.updatedAt);
+      toast.success('Story prompt library saved');
+    } catch (err) {
+      console.error('Error saving story prompt library:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save story prompts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (authLoading || storiatsAdminsLoading || !hasAccess || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 to-white">
+        <Spinner className="w-8 h-8 text-indigo-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: 'Admin', href: '/admin' },
+          { label: 'Story Prompts' }
+        ]}
+      />
+
+      <div className="mt-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Story Prompts</h1>
+          <p className="text-gray-600 mb-8">
+            The prompts every university starts from. Universities can turn prompts off, reorder them and add
+            their own.
+            {updatedAt && ` Last saved ${updatedAt.toLocaleString()}.`}
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={saving || !!editing}>
+          {saving ? 'Saving...' : 'Save Library'}
+        </Button>
+      </div>
+
+      <Card className="p-6 space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div className="w-64">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <Select
+              value={categoryId}
+              onChange={(value) => {
+                setCategoryId(value as QuestionCategory);
+                setEditing(null);
+              }}
+              options={CATEGORIES.map(category => ({ value: category.id, label: category.label }))}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setEditing({ id: `${categoryId}_${Date.now()}`, categoryId, text: '' })}
+            disabled={!!editing}
+          >
+            Add prompt
+          </Button>
+        </div>
+
+        {editing && !isSaved(editing.id) && (
+          <StoryPromptForm prompt={editing} onSubmit={savePrompt} onCancel={() => setEditing(null)} />
+        )}
+
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {categoryPrompts.length === 0 && (
+            <li className="p-4 text-sm text-gray-500">There are no prompts in this category.</li>
+          )}
+          {categoryPrompts.map((prompt, index) => (
+            <li key={prompt.id} className="p-4 space-y-3">
+              <div className="flex items-start gap-3">
+                <div className="flex-1">
+                  <p className="text-sm text-gray-900">{prompt.text}</p>
+                  <p className="text-xs text-gray-500">
+                    {prompt.id} · {AUDIENCE_LABELS[prompt.audience ?? 'all']}
+                    {prompt.maxLength && ` · up to ${prompt.maxLength} characters`}
+                    {prompt.locales && Object.keys(prompt.locales).length > 0 &&
+                      ` · ${Object.keys(prompt.locales).join(', ')}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0}>
+                    Up
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => move(index, 1)}
+                    disabled={index === categoryPrompts.length - 1}
+                  >
+                    Down
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(prompt)} disabled={!!editing}>
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deletePrompt(prompt.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+              {editing?.id === prompt.id && (
+                <StoryPromptForm prompt={editing} onSubmit={savePrompt} onCancel={() => setEditing(null)} />
+              )}
+            </li>
+          ))}
+        </ul>
+      </Card>
+    </div>
+  );
+}
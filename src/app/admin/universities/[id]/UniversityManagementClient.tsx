@@ -9,7 +9,15 @@ import { CreateProfileButton } from '@/components/profile/CreateProfileButton';
 import { ProfileList } from '@/components/university/ProfileList';
 import { UserManagement } from '@/components/university/UserManagement';
 import { Analytics } from '@/components/university/Analytics';
+import { ApprovalWorkflowSettings } from '@/components/university/ApprovalWorkflowSettings';
+import { CommentFilterSettings } from '@/components/university/CommentFilterSettings';
+import { CustomDomainSettings } from '@/components/university/CustomDomainSettings';
+import { StoryPromptSettings } from '@/components/university/StoryPromptSettings';
+import { InvitationDashboard } from '@/components/university/InvitationDashboard';
+import { CommentModeration } from '@/components/comments/CommentModeration';
+import { EditorRequestQueue } from '@/components/profile/EditorRequestQueue';
 import { Tabs } from '@/components/ui/Tabs';
+import { Settings } from '@/components/ui/Settings';
 import { Badge } from '@/components/ui/Badge';
 import { getFirebaseServices } from '@/lib/firebase';
 import { collection, query, where, getDocs } from 'firebase/firestore';
@@ -19,6 +27,9 @@ const tabs = [
   { id: 'overview', label: 'Overview', icon: 'home' },
   { id: 'profiles', label: 'Profiles', icon: 'users' },
   { id: 'users', label: 'Users', icon: 'user' },
+  { id: 'invitations', label: 'Invitations', icon: 'user-plus' },
+  { id: 'requests', label: 'Editor Requests', icon: 'user-group' },
+  { id: 'moderation', label: 'Moderation', icon: 'shield' },
   { id: 'analytics', label: 'Analytics', icon: 'bar-chart' },
   { id: 'settings', label: 'Settings', icon: 'cog' }
 ] as const;
@@ -316,6 +327,42 @@ export default function UniversityManagementClient() {
                 </div>
               )}
 
+              {activeTab === 'invitations' && (
+                <div>
+                  <div className="mb-6">
+                    <h2 className="text-xl font-semibold text-gray-900">Invitations</h2>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Invite contributors and track who has accepted
+                    </p>
+                  </div>
+                  <InvitationDashboard universityId={universityId} />
+                </div>
+              )}
+
+              {activeTab === 'requests' && (
+                <div>
+                  <div className="mb-6">
+                    <h2 className="text-xl font-semibold text-gray-900">Editor Requests</h2>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Decide who can edit this university&apos;s profiles
+                    </p>
+                  </div>
+                  <EditorRequestQueue universityId={universityId} />
+                </div>
+              )}
+
+              {activeTab === 'moderation' && (
+                <div>
+                  <div className="mb-6">
+                    <h2 className="text-xl font-semibold text-gray-900">Moderation</h2>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Review reported comments and decide what stays visible
+                    </p>
+                  </div>
+                  <CommentModeration universityId={universityId} />
+                </div>
+              )}
+
               {activeTab === 'analytics' && (
                 <div>
                   <div className="flex justify-between items-center mb-6">
@@ -347,10 +394,13 @@ export default function UniversityManagementClient() {
                       </p>
                     </div>
                   </div>
-                  {/* TODO: Implement settings form */}
-                  <Card className="p-6">
-                    <p className="text-gray-500">Settings form coming soon...</p>
-                  </Card>
+                  <div className="space-y-6">
+                    <Settings universityId={universityId} />
+                    <ApprovalWorkflowSettings universityId={universityId} />
+                    <CommentFilterSettings universityId={universityId} />
+                    <CustomDomainSettings universityId={universityId} />
+                    <StoryPromptSettings universityId={universityId} />
+                  </div>
                 </div>
               )}
             </div>
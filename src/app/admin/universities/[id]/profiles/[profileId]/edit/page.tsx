@@ -7,10 +7,18 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Icon } from '@/components/ui/Icon';
 import { getFirebaseServices } from '@/lib/firebase';
-import { doc, getDoc, updateDoc, Timestamp } from 'firebase/firestore';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { updateWithVersion } from '@/lib/firestore-utils';
+import { isConnectivityError, syncOutbox } from '@/services/syncOutbox';
+import { ProfileFieldsOperation } from '@/types/outbox';
+import { INITIAL_VERSION } from '@/types/repositories';
+import { AppError, VersionConflictError } from '@/utils/errors';
 import { useEffect, useState } from 'react';
-import { MemorialProfile, MemorialProfileFormData, TimelineEvent } from '@/types/profile';
+import { MemorialProfile, MemorialProfileFormData } from '@/types/profile';
 import { toast } from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { computeVersionChanges, versionService, versionActorFromUser } from '@/services/versionService';
+import { publishReason, universitySettingsService } from '@/services/universitySettings';
 
 export default function EditProfilePage() {
   const params = useParams();
@@ -19,6 +27,7 @@ export default function EditProfilePage() {
   const profileId = params.profileId as string;
   const [profile, setProfile] = useState<MemorialProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
 
   useEffect(() => {
     const fetchProfile = async () => {
@@ -30,7 +39,7 @@ export default function EditProfilePage() {
         const profileDoc = await getDoc(profileRef);
         
         if (profileDoc.exists()) {
-          setProfile(profileDoc.data() as MemorialProfile);
+          setProfile({ ...profileDoc.data(), id: profileDoc.id } as MemorialProfile);
         } else {
           console.error('Profile not found');
           router.push(`/admin/universities/${universityId}/profiles`);
@@ -45,28 +54,119 @@ export default function EditProfilePage() {
     fetchProfile();
   }, [universityId, profileId, router]);
 
+  // Edits made without a connection wait on this device and upload in order
+  const queueOffline = async (queued: ProfileFieldsOperation) => {
+    await syncOutbox.enqueue(queued);
+    toast.success("Saved on this device; it will upload when you're back online", { id: 'profile-queued' });
+  };
+
   const handleSubmit = async (formData: MemorialProfileFormData) => {
+    const profilePath = `universities/${universityId}/profiles/${profileId}`;
+    // Only the save that takes the profile live is snapshotted as a publish
+    const publishing = formData.status === 'published' && profile?.status !== 'published';
+    // Profiles that are already public stay editable after the setting is turned off
+    const goingPublic = !!formData.isPublic && !profile?.isPublic;
+    // Both are checked against the university's settings, so they can't wait for a connection
+    const onlineOnly = publishing
+      ? 'You need to be online to publish'
+      : goingPublic ? 'You need to be online to make a profile public' : null;
+
+    // Convert form data to profile data
+    const profileData: Partial<MemorialProfile> = {
+      ...formData,
+      updatedAt: Timestamp.now()
+    };
+    const queued: ProfileFieldsOperation = {
+      kind: 'profile',
+      path: profilePath,
+      changes: profileData,
+      versionField: 'metadata.version',
+      baseVersion: formData.metadata?.version ?? INITIAL_VERSION,
+    };
+
     try {
+      if (syncOutbox.shouldQueue(queued)) {
+        if (onlineOnly) {
+          toast.error(onlineOnly);
+          return;
+        }
+        await queueOffline(queued);
+        return;
+      }
+
+      if (goingPublic) {
+        await universitySettingsService.assertPublicProfilesAllowed(universityId);
+      }
+
       const { db } = await getFirebaseServices();
       if (!db) return;
 
-      const profileRef = doc(db, `universities/${universityId}/profiles/${profileId}`);
-      
-      // Convert form data to profile data
-      const profileData: Partial<MemorialProfile> = {
-        ...formData,
-        timeline: formData.timeline.map(event => ({
-          ...event,
-          type: event.type === 'work' ? 'job' : event.type
-        })) as TimelineEvent[],
-        updatedAt: Timestamp.now()
-      };
+      const save = (expectedVersion: number, changes: Partial<MemorialProfile>) =>
+        updateWithVersion<MemorialProfile>(doc(db, profilePath), expectedVersion, changes, {
+          versionField: 'metadata.version',
+          resource: 'profile',
+          current: (current) => ({ ...current, id: profileId } as MemorialProfile),
+        });
 
-      await updateDoc(profileRef, profileData);
+      if (!publishing) {
+        const version = await save(queued.baseVersion, profileData);
+        toast.success('Profile updated successfully');
+        router.push(`/admin/universities/${universityId}/profiles`);
+        return version;
+      }
+
+      // Edits are saved before publishing so that any approval covers them
+      let version = queued.baseVersion;
+      const { status: _status, ...edits } = profileData;
+      if (computeVersionChanges(profile, { ...profile, ...edits }).length) {
+        version = await save(version, edits);
+      }
+
+      const approval = await universitySettingsService.checkPublishApproval({
+        resourceType: 'profile',
+        resourceId: profileId,
+        universityId,
+        contentVersion: version,
+      });
+      if (approval.status === 'submitted' || approval.status === 'in_review') {
+        toast(approval.status === 'submitted'
+          ? 'The profile has been sent for approval'
+          : 'The profile is still waiting for approval');
+        router.push(`/admin/universities/${universityId}/profiles`);
+        return version;
+      }
+
+      version = await save(version, { status: 'published', updatedAt: Timestamp.now() });
+      if (user) {
+        await versionService.recordVersion({
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId,
+          snapshot: { ...profile, ...profileData, id: profileId },
+          status: 'published',
+          ...publishReason(approval),
+          actor: versionActorFromUser(user),
+        });
+      }
 
       toast.success('Profile updated successfully');
       router.push(`/admin/universities/${universityId}/profiles`);
+      return version;
     } catch (error) {
+      // The form merges the newer save and asks about any clashes
+      if (error instanceof VersionConflictError) throw error;
+      if (isConnectivityError(error)) {
+        if (onlineOnly) {
+          toast.error(onlineOnly);
+          return;
+        }
+        await queueOffline(queued);
+        return;
+      }
+      if (error instanceof AppError) {
+        toast.error(error.message);
+        return;
+      }
       console.error('Error updating profile:', error);
       toast.error('Failed to update profile');
     }
@@ -114,6 +214,7 @@ export default function EditProfilePage() {
             profile={profile}
             onSubmit={handleSubmit}
             onCancel={handleCancel}
+            collaborationPath={`universities/${universityId}/profiles/${profileId}`}
           />
         </Card>
       </div>
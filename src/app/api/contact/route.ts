@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { sendContactMessage } from '@/lib/email/send';
+import { AppError } from '@/utils/errors';
+
+/**
+ * Emails a contact-form message to the configured recipients. Open to
+ * signed-out visitors; the recipients come from the site settings, never
+ * from the request.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await sendContactMessage(body);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      if (error.status >= 500) {
+        console.error('Contact email not sent:', error.message);
+      }
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+    console.error('Error sending contact email:', error);
+    return NextResponse.json({ error: 'Failed to send email' }, { status: 500 });
+  }
+}
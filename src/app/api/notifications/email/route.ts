@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { sendTemplatedEmail } from '@/lib/email/send';
+import { AppError } from '@/utils/errors';
+
+const ALLOWED_TEMPLATES = ['notification', 'notification_digest'];
+
+/**
+ * Sends notification emails on behalf of the deliverNotificationEmails
+ * Cloud Function, which authenticates with the shared
+ * NOTIFICATION_EMAIL_SECRET instead of a user session.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.NOTIFICATION_EMAIL_SECRET;
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!secret || token !== secret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!ALLOWED_TEMPLATES.includes(body?.templateId)) {
+      return NextResponse.json({ error: 'Template not allowed' }, { status: 400 });
+    }
+
+    const result = await sendTemplatedEmail(body);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+    console.error('Error sending notification email:', error);
+    return NextResponse.json({ error: 'Failed to send email' }, { status: 500 });
+  }
+}
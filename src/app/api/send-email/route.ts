@@ -1,46 +1,44 @@
 import { NextResponse } from 'next/server';
-import { Resend } from 'resend';
-
-// Get Resend API key from environment variable
-const resendApiKey = process.env.RESEND_API_KEY;
-
-// Only create Resend instance if API key is available
-const resend = resendApiKey ? new Resend(resendApiKey) : null;
+import { supabase } from '@/lib/supabase';
+import { sendUserEmail } from '@/lib/email/send';
+import { AppError } from '@/utils/errors';
 
+/**
+ * Sends a templated transactional email for a university. Callers supply a
+ * templateId, its variables, the university and the recipients' user IDs;
+ * subject and body are rendered server-side, links must point at this site
+ * and addresses are looked up here, so the route can't be used to send
+ * arbitrary content or to reach people outside the university.
+ */
 export async function POST(request: Request) {
-  try {
-    const { to, subject, text, html } = await request.json();
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
 
-    if (!resendApiKey || !resend) {
-      console.error('Email not sent: RESEND_API_KEY is not configured');
-      return NextResponse.json(
-        { error: 'Email service is not configured' },
-        { status: 500 }
-      );
-    }
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Invalid or expired session' }, { status: 401 });
+  }
 
-    if (!to || !subject || (!text && !html)) {
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await sendUserEmail(body, user.id);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      if (error.status >= 500) {
+        console.error('Email not sent:', error.message);
+      }
       return NextResponse.json(
-        { error: 'Missing required email fields' },
-        { status: 400 }
+        { error: error.message, details: error.details },
+        { status: error.status }
       );
     }
-
-    const data = await resend.emails.send({
-      from: 'Storiats Support <support@storiats.com>',
-      to,
-      subject,
-      text,
-      html,
-    });
-
-    console.log('Email sent successfully:', data);
-    return NextResponse.json(data);
-  } catch (error) {
     console.error('Error sending email:', error);
     return NextResponse.json(
       { error: 'Failed to send email', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -24,6 +24,13 @@ export default function LoginPage() {
     console.log('[Login Page] User state changed:', user);
     if (user) {
       console.log('[Login Page] User authenticated, redirecting...');
+      // Return to the page that sent the user here (e.g. an invitation link),
+      // but only for same-site paths
+      const redirectUrl = new URLSearchParams(window.location.search).get('redirectUrl');
+      if (redirectUrl?.startsWith('/') && !redirectUrl.startsWith('//')) {
+        router.push(redirectUrl);
+        return;
+      }
       // Simple redirect based on admin status
       if (user.userData?.organizationRoles?.admin) {
         console.log('[Login Page] Redirecting to admin');
@@ -11,8 +11,8 @@ import { Spinner } from '@/components/ui/Spinner';
 import { Icon } from '@/components/ui/Icon';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/lib/supabase';
+import { requestContactEmail } from '@/lib/email/client';
 import { usePublishedContent } from '@/hooks/usePublishedContent';
-import { useStoriatsAdmins } from '@/hooks/useStoriatsAdmins';
 
 interface FormData {
   name: string;
@@ -26,7 +26,6 @@ export default function Contact() {
   const { user } = useAuth();
   const { toast } = useToast();
   const { data: faqs = [], isLoading: isLoadingFaqs } = usePublishedContent('faq');
-  const { settings: adminSettings } = useStoriatsAdmins();
   const [formData, setFormData] = useState<FormData>({
     name: '',
     email: '',
@@ -67,43 +66,18 @@ export default function Contact() {
         throw error;
       }
 
-      // Get email recipients from admin settings
-      const recipients = adminSettings?.email_recipients || [];
-      
-      if (recipients.length === 0) {
-        console.warn('No email recipients configured in admin settings');
-        toast('Message sent successfully, but no email recipients are configured.', 'info');
-        return;
-      }
-
-      // Send email notification
-      const response = await fetch('/api/send-email', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          to: recipients,
-          subject: `New Contact Form Submission: ${formData.subject}`,
-          text: `
-            Name: ${formData.name}
-            Email: ${formData.email}
-            Subject: ${formData.subject}
-            Message: ${formData.message}
-          `,
-          html: `
-            <h2>New Contact Form Submission</h2>
-            <p><strong>Name:</strong> ${formData.name}</p>
-            <p><strong>Email:</strong> ${formData.email}</p>
-            <p><strong>Subject:</strong> ${formData.subject}</p>
-            <p><strong>Message:</strong></p>
-            <p>${formData.message}</p>
-          `
-        }),
+      // Emailed server-side so signed-out visitors reach the team too
+      const delivered = await requestContactEmail({
+        name: formData.name,
+        email: formData.email,
+        subject: formData.subject,
+        message: formData.message,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to send email notification');
+      if (!delivered) {
+        console.warn('No email recipients configured for contact messages');
+        toast('Message sent successfully, but no email recipients are configured.', 'info');
+        return;
       }
 
       toast('Message sent successfully. We will get back to you as soon as possible.', 'success');
@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/hooks/useAuth';
+import { acceptInvitation, getInvitationByToken } from '@/shared/services/invitations';
+import { MemorialInvitation } from '@/types';
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<MemorialInvitation['status'], 'pending'>, string> = {
+  accepted: 'This invitation has already been accepted.',
+  expired: 'This invitation has expired. Ask the university to send you a new one.',
+  revoked: 'This invitation has been revoked.',
+};
+
+export default function AcceptInvitationClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const { user, loading: authLoading } = useAuth();
+  const [invitation, setInvitation] = useState<MemorialInvitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This invitation link is missing its token.');
+      setLoading(false);
+      return;
+    }
+
+    getInvitationByToken(token)
+      .then(result => {
+        if (!result) setError('This invitation link is not valid.');
+        setInvitation(result);
+      })
+      .catch(() => setError('Failed to load the invitation.'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!user || !token) return;
+
+    setAccepting(true);
+    setError(null);
+    try {
+      await acceptInvitation(token, user.id);
+      router.push('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept the invitation.');
+      setAccepting(false);
+    }
+  };
+
+  const returnUrl = `/invitation/accept?token=${encodeURIComponent(token ?? '')}`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 to-white px-4">
+      <Card className="max-w-md w-full p-6 text-center space-y-4">
+        <h1 className="text-2xl font-bold text-gray-900">Invitation</h1>
+
+        {loading || authLoading ? (
+          <p className="text-gray-600">Loading invitation...</p>
+        ) : error ? (
+          <p className="text-red-600">{error}</p>
+        ) : invitation && invitation.status !== 'pending' ? (
+          <p className="text-gray-600">{UNAVAILABLE_MESSAGES[invitation.status]}</p>
+        ) : invitation && !user ? (
+          <>
+            <p className="text-gray-600">
+              You have been invited to join as a {invitation.role}. Sign in or create an account to accept.
+            </p>
+            <div className="flex justify-center gap-3">
+              <Link href={`/auth/login?redirectUrl=${encodeURIComponent(returnUrl)}`}>
+                <Button variant="outline">Sign in</Button>
+              </Link>
+              <Link href={`/auth/signup?redirectUrl=${encodeURIComponent(returnUrl)}`}>
+                <Button>Create account</Button>
+              </Link>
+            </div>
+          </>
+        ) : invitation ? (
+          <>
+            <p className="text-gray-600">
+              You have been invited to join as a {invitation.role}.
+            </p>
+            <Button onClick={handleAccept} disabled={accepting}>
+              {accepting ? 'Accepting...' : 'Accept invitation'}
+            </Button>
+          </>
+        ) : null}
+      </Card>
+    </div>
+  );
+}
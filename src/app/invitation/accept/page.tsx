@@ -0,0 +1,10 @@
+import { Suspense } from 'react';
+import AcceptInvitationClient from './AcceptInvitationClient';
+
+export default function AcceptInvitationPage() {
+  return (
+    <Suspense fallback={<div className="text-center py-12">Loading invitation...</div>}>
+      <AcceptInvitationClient />
+    </Suspense>
+  );
+}
@@ -0,0 +1,42 @@
+import Link from 'next/link';
+import { getSiteSettings } from '@/lib/siteSettings';
+import { DEFAULT_SITE_SETTINGS } from '@/types/siteSettings';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Down for maintenance',
+};
+
+export default async function MaintenancePage() {
+  const settings = await getSiteSettings().catch(() => DEFAULT_SITE_SETTINGS);
+  const siteName = settings.branding?.siteName || DEFAULT_SITE_SETTINGS.branding.siteName;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-6">
+      <div className="max-w-lg text-center">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          {siteName} is down for maintenance
+        </h1>
+        <p className="mt-4 text-lg leading-8 text-gray-600">
+          {settings.maintenanceMessage || 'We are making some improvements and will be back shortly.'}
+        </p>
+        {settings.supportEmail && (
+          <p className="mt-4 text-sm text-gray-500">
+            Need help? Email{' '}
+            <a href={`mailto:${settings.supportEmail}`} className="text-indigo-600 hover:text-indigo-500">
+              {settings.supportEmail}
+            </a>
+          </p>
+        )}
+        <p className="mt-8 text-sm text-gray-500">
+          Administrators can still{' '}
+          <Link href="/login" className="text-indigo-600 hover:text-indigo-500">
+            sign in
+          </Link>
+          .
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { NotificationPreferencesForm } from '@/components/notifications/NotificationPreferencesForm';
+import { notificationService } from '@/services/notifications';
+import { AppNotification, NOTIFICATION_TYPE_LABELS } from '@/types/notifications';
+
+export default function NotificationsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadNotifications = async () => {
+      try {
+        setNotifications(await notificationService.getNotifications(user.id));
+      } catch (error) {
+        console.error('Error loading notifications:', error);
+        toast.error('Failed to load notifications');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadNotifications();
+  }, [user]);
+
+  const markRead = async (ids: string[]) => {
+    try {
+      await notificationService.markAsRead(ids);
+      setNotifications(prev => prev.map(notification =>
+        ids.includes(notification.id) ? { ...notification, isRead: true } : notification
+      ));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  if (authLoading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Sign in to see your notifications.</p>
+        <Link href="/login" className="text-indigo-600 hover:text-indigo-800">Sign in</Link>
+      </div>
+    );
+  }
+
+  const unreadIds = notifications.filter(notification => !notification.isRead).map(notification => notification.id);
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+        <Button variant="outline" size="sm" onClick={() => markRead(unreadIds)} disabled={!unreadIds.length}>
+          Mark all as read
+        </Button>
+      </div>
+
+      <Card className="divide-y divide-gray-100">
+        {loading ? (
+          <div className="text-center py-6">Loading notifications...</div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">You have no notifications yet.</div>
+        ) : (
+          notifications.map(notification => (
+            <div
+              key={notification.id}
+              className={`flex items-start justify-between gap-4 p-4 ${notification.isRead ? '' : 'bg-indigo-50'}`}
+            >
+              <div className="min-w-0">
+                <p className="text-xs uppercase tracking-wide text-gray-500">{NOTIFICATION_TYPE_LABELS[notification.type]}</p>
+                {notification.link ? (
+                  <Link
+                    href={notification.link}
+                    onClick={() => !notification.isRead && markRead([notification.id])}
+                    className="text-sm font-medium text-gray-900 hover:text-indigo-600"
+                  >
+                    {notification.title}
+                  </Link>
+                ) : (
+                  <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                )}
+                <p className="text-sm text-gray-600">{notification.body}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                </p>
+              </div>
+              {!notification.isRead && (
+                <Button variant="outline" size="sm" onClick={() => markRead([notification.id])}>
+                  Mark read
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </Card>
+
+      <NotificationPreferencesForm userId={user.id} />
+    </div>
+  );
+}
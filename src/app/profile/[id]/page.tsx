@@ -12,6 +12,7 @@ import { ShareButton } from '@/components/common/ShareButton';
 import { PinButton } from '@/components/common/PinButton';
 import { RoleBasedUI } from '@/components/common/RoleBasedUI';
 import { EditorRequestButton } from '@/components/common/EditorRequestButton';
+import { EditorRequestQueue } from '@/components/profile/EditorRequestQueue';
 import type { University } from '@/types/university';
 import { toast } from 'react-hot-toast';
 import { TimelineView } from '@/components/timeline/TimelineView';
@@ -19,6 +20,7 @@ import Link from 'next/link';
 import type { Memorial } from '@/types/memorial';
 import type { MemorialPreview } from '@/types/memorial';
 import { memorialToPreview } from '@/types/memorial';
+import { formatFuzzyDate } from '@/utils/date';
 
 interface Education {
   institution: string;
@@ -79,6 +81,9 @@ const formatDate = (date: string | Date | any | null | undefined): string => {
     if (typeof date === 'object' && 'toDate' in date) {
       return date.toDate().toLocaleDateString();
     }
+    if (typeof date === 'string') {
+      return formatFuzzyDate(date) ?? date;
+    }
     return new Date(date).toLocaleDateString();
   } catch {
     return 'Invalid Date';
@@ -325,7 +330,7 @@ export default function ProfilePage() {
               
               {/* Action Buttons */}
               <div className="flex flex-wrap gap-4 justify-center md:justify-start mt-6">
-                <ShareButton url={`/profile/${id}`} />
+                <ShareButton url={`/profile/${id}`} universityId={profile.universityId} />
                 <PinButton profileId={id as string} />
                 <RoleBasedUI allowedRoles={['admin', 'editor']}>
                   <button
@@ -477,6 +482,8 @@ export default function ProfilePage() {
               </div>
             )} */}
 
+            <EditorRequestQueue profileId={profile.id} className="bg-white rounded-2xl shadow-lg p-8" />
+
             {/* Comments Section */}
             <div className="bg-white rounded-2xl shadow-lg p-8">
               <h2 className="text-2xl font-bold text-gray-900 mb-6">Comments & Memories</h2>
@@ -155,6 +155,8 @@ export default function LifeStoryPage() {
       </div>
 
       <LifeStoryPrompts
+        universityId={profile.universityId}
+        audience={isMemorialProfile(profile) ? 'memorial' : 'alumni'}
         onSave={handleSave}
         initialResponses={getInitialResponses()}
         isSubmitting={isUpdating || isNavigating}
@@ -7,7 +7,7 @@ import { useStoryPrompts } from '../../../hooks/useStoryPrompts';
 export default function Page() {
   const params = useParams() || {};
   const { orgId, profileId } = params as { orgId?: string; profileId?: string };
-  const { updateStoryAnswers, isSubmitting } = useStoryPrompts({
+  const { categories, promptsLoading, updateStoryAnswers, isSubmitting } = useStoryPrompts({
     orgId: orgId as string,
     profileId: profileId as string,
   });
@@ -15,10 +15,15 @@ export default function Page() {
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-2xl font-bold mb-6">Story Prompts</h1>
-      <StoryPromptPage
-        onUpdate={updateStoryAnswers}
-        isSubmitting={isSubmitting}
-      />
+      {promptsLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading prompts...</div>
+      ) : (
+        <StoryPromptPage
+          categories={categories}
+          onUpdate={updateStoryAnswers}
+          isSubmitting={isSubmitting}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
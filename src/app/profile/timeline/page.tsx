@@ -4,7 +4,7 @@ import { TimelineBuilder } from '@/components/timeline/TimelineBuilder';
 import { TimelineView } from '@/components/timeline/TimelineView';
 import { useTimeline } from '@/hooks/useTimeline';
 import { useParams } from 'next/navigation';
-import { TimelineEvent, LifeEvent } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
 
 export default function TimelinePage() {
   const params = useParams() || {};
@@ -23,10 +23,10 @@ export default function TimelinePage() {
     profileId: profileId || '',
   });
 
-  const [localEvents, setLocalEvents] = useState<LifeEvent[]>([]);
+  const [localEvents, setLocalEvents] = useState<TimelineEvent[]>([]);
 
   // Handler to update the entire timeline
-  const handleUpdateTimeline = async (updatedEvents: LifeEvent[]) => {
+  const handleUpdateTimeline = async (updatedEvents: TimelineEvent[]) => {
     setLocalEvents(updatedEvents);
     // Update the events in the cache
     await refresh();
@@ -12,8 +12,9 @@ import { Textarea } from '@/components/ui/Textarea';
 import { Spinner } from '@/components/ui/Spinner';
 import { Breadcrumbs } from '@/components/ui/Breadcrumbs';
 import { useToast } from '@/components/ui/toast';
-import { DatePicker } from '@/components/ui/DatePicker';
+import { FuzzyDateInput } from '@/components/ui/FuzzyDateInput';
 import type { MemorialProfile } from '@/types/profile';
+import { isChronological } from '@/utils/date';
 
 interface NewMemorialClientProps {
   params: {
@@ -43,6 +44,14 @@ export default function NewMemorialClient({ params }: NewMemorialClientProps) {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
+    if (!isChronological(formData.basicInfo?.dateOfBirth, formData.basicInfo?.dateOfDeath)) {
+      toast({
+        title: 'Error',
+        description: 'Date of death cannot be before date of birth',
+        variant: 'destructive'
+      });
+      return;
+    }
 
     setLoading(true);
     try {
@@ -129,8 +138,8 @@ export default function NewMemorialClient({ params }: NewMemorialClientProps) {
                     Date of Birth
                   </label>
                   <div className="mt-1">
-                    <DatePicker
-                      value={formData.basicInfo?.dateOfBirth as Date | null}
+                    <FuzzyDateInput
+                      value={formData.basicInfo?.dateOfBirth as string | null}
                       onChange={date => handleChange('basicInfo.dateOfBirth', date)}
                     />
                   </div>
@@ -141,8 +150,8 @@ export default function NewMemorialClient({ params }: NewMemorialClientProps) {
                     Date of Death
                   </label>
                   <div className="mt-1">
-                    <DatePicker
-                      value={formData.basicInfo?.dateOfDeath as Date | null}
+                    <FuzzyDateInput
+                      value={formData.basicInfo?.dateOfDeath as string | null}
                       onChange={date => handleChange('basicInfo.dateOfDeath', date)}
                     />
                   </div>
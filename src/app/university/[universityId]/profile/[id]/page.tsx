@@ -14,7 +14,8 @@ import { ShareButton } from '@/components/common/ShareButton';
 import { PinButton } from '@/components/common/PinButton';
 import { RoleBasedUI } from '@/components/common/RoleBasedUI';
 import { EditorRequestButton } from '@/components/common/EditorRequestButton';
-import type { University } from '@/types/university';
+import type { University, UniversitySettings } from '@/types/university';
+import { generateShareableUrl } from '@/lib/utils';
 import { toast } from 'react-hot-toast';
 import Link from 'next/link';
 
@@ -23,7 +24,7 @@ export default function UniversityProfilePage() {
   const router = useRouter();
   const { user } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [university, setUniversity] = useState<University | null>(null);
+  const [university, setUniversity] = useState<(University & { settings?: Partial<UniversitySettings> }) | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
@@ -120,6 +121,8 @@ export default function UniversityProfilePage() {
     );
   }
 
+  const shareUrl = generateShareableUrl({ id: universityId as string, settings: university?.settings }, profile.id);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -143,7 +146,7 @@ export default function UniversityProfilePage() {
                 <p className="text-xl text-indigo-100 mb-6">{profile.department}</p>
               )}
               <div className="flex flex-wrap gap-4 justify-center md:justify-start">
-                <ShareButton url={window.location.href} />
+                {shareUrl && <ShareButton url={shareUrl} universityId={universityId as string} />}
                 <PinButton profileId={profile.id} />
                 {user && (
                   <button
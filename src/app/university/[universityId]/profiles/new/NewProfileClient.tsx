@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { collection, addDoc, Timestamp } from 'firebase/firestore';
 import { getFirebaseServices } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
+import { auditLogService, auditActorFromUser } from '@/services/auditLogService';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -57,6 +58,13 @@ export default function NewProfileClient({ params }: NewProfileClientProps) {
       };
 
       const docRef = await addDoc(profilesRef, profileData);
+      await auditLogService.log({
+        action: 'profile.created',
+        resourceType: 'profile',
+        resourceId: docRef.id,
+        universityId: params.universityId,
+        actor: auditActorFromUser(user)
+      });
       
       toast({
         title: 'Success',
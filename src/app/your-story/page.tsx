@@ -3,12 +3,14 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import { StoryPromptPage } from '../../components/story-prompts/StoryPromptPage';
+import { useStoryPromptLibrary } from '../../hooks/useStoryPromptLibrary';
 
 export default function YourStory() {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
 
-  const categories = ['all', 'personal', 'family', 'career', 'hobbies'];
+  const { categories, loading } = useStoryPromptLibrary({ audience: 'alumni' });
+  const categoryButtons = [{ id: 'all', label: 'All' }, ...categories];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-indigo-100">
@@ -23,28 +25,35 @@ export default function YourStory() {
           />
         </div>
 
-        <div className="flex space-x-2 mb-6">
-          {categories.map((category) => (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {categoryButtons.map((category) => (
             <button
-              key={category}
+              key={category.id}
               className={`px-4 py-2 rounded-full ${
-                selectedCategory === category
+                selectedCategory === category.id
                   ? 'bg-indigo-600 text-white'
                   : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
               }`}
-              onClick={() => setSelectedCategory(category)}
+              onClick={() => setSelectedCategory(category.id)}
             >
-              {category.charAt(0).toUpperCase() + category.slice(1)}
+              {category.label}
             </button>
           ))}
         </div>
 
-        <StoryPromptPage
-          onUpdate={async (answers) => {
-            // This is a placeholder - in a real app, this would be connected to your data store
-            console.log('Answers updated:', answers);
-          }}
-        />
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading prompts...</div>
+        ) : (
+          <StoryPromptPage
+            categories={categories}
+            searchTerm={searchTerm}
+            selectedCategory={selectedCategory}
+            onUpdate={async (answers) => {
+              // This is a placeholder - in a real app, this would be connected to your data store
+              console.log('Answers updated:', answers);
+            }}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { Collaborator, PROFILE_SECTION_LABELS } from '@/types/collaboration';
+
+interface CollaboratorPresenceProps {
+  collaborators: Collaborator[];
+  className?: string;
+}
+
+const MAX_AVATARS = 5;
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]?.toUpperCase()).join('') || '?';
+
+const describe = (person: Collaborator) =>
+  person.activity === 'editing' && person.section
+    ? `${person.displayName} is editing ${PROFILE_SECTION_LABELS[person.section]}`
+    : `${person.displayName} is viewing`;
+
+/** Avatars of everyone else on the profile; editors get a coloured ring */
+export function CollaboratorPresence({ collaborators, className }: CollaboratorPresenceProps) {
+  if (!collaborators.length) return null;
+
+  const shown = collaborators.slice(0, MAX_AVATARS);
+  const hidden = collaborators.length - shown.length;
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ''}`}>
+      <div className="flex -space-x-2">
+        {shown.map(person => (
+          <span
+            key={person.userId}
+            title={describe(person)}
+            className={`relative inline-flex h-8 w-8 items-center justify-center overflow-hidden rounded-full bg-indigo-100 text-xs font-medium text-indigo-700 ring-2 ${
+              person.activity === 'editing' ? 'ring-amber-400' : 'ring-white'
+            }`}
+          >
+            {person.photoURL ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={person.photoURL} alt={person.displayName} className="h-full w-full object-cover" />
+            ) : (
+              initials(person.displayName)
+            )}
+          </span>
+        ))}
+        {hidden > 0 && (
+          <span className="inline-flex h-8 w-8 items-center justify-center rounded-full bg-gray-100 text-xs text-gray-600 ring-2 ring-white">
+            +{hidden}
+          </span>
+        )}
+      </div>
+      <span className="text-sm">
+        {collaborators.length === 1 ? describe(collaborators[0]) : `${collaborators.length} others here`}
+      </span>
+    </div>
+  );
+}
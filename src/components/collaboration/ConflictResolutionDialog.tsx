@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { formatValue } from '@/utils/diff';
+import { ConflictResolution, FieldConflict, PROFILE_SECTION_LABELS } from '@/types/collaboration';
+
+interface ConflictResolutionDialogProps {
+  open: boolean;
+  conflicts: FieldConflict[];
+  /** Resolves a user ID to a name for "saved by" */
+  nameFor: (userId: string) => string;
+  onResolve: (choices: Record<string, ConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+const MAX_PREVIEW = 280;
+
+const preview = (value: unknown): string => {
+  if (Array.isArray(value) && value.some(item => item && typeof item === 'object')) {
+    const titles = value.map(item => item.title).filter(Boolean);
+    return `${value.length} ${value.length === 1 ? 'entry' : 'entries'}${titles.length ? `: ${titles.join(', ')}` : ''}`;
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  // A single timeline entry
+  if (value && typeof value === 'object' && 'title' in value) {
+    const { title, startDate, endDate, description } = value as Record<string, string | undefined>;
+    const dates = startDate ? ` (${startDate}${endDate ? ` – ${endDate}` : ''})` : '';
+    return preview(`${title}${dates}${description ? `: ${description}` : ''}`);
+  }
+
+  // Rich text fields hold HTML; compare what people actually wrote
+  const text = (formatValue(value) ?? '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!text) return '(empty)';
+  return text.length > MAX_PREVIEW ? `${text.slice(0, MAX_PREVIEW)}…` : text;
+};
+
+/**
+ * Lists each field another editor saved differently from this one, side by
+ * side, and lets the user pick a version per field before anything is saved
+ */
+export function ConflictResolutionDialog({ open, conflicts, nameFor, onResolve, onCancel }: ConflictResolutionDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictResolution>>({});
+
+  useEffect(() => {
+    setChoices(prev => Object.fromEntries(conflicts.map(conflict => [conflict.path, prev[conflict.path] ?? 'theirs'])));
+  }, [conflicts]);
+
+  const option = (conflict: FieldConflict, resolution: ConflictResolution, heading: string, value: unknown) => (
+    <label
+      className={`flex-1 cursor-pointer rounded-md border p-3 text-sm ${
+        choices[conflict.path] === resolution ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200'
+      }`}
+    >
+      <span className="flex items-center gap-2 font-medium text-gray-900">
+        <input
+          type="radio"
+          name={conflict.path}
+          checked={choices[conflict.path] === resolution}
+          onChange={() => setChoices(prev => ({ ...prev, [conflict.path]: resolution }))}
+        />
+        {heading}
+      </span>
+      <span className="mt-1 block whitespace-pre-wrap break-words text-gray-600">{preview(value)}</span>
+    </label>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Someone else saved changes to the same fields</DialogTitle>
+          <DialogDescription>
+            Choose which version to keep for each field. Nothing is saved until you decide.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+          {conflicts.map(conflict => (
+            <div key={conflict.path} className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">
+                {conflict.label}
+                {conflict.section && (
+                  <span className="ml-2 text-xs font-normal text-gray-500">{PROFILE_SECTION_LABELS[conflict.section]}</span>
+                )}
+              </p>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                {option(conflict, 'theirs', conflict.theirsBy ? `Saved by ${nameFor(conflict.theirsBy)}` : 'Saved version', conflict.theirs)}
+                {option(conflict, 'mine', 'Your version', conflict.mine)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Decide later
+          </Button>
+          <Button type="button" onClick={() => onResolve(choices)}>
+            Keep selected versions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { ConflictResolution, FieldConflict } from '@/types/collaboration';
+import { ConflictResolutionDialog } from './ConflictResolutionDialog';
+
+interface PendingConflictsProps {
+  conflicts: FieldConflict[];
+  onResolve: (choices: Record<string, ConflictResolution>) => void;
+  /** Resolves a user ID to a name when conflicts record who saved them */
+  nameFor?: (userId: string) => string;
+}
+
+const someoneElse = () => 'another editor';
+
+/**
+ * Opens the conflict dialog when an auto-save is turned back because
+ * someone else saved first. Putting the decision off leaves a banner to
+ * come back to; saving stays paused until it's made.
+ */
+export function PendingConflicts({ conflicts, onResolve, nameFor = someoneElse }: PendingConflictsProps) {
+  const [deferred, setDeferred] = useState(false);
+
+  // A fresh set of conflicts deserves a fresh look
+  useEffect(() => {
+    setDeferred(false);
+  }, [conflicts]);
+
+  if (!conflicts.length) return null;
+
+  return (
+    <>
+      {deferred && (
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <span>
+            Another editor saved different versions of {conflicts.map(conflict => conflict.label).join(', ')}.
+            Nothing more is saved until you choose which to keep.
+          </span>
+          <Button type="button" variant="outline" size="sm" onClick={() => setDeferred(false)}>
+            Review changes
+          </Button>
+        </div>
+      )}
+      <ConflictResolutionDialog
+        open={!deferred}
+        conflicts={conflicts}
+        nameFor={nameFor}
+        onResolve={onResolve}
+        onCancel={() => setDeferred(true)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Icon } from '@/components/ui/Icon';
+import { SectionLock } from '@/types/collaboration';
+
+interface SectionLockNoticeProps {
+  lock: SectionLock | null;
+  onTakeOver: () => void;
+}
+
+/** Shown above a section someone else is editing */
+export function SectionLockNotice({ lock, onTakeOver }: SectionLockNoticeProps) {
+  if (!lock) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <div className="flex items-center gap-2 text-sm text-amber-800">
+        <Icon name="edit" className="h-4 w-4" />
+        <span>
+          {lock.displayName} started editing this section{' '}
+          {formatDistanceToNow(lock.acquiredAt, { addSuffix: true })}. Your changes here could clash with theirs.
+        </span>
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={onTakeOver}>
+        Edit anyway
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FiAlertTriangle, FiCloudOff, FiRefreshCw, FiUploadCloud } from 'react-icons/fi';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { OutboxEntry } from '@/types/outbox';
+
+const describe = (entry: OutboxEntry): string => {
+  switch (entry.kind) {
+    case 'profile':
+      return 'Profile changes';
+    case 'timeline':
+      return 'Timeline changes';
+    case 'storyAnswer':
+      return 'Story answer';
+    case 'media':
+      return `Upload of ${entry.file.name}`;
+  }
+};
+
+/**
+ * Shows edits that haven't reached the server yet: queued while offline,
+ * uploading, or stopped on a conflict or repeated failure. Hidden when
+ * everything is saved.
+ */
+export function SyncStatusIndicator() {
+  const { online, syncing, pending, needsAttention, retry, keepMine, discard } = useSyncStatus();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (online && !pending && !needsAttention.length) return null;
+
+  const changes = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`;
+  const summary = needsAttention.length
+    ? `${changes(needsAttention.length)} need${needsAttention.length === 1 ? 's' : ''} your attention`
+    : !online
+      ? `Offline · ${changes(pending)} saved on this device`
+      : `Syncing ${changes(pending)}…`;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-2 rounded-full px-3 py-1 text-xs font-medium ${
+          needsAttention.length
+            ? 'bg-amber-100 text-amber-800'
+            : online
+              ? 'bg-indigo-50 text-indigo-700'
+              : 'bg-gray-100 text-gray-700'
+        }`}
+        aria-label={summary}
+      >
+        {needsAttention.length ? (
+          <FiAlertTriangle size={14} />
+        ) : !online ? (
+          <FiCloudOff size={14} />
+        ) : (
+          <FiRefreshCw size={14} className={syncing ? 'animate-spin' : ''} />
+        )}
+        <span className="hidden lg:inline">{summary}</span>
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg z-50 border border-gray-200"
+          >
+            <div className="px-4 py-2 border-b border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-900">{summary}</h3>
+              {!online && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Keep editing; everything uploads in order when you&apos;re back online.
+                </p>
+              )}
+            </div>
+
+            {needsAttention.length === 0 ? (
+              <div className="flex items-center gap-2 px-4 py-3 text-sm text-gray-600">
+                <FiUploadCloud size={16} />
+                {online ? 'Uploading your changes…' : 'Waiting for a connection'}
+              </div>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                {needsAttention.map(entry => (
+                  <div key={entry.seq} className="px-4 py-3 border-b border-gray-100 last:border-0">
+                    <p className="text-sm font-medium text-gray-900">{describe(entry)}</p>
+                    <p className="text-xs text-gray-500">
+                      Made {formatDistanceToNow(entry.createdAt, { addSuffix: true })}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {entry.status === 'conflict'
+                        ? 'Someone else saved this while you were offline.'
+                        : `Couldn't be uploaded: ${entry.lastError ?? 'unknown error'}`}
+                    </p>
+                    <div className="flex justify-end gap-3 mt-2 text-xs">
+                      <button onClick={() => discard(entry.seq)} className="text-gray-600 hover:text-gray-900">
+                        Discard mine
+                      </button>
+                      {entry.status === 'conflict' ? (
+                        <button onClick={() => keepMine(entry.seq)} className="text-indigo-600 hover:text-indigo-800">
+                          Keep mine
+                        </button>
+                      ) : (
+                        <button onClick={() => retry(entry.seq)} className="text-indigo-600 hover:text-indigo-800">
+                          Try again
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,125 +1,127 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { CommentService } from '@/services/CommentService';
-import { Comment, CommentFilters } from '@/types/comments';
+import { auditActorFromUser } from '@/services/auditLogService';
+import { Comment, CommentModerationDecision, CommentReportReason, ModerationQueueItem } from '@/types/comments';
 import { formatDistanceToNow } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FiTrash2, FiFlag, FiCheck, FiX, FiSearch, FiFilter } from 'react-icons/fi';
+import { FiTrash2, FiEyeOff, FiCheck, FiSlash, FiSearch, FiRefreshCw } from 'react-icons/fi';
 import { toast } from 'react-hot-toast';
 
 interface CommentModerationProps {
-  onCommentAction?: (action: 'delete' | 'restore' | 'flag', comment: Comment) => void;
+  universityId: string;
+  onCommentAction?: (decision: CommentModerationDecision, comment: Comment) => void;
 }
 
-export const CommentModeration: React.FC<CommentModerationProps> = ({ onCommentAction }) => {
+const DECISION_MESSAGES: Record<CommentModerationDecision, string> = {
+  hide: 'Comment hidden',
+  restore: 'Comment restored',
+  delete: 'Comment deleted',
+  ban_author: 'Author banned and comment hidden',
+};
+
+const HIDDEN_LABELS: Record<string, string> = {
+  auto_hidden: 'Auto-hidden',
+  held: 'Held by filter',
+};
+
+const summarizeReasons = (item: ModerationQueueItem) => {
+  const counts = item.reports.reduce<Partial<Record<CommentReportReason, number>>>((acc, report) => {
+    acc[report.reason] = (acc[report.reason] ?? 0) + 1;
+    return acc;
+  }, {});
+  return Object.entries(counts).map(([reason, count]) => `${reason} (${count})`).join(', ');
+};
+
+export const CommentModeration: React.FC<CommentModerationProps> = ({ universityId, onCommentAction }) => {
   const { user } = useAuth();
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState<CommentFilters>({
-    includeDeleted: true,
-    includeEdited: true
-  });
   const [searchQuery, setSearchQuery] = useState('');
-  const [showFilters, setShowFilters] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
   const [selectedComments, setSelectedComments] = useState<Set<string>>(new Set());
+  const [processing, setProcessing] = useState<Set<string>>(new Set());
 
-  useEffect(() => {
-    if (user) {
-      loadComments();
-    }
-  }, [user, filters]);
-
-  const loadComments = async () => {
+  const loadQueue = useCallback(async () => {
     try {
       setLoading(true);
-      const resultRaw = await CommentService.getComments('');
-      const result = Array.isArray(resultRaw)
-        ? resultRaw
-        : (resultRaw && typeof resultRaw === 'object' && 'comments' in (resultRaw as any) && Array.isArray((resultRaw as any).comments)
-            ? (resultRaw as { comments: Comment[] }).comments
-            : []);
-      setComments(result);
+      setQueue(await CommentService.getModerationQueue(universityId));
     } catch (error) {
-      toast.error('Failed to load comments');
+      toast.error('Failed to load moderation queue');
     } finally {
       setLoading(false);
     }
-  };
+  }, [universityId]);
 
-  const handleDeleteComment = async (comment: Comment) => {
-    try {
-      await CommentService.deleteComment(comment.id);
-      setComments(prev => prev.map(c => c.id === comment.id ? { ...c, isDeleted: true } : c));
-      onCommentAction?.('delete', comment);
-      toast.success('Comment deleted successfully');
-    } catch (error) {
-      toast.error('Failed to delete comment');
+  useEffect(() => {
+    if (user) {
+      loadQueue();
     }
-  };
+  }, [user, loadQueue]);
 
-  const handleRestoreComment = async (comment: Comment) => {
+  const applyDecision = async (comment: Comment, decision: CommentModerationDecision) => {
+    if (!user) return false;
+    setProcessing(prev => new Set(prev).add(comment.id));
     try {
-      await CommentService.updateComment(comment.id, { isDeleted: false });
-      setComments(prev => prev.map(c => c.id === comment.id ? { ...c, isDeleted: false } : c));
-      onCommentAction?.('restore', comment);
-      toast.success('Comment restored successfully');
+      await CommentService.moderateComment(comment.id, decision, auditActorFromUser(user), notes[comment.id]);
+      setQueue(prev => prev.filter(item => item.comment.id !== comment.id));
+      setSelectedComments(prev => {
+        const next = new Set(prev);
+        next.delete(comment.id);
+        return next;
+      });
+      onCommentAction?.(decision, comment);
+      return true;
     } catch (error) {
-      toast.error('Failed to restore comment');
+      console.error(`Error applying ${decision} to comment ${comment.id}:`, error);
+      return false;
+    } finally {
+      setProcessing(prev => {
+        const next = new Set(prev);
+        next.delete(comment.id);
+        return next;
+      });
     }
   };
 
-  const handleFlagComment = async (comment: Comment) => {
-    try {
-      await CommentService.updateComment(comment.id, { isFlagged: true });
-      setComments(prev => prev.map(c => c.id === comment.id ? { ...c, isFlagged: true } : c));
-      onCommentAction?.('flag', comment);
-      toast.success('Comment flagged successfully');
-    } catch (error) {
-      toast.error('Failed to flag comment');
+  const handleDecision = async (comment: Comment, decision: CommentModerationDecision) => {
+    if (decision === 'ban_author' && !window.confirm('Ban this author from commenting at this university?')) {
+      return;
+    }
+    if (await applyDecision(comment, decision)) {
+      toast.success(DECISION_MESSAGES[decision]);
+    } else {
+      toast.error('Failed to apply moderation decision');
     }
   };
 
-  const handleBulkAction = async (action: 'delete' | 'restore' | 'flag') => {
-    if (!selectedComments.size) return;
-
-    try {
-      const promises = Array.from(selectedComments).map(commentId => {
-        const comment = comments.find(c => c.id === commentId);
-        if (!comment) return Promise.resolve();
-
-        switch (action) {
-          case 'delete':
-            return handleDeleteComment(comment);
-          case 'restore':
-            return handleRestoreComment(comment);
-          case 'flag':
-            return handleFlagComment(comment);
-          default:
-            return Promise.resolve();
-        }
-      });
+  const handleBulkAction = async (decision: Exclude<CommentModerationDecision, 'ban_author'>) => {
+    const selected = queue.filter(item => selectedComments.has(item.comment.id));
+    if (!selected.length) return;
 
-      await Promise.all(promises);
-      setSelectedComments(new Set());
-      toast.success('Bulk action completed successfully');
-    } catch (error) {
-      toast.error('Failed to perform bulk action');
+    const results = await Promise.all(selected.map(item => applyDecision(item.comment, decision)));
+    const failed = results.filter(ok => !ok).length;
+    if (failed) {
+      toast.error(`${failed} of ${selected.length} comments could not be updated`);
+    } else {
+      toast.success(`${DECISION_MESSAGES[decision]} (${selected.length})`);
     }
   };
 
-  const filteredComments = comments.filter(comment => {
-    const matchesSearch = searchQuery
-      ? comment.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (comment.authorName ?? '').toLowerCase().includes(searchQuery.toLowerCase())
-      : true;
-
-    return matchesSearch;
+  const filteredQueue = queue.filter(({ comment }) => {
+    if (!searchQuery) return true;
+    const search = searchQuery.toLowerCase();
+    return comment.content.toLowerCase().includes(search) ||
+      (comment.authorName ?? '').toLowerCase().includes(search);
   });
 
   return (
     <div className="comment-moderation">
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-xl font-semibold">Comment Moderation</h2>
+        <h2 className="text-xl font-semibold">
+          Moderation Queue
+          {queue.length > 0 && <span className="ml-2 text-sm font-normal text-gray-500">{queue.length} awaiting review</span>}
+        </h2>
         <div className="flex items-center space-x-2">
           <div className="relative">
             <input
@@ -132,55 +134,24 @@ export const CommentModeration: React.FC<CommentModerationProps> = ({ onCommentA
             <FiSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
           </div>
           <button
-            onClick={() => setShowFilters(!showFilters)}
+            onClick={loadQueue}
+            title="Refresh"
             className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
           >
-            <FiFilter size={20} />
+            <FiRefreshCw size={20} />
           </button>
         </div>
       </div>
 
-      <AnimatePresence>
-        {showFilters && (
-          <motion.div
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: 'auto' }}
-            exit={{ opacity: 0, height: 0 }}
-            className="mb-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg"
-          >
-            <div className="grid grid-cols-2 gap-4">
-              <label className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  checked={filters.includeDeleted}
-                  onChange={(e) => setFilters(prev => ({ ...prev, includeDeleted: e.target.checked }))}
-                  className="rounded text-blue-500"
-                />
-                <span>Include deleted comments</span>
-              </label>
-              <label className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  checked={filters.includeEdited}
-                  onChange={(e) => setFilters(prev => ({ ...prev, includeEdited: e.target.checked }))}
-                  className="rounded text-blue-500"
-                />
-                <span>Include edited comments</span>
-              </label>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
       {selectedComments.size > 0 && (
         <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900 rounded-lg flex items-center justify-between">
           <span>{selectedComments.size} comments selected</span>
           <div className="flex items-center space-x-2">
             <button
-              onClick={() => handleBulkAction('delete')}
-              className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900 rounded"
+              onClick={() => handleBulkAction('hide')}
+              className="px-3 py-1 text-sm text-yellow-600 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900 rounded"
             >
-              Delete
+              Hide
             </button>
             <button
               onClick={() => handleBulkAction('restore')}
@@ -189,10 +160,10 @@ export const CommentModeration: React.FC<CommentModerationProps> = ({ onCommentA
               Restore
             </button>
             <button
-              onClick={() => handleBulkAction('flag')}
-              className="px-3 py-1 text-sm text-yellow-600 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900 rounded"
+              onClick={() => handleBulkAction('delete')}
+              className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900 rounded"
             >
-              Flag
+              Delete
             </button>
           </div>
         </div>
@@ -203,95 +174,128 @@ export const CommentModeration: React.FC<CommentModerationProps> = ({ onCommentA
           <div className="flex justify-center py-8">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
           </div>
-        ) : filteredComments.length === 0 ? (
+        ) : filteredQueue.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
-            No comments found
+            Nothing waiting for review
           </div>
         ) : (
-          filteredComments.map((comment) => (
-            <motion.div
-              key={comment.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              className={`p-4 rounded-lg border ${
-                comment.isDeleted
-                  ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
-                  : comment.isFlagged
-                  ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
-                  : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'
-              }`}
-            >
-              <div className="flex items-start space-x-4">
-                <input
-                  type="checkbox"
-                  checked={selectedComments.has(comment.id)}
-                  onChange={(e) => {
-                    const newSelected = new Set(selectedComments);
-                    if (e.target.checked) {
-                      newSelected.add(comment.id);
-                    } else {
-                      newSelected.delete(comment.id);
-                    }
-                    setSelectedComments(newSelected);
-                  }}
-                  className="mt-1 rounded text-blue-500"
-                />
-                <div className="flex-1">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <img
-                        src={comment.authorAvatar || '/default-avatar.png'}
-                        alt={comment.authorName}
-                        className="w-8 h-8 rounded-full"
-                      />
-                      <div>
-                        <span className="font-medium">{comment.authorName}</span>
-                        <span className="text-sm text-gray-500 ml-2">
-                          {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      {comment.isDeleted ? (
-                        <button
-                          onClick={() => handleRestoreComment(comment)}
-                          className="p-1 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded"
-                        >
-                          <FiCheck size={18} />
-                        </button>
-                      ) : (
-                        <>
+          <AnimatePresence>
+            {filteredQueue.map((item) => {
+              const { comment, reports } = item;
+              const busy = processing.has(comment.id);
+              return (
+                <motion.div
+                  key={comment.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  className={`p-4 rounded-lg border ${
+                    comment.isHidden
+                      ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                      : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
+                  }`}
+                >
+                  <div className="flex items-start space-x-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedComments.has(comment.id)}
+                      onChange={(e) => {
+                        const newSelected = new Set(selectedComments);
+                        if (e.target.checked) {
+                          newSelected.add(comment.id);
+                        } else {
+                          newSelected.delete(comment.id);
+                        }
+                        setSelectedComments(newSelected);
+                      }}
+                      className="mt-1 rounded text-blue-500"
+                    />
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="font-medium">{comment.authorName || 'Anonymous'}</span>
+                          {comment.createdAt && (
+                            <span className="text-sm text-gray-500 ml-2">
+                              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                            </span>
+                          )}
+                          {comment.isHidden && (
+                            <span className="ml-2 text-xs font-medium text-red-600">
+                              {HIDDEN_LABELS[comment.moderation?.decision ?? ''] ?? 'Hidden'}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
                           <button
-                            onClick={() => handleFlagComment(comment)}
-                            className={`p-1 ${
-                              comment.isFlagged
-                                ? 'text-yellow-600 dark:text-yellow-400'
-                                : 'text-gray-500 hover:text-yellow-600 dark:hover:text-yellow-400'
-                            } hover:bg-yellow-50 dark:hover:bg-yellow-900/20 rounded`}
+                            onClick={() => handleDecision(comment, 'restore')}
+                            disabled={busy}
+                            title="Restore"
+                            className="p-1 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded disabled:opacity-50"
                           >
-                            <FiFlag size={18} />
+                            <FiCheck size={18} />
                           </button>
+                          {!comment.isHidden && (
+                            <button
+                              onClick={() => handleDecision(comment, 'hide')}
+                              disabled={busy}
+                              title="Hide"
+                              className="p-1 text-yellow-600 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900/20 rounded disabled:opacity-50"
+                            >
+                              <FiEyeOff size={18} />
+                            </button>
+                          )}
                           <button
-                            onClick={() => handleDeleteComment(comment)}
-                            className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                            onClick={() => handleDecision(comment, 'delete')}
+                            disabled={busy}
+                            title="Delete"
+                            className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-50"
                           >
                             <FiTrash2 size={18} />
                           </button>
-                        </>
+                          <button
+                            onClick={() => handleDecision(comment, 'ban_author')}
+                            disabled={busy}
+                            title="Ban author"
+                            className="p-1 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+                          >
+                            <FiSlash size={18} />
+                          </button>
+                        </div>
+                      </div>
+                      <p className="mt-2 text-gray-700 dark:text-gray-300">{comment.content}</p>
+                      {comment.filterMatches && comment.filterMatches.length > 0 && (
+                        <ul className="mt-3 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                          {comment.filterMatches.map(match => (
+                            <li key={match.ruleId}>
+                              <span className="font-medium">{match.ruleName}</span>: {match.detail}
+                            </li>
+                          ))}
+                        </ul>
                       )}
+                      <div className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                        <span className="font-medium">
+                          {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+                        </span>
+                        {reports.length > 0 && <span>: {summarizeReasons(item)}</span>}
+                        {reports.filter(report => report.details).map(report => (
+                          <p key={report.id} className="mt-1 italic">&ldquo;{report.details}&rdquo;</p>
+                        ))}
+                      </div>
+                      <input
+                        type="text"
+                        value={notes[comment.id] ?? ''}
+                        onChange={(e) => setNotes(prev => ({ ...prev, [comment.id]: e.target.value }))}
+                        placeholder="Moderator note (optional)"
+                        className="mt-3 w-full px-3 py-1.5 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                      />
                     </div>
                   </div>
-                  <p className="mt-2 text-gray-700 dark:text-gray-300">{comment.content}</p>
-                  {comment.isEdited && (
-                    <span className="text-sm text-gray-500">(edited)</span>
-                  )}
-                </div>
-              </div>
-            </motion.div>
-          ))
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
         )}
       </div>
     </div>
   );
-}; 
\ No newline at end of file
+};
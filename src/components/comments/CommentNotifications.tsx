@@ -131,6 +131,11 @@ export const CommentNotifications: React.FC<CommentNotificationsProps> = ({ onNo
                           <p className="text-sm text-gray-900 dark:text-gray-100">
                             {getNotificationText(notification)}
                           </p>
+                          {notification.content && (
+                            <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                              {notification.content}
+                            </p>
+                          )}
                           <p className="text-xs text-gray-500 mt-1">
                             {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
                           </p>
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { CommentService } from '@/services/CommentService';
-import { Comment, CommentThread, CommentFilters } from '@/types/comments';
+import { getMentionCandidates, isMentionOptedOut, setMentionOptOut } from '@/services/mentions';
+import { Comment, CommentThread, CommentFilters, MentionCandidate } from '@/types/comments';
+import { MentionTextarea } from './MentionTextarea';
 import { formatDistanceToNow } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FiMessageSquare, FiHeart, FiEdit2, FiTrash2, FiMoreVertical, FiChevronDown, FiChevronUp } from 'react-icons/fi';
@@ -9,10 +11,11 @@ import { toast } from 'react-hot-toast';
 
 interface CommentSectionProps {
   mediaId: string;
+  universityId: string;
   onCommentCountChange?: (count: number) => void;
 }
 
-export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onCommentCountChange }) => {
+export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, universityId, onCommentCountChange }) => {
   const { user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
@@ -24,6 +27,8 @@ export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onComme
   const [thread, setThread] = useState<CommentThread | null>(null);
   const [filters, setFilters] = useState<CommentFilters>({ sortBy: 'newest' });
   const [showFilters, setShowFilters] = useState(false);
+  const [mentionCandidates, setMentionCandidates] = useState<MentionCandidate[]>([]);
+  const [mentionsMuted, setMentionsMuted] = useState(false);
   const commentInputRef = useRef<HTMLTextAreaElement>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
   const lastCommentRef = useRef<HTMLDivElement>(null);
@@ -33,6 +38,19 @@ export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onComme
     loadComments();
   }, [mediaId, filters]);
 
+  useEffect(() => {
+    getMentionCandidates(mediaId)
+      .then(setMentionCandidates)
+      .catch(error => console.error('Error loading mention candidates:', error));
+  }, [mediaId]);
+
+  useEffect(() => {
+    if (!user) return;
+    isMentionOptedOut(mediaId, user.id)
+      .then(setMentionsMuted)
+      .catch(error => console.error('Error loading mention preference:', error));
+  }, [mediaId, user]);
+
   // Setup infinite scroll
   useEffect(() => {
     if (loading) return;
@@ -101,7 +119,7 @@ export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onComme
     if (!user || !newComment.trim()) return;
 
     try {
-      const commentId = await CommentService.createComment({
+      await CommentService.createComment({
         content: newComment.trim(),
         parentId: replyingTo || undefined,
         createdBy: {
@@ -110,8 +128,8 @@ export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onComme
           email: user.email || '',
           avatarUrl: undefined
         },
-        profileId: user.id,
-        orgId: user.id
+        profileId: mediaId,
+        orgId: universityId
       });
 
       setNewComment('');
@@ -126,6 +144,17 @@ export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onComme
     }
   };
 
+  const handleToggleMentions = async () => {
+    if (!user) return;
+    try {
+      await setMentionOptOut(mediaId, user.id, !mentionsMuted);
+      setMentionsMuted(!mentionsMuted);
+      toast.success(mentionsMuted ? 'You will be notified when mentioned here' : 'Mention notifications turned off for this profile');
+    } catch (error) {
+      toast.error('Failed to update mention notifications');
+    }
+  };
+
   const handleUpdateComment = async (commentId: string, content: string) => {
     try {
       await CommentService.updateComment(commentId, { content });
@@ -290,10 +319,11 @@ export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onComme
 
             {isReplying && (
               <form onSubmit={handleSubmitComment} className="mt-3">
-                <textarea
+                <MentionTextarea
                   ref={commentInputRef}
                   value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
+                  onChange={setNewComment}
+                  candidates={mentionCandidates}
                   placeholder="Write a reply..."
                   className="w-full p-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
                   rows={2}
@@ -389,14 +419,28 @@ export const CommentSection: React.FC<CommentSectionProps> = ({ mediaId, onComme
 
       {user && (
         <form onSubmit={handleSubmitComment} className="mb-6">
-          <textarea
+          <MentionTextarea
             value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            placeholder="Write a comment..."
+            onChange={setNewComment}
+            candidates={mentionCandidates}
+            placeholder="Write a comment... Use @ to mention someone"
             className="w-full p-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
             rows={3}
           />
-          <div className="flex justify-end mt-2">
+          <div className="flex items-center justify-between mt-2">
+            {mentionCandidates.some(candidate => candidate.userId === user.id) ? (
+              <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!mentionsMuted}
+                  onChange={handleToggleMentions}
+                  className="rounded text-blue-500"
+                />
+                <span>Notify me when I&apos;m mentioned on this profile</span>
+              </label>
+            ) : (
+              <span />
+            )}
             <button
               type="submit"
               disabled={!newComment.trim()}
@@ -0,0 +1,118 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { MentionCandidate } from '@/types/comments';
+
+interface MentionTextareaProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  candidates: MentionCandidate[];
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// The @query being typed immediately before the caret, if any
+const PARTIAL_MENTION = /(?:^|\s)@([\w.-]*)$/;
+
+/**
+ * Textarea with @mention autocomplete. Choosing a suggestion inserts the
+ * candidate's handle, which CommentService resolves to a user ID on save.
+ */
+export const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ value, onChange, candidates, onKeyDown, ...props }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+    const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    const suggestions = mentionQuery === null
+      ? []
+      : candidates
+          .filter(candidate =>
+            candidate.handle.toLowerCase().startsWith(mentionQuery) ||
+            candidate.displayName.toLowerCase().includes(mentionQuery)
+          )
+          .slice(0, MAX_SUGGESTIONS);
+
+    const updateQuery = (text: string, caret: number) => {
+      const match = PARTIAL_MENTION.exec(text.slice(0, caret));
+      setMentionQuery(match ? match[1].toLowerCase() : null);
+      setActiveIndex(0);
+    };
+
+    const insertMention = (candidate: MentionCandidate) => {
+      const textarea = textareaRef.current;
+      const caret = textarea?.selectionStart ?? value.length;
+      const before = value.slice(0, caret).replace(/@[\w.-]*$/, `@${candidate.handle} `);
+      const nextValue = before + value.slice(caret);
+      onChange(nextValue);
+      setMentionQuery(null);
+
+      requestAnimationFrame(() => {
+        textarea?.focus();
+        textarea?.setSelectionRange(before.length, before.length);
+      });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (suggestions.length) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setActiveIndex(prev => (prev + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          insertMention(suggestions[activeIndex]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          setMentionQuery(null);
+          return;
+        }
+      }
+      onKeyDown?.(e);
+    };
+
+    return (
+      <div className="relative">
+        <textarea
+          {...props}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={(e) => {
+            // Let a click on a suggestion land before the list closes
+            setTimeout(() => setMentionQuery(null), 150);
+            props.onBlur?.(e);
+          }}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute left-0 z-20 mt-1 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg py-1 border dark:border-gray-700">
+            {suggestions.map((candidate, index) => (
+              <li key={candidate.userId}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(candidate)}
+                  className={`w-full px-3 py-2 text-left text-sm ${
+                    index === activeIndex ? 'bg-blue-50 dark:bg-blue-900' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="font-medium">{candidate.displayName}</span>
+                  <span className="ml-2 text-gray-500">@{candidate.handle}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+MentionTextarea.displayName = 'MentionTextarea';
@@ -5,9 +5,15 @@ import { useAuth } from '@/hooks/useAuth';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import { Button } from '@/components/ui/Button';
 import { toast } from 'react-hot-toast';
-import { doc, setDoc, getDoc, collection, query, where, getDocs, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { doc, setDoc, getDoc, collection, serverTimestamp, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { EditorRequest, EditorRequestStats, EDITOR_REQUEST_LIMITS } from '@/types/requests';
+import {
+  EditorRequest,
+  EditorRequestStats,
+  EDITOR_REQUEST_LIMITS,
+  EDITOR_REQUEST_LIMIT_MESSAGES,
+  editorRequestLimitReached,
+} from '@/types/requests';
 import {
   Dialog,
   DialogContent,
@@ -43,19 +49,10 @@ export function EditorRequestButton({ profileId, className }: EditorRequestButto
       try {
         const statsRef = doc(dbInstance, 'users', user.id, 'editorRequestStats', 'stats');
         const statsDoc = await getDoc(statsRef);
-        
+
+        // Written by the syncEditorRequestStats function; missing until the first request
         if (statsDoc.exists()) {
           setRequestStats(statsDoc.data() as EditorRequestStats);
-        } else {
-          // Initialize stats if they don't exist
-          const initialStats: EditorRequestStats = {
-            userId: user.id,
-            totalRequests: 0,
-            pendingRequests: 0,
-            lastRequestAt: Timestamp.now()
-          };
-          await setDoc(statsRef, initialStats);
-          setRequestStats(initialStats);
         }
       } catch (error) {
         console.error('Error loading request stats:', error);
@@ -76,12 +73,11 @@ export function EditorRequestButton({ profileId, className }: EditorRequestButto
     return null;
   }
 
-  const isInCooldown = requestStats?.cooldownUntil && 
-    requestStats.cooldownUntil.toDate() > new Date();
-
-  const canRequest = requestStats && 
-    requestStats.pendingRequests < EDITOR_REQUEST_LIMITS.MAX_PENDING_REQUESTS &&
-    !isInCooldown;
+  const limit = editorRequestLimitReached(
+    requestStats && { ...requestStats, cooldownUntil: requestStats.cooldownUntil?.toDate() }
+  );
+  const isInCooldown = limit === 'cooldown';
+  const canRequest = !limit;
 
   const handleRequest = async () => {
     if (!user || !canRequest) return;
@@ -107,20 +103,18 @@ export function EditorRequestButton({ profileId, className }: EditorRequestButto
 
       await setDoc(requestRef, request);
 
-      // Update request stats
-      const statsRef = doc(dbInstance, 'users', user.id, 'editorRequestStats', 'stats');
-      const newStats: EditorRequestStats = {
-        ...requestStats!,
-        totalRequests: requestStats!.totalRequests + 1,
-        pendingRequests: requestStats!.pendingRequests + 1,
-        lastRequestAt: serverTimestamp() as Timestamp,
+      // The stored stats catch up server-side; until then, count the request here
+      setRequestStats({
+        userId: user.id,
+        ...requestStats,
+        totalRequests: (requestStats?.totalRequests ?? 0) + 1,
+        pendingRequests: (requestStats?.pendingRequests ?? 0) + 1,
+        requestsThisMonth: (requestStats?.requestsThisMonth ?? 0) + 1,
+        lastRequestAt: Timestamp.now(),
         cooldownUntil: Timestamp.fromDate(
           new Date(Date.now() + EDITOR_REQUEST_LIMITS.COOLDOWN_PERIOD_DAYS * 24 * 60 * 60 * 1000)
         )
-      };
-
-      await setDoc(statsRef, newStats);
-      setRequestStats(newStats);
+      });
 
       toast.success('Editor request sent successfully');
       setShowRequestDialog(false);
@@ -153,7 +147,7 @@ export function EditorRequestButton({ profileId, className }: EditorRequestButto
         disabled
         className={className}
         variant="outline"
-        title="You have reached the maximum number of pending requests"
+        title={limit ? EDITOR_REQUEST_LIMIT_MESSAGES[limit] : undefined}
       >
         Request Editor Access (Limit Reached)
       </Button>
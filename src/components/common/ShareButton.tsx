@@ -2,16 +2,21 @@
 
 import React, { useState } from 'react';
 import { Icon } from '@/components/common/Icon';
+import { useUniversitySettings } from '@/hooks/useUniversitySettings';
 
 interface ShareButtonProps {
+  /** Absolute, or relative to the current origin */
   url: string;
+  /** The profile's university; it is only shared where the university allows sharing */
+  universityId?: string;
 }
 
-export function ShareButton({ url }: ShareButtonProps) {
+export function ShareButton({ url, universityId }: ShareButtonProps) {
   const [copied, setCopied] = useState(false);
+  const settings = useUniversitySettings(universityId);
 
   const handleShare = async () => {
-    const profileUrl = `${window.location.origin}/profile/${url}`;
+    const profileUrl = new URL(url, window.location.origin).href;
 
     if (navigator.share) {
       try {
@@ -33,6 +38,10 @@ export function ShareButton({ url }: ShareButtonProps) {
     }
   };
 
+  if (universityId && !settings?.allowSharing) {
+    return null;
+  }
+
   return (
     <button
       onClick={handleShare}
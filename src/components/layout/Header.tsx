@@ -6,6 +6,8 @@ import { usePathname } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
 import { Icon } from '@/components/ui/Icon';
 import { Button } from '@/components/ui/Button';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
+import { SyncStatusIndicator } from '@/components/collaboration/SyncStatusIndicator';
 
 export function Header() {
   const { user, logout, isAdmin } = useAuth();
@@ -77,6 +79,8 @@ export function Header() {
           <div className="hidden md:flex md:items-center md:space-x-4">
             {user ? (
               <div className="flex items-center space-x-4">
+                <SyncStatusIndicator />
+                <NotificationBell />
                 <Link
                   href="/dashboard"
                   className={`btn-hover-effect inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 ${
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '../../contexts/ToastContext';
 import { MediaService } from '@/services/MediaService';
+import { syncOutbox } from '@/services/syncOutbox';
 import { TimelineMediaGallery } from './TimelineMediaGallery';
 
 interface TimelineMediaUploadProps {
@@ -19,6 +20,16 @@ export const TimelineMediaUpload: React.FC<TimelineMediaUploadProps> = ({
   const { showToast } = useToast();
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<{ file: File; progress: number }[]>([]);
+  const mediaRef = useRef(existingMedia);
+  mediaRef.current = existingMedia;
+
+  // Files picked while offline join the event as they finish uploading; if
+  // the editor has closed by then they still land in the event's folder
+  const userId = user?.id;
+  useEffect(() => syncOutbox.onSynced(({ entry, mediaId }) => {
+    if (entry.kind !== 'media' || entry.folderId !== eventId || entry.userId !== userId || !mediaId) return;
+    onMediaChange([...mediaRef.current, mediaId]);
+  }), [eventId, userId, onMediaChange]);
 
   const handleFileChange = async (files: File[]) => {
     if (!user) {
@@ -26,6 +37,12 @@ export const TimelineMediaUpload: React.FC<TimelineMediaUploadProps> = ({
       return;
     }
 
+    if (!navigator.onLine) {
+      await Promise.all(files.map(file => syncOutbox.enqueue({ kind: 'media', file, folderId: eventId, userId: user.id })));
+      showToast(`${files.length} file(s) will upload when you're back online`, 'info');
+      return;
+    }
+
     try {
       setIsUploading(true);
       const progress: { file: File; progress: number }[] = files.map(file => ({
@@ -11,7 +11,8 @@ import { Spinner } from '@/components/ui/Spinner';
 import { Breadcrumbs } from '@/components/ui/Breadcrumbs';
 import { useToast } from '@/components/ui/toast';
 import { ProfileTabs } from '@/components/profile/ProfileTabs';
-import type { MemorialProfile } from '@/types/profile';
+import type { MemorialDate, MemorialProfile } from '@/types/profile';
+import { formatFuzzyDate } from '@/utils/date';
 
 interface MemorialDetailClientProps {
   params: {
@@ -20,8 +21,9 @@ interface MemorialDetailClientProps {
   };
 }
 
-function formatDate(date: Date | Timestamp | null | undefined): string {
+function formatDate(date: MemorialDate | null | undefined): string {
   if (!date) return '';
+  if (typeof date === 'string') return formatFuzzyDate(date) ?? date;
   if (date instanceof Timestamp) {
     return date.toDate().toLocaleDateString();
   }
@@ -4,9 +4,12 @@ import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Icon } from '@/components/ui/Icon';
 import { Input } from '@/components/ui/Input';
+import { FuzzyDateInput } from '@/components/ui/FuzzyDateInput';
 import { Textarea } from '@/components/ui/Textarea';
 import { Button } from '@/components/ui/Button';
-import { MemorialProfile, MemorialProfileFormData, TimelineEvent, LifeEvent } from '@/types/profile';
+import { MemorialProfile, MemorialProfileFormData, TimelineEvent } from '@/types/profile';
+import { toTimelineEvent } from '@/utils/timelineConverters';
+import { isChronological, toFuzzyDateString } from '@/utils/date';
 import { toast } from 'react-hot-toast';
 import { Badge } from '@/components/ui/Badge';
 import { ImageUpload } from '@/components/ui/ImageUpload';
@@ -23,6 +26,7 @@ import { LifeStoryEditor } from '@/components/profile/LifeStoryEditor';
 import { Select } from '@/components/ui/Select';
 import { TimelineBuilder } from '@/components/timeline/TimelineBuilder';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUniversitySettings } from '@/hooks/useUniversitySettings';
 import { getFirebaseServices } from '@/lib/firebase';
 import { doc, getDoc, updateDoc } from 'firebase/firestore';
 
@@ -52,11 +56,6 @@ interface ProfileLock {
   timestamp: Date;
 }
 
-const timelineEventToLifeEvent = (event: any) => ({
-  ...event,
-  type: event.type === 'job' ? 'work' : event.type === 'event' ? 'other' : event.type,
-});
-
 export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
   profile,
   onSubmit,
@@ -69,6 +68,7 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
   console.log('[MemorialProfileForm] Rendering form with profile:', profile?.id || 'new');
 
   const { user } = useAuth();
+  const settings = useUniversitySettings(universityId);
   const [isLocked, setIsLocked] = useState(false);
   const [lockError, setLockError] = useState<string | null>(null);
   const LOCK_TIMEOUT = 30 * 60 * 1000; // 30 minutes
@@ -99,7 +99,7 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
         updatedAt: profile?.lifeStory?.updatedAt || new Date()
       },
       timeline: Array.isArray(profile?.timeline)
-        ? profile.timeline.map(timelineEventToLifeEvent)
+        ? profile.timeline.map(event => toTimelineEvent({ ...event }))
         : [],
       isPublic: profile?.isPublic || false,
       status: profile?.status || 'draft',
@@ -299,6 +299,9 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
     if (!data.basicInfo?.dateOfBirth) {
       newErrors.dateOfBirth = 'Date of birth is required';
     }
+    if (!isChronological(data.basicInfo?.dateOfBirth, data.basicInfo?.dateOfDeath)) {
+      newErrors.dateOfDeath = 'Date of death cannot be before date of birth';
+    }
 
     if (Object.keys(newErrors).length > 0) {
       console.log('[MemorialProfileForm] Validation errors:', newErrors);
@@ -340,34 +343,6 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
     setCompletionPercentage(percentage);
   }, [formData, errors]);
 
-  const formatDate = (date: Date | Timestamp | null | undefined): string => {
-    if (!date) return '';
-    
-    try {
-      if (date instanceof Date) {
-        return isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
-      }
-      if (date instanceof Timestamp) {
-        const dateObj = date.toDate();
-        return isNaN(dateObj.getTime()) ? '' : dateObj.toISOString().split('T')[0];
-      }
-      return '';
-    } catch (error) {
-      console.error('Error formatting date:', error);
-      return '';
-    }
-  };
-
-  const validateDateInput = (value: string): boolean => {
-    // Check if the input matches the date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(value)) return false;
-
-    // Parse the date and check if it's valid
-    const date = new Date(value);
-    return !isNaN(date.getTime());
-  };
-
   // Handle form submission
   const handleSubmit = async (status: 'draft' | 'published' = 'draft') => {
     if (formState.isSaving) return;
@@ -484,7 +459,7 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
   };
 
   // Update timeline handler with memoization
-  const handleTimelineUpdate = useCallback((updatedEvents: LifeEvent[]) => {
+  const handleTimelineUpdate = useCallback((updatedEvents: TimelineEvent[]) => {
     console.log('[MemorialProfileForm] Timeline update:', {
       eventCount: updatedEvents.length,
       firstEvent: updatedEvents[0]?.title,
@@ -660,61 +635,38 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
                   <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
                     Date of Birth <span className="text-red-500">*</span>
                   </label>
-                  <Input
+                  <FuzzyDateInput
                     id="dateOfBirth"
-                    type="date"
-                    value={formatDate(formData.basicInfo?.dateOfBirth)}
-                    onChange={(e) => {
-                      const value = e.target.value;
-                      if (!value || validateDateInput(value)) {
-                        const date = value ? new Date(value) : null;
-                        if (!date || !isNaN(date.getTime())) {
-                          updateFormData({
-                            basicInfo: {
-                              ...formData.basicInfo!,
-                              dateOfBirth: date
-                            }
-                          });
+                    value={toFuzzyDateString(formData.basicInfo?.dateOfBirth)}
+                    onChange={(date) =>
+                      updateFormData({
+                        basicInfo: {
+                          ...formData.basicInfo!,
+                          dateOfBirth: date
                         }
-                      }
-                    }}
-                    max={new Date().toISOString().split('T')[0]}
-                    className={`mt-1 ${errors.dateOfBirth ? 'border-red-500' : ''}`}
+                      })
+                    }
+                    error={errors.dateOfBirth}
                   />
-                  {errors.dateOfBirth && (
-                    <p className="mt-1 text-sm text-red-600">{errors.dateOfBirth}</p>
-                  )}
                 </div>
 
                 <div className="sm:col-span-3">
                   <label htmlFor="dateOfDeath" className="block text-sm font-medium text-gray-700">
                     Date of Death
                   </label>
-                  <Input
+                  <FuzzyDateInput
                     id="dateOfDeath"
-                    type="date"
-                    value={formatDate(formData.basicInfo?.dateOfDeath)}
-                    onChange={(e) => {
-                      const value = e.target.value;
-                      if (!value || validateDateInput(value)) {
-                        const date = value ? new Date(value) : null;
-                        if (!date || !isNaN(date.getTime())) {
-                          updateFormData({
-                            basicInfo: {
-                              ...formData.basicInfo!,
-                              dateOfDeath: date
-                            }
-                          });
+                    value={toFuzzyDateString(formData.basicInfo?.dateOfDeath)}
+                    onChange={(date) =>
+                      updateFormData({
+                        basicInfo: {
+                          ...formData.basicInfo!,
+                          dateOfDeath: date
                         }
-                      }
-                    }}
-                    min={formData.basicInfo?.dateOfBirth ? formatDate(formData.basicInfo.dateOfBirth) : undefined}
-                    max={new Date().toISOString().split('T')[0]}
-                    className={`mt-1 ${errors.dateOfDeath ? 'border-red-500' : ''}`}
+                      })
+                    }
+                    error={errors.dateOfDeath}
                   />
-                  {errors.dateOfDeath && (
-                    <p className="mt-1 text-sm text-red-600">{errors.dateOfDeath}</p>
-                  )}
                 </div>
 
                 <div className="sm:col-span-3">
@@ -792,6 +744,8 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
                 <TimelineBuilder
                   initialEvents={formData.timeline}
                   onEventsChange={handleTimelineUpdate}
+                  dateOfBirth={formData.basicInfo?.dateOfBirth}
+                  dateOfDeath={formData.basicInfo?.dateOfDeath}
                   orgId={profile?.universityId || ''}
                   profileId={formData.id || ''}
                   isEditMode={true}
@@ -858,13 +812,18 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
                 <div>
                   <h4 className="text-sm font-medium text-gray-900">Public Memorial</h4>
                   <p className="text-sm text-gray-500">
-                    Make this memorial visible to everyone
+                    {settings?.allowPublicProfiles === false && !formData.isPublic
+                      ? 'This university does not allow public memorials'
+                      : 'Make this memorial visible to everyone'}
                   </p>
                 </div>
-                <Switch
-                  checked={formData.isPublic || false}
-                  onChange={(checked: boolean) => updateFormData({ isPublic: checked })}
-                />
+                {/* A memorial that is already public can still be made private */}
+                {(settings?.allowPublicProfiles || formData.isPublic) && (
+                  <Switch
+                    checked={formData.isPublic || false}
+                    onChange={(checked: boolean) => updateFormData({ isPublic: checked })}
+                  />
+                )}
               </div>
             </Card>
           </TabsContent>
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FiBell } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { notificationService } from '@/services/notifications';
+import { AppNotification } from '@/types/notifications';
+
+const DROPDOWN_SIZE = 10;
+
+export function NotificationBell() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return notificationService.subscribeToUnreadCount(user.id, setUnreadCount);
+  }, [user]);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const toggle = async () => {
+    const opening = !open;
+    setOpen(opening);
+    if (!opening || !user) return;
+
+    setLoading(true);
+    try {
+      setNotifications(await notificationService.getNotifications(user.id, { max: DROPDOWN_SIZE }));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+      toast.error('Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClick = async (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.isRead) {
+      notificationService.markAsRead([notification.id]).catch(error =>
+        console.error('Error marking notification as read:', error)
+      );
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user) return;
+    try {
+      await notificationService.markAllAsRead(user.id);
+      setNotifications(prev => prev.map(notification => ({ ...notification, isRead: true })));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={toggle}
+        className="relative p-2 text-gray-500 hover:text-gray-900 focus:outline-none"
+        aria-label={unreadCount ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <FiBell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute top-0 right-0 min-w-[1rem] h-4 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg z-50 border border-gray-200"
+          >
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+              {unreadCount > 0 && (
+                <button onClick={handleMarkAllRead} className="text-xs text-indigo-600 hover:text-indigo-800">
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              {loading ? (
+                <div className="flex justify-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-500" />
+                </div>
+              ) : notifications.length === 0 ? (
+                <div className="text-center py-4 text-sm text-gray-500">No notifications yet</div>
+              ) : (
+                notifications.map(notification => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleClick(notification)}
+                    className={`block w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.isRead ? '' : 'bg-indigo-50'}`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                    <p className="text-sm text-gray-600 line-clamp-2">{notification.body}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                    </p>
+                  </button>
+                ))
+              )}
+            </div>
+
+            <Link
+              href="/notifications"
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 text-center text-sm text-indigo-600 hover:bg-gray-50 border-t border-gray-100"
+            >
+              View all and manage preferences
+            </Link>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
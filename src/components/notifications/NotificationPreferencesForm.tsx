@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { notificationService } from '@/services/notifications';
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES,
+  NotificationChannel,
+  NotificationType,
+} from '@/types/notifications';
+
+interface NotificationPreferencesFormProps {
+  userId: string;
+}
+
+const CHANNEL_OPTIONS = NOTIFICATION_CHANNELS.map(channel => ({
+  value: channel,
+  label: NOTIFICATION_CHANNEL_LABELS[channel],
+}));
+
+export function NotificationPreferencesForm({ userId }: NotificationPreferencesFormProps) {
+  const [channels, setChannels] = useState<Record<NotificationType, NotificationChannel>>(DEFAULT_NOTIFICATION_CHANNELS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const preferences = await notificationService.getPreferences(userId);
+        setChannels(preferences.channels);
+      } catch (error) {
+        console.error('Error loading notification preferences:', error);
+        toast.error('Failed to load notification preferences');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, [userId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await notificationService.savePreferences(userId, channels);
+      toast.success('Notification preferences saved');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading preferences...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Delivery preferences</h2>
+        <p className="text-sm text-gray-500">
+          Everything appears here and under the bell. Choose which notifications are also emailed, and how often.
+        </p>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {NOTIFICATION_TYPES.map(type => (
+          <div key={type} className="grid grid-cols-1 md:grid-cols-[1fr_14rem] items-center gap-2 py-3">
+            <span className="text-sm font-medium text-gray-900">{NOTIFICATION_TYPE_LABELS[type]}</span>
+            <Select
+              value={channels[type]}
+              onChange={(value) => setChannels(prev => ({ ...prev, [type]: value as NotificationChannel }))}
+              options={CHANNEL_OPTIONS}
+              aria-label={`Delivery for ${NOTIFICATION_TYPE_LABELS[type]}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save preferences'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
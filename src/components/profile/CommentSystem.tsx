@@ -3,12 +3,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Icon } from '@/components/ui/Icon';
 import { Button } from '@/components/ui/Button';
 import { Textarea } from '@/components/ui/Textarea';
+import { Select } from '@/components/ui/Select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/Dialog';
 import { useAuth } from '@/hooks/useAuth';
 import { usePermissions } from '@/hooks/usePermissions';
 import { useComments } from '@/hooks/useComments';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
-import { Comment, UpdateCommentDTO } from '@/types/comments';
+import { Comment, CommentReportReason, COMMENT_REPORT_REASONS, UpdateCommentDTO } from '@/types/comments';
 import { toast } from 'react-hot-toast';
 
 interface CommentSystemProps {
@@ -34,13 +36,17 @@ export const CommentSystem: React.FC<CommentSystemProps> = ({
     updateComment,
     deleteComment,
     resolveComment,
-    toggleReaction
+    toggleReaction,
+    reportComment
   } = useComments({ profileId, orgId });
 
   const [newComment, setNewComment] = useState('');
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [editingComment, setEditingComment] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
+  const [reportingComment, setReportingComment] = useState<Comment | null>(null);
+  const [reportReason, setReportReason] = useState<CommentReportReason>('spam');
+  const [reportDetails, setReportDetails] = useState('');
 
   const handleAddComment = async () => {
     if (!newComment.trim()) return;
@@ -100,11 +106,24 @@ export const CommentSystem: React.FC<CommentSystemProps> = ({
     }
   };
 
+  const handleOpenReport = (comment: Comment) => {
+    setReportingComment(comment);
+    setReportReason('spam');
+    setReportDetails('');
+  };
+
+  const handleSubmitReport = async () => {
+    if (!reportingComment) return;
+    await reportComment(reportingComment.id, reportReason, reportDetails);
+    setReportingComment(null);
+  };
+
   const renderComment = (comment: Comment) => {
     const isAuthor = comment.authorId === user?.id;
     const canEdit = isAuthor || isAdmin;
     const canDelete = isAuthor || isAdmin;
     const canResolve = isAdmin;
+    const canReport = !!user && !isAuthor;
 
     return (
       <div key={comment.id} className="mb-4">
@@ -141,6 +160,14 @@ export const CommentSystem: React.FC<CommentSystemProps> = ({
                     Delete
                   </button>
                 )}
+                {canReport && (
+                  <button
+                    onClick={() => handleOpenReport(comment)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    Report
+                  </button>
+                )}
                 {Boolean(canResolve) && !comment.isResolved && (
                   <button
                     onClick={() => handleResolveComment(comment.id)}
@@ -260,6 +287,41 @@ export const CommentSystem: React.FC<CommentSystemProps> = ({
           </Button>
         </div>
       </div>
+
+      <Dialog open={!!reportingComment} onOpenChange={(open) => !open && setReportingComment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report comment</DialogTitle>
+            <DialogDescription>
+              Moderators will review this comment. It is hidden automatically after several reports.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select
+              value={reportReason}
+              onChange={(value) => setReportReason(value as CommentReportReason)}
+              options={COMMENT_REPORT_REASONS.map(reason => ({
+                value: reason,
+                label: reason.charAt(0).toUpperCase() + reason.slice(1),
+              }))}
+            />
+            <Textarea
+              value={reportDetails}
+              onChange={(e) => setReportDetails(e.target.value)}
+              placeholder="Anything moderators should know (optional)"
+              rows={3}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setReportingComment(null)}>
+                Cancel
+              </Button>
+              <Button variant="primary" size="sm" onClick={handleSubmitReport}>
+                Submit report
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }; 
\ No newline at end of file
@@ -6,12 +6,16 @@ import { Badge } from '@/components/ui/Badge';
 import { Textarea } from '@/components/ui/Textarea';
 import { useAuth } from '@/hooks/useAuth';
 import { usePermissions } from '@/hooks/usePermissions';
+import { approvalWorkflowService, isSubmissionOverdue } from '@/services/approvalWorkflow';
+import { WorkflowDecisionType, WorkflowResourceType, WorkflowSubmission } from '@/types/workflow';
 import { toast } from 'react-hot-toast';
 import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
 
 interface ContentApprovalWorkflowProps {
   profileId: string;
   orgId: string;
+  resourceType?: WorkflowResourceType;
   currentStatus: 'draft' | 'pending' | 'published' | 'archived';
   onStatusChange: (newStatus: 'draft' | 'pending' | 'published' | 'archived', comments?: string) => Promise<void>;
   className?: string;
@@ -20,6 +24,7 @@ interface ContentApprovalWorkflowProps {
 export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = ({
   profileId,
   orgId,
+  resourceType = 'profile',
   currentStatus,
   onStatusChange,
   className
@@ -32,6 +37,8 @@ export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = (
   const [hasAdminAccess, setHasAdminAccess] = useState(false);
   const [hasEditorAccess, setHasEditorAccess] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [submission, setSubmission] = useState<WorkflowSubmission | null>(null);
+  const [canReview, setCanReview] = useState(false);
 
   useEffect(() => {
     const checkPermissions = async () => {
@@ -60,14 +67,41 @@ export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = (
     checkPermissions();
   }, [user, orgId, profileId, isAdmin, isEditor]);
 
+  useEffect(() => {
+    const loadSubmission = async () => {
+      if (!user || currentStatus !== 'pending') {
+        setSubmission(null);
+        setCanReview(false);
+        return;
+      }
+
+      try {
+        const active = await approvalWorkflowService.getActiveSubmission(profileId);
+        setSubmission(active);
+        setCanReview(active ? await approvalWorkflowService.canReview(active, user.id) : false);
+      } catch (error) {
+        console.error('Error loading review status:', error);
+        toast.error('Failed to load review status');
+      }
+    };
+
+    loadSubmission();
+  }, [user, profileId, currentStatus]);
+
   const handleSubmitForReview = async () => {
     if (!hasEditorAccess) {
       return;
     }
+    if (!user) return;
+
     setIsSubmitting(true);
     try {
+      const created = await approvalWorkflowService.submitForReview(
+        { resourceType, resourceId: profileId, universityId: orgId }
+      );
       await onStatusChange('pending');
-      toast.success('Profile submitted for review');
+      setSubmission(created);
+      toast.success(`Profile submitted for ${created.stages[0].name.toLowerCase()}`);
     } catch (error) {
       console.error('Error submitting for review:', error);
       toast.error('Failed to submit for review');
@@ -76,42 +110,44 @@ export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = (
     }
   };
 
-  const handleApprove = async () => {
-    if (!hasAdminAccess) {
+  const handleDecision = async (decision: WorkflowDecisionType) => {
+    if (!submission || !canReview || !user) {
       return;
     }
     setIsSubmitting(true);
     try {
-      await onStatusChange('published', comments);
-      toast.success('Profile approved and published');
-      setShowComments(false);
-      setComments('');
-    } catch (error) {
-      console.error('Error approving profile:', error);
-      toast.error('Failed to approve profile');
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
+      const updated = await approvalWorkflowService.recordDecision(
+        submission.id,
+        decision,
+        comments.trim() || undefined
+      );
 
-  const handleReject = async () => {
-    if (!hasAdminAccess) {
-      return;
-    }
-    setIsSubmitting(true);
-    try {
-      await onStatusChange('draft', comments);
-      toast.success('Profile returned to draft');
+      if (updated.status === 'approved') {
+        await onStatusChange('published', comments);
+        toast.success('Profile approved and published');
+      } else if (updated.status === 'in_review') {
+        toast.success(`Approved, moved to ${updated.stages[updated.currentStageIndex].name.toLowerCase()}`);
+      } else {
+        await onStatusChange('draft', comments);
+        toast.success(decision === 'reject' ? 'Profile rejected' : 'Changes requested, profile returned to draft');
+      }
+
+      setSubmission(updated.status === 'in_review' ? updated : null);
+      setCanReview(updated.status === 'in_review' && await approvalWorkflowService.canReview(updated, user.id));
       setShowComments(false);
       setComments('');
     } catch (error) {
-      console.error('Error rejecting profile:', error);
-      toast.error('Failed to reject profile');
+      console.error('Error recording review decision:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record decision');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleApprove = () => handleDecision('approve');
+  const handleReject = () => handleDecision('reject');
+  const handleRequestChanges = () => handleDecision('request_changes');
+
   const handleArchive = async () => {
     if (!hasAdminAccess) {
       return;
@@ -180,7 +216,7 @@ export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = (
             </Button>
           )}
 
-          {currentStatus === 'pending' && hasAdminAccess && (
+          {currentStatus === 'pending' && canReview && (
             <>
               <Button
                 variant="outline"
@@ -193,7 +229,7 @@ export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = (
               <Button
                 variant="secondary"
                 size="sm"
-                onClick={handleReject}
+                onClick={() => setShowComments(true)}
                 disabled={isSubmitting}
               >
                 {isSubmitting ? (
@@ -252,6 +288,49 @@ export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = (
         </div>
       </div>
 
+      {submission && (
+        <div className="rounded-lg border border-gray-200 p-3 space-y-3">
+          <ol className="flex flex-wrap items-center gap-2 text-sm">
+            {submission.stages.map((stage, index) => (
+              <li
+                key={stage.id}
+                className={cn(
+                  'px-2 py-1 rounded',
+                  index < submission.currentStageIndex && 'bg-green-100 text-green-800',
+                  index === submission.currentStageIndex && 'bg-primary/10 font-medium',
+                  index > submission.currentStageIndex && 'text-gray-400'
+                )}
+              >
+                {stage.name}
+              </li>
+            ))}
+          </ol>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Icon name="clock" className="h-4 w-4" />
+            {isSubmissionOverdue(submission) ? (
+              <Badge variant="destructive">
+                Overdue by {formatDistanceToNow(submission.dueAt)}
+              </Badge>
+            ) : (
+              <span>Due {formatDistanceToNow(submission.dueAt, { addSuffix: true })}</span>
+            )}
+          </div>
+          {submission.decisions.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {submission.decisions.map((decision, index) => (
+                <li key={index} className="text-gray-600">
+                  <span className="font-medium">
+                    {submission.stages.find(stage => stage.id === decision.stageId)?.name ?? decision.stageId}:
+                  </span>{' '}
+                  {decision.decision.replace('_', ' ')}
+                  {decision.comments && <span> — {decision.comments}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <AnimatePresence>
         {showComments && (
           <motion.div
@@ -287,6 +366,14 @@ export const ContentApprovalWorkflow: React.FC<ContentApprovalWorkflowProps> = (
                 >
                   Approve with Comments
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRequestChanges}
+                  disabled={isSubmitting || !comments.trim()}
+                >
+                  Request Changes
+                </Button>
                 <Button
                   variant="secondary"
                   size="sm"
@@ -1,40 +1,78 @@
-import { DiffResult } from '@/utils/diff';
+import { useState, ReactNode } from 'react';
+import { DiffSegment, FieldDiff } from '@/utils/diff';
 import { cn } from '@/lib/utils';
 
 interface DiffSectionProps {
   title: string;
-  diff: DiffResult;
+  count: number;
+  defaultOpen?: boolean;
   className?: string;
+  children: ReactNode;
 }
 
-interface DiffChange {
-  type: 'deletion' | 'addition' | 'unchanged';
-  text: string;
-}
+export const DiffText = ({ segments }: { segments: DiffSegment[] }) => (
+  <p className="whitespace-pre-wrap break-words text-gray-800">
+    {segments.map((segment, index) => (
+      <span
+        key={index}
+        className={cn({
+          'bg-red-100 text-red-800 line-through': segment.type === 'deletion',
+          'bg-green-100 text-green-800': segment.type === 'addition',
+        })}
+      >
+        {segment.text}
+      </span>
+    ))}
+  </p>
+);
 
-export const DiffSection = ({ title, diff, className }: DiffSectionProps) => {
-  return (
-    <div className={cn('mb-6', className)}>
-      <h3 className="text-lg font-semibold mb-3">{title}</h3>
-      <div className="bg-gray-50 rounded-lg p-4">
-        {diff.changes.map((change: DiffChange, index: number) => (
-          <div
-            key={index}
-            className={cn(
-              'whitespace-pre-wrap break-words',
-              {
-                'bg-red-100 text-red-800': change.type === 'deletion',
-                'bg-green-100 text-green-800': change.type === 'addition',
-                'text-gray-800': change.type === 'unchanged',
-              }
-            )}
-          >
-            {change.type === 'deletion' && '− '}
-            {change.type === 'addition' && '+ '}
-            {change.text}
-          </div>
-        ))}
+export const FieldDiffList = ({ fields }: { fields: FieldDiff[] }) => (
+  <dl className="space-y-2">
+    {fields.map((field) => (
+      <div key={field.field} className="grid grid-cols-[10rem_1fr] gap-3 text-sm">
+        <dt className="font-medium text-gray-700">{field.label}</dt>
+        <dd>
+          {field.textDiff ? (
+            <DiffText segments={field.textDiff} />
+          ) : (
+            <div className="space-y-1">
+              {field.oldValue !== null && (
+                <div className="bg-red-100 text-red-800 line-through px-1 rounded w-fit">{field.oldValue}</div>
+              )}
+              {field.newValue !== null && (
+                <div className="bg-green-100 text-green-800 px-1 rounded w-fit">{field.newValue}</div>
+              )}
+            </div>
+          )}
+        </dd>
       </div>
+    ))}
+  </dl>
+);
+
+export const DiffSection = ({ title, count, defaultOpen = true, className, children }: DiffSectionProps) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen && count > 0);
+
+  return (
+    <div className={cn('mb-6 border rounded-lg', className)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+        aria-expanded={isOpen}
+        disabled={count === 0}
+      >
+        <h3 className="text-lg font-semibold">{title}</h3>
+        <span className="text-sm text-gray-500">
+          {count === 0 ? 'No changes' : `${count} change${count === 1 ? '' : 's'}`}
+          {count > 0 && <span className="ml-2">{isOpen ? '▾' : '▸'}</span>}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="bg-gray-50 rounded-b-lg p-4 space-y-4">
+          {children}
+        </div>
+      )}
     </div>
   );
-}; 
\ No newline at end of file
+};
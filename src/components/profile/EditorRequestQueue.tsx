@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { FiCheck, FiX, FiRefreshCw } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { isUniversityAdmin } from '@/lib/permissions';
+import { auditActorFromUser } from '@/services/auditLogService';
+import { editorRequestService, EditorRequestScope } from '@/services/editorRequests';
+import { EDITOR_REQUEST_SYSTEM_REVIEWER, EditorRequest, EditorRequesterHistory } from '@/types/requests';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { AppError } from '@/utils/errors';
+
+type EditorRequestQueueProps = EditorRequestScope & {
+  className?: string;
+};
+
+const STATUS_CLASSES: Record<EditorRequest['status'], string> = {
+  pending: 'text-yellow-700',
+  approved: 'text-green-700',
+  rejected: 'text-red-700',
+};
+
+const requestedAgo = (request: EditorRequest) =>
+  request.requestedAt ? formatDistanceToNow(request.requestedAt.toDate(), { addSuffix: true }) : 'just now';
+
+function RequesterHistory({ request, history }: { request: EditorRequest; history?: EditorRequesterHistory }) {
+  if (!history) {
+    return <p className="mt-3 text-sm text-gray-500">Loading history...</p>;
+  }
+
+  const { stats } = history;
+  const earlier = history.requests.filter(other => other.id !== request.id);
+
+  return (
+    <div className="mt-3 text-sm text-gray-600">
+      {stats && (
+        <p>
+          {stats.totalRequests} {stats.totalRequests === 1 ? 'request' : 'requests'} in total
+          {stats.approvedRequests !== undefined && `, ${stats.approvedRequests} approved`}
+          {stats.rejectedRequests !== undefined && `, ${stats.rejectedRequests} rejected`}
+          {stats.requestsThisMonth !== undefined && `, ${stats.requestsThisMonth} in the last 30 days`}
+        </p>
+      )}
+      {earlier.length === 0 ? (
+        <p>No earlier requests</p>
+      ) : (
+        <ul className="mt-1 space-y-1">
+          {earlier.map(other => (
+            <li key={other.id}>
+              <span className={STATUS_CLASSES[other.status]}>{other.status}</span>
+              {other.profileId === request.profileId ? ' for this profile' : ' for another profile'}, {requestedAgo(other)}
+              {other.reviewNotes && (
+                <span className="italic">
+                  {' '}&ldquo;{other.reviewNotes}&rdquo;
+                  {other.reviewedBy === EDITOR_REQUEST_SYSTEM_REVIEWER && ' (automatic)'}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Pending editor access requests for one profile, or for every profile at a
+ * university. Renders nothing for users who can't review them.
+ */
+export function EditorRequestQueue({ className, ...scope }: EditorRequestQueueProps) {
+  const { user } = useAuth();
+  const profileId = 'profileId' in scope ? scope.profileId : undefined;
+  const universityId = 'universityId' in scope ? scope.universityId : undefined;
+  const [canReview, setCanReview] = useState(false);
+  const [requests, setRequests] = useState<EditorRequest[]>([]);
+  const [histories, setHistories] = useState<Record<string, EditorRequesterHistory>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processing, setProcessing] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadQueue = useCallback(async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      const allowed = profileId
+        ? await editorRequestService.canReview(user.id, profileId)
+        : await isUniversityAdmin(user.id, universityId!);
+      setCanReview(allowed);
+      if (!allowed) return;
+
+      const pending = await editorRequestService.getPendingRequests(
+        profileId ? { profileId } : { universityId: universityId! }
+      );
+      setRequests(pending);
+
+      const requesters = Array.from(new Set(pending.map(request => request.userId)));
+      const loaded = await Promise.all(
+        requesters.map(async userId => [userId, await editorRequestService.getRequesterHistory(userId)] as const)
+      );
+      setHistories(Object.fromEntries(loaded));
+    } catch (error) {
+      console.error('Error loading editor requests:', error);
+      toast.error('Failed to load editor requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, profileId, universityId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleReview = async (request: EditorRequest, decision: 'approve' | 'reject') => {
+    if (!user) return;
+    const reviewNotes = notes[request.id] ?? '';
+    if (decision === 'reject' && !reviewNotes.trim()) {
+      toast.error('Add a note saying why the request is rejected');
+      return;
+    }
+
+    setProcessing(request.id);
+    try {
+      const reviewer = auditActorFromUser(user);
+      if (decision === 'approve') {
+        await editorRequestService.approveRequest(request, reviewer, reviewNotes);
+        toast.success(`${request.userEmail || 'The requester'} is now an editor`);
+      } else {
+        await editorRequestService.rejectRequest(request, reviewer, reviewNotes);
+        toast.success('Request rejected');
+      }
+      setRequests(prev => prev.filter(other => other.id !== request.id));
+    } catch (error) {
+      console.error(`Error trying to ${decision} editor request ${request.id}:`, error);
+      toast.error(error instanceof AppError ? error.message : `Failed to ${decision} the request`);
+      if (error instanceof AppError && error.code === 'FAILED_PRECONDITION') {
+        setRequests(prev => prev.filter(other => other.id !== request.id));
+      }
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  if (!user || !canReview) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Editor Requests
+          {requests.length > 0 && (
+            <span className="ml-2 text-sm font-normal text-gray-500">{requests.length} awaiting review</span>
+          )}
+        </h2>
+        <button onClick={loadQueue} title="Refresh" className="p-2 text-gray-600 hover:text-gray-800">
+          <FiRefreshCw size={20} />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+        </div>
+      ) : requests.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No pending editor requests</div>
+      ) : (
+        <ul className="space-y-4">
+          {requests.map(request => {
+            const busy = processing === request.id;
+            return (
+              <li key={request.id} className="p-4 rounded-lg border border-gray-200 bg-gray-50">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <span className="font-medium">{request.userEmail || request.userId}</span>
+                    <span className="text-sm text-gray-500 ml-2">{requestedAgo(request)}</span>
+                    {universityId && (
+                      <Link href={`/profile/${request.profileId}`} className="ml-2 text-sm text-indigo-600 hover:underline">
+                        View profile
+                      </Link>
+                    )}
+                  </div>
+                </div>
+                {request.reason && <p className="mt-2 text-gray-700">{request.reason}</p>}
+                <RequesterHistory request={request} history={histories[request.userId]} />
+                <Textarea
+                  value={notes[request.id] ?? ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                  placeholder="Notes for the requester (required to reject)"
+                  rows={2}
+                  className="mt-3"
+                />
+                <div className="mt-3 flex justify-end space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleReview(request, 'reject')} disabled={busy}>
+                    <FiX className="mr-1" /> Reject
+                  </Button>
+                  <Button size="sm" onClick={() => handleReview(request, 'approve')} isLoading={busy} disabled={busy}>
+                    <FiCheck className="mr-1" /> Approve
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,12 @@ import { Icon } from '@/components/ui/Icon';
 import { Button } from '@/components/ui/Button';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { Badge } from '@/components/ui/Badge';
-import { BaseProfile, PersonalProfile, MemorialProfile } from '@/types/profile';
+import { BaseProfile, PersonalProfile, MemorialDate, MemorialProfile } from '@/types/profile';
 import { useAuth } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import { Timestamp } from 'firebase/firestore';
+import { formatFuzzyDate } from '@/utils/date';
 import { TimelineView } from '@/components/timeline/TimelineView';
 import { CommentsSection } from '@/components/comments/CommentsSection';
 import { MediaGallery } from '@/components/media/MediaGallery';
@@ -52,7 +53,7 @@ export const EnhancedProfileCard: React.FC<EnhancedProfileCardProps> = ({
   const isAdmin = roles?.[orgOrUniversityId] === 'admin';
   const isEditor = roles?.[orgOrUniversityId] === 'editor';
 
-  const formatDate = (date: Date | Timestamp | null | undefined): string => {
+  const formatDate = (date: MemorialDate | null | undefined): string => {
     if (!date) return 'Not specified';
     try {
       if (date instanceof Timestamp) {
@@ -61,11 +62,11 @@ export const EnhancedProfileCard: React.FC<EnhancedProfileCardProps> = ({
       if (date instanceof Date) {
         return date.toLocaleDateString();
       }
-      // Handle string dates
+      // Fuzzy date strings such as "1923" or "c. 1920s"
       if (typeof date === 'string') {
-        const parsedDate = new Date(date);
-        if (!isNaN(parsedDate.getTime())) {
-          return parsedDate.toLocaleDateString();
+        const formatted = formatFuzzyDate(date);
+        if (formatted) {
+          return formatted;
         }
       }
       return 'Invalid date';
@@ -137,7 +138,7 @@ export const EnhancedProfileCard: React.FC<EnhancedProfileCardProps> = ({
                 
                 {/* Action Buttons */}
                 <div className="flex flex-wrap gap-4 justify-center md:justify-start mt-6">
-                  <ShareButton url={`/profile/${profile.id}`} />
+                  <ShareButton url={`/profile/${profile.id}`} universityId={orgOrUniversityId} />
                   <PinButton profileId={profile.id} />
                   <RoleBasedUI allowedRoles={['admin', 'editor']}>
                     <button
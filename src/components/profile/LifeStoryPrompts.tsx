@@ -7,245 +7,40 @@ import { Button } from '@/components/ui/Button';
 import { Textarea } from '@/components/ui/Textarea';
 import { Card } from '@/components/ui/Card';
 import { useToast } from '@/hooks/useToast';
+import { useStoryPromptLibrary } from '@/hooks/useStoryPromptLibrary';
+import type { StoryPromptOptions } from '@/services/storyPrompts';
+import type { QuestionCategory } from '@/types/questions';
 import debounce from 'lodash/debounce';
 
-interface Prompt {
-  id: string;
-  question: string;
-  placeholder: string;
-  maxLength?: number;
-}
-
-interface Category {
-  id: string;
-  title: string;
-  icon: string;
-  description: string;
-  prompts: Prompt[];
-}
-
-const categories: Category[] = [
-  {
-    id: 'professional',
-    title: 'Professional Journey',
-    icon: 'briefcase',
-    description: 'Share your career path, achievements, and work experiences',
-    prompts: [
-      {
-        id: 'first-job',
-        question: 'What was your first job and what did you learn from it?',
-        placeholder: 'Share your early work experience and the lessons it taught you...',
-        maxLength: 500,
-      },
-      {
-        id: 'career-challenge',
-        question: 'Describe a career challenge that shaped who you are today',
-        placeholder: 'Tell us about a difficult situation at work and how it changed you...',
-        maxLength: 500,
-      },
-      {
-        id: 'proud-achievement',
-        question: 'What professional achievement are you most proud of?',
-        placeholder: 'Share the accomplishment that means the most to you...',
-        maxLength: 500,
-      },
-    ],
-  },
-  {
-    id: 'personal',
-    title: 'Personal Growth',
-    icon: 'user',
-    description: 'Reflect on your personal development and life lessons',
-    prompts: [
-      {
-        id: 'personal-challenge',
-        question: 'What\'s a personal challenge you\'ve overcome?',
-        placeholder: 'Share a difficult time in your life and how you grew from it...',
-        maxLength: 500,
-      },
-      {
-        id: 'changing-goals',
-        question: 'How have your goals changed over the years?',
-        placeholder: 'Describe how your aspirations have evolved...',
-        maxLength: 500,
-      },
-      {
-        id: 'self-discovery',
-        question: 'What\'s something you\'ve learned about yourself recently?',
-        placeholder: 'Share a recent insight or realization about yourself...',
-        maxLength: 500,
-      },
-    ],
-  },
-  {
-    id: 'family',
-    title: 'Family & Relationships',
-    icon: 'users',
-    description: 'Share stories about your family and important relationships',
-    prompts: [
-      {
-        id: 'family-tradition',
-        question: 'What\'s a family tradition that\'s important to you?',
-        placeholder: 'Describe a special custom or ritual in your family...',
-        maxLength: 500,
-      },
-      {
-        id: 'relationship-lesson',
-        question: 'What\'s the most important lesson you\'ve learned about relationships?',
-        placeholder: 'Share wisdom gained from your relationships...',
-        maxLength: 500,
-      },
-      {
-        id: 'family-moment',
-        question: 'What\'s your favorite memory with your family?',
-        placeholder: 'Describe a special moment you shared with your family...',
-        maxLength: 500,
-      },
-    ],
-  },
-  {
-    id: 'milestones',
-    title: 'Life Milestones',
-    icon: 'flag',
-    description: 'Share significant moments and achievements in your life',
-    prompts: [
-      {
-        id: 'biggest-change',
-        question: 'What was the biggest change you\'ve experienced in life?',
-        placeholder: 'Describe a major transition and how it affected you...',
-        maxLength: 500,
-      },
-      {
-        id: 'defining-moment',
-        question: 'What moment defined who you are today?',
-        placeholder: 'Share a pivotal experience that shaped your character...',
-        maxLength: 500,
-      },
-      {
-        id: 'future-goals',
-        question: 'What are your hopes for the future?',
-        placeholder: 'Share your dreams and aspirations...',
-        maxLength: 500,
-      },
-    ],
-  },
-  {
-    id: 'values',
-    title: 'Values & Beliefs',
-    icon: 'heart',
-    description: 'Share what matters most to you and your core beliefs',
-    prompts: [
-      {
-        id: 'core-values',
-        question: 'What values are most important to you?',
-        placeholder: 'Share the principles that guide your life...',
-        maxLength: 500,
-      },
-      {
-        id: 'life-philosophy',
-        question: 'What\'s your personal philosophy on life?',
-        placeholder: 'Describe your approach to living a meaningful life...',
-        maxLength: 500,
-      },
-      {
-        id: 'beliefs',
-        question: 'What beliefs have shaped your worldview?',
-        placeholder: 'Share the ideas and convictions that influence your perspective...',
-        maxLength: 500,
-      },
-    ],
-  },
-  {
-    id: 'hobbies',
-    title: 'Hobbies & Passions',
-    icon: 'star',
-    description: 'Share what brings you joy and how you spend your free time',
-    prompts: [
-      {
-        id: 'favorite-hobby',
-        question: 'What\'s your favorite hobby and why do you love it?',
-        placeholder: 'Describe what you enjoy doing in your free time...',
-        maxLength: 500,
-      },
-      {
-        id: 'passion-project',
-        question: 'What project or activity are you most passionate about?',
-        placeholder: 'Share what excites and motivates you...',
-        maxLength: 500,
-      },
-      {
-        id: 'skill-learning',
-        question: 'What skill are you currently trying to learn?',
-        placeholder: 'Tell us about something new you\'re working on...',
-        maxLength: 500,
-      },
-    ],
-  },
-  {
-    id: 'travel',
-    title: 'Travel & Adventures',
-    icon: 'map',
-    description: 'Share your travel experiences and adventures',
-    prompts: [
-      {
-        id: 'favorite-trip',
-        question: 'What\'s your favorite travel memory?',
-        placeholder: 'Share a special moment from your travels...',
-        maxLength: 500,
-      },
-      {
-        id: 'dream-destination',
-        question: 'Where would you love to visit and why?',
-        placeholder: 'Describe your dream destination...',
-        maxLength: 500,
-      },
-      {
-        id: 'travel-lesson',
-        question: 'What\'s the most important lesson you\'ve learned while traveling?',
-        placeholder: 'Share wisdom gained from your adventures...',
-        maxLength: 500,
-      },
-    ],
-  },
-  {
-    id: 'lessons',
-    title: 'Life Lessons',
-    icon: 'book',
-    description: 'Share the wisdom you\'ve gained through experience',
-    prompts: [
-      {
-        id: 'biggest-mistake',
-        question: 'What\'s the biggest mistake you\'ve learned from?',
-        placeholder: 'Share a lesson learned from a difficult experience...',
-        maxLength: 500,
-      },
-      {
-        id: 'advice',
-        question: 'What advice would you give to your younger self?',
-        placeholder: 'Share wisdom you wish you had known earlier...',
-        maxLength: 500,
-      },
-      {
-        id: 'life-changing',
-        question: 'What\'s something that changed your perspective on life?',
-        placeholder: 'Describe an experience that shifted your worldview...',
-        maxLength: 500,
-      },
-    ],
-  },
-];
+// The category icons this component's icon set has
+const CATEGORY_ICONS: Record<QuestionCategory, string> = {
+  academic: 'graduation-cap',
+  professional: 'briefcase',
+  personal: 'user',
+  philosophical: 'book',
+  cultural: 'map-pin',
+  social: 'users',
+  creative: 'star',
+  leadership: 'shield',
+};
 
 interface LifeStoryPromptsProps {
   onSave: (responses: Record<string, string>) => Promise<void>;
   initialResponses?: Record<string, string>;
   isSubmitting?: boolean;
+  /** Asks the university's prompts rather than the global library's */
+  universityId?: string | null;
+  audience?: StoryPromptOptions['audience'];
 }
 
 export const LifeStoryPrompts: React.FC<LifeStoryPromptsProps> = ({
   onSave,
   initialResponses = {},
   isSubmitting = false,
+  universityId,
+  audience,
 }) => {
+  const { categories, loading } = useStoryPromptLibrary({ universityId, audience });
   const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
   const [responses, setResponses] = useState<Record<string, string>>({});
   const [isSaving, setIsSaving] = useState(false);
@@ -267,7 +62,7 @@ export const LifeStoryPrompts: React.FC<LifeStoryPromptsProps> = ({
     categories.forEach(category => {
       category.prompts.forEach(prompt => {
         const response = responses[prompt.id];
-        if (prompt.maxLength && response?.length > prompt.maxLength) {
+        if (response?.length > prompt.maxLength) {
           newErrors[prompt.id] = `Response exceeds maximum length of ${prompt.maxLength} characters`;
         }
       });
@@ -275,7 +70,7 @@ export const LifeStoryPrompts: React.FC<LifeStoryPromptsProps> = ({
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, []);
+  }, [categories]);
 
   // Debounced save function
   const debouncedSave = useCallback(
@@ -381,6 +176,9 @@ export const LifeStoryPrompts: React.FC<LifeStoryPromptsProps> = ({
       </div>
 
       <div className="space-y-4">
+        {loading && (
+          <div className="text-center py-8 text-gray-500">Loading prompts...</div>
+        )}
         {categories.map((category) => (
           <Card key={category.id} className="overflow-hidden">
             <button
@@ -390,9 +188,9 @@ export const LifeStoryPrompts: React.FC<LifeStoryPromptsProps> = ({
               )}
             >
               <div className="flex items-center space-x-3">
-                <Icon name={category.icon} className="w-5 h-5 text-gray-500" />
+                <Icon name={CATEGORY_ICONS[category.id]} className="w-5 h-5 text-gray-500" />
                 <div className="text-left">
-                  <h3 className="text-lg font-medium">{category.title}</h3>
+                  <h3 className="text-lg font-medium">{category.label}</h3>
                   <p className="text-sm text-gray-500">{category.description}</p>
                 </div>
               </div>
@@ -414,13 +212,13 @@ export const LifeStoryPrompts: React.FC<LifeStoryPromptsProps> = ({
                   <div className="p-4 space-y-4 border-t">
                     {category.prompts.map((prompt) => {
                       const response = responses[prompt.id] || '';
-                      const isNearLimit = prompt.maxLength && response.length > prompt.maxLength * 0.9;
-                      const isOverLimit = prompt.maxLength && response.length > prompt.maxLength;
+                      const isNearLimit = response.length > prompt.maxLength * 0.9;
+                      const isOverLimit = response.length > prompt.maxLength;
                       
                       return (
                         <div key={prompt.id} className="space-y-2">
                           <label className="block text-sm font-medium text-gray-700">
-                            {prompt.question}
+                            {prompt.text}
                           </label>
                           <Textarea
                             value={response}
@@ -430,13 +228,11 @@ export const LifeStoryPrompts: React.FC<LifeStoryPromptsProps> = ({
                             maxLength={prompt.maxLength}
                             className={isOverLimit ? 'border-red-500' : isNearLimit ? 'border-yellow-500' : ''}
                           />
-                          {prompt.maxLength && (
-                            <p className={`text-sm text-right ${
-                              isOverLimit ? 'text-red-500' : isNearLimit ? 'text-yellow-500' : 'text-gray-500'
-                            }`}>
-                              {response.length}/{prompt.maxLength} characters
-                            </p>
-                          )}
+                          <p className={`text-sm text-right ${
+                            isOverLimit ? 'text-red-500' : isNearLimit ? 'text-yellow-500' : 'text-gray-500'
+                          }`}>
+                            {response.length}/{prompt.maxLength} characters
+                          </p>
                           {errors[prompt.id] && (
                             <p className="text-sm text-red-500">{errors[prompt.id]}</p>
                           )}
@@ -1,10 +1,11 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { FuzzyDateInput } from '@/components/ui/FuzzyDateInput';
 import { Textarea } from '@/components/ui/Textarea';
 import { Select } from '@/components/ui/Select';
 import { Switch } from '@/components/ui/Switch';
@@ -12,11 +13,14 @@ import { Icon } from '@/components/ui/Icon';
 import { Spinner } from '@/components/ui/Spinner';
 import { Badge } from '@/components/ui/Badge';
 import { useAuth } from '@/hooks/useAuth';
+import { useUniversitySettings } from '@/hooks/useUniversitySettings';
 import { usePermissions } from '@/hooks/usePermissions';
 import { useToast } from '@/hooks/useToast';
-import { MemorialProfile, LifeEvent } from '@/types/profile';
+import { MemorialProfile } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
+import { toTimelineEvent } from '@/utils/timelineConverters';
+import { isChronological, toFuzzyDateString } from '@/utils/date';
 import { debounce } from 'lodash';
-import { supabase } from '@/lib/supabase';
 import { motion } from 'framer-motion';
 import { ImageUpload } from '@/components/ui/ImageUpload';
 import { TabsRoot, TabsList, TabsTrigger, TabsContent } from '@/components/ui/Tabs';
@@ -26,12 +30,27 @@ import { TimelineMediaUpload } from '@/components/media/TimelineMediaUpload';
 import { TimelineBuilder } from '@/components/timeline/TimelineBuilder';
 import { LifeStoryEditor } from '@/components/profile/LifeStoryEditor';
 import { Timestamp } from 'firebase/firestore';
+import { CollaboratorPresence } from '@/components/collaboration/CollaboratorPresence';
+import { SectionLockNotice } from '@/components/collaboration/SectionLockNotice';
+import { ConflictResolutionDialog } from '@/components/collaboration/ConflictResolutionDialog';
+import { useProfileCollaboration } from '@/hooks/useProfileCollaboration';
+import { profileCollaborationService } from '@/services/profileCollaboration';
+import { ConflictResolution, FieldConflict, ProfileSection } from '@/types/collaboration';
+import { applyResolutions, mergeConflictLists, mergeRemoteChanges } from '@/utils/fieldConflicts';
+import { VersionConflictError } from '@/utils/errors';
 
 interface MemorialProfileFormProps {
   profile?: MemorialProfile;
-  onSubmit: (data: any) => Promise<void>;
+  /**
+   * Saves the form. `metadata.version` is the version the edit is based on;
+   * resolve to the version saved, or reject with a VersionConflictError
+   * carrying the saved profile if someone else got there first.
+   */
+  onSubmit: (data: any) => Promise<number | void>;
   onCancel: () => void;
   className?: string;
+  /** Firestore path of the profile; turns on presence, section locks and live updates */
+  collaborationPath?: string;
 }
 
 interface FormErrors {
@@ -45,67 +64,59 @@ interface FormErrors {
   deathLocation?: string;
 }
 
-interface ProfileLock {
-  userId: string;
-  timestamp: Date;
-}
-
-const timelineEventToLifeEvent = (event: any) => ({
-  ...event,
-  type: event.type === 'job' ? 'work' : event.type === 'event' ? 'other' : event.type,
+/** Form state for a stored profile; also how remote saves are read for merging */
+const toFormData = (profile?: any) => ({
+  id: profile?.id || '',
+  type: 'memorial',
+  universityId: profile?.universityId || '',
+  createdAt: profile?.createdAt || Timestamp.now(),
+  updatedAt: profile?.updatedAt || Timestamp.now(),
+  createdBy: profile?.createdBy || '',
+  updatedBy: profile?.updatedBy || '',
+  name: profile?.name || '',
+  description: profile?.description || '',
+  imageUrl: profile?.imageUrl || '',
+  basicInfo: {
+    dateOfBirth: profile?.basicInfo?.dateOfBirth || null,
+    dateOfDeath: profile?.basicInfo?.dateOfDeath || null,
+    biography: profile?.basicInfo?.biography || '',
+    photo: profile?.basicInfo?.photo || '',
+    birthLocation: profile?.basicInfo?.birthLocation || '',
+    deathLocation: profile?.basicInfo?.deathLocation || ''
+  },
+  lifeStory: {
+    content: profile?.lifeStory?.content || '',
+    updatedAt: profile?.lifeStory?.updatedAt || new Date()
+  },
+  timeline: Array.isArray(profile?.timeline)
+    ? profile.timeline.map((event: Record<string, unknown>) => toTimelineEvent(event))
+    : [],
+  mediaUrls: profile?.mediaUrls || [],
+  isPublic: profile?.isPublic || false,
+  status: profile?.status || 'draft',
+  metadata: {
+    tags: profile?.metadata?.tags || [],
+    categories: profile?.metadata?.categories || [],
+    lastModifiedBy: profile?.metadata?.lastModifiedBy || '',
+    lastModifiedAt: profile?.metadata?.lastModifiedAt || Timestamp.fromDate(new Date()),
+    version: profile?.metadata?.version || 1
+  }
 });
 
 export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
   profile,
   onSubmit,
   onCancel,
-  className
+  className,
+  collaborationPath
 }) => {
   console.log('[MemorialProfileForm] Rendering form with profile:', profile?.id || 'new');
 
   const { user } = useAuth();
-  const [isLocked, setIsLocked] = useState(false);
-  const [lockError, setLockError] = useState<string | null>(null);
-  const LOCK_TIMEOUT = 30 * 60 * 1000; // 30 minutes
-
+  const settings = useUniversitySettings(profile?.universityId);
   const [formData, setFormData] = useState<any>(() => {
     console.log('[MemorialProfileForm] Initializing form data with profile:', profile);
-    return {
-      id: profile?.id || '',
-    type: 'memorial',
-      universityId: profile?.universityId || '',
-      createdAt: profile?.createdAt || Timestamp.now(),
-      updatedAt: profile?.updatedAt || Timestamp.now(),
-      createdBy: profile?.createdBy || '',
-      updatedBy: profile?.updatedBy || '',
-      name: profile?.name || '',
-      description: profile?.description || '',
-      imageUrl: profile?.imageUrl || '',
-    basicInfo: {
-        dateOfBirth: profile?.basicInfo?.dateOfBirth || null,
-        dateOfDeath: profile?.basicInfo?.dateOfDeath || null,
-        biography: profile?.basicInfo?.biography || '',
-        photo: profile?.basicInfo?.photo || '',
-        birthLocation: profile?.basicInfo?.birthLocation || '',
-        deathLocation: profile?.basicInfo?.deathLocation || ''
-    },
-    lifeStory: {
-        content: profile?.lifeStory?.content || '',
-        updatedAt: profile?.lifeStory?.updatedAt || new Date()
-    },
-      timeline: Array.isArray(profile?.timeline)
-        ? profile.timeline.map(timelineEventToLifeEvent)
-        : [],
-      isPublic: profile?.isPublic || false,
-      status: profile?.status || 'draft',
-    metadata: {
-        tags: profile?.metadata?.tags || [],
-        categories: profile?.metadata?.categories || [],
-        lastModifiedBy: profile?.metadata?.lastModifiedBy || '',
-        lastModifiedAt: profile?.metadata?.lastModifiedAt || Timestamp.fromDate(new Date()),
-        version: profile?.metadata?.version || 1
-    }
-    };
+    return toFormData(profile);
   });
 
   const [formState, setFormState] = useState({
@@ -122,90 +133,99 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
   const [completionPercentage, setCompletionPercentage] = useState(0);
   const [errors, setErrors] = useState<FormErrors>({});
 
-  // Check and acquire lock
-  const checkAndAcquireLock = async () => {
-    if (!profile?.id || !user?.id) return;
+  const activeSection = activeTab as ProfileSection;
+  const collaboration = useProfileCollaboration({ profilePath: collaborationPath ?? null, section: activeSection });
+  const { claimSection, releaseSection, lockFor, collaborators } = collaboration;
 
-    try {
-      const { data: profileData, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', profile.id)
-        .single();
-      
-      if (error || !profileData) return;
+  // The saved version this editor last synced with; the base of every merge
+  const baseRef = useRef<any>(formData);
+  const formDataRef = useRef<any>(formData);
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+  const conflictsRef = useRef<FieldConflict[]>([]);
+  const [conflictDialogOpen, setConflictDialogOpen] = useState(false);
+  const [pendingSave, setPendingSave] = useState<'auto' | 'draft' | 'published' | null>(null);
 
-      const now = new Date();
+  useEffect(() => {
+    formDataRef.current = formData;
+  }, [formData]);
 
-      // Check if there's an existing lock
-      if (profileData.lock) {
-        const lockTime = new Date(profileData.lock.timestamp);
-        const isLockExpired = now.getTime() - lockTime.getTime() > LOCK_TIMEOUT;
+  useEffect(() => {
+    conflictsRef.current = conflicts;
+  }, [conflicts]);
 
-        if (!isLockExpired && profileData.lock.userId !== user.id) {
-          setIsLocked(true);
-          setLockError('This profile is currently being edited by another user. Please try again later.');
-          return false;
+  // Take in other editors' saves as they land
+  const userId = user?.id;
+  useEffect(() => {
+    if (!collaborationPath) return;
+
+    return profileCollaborationService.subscribeToProfile(collaborationPath, (data) => {
+      const remote = toFormData(data);
+      const previousBase = baseRef.current;
+      baseRef.current = remote;
+      // Our own save coming back, possibly uploaded later from the offline outbox
+      if (data.updatedBy && data.updatedBy === userId) {
+        if (remote.metadata.version > (formDataRef.current.metadata?.version || 1)) {
+          formDataRef.current = { ...formDataRef.current, metadata: { ...formDataRef.current.metadata, version: remote.metadata.version } };
+          setFormData(formDataRef.current);
         }
+        return;
       }
 
-      // Create or update lock
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({
-          lock: {
-            userId: user.id,
-            timestamp: now.toISOString()
-          }
-        })
-        .eq('id', profile.id);
-
-      if (updateError) throw updateError;
-
-      setIsLocked(false);
-      setLockError(null);
-      return true;
-    } catch (error) {
-      console.error('Error acquiring lock:', error);
-      setLockError('Failed to acquire edit lock. Please try again.');
-      return false;
-    }
-  };
+      const { merged, conflicts: found } = mergeRemoteChanges(previousBase, formDataRef.current, remote, data.updatedBy);
+      // Their save is what ours now builds on, conflicts or not
+      const rebased = { ...merged, metadata: { ...merged.metadata, version: remote.metadata.version } };
+      formDataRef.current = rebased;
+      setFormData(rebased);
+      if (found.length) {
+        setConflicts(prev => mergeConflictLists(prev, found));
+      }
+    });
+  }, [collaborationPath, userId]);
 
-  // Release lock
-  const releaseLock = async () => {
-    if (!profile?.id || !user?.id) return;
+  const markEditing = useCallback(() => {
+    claimSection(activeSection);
+  }, [claimSection, activeSection]);
 
-    try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          lock: null
-        })
-        .eq('id', profile.id);
-
-      if (error) throw error;
-    } catch (error) {
-      console.error('Error releasing lock:', error);
-    }
+  const nameFor = useCallback((id: string) =>
+    collaborators.find(person => person.userId === id)?.displayName ?? 'another editor',
+  [collaborators]);
+
+  const adoptVersion = (version: number | void) => {
+    if (typeof version !== 'number') return;
+    const next = { ...formDataRef.current, metadata: { ...formDataRef.current.metadata, version } };
+    formDataRef.current = next;
+    setFormData(next);
   };
 
-  // Check lock on mount
-  useEffect(() => {
-    if (profile?.id) {
-      checkAndAcquireLock();
+  // A save turned back because someone saved first: take their save in as
+  // if it had arrived live, and build on their version from here
+  const rebaseOnto = (conflict: VersionConflictError): any => {
+    const remote = toFormData(conflict.current);
+    const { merged, conflicts: found } = mergeRemoteChanges(baseRef.current, formDataRef.current, remote, remote.updatedBy || undefined);
+    baseRef.current = remote;
+    const rebased = { ...merged, metadata: { ...merged.metadata, version: conflict.currentVersion } };
+    formDataRef.current = rebased;
+    setFormData(rebased);
+    if (found.length) {
+      conflictsRef.current = mergeConflictLists(conflictsRef.current, found);
+      setConflicts(conflictsRef.current);
     }
-    return () => {
-      if (profile?.id) {
-        releaseLock();
-      }
-    };
-  }, [profile?.id]);
+    return rebased;
+  };
+
+  // Saving over a conflict would be last-write-wins; ask first
+  const holdForConflicts = (mode: 'auto' | 'draft' | 'published'): boolean => {
+    if (!conflictsRef.current.length) return false;
+    setPendingSave(mode);
+    setConflictDialogOpen(true);
+    return true;
+  };
 
   // Memoize the debounced save function first
   const debouncedSave = useMemo(
     () => debounce(async (data: any) => {
       if (formState.isSaving) return;
+      if (holdForConflicts('auto')) return;
       
       try {
         setFormState(prev => ({ ...prev, isSaving: true, lastSaveError: null }));
@@ -216,14 +236,15 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
           categories: data.metadata?.categories || [],
           lastModifiedBy: data.metadata?.lastModifiedBy || '',
           lastModifiedAt: Timestamp.fromDate(new Date()),
-          version: (data.metadata?.version || 0) + 1
+          version: data.metadata?.version || 1
         };
 
-        await onSubmit({
+        adoptVersion(await onSubmit({
           ...data,
           status: 'draft',
+          updatedBy: user?.id || 'system',
           metadata
-        });
+        }));
         
         setFormState(prev => ({
           ...prev,
@@ -234,6 +255,12 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
         console.log('[MemorialProfileForm] Auto-save completed successfully');
         // toast.success('Changes saved successfully'); // Removed toast as per new_code
       } catch (error) {
+        if (error instanceof VersionConflictError) {
+          const rebased = rebaseOnto(error);
+          setFormState(prev => ({ ...prev, isSaving: false }));
+          if (!holdForConflicts('auto')) debouncedSave(rebased);
+          return;
+        }
         console.error('[MemorialProfileForm] Auto-save failed:', error);
         setFormState(prev => ({
           ...prev,
@@ -257,9 +284,10 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
       debouncedSave(formData);
     }
     
+    releaseSection();
     setActiveTab(newTab);
     setFormState(prev => ({ ...prev, isTabChanging: false }));
-  }, [formState.isTabChanging, formState.hasUnsavedChanges, debouncedSave, formData]);
+  }, [formState.isTabChanging, formState.hasUnsavedChanges, debouncedSave, formData, releaseSection]);
 
   // Update form data handler with memoization
   const updateFormData = useCallback((updates: Partial<any>): void => {
@@ -277,11 +305,12 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
     const newData = { ...formData, ...updates };
     setFormData(newData);
     setFormState(prev => ({ ...prev, hasUnsavedChanges: true }));
+    markEditing();
     
     if (!formState.isSaving) {
       debouncedSave(newData);
     }
-  }, [formData, formState.isSaving, debouncedSave]);
+  }, [formData, formState.isSaving, debouncedSave, markEditing]);
 
   // Validate form data
   const validateForm = (data: any): boolean => {
@@ -299,6 +328,9 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
     if (!data.basicInfo?.dateOfBirth) {
       newErrors.dateOfBirth = 'Date of birth is required';
     }
+    if (!isChronological(data.basicInfo?.dateOfBirth, data.basicInfo?.dateOfDeath)) {
+      newErrors.dateOfDeath = 'Date of death cannot be before date of birth';
+    }
 
     if (Object.keys(newErrors).length > 0) {
       console.log('[MemorialProfileForm] Validation errors:', newErrors);
@@ -340,50 +372,23 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
     setCompletionPercentage(percentage);
   }, [formData, errors]);
 
-  const formatDate = (date: Date | Timestamp | null | undefined): string => {
-    if (!date) return '';
-    
-    try {
-      if (date instanceof Date) {
-        return isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
-      }
-      if (date instanceof Timestamp) {
-        const dateObj = date.toDate();
-        return isNaN(dateObj.getTime()) ? '' : dateObj.toISOString().split('T')[0];
-      }
-      return '';
-    } catch (error) {
-      console.error('Error formatting date:', error);
-      return '';
-    }
-  };
-
-  const validateDateInput = (value: string): boolean => {
-    // Check if the input matches the date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(value)) return false;
-
-    // Parse the date and check if it's valid
-    const date = new Date(value);
-    return !isNaN(date.getTime());
-  };
-
   // Handle form submission
-  const handleSubmit = async (status: 'draft' | 'published' = 'draft') => {
+  const handleSubmit = async (status: 'draft' | 'published' = 'draft', data: any = formData) => {
     if (formState.isSaving) return;
+    if (holdForConflicts(status)) return;
 
     try {
       setFormState(prev => ({ ...prev, isSaving: true }));
       
       // Validate form data before submitting
-      if (status === 'published' && !validateForm(formData)) {
+      if (status === 'published' && !validateForm(data)) {
         // toast.error('Please fill in all required fields before publishing'); // Removed toast as per new_code
         return;
       }
 
       // Prepare the data for submission
       const submitData = {
-        ...formData,
+        ...data,
         status,
         updatedAt: Timestamp.now(),
         updatedBy: user?.id || 'system'
@@ -396,7 +401,7 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
         }
       });
 
-      await onSubmit(submitDataRecord as any); // Changed type to any as per new_code
+      adoptVersion(await onSubmit(submitDataRecord as any)); // Changed type to any as per new_code
       
       setFormState(prev => ({ 
         ...prev, 
@@ -412,8 +417,14 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
       }
 
       // Redirect to the university admin management page
-      window.location.href = `/admin/universities/${formData.universityId}/profiles`;
+      window.location.href = `/admin/universities/${data.universityId}/profiles`;
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        const rebased = rebaseOnto(error);
+        setFormState(prev => ({ ...prev, isSaving: false }));
+        if (!holdForConflicts(status)) handleSubmit(status, rebased);
+        return;
+      }
       console.error('[MemorialProfileForm] Error submitting form:', error);
       setFormState(prev => ({ 
         ...prev, 
@@ -434,11 +445,9 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
     
     if (formState.hasUnsavedChanges) {
       if (window.confirm('You have unsaved changes. Are you sure you want to cancel?')) {
-        await releaseLock();
         onCancel();
       }
     } else {
-      await releaseLock();
       onCancel();
     }
   };
@@ -450,6 +459,7 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
       return;
     }
     
+    markEditing();
     setFormData((prev: any) => ({
       ...prev,
       metadata: {
@@ -457,13 +467,14 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
         categories: prev.metadata?.categories || [],
         lastModifiedBy: prev.metadata?.lastModifiedBy || '',
         lastModifiedAt: Timestamp.fromDate(new Date()),
-        version: (prev.metadata?.version || 0) + 1
+        version: prev.metadata?.version || 1
       }
     }));
     setNewTag('');
   };
 
   const handleRemoveTag = (tagToRemove: string) => {
+    markEditing();
     setFormData((prev: any) => ({
       ...prev,
       metadata: {
@@ -471,12 +482,13 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
         categories: prev.metadata?.categories || [],
         lastModifiedBy: prev.metadata?.lastModifiedBy || '',
         lastModifiedAt: Timestamp.fromDate(new Date()),
-        version: (prev.metadata?.version || 0) + 1
+        version: prev.metadata?.version || 1
       }
     }));
   };
 
   const handleImageUpload = (url: string) => {
+    markEditing();
     setFormData((prev: any) => ({
       ...prev,
       imageUrl: url
@@ -484,7 +496,7 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
   };
 
   // Update timeline handler with memoization
-  const handleTimelineUpdate = useCallback((updatedEvents: LifeEvent[]) => {
+  const handleTimelineUpdate = useCallback((updatedEvents: TimelineEvent[]) => {
     console.log('[MemorialProfileForm] Timeline update:', {
       eventCount: updatedEvents.length,
       firstEvent: updatedEvents[0]?.title,
@@ -532,17 +544,39 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
     });
   }, [formData.lifeStory, formState.isSaving, updateFormData]);
 
-  // Show lock error if present
-  if (lockError) {
-    return (
-      <div className="p-6 bg-red-50 rounded-lg">
-        <div className="flex items-center">
-          <Icon name="alert-circle" className="h-5 w-5 text-red-400 mr-2" />
-          <p className="text-red-700">{lockError}</p>
-        </div>
-      </div>
-    );
-  }
+  const handleResolveConflicts = (choices: Record<string, ConflictResolution>) => {
+    const resolved = applyResolutions(formDataRef.current, conflicts, choices);
+    formDataRef.current = resolved;
+    conflictsRef.current = [];
+    setFormData(resolved);
+    setConflicts([]);
+    setConflictDialogOpen(false);
+
+    const mode = pendingSave;
+    setPendingSave(null);
+    if (mode === 'auto') {
+      debouncedSave(resolved);
+    } else if (mode) {
+      handleSubmit(mode, resolved);
+    }
+  };
+
+  const lockBadge = (section: ProfileSection) => {
+    const lock = lockFor(section);
+    return lock ? (
+      <span title={`${lock.displayName} is editing`} className="h-2 w-2 rounded-full bg-amber-400" />
+    ) : null;
+  };
+
+  // Another editor's section stays readable; taking it over is one click away
+  const guardSection = (section: ProfileSection, content: React.ReactNode) => (
+    <>
+      <SectionLockNotice lock={lockFor(section)} onTakeOver={() => claimSection(section, { force: true })} />
+      <fieldset disabled={!!lockFor(section)} className="space-y-6 disabled:opacity-60">
+        {content}
+      </fieldset>
+    </>
+  );
 
   return (
     <motion.div
@@ -576,6 +610,7 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
             )}
           </div>
         </div>
+        <CollaboratorPresence collaborators={collaborators} className="mt-4 text-indigo-100" />
         <div className="mt-4">
           <div className="flex items-center justify-between">
             <span className="text-sm text-indigo-100">Completion</span>
@@ -590,283 +625,315 @@ export const MemorialProfileForm: React.FC<MemorialProfileFormProps> = ({
         </div>
       </div>
 
+      {conflicts.length > 0 && !conflictDialogOpen && (
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <span>
+            Another editor saved different versions of {conflicts.map(conflict => conflict.label).join(', ')}.
+          </span>
+          <Button type="button" variant="outline" size="sm" onClick={() => setConflictDialogOpen(true)}>
+            Review changes
+          </Button>
+        </div>
+      )}
+
+      <ConflictResolutionDialog
+        open={conflictDialogOpen}
+        conflicts={conflicts}
+        nameFor={nameFor}
+        onResolve={handleResolveConflicts}
+        onCancel={() => {
+          setConflictDialogOpen(false);
+          setPendingSave(null);
+        }}
+      />
+
       <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-6">
         <TabsRoot value={activeTab} onValueChange={handleTabChange} className="space-y-6">
           <TabsList className="grid grid-cols-5 gap-4 bg-gray-50 p-1 rounded-lg">
             <TabsTrigger value="basic" disabled={formState.isTabChanging} className="flex items-center gap-2">
               <Icon name="user" className="w-4 h-4" />
               Basic Info
+              {lockBadge('basic')}
             </TabsTrigger>
             <TabsTrigger value="life" disabled={formState.isTabChanging} className="flex items-center gap-2">
               <Icon name="book" className="w-4 h-4" />
               Life Story
+              {lockBadge('life')}
             </TabsTrigger>
             <TabsTrigger value="timeline" disabled={formState.isTabChanging} className="flex items-center gap-2">
               <Icon name="clock" className="w-4 h-4" />
               Timeline
+              {lockBadge('timeline')}
             </TabsTrigger>
             <TabsTrigger value="media" disabled={formState.isTabChanging} className="flex items-center gap-2">
               <Icon name="image" className="w-4 h-4" />
               Media
+              {lockBadge('media')}
             </TabsTrigger>
             <TabsTrigger value="settings" disabled={formState.isTabChanging} className="flex items-center gap-2">
               <Icon name="settings" className="w-4 h-4" />
               Settings
+              {lockBadge('settings')}
             </TabsTrigger>
           </TabsList>
 
           <TabsContent value="basic" className="space-y-6">
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Basic Information</h3>
-              <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
-                <div className="sm:col-span-4">
-                  <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-                    Full Name <span className="text-red-500">*</span>
-                  </label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => updateFormData({ name: e.target.value })}
-                    className={`mt-1 ${errors.name ? 'border-red-500' : ''}`}
-                    required
-                  />
-                  {errors.name && (
-                    <p className="mt-1 text-sm text-red-600">{errors.name}</p>
-                  )}
-                </div>
-
-                <div className="sm:col-span-6">
-                  <label htmlFor="description" className="block text-sm font-medium text-gray-700">
-                    Description
-                  </label>
-                  <Textarea
-                    id="description"
-                    value={formData.description}
-                    onChange={(e) => updateFormData({ description: e.target.value })}
-                    className={`mt-1 ${errors.description ? 'border-red-500' : ''}`}
-                    rows={3}
-                  />
-                  {errors.description && (
-                    <p className="mt-1 text-sm text-red-600">{errors.description}</p>
-                  )}
-                </div>
-              </div>
-            </Card>
-
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Life Details</h3>
-              <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
-                <div className="sm:col-span-3">
-                  <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
-                    Date of Birth <span className="text-red-500">*</span>
-                  </label>
-                  <Input
-                    id="dateOfBirth"
-                    type="date"
-                    value={formatDate(formData.basicInfo?.dateOfBirth)}
-                    onChange={(e) => {
-                      const value = e.target.value;
-                      if (!value || validateDateInput(value)) {
-                        const date = value ? new Date(value) : null;
-                        if (!date || !isNaN(date.getTime())) {
+            {guardSection('basic', (
+              <>
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Basic Information</h3>
+                  <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+                    <div className="sm:col-span-4">
+                      <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                        Full Name <span className="text-red-500">*</span>
+                      </label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => updateFormData({ name: e.target.value })}
+                        className={`mt-1 ${errors.name ? 'border-red-500' : ''}`}
+                        required
+                      />
+                      {errors.name && (
+                        <p className="mt-1 text-sm text-red-600">{errors.name}</p>
+                      )}
+                    </div>
+
+                    <div className="sm:col-span-6">
+                      <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                        Description
+                      </label>
+                      <Textarea
+                        id="description"
+                        value={formData.description}
+                        onChange={(e) => updateFormData({ description: e.target.value })}
+                        className={`mt-1 ${errors.description ? 'border-red-500' : ''}`}
+                        rows={3}
+                      />
+                      {errors.description && (
+                        <p className="mt-1 text-sm text-red-600">{errors.description}</p>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Life Details</h3>
+                  <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+                    <div className="sm:col-span-3">
+                      <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
+                        Date of Birth <span className="text-red-500">*</span>
+                      </label>
+                      <FuzzyDateInput
+                        id="dateOfBirth"
+                        value={toFuzzyDateString(formData.basicInfo?.dateOfBirth)}
+                        onChange={(date) =>
                           updateFormData({
                             basicInfo: {
                               ...formData.basicInfo!,
                               dateOfBirth: date
                             }
-                          });
+                          })
                         }
-                      }
-                    }}
-                    max={new Date().toISOString().split('T')[0]}
-                    className={`mt-1 ${errors.dateOfBirth ? 'border-red-500' : ''}`}
-                  />
-                  {errors.dateOfBirth && (
-                    <p className="mt-1 text-sm text-red-600">{errors.dateOfBirth}</p>
-                  )}
-                </div>
-
-                <div className="sm:col-span-3">
-                  <label htmlFor="dateOfDeath" className="block text-sm font-medium text-gray-700">
-                    Date of Death
-                  </label>
-                  <Input
-                    id="dateOfDeath"
-                    type="date"
-                    value={formatDate(formData.basicInfo?.dateOfDeath)}
-                    onChange={(e) => {
-                      const value = e.target.value;
-                      if (!value || validateDateInput(value)) {
-                        const date = value ? new Date(value) : null;
-                        if (!date || !isNaN(date.getTime())) {
+                        error={errors.dateOfBirth}
+                      />
+                    </div>
+
+                    <div className="sm:col-span-3">
+                      <label htmlFor="dateOfDeath" className="block text-sm font-medium text-gray-700">
+                        Date of Death
+                      </label>
+                      <FuzzyDateInput
+                        id="dateOfDeath"
+                        value={toFuzzyDateString(formData.basicInfo?.dateOfDeath)}
+                        onChange={(date) =>
                           updateFormData({
                             basicInfo: {
                               ...formData.basicInfo!,
                               dateOfDeath: date
                             }
-                          });
+                          })
                         }
-                      }
-                    }}
-                    min={formData.basicInfo?.dateOfBirth ? formatDate(formData.basicInfo.dateOfBirth) : undefined}
-                    max={new Date().toISOString().split('T')[0]}
-                    className={`mt-1 ${errors.dateOfDeath ? 'border-red-500' : ''}`}
-                  />
-                  {errors.dateOfDeath && (
-                    <p className="mt-1 text-sm text-red-600">{errors.dateOfDeath}</p>
-                  )}
-                </div>
-
-                <div className="sm:col-span-3">
-                  <label htmlFor="birthLocation" className="block text-sm font-medium text-gray-700">
-                    Birth Location
-                  </label>
-                  <Input
-                    id="birthLocation"
-                    value={formData.basicInfo?.birthLocation}
-                    onChange={(e) => updateFormData({
-                      basicInfo: {
-                        ...formData.basicInfo!,
-                        birthLocation: e.target.value
-                      }
-                    })}
-                    className={`mt-1 ${errors.birthLocation ? 'border-red-500' : ''}`}
-                  />
-                  {errors.birthLocation && (
-                    <p className="mt-1 text-sm text-red-600">{errors.birthLocation}</p>
-                  )}
-                </div>
-
-                <div className="sm:col-span-3">
-                  <label htmlFor="deathLocation" className="block text-sm font-medium text-gray-700">
-                    Death Location
-                  </label>
-                  <Input
-                    id="deathLocation"
-                    value={formData.basicInfo?.deathLocation}
-                    onChange={(e) => updateFormData({
-                      basicInfo: {
-                        ...formData.basicInfo!,
-                        deathLocation: e.target.value
-                      }
-                    })}
-                    className={`mt-1 ${errors.deathLocation ? 'border-red-500' : ''}`}
-                  />
-                  {errors.deathLocation && (
-                    <p className="mt-1 text-sm text-red-600">{errors.deathLocation}</p>
-                  )}
-                </div>
-              </div>
-            </Card>
-
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Profile Photo</h3>
-              <div className="mt-4">
-                <ImageUpload
-                  onUpload={handleImageUpload}
-                  currentImage={formData.imageUrl}
-                />
-              </div>
-            </Card>
+                        error={errors.dateOfDeath}
+                      />
+                    </div>
+
+                    <div className="sm:col-span-3">
+                      <label htmlFor="birthLocation" className="block text-sm font-medium text-gray-700">
+                        Birth Location
+                      </label>
+                      <Input
+                        id="birthLocation"
+                        value={formData.basicInfo?.birthLocation}
+                        onChange={(e) => updateFormData({
+                          basicInfo: {
+                            ...formData.basicInfo!,
+                            birthLocation: e.target.value
+                          }
+                        })}
+                        className={`mt-1 ${errors.birthLocation ? 'border-red-500' : ''}`}
+                      />
+                      {errors.birthLocation && (
+                        <p className="mt-1 text-sm text-red-600">{errors.birthLocation}</p>
+                      )}
+                    </div>
+
+                    <div className="sm:col-span-3">
+                      <label htmlFor="deathLocation" className="block text-sm font-medium text-gray-700">
+                        Death Location
+                      </label>
+                      <Input
+                        id="deathLocation"
+                        value={formData.basicInfo?.deathLocation}
+                        onChange={(e) => updateFormData({
+                          basicInfo: {
+                            ...formData.basicInfo!,
+                            deathLocation: e.target.value
+                          }
+                        })}
+                        className={`mt-1 ${errors.deathLocation ? 'border-red-500' : ''}`}
+                      />
+                      {errors.deathLocation && (
+                        <p className="mt-1 text-sm text-red-600">{errors.deathLocation}</p>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Profile Photo</h3>
+                  <div className="mt-4">
+                    <ImageUpload
+                      onUpload={handleImageUpload}
+                      currentImage={formData.imageUrl}
+                    />
+                  </div>
+                </Card>
+              </>
+            ))}
           </TabsContent>
 
           <TabsContent value="life" className="space-y-6">
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Life Story</h3>
-              <div className="space-y-6">
-                <LifeStoryEditor
-                  value={formData.lifeStory?.content || ''}
-                  onChange={handleLifeStoryChange}
-                />
-                {errors.lifeStory && (
-                  <p className="mt-1 text-sm text-red-600">{errors.lifeStory}</p>
-                )}
-              </div>
-            </Card>
+            {guardSection('life', (
+              <>
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Life Story</h3>
+                  <div className="space-y-6">
+                    <LifeStoryEditor
+                      value={formData.lifeStory?.content || ''}
+                      onChange={handleLifeStoryChange}
+                    />
+                    {errors.lifeStory && (
+                      <p className="mt-1 text-sm text-red-600">{errors.lifeStory}</p>
+                    )}
+                  </div>
+                </Card>
+              </>
+            ))}
           </TabsContent>
 
           <TabsContent value="timeline" className="space-y-6">
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Life Timeline</h3>
-              <div className="mt-4">
-                <TimelineBuilder
-                  initialEvents={formData.timeline}
-                  onEventsChange={handleTimelineUpdate}
-                  orgId={profile?.universityId || ''}
-                  profileId={formData.id || ''}
-                  isEditMode={true}
-                  isPreview={false}
-                />
-              </div>
-            </Card>
+            {guardSection('timeline', (
+              <>
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Life Timeline</h3>
+                  <div className="mt-4">
+                    <TimelineBuilder
+                      initialEvents={formData.timeline}
+                      onEventsChange={handleTimelineUpdate}
+                      dateOfBirth={formData.basicInfo?.dateOfBirth}
+                      dateOfDeath={formData.basicInfo?.dateOfDeath}
+                      orgId={profile?.universityId || ''}
+                      profileId={formData.id || ''}
+                      isEditMode={true}
+                      isPreview={false}
+                    />
+                  </div>
+                </Card>
+              </>
+            ))}
           </TabsContent>
 
           <TabsContent value="media" className="space-y-6">
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Media Gallery</h3>
-              <div className="mt-4">
-                <TimelineMediaUpload
-                  eventId={formData.id || 'new'}
-                  existingMedia={formData.mediaUrls || []}
-                  onMediaChange={(urls) => {
-                    setFormData((prev: any) => ({ ...prev, mediaUrls: urls }));
-                  }}
-                />
-              </div>
-            </Card>
+            {guardSection('media', (
+              <>
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Media Gallery</h3>
+                  <div className="mt-4">
+                    <TimelineMediaUpload
+                      eventId={formData.id || 'new'}
+                      existingMedia={formData.mediaUrls || []}
+                      onMediaChange={(urls) => {
+                        markEditing();
+                        setFormData((prev: any) => ({ ...prev, mediaUrls: urls }));
+                      }}
+                    />
+                  </div>
+                </Card>
+              </>
+            ))}
           </TabsContent>
 
           <TabsContent value="settings" className="space-y-6">
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Tags</h3>
-              <div className="mt-4">
-                <div className="flex flex-wrap gap-2 mb-4">
-                  {formData.metadata?.tags?.map((tag: any) => (
-                    <Badge key={tag} variant="secondary">
-                      {tag}
-                      <button
+            {guardSection('settings', (
+              <>
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Tags</h3>
+                  <div className="mt-4">
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {formData.metadata?.tags?.map((tag: any) => (
+                        <Badge key={tag} variant="secondary">
+                          {tag}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveTag(tag)}
+                            className="ml-1 text-gray-500 hover:text-gray-700"
+                          >
+                            ×
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={newTag}
+                        onChange={(e) => setNewTag(e.target.value)}
+                        placeholder="Add a tag"
+                        className="flex-1"
+                      />
+                      <Button
                         type="button"
-                        onClick={() => handleRemoveTag(tag)}
-                        className="ml-1 text-gray-500 hover:text-gray-700"
+                        onClick={handleAddTag}
+                        variant="outline"
                       >
-                        ×
-                      </button>
-                    </Badge>
-                  ))}
-                </div>
-                <div className="flex gap-2">
-                  <Input
-                    value={newTag}
-                    onChange={(e) => setNewTag(e.target.value)}
-                    placeholder="Add a tag"
-                    className="flex-1"
-                  />
-                  <Button
-                    type="button"
-                    onClick={handleAddTag}
-                    variant="outline"
-                  >
-                    Add Tag
-                  </Button>
-                </div>
-              </div>
-            </Card>
-
-            <Card className="p-6">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Privacy Settings</h3>
-              <div className="flex items-center justify-between">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-900">Public Memorial</h4>
-                  <p className="text-sm text-gray-500">
-                    Make this memorial visible to everyone
-                  </p>
-                </div>
-                <Switch
-                  checked={formData.isPublic || false}
-                  onChange={(checked: boolean) => updateFormData({ isPublic: checked })}
-                />
-              </div>
-            </Card>
+                        Add Tag
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+
+                <Card className="p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Privacy Settings</h3>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900">Public Memorial</h4>
+                      <p className="text-sm text-gray-500">
+                        {settings?.allowPublicProfiles === false && !formData.isPublic
+                          ? 'This university does not allow public memorials'
+                          : 'Make this memorial visible to everyone'}
+                      </p>
+                    </div>
+                    {/* A memorial that is already public can still be made private */}
+                    {(settings?.allowPublicProfiles || formData.isPublic) && (
+                      <Switch
+                        checked={formData.isPublic || false}
+                        onChange={(checked: boolean) => updateFormData({ isPublic: checked })}
+                      />
+                    )}
+                  </div>
+                </Card>
+              </>
+            ))}
           </TabsContent>
         </TabsRoot>
 
@@ -1,11 +1,48 @@
 import { usePermissions } from '@/hooks/usePermissions';
 import { useProfileDiff } from '@/hooks/useProfileDiff';
-import { DiffSection } from './DiffSection';
+import { Badge } from '@/components/ui/Badge';
+import { TimelineEventDiff, StoryAnswerDiff } from '@/utils/diff';
+import { DiffSection, DiffText, FieldDiffList } from './DiffSection';
 
 interface ProfileDiffViewerProps {
   profileId: string;
 }
 
+const KIND_BADGES = {
+  added: { label: 'Added', variant: 'success' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  modified: { label: 'Modified', variant: 'secondary' },
+  moved: { label: 'Moved', variant: 'outline' },
+} as const;
+
+const TimelineChange = ({ change }: { change: TimelineEventDiff }) => (
+  <div className="bg-white rounded border p-3 space-y-2">
+    <div className="flex items-center gap-2">
+      <span className="font-medium">{change.title}</span>
+      <Badge variant={KIND_BADGES[change.kind].variant}>{KIND_BADGES[change.kind].label}</Badge>
+      {change.moved && change.kind !== 'moved' && (
+        <Badge variant={KIND_BADGES.moved.variant}>{KIND_BADGES.moved.label}</Badge>
+      )}
+      {change.moved && change.fromIndex !== null && change.toIndex !== null && (
+        <span className="text-xs text-gray-500">
+          position {change.fromIndex + 1} → {change.toIndex + 1}
+        </span>
+      )}
+    </div>
+    {change.kind !== 'moved' && change.fields.length > 0 && <FieldDiffList fields={change.fields} />}
+  </div>
+);
+
+const StoryAnswerChange = ({ change }: { change: StoryAnswerDiff }) => (
+  <div className="bg-white rounded border p-3 space-y-2">
+    <div className="flex items-center gap-2">
+      <span className="font-medium">{change.question}</span>
+      <Badge variant={KIND_BADGES[change.kind].variant}>{KIND_BADGES[change.kind].label}</Badge>
+    </div>
+    <DiffText segments={change.answerDiff} />
+  </div>
+);
+
 export const ProfileDiffViewer = ({ profileId }: ProfileDiffViewerProps) => {
   const { isAdmin, isLoading: permissionsLoading } = usePermissions();
   const { isLoading, error, diffs } = useProfileDiff(profileId);
@@ -22,15 +59,25 @@ export const ProfileDiffViewer = ({ profileId }: ProfileDiffViewerProps) => {
     return <div className="text-center py-4 text-red-600">{error}</div>;
   }
 
-  if (!diffs) {
+  if (!diffs || !diffs.hasChanges) {
     return <div className="text-center py-4">No changes detected</div>;
   }
 
   return (
     <div className="space-y-6">
-      <DiffSection title="Profile Information" diff={diffs.metadata} />
-      <DiffSection title="Timeline Events" diff={diffs.timeline} />
-      <DiffSection title="Story Answers" diff={diffs.storyAnswers} />
+      <DiffSection title="Profile Information" count={diffs.fields.length}>
+        <FieldDiffList fields={diffs.fields} />
+      </DiffSection>
+      <DiffSection title="Timeline Events" count={diffs.timeline.length}>
+        {diffs.timeline.map((change) => (
+          <TimelineChange key={change.id} change={change} />
+        ))}
+      </DiffSection>
+      <DiffSection title="Story Answers" count={diffs.storyAnswers.length}>
+        {diffs.storyAnswers.map((change) => (
+          <StoryAnswerChange key={change.questionId} change={change} />
+        ))}
+      </DiffSection>
     </div>
   );
-}; 
\ No newline at end of file
+};
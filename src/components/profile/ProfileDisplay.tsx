@@ -1,5 +1,6 @@
 import { Timestamp } from 'firebase/firestore';
-import { Profile, MemorialProfile, PersonalProfile } from '@/types/profile';
+import { Profile, MemorialDate, MemorialProfile, PersonalProfile } from '@/types/profile';
+import { formatFuzzyDate } from '@/utils/date';
 
 interface ProfileDisplayProps {
   profile: Profile;
@@ -14,8 +15,9 @@ function isPersonalProfile(profile: Profile): boolean {
 }
 
 export const ProfileDisplay: React.FC<ProfileDisplayProps> = ({ profile }) => {
-  const formatDate = (date: Date | Timestamp | null | undefined): string => {
+  const formatDate = (date: MemorialDate | null | undefined): string => {
     if (!date) return 'Not specified';
+    if (typeof date === 'string') return formatFuzzyDate(date) ?? 'Invalid date';
     if (date instanceof Timestamp) {
       return date.toDate().toLocaleDateString();
     }
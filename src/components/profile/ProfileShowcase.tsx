@@ -2,7 +2,9 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Icon } from '@/components/ui/Icon';
 import { Badge } from '@/components/ui/Badge';
-import { Profile, MemorialProfile, PersonalProfile, TimelineEvent, LifeEvent } from '@/types/profile';
+import { Profile, MemorialDate, MemorialProfile, PersonalProfile, TimelineEvent } from '@/types/profile';
+import { formatFuzzyDate } from '@/utils/date';
+import { toTimelineEvent } from '@/utils/timelineConverters';
 import { Timestamp } from 'firebase/firestore';
 import { TimelineView } from '@/components/timeline/TimelineView';
 
@@ -18,8 +20,9 @@ function isPersonalProfile(profile: Profile): boolean {
   return profile.type === 'personal';
 }
 
-const formatDate = (date: Date | Timestamp | null | undefined): string => {
+const formatDate = (date: MemorialDate | null | undefined): string => {
   if (!date) return 'Not specified';
+  if (typeof date === 'string') return formatFuzzyDate(date) ?? 'Invalid date';
   if (date instanceof Timestamp) {
     return date.toDate().toLocaleDateString();
   }
@@ -38,11 +41,6 @@ function hasTimelineEvents(profile: Profile): boolean {
   return isMemorialProfile(profile) && 'timelineEvents' in profile && Array.isArray((profile as any).timelineEvents);
 }
 
-const timelineEventToLifeEvent = (event: any) => ({
-  ...event,
-  type: event.type === 'job' ? 'work' : event.type === 'event' ? 'other' : event.type,
-});
-
 export const ProfileShowcase: React.FC<ProfileShowcaseProps> = ({ profile }) => {
   const getPhotoUrl = (profile: Profile): string | undefined => {
     if (profile.type === 'personal') {
@@ -136,11 +134,13 @@ export const ProfileShowcase: React.FC<ProfileShowcaseProps> = ({ profile }) =>
           <TimelineView
             orgId={profile.universityId}
             profileId={profile.id}
-            onEventClick={(event: LifeEvent) => {
+            onEventClick={(event: TimelineEvent) => {
               // Handle event click if needed
               console.log('Event clicked:', event);
             }}
-            events={(((profile as unknown) as MemorialProfile).timeline || []).map(timelineEventToLifeEvent)}
+            events={(((profile as unknown) as MemorialProfile).timeline || []).map(event => toTimelineEvent({ ...event }))}
+            birthDate={((profile as unknown) as MemorialProfile).basicInfo?.dateOfBirth}
+            deathDate={((profile as unknown) as MemorialProfile).basicInfo?.dateOfDeath}
           />
         </motion.div>
       )}
@@ -3,7 +3,9 @@ import { TimelineView } from '@/components/timeline/TimelineView';
 import { MediaGallery } from '@/components/media/MediaGallery';
 import { CommentsSection } from '@/components/comments/CommentsSection';
 import { Icon } from '@/components/ui/Icon';
-import type { BaseProfile, MemorialProfile, PersonalProfile, LifeEvent } from '@/types/profile';
+import type { BaseProfile, MemorialProfile, PersonalProfile, TimelineEvent } from '@/types/profile';
+import { toTimelineEvent } from '@/utils/timelineConverters';
+import { formatFuzzyDate } from '@/utils/date';
 import { Timestamp } from 'firebase/firestore';
 
 interface ProfileTabsProps {
@@ -20,8 +22,7 @@ const TABS = [
 function formatDate(date: string | Date | Timestamp | null | undefined): string {
   if (!date) return 'N/A';
   if (typeof date === 'string') {
-    const d = new Date(date);
-    return isNaN(d.getTime()) ? date : d.toLocaleDateString();
+    return formatFuzzyDate(date) ?? date;
   }
   if (date instanceof Timestamp) {
     return date.toDate().toLocaleDateString();
@@ -39,11 +40,10 @@ export const ProfileTabs: React.FC<ProfileTabsProps> = ({ profile }) => {
   const memorial = isMemorial ? (profile as MemorialProfile) : undefined;
   const personal = isPersonal ? (profile as PersonalProfile) : undefined;
 
-  // Convert timeline events if needed (for TimelineView compatibility)
-  const timelineEvents: LifeEvent[] = isMemorial && memorial?.timeline ? memorial.timeline.map(e => ({
-    ...e,
-    type: e.type === 'job' ? 'work' : e.type === 'event' ? 'other' : e.type
-  })) as LifeEvent[] : [];
+  // Stored timelines can predate the canonical event shape
+  const timelineEvents: TimelineEvent[] = isMemorial && memorial?.timeline
+    ? memorial.timeline.map(event => toTimelineEvent({ ...event }))
+    : [];
 
   return (
     <div className="w-full">
@@ -127,7 +127,11 @@ export const ProfileTabs: React.FC<ProfileTabsProps> = ({ profile }) => {
           <div role="tabpanel" id="timeline-panel" aria-labelledby="timeline-tab">
             <h2 className="text-2xl font-bold mb-4">Timeline</h2>
             {isMemorial && timelineEvents.length > 0 ? (
-              <TimelineView events={timelineEvents} />
+              <TimelineView
+                events={timelineEvents}
+                birthDate={memorial?.basicInfo?.dateOfBirth}
+                deathDate={memorial?.basicInfo?.dateOfDeath}
+              />
             ) : (
               <p className="text-gray-500">No timeline events available.</p>
             )}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { format } from 'date-fns';
 import { TimelineEntry, EducationEntry, JobEntry, EventEntry } from '@/types/profile';
 import { Button } from '@/components/ui/Button';
@@ -6,6 +6,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Spinner } from '@/components/ui/Spinner';
 import { showToast } from '@/components/common/Toast';
 import { TimelineService } from '@/services/TimelineService';
+import { TimelineVisualization } from '@/components/timeline/TimelineVisualization';
+import { fromTimelineEntry } from '@/utils/timelineConverters';
 
 interface TimelineProps {
   entries: TimelineEntry[];
@@ -24,6 +26,7 @@ export const Timeline: React.FC<TimelineProps> = ({
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
   const timelineService = new TimelineService();
+  const events = useMemo(() => entries.map(fromTimelineEntry), [entries]);
 
   const handleDeleteClick = (entryId: string) => {
     setSelectedEntryId(entryId);
@@ -35,7 +38,9 @@ export const Timeline: React.FC<TimelineProps> = ({
 
     setDeletingId(selectedEntryId);
     try {
-      await timelineService.deleteTimelineEvent(profileId, selectedEntryId);
+      // Deleting by ID doesn't depend on the entries shown, only on the timeline's current version
+      const version = await timelineService.getTimelineVersion(profileId);
+      await timelineService.deleteTimelineEvent(profileId, selectedEntryId, version);
       onEntryDeleted?.(selectedEntryId);
       showToast({
         message: 'Entry deleted successfully',
@@ -97,6 +102,7 @@ export const Timeline: React.FC<TimelineProps> = ({
 
   return (
     <div className="space-y-4">
+      <TimelineVisualization events={events} />
       {entries.map((entry) => {
         const dates = getEntryDates(entry);
         return (
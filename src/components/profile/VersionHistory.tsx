@@ -1,43 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Icon } from '@/components/ui/Icon';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { useAuth } from '@/hooks/useAuth';
 import { usePermissions } from '@/hooks/usePermissions';
+import { versionService, versionActorFromUser } from '@/services/versionService';
+import { ResourceVersion, VersionedResourceType } from '@/types/version';
 import { toast } from 'react-hot-toast';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
 
-interface Version {
-  id: string;
-  version: number;
-  status: 'draft' | 'pending' | 'published' | 'archived';
-  changes: {
-    field: string;
-    oldValue: any;
-    newValue: any;
-  }[];
-  createdBy: {
-    id: string;
-    name: string;
-    email: string;
-  };
-  createdAt: Date;
-  comments?: string;
-}
+type Version = ResourceVersion;
 
 interface VersionHistoryProps {
   profileId: string;
   orgId: string;
+  resourceType?: VersionedResourceType;
   onVersionSelect?: (version: Version) => void;
-  onVersionRestore?: (version: Version) => Promise<void>;
+  onVersionRestore?: (version: Version, draftId: string) => void | Promise<void>;
   className?: string;
 }
 
+const formatChangeValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (value instanceof Timestamp) return value.toDate().toLocaleDateString();
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
 export const VersionHistory: React.FC<VersionHistoryProps> = ({
   profileId,
   orgId,
+  resourceType = 'profile',
   onVersionSelect,
   onVersionRestore,
   className
@@ -78,46 +74,44 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
     checkPermissions();
   }, [user, orgId, profileId, isAdmin, isEditor]);
 
-  useEffect(() => {
-    const fetchVersions = async () => {
-      if (!profileId) return;
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const resourceRef = useMemo(
+    () => ({ resourceType, resourceId: profileId, universityId: orgId }),
+    [resourceType, profileId, orgId]
+  );
+
+  const fetchVersions = useCallback(async (cursor?: number) => {
+    if (!profileId || !user) return;
 
+    try {
+      const page = await versionService.listVersions(resourceRef, user.id, { cursor });
+      setVersions(prev => (cursor === undefined ? page.versions : [...prev, ...page.versions]));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching versions:', error);
+      toast.error('Failed to fetch version history');
+    }
+  }, [profileId, user?.id, resourceRef]);
+
+  useEffect(() => {
+    const loadVersions = async () => {
       setIsLoading(true);
-      try {
-        // TODO: Implement version fetching from your backend
-        // This is a mock implementation
-        const mockVersions: Version[] = [
-          {
-            id: '1',
-            version: 1,
-            status: 'published',
-            changes: [
-              {
-                field: 'name',
-                oldValue: 'John Doe',
-                newValue: 'John Smith'
-              }
-            ],
-            createdBy: {
-              id: 'user1',
-              name: 'Admin User',
-              email: 'admin@example.com'
-            },
-            createdAt: new Date('2024-01-01'),
-            comments: 'Initial version'
-          }
-        ];
-        setVersions(mockVersions);
-      } catch (error) {
-        console.error('Error fetching versions:', error);
-        toast.error('Failed to fetch version history');
-      } finally {
-        setIsLoading(false);
-      }
+      await fetchVersions();
+      setIsLoading(false);
     };
 
-    fetchVersions();
-  }, [profileId]);
+    loadVersions();
+  }, [fetchVersions]);
+
+  const handleLoadMore = async () => {
+    if (nextCursor === null) return;
+
+    setIsLoadingMore(true);
+    await fetchVersions(nextCursor);
+    setIsLoadingMore(false);
+  };
 
   const handleVersionSelect = (version: Version) => {
     setSelectedVersion(version);
@@ -130,10 +124,13 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
       return;
     }
 
+    if (!user) return;
+
     setIsRestoring(true);
     try {
-      await onVersionRestore?.(version);
-      toast.success('Version restored successfully');
+      const draftId = await versionService.restoreVersion(resourceRef, version.id, versionActorFromUser(user));
+      await onVersionRestore?.(version, draftId);
+      toast.success(`Version ${version.version} restored as a draft`);
     } catch (error) {
       console.error('Error restoring version:', error);
       toast.error('Failed to restore version');
@@ -177,11 +174,12 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
     <div className={cn('space-y-4', className)}>
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Version History</h3>
-        {hasAdminAccess && (
+        {/* The newest version is the current one, so undoing goes back one */}
+        {hasAdminAccess && versions.length > 1 && (
           <Button
             variant="outline"
             size="sm"
-            onClick={() => handleVersionRestore(versions[0])}
+            onClick={() => handleVersionRestore(versions[1])}
             disabled={isRestoring}
           >
             {isRestoring ? (
@@ -192,7 +190,7 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
             ) : (
               <>
                 <Icon name="history" className="mr-2 h-4 w-4" />
-                Restore Latest
+                Restore Previous
               </>
             )}
           </Button>
@@ -278,10 +276,10 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
                         </span>
                         <div className="flex-1">
                           <div className="text-red-500 line-through">
-                            {JSON.stringify(change.oldValue)}
+                            {formatChangeValue(change.oldValue)}
                           </div>
                           <div className="text-green-500">
-                            {JSON.stringify(change.newValue)}
+                            {formatChangeValue(change.newValue)}
                           </div>
                         </div>
                       </div>
@@ -293,6 +291,19 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
           </motion.div>
         ))}
       </div>
+
+      {nextCursor !== null && (
+        <div className="flex justify-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? 'Loading...' : 'Load older versions'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,21 +1,21 @@
 import React from 'react';
-import { format } from 'date-fns';
-import { LifeEvent } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
+import { formatFuzzyDate } from '@/utils/date';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Icon } from '@/components/ui/Icon';
 import { Tooltip } from '@/components/ui/Tooltip';
 
 export interface EventCardProps {
-  event: LifeEvent;
-  onEdit?: (event: LifeEvent) => void;
+  event: TimelineEvent;
+  onEdit?: (event: TimelineEvent) => void;
   onDelete?: (eventId: string) => void;
 }
 
 export const EventCard: React.FC<EventCardProps> = ({ event, onEdit, onDelete }) => {
   const formatDate = (date: string | undefined) => {
     if (!date) return 'Present';
-    return format(new Date(date), 'MMM yyyy');
+    return formatFuzzyDate(date) ?? date;
   };
 
   const dateRange = event.endDate
@@ -32,6 +32,12 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onEdit, onDelete })
           />
           <div>
             <h3 className="text-lg font-semibold">{event.title}</h3>
+            {event.type === 'work' && event.details.company && (
+              <p className="text-sm text-gray-700">{event.details.company}</p>
+            )}
+            {event.type === 'education' && event.details.institution && (
+              <p className="text-sm text-gray-700">{event.details.institution}</p>
+            )}
             {event.description && (
               <p className="mt-1 text-sm text-gray-600">{event.description}</p>
             )}
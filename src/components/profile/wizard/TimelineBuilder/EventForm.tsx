@@ -4,24 +4,21 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
-import { LifeEvent } from '@/types/profile';
+import { TimelineEvent, TimelineEventChanges } from '@/types/timeline';
 import { Input } from '@/components/ui/Input';
+import { FuzzyDateInput } from '@/components/ui/FuzzyDateInput';
+import { FUZZY_DATE_HINT, isChronological, isFuzzyDate } from '@/utils/date';
 
 const eventSchema = z.object({
-  type: z.enum(['education', 'work', 'other']),
+  type: z.enum(['education', 'work', 'event']),
   title: z.string().min(1, 'Title is required'),
   company: z.string().optional(),
   position: z.string().optional(),
   description: z.string().optional(),
-  startDate: z.string().min(1, 'Start date is required'),
-  endDate: z.string().optional(),
+  startDate: z.string().min(1, 'Start date is required').refine(isFuzzyDate, FUZZY_DATE_HINT),
+  endDate: z.string().optional().refine(date => !date || isFuzzyDate(date), FUZZY_DATE_HINT),
   location: z.string().optional()
-}).refine((data) => {
-  if (data.endDate) {
-    return new Date(data.endDate) > new Date(data.startDate);
-  }
-  return true;
-}, {
+}).refine((data) => isChronological(data.startDate, data.endDate), {
   message: 'End date must be after start date',
   path: ['endDate'],
 });
@@ -29,8 +26,8 @@ const eventSchema = z.object({
 type EventFormData = z.infer<typeof eventSchema>;
 
 export interface EventFormProps {
-  initialData?: LifeEvent;
-  onSubmit: (data: Omit<LifeEvent, 'id'>) => void;
+  initialData?: TimelineEvent;
+  onSubmit: (changes: TimelineEventChanges) => void;
   onCancel: () => void;
 }
 
@@ -42,6 +39,7 @@ export const EventForm: React.FC<EventFormProps> = ({
   const {
     register,
     handleSubmit,
+    control,
     watch,
     formState: { errors },
   } = useForm<EventFormData>({
@@ -49,6 +47,8 @@ export const EventForm: React.FC<EventFormProps> = ({
     defaultValues: {
       type: initialData?.type || 'education',
       title: initialData?.title || '',
+      company: initialData?.type === 'work' ? initialData.details.company || '' : '',
+      position: initialData?.type === 'work' ? initialData.details.position || '' : '',
       description: initialData?.description || '',
       startDate: initialData?.startDate || '',
       endDate: initialData?.endDate || '',
@@ -59,8 +59,15 @@ export const EventForm: React.FC<EventFormProps> = ({
   const eventType = watch('type');
 
   const onSubmitHandler: SubmitHandler<FieldValues> = (data) => {
-    const eventData = data as Omit<LifeEvent, 'id'>;
-    onSubmit(eventData);
+    const { type, company, position, ...fields } = data as EventFormData;
+    // Work entries are titled by their position
+    onSubmit({
+      ...fields,
+      endDate: fields.endDate || undefined,
+      type,
+      title: type === 'work' ? fields.title || position || '' : fields.title,
+      details: type === 'work' ? { company, position } : {},
+    });
   };
 
   return (
@@ -77,7 +84,7 @@ export const EventForm: React.FC<EventFormProps> = ({
           >
             <option value="education">Education</option>
             <option value="work">Work</option>
-            <option value="other">Other</option>
+            <option value="event">Other</option>
           </select>
         </div>
 
@@ -140,35 +147,34 @@ export const EventForm: React.FC<EventFormProps> = ({
         </div>
 
         <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
-              Start Date *
-            </label>
-            <input
-              type="date"
-              id="startDate"
-              {...register('startDate')}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-            />
-            {errors.startDate && (
-              <p className="mt-1 text-sm text-red-600">{errors.startDate.message}</p>
+          <Controller
+            name="startDate"
+            control={control}
+            render={({ field }) => (
+              <FuzzyDateInput
+                id="startDate"
+                label="Start Date"
+                required
+                value={field.value}
+                onChange={date => field.onChange(date ?? '')}
+                error={errors.startDate?.message}
+              />
             )}
-          </div>
+          />
 
-          <div>
-            <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
-              End Date
-            </label>
-            <input
-              type="date"
-              id="endDate"
-              {...register('endDate')}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-            />
-            {errors.endDate && (
-              <p className="mt-1 text-sm text-red-600">{errors.endDate.message}</p>
+          <Controller
+            name="endDate"
+            control={control}
+            render={({ field }) => (
+              <FuzzyDateInput
+                id="endDate"
+                label="End Date"
+                value={field.value}
+                onChange={date => field.onChange(date ?? '')}
+                error={errors.endDate?.message}
+              />
             )}
-          </div>
+          />
         </div>
 
         <div>
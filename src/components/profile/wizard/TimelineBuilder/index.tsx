@@ -3,10 +3,12 @@ import { Button } from '@/components/ui/Button';
 import { Icon } from '@/components/ui/Icon';
 import { EventCard } from './EventCard';
 import { EventForm } from './EventForm';
-import { LifeEvent, TimelineBuilderProps } from '@/types/profile';
+import { TimelineBuilderProps } from '@/types/profile';
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
 import { useTimelineEvents } from '@/hooks/useTimelineEvents';
 import { useTimelineAutoSave } from '@/hooks/useTimelineAutoSave';
+import { PendingConflicts } from '@/components/collaboration/PendingConflicts';
+import { TimelineIssues } from '@/components/timeline/TimelineIssues';
 import { Alert } from '@/components/ui/Alert';
 import { LoadingState } from '@/components/ui/LoadingState';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
@@ -14,7 +16,9 @@ import { Tooltip } from '@/components/ui/Tooltip';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { format } from 'date-fns';
 import { useTimeline } from '@/hooks/useTimeline';
-import { TimelineEvent } from '@/types/profile';
+import { TimelineEvent, TimelineEventChanges } from '@/types/timeline';
+import { applyTimelineEventChanges, toTimelineEvent } from '@/utils/timelineConverters';
+import { formatTimelineDates } from '@/utils/timeline';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/Dialog';
 
 interface ExtendedTimelineBuilderProps extends TimelineBuilderProps {
@@ -28,14 +32,16 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
   initialEvents = [],
   onEventsChange,
   onNext,
+  dateOfBirth,
+  dateOfDeath,
   orgId,
   profileId,
   isEditMode = false,
   isPreview = false,
 }) => {
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [selectedEvent, setSelectedEvent] = useState<LifeEvent | null>(null);
-  const [localEvents, setLocalEvents] = useState<LifeEvent[]>(initialEvents);
+  const [selectedEvent, setSelectedEvent] = useState<TimelineEvent | null>(null);
+  const [localEvents, setLocalEvents] = useState<TimelineEvent[]>(initialEvents);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
 
   const {
@@ -50,10 +56,17 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
 
   const events = isEditMode ? fetchedEvents : localEvents;
 
-  const { isSaving, lastSavedAt } = useTimelineAutoSave({
+  // Someone else's saved entries merged in with ours
+  const handleMerged = useCallback((merged: TimelineEvent[]) => {
+    setLocalEvents(merged);
+    onEventsChange?.(merged);
+  }, [onEventsChange]);
+
+  const { isSaving, lastSavedAt, conflicts, resolveConflicts } = useTimelineAutoSave({
     orgId,
     profileId,
     events,
+    onMerged: handleMerged,
   });
 
   const handleDragEnd = useCallback(
@@ -75,7 +88,7 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
     setIsFormOpen(true);
   }, []);
 
-  const handleEditEvent = useCallback((event: LifeEvent) => {
+  const handleEditEvent = useCallback((event: TimelineEvent) => {
     setSelectedEvent(event);
     setIsFormOpen(true);
   }, []);
@@ -98,18 +111,15 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
   );
 
   const handleFormSubmit = useCallback(
-    (eventData: Omit<LifeEvent, 'id'>) => {
+    (changes: TimelineEventChanges) => {
       if (selectedEvent) {
         const updatedEvents = events.map((event) =>
-          event.id === selectedEvent.id ? { ...eventData, id: event.id } : event
+          event.id === selectedEvent.id ? applyTimelineEventChanges(event, { ...changes, updatedAt: new Date() }) : event
         );
         setLocalEvents(updatedEvents);
         onEventsChange?.(updatedEvents);
       } else {
-        const newEvent = {
-          ...eventData,
-          id: crypto.randomUUID(),
-        };
+        const newEvent = toTimelineEvent({ ...changes }, crypto.randomUUID());
         const updatedEvents = [...events, newEvent];
         setLocalEvents(updatedEvents);
         onEventsChange?.(updatedEvents);
@@ -198,6 +208,10 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
         <LoadingState message="Saving changes..." />
       )}
 
+      <PendingConflicts conflicts={conflicts} onResolve={resolveConflicts} />
+
+      <TimelineIssues events={events} dateOfBirth={dateOfBirth} dateOfDeath={dateOfDeath} />
+
       {isFormOpen && (
         <EventForm
           initialData={selectedEvent ?? undefined}
@@ -289,32 +303,28 @@ const TimelineEventCard: React.FC<TimelineEventCardProps> = ({ event, isPreview
 
   switch (event.type) {
     case 'education': {
-      const degree = event.metadata?.degree ?? '';
-      const institution = event.metadata?.institution ?? '';
+      const degree = event.details.degree ?? '';
+      const institution = event.details.institution ?? '';
       title = degree || institution ? `${degree}${institution ? ' at ' + institution : ''}` : ((event.title as string | undefined) ?? 'Education');
-      subtitle = String((event.startDate as string | Date | undefined) ?? '');
+      subtitle = formatTimelineDates(event);
       colorClass = 'bg-blue-100 text-blue-800';
       description = (event.description as string | undefined) ?? '';
       break;
     }
-    case 'job': {
-      const company = event.metadata?.company ?? '';
+    case 'work': {
+      const company = event.details.company ?? '';
       title = ((event.title as string | undefined) ?? 'Job') + (company ? ' at ' + company : '');
-      subtitle = String((event.startDate as string | Date | undefined) ?? '');
+      subtitle = formatTimelineDates(event);
       colorClass = 'bg-green-100 text-green-800';
       description = (event.description as string | undefined) ?? '';
       break;
     }
     case 'event':
       title = (event.title as string | undefined) ?? 'Event';
-      subtitle = String((event.startDate as string | Date | undefined) ?? '');
+      subtitle = formatTimelineDates(event);
       description = (event.description as string | undefined) ?? '';
       colorClass = 'bg-purple-100 text-purple-800';
       break;
-    default:
-      title = (event.title as string | undefined) ?? 'Timeline Event';
-      colorClass = 'bg-gray-100 text-gray-800';
-      description = (event.description as string | undefined) ?? '';
   }
 
   return (
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+import { validateStoryPrompts } from '@/services/storyPrompts';
+import {
+  CATEGORIES,
+  DEFAULT_PROMPT_MAX_LENGTH,
+  QuestionCategory,
+  StoryPromptAudience,
+  StoryQuestion,
+} from '@/types/questions';
+
+interface StoryPromptFormProps {
+  /** The prompt being edited, or the starting point for a new one */
+  prompt: StoryQuestion;
+  onSubmit: (prompt: StoryQuestion) => void;
+  onCancel: () => void;
+}
+
+interface LocaleDraft {
+  locale: string;
+  text: string;
+  placeholder: string;
+}
+
+const AUDIENCE_OPTIONS: { value: StoryPromptAudience; label: string }[] = [
+  { value: 'all', label: 'Everyone' },
+  { value: 'alumni', label: 'Alumni telling their own story' },
+  { value: 'memorial', label: 'People contributing to a memorial' },
+];
+
+/** Edits one prompt: its text, limits, audience and translations */
+export function StoryPromptForm({ prompt, onSubmit, onCancel }: StoryPromptFormProps) {
+  const [categoryId, setCategoryId] = useState<QuestionCategory>(prompt.categoryId);
+  const [text, setText] = useState(prompt.text);
+  const [placeholder, setPlaceholder] = useState(prompt.placeholder ?? '');
+  const [maxLength, setMaxLength] = useState(String(prompt.maxLength ?? DEFAULT_PROMPT_MAX_LENGTH));
+  const [audience, setAudience] = useState<StoryPromptAudience>(prompt.audience ?? 'all');
+  const [locales, setLocales] = useState<LocaleDraft[]>(
+    Object.entries(prompt.locales ?? {}).map(([locale, variant]) => ({
+      locale,
+      text: variant.text,
+      placeholder: variant.placeholder ?? '',
+    }))
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const updateLocale = (index: number, changes: Partial<LocaleDraft>) => {
+    setLocales(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const edited: StoryQuestion = {
+      id: prompt.id,
+      categoryId,
+      text,
+      placeholder,
+      maxLength: Number(maxLength),
+      audience,
+      locales: Object.fromEntries(locales.map(draft => [
+        draft.locale.trim(),
+        { text: draft.text, placeholder: draft.placeholder },
+      ])),
+    };
+
+    const validationError = validateStoryPrompts([edited]);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSubmit(edited);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-md border border-gray-200 p-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <Select
+            value={categoryId}
+            onChange={(value) => setCategoryId(value as QuestionCategory)}
+            options={CATEGORIES.map(category => ({ value: category.id, label: category.label }))}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Audience</label>
+          <Select
+            value={audience}
+            onChange={(value) => setAudience(value as StoryPromptAudience)}
+            options={AUDIENCE_OPTIONS}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Maximum answer length</label>
+          <Input type="number" min="1" value={maxLength} onChange={(e) => setMaxLength(e.target.value)} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Prompt</label>
+        <Textarea value={text} onChange={(e) => setText(e.target.value)} rows={2} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Placeholder</label>
+        <Input value={placeholder} onChange={(e) => setPlaceholder(e.target.value)} />
+      </div>
+
+      <section className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700">Translations</h4>
+        {locales.map((draft, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[6rem_1fr_1fr_auto] gap-2 items-start">
+            <Input
+              value={draft.locale}
+              onChange={(e) => updateLocale(index, { locale: e.target.value })}
+              placeholder="es"
+              aria-label="Locale"
+            />
+            <Input
+              value={draft.text}
+              onChange={(e) => updateLocale(index, { text: e.target.value })}
+              placeholder="Prompt"
+              aria-label="Translated prompt"
+            />
+            <Input
+              value={draft.placeholder}
+              onChange={(e) => updateLocale(index, { placeholder: e.target.value })}
+              placeholder="Placeholder"
+              aria-label="Translated placeholder"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLocales(prev => prev.filter((_, i) => i !== index))}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setLocales(prev => [...prev, { locale: '', text: '', placeholder: '' }])}
+        >
+          Add translation
+        </Button>
+      </section>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button type="submit">Done</Button>
+      </div>
+    </form>
+  );
+}
@@ -1,22 +1,21 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { StoryAnswer, StoryPrompt } from '../../types/profile';
+import { StoryAnswer } from '../../types/profile';
+import type { ResolvedStoryCategory } from '../../types/questions';
 import { useToast } from '../../hooks/useToast';
 import { useAnalytics } from '../../hooks/useAnalytics';
 import { ErrorBoundary } from '../ErrorBoundary';
 
-const answerSchema = z.object({
-  answer: z.string().max(1000, 'Answer must be less than 1,000 characters'),
-});
-
-type AnswerFormData = z.infer<typeof answerSchema>;
+type AnswerFormData = { answer: string };
 
 interface StoryPromptPageProps {
+  /** From the prompt library, see useStoryPromptLibrary */
+  categories: ResolvedStoryCategory[];
   existingAnswers?: StoryAnswer[];
   onUpdate: (answers: StoryAnswer[]) => Promise<void>;
   isSubmitting?: boolean;
@@ -25,6 +24,7 @@ interface StoryPromptPageProps {
 }
 
 export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
+  categories,
   existingAnswers = [],
   onUpdate,
   isSubmitting = false,
@@ -36,6 +36,28 @@ export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
   const { trackEvent } = useAnalytics();
   const firstInputRef = useRef<HTMLTextAreaElement>(null);
 
+  const promptsById = useMemo(
+    () => new Map(categories.flatMap(category => category.prompts).map(prompt => [prompt.id, prompt])),
+    [categories]
+  );
+
+  // Each prompt sets its own length limit
+  const answersSchema = useMemo(
+    () => z.record(z.object({ answer: z.string() })).superRefine((answers, ctx) => {
+      Object.entries(answers).forEach(([questionId, { answer }]) => {
+        const maxLength = promptsById.get(questionId)?.maxLength;
+        if (maxLength && answer.length > maxLength) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [questionId, 'answer'],
+            message: `Answer must be less than ${maxLength.toLocaleString()} characters`,
+          });
+        }
+      });
+    }),
+    [promptsById]
+  );
+
   const {
     register,
     handleSubmit,
@@ -43,7 +65,7 @@ export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
     reset,
     watch,
   } = useForm<Record<string, AnswerFormData>>({
-    resolver: zodResolver(z.record(answerSchema)),
+    resolver: zodResolver(answersSchema),
     defaultValues: Object.fromEntries(
       existingAnswers.map((answer) => [answer.questionId, { answer: answer.answer }])
     ),
@@ -78,12 +100,11 @@ export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
       const answers = Object.entries(data)
         .filter(([_, formData]) => formData.answer.trim().length > 0)
         .map(([questionId, formData]) => {
-          const question = QUESTIONS_BY_CATEGORY[getCategoryFromQuestionId(questionId)]
-            .find(q => q.id === questionId);
+          const question = promptsById.get(questionId);
           return {
             id: questionId,
             questionId,
-            question: question?.question || '',
+            question: question?.text || '',
             answer: formData.answer.trim(),
           };
         });
@@ -119,16 +140,14 @@ export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
   };
 
   const getCategoryFromQuestionId = (questionId: string): string => {
-    return Object.entries(QUESTIONS_BY_CATEGORY).find(([_, questions]) =>
-      questions.some(q => q.id === questionId)
-    )?.[0] || '';
+    return promptsById.get(questionId)?.categoryId || '';
   };
 
-  const filteredQuestions = Object.entries(QUESTIONS_BY_CATEGORY)
-    .filter(([category, _]) => selectedCategory === 'all' || category === selectedCategory)
-    .flatMap(([_, questions]) =>
-      questions.filter((q) =>
-        q.question.toLowerCase().includes(searchTerm.toLowerCase())
+  const filteredQuestions = categories
+    .filter((category) => selectedCategory === 'all' || category.id === selectedCategory)
+    .flatMap((category) =>
+      category.prompts.filter((q) =>
+        q.text.toLowerCase().includes(searchTerm.toLowerCase())
       )
     );
 
@@ -149,7 +168,7 @@ export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
                 htmlFor={`answer-${prompt.id}`}
                 className="block text-lg font-medium text-gray-900 mb-2"
               >
-                {prompt.question}
+                {prompt.text}
               </label>
               <div className="relative">
                 <textarea
@@ -164,13 +183,13 @@ export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
                       ? `answer-${prompt.id}-error`
                       : undefined
                   }
-                  placeholder="Type your answer here..."
+                  placeholder={prompt.placeholder || 'Type your answer here...'}
                 />
                 <div 
                   className="absolute bottom-2 right-2 text-sm text-gray-500"
                   aria-live="polite"
                 >
-                  {watch(`${prompt.id}.answer`)?.length || 0}/1000
+                  {watch(`${prompt.id}.answer`)?.length || 0}/{prompt.maxLength}
                 </div>
               </div>
               {errors[prompt.id]?.answer && (
@@ -198,67 +217,3 @@ export const StoryPromptPage: React.FC<StoryPromptPageProps> = ({
     </ErrorBoundary>
   );
 };
-
-// Sample questions - in a real app, these would come from Firestore
-const QUESTIONS_BY_CATEGORY: Record<string, StoryPrompt[]> = {
-  professional: [
-    {
-      id: 'prof-1',
-      category: 'professional',
-      question: 'What inspired you to pursue your current career path?',
-    },
-    {
-      id: 'prof-2',
-      category: 'professional',
-      question: 'What has been your most significant professional achievement?',
-    },
-  ],
-  academic: [
-    {
-      id: 'acad-1',
-      category: 'academic',
-      question: 'What was your favorite class and why?',
-    },
-    {
-      id: 'acad-2',
-      category: 'academic',
-      question: 'How did your academic experience shape your future?',
-    },
-  ],
-  philosophical: [
-    {
-      id: 'phil-1',
-      category: 'philosophical',
-      question: 'What life lesson has had the biggest impact on you?',
-    },
-    {
-      id: 'phil-2',
-      category: 'philosophical',
-      question: 'What do you believe is the key to success?',
-    },
-  ],
-  personal: [
-    {
-      id: 'pers-1',
-      category: 'personal',
-      question: 'What is your favorite memory from your time here?',
-    },
-    {
-      id: 'pers-2',
-      category: 'personal',
-      question: 'How have you grown as a person since graduating?',
-    },
-  ],
-  fun: [
-    {
-      id: 'fun-1',
-      category: 'fun',
-      question: 'What was your favorite spot on campus?',
-    },
-    {
-      id: 'fun-2',
-      category: 'fun',
-      question: "What's the most interesting thing you've done since graduation?",
-    },
-  ],
-}; 
\ No newline at end of file
@@ -2,13 +2,13 @@ import React from 'react';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Icon } from '../ui/Icon';
-import { format } from 'date-fns';
-import { LifeEvent } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
+import { formatTimelineDates } from '@/utils/timeline';
 
 interface EventCardProps {
-  event: LifeEvent;
-  onEdit?: (event: LifeEvent) => void;
-  onDelete?: (event: LifeEvent) => void;
+  event: TimelineEvent;
+  onEdit?: (event: TimelineEvent) => void;
+  onDelete?: (event: TimelineEvent) => void;
 }
 
 export function EventCard({ event, onEdit, onDelete }: EventCardProps) {
@@ -50,8 +50,7 @@ export function EventCard({ event, onEdit, onDelete }: EventCardProps) {
         </div>
       </div>
       <div className="mt-2 text-sm text-gray-500">
-        {format(new Date(event.startDate), 'MMM yyyy')}
-        {event.endDate && ` - ${format(new Date(event.endDate), 'MMM yyyy')}`}
+        {formatTimelineDates(event)}
       </div>
       {event.location && (
         <div className="mt-1 text-sm text-gray-500">
@@ -61,19 +60,23 @@ export function EventCard({ event, onEdit, onDelete }: EventCardProps) {
       {event.description && (
         <p className="mt-2 text-sm text-gray-600">{event.description}</p>
       )}
-      {event.metadata && (
+      {event.type === 'education' && (
         <div className="mt-2 text-sm text-gray-500">
-          {event.metadata.institution && (
-            <div>🏫 {event.metadata.institution}</div>
+          {event.details.institution && (
+            <div>🏫 {event.details.institution}</div>
           )}
-          {event.metadata.degree && (
-            <div>🎓 {event.metadata.degree}</div>
+          {event.details.degree && (
+            <div>🎓 {event.details.degree}</div>
           )}
-          {event.metadata.company && (
-            <div>🏢 {event.metadata.company}</div>
+        </div>
+      )}
+      {event.type === 'work' && (
+        <div className="mt-2 text-sm text-gray-500">
+          {event.details.company && (
+            <div>🏢 {event.details.company}</div>
           )}
-          {event.metadata.position && (
-            <div>👔 {event.metadata.position}</div>
+          {event.details.position && (
+            <div>👔 {event.details.position}</div>
           )}
         </div>
       )}
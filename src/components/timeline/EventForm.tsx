@@ -7,10 +7,10 @@ import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Textarea } from '../ui/Textarea';
 import { Select } from '../ui/Select';
-import { LifeEvent } from '@/types/profile';
+import { TimelineEvent, TimelineEventType } from '@/types/timeline';
 
 const eventSchema = z.object({
-  type: z.enum(['education', 'work', 'other']),
+  type: z.enum(['education', 'work', 'event']),
   title: z.string().min(1, 'Title is required'),
   startDate: z.string().min(1, 'Start date is required'),
   endDate: z.string().optional(),
@@ -28,8 +28,8 @@ interface EventFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (data: EventFormData) => void;
-  event?: LifeEvent;
-  defaultType?: 'education' | 'work' | 'other';
+  event?: TimelineEvent;
+  defaultType?: TimelineEventType;
 }
 
 export function EventForm({ isOpen, onClose, onSubmit, event, defaultType }: EventFormProps) {
@@ -49,13 +49,10 @@ export function EventForm({ isOpen, onClose, onSubmit, event, defaultType }: Eve
           endDate: event.endDate,
           location: event.location,
           description: event.description,
-          institution: event.metadata?.institution,
-          degree: event.metadata?.degree,
-          company: event.metadata?.company,
-          position: event.metadata?.position,
+          ...(event.type === 'education' || event.type === 'work' ? event.details : {}),
         }
       : {
-          type: defaultType || 'other',
+          type: defaultType || 'event',
         },
   });
 
@@ -84,7 +81,7 @@ export function EventForm({ isOpen, onClose, onSubmit, event, defaultType }: Eve
               options={[
                 { value: 'education', label: 'Education' },
                 { value: 'work', label: 'Work' },
-                { value: 'other', label: 'Other' }
+                { value: 'event', label: 'Other' }
               ]}
             />
             {errors.type?.message && (
@@ -1,27 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { TimelineEvent } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
+import type { MemorialDate } from '@/types/profile';
+import { toTimelineEvent } from '@/utils/timelineConverters';
+import { FUZZY_DATE_HINT, isChronological, isFuzzyDate } from '@/utils/date';
+import { formatTimelineDates } from '@/utils/timeline';
 import { useToast } from '@/hooks/useToast';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { FuzzyDateInput } from '@/components/ui/FuzzyDateInput';
 import { Textarea } from '@/components/ui/Textarea';
 import { Icon } from '@/components/ui/Icon';
 import { Card } from '@/components/ui/Card';
+import { TimelineIssues } from './TimelineIssues';
 
 const timelineEventSchema = z.object({
-  type: z.enum(['education', 'job', 'event']),
+  type: z.enum(['education', 'work', 'event']),
   title: z.string().min(1, 'Title is required'),
-  startDate: z.string().min(1, 'Start date is required'),
-  endDate: z.string().optional(),
+  startDate: z.string().min(1, 'Start date is required').refine(isFuzzyDate, FUZZY_DATE_HINT),
+  endDate: z.string().optional().refine(date => !date || isFuzzyDate(date), FUZZY_DATE_HINT),
   location: z.string().optional(),
   description: z.string().optional(),
   institution: z.string().optional(),
   degree: z.string().optional(),
   company: z.string().optional(),
   position: z.string().optional(),
+}).refine(data => isChronological(data.startDate, data.endDate), {
+  message: 'End date must be after start date',
+  path: ['endDate'],
 });
 
 type TimelineEventFormData = z.infer<typeof timelineEventSchema>;
@@ -30,12 +39,16 @@ interface SimpleTimelineBuilderProps {
   existingEvents?: TimelineEvent[];
   onUpdate: (events: TimelineEvent[]) => Promise<void>;
   isSubmitting?: boolean;
+  dateOfBirth?: MemorialDate | null;
+  dateOfDeath?: MemorialDate | null;
 }
 
 export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
   existingEvents = [],
   onUpdate,
   isSubmitting = false,
+  dateOfBirth,
+  dateOfDeath,
 }) => {
   const [events, setEvents] = useState<TimelineEvent[]>(existingEvents);
   const { showToast } = useToast();
@@ -46,6 +59,7 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
 
   const {
     register,
+    control,
     handleSubmit,
     reset,
     watch,
@@ -61,27 +75,24 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
 
   const handleCreateEvent = async (data: TimelineEventFormData) => {
     try {
-      const newEvent: TimelineEvent = {
-        id: crypto.randomUUID(),
+      const newEvent = toTimelineEvent({
         type: data.type,
         title: data.title,
         startDate: data.startDate,
         endDate: data.endDate || undefined,
         location: data.location,
         description: data.description,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        metadata: {
+        details: {
           ...(data.type === 'education' && {
             institution: data.institution,
             degree: data.degree,
           }),
-          ...(data.type === 'job' && {
+          ...(data.type === 'work' && {
             company: data.company,
             position: data.position,
           }),
         },
-      };
+      }, crypto.randomUUID());
 
       const updatedEvents = [...events, newEvent];
       setEvents(updatedEvents);
@@ -128,6 +139,8 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
         <h2 className="text-2xl font-bold">Timeline</h2>
       </div>
 
+      <TimelineIssues events={events} dateOfBirth={dateOfBirth} dateOfDeath={dateOfDeath} />
+
       <form onSubmit={handleSubmit(handleCreateEvent)} className="space-y-4 bg-gray-50 p-4 rounded-lg">
         <div className="grid grid-cols-2 gap-4">
           <div>
@@ -139,7 +152,7 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
               className="block w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
             >
               <option value="education">Education</option>
-              <option value="job">Job</option>
+              <option value="work">Job</option>
               <option value="event">Event</option>
             </select>
             {errors.type && (
@@ -159,26 +172,30 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
         </div>
 
         <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Start Date
-            </label>
-            <Input
-              type="date"
-              {...register('startDate')}
-              error={errors.startDate?.message}
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              End Date (Optional)
-            </label>
-            <Input
-              type="date"
-              {...register('endDate')}
-              error={errors.endDate?.message}
-            />
-          </div>
+          <Controller
+            name="startDate"
+            control={control}
+            render={({ field }) => (
+              <FuzzyDateInput
+                label="Start Date"
+                value={field.value}
+                onChange={date => field.onChange(date ?? '')}
+                error={errors.startDate?.message}
+              />
+            )}
+          />
+          <Controller
+            name="endDate"
+            control={control}
+            render={({ field }) => (
+              <FuzzyDateInput
+                label="End Date (Optional)"
+                value={field.value}
+                onChange={date => field.onChange(date ?? '')}
+                error={errors.endDate?.message}
+              />
+            )}
+          />
         </div>
 
         {eventType === 'education' && (
@@ -206,7 +223,7 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
           </div>
         )}
 
-        {eventType === 'job' && (
+        {eventType === 'work' && (
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -287,7 +304,7 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
                 <div>
                   <h3 className="font-semibold">{event.title}</h3>
                   <p className="text-sm text-gray-600">
-                    {event.startDate} {event.endDate ? `- ${event.endDate}` : ''}
+                    {formatTimelineDates(event)}
                   </p>
                   {event.location && (
                     <p className="text-sm text-gray-600">{event.location}</p>
@@ -295,11 +312,11 @@ export const SimpleTimelineBuilder: React.FC<SimpleTimelineBuilderProps> = ({
                   {event.description && (
                     <p className="mt-2 text-sm">{event.description}</p>
                   )}
-                  {event.metadata?.institution && (
-                    <p className="text-sm text-gray-600">{event.metadata.institution}</p>
+                  {event.type === 'education' && event.details.institution && (
+                    <p className="text-sm text-gray-600">{event.details.institution}</p>
                   )}
-                  {event.metadata?.company && (
-                    <p className="text-sm text-gray-600">{event.metadata.company}</p>
+                  {event.type === 'work' && event.details.company && (
+                    <p className="text-sm text-gray-600">{event.details.company}</p>
                   )}
                 </div>
                 <Button
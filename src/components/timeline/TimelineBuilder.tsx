@@ -5,7 +5,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { TimelineEvent } from '@/types/profile';
+import { TimelineEvent, TimelineEventChanges, TimelineEventType } from '@/types/timeline';
+import { applyTimelineEventChanges, toTimelineEvent } from '@/utils/timelineConverters';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -18,16 +19,20 @@ import { DragDropContext, Droppable, Draggable, DropResult } from 'react-beautif
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { EventCard } from './EventCard';
 import { EventForm } from './EventForm';
-import { LifeEvent, TimelineBuilderProps } from '@/types/profile';
+import { TimelineBuilderProps } from '@/types/profile';
 import { useTimelineEvents } from '@/hooks/useTimelineEvents';
 import { useTimelineAutoSave } from '@/hooks/useTimelineAutoSave';
+import { PendingConflicts } from '@/components/collaboration/PendingConflicts';
 import { Alert } from '@/components/ui/Alert';
 import { LoadingState } from '@/components/ui/LoadingState';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { TimelineView } from './TimelineView';
-import { DatePicker } from '@/components/ui/DatePicker';
+import { TimelineImporter } from './TimelineImporter';
+import { TimelineIssues } from './TimelineIssues';
+import { FuzzyDateInput } from '@/components/ui/FuzzyDateInput';
+import { FUZZY_DATE_HINT, isChronological, isFuzzyDate } from '@/utils/date';
 
 // Error Boundary Component
 class TimelineErrorBoundary extends React.Component<
@@ -60,7 +65,7 @@ type IconName = 'briefcase' | 'graduation-cap' | 'calendar' | 'spinner' | 'x' |
 
 // Update template type with strict icon typing
 type EventTemplate = {
-  type: 'education' | 'work' | 'other';
+  type: TimelineEventType;
   icon: IconName;
   label: string;
   color: string;
@@ -69,22 +74,10 @@ type EventTemplate = {
 
 // Fix date validation schema
 const timelineEventSchema = z.object({
-  type: z.enum(['education', 'work', 'other']),
+  type: z.enum(['education', 'work', 'event']),
   title: z.string().min(1, 'Title is required').max(100, 'Title must be less than 100 characters'),
-  startDate: z.string().min(1, 'Start date is required'),
-  endDate: z.string().optional()
-    .superRefine((endDate, ctx) => {
-      if (!endDate) return;
-      const formData = ctx.path[0] === 'endDate' ? ctx.path[0] : 'startDate';
-      const startDate = (ctx as unknown as { parent: { startDate: string } }).parent.startDate;
-      if (!startDate) return;
-      if (new Date(endDate) < new Date(startDate)) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: 'End date must be after start date',
-        });
-      }
-    }),
+  startDate: z.string().min(1, 'Start date is required').refine(isFuzzyDate, FUZZY_DATE_HINT),
+  endDate: z.string().optional().refine(date => !date || isFuzzyDate(date), FUZZY_DATE_HINT),
   location: z.string().optional(),
   description: z.string().max(500, 'Description must be less than 500 characters').optional(),
   institution: z.string().optional(),
@@ -126,12 +119,12 @@ const EVENT_TEMPLATES: EventTemplate[] = [
     }
   },
   {
-    type: 'other',
+    type: 'event',
     icon: 'calendar',
     label: 'Add Event',
     color: 'bg-purple-50 text-purple-700 hover:bg-purple-100 border-purple-200',
     defaultFields: {
-      type: 'other',
+      type: 'event',
       title: '',
       startDate: new Date().toISOString().split('T')[0],
     }
@@ -142,18 +135,21 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
   initialEvents = [],
   onEventsChange,
   onNext,
+  dateOfBirth,
+  dateOfDeath,
   orgId,
   profileId,
   isEditMode = false,
   isPreview = false,
 }) => {
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [selectedEvent, setSelectedEvent] = useState<LifeEvent | undefined>();
-  const [events, setEvents] = useState<LifeEvent[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<TimelineEvent | undefined>();
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [error, setError] = useState<Error | null>(null);
-  const [selectedEventType, setSelectedEventType] = useState<'education' | 'work' | 'other' | undefined>();
-  const [formData, setFormData] = useState<Partial<LifeEvent>>({});
+  const [selectedEventType, setSelectedEventType] = useState<TimelineEventType | undefined>();
+  const [formData, setFormData] = useState<TimelineEventChanges>({});
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const {
     events: fetchedEvents,
@@ -167,10 +163,11 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
   // Use local events for preview, fetched events for edit mode
   const eventsToUse = isEditMode ? fetchedEvents : events;
 
-  const { isSaving, lastSavedAt } = useTimelineAutoSave({
+  const { isSaving, lastSavedAt, conflicts, resolveConflicts } = useTimelineAutoSave({
     orgId,
     profileId,
     events: eventsToUse,
+    onMerged: setEvents,
   });
 
   // Update parent component when events change, but don't trigger validation
@@ -190,23 +187,24 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
     setEvents(items);
   };
 
-  const handleAddEvent = (type: 'education' | 'work' | 'other') => {
+  const handleAddEvent = (type: TimelineEventType) => {
     setSelectedEvent(undefined);
     setSelectedEventType(type);
     setFormData({
       type,
       title: '',
       startDate: new Date().toISOString().split('T')[0],
+      details: {},
     });
   };
 
-  const handleEditEvent = (event: LifeEvent) => {
+  const handleEditEvent = (event: TimelineEvent) => {
     setSelectedEvent(event);
     setSelectedEventType(event.type);
     setFormData(event);
   };
 
-  const handleDeleteEvent = (event: LifeEvent) => {
+  const handleDeleteEvent = (event: TimelineEvent) => {
     setEvents(events.filter((e) => e.id !== event.id));
   };
 
@@ -217,33 +215,26 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
     }));
   };
 
+  // Institution, company and the like belong to the event's details
+  const detail = (field: string) => (formData.details as Record<string, string | undefined> | undefined)?.[field] || '';
+
+  const handleDetailChange = (field: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      details: { ...prev.details, [field]: value }
+    }));
+  };
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.title || !formData.startDate) {
+    if (!formData.title || !formData.startDate || !isChronological(formData.startDate, formData.endDate)) {
       return;
     }
 
-    const newEvent: LifeEvent = {
-      id: selectedEvent?.id || crypto.randomUUID(),
-      type: formData.type!,
-      title: formData.title,
-      startDate: formData.startDate,
-      endDate: formData.endDate,
-      location: formData.location,
-      description: formData.description,
-      createdAt: selectedEvent?.createdAt || new Date(),
-      updatedAt: new Date(),
-      metadata: {
-        ...(formData.type === 'education' && {
-          institution: formData.metadata?.institution,
-          degree: formData.metadata?.degree,
-        }),
-        ...(formData.type === 'work' && {
-          company: formData.metadata?.company,
-          position: formData.metadata?.position,
-        }),
-      },
-    };
+    const changes = { ...formData, updatedAt: new Date() };
+    const newEvent = selectedEvent
+      ? applyTimelineEventChanges(selectedEvent, changes)
+      : toTimelineEvent({ ...changes }, crypto.randomUUID());
 
     if (selectedEvent) {
       setEvents(events.map((e) => (e.id === selectedEvent.id ? newEvent : e)));
@@ -257,6 +248,12 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
     setSelectedEvent(undefined);
   };
 
+  const handleImported = (imported: TimelineEvent[]) => {
+    setEvents(prev => [...prev, ...imported]);
+    setIsImportOpen(false);
+    refetch();
+  };
+
   return (
     <div className="space-y-8">
       {/* Timeline Builder Section */}
@@ -275,6 +272,9 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
                 {template.label}
               </Button>
             ))}
+            <Button onClick={() => setIsImportOpen(true)} variant="outline">
+              Import from CV or LinkedIn
+            </Button>
           </div>
         </div>
 
@@ -286,6 +286,10 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
           />
         )}
 
+        <PendingConflicts conflicts={conflicts} onResolve={resolveConflicts} />
+
+        <TimelineIssues events={events} dateOfBirth={dateOfBirth} dateOfDeath={dateOfDeath} />
+
         {/* Inline Form */}
         {selectedEventType && (
           <Card className="p-4 border-2 border-dashed">
@@ -300,31 +304,27 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
                   error={!formData.title ? 'Title is required' : undefined}
                 />
                 <div className="space-y-2">
-                  <label className="block text-sm font-medium text-gray-700">
-                    Start Date <span className="text-red-500">*</span>
-                  </label>
-                  <DatePicker
-                    value={formData.startDate ? new Date(formData.startDate) : null}
-                    onChange={(date) => handleFormChange('startDate', date?.toISOString().split('T')[0] || '')}
-                    maxDate={new Date()}
+                  <FuzzyDateInput
+                    label="Start Date"
+                    value={formData.startDate}
+                    onChange={(date) => handleFormChange('startDate', date || '')}
                     required
+                    error={!formData.startDate ? 'Start date is required' : undefined}
                   />
-                  {!formData.startDate && (
-                    <p className="text-sm text-red-500">Start date is required</p>
-                  )}
                 </div>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <label className="block text-sm font-medium text-gray-700">
-                    End Date
-                  </label>
-                  <DatePicker
-                    value={formData.endDate ? new Date(formData.endDate) : null}
-                    onChange={(date) => handleFormChange('endDate', date?.toISOString().split('T')[0] || '')}
-                    minDate={formData.startDate ? new Date(formData.startDate) : undefined}
-                    maxDate={new Date()}
+                  <FuzzyDateInput
+                    label="End Date"
+                    value={formData.endDate}
+                    onChange={(date) => setFormData(prev => ({ ...prev, endDate: date ?? undefined }))}
+                    error={
+                      isChronological(formData.startDate, formData.endDate)
+                        ? undefined
+                        : 'End date must be after start date'
+                    }
                   />
                 </div>
                 <Input
@@ -339,14 +339,14 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
                 <div className="grid grid-cols-2 gap-4">
                   <Input
                     label="Institution"
-                    value={formData.metadata?.institution || ''}
-                    onChange={(e) => handleFormChange('metadata.institution', e.target.value)}
+                    value={detail('institution')}
+                    onChange={(e) => handleDetailChange('institution', e.target.value)}
                     placeholder="School, University, etc."
                   />
                   <Input
                     label="Degree"
-                    value={formData.metadata?.degree || ''}
-                    onChange={(e) => handleFormChange('metadata.degree', e.target.value)}
+                    value={detail('degree')}
+                    onChange={(e) => handleDetailChange('degree', e.target.value)}
                     placeholder="Bachelor's, Master's, etc."
                   />
                 </div>
@@ -356,14 +356,14 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
                 <div className="grid grid-cols-2 gap-4">
                   <Input
                     label="Company"
-                    value={formData.metadata?.company || ''}
-                    onChange={(e) => handleFormChange('metadata.company', e.target.value)}
+                    value={detail('company')}
+                    onChange={(e) => handleDetailChange('company', e.target.value)}
                     placeholder="Company or Organization"
                   />
                   <Input
                     label="Position"
-                    value={formData.metadata?.position || ''}
-                    onChange={(e) => handleFormChange('metadata.position', e.target.value)}
+                    value={detail('position')}
+                    onChange={(e) => handleDetailChange('position', e.target.value)}
                     placeholder="Job Title or Role"
                   />
                 </div>
@@ -457,6 +457,20 @@ export const TimelineBuilder: React.FC<ExtendedTimelineBuilderProps> = ({
         />
       </div>
 
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Import Timeline</DialogTitle>
+          </DialogHeader>
+          <TimelineImporter
+            profileId={profileId}
+            existingEvents={eventsToUse}
+            onImported={handleImported}
+            onCancel={() => setIsImportOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         open={!!showDeleteConfirm}
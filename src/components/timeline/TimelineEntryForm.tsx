@@ -2,23 +2,24 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { TimelineEvent } from '../../types/profile';
+import { TimelineEvent, TimelineEventType } from '../../types/timeline';
+import { FUZZY_DATE_HINT, isFuzzyDate, toFuzzyDateString } from '../../utils/date';
 import { useToast } from '../../hooks/useToast';
 import { useAnalytics } from '../../hooks/useAnalytics';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Textarea } from '../ui/Textarea';
-import { DatePicker } from '../ui/DatePicker';
+import { FuzzyDateInput } from '../ui/FuzzyDateInput';
 import { Select } from '../ui/Select';
 import { Spinner } from '../ui/Spinner';
 import { Icon } from '../ui/Icon';
 import { TimelineMediaUpload } from '../media/TimelineMediaUpload';
 
 const formSchema = z.object({
-  type: z.enum(['education', 'job', 'event']),
+  type: z.enum(['education', 'work', 'event']),
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
-  startDate: z.string().min(1, 'Date is required'),
+  startDate: z.string().min(1, 'Date is required').refine(isFuzzyDate, FUZZY_DATE_HINT),
   location: z.string().optional(),
   institution: z.string().optional(),
   company: z.string().optional(),
@@ -60,12 +61,12 @@ export const TimelineEntryForm: React.FC<TimelineEntryFormProps> = ({
       type: event?.type || 'event',
       title: event?.title || '',
       description: event?.description || '',
-      startDate: event?.startDate ? new Date(event.startDate).toISOString() : new Date().toISOString(),
+      startDate: event?.startDate || toFuzzyDateString(new Date()) || '',
       location: event?.location || '',
-      institution: event?.metadata?.institution || '',
-      company: event?.metadata?.company || '',
-      degree: event?.metadata?.degree || '',
-      position: event?.metadata?.position || '',
+      institution: event?.type === 'education' ? event.details.institution || '' : '',
+      company: event?.type === 'work' ? event.details.company || '' : '',
+      degree: event?.type === 'education' ? event.details.degree || '' : '',
+      position: event?.type === 'work' ? event.details.position || '' : '',
       importance: event?.metadata?.importance || 'medium',
       visibility: event?.metadata?.visibility || 'public',
       tags: event?.metadata?.tags || [],
@@ -109,10 +110,10 @@ export const TimelineEntryForm: React.FC<TimelineEntryFormProps> = ({
           <Select
             id="type"
             value={watch('type') ?? 'event'}
-            onChange={(value: string) => setValue('type', value as 'education' | 'job' | 'event')}
+            onChange={(value: string) => setValue('type', value as TimelineEventType)}
             options={[
               { value: 'education', label: 'Education' },
-              { value: 'job', label: 'Job' },
+              { value: 'work', label: 'Job' },
               { value: 'event', label: 'Event' }
             ]}
           >
@@ -148,7 +149,7 @@ export const TimelineEntryForm: React.FC<TimelineEntryFormProps> = ({
         </div>
       )}
 
-      {eventType === 'job' && (
+      {eventType === 'work' && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <label htmlFor="company" className="block text-sm font-medium leading-6 text-gray-900 mb-1">Company</label>
           <Input
@@ -166,10 +167,12 @@ export const TimelineEntryForm: React.FC<TimelineEntryFormProps> = ({
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <label htmlFor="startDate" className="block text-sm font-medium leading-6 text-gray-900 mb-1">Date</label>
-        <DatePicker
-          value={watch('startDate') ? new Date(watch('startDate')) : null}
-          onChange={date => setValue('startDate', date ? date.toISOString() : '')}
+        <FuzzyDateInput
+          id="startDate"
+          label="Date"
+          value={watch('startDate')}
+          onChange={date => setValue('startDate', date ?? '')}
+          error={errors.startDate?.message}
         />
         <label htmlFor="location" className="block text-sm font-medium leading-6 text-gray-900 mb-1">Location</label>
         <Input
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { FiCheck, FiEdit2, FiTrash2, FiUpload } from 'react-icons/fi';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Textarea } from '../ui/Textarea';
+import { FuzzyDateInput } from '../ui/FuzzyDateInput';
+import { draftProblem, useTimelineImport } from '@/hooks/useTimelineImport';
+import type { DraftTimelineEvent, TimelineEvent, TimelineImportDraft } from '@/types/timeline';
+import { formatTimelineDates } from '@/utils/timeline';
+
+interface TimelineImporterProps {
+  profileId: string;
+  /** Events already on the timeline; matching drafts start out discarded */
+  existingEvents?: TimelineEvent[];
+  onImported: (events: TimelineEvent[]) => void;
+  onCancel?: () => void;
+}
+
+type Source = 'linkedin' | 'resume';
+
+const STATUS_STYLES: Record<TimelineImportDraft['status'], string> = {
+  pending: 'border-gray-200',
+  accepted: 'border-green-400 bg-green-50',
+  discarded: 'border-gray-200 opacity-60',
+};
+
+function subtitle(event: DraftTimelineEvent): string | undefined {
+  return event.type === 'work' ? event.details.company : event.details.institution;
+}
+
+interface DraftEditorProps {
+  event: DraftTimelineEvent;
+  onChange: (event: DraftTimelineEvent) => void;
+}
+
+function DraftEditor({ event, onChange }: DraftEditorProps) {
+  const update = (changes: Partial<Omit<DraftTimelineEvent, 'type' | 'details'>>) => onChange({ ...event, ...changes });
+  const updateDetails = (field: string, value: string) =>
+    onChange({ ...event, details: { ...event.details, [field]: value || undefined } } as DraftTimelineEvent);
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-gray-100 pt-3">
+      <Input label="Title" value={event.title} onChange={e => update({ title: e.target.value })} />
+      {event.type === 'work' ? (
+        <div className="grid grid-cols-2 gap-4">
+          <Input label="Company" value={event.details.company ?? ''} onChange={e => updateDetails('company', e.target.value)} />
+          <Input label="Position" value={event.details.position ?? ''} onChange={e => updateDetails('position', e.target.value)} />
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            label="Institution"
+            value={event.details.institution ?? ''}
+            onChange={e => updateDetails('institution', e.target.value)}
+          />
+          <Input label="Degree" value={event.details.degree ?? ''} onChange={e => updateDetails('degree', e.target.value)} />
+          <Input
+            label="Field of study"
+            value={event.details.fieldOfStudy ?? ''}
+            onChange={e => updateDetails('fieldOfStudy', e.target.value)}
+          />
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <FuzzyDateInput
+          label="Start Date"
+          value={event.startDate}
+          onChange={date => update({ startDate: date ?? '' })}
+          required
+        />
+        <FuzzyDateInput label="End Date" value={event.endDate} onChange={date => update({ endDate: date ?? undefined })} />
+      </div>
+      <Input label="Location" value={event.location ?? ''} onChange={e => update({ location: e.target.value || undefined })} />
+      <Textarea
+        value={event.description ?? ''}
+        onChange={e => update({ description: e.target.value || undefined })}
+        placeholder="Description"
+      />
+    </div>
+  );
+}
+
+/**
+ * Builds a timeline from a LinkedIn data export or a CV. The files or
+ * text are read in the browser into drafts, each of which can be
+ * accepted, edited or discarded before the accepted ones are saved.
+ */
+export function TimelineImporter({ profileId, existingEvents, onImported, onCancel }: TimelineImporterProps) {
+  const [source, setSource] = useState<Source>('linkedin');
+  const [resumeText, setResumeText] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const {
+    drafts,
+    errors,
+    isImporting,
+    readLinkedInFiles,
+    readResume,
+    updateDraft,
+    setStatus,
+    acceptAll,
+    reset,
+    importAccepted,
+  } = useTimelineImport(profileId, existingEvents);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (!files.length) return;
+    const understood = await readLinkedInFiles(files);
+    setMessage(understood ? null : 'Choose Positions.csv or Education.csv from your LinkedIn data export.');
+  };
+
+  const handleResume = () => {
+    const found = readResume(resumeText);
+    setMessage(found ? null : 'No dated jobs or schools were found. Check that each has its dates on one line, like "Jan 2015 – Present".');
+  };
+
+  const handleImport = async () => {
+    const created = await importAccepted();
+    if (created.length) onImported(created);
+  };
+
+  const acceptedCount = drafts.filter(draft => draft.status === 'accepted').length;
+
+  if (!drafts.length) {
+    return (
+      <div className="space-y-4">
+        <div className="flex gap-2" role="tablist">
+          {(['linkedin', 'resume'] as const).map(option => (
+            <Button
+              key={option}
+              role="tab"
+              aria-selected={source === option}
+              variant={source === option ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setSource(option);
+                setMessage(null);
+              }}
+            >
+              {option === 'linkedin' ? 'LinkedIn export' : 'CV or résumé'}
+            </Button>
+          ))}
+        </div>
+
+        {source === 'linkedin' ? (
+          <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed border-gray-300 p-8 text-center text-sm text-gray-600 hover:border-gray-400">
+            <FiUpload className="h-6 w-6" aria-hidden="true" />
+            <span>Choose Positions.csv and Education.csv from your LinkedIn data export</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              multiple
+              className="sr-only"
+              onChange={e => handleFiles(e.target.files)}
+            />
+          </label>
+        ) : (
+          <div className="space-y-2">
+            <Textarea
+              value={resumeText}
+              onChange={e => setResumeText(e.target.value)}
+              placeholder="Paste the text of a CV or résumé"
+              className="min-h-[240px]"
+            />
+            <div className="flex justify-end">
+              <Button onClick={handleResume} disabled={!resumeText.trim()}>
+                Read CV
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">Files and text are read on this device and are not uploaded anywhere.</p>
+        {message && <p className="text-sm text-red-600">{message}</p>}
+        {onCancel && (
+          <div className="flex justify-end">
+            <Button variant="ghost" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Review each item before it is added. {acceptedCount} of {drafts.length} accepted.
+        </p>
+        <Button variant="outline" size="sm" onClick={acceptAll}>
+          Accept all
+        </Button>
+      </div>
+
+      <ul className="max-h-[60vh] space-y-2 overflow-y-auto">
+        {drafts.map(draft => {
+          const problem = draftProblem(draft.event);
+          const place = subtitle(draft.event);
+          return (
+            <li key={draft.key} className={`rounded-lg border p-3 ${STATUS_STYLES[draft.status]}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{draft.event.title || 'Untitled'}</p>
+                  <p className="text-sm text-gray-600">
+                    {[place, draft.event.startDate && formatTimelineDates(draft.event)].filter(Boolean).join(' · ')}
+                  </p>
+                  {draft.duplicateOf && (
+                    <p className="text-xs text-gray-500">Already on the timeline as &ldquo;{draft.duplicateOf}&rdquo;</p>
+                  )}
+                  {problem && <p className="text-xs text-amber-700">{problem}</p>}
+                  {errors[draft.key] && <p className="text-xs text-red-600">{errors[draft.key]}</p>}
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant={draft.status === 'accepted' ? 'primary' : 'outline'}
+                    size="sm"
+                    onClick={() => setStatus(draft.key, draft.status === 'accepted' ? 'pending' : 'accepted')}
+                    disabled={!!problem}
+                    aria-pressed={draft.status === 'accepted'}
+                    aria-label={`Accept ${draft.event.title}`}
+                  >
+                    <FiCheck />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditing(editing === draft.key ? null : draft.key)}
+                    aria-expanded={editing === draft.key}
+                    aria-label={`Edit ${draft.event.title}`}
+                  >
+                    <FiEdit2 />
+                  </Button>
+                  <Button
+                    variant={draft.status === 'discarded' ? 'primary' : 'outline'}
+                    size="sm"
+                    onClick={() => setStatus(draft.key, draft.status === 'discarded' ? 'pending' : 'discarded')}
+                    aria-pressed={draft.status === 'discarded'}
+                    aria-label={`Discard ${draft.event.title}`}
+                  >
+                    <FiTrash2 />
+                  </Button>
+                </div>
+              </div>
+              {editing === draft.key && (
+                <DraftEditor
+                  event={draft.event}
+                  onChange={event => {
+                    updateDraft(draft.key, event);
+                    // An accepted draft that no longer holds up goes back to be reviewed
+                    if (draft.status === 'accepted' && draftProblem(event)) setStatus(draft.key, 'pending');
+                  }}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-between">
+        <Button variant="ghost" onClick={reset} disabled={isImporting}>
+          Start over
+        </Button>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" onClick={onCancel} disabled={isImporting}>
+              Cancel
+            </Button>
+          )}
+          <Button onClick={handleImport} disabled={!acceptedCount || isImporting} isLoading={isImporting}>
+            Add {acceptedCount} {acceptedCount === 1 ? 'event' : 'events'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
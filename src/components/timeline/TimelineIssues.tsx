@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { Icon } from '../ui/Icon';
+import type { MemorialDate } from '@/types/profile';
+import type { TimelineEvent } from '@/types/timeline';
+import { validateTimeline } from '@/utils/timelineValidation';
+
+interface TimelineIssuesProps {
+  events: TimelineEvent[];
+  dateOfBirth?: MemorialDate | null;
+  dateOfDeath?: MemorialDate | null;
+}
+
+/**
+ * Warnings about the timeline being edited: duplicates, impossible dates
+ * and long gaps. Nothing is rendered while there are none.
+ */
+export function TimelineIssues({ events, dateOfBirth, dateOfDeath }: TimelineIssuesProps) {
+  const issues = useMemo(
+    () => validateTimeline(events, { dateOfBirth, dateOfDeath }),
+    [events, dateOfBirth, dateOfDeath]
+  );
+
+  if (!issues.length) return null;
+
+  const blocking = issues.some(issue => issue.blocking);
+
+  return (
+    <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4" role="status">
+      <div className="flex">
+        <Icon name="warning" className="h-5 w-5 flex-shrink-0 text-yellow-400" />
+        <div className="ml-3 text-sm">
+          <h3 className="font-medium text-yellow-800">Check the timeline</h3>
+          <ul className="mt-2 list-disc space-y-1 pl-5 text-yellow-700">
+            {issues.map(issue => (
+              <li key={`${issue.kind}-${issue.eventIds.join('-')}`}>{issue.message}</li>
+            ))}
+          </ul>
+          {blocking && (
+            <p className="mt-2 text-yellow-800">The profile can&apos;t be published until these are fixed, apart from gaps.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
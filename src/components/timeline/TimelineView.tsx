@@ -1,29 +1,37 @@
 import React from 'react';
-import { format } from 'date-fns';
 import { Card } from '../ui/Card';
 import { Icon } from '../ui/Icon';
-import { LifeEvent } from '@/types/profile';
+import { TimelineVisualization } from './TimelineVisualization';
+import type { MemorialDate } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
+import { fuzzyDateYear } from '@/utils/date';
+import { formatTimelineDates, sortTimelineEvents } from '@/utils/timeline';
 
 interface TimelineViewProps {
   orgId?: string;
   profileId?: string;
-  events?: LifeEvent[];
-  onEventClick?: (event: LifeEvent) => void;
+  events?: TimelineEvent[];
+  onEventClick?: (event: TimelineEvent) => void;
+  /** For memorial profiles; the visual timeline shades childhood from it */
+  birthDate?: MemorialDate | null;
+  deathDate?: MemorialDate | null;
 }
 
-export function TimelineView({ orgId, profileId, events, onEventClick }: TimelineViewProps) {
+export function TimelineView({ orgId, profileId, events, onEventClick, birthDate, deathDate }: TimelineViewProps) {
+  const [mode, setMode] = React.useState<'timeline' | 'list'>('timeline');
+
   // Group events by year
   const groupedEvents = React.useMemo(() => {
     if (!events) return {};
     
-    return events.reduce((acc, event) => {
-      const year = new Date(event.startDate).getFullYear();
+    return sortTimelineEvents(events).reduce((acc, event) => {
+      const year = fuzzyDateYear(event.startDate) ?? 0;
       if (!acc[year]) {
         acc[year] = [];
       }
       acc[year].push(event);
       return acc;
-    }, {} as Record<number, LifeEvent[]>);
+    }, {} as Record<number, TimelineEvent[]>);
   }, [events]);
 
   // Sort years in descending order
@@ -41,9 +49,34 @@ export function TimelineView({ orgId, profileId, events, onEventClick }: Timelin
     );
   }
 
+  const modeButton = (value: typeof mode, label: string) => (
+    <button
+      type="button"
+      onClick={() => setMode(value)}
+      aria-pressed={mode === value}
+      className={`px-3 py-1 text-sm font-medium rounded-md ${
+        mode === value ? 'bg-indigo-50 text-indigo-700' : 'text-gray-600 hover:text-gray-900'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
   return (
     <div className="space-y-8">
-      {sortedYears.map((year) => (
+      <div className="flex justify-end gap-1">
+        {modeButton('timeline', 'Timeline')}
+        {modeButton('list', 'List')}
+      </div>
+      {mode === 'timeline' && (
+        <TimelineVisualization
+          events={events}
+          birthDate={birthDate}
+          deathDate={deathDate}
+          onEventClick={onEventClick}
+        />
+      )}
+      {mode === 'list' && sortedYears.map((year) => (
         <div key={year} className="space-y-4">
           <h3 className="text-xl font-semibold text-gray-900">{year}</h3>
           <div className="space-y-4">
@@ -69,8 +102,7 @@ export function TimelineView({ orgId, profileId, events, onEventClick }: Timelin
                   <div className="flex-grow">
                     <h4 className="text-lg font-semibold">{event.title}</h4>
                     <div className="mt-1 text-sm text-gray-500">
-                      {format(new Date(event.startDate), 'MMM yyyy')}
-                      {event.endDate && ` - ${format(new Date(event.endDate), 'MMM yyyy')}`}
+                      {formatTimelineDates(event)}
                     </div>
                     {event.location && (
                       <div className="mt-1 text-sm text-gray-500">
@@ -80,19 +112,23 @@ export function TimelineView({ orgId, profileId, events, onEventClick }: Timelin
                     {event.description && (
                       <p className="mt-2 text-sm text-gray-600">{event.description}</p>
                     )}
-                    {event.metadata && (
+                    {event.type === 'education' && (
                       <div className="mt-2 text-sm text-gray-500">
-                        {event.metadata.institution && (
-                          <div>🏫 {event.metadata.institution}</div>
+                        {event.details.institution && (
+                          <div>🏫 {event.details.institution}</div>
                         )}
-                        {event.metadata.degree && (
-                          <div>🎓 {event.metadata.degree}</div>
+                        {event.details.degree && (
+                          <div>🎓 {event.details.degree}</div>
                         )}
-                        {event.metadata.company && (
-                          <div>🏢 {event.metadata.company}</div>
+                      </div>
+                    )}
+                    {event.type === 'work' && (
+                      <div className="mt-2 text-sm text-gray-500">
+                        {event.details.company && (
+                          <div>🏢 {event.details.company}</div>
                         )}
-                        {event.metadata.position && (
-                          <div>👔 {event.metadata.position}</div>
+                        {event.details.position && (
+                          <div>👔 {event.details.position}</div>
                         )}
                       </div>
                     )}
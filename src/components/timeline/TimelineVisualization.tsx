@@ -0,0 +1,274 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { FiZoomIn, FiZoomOut } from 'react-icons/fi';
+import { Button } from '../ui/Button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { TimelineEventCard } from './TimelineEventCard';
+import { useKeyboardNavigation } from '@/hooks/useKeyboardNavigation';
+import type { MemorialDate } from '@/types/profile';
+import type { TimelineBar, TimelineEraKind, TimelineEvent, TimelineEventType } from '@/types/timeline';
+import { formatTimelineDates } from '@/utils/timeline';
+import { layoutTimeline } from '@/utils/timelineLayout';
+
+interface TimelineVisualizationProps {
+  events: TimelineEvent[];
+  /** Shades childhood and bounds the axis on memorial profiles */
+  birthDate?: MemorialDate | null;
+  deathDate?: MemorialDate | null;
+  onEventClick?: (event: TimelineEvent) => void;
+}
+
+// Pixels per year at each zoom level
+const ZOOM_LEVELS = [6, 12, 24, 48, 96, 192];
+const DEFAULT_ZOOM = 2;
+const ROW_HEIGHT = 28;
+const ERA_ROW_HEIGHT = 24;
+const LANE_LABEL_HEIGHT = 20;
+// Narrowest anything is drawn, so short events stay clickable
+const MIN_BAR_WIDTH = 12;
+
+const LANE_LABELS: Record<TimelineEventType, string> = {
+  education: 'Education',
+  work: 'Work',
+  event: 'Life events',
+};
+
+const LANE_COLORS: Record<TimelineEventType, string> = {
+  education: 'bg-blue-500 hover:bg-blue-600',
+  work: 'bg-green-500 hover:bg-green-600',
+  event: 'bg-purple-500 hover:bg-purple-600',
+};
+
+const ERA_COLORS: Record<TimelineEraKind, string> = {
+  childhood: 'bg-amber-100 text-amber-800',
+  university: 'bg-blue-100 text-blue-800',
+  career: 'bg-green-100 text-green-800',
+};
+
+const tickStep = (pxPerYear: number) => (pxPerYear >= 48 ? 1 : pxPerYear >= 12 ? 5 : 10);
+
+/**
+ * A life at a glance: a horizontal, zoomable timeline with a lane for each
+ * kind of event, durations drawn as bars and the eras of a life shaded
+ * above them. Arrow keys move between events, Enter opens one and + / -
+ * zoom.
+ */
+export function TimelineVisualization({ events, birthDate, deathDate, onEventClick }: TimelineVisualizationProps) {
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [openEvent, setOpenEvent] = useState<TimelineEvent | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const barRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+  // The year in the middle of the view, kept in place across a zoom
+  const zoomCenter = useRef<number | null>(null);
+
+  const pxPerYear = ZOOM_LEVELS[zoom];
+  const layout = useMemo(
+    () => layoutTimeline(events, { birthDate, deathDate, minSpan: MIN_BAR_WIDTH / pxPerYear }),
+    [events, birthDate, deathDate, pxPerYear]
+  );
+
+  const lanes = layout.lanes.filter(lane => lane.bars.length);
+  const eraRows = Math.max(0, ...layout.eras.map(era => era.row + 1));
+  const width = (layout.end - layout.start) * pxPerYear;
+  const x = (year: number) => (year - layout.start) * pxPerYear;
+
+  const changeZoom = (step: number) => {
+    const next = Math.min(ZOOM_LEVELS.length - 1, Math.max(0, zoom + step));
+    if (next === zoom) return;
+    const scroller = scrollRef.current;
+    if (scroller) {
+      zoomCenter.current = layout.start + (scroller.scrollLeft + scroller.clientWidth / 2) / pxPerYear;
+    }
+    setZoom(next);
+  };
+
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (scroller && zoomCenter.current !== null) {
+      scroller.scrollLeft = x(zoomCenter.current) - scroller.clientWidth / 2;
+      zoomCenter.current = null;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pxPerYear]);
+
+  useEffect(() => {
+    if (selectedId) {
+      barRefs.current[selectedId]?.focus();
+      barRefs.current[selectedId]?.scrollIntoView({ block: 'nearest', inline: 'center' });
+    }
+  }, [selectedId]);
+
+  const open = (event: TimelineEvent) => {
+    setSelectedId(event.id);
+    setOpenEvent(event);
+    onEventClick?.(event);
+  };
+
+  const selectedIndex = layout.order.findIndex(bar => bar.event.id === selectedId);
+  const selected = selectedIndex === -1 ? null : layout.order[selectedIndex];
+
+  const moveInTime = (step: number) => {
+    if (!layout.order.length) return;
+    const index = selectedIndex === -1 ? 0 : Math.min(layout.order.length - 1, Math.max(0, selectedIndex + step));
+    setSelectedId(layout.order[index].event.id);
+  };
+
+  // The event in the next lane up or down that is closest in time
+  const moveAcrossLanes = (step: number) => {
+    if (!selected) return moveInTime(0);
+    const laneIndex = lanes.findIndex(lane => lane.type === selected.event.type);
+    const target = lanes[laneIndex + step];
+    if (!target) return;
+    const nearest = target.bars.reduce((best: TimelineBar, bar) =>
+      Math.abs(bar.start - selected.start) < Math.abs(best.start - selected.start) ? bar : best
+    );
+    setSelectedId(nearest.event.id);
+  };
+
+  // Keys are only ours while focus is inside the timeline
+  const whenFocused = (handler: () => void) => (event: KeyboardEvent) => {
+    if (!containerRef.current?.contains(document.activeElement)) return;
+    event.preventDefault();
+    handler();
+  };
+
+  useKeyboardNavigation({
+    ArrowRight: whenFocused(() => moveInTime(1)),
+    ArrowLeft: whenFocused(() => moveInTime(-1)),
+    ArrowDown: whenFocused(() => moveAcrossLanes(1)),
+    ArrowUp: whenFocused(() => moveAcrossLanes(-1)),
+    Home: whenFocused(() => layout.order.length && setSelectedId(layout.order[0].event.id)),
+    End: whenFocused(() => layout.order.length && setSelectedId(layout.order[layout.order.length - 1].event.id)),
+    Enter: whenFocused(() => selected && open(selected.event)),
+    '+': whenFocused(() => changeZoom(1)),
+    '=': whenFocused(() => changeZoom(1)),
+    '-': whenFocused(() => changeZoom(-1)),
+  });
+
+  if (!layout.order.length) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No dated events to show on the timeline
+      </div>
+    );
+  }
+
+  const step = tickStep(pxPerYear);
+  const ticks: number[] = [];
+  for (let year = Math.ceil(layout.start / step) * step; year <= layout.end; year += step) {
+    ticks.push(year);
+  }
+  const tabStop = selected?.event.id ?? layout.order[0].event.id;
+
+  return (
+    <div ref={containerRef} className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          {lanes.map(lane => (
+            <span key={lane.type} className="flex items-center gap-1">
+              <span className={`inline-block h-3 w-3 rounded-full ${LANE_COLORS[lane.type]}`} aria-hidden="true" />
+              {LANE_LABELS[lane.type]}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="sm" onClick={() => changeZoom(-1)} disabled={zoom === 0} aria-label="Zoom out">
+            <FiZoomOut />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => changeZoom(1)}
+            disabled={zoom === ZOOM_LEVELS.length - 1}
+            aria-label="Zoom in"
+          >
+            <FiZoomIn />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+        <div
+          className="relative"
+          style={{ width: Math.max(width, 1) }}
+          role="group"
+          aria-label="Timeline. Use the arrow keys to move between events and Enter to open one."
+        >
+          <div className="relative h-6 border-b border-gray-100 text-xs text-gray-500">
+            {ticks.map(year => (
+              <span key={year} className="absolute top-1 -translate-x-1/2" style={{ left: x(year) }}>
+                {year}
+              </span>
+            ))}
+          </div>
+
+          {eraRows > 0 && (
+            <div className="relative border-b border-gray-100" style={{ height: eraRows * ERA_ROW_HEIGHT }}>
+              {layout.eras.map(era => (
+                <div
+                  key={era.kind}
+                  className={`absolute truncate rounded px-2 text-xs leading-5 ${ERA_COLORS[era.kind]}`}
+                  style={{ left: x(era.start), width: x(era.end) - x(era.start), top: era.row * ERA_ROW_HEIGHT + 2 }}
+                  title={era.label}
+                >
+                  {era.label}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {lanes.map(lane => (
+            <div
+              key={lane.type}
+              className="relative border-b border-gray-100 last:border-0"
+              style={{ height: LANE_LABEL_HEIGHT + lane.rows * ROW_HEIGHT + 4 }}
+            >
+              <span className="sticky left-0 inline-block bg-white/80 px-2 text-xs font-medium text-gray-500">
+                {LANE_LABELS[lane.type]}
+              </span>
+              {lane.bars.map(bar => {
+                const isSelected = bar.event.id === selectedId;
+                const barWidth = Math.max(MIN_BAR_WIDTH, x(bar.end) - x(bar.start));
+                const label = `${bar.event.title}, ${formatTimelineDates(bar.event)}`;
+                return (
+                  <button
+                    key={bar.event.id}
+                    ref={element => {
+                      barRefs.current[bar.event.id] = element;
+                    }}
+                    type="button"
+                    tabIndex={bar.event.id === tabStop ? 0 : -1}
+                    onClick={() => open(bar.event)}
+                    onFocus={() => setSelectedId(bar.event.id)}
+                    className={`absolute h-5 truncate px-1 text-left text-xs text-white focus:outline-none ${
+                      bar.isPoint ? 'rounded-full' : 'rounded'
+                    } ${LANE_COLORS[lane.type]} ${isSelected ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}`}
+                    style={{
+                      left: x(bar.start) - (bar.isPoint ? MIN_BAR_WIDTH / 2 : 0),
+                      width: barWidth,
+                      top: LANE_LABEL_HEIGHT + bar.row * ROW_HEIGHT,
+                    }}
+                    title={label}
+                    aria-label={label}
+                  >
+                    {!bar.isPoint && barWidth > 40 ? bar.event.title : null}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Dialog open={!!openEvent} onOpenChange={isOpen => !isOpen && setOpenEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="sr-only">{openEvent?.title}</DialogTitle>
+          </DialogHeader>
+          {openEvent && <TimelineEventCard event={openEvent} isExpanded />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
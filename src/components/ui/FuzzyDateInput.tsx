@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import type { FuzzyDatePoint, FuzzyDatePrecision } from '@/types/fuzzyDate';
+import { formatFuzzyDate, parseFuzzyDate, serializeFuzzyDate } from '@/utils/date';
+import { Select } from './Select';
+
+interface FuzzyDateInputProps {
+  id?: string;
+  label?: string;
+  /** A stored fuzzy date string; see types/fuzzyDate */
+  value: string | null | undefined;
+  /** Null while the date is empty or not yet complete */
+  onChange: (value: string | null) => void;
+  required?: boolean;
+  error?: string;
+}
+
+interface Draft {
+  precision: FuzzyDatePrecision;
+  start: string;
+  end: string;
+  range: boolean;
+  approximate: boolean;
+}
+
+const PRECISION_OPTIONS = [
+  { value: 'day', label: 'Exact date' },
+  { value: 'month', label: 'Month and year' },
+  { value: 'year', label: 'Year' },
+  { value: 'decade', label: 'Decade' },
+];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// What the browser input for a precision shows: 1923-04-05, 1923-04, 1923 or 1920
+function pointText(point: FuzzyDatePoint, precision: FuzzyDatePrecision): string {
+  const year = pad(point.year, 4);
+  switch (precision) {
+    case 'day':
+      return `${year}-${pad(point.month ?? 1)}-${pad(point.day ?? 1)}`;
+    case 'month':
+      return `${year}-${pad(point.month ?? 1)}`;
+    case 'year':
+      return year;
+    case 'decade':
+      return pad(Math.floor(point.year / 10) * 10, 4);
+  }
+}
+
+function toDraft(value: string | null | undefined): Draft {
+  const parsed = parseFuzzyDate(value);
+  if (!parsed) return { precision: 'day', start: '', end: '', range: false, approximate: false };
+  const precision = parsed.start.precision;
+  return {
+    precision,
+    start: pointText(parsed.start, precision),
+    end: parsed.end ? pointText(parsed.end, precision) : '',
+    range: !!parsed.end,
+    approximate: parsed.start.approximate,
+  };
+}
+
+function toPoint(text: string, precision: FuzzyDatePrecision, approximate: boolean): FuzzyDatePoint | null {
+  const [year, month, day] = text.split('-').map(Number);
+  if (!text || Number.isNaN(year)) return null;
+  return {
+    precision,
+    year: precision === 'decade' ? Math.floor(year / 10) * 10 : year,
+    month: precision === 'day' || precision === 'month' ? month : undefined,
+    day: precision === 'day' ? day : undefined,
+    approximate,
+  };
+}
+
+function fromDraft(draft: Draft): string | null {
+  const start = toPoint(draft.start, draft.precision, draft.approximate);
+  if (!start) return null;
+  const end = draft.range ? toPoint(draft.end, draft.precision, draft.approximate) : undefined;
+  if (end === null) return null;
+  const text = serializeFuzzyDate({ start, end });
+  // Goes through the parser so impossible days and backwards ranges are dropped
+  const parsed = parseFuzzyDate(text);
+  return parsed && serializeFuzzyDate(parsed);
+}
+
+/**
+ * Date field for when only part of a date is known: an exact day, a month,
+ * a year or a decade, optionally "circa" or a range between two of them.
+ */
+export function FuzzyDateInput({ id, label, value, onChange, required, error }: FuzzyDateInputProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(value));
+
+  // Follow changes made outside the field, such as a form reset
+  useEffect(() => {
+    if ((value || null) !== fromDraft(draft)) setDraft(toDraft(value));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value]);
+
+  const update = (changes: Partial<Draft>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onChange(fromDraft(next));
+  };
+
+  // Keeps what was typed when switching precision, as far as it still fits
+  const changePrecision = (precision: FuzzyDatePrecision) => {
+    const convert = (text: string) => {
+      const point = toPoint(text, draft.precision, false);
+      return point ? pointText({ ...point, month: point.month ?? 1, day: point.day ?? 1 }, precision) : '';
+    };
+    update({ precision, start: convert(draft.start), end: convert(draft.end) });
+  };
+
+  const renderPoint = (text: string, onText: (text: string) => void, ariaLabel: string) => {
+    const className = `block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ${
+      error ? 'ring-red-500' : 'ring-gray-300'
+    } focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6`;
+
+    switch (draft.precision) {
+      case 'day':
+        return <input type="date" aria-label={ariaLabel} value={text} onChange={e => onText(e.target.value)} className={className} />;
+      case 'month':
+        return <input type="month" aria-label={ariaLabel} value={text} onChange={e => onText(e.target.value)} className={className} />;
+      case 'year':
+      case 'decade':
+        return (
+          <input
+            type="number"
+            aria-label={ariaLabel}
+            min={1}
+            max={9999}
+            step={draft.precision === 'decade' ? 10 : 1}
+            placeholder={draft.precision === 'decade' ? '1920' : '1923'}
+            value={text}
+            onChange={e => onText(e.target.value)}
+            className={className}
+          />
+        );
+    }
+  };
+
+  const preview = formatFuzzyDate(value);
+
+  return (
+    <div className="mb-4 space-y-2">
+      {label && (
+        <label htmlFor={id} className="block text-sm font-medium leading-6 text-gray-900">
+          {label} {required && <span className="text-red-500">*</span>}
+        </label>
+      )}
+      <Select
+        id={id}
+        options={PRECISION_OPTIONS}
+        value={draft.precision}
+        onChange={precision => changePrecision(precision as FuzzyDatePrecision)}
+      />
+      <div className="flex items-center gap-2">
+        {renderPoint(draft.start, start => update({ start }), draft.range ? 'From' : label ?? 'Date')}
+        {draft.range && (
+          <>
+            <span className="text-sm text-gray-500">to</span>
+            {renderPoint(draft.end, end => update({ end }), 'To')}
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={draft.approximate}
+            onChange={e => update({ approximate: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600"
+          />
+          Circa
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={draft.range}
+            onChange={e => update({ range: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600"
+          />
+          Between two dates
+        </label>
+        {preview && <span className="text-gray-500">{preview}</span>}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { collection, query, where, getDocs, orderBy, limit, doc, updateDoc, writeBatch } from 'firebase/firestore';
+import { collection, query, where, getDocs, orderBy, limit, doc, updateDoc } from 'firebase/firestore';
 import { getFirebaseServices } from '@/lib/firebase';
 import { Card } from './Card';
 import { Button } from './Button';
@@ -8,6 +8,10 @@ import { Icon } from './Icon';
 import { Spinner } from './Spinner';
 import { Badge } from './Badge';
 import { useToast } from './toast';
+import { useAuth } from '@/hooks/useAuth';
+import { publishMemorial, archiveMemorial } from '@/shared/services/memorials';
+import { versionActorFromUser } from '@/services/versionService';
+import { auditActorFromUser } from '@/services/auditLogService';
 
 interface Memorial {
   id: string;
@@ -34,6 +38,7 @@ export function MemorialList({ universityId, onUpdate }: MemorialListProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedMemorials, setSelectedMemorials] = useState<string[]>([]);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   useEffect(() => {
     loadMemorials();
@@ -94,24 +99,47 @@ export function MemorialList({ universityId, onUpdate }: MemorialListProps) {
     );
   };
 
-  const handleStatusChange = async (memorialId: string, newStatus: Memorial['status']) => {
-    try {
+  // Publishing goes through the memorial service so it is approved and
+  // snapshotted into the history. Resolves to false when it is waiting for approval.
+  const applyStatus = async (memorialId: string, newStatus: Memorial['status']): Promise<boolean> => {
+    if (!user) {
+      throw new Error('You must be signed in to change a memorial');
+    }
+    if (newStatus === 'published') {
+      return (await publishMemorial(memorialId, versionActorFromUser(user))) === 'published';
+    } else if (newStatus === 'archived') {
+      await archiveMemorial(memorialId, auditActorFromUser(user));
+    } else {
       const { db } = await getFirebaseServices();
       if (!db) {
         throw new Error('Database is not initialized');
       }
-
-      const memorialRef = doc(db, 'memorials', memorialId);
-      await updateDoc(memorialRef, {
+      await updateDoc(doc(db, 'memorials', memorialId), {
         status: newStatus,
         updatedAt: new Date()
       });
+    }
+    return true;
+  };
 
-      toast({
-        title: 'Status updated',
-        description: 'Memorial status has been updated successfully.',
-        variant: 'success'
-      });
+  const awaitingApprovalToast = (count: number) => toast({
+    title: 'Approval needed',
+    description: count === 1
+      ? 'The memorial has been sent for approval and will be published once it is approved.'
+      : `${count} memorials are waiting for approval and will be published once they are approved.`,
+  });
+
+  const handleStatusChange = async (memorialId: string, newStatus: Memorial['status']) => {
+    try {
+      if (await applyStatus(memorialId, newStatus)) {
+        toast({
+          title: 'Status updated',
+          description: 'Memorial status has been updated successfully.',
+          variant: 'success'
+        });
+      } else {
+        awaitingApprovalToast(1);
+      }
 
       await loadMemorials();
     } catch (err) {
@@ -126,27 +154,22 @@ export function MemorialList({ universityId, onUpdate }: MemorialListProps) {
 
   const handleBulkStatusChange = async (newStatus: Memorial['status']) => {
     try {
-      const { db } = await getFirebaseServices();
-      if (!db) {
-        throw new Error('Database is not initialized');
+      let awaitingApproval = 0;
+      for (const memorialId of selectedMemorials) {
+        if (!(await applyStatus(memorialId, newStatus))) {
+          awaitingApproval++;
+        }
       }
 
-      const batch = writeBatch(db);
-      selectedMemorials.forEach(memorialId => {
-        const memorialRef = doc(db, 'memorials', memorialId);
-        batch.update(memorialRef, {
-          status: newStatus,
-          updatedAt: new Date()
+      if (awaitingApproval) {
+        awaitingApprovalToast(awaitingApproval);
+      } else {
+        toast({
+          title: 'Status updated',
+          description: 'Selected memorials have been updated successfully.',
+          variant: 'success'
         });
-      });
-
-      await batch.commit();
-
-      toast({
-        title: 'Status updated',
-        description: 'Selected memorials have been updated successfully.',
-        variant: 'success'
-      });
+      }
 
       await loadMemorials();
       setSelectedMemorials([]);
@@ -1,110 +1,62 @@
-import { useState } from 'react';
-import { doc, updateDoc } from 'firebase/firestore';
-import { getFirebaseServices } from '@/lib/firebase';
+import { useState, useEffect } from 'react';
 import { Card } from './Card';
 import { Switch } from './Switch';
 import { Input } from './Input';
 import { useToast } from './toast';
-
-interface UniversitySettings {
-  allowPublicProfiles: boolean;
-  requireApproval: boolean;
-  allowComments: boolean;
-  allowSharing: boolean;
-  allowMemorials: boolean;
-  allowDonations: boolean;
-  maxProfilesPerUser: number;
-  maxMemorialsPerUser: number;
-  notificationEmail: string;
-  customDomain?: string;
-}
+import { useAuth } from '@/hooks/useAuth';
+import { auditActorFromUser } from '@/services/auditLogService';
+import { universitySettingsService } from '@/services/universitySettings';
+import { DEFAULT_UNIVERSITY_SETTINGS, UniversitySettings } from '@/types/university';
 
 interface SettingsProps {
   universityId: string;
-  initialSettings: UniversitySettings;
-  onUpdate: () => void;
+  /** Loaded from the university when not given */
+  initialSettings?: UniversitySettings;
+  onUpdate?: () => void;
 }
 
+type BooleanSetting = {
+  [K in keyof UniversitySettings]-?: UniversitySettings[K] extends boolean ? K : never;
+}[keyof UniversitySettings];
+
 export function Settings({ universityId, initialSettings, onUpdate }: SettingsProps) {
-  const [settings, setSettings] = useState<UniversitySettings>(initialSettings);
-  const [loading, setLoading] = useState(false);
+  const [settings, setSettings] = useState<UniversitySettings>(initialSettings ?? DEFAULT_UNIVERSITY_SETTINGS);
+  const [notificationEmail, setNotificationEmail] = useState(settings.notificationEmail);
+  const [loading, setLoading] = useState(!initialSettings);
+  const { user } = useAuth();
   const { toast } = useToast();
 
-  const handleToggle = async (key: keyof UniversitySettings) => {
-    if (loading) return;
-    
-    try {
-      setLoading(true);
-      const { db } = await getFirebaseServices();
-      if (!db) {
-        throw new Error('Database is not initialized');
-      }
-
-      const newValue = !settings[key];
-      const universityRef = doc(db, 'universities', universityId);
-      await updateDoc(universityRef, {
-        [`settings.${key}`]: newValue
-      });
+  useEffect(() => {
+    if (initialSettings) return;
+    universitySettingsService.getSettings(universityId)
+      .then(loaded => {
+        setSettings(loaded);
+        setNotificationEmail(loaded.notificationEmail);
+      })
+      .catch(err => console.error('Error loading settings:', err))
+      .finally(() => setLoading(false));
+  }, [universityId, initialSettings]);
 
-      setSettings(prev => ({
-        ...prev,
-        [key]: newValue
-      }));
-
-      toast({
-        title: 'Settings updated',
-        description: 'University settings have been updated successfully.',
-        variant: 'success'
-      });
-
-      onUpdate();
-    } catch (err) {
-      console.error('Error updating settings:', err);
-      toast({
-        title: 'Error',
-        description: 'Failed to update settings. Please try again.',
-        variant: 'destructive'
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleNumberChange = async (key: keyof UniversitySettings, value: string) => {
-    if (loading) return;
-    
-    const numValue = parseInt(value, 10);
-    if (isNaN(numValue) || numValue < 0) return;
+  const save = async (changes: Partial<UniversitySettings>, description: string) => {
+    if (loading || !user) return;
 
     try {
       setLoading(true);
-      const { db } = await getFirebaseServices();
-      if (!db) {
-        throw new Error('Database is not initialized');
-      }
-
-      const universityRef = doc(db, 'universities', universityId);
-      await updateDoc(universityRef, {
-        [`settings.${key}`]: numValue
-      });
-
-      setSettings(prev => ({
-        ...prev,
-        [key]: numValue
-      }));
+      const saved = await universitySettingsService.updateSettings(universityId, changes, auditActorFromUser(user));
+      setSettings(saved);
 
       toast({
         title: 'Settings updated',
-        description: 'University settings have been updated successfully.',
+        description,
         variant: 'success'
       });
 
-      onUpdate();
+      onUpdate?.();
     } catch (err) {
       console.error('Error updating settings:', err);
       toast({
         title: 'Error',
-        description: 'Failed to update settings. Please try again.',
+        description: err instanceof Error ? err.message : 'Failed to update settings. Please try again.',
         variant: 'destructive'
       });
     } finally {
@@ -112,43 +64,18 @@ export function Settings({ universityId, initialSettings, onUpdate }: SettingsPr
     }
   };
 
-  const handleEmailChange = async (value: string) => {
-    if (loading) return;
-    
-    try {
-      setLoading(true);
-      const { db } = await getFirebaseServices();
-      if (!db) {
-        throw new Error('Database is not initialized');
-      }
-
-      const universityRef = doc(db, 'universities', universityId);
-      await updateDoc(universityRef, {
-        'settings.notificationEmail': value
-      });
-
-      setSettings(prev => ({
-        ...prev,
-        notificationEmail: value
-      }));
+  const handleToggle = (key: BooleanSetting) =>
+    save({ [key]: !settings[key] }, 'University settings have been updated successfully.');
 
-      toast({
-        title: 'Settings updated',
-        description: 'Notification email has been updated successfully.',
-        variant: 'success'
-      });
+  const handleNumberChange = (key: 'maxProfilesPerUser' | 'maxMemorialsPerUser', value: string) => {
+    const numValue = parseInt(value, 10);
+    if (isNaN(numValue) || numValue < 0) return;
+    return save({ [key]: numValue }, 'University settings have been updated successfully.');
+  };
 
-      onUpdate();
-    } catch (err) {
-      console.error('Error updating notification email:', err);
-      toast({
-        title: 'Error',
-        description: 'Failed to update notification email. Please try again.',
-        variant: 'destructive'
-      });
-    } finally {
-      setLoading(false);
-    }
+  const handleEmailSave = () => {
+    if (notificationEmail.trim() === settings.notificationEmail) return;
+    return save({ notificationEmail }, 'Notification email has been updated successfully.');
   };
 
   return (
@@ -259,7 +186,8 @@ export function Settings({ universityId, initialSettings, onUpdate }: SettingsPr
 
       <Card>
         <div className="p-6">
-          <h2 className="text-lg font-semibold mb-4">Limits</h2>
+          <h2 className="text-lg font-semibold mb-1">Limits</h2>
+          <p className="text-sm text-gray-500 mb-4">Set a limit to 0 to allow any number</p>
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700">
@@ -302,14 +230,15 @@ export function Settings({ universityId, initialSettings, onUpdate }: SettingsPr
               </label>
               <Input
                 type="email"
-                value={settings.notificationEmail}
-                onChange={(e) => handleEmailChange(e.target.value)}
+                value={notificationEmail}
+                onChange={(e) => setNotificationEmail(e.target.value)}
+                onBlur={handleEmailSave}
                 className="mt-1"
                 placeholder="notifications@university.edu"
                 disabled={loading}
               />
               <p className="mt-1 text-sm text-gray-500">
-                Email address for receiving notifications
+                Email address for receiving notifications. Saved when you leave the field.
               </p>
             </div>
           </div>
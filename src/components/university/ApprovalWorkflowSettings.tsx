@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/hooks/useAuth';
+import { approvalWorkflowService, validateWorkflowStages } from '@/services/approvalWorkflow';
+import { ALLOWED_ROLES, AllowedRole } from '@/types/permission';
+import { WorkflowStage } from '@/types/workflow';
+import { toast } from 'react-hot-toast';
+
+interface ApprovalWorkflowSettingsProps {
+  universityId: string;
+}
+
+export function ApprovalWorkflowSettings({ universityId }: ApprovalWorkflowSettingsProps) {
+  const { user } = useAuth();
+  const [stages, setStages] = useState<WorkflowStage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const config = await approvalWorkflowService.getWorkflowConfig(universityId);
+        setStages(config.stages);
+      } catch (error) {
+        console.error('Error loading approval workflow:', error);
+        toast.error('Failed to load approval workflow');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadConfig();
+  }, [universityId]);
+
+  const updateStage = (index: number, changes: Partial<WorkflowStage>) => {
+    setStages(prev => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const toggleRole = (index: number, role: AllowedRole) => {
+    const roles = stages[index].reviewerRoles;
+    updateStage(index, {
+      reviewerRoles: roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role],
+    });
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+    setStages(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addStage = () => {
+    setStages(prev => [
+      ...prev,
+      { id: `stage_${Date.now()}`, name: '', reviewerRoles: ['admin'], slaHours: 48 },
+    ]);
+  };
+
+  const removeStage = (index: number) => {
+    setStages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validationError = validateWorkflowStages(stages);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await approvalWorkflowService.saveWorkflowConfig(universityId, stages);
+      toast.success('Approval workflow saved');
+    } catch (error) {
+      console.error('Error saving approval workflow:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save approval workflow');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading approval workflow...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Approval Workflow</h3>
+        <p className="text-sm text-gray-500">
+          Submissions pass through these stages in order. A stage is flagged once it waits longer than its SLA.
+        </p>
+      </div>
+
+      {stages.map((stage, index) => (
+        <div key={stage.id} className="rounded-lg border border-gray-200 p-4 space-y-3">
+          <div className="flex items-start gap-3">
+            <span className="mt-2 text-sm font-medium text-gray-500">{index + 1}.</span>
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-[1fr_8rem] gap-3">
+              <Input
+                id={`stage-name-${stage.id}`}
+                label="Stage name"
+                value={stage.name}
+                onChange={(e) => updateStage(index, { name: e.target.value })}
+              />
+              <Input
+                id={`stage-sla-${stage.id}`}
+                label="SLA (hours)"
+                type="number"
+                min={1}
+                value={stage.slaHours}
+                onChange={(e) => updateStage(index, { slaHours: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="text-gray-700">Reviewer roles:</span>
+            {ALLOWED_ROLES.map(role => (
+              <label key={role} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={stage.reviewerRoles.includes(role)}
+                  onChange={() => toggleRole(index, role)}
+                />
+                {role}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => moveStage(index, -1)} disabled={index === 0}>
+              Move up
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1}>
+              Move down
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => removeStage(index)} disabled={stages.length === 1}>
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={addStage}>
+          Add stage
+        </Button>
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save workflow'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
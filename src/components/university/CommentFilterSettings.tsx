@@ -0,0 +1,346 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  commentFilterService,
+  DEFAULT_COMMENT_FILTER_CONFIG,
+  evaluateCommentFilter,
+  validateCommentFilterConfig,
+} from '@/services/commentFilter';
+import {
+  CommentFilterConfig,
+  CommentFilterOutcome,
+  CommentFilterResult,
+  CommentRegexRule,
+  CommentWordListRule,
+} from '@/types/commentFilter';
+import { toast } from 'react-hot-toast';
+
+interface CommentFilterSettingsProps {
+  universityId: string;
+}
+
+type EditableConfig = Omit<CommentFilterConfig, 'universityId' | 'updatedAt' | 'updatedBy'>;
+
+const OUTCOME_OPTIONS: { value: CommentFilterOutcome; label: string }[] = [
+  { value: 'allow', label: 'Allow' },
+  { value: 'hold', label: 'Hold for review' },
+  { value: 'reject', label: 'Reject' },
+];
+
+const OUTCOME_STYLES: Record<CommentFilterOutcome, string> = {
+  allow: 'text-green-700',
+  hold: 'text-yellow-700',
+  reject: 'text-red-700',
+};
+
+const parseWords = (value: string) => value.split(/[\n,]/).map(word => word.trim()).filter(Boolean);
+
+export function CommentFilterSettings({ universityId }: CommentFilterSettingsProps) {
+  const { user } = useAuth();
+  const [config, setConfig] = useState<EditableConfig>(DEFAULT_COMMENT_FILTER_CONFIG);
+  // Word lists are edited as raw text so separators can be typed freely
+  const [wordDrafts, setWordDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sampleText, setSampleText] = useState('');
+  const [testResult, setTestResult] = useState<CommentFilterResult | null>(null);
+
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const { universityId: _id, updatedAt: _at, updatedBy: _by, ...loaded } = await commentFilterService.getConfig(universityId);
+        setConfig(loaded);
+        setWordDrafts(Object.fromEntries(loaded.wordLists.map(list => [list.id, list.words.join(', ')])));
+      } catch (error) {
+        console.error('Error loading comment filter:', error);
+        toast.error('Failed to load comment filter');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadConfig();
+  }, [universityId]);
+
+  // Apply the raw word-list text before validating, testing or saving
+  const currentConfig = (): EditableConfig => ({
+    ...config,
+    wordLists: config.wordLists.map(list => ({ ...list, words: parseWords(wordDrafts[list.id] ?? '') })),
+  });
+
+  const updateWordList = (index: number, changes: Partial<CommentWordListRule>) => {
+    setConfig(prev => ({
+      ...prev,
+      wordLists: prev.wordLists.map((list, i) => (i === index ? { ...list, ...changes } : list)),
+    }));
+  };
+
+  const updateRegexRule = (index: number, changes: Partial<CommentRegexRule>) => {
+    setConfig(prev => ({
+      ...prev,
+      regexRules: prev.regexRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const addWordList = () => {
+    const id = `words_${Date.now()}`;
+    setConfig(prev => ({ ...prev, wordLists: [...prev.wordLists, { id, name: '', words: [], outcome: 'hold' }] }));
+    setWordDrafts(prev => ({ ...prev, [id]: '' }));
+  };
+
+  const addRegexRule = () => {
+    setConfig(prev => ({
+      ...prev,
+      regexRules: [...prev.regexRules, { id: `pattern_${Date.now()}`, name: '', pattern: '', outcome: 'hold' }],
+    }));
+  };
+
+  const handleTest = () => {
+    const draft = currentConfig();
+    const validationError = validateCommentFilterConfig(draft);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    setTestResult(evaluateCommentFilter(sampleText, draft));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const draft = currentConfig();
+    const validationError = validateCommentFilterConfig(draft);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await commentFilterService.saveConfig(universityId, draft, user.id);
+      toast.success('Comment filter saved');
+    } catch (error) {
+      console.error('Error saving comment filter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save comment filter');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading comment filter...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Comment Filter</h3>
+          <p className="text-sm text-gray-500">
+            New comments are checked against these rules before they are stored. Held comments wait in the moderation queue.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => setConfig(prev => ({ ...prev, enabled: e.target.checked }))}
+          />
+          Enabled
+        </label>
+      </div>
+
+      <section className="space-y-3">
+        <h4 className="font-medium text-gray-900">Word lists</h4>
+        {config.wordLists.map((list, index) => (
+          <div key={list.id} className="rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_12rem] gap-3">
+              <Input
+                id={`word-list-name-${list.id}`}
+                label="Name"
+                value={list.name}
+                onChange={(e) => updateWordList(index, { name: e.target.value })}
+              />
+              <div>
+                <label className="block text-sm font-medium leading-6 text-gray-900 mb-1">Outcome</label>
+                <Select
+                  value={list.outcome}
+                  onChange={(value) => updateWordList(index, { outcome: value as CommentFilterOutcome })}
+                  options={OUTCOME_OPTIONS}
+                />
+              </div>
+            </div>
+            <Textarea
+              value={wordDrafts[list.id] ?? ''}
+              onChange={(e) => setWordDrafts(prev => ({ ...prev, [list.id]: e.target.value }))}
+              placeholder="Words or phrases, separated by commas or new lines"
+              rows={2}
+            />
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfig(prev => ({ ...prev, wordLists: prev.wordLists.filter((_, i) => i !== index) }))}
+              >
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addWordList}>
+          Add word list
+        </Button>
+      </section>
+
+      <section className="space-y-3">
+        <h4 className="font-medium text-gray-900">Pattern rules</h4>
+        {config.regexRules.map((rule, index) => (
+          <div key={rule.id} className="rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_5rem_12rem] gap-3">
+              <Input
+                id={`pattern-name-${rule.id}`}
+                label="Name"
+                value={rule.name}
+                onChange={(e) => updateRegexRule(index, { name: e.target.value })}
+              />
+              <Input
+                id={`pattern-${rule.id}`}
+                label="Regular expression"
+                value={rule.pattern}
+                onChange={(e) => updateRegexRule(index, { pattern: e.target.value })}
+              />
+              <Input
+                id={`pattern-flags-${rule.id}`}
+                label="Flags"
+                value={rule.flags ?? 'i'}
+                onChange={(e) => updateRegexRule(index, { flags: e.target.value })}
+              />
+              <div>
+                <label className="block text-sm font-medium leading-6 text-gray-900 mb-1">Outcome</label>
+                <Select
+                  value={rule.outcome}
+                  onChange={(value) => updateRegexRule(index, { outcome: value as CommentFilterOutcome })}
+                  options={OUTCOME_OPTIONS}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfig(prev => ({ ...prev, regexRules: prev.regexRules.filter((_, i) => i !== index) }))}
+              >
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addRegexRule}>
+          Add pattern rule
+        </Button>
+      </section>
+
+      <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-900">Links</h4>
+          <Input
+            id="link-limit"
+            label="Maximum links per comment"
+            type="number"
+            min={0}
+            value={config.linkLimit.maxLinks}
+            onChange={(e) => setConfig(prev => ({ ...prev, linkLimit: { ...prev.linkLimit, maxLinks: Number(e.target.value) } }))}
+          />
+          <Select
+            value={config.linkLimit.outcome}
+            onChange={(value) => setConfig(prev => ({ ...prev, linkLimit: { ...prev.linkLimit, outcome: value as CommentFilterOutcome } }))}
+            options={OUTCOME_OPTIONS}
+          />
+        </div>
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-900">Spam</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              id="spam-max-comments"
+              label="Comments allowed"
+              type="number"
+              min={1}
+              value={config.spam.maxCommentsPerWindow}
+              onChange={(e) => setConfig(prev => ({ ...prev, spam: { ...prev.spam, maxCommentsPerWindow: Number(e.target.value) } }))}
+            />
+            <Input
+              id="spam-window"
+              label="Per minutes"
+              type="number"
+              min={1}
+              value={config.spam.windowMinutes}
+              onChange={(e) => setConfig(prev => ({ ...prev, spam: { ...prev.spam, windowMinutes: Number(e.target.value) } }))}
+            />
+          </div>
+          <Input
+            id="spam-duplicate-window"
+            label="Repeated text window (hours)"
+            type="number"
+            min={0}
+            value={config.spam.duplicateWindowHours}
+            onChange={(e) => setConfig(prev => ({ ...prev, spam: { ...prev.spam, duplicateWindowHours: Number(e.target.value) } }))}
+          />
+          <Select
+            value={config.spam.outcome}
+            onChange={(value) => setConfig(prev => ({ ...prev, spam: { ...prev.spam, outcome: value as CommentFilterOutcome } }))}
+            options={OUTCOME_OPTIONS}
+          />
+        </div>
+      </section>
+
+      <section className="space-y-3 rounded-lg bg-gray-50 p-4">
+        <h4 className="font-medium text-gray-900">Test rules</h4>
+        <p className="text-sm text-gray-500">
+          Checks the unsaved rules against sample text. Spam limits depend on an author&apos;s history and aren&apos;t tested here.
+        </p>
+        <Textarea
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          placeholder="Paste a sample comment"
+          rows={3}
+        />
+        <div className="flex items-center justify-between">
+          {testResult ? (
+            <div className="text-sm">
+              <span className={`font-medium ${OUTCOME_STYLES[testResult.outcome]}`}>
+                {OUTCOME_OPTIONS.find(option => option.value === testResult.outcome)?.label}
+              </span>
+              {testResult.matches.length > 0 && (
+                <ul className="mt-1 space-y-1 text-gray-600">
+                  {testResult.matches.map(match => (
+                    <li key={match.ruleId}>
+                      {match.ruleName || 'Unnamed rule'}: {match.detail}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <span />
+          )}
+          <Button variant="outline" size="sm" onClick={handleTest} disabled={!sampleText.trim()}>
+            Test
+          </Button>
+        </div>
+      </section>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save filter'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { customDomainService, CustomDomainState } from '@/services/customDomains';
+import { toast } from 'react-hot-toast';
+
+interface CustomDomainSettingsProps {
+  universityId: string;
+}
+
+export function CustomDomainSettings({ universityId }: CustomDomainSettingsProps) {
+  const [state, setState] = useState<CustomDomainState | null>(null);
+  const [domainInput, setDomainInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  const loadState = useCallback(async () => {
+    try {
+      setState(await customDomainService.getState(universityId));
+    } catch (error) {
+      console.error('Error loading custom domain:', error);
+      toast.error('Failed to load custom domain');
+    } finally {
+      setLoading(false);
+    }
+  }, [universityId]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setWorking(true);
+    try {
+      await action();
+      await loadState();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleAdd = () =>
+    run(async () => {
+      await customDomainService.requestVerification(universityId, domainInput);
+      setDomainInput('');
+      toast.success('Add the TXT record below to your DNS, then verify');
+    }, 'Failed to add domain');
+
+  const handleVerify = () =>
+    run(async () => {
+      const check = await customDomainService.verify(universityId);
+      if (check.verified) {
+        toast.success(`${check.domain} now serves your university's pages`);
+      } else {
+        toast.error(check.failureReason || 'The TXT record was not found yet');
+      }
+    }, 'Failed to verify domain');
+
+  const handleRemove = () => {
+    if (!window.confirm('Stop serving your university on its custom domain?')) return;
+    run(async () => {
+      await customDomainService.remove(universityId);
+      toast.success('Custom domain removed');
+    }, 'Failed to remove domain');
+  };
+
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('Copied');
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading custom domain...</div>;
+  }
+
+  const pending = state?.verification?.status === 'pending' ? state.verification : null;
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Custom Domain</h3>
+        <p className="text-sm text-gray-500">
+          Serve your alumni site on your own domain, such as alumni.example.edu. Point the domain at this site
+          with your DNS provider, then prove you control it with a TXT record.
+        </p>
+      </div>
+
+      {state?.domain && (
+        <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 p-4">
+          <div>
+            <p className="text-sm font-medium text-green-800">{state.domain}</p>
+            <p className="text-sm text-green-700">
+              Verified{state.verification?.verifiedAt && ` on ${state.verification.verifiedAt.toLocaleDateString()}`}.
+              Share links and canonical links use this domain.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRemove} disabled={working}>
+            Remove
+          </Button>
+        </div>
+      )}
+
+      {pending && state?.record && (
+        <section className="space-y-3">
+          <h4 className="font-medium">Verify {pending.domain}</h4>
+          <p className="text-sm text-gray-500">
+            Add this TXT record with your DNS provider. Changes can take a while to appear.
+          </p>
+          <dl className="grid grid-cols-[auto_1fr_auto] items-center gap-x-3 gap-y-2 text-sm">
+            <dt className="text-gray-500">Name</dt>
+            <dd className="font-mono break-all">{state.record.name}</dd>
+            <Button variant="outline" size="sm" onClick={() => copy(state.record!.name)}>Copy</Button>
+            <dt className="text-gray-500">Value</dt>
+            <dd className="font-mono break-all">{state.record.value}</dd>
+            <Button variant="outline" size="sm" onClick={() => copy(state.record!.value)}>Copy</Button>
+          </dl>
+          {pending.failureReason && (
+            <p className="text-sm text-red-600">
+              {pending.failureReason}
+              {pending.lastCheckedAt && ` (checked ${pending.lastCheckedAt.toLocaleString()})`}
+            </p>
+          )}
+          <Button onClick={handleVerify} disabled={working}>
+            {working ? 'Checking...' : 'Verify'}
+          </Button>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          {state?.domain || pending ? 'Use a different domain' : 'Domain'}
+        </label>
+        <div className="flex gap-2">
+          <Input
+            value={domainInput}
+            onChange={(e) => setDomainInput(e.target.value)}
+            placeholder="alumni.example.edu"
+            disabled={working}
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={working || !domainInput.trim()}>
+            Add domain
+          </Button>
+        </div>
+        {state?.domain && (
+          <p className="text-sm text-gray-500">{state.domain} stays in use until the new domain is verified.</p>
+        )}
+      </section>
+    </Card>
+  );
+}
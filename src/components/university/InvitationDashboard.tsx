@@ -0,0 +1,361 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+import { Badge } from '@/components/ui/Badge';
+import { Icon } from '@/components/ui/Icon';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/Dialog';
+import { useToast } from '@/components/ui/toast';
+import { useAuth } from '@/hooks/useAuth';
+import { auditActorFromUser } from '@/services/auditLogService';
+import {
+  INVITATION_ROLES,
+  bulkCreateInvitations,
+  createInvitation,
+  expireInvitations,
+  getUniversityInvitations,
+  isInvitationExpired,
+  resendInvitation,
+  revokeInvitation,
+  summarizeInvitations,
+} from '@/shared/services/invitations';
+import {
+  BulkInvitationRowResult,
+  InvitationRole,
+  InvitationStatus,
+  MemorialInvitation,
+} from '@/types';
+
+interface InvitationDashboardProps {
+  universityId: string;
+}
+
+const STATUS_BADGES: Record<InvitationStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' | 'success' }> = {
+  pending: { label: 'Pending', variant: 'secondary' },
+  accepted: { label: 'Accepted', variant: 'success' },
+  expired: { label: 'Expired', variant: 'outline' },
+  revoked: { label: 'Revoked', variant: 'destructive' },
+};
+
+const ROLE_OPTIONS = INVITATION_ROLES.map(role => ({ value: role, label: role }));
+
+export function InvitationDashboard({ universityId }: InvitationDashboardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<MemorialInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<InvitationRole>('contributor');
+  const [creating, setCreating] = useState(false);
+  const [csv, setCsv] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importResults, setImportResults] = useState<BulkInvitationRowResult[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<MemorialInvitation | null>(null);
+  const [revokeReason, setRevokeReason] = useState('');
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      // Catch up on expiries the hourly sweeper hasn't reached yet
+      await expireInvitations(universityId);
+      setInvitations(await getUniversityInvitations(universityId));
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load invitations',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [universityId, toast]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const stats = summarizeInvitations(invitations);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !email.trim()) return;
+
+    setCreating(true);
+    try {
+      await createInvitation(universityId, auditActorFromUser(user), email, role);
+      setEmail('');
+      toast({ title: 'Success', description: `Invitation sent to ${email.trim()}` });
+      await loadInvitations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create invitation',
+        variant: 'destructive'
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !csv.trim()) return;
+
+    setImporting(true);
+    setImportResults(null);
+    try {
+      const results = await bulkCreateInvitations(universityId, auditActorFromUser(user), csv);
+      setImportResults(results);
+      const created = results.filter(result => result.status === 'created').length;
+      toast({ title: 'Import finished', description: `${created} of ${results.length} invitations created` });
+      await loadInvitations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import invitations',
+        variant: 'destructive'
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleResend = async (invitation: MemorialInvitation) => {
+    if (!user) return;
+
+    setBusyId(invitation.id);
+    try {
+      const { emailSent } = await resendInvitation(invitation.id, auditActorFromUser(user));
+      toast(emailSent
+        ? { title: 'Success', description: `Invitation resent to ${invitation.email}` }
+        : { title: 'Link renewed', description: 'The invitation was renewed but the email could not be sent', variant: 'destructive' });
+      await loadInvitations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to resend invitation',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!user || !revoking) return;
+
+    setBusyId(revoking.id);
+    try {
+      await revokeInvitation(revoking.id, auditActorFromUser(user), revokeReason);
+      toast({ title: 'Success', description: 'Invitation revoked' });
+      setRevoking(null);
+      setRevokeReason('');
+      await loadInvitations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to revoke invitation',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading invitations...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(['pending', 'accepted', 'expired', 'revoked'] as const).map(status => (
+          <Card key={status} className="p-4">
+            <p className="text-sm text-gray-500">{STATUS_BADGES[status].label}</p>
+            <p className="text-2xl font-semibold text-gray-900">{stats[status]}</p>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Invite someone</h3>
+          <form onSubmit={handleCreate}>
+            <Input
+              id="invitation-email"
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <div className="mb-4">
+              <label htmlFor="invitation-role" className="block text-sm font-medium leading-6 text-gray-900 mb-1">
+                Role
+              </label>
+              <Select
+                id="invitation-role"
+                value={role}
+                onChange={(value) => setRole(value as InvitationRole)}
+                options={ROLE_OPTIONS}
+              />
+            </div>
+            <Button type="submit" disabled={creating || !email.trim()}>
+              {creating ? 'Sending...' : 'Send invitation'}
+            </Button>
+          </form>
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-1">Bulk import</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Upload or paste a CSV with <code>email</code> and <code>role</code> columns. Role defaults to contributor.
+          </p>
+          <input type="file" accept=".csv,text/csv" onChange={handleCsvFile} className="mb-3 text-sm" />
+          <Textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={'email,role\nalex@example.edu,contributor'}
+            rows={5}
+          />
+          <Button className="mt-3" onClick={handleImport} disabled={importing || !csv.trim()}>
+            {importing ? 'Importing...' : 'Import invitations'}
+          </Button>
+        </Card>
+      </div>
+
+      {importResults && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Import results</h3>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Line</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Email</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Role</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {importResults.map(result => (
+                <tr key={result.line}>
+                  <td className="px-3 py-2 text-gray-500">{result.line}</td>
+                  <td className="px-3 py-2">{result.email || <span className="text-gray-400">(empty)</span>}</td>
+                  <td className="px-3 py-2">{result.role}</td>
+                  <td className="px-3 py-2">
+                    <Badge
+                      variant={result.status === 'created' ? 'success' : result.status === 'skipped' ? 'outline' : 'destructive'}
+                    >
+                      {result.status}
+                    </Badge>
+                    {result.message && <span className="ml-2 text-gray-500">{result.message}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Invitations</h3>
+        {invitations.length === 0 ? (
+          <p className="text-gray-500">No invitations yet</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Email</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Role</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Expires</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invitations.map(invitation => {
+                const status = isInvitationExpired(invitation) ? 'expired' : invitation.status;
+                const canResend = !!invitation.email && (status === 'pending' || status === 'expired');
+                const canRevoke = status === 'pending' || status === 'expired';
+                return (
+                  <tr key={invitation.id}>
+                    <td className="px-3 py-2">{invitation.email || <span className="text-gray-400">Link only</span>}</td>
+                    <td className="px-3 py-2">{invitation.role}</td>
+                    <td className="px-3 py-2">
+                      <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+                      {invitation.revokeReason && (
+                        <span className="ml-2 text-gray-500">{invitation.revokeReason}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-500">{format(invitation.expiresAt, 'MMM d, yyyy')}</td>
+                    <td className="px-3 py-2 text-right space-x-2">
+                      {canResend && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResend(invitation)}
+                          disabled={busyId === invitation.id}
+                        >
+                          <Icon name="share" className="w-4 h-4 mr-1" />
+                          Resend
+                        </Button>
+                      )}
+                      {canRevoke && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRevoking(invitation)}
+                          disabled={busyId === invitation.id}
+                        >
+                          <Icon name="x" className="w-4 h-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </Card>
+
+      <Dialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke Invitation</DialogTitle>
+            <DialogDescription>
+              The invitation link for {revoking?.email || 'this invitation'} will stop working. The reason is kept in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={revokeReason}
+            onChange={(e) => setRevokeReason(e.target.value)}
+            placeholder="Reason for revoking"
+            rows={3}
+          />
+          <div className="mt-4 flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => setRevoking(null)} disabled={!!busyId}>
+              Cancel
+            </Button>
+            <Button onClick={handleRevoke} disabled={!!busyId || !revokeReason.trim()}>
+              Revoke
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
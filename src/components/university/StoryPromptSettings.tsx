@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { StoryPromptForm } from '@/components/story-prompts/StoryPromptForm';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  EditableStoryPromptConfig,
+  EMPTY_STORY_PROMPT_CONFIG,
+  storyPromptService,
+  universityCategoryPrompts,
+  validateStoryPromptConfig,
+} from '@/services/storyPrompts';
+import { CATEGORIES, QuestionCategory, StoryQuestion } from '@/types/questions';
+import { toast } from 'react-hot-toast';
+
+interface StoryPromptSettingsProps {
+  universityId: string;
+}
+
+const AUDIENCE_LABELS = {
+  all: 'Everyone',
+  alumni: 'Alumni',
+  memorial: 'Memorials',
+};
+
+export function StoryPromptSettings({ universityId }: StoryPromptSettingsProps) {
+  const { user } = useAuth();
+  const [library, setLibrary] = useState<StoryQuestion[]>([]);
+  const [config, setConfig] = useState<EditableStoryPromptConfig>(EMPTY_STORY_PROMPT_CONFIG);
+  const [categoryId, setCategoryId] = useState<QuestionCategory>(CATEGORIES[0].id);
+  const [editing, setEditing] = useState<StoryQuestion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPrompts = async () => {
+      try {
+        const [loadedLibrary, loadedConfig] = await Promise.all([
+          storyPromptService.getLibrary(),
+          storyPromptService.getUniversityConfig(universityId),
+        ]);
+        const { universityId: _id, updatedAt: _at, updatedBy: _by, ...loaded } = loadedConfig;
+        setLibrary(loadedLibrary.prompts);
+        setConfig(loaded);
+      } catch (error) {
+        console.error('Error loading story prompts:', error);
+        toast.error('Failed to load story prompts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPrompts();
+  }, [universityId]);
+
+  const prompts = universityCategoryPrompts(library, config, categoryId);
+  const isCustom = (id: string) => config.customPrompts.some(prompt => prompt.id === id);
+
+  const toggleEnabled = (id: string, enabled: boolean) => {
+    setConfig(prev => ({
+      ...prev,
+      disabledPromptIds: enabled
+        ? prev.disabledPromptIds.filter(disabledId => disabledId !== id)
+        : [...prev.disabledPromptIds, id],
+    }));
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = prompts.map(prompt => prompt.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    setConfig(prev => ({ ...prev, order: { ...prev.order, [categoryId]: ids } }));
+  };
+
+  const savePrompt = (edited: StoryQuestion) => {
+    setConfig(prev => ({
+      ...prev,
+      customPrompts: isCustom(edited.id)
+        ? prev.customPrompts.map(prompt => (prompt.id === edited.id ? edited : prompt))
+        : [...prev.customPrompts, edited],
+    }));
+    setCategoryId(edited.categoryId);
+    setEditing(null);
+  };
+
+  const deletePrompt = (id: string) => {
+    setConfig(prev => ({
+      ...prev,
+      customPrompts: prev.customPrompts.filter(prompt => prompt.id !== id),
+      disabledPromptIds: prev.disabledPromptIds.filter(disabledId => disabledId !== id),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const validationError = validateStoryPromptConfig(config, library);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { universityId: _id, updatedAt: _at, updatedBy: _by, ...saved } =
+        await storyPromptService.saveUniversityConfig(universityId, config, user.id);
+      setConfig(saved);
+      toast.success('Story prompts saved');
+    } catch (error) {
+      console.error('Error saving story prompts:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save story prompts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading story prompts...</div>;
+  }
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Story Prompts</h3>
+        <p className="text-sm text-gray-500">
+          Choose which prompts your alumni and memorial contributors are asked, and in what order. Prompts you
+          add here are only shown on your university&apos;s profiles.
+        </p>
+      </div>
+
+      <div className="flex items-end justify-between gap-4">
+        <div className="w-64">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <Select
+            value={categoryId}
+            onChange={(value) => {
+              setCategoryId(value as QuestionCategory);
+              setEditing(null);
+            }}
+            options={CATEGORIES.map(category => ({ value: category.id, label: category.label }))}
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => setEditing({ id: `custom_${Date.now()}`, categoryId, text: '' })}
+          disabled={!!editing}
+        >
+          Add prompt
+        </Button>
+      </div>
+
+      {editing && !isCustom(editing.id) && (
+        <StoryPromptForm prompt={editing} onSubmit={savePrompt} onCancel={() => setEditing(null)} />
+      )}
+
+      <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+        {prompts.length === 0 && (
+          <li className="p-4 text-sm text-gray-500">There are no prompts in this category.</li>
+        )}
+        {prompts.map((prompt, index) => {
+          const enabled = !config.disabledPromptIds.includes(prompt.id);
+          return (
+            <li key={prompt.id} className="p-4 space-y-3">
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={enabled}
+                  onChange={(e) => toggleEnabled(prompt.id, e.target.checked)}
+                  aria-label={enabled ? 'Stop asking this prompt' : 'Ask this prompt'}
+                />
+                <div className="flex-1">
+                  <p className={`text-sm ${enabled ? 'text-gray-900' : 'text-gray-400 line-through'}`}>{prompt.text}</p>
+                  <p className="text-xs text-gray-500">
+                    {isCustom(prompt.id) ? 'Your prompt' : 'Storiats prompt'} · {AUDIENCE_LABELS[prompt.audience ?? 'all']}
+                    {prompt.maxLength && ` · up to ${prompt.maxLength} characters`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0}>
+                    Up
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => move(index, 1)} disabled={index === prompts.length - 1}>
+                    Down
+                  </Button>
+                  {isCustom(prompt.id) && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(prompt)} disabled={!!editing}>
+                        Edit
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deletePrompt(prompt.id)}>
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {editing?.id === prompt.id && (
+                <StoryPromptForm prompt={editing} onSubmit={savePrompt} onCancel={() => setEditing(null)} />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving || !!editing}>
+          {saving ? 'Saving...' : 'Save Story Prompts'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@ import { useRouter } from 'next/navigation';
 import { useToast } from '@/components/ui/use-toast';
 import type { AuthContextType, SignUpFormData, SignInFormData, UserRoles, UserProfile } from '@/types/auth';
 import { userService } from '@/lib/supabase-services';
+import { syncSessionCookie } from '@/lib/sessionCookie';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -34,6 +35,7 @@ export function SupabaseAuthProvider({ children }: { children: ReactNode }) {
       try {
         // Get initial session
         const initialSession = await getSession();
+        syncSessionCookie(initialSession);
         setSession(initialSession);
         setUser(initialSession?.user || null);
         
@@ -50,6 +52,7 @@ export function SupabaseAuthProvider({ children }: { children: ReactNode }) {
               email: session?.user?.email
             });
             
+            syncSessionCookie(session);
             setSession(session);
             setUser(session?.user || null);
             console.log('[Supabase Auth Context] User state set to:', session?.user || null);
@@ -0,0 +1,135 @@
+import { act, renderHook } from '@testing-library/react';
+import { createMemoryRepositories, setRepositories } from '@/lib/repositories';
+import { supabase } from '@/lib/supabase';
+import { useCreateProfile } from '@/hooks/useCreateProfile';
+import type { University } from '@/types';
+import type { UniversitySettings } from '@/types/university';
+
+// Settings come from the in-memory repositories; profiles go to Supabase
+jest.mock('@/lib/repositories/firebase', () => ({ createFirebaseRepositories: jest.fn() }));
+jest.mock('@/lib/repositories/supabase', () => ({ createSupabaseRepositories: jest.fn() }));
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+jest.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'user-1', email: 'user@example.edu', displayName: 'Una User' } }),
+}));
+
+jest.mock('@/lib/permissions', () => ({
+  isUniversityAdmin: jest.fn(),
+}));
+
+jest.mock('@/services/auditLogService', () => ({
+  auditLogService: { log: jest.fn() },
+  auditActorFromUser: (user: { id: string }) => ({ id: user.id }),
+}));
+
+jest.mock('@/services/approvalWorkflow', () => ({
+  approvalWorkflowService: {},
+}));
+
+const UNIVERSITY_ID = 'uni-1';
+const USER_ID = 'user-1';
+
+const seed = (settings: Partial<UniversitySettings>) => {
+  const university: University = {
+    id: UNIVERSITY_ID,
+    name: 'Test University',
+    createdAt: new Date('2024-01-01'),
+    createdBy: 'admin-1',
+    admins: ['admin-1'],
+    isActive: true,
+    settings,
+  };
+  setRepositories(createMemoryRepositories({ universities: [university] }));
+};
+
+/**
+ * Stands in for the Supabase profiles table: a head count answers with
+ * `created` and records its filters, and inserts succeed.
+ */
+const mockProfilesTable = (created: number) => {
+  const filters: Record<string, unknown> = {};
+  const insert = jest.fn(() => ({
+    select: () => ({ single: async () => ({ data: {}, error: null }) }),
+  }));
+  const countQuery = {
+    eq: (column: string, value: unknown) => {
+      filters[column] = value;
+      return countQuery;
+    },
+    then: (resolve: (result: { count: number; error: null }) => void) => resolve({ count: created, error: null }),
+  };
+  (supabase.from as jest.Mock).mockReturnValue({ select: () => countQuery, insert });
+  return { filters, insert };
+};
+
+const createParams = (type: 'personal' | 'memorial') => ({
+  university_id: UNIVERSITY_ID,
+  type,
+  status: 'draft' as const,
+  created_by: USER_ID,
+  updated_by: USER_ID,
+  full_name: 'Someone',
+});
+
+const create = async (type: 'personal' | 'memorial') => {
+  const { result } = renderHook(() => useCreateProfile());
+  let profileId: string | undefined;
+  await act(async () => {
+    profileId = await result.current.createProfile(createParams(type));
+  });
+  return profileId;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  setRepositories(null);
+});
+
+describe('useCreateProfile creation caps', () => {
+  it('counts the user\'s profiles in the table it writes to', async () => {
+    seed({ maxProfilesPerUser: 2 });
+    const { filters, insert } = mockProfilesTable(1);
+
+    await expect(create('personal')).resolves.toEqual(expect.any(String));
+    expect(filters).toEqual({ university_id: UNIVERSITY_ID, created_by: USER_ID, type: 'personal' });
+    expect(insert).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a profile past the per-user cap without inserting it', async () => {
+    seed({ maxProfilesPerUser: 2 });
+    const { insert } = mockProfilesTable(2);
+
+    await expect(create('personal')).rejects.toMatchObject({
+      code: 'FAILED_PRECONDITION',
+      details: { limit: 2, created: 2 },
+    });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('applies the memorial cap to memorials', async () => {
+    seed({ maxProfilesPerUser: 0, maxMemorialsPerUser: 1 });
+    const { filters, insert } = mockProfilesTable(1);
+
+    await expect(create('memorial')).rejects.toMatchObject({ code: 'FAILED_PRECONDITION' });
+    expect(filters).toMatchObject({ type: 'memorial' });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('does not count when there is no cap', async () => {
+    seed({ maxProfilesPerUser: 0 });
+    const { filters, insert } = mockProfilesTable(10);
+
+    await expect(create('personal')).resolves.toBeDefined();
+    expect(filters).toEqual({});
+    expect(insert).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,9 +1,19 @@
 import { useState, useCallback, useRef } from 'react';
 import { debounce } from '@/lib/utils';
+import { VersionConflictError } from '@/utils/errors';
+import { applyResolutions, fieldsOf, mergeRemoteChanges } from '@/utils/fieldConflicts';
+import type { ConflictResolution, FieldConflict } from '@/types/collaboration';
 
-interface UseAutoSaveProps<T> {
-  saveFn: (data: T) => Promise<void>;
+interface UseAutoSaveProps<T extends object> {
+  /**
+   * Saves `data` over `expectedVersion` and resolves to the version it was
+   * saved as. A stale save should reject with a VersionConflictError whose
+   * `current` is the saved record in the same shape as `data`.
+   */
+  saveFn: (data: T, expectedVersion: number) => Promise<number>;
   initialData: T;
+  /** The version `initialData` was loaded at */
+  initialVersion: number;
   debounceMs?: number;
   maxRetries?: number;
 }
@@ -14,9 +24,10 @@ interface AutoSaveState {
   retryCount: number;
 }
 
-export function useAutoSave<T>({
+export function useAutoSave<T extends object>({
   saveFn,
   initialData,
+  initialVersion,
   debounceMs = 5000,
   maxRetries = 3,
 }: UseAutoSaveProps<T>) {
@@ -26,15 +37,29 @@ export function useAutoSave<T>({
     hasError: false,
     retryCount: 0,
   });
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
 
   const saveAttemptRef = useRef<number>(0);
+  // The last saved copy and its version; what the next save is based on
+  const baseRef = useRef<T>(initialData);
+  const versionRef = useRef(initialVersion);
+  const conflictsRef = useRef<FieldConflict[]>([]);
+
+  const holdConflicts = (next: FieldConflict[]) => {
+    conflictsRef.current = next;
+    setConflicts(next);
+  };
+
+  const save = useCallback(async (newData: T): Promise<void> => {
+    // Saving now would overwrite the other editor's values unseen
+    if (conflictsRef.current.length) return;
 
-  const save = useCallback(async (newData: T) => {
     const attempt = ++saveAttemptRef.current;
     setState(prev => ({ ...prev, isSaving: true, hasError: false }));
 
     try {
-      await saveFn(newData);
+      versionRef.current = await saveFn(newData, versionRef.current);
+      baseRef.current = newData;
       if (attempt === saveAttemptRef.current) {
         setState(prev => ({
           ...prev,
@@ -44,6 +69,28 @@ export function useAutoSave<T>({
         }));
       }
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        const theirs = error.current as T;
+        const { merged, conflicts: found } = mergeRemoteChanges(
+          baseRef.current,
+          newData,
+          theirs,
+          undefined,
+          fieldsOf(baseRef.current, newData, theirs)
+        );
+        baseRef.current = theirs;
+        versionRef.current = error.currentVersion;
+        setData(merged);
+        setState(prev => ({ ...prev, isSaving: false }));
+
+        if (found.length) {
+          holdConflicts(found);
+          return;
+        }
+        // Their changes didn't touch ours; save the combination on top of them
+        return save(merged);
+      }
+
       if (attempt === saveAttemptRef.current) {
         setState(prev => ({
           ...prev,
@@ -76,6 +123,14 @@ export function useAutoSave<T>({
     }
   }, [save, data, state.retryCount, maxRetries]);
 
+  /** Keeps the versions picked in the conflict dialog and saves the result */
+  const resolveConflicts = useCallback((choices: Record<string, ConflictResolution>) => {
+    const resolved = applyResolutions(data, conflictsRef.current, choices);
+    holdConflicts([]);
+    setData(resolved);
+    return save(resolved);
+  }, [save, data]);
+
   return {
     data,
     updateData,
@@ -83,5 +138,8 @@ export function useAutoSave<T>({
     isSaving: state.isSaving,
     hasError: state.hasError,
     retryCount: state.retryCount,
+    /** Fields saved differently by someone else; saving waits until they're resolved */
+    conflicts,
+    resolveConflicts,
   };
-} 
\ No newline at end of file
+}
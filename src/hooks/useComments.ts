@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { CommentService, type CreateCommentInput } from '@/services/CommentService';
-import type { Comment } from '@/types/comments';
+import type { Comment, CommentReportReason } from '@/types/comments';
 import { useAuth } from '@/hooks/useAuth';
+import { auditActorFromUser } from '@/services/auditLogService';
+import { AppError } from '@/utils/errors';
 import { toast } from 'react-hot-toast';
 
 interface UseCommentsProps {
@@ -56,11 +58,15 @@ export const useComments = ({ profileId, orgId }: UseCommentsProps) => {
       };
 
       const newComment = await CommentService.createComment(commentInput);
-      setComments((prev) => [newComment, ...prev]);
-      toast.success('Comment added successfully');
+      if (newComment.isHidden) {
+        toast.success('Your comment will appear once a moderator has reviewed it');
+      } else {
+        setComments((prev) => [newComment, ...prev]);
+        toast.success('Comment added successfully');
+      }
     } catch (error) {
       console.error('Error adding comment:', error);
-      toast.error('Failed to add comment');
+      toast.error(error instanceof AppError ? error.message : 'Failed to add comment');
     } finally {
       setIsSubmitting(false);
     }
@@ -158,6 +164,24 @@ export const useComments = ({ profileId, orgId }: UseCommentsProps) => {
     }
   }, [user, comments]);
 
+  const reportComment = useCallback(async (commentId: string, reason: CommentReportReason, details?: string) => {
+    if (!user) {
+      toast.error('You must be logged in to report comments');
+      return;
+    }
+
+    try {
+      const { autoHidden } = await CommentService.reportComment(commentId, auditActorFromUser(user), reason, details);
+      if (autoHidden) {
+        setComments((prev) => prev.filter((comment) => comment.id !== commentId));
+      }
+      toast.success('Thanks, a moderator will review this comment');
+    } catch (error) {
+      console.error('Error reporting comment:', error);
+      toast.error(error instanceof AppError ? error.message : 'Failed to report comment');
+    }
+  }, [user]);
+
   return {
     comments,
     isLoading,
@@ -167,6 +191,7 @@ export const useComments = ({ profileId, orgId }: UseCommentsProps) => {
     deleteComment,
     resolveComment,
     toggleReaction,
+    reportComment,
     refreshComments: fetchComments
   };
 }; 
\ No newline at end of file
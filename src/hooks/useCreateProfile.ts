@@ -5,6 +5,8 @@ import { MemorialProfile, PersonalProfile } from '../types/profile';
 import { useAuth } from './useAuth';
 import { useToast } from './useToast';
 import { useAnalytics } from './useAnalytics';
+import { auditLogService, auditActorFromUser } from '@/services/auditLogService';
+import { universitySettingsService } from '@/services/universitySettings';
 
 interface CreateProfileParams {
   university_id: string;
@@ -53,6 +55,24 @@ export function useCreateProfile() {
 
     try {
       setLoading(true);
+      const creatorId = params.created_by || user.id;
+      // Count from the table and columns the profile is written to below
+      await universitySettingsService.assertCanCreateProfile(
+        params.university_id,
+        creatorId,
+        params.type === 'memorial',
+        async () => {
+          const { count, error } = await supabase
+            .from('profiles')
+            .select('id', { count: 'exact', head: true })
+            .eq('university_id', params.university_id)
+            .eq('created_by', creatorId)
+            .eq('type', params.type);
+          if (error) throw error;
+          return count ?? 0;
+        }
+      );
+
       const profileId = uuidv4();
       console.log('useCreateProfile: Generated profile ID', profileId);
 
@@ -140,6 +160,15 @@ export function useCreateProfile() {
         throw error;
       }
 
+      await auditLogService.log({
+        action: 'profile.created',
+        resourceType: 'profile',
+        resourceId: profileId,
+        universityId: params.university_id,
+        actor: auditActorFromUser(user),
+        metadata: { profileType: params.type, status: params.status }
+      });
+
       // Track the event
       trackEvent('profile_created', {
         profileId,
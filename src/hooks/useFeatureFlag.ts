@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { doc, getDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { useAuth } from '@/hooks/useAuth';
+import type { FeatureFlagKey, SiteSettings } from '@/types/siteSettings';
+import { isFeatureFlagOn } from '@/utils/featureFlags';
+
+// Shared by every flag on the page, so the settings are read once
+let settingsRequest: Promise<SiteSettings | null> | null = null;
+
+function loadSettings(): Promise<SiteSettings | null> {
+  if (!settingsRequest) {
+    settingsRequest = getDb()
+      .then(db => getDoc(doc(db, 'site_settings', 'global')))
+      .then(snap => (snap.exists() ? (snap.data() as SiteSettings) : null))
+      .catch(error => {
+        console.error('Error loading feature flags:', error);
+        settingsRequest = null;
+        return null;
+      });
+  }
+  return settingsRequest;
+}
+
+/**
+ * Whether a feature flag is on for the signed-in user, optionally in the
+ * context of a university. Reports the flag's default until the settings
+ * have loaded. Server code uses isFeatureEnabled from '@/lib/featureFlags'.
+ */
+export function useFeatureFlag(flag: FeatureFlagKey, options: { universityId?: string | null } = {}): boolean {
+  const { user } = useAuth();
+  const { universityId } = options;
+  const [settings, setSettings] = useState<SiteSettings | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSettings().then(loaded => {
+      if (!cancelled) setSettings(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return isFeatureFlagOn(flag, settings, { userId: user?.id, universityId });
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useToast } from './useToast';
 import { Profile, LocalDraft, Achievement } from '../types/profile';
 import { Timestamp } from 'firebase/firestore';
+import { toFuzzyDateString } from '../utils/date';
 
 const STORAGE_KEY_PREFIX = 'draft_profile_';
 const AUTO_SAVE_INTERVAL = 10000; // 10 seconds
@@ -113,10 +114,11 @@ export const useLocalDraftSync = (profileId: string) => {
       const storedData = localStorage.getItem(storageKey);
       if (storedData) {
         const parsedData = JSON.parse(storedData) as LocalDraft;
-        // Convert string dates back to Date objects
+        // Convert string dates back to Date objects; birth and death dates
+        // stay strings so partly known ones keep their precision
         if (parsedData.basicInfo) {
-          parsedData.basicInfo.dateOfBirth = parsedData.basicInfo.dateOfBirth ? new Date(parsedData.basicInfo.dateOfBirth) : null;
-          parsedData.basicInfo.dateOfDeath = parsedData.basicInfo.dateOfDeath ? new Date(parsedData.basicInfo.dateOfDeath) : null;
+          parsedData.basicInfo.dateOfBirth = toFuzzyDateString(parsedData.basicInfo.dateOfBirth);
+          parsedData.basicInfo.dateOfDeath = toFuzzyDateString(parsedData.basicInfo.dateOfDeath);
         }
         if (parsedData.lifeStory) {
           parsedData.lifeStory.updatedAt = new Date(parsedData.lifeStory.updatedAt);
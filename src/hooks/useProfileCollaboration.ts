@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from './useAuth';
+import { profileCollaborationService } from '@/services/profileCollaboration';
+import {
+  COLLABORATION_HEARTBEAT_MS,
+  Collaborator,
+  PRESENCE_TIMEOUT_MS,
+  PROFILE_SECTION_LABELS,
+  ProfileSection,
+  SectionLock,
+} from '@/types/collaboration';
+
+interface UseProfileCollaborationOptions {
+  /** Firestore path of the profile document; null turns collaboration off */
+  profilePath: string | null;
+  /** The section the user has open */
+  section: ProfileSection;
+}
+
+export interface ProfileCollaboration {
+  enabled: boolean;
+  /** Everyone else who currently has the profile open */
+  collaborators: Collaborator[];
+  /** The section this user holds the lock on */
+  heldSection: ProfileSection | null;
+  /** Another editor's live lock on a section */
+  lockFor: (section: ProfileSection) => SectionLock | null;
+  /** Locks a section for this user; resolves false if someone else holds it */
+  claimSection: (section: ProfileSection, options?: { force?: boolean }) => Promise<boolean>;
+  releaseSection: () => Promise<void>;
+}
+
+/**
+ * Announces the user's presence on a profile, keeps the section lock they
+ * hold alive with a heartbeat, and reports who else is there.
+ */
+export function useProfileCollaboration({ profilePath, section }: UseProfileCollaborationOptions): ProfileCollaboration {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const displayName = user?.displayName || user?.email || 'Someone';
+  const photoURL = user?.user_metadata?.avatar_url as string | undefined;
+  const enabled = !!profilePath && !!userId;
+
+  const [presence, setPresence] = useState<Collaborator[]>([]);
+  const [locks, setLocks] = useState<SectionLock[]>([]);
+  const [heldSection, setHeldSection] = useState<ProfileSection | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const heldRef = useRef<ProfileSection | null>(null);
+  const claimRef = useRef<{ target: ProfileSection; result: Promise<boolean> } | null>(null);
+
+  const hold = (next: ProfileSection | null) => {
+    heldRef.current = next;
+    setHeldSection(next);
+  };
+
+  useEffect(() => {
+    if (!profilePath) return;
+    const stopPresence = profileCollaborationService.subscribeToCollaborators(profilePath, setPresence);
+    const stopLocks = profileCollaborationService.subscribeToLocks(profilePath, setLocks);
+    return () => {
+      stopPresence();
+      stopLocks();
+    };
+  }, [profilePath]);
+
+  const heartbeat = useCallback(async () => {
+    if (!profilePath || !userId) return;
+    setNow(Date.now());
+
+    const held = heldRef.current;
+    try {
+      await profileCollaborationService.updatePresence(profilePath, {
+        userId,
+        displayName,
+        photoURL,
+        activity: held ? 'editing' : 'viewing',
+        section,
+      });
+      if (held) {
+        const attempt = await profileCollaborationService.acquireLock(profilePath, held, { userId, displayName });
+        if (!attempt.acquired && heldRef.current === held) {
+          hold(null);
+          toast(`${attempt.lock.displayName} is now editing ${PROFILE_SECTION_LABELS[held]}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error sending collaboration heartbeat:', error);
+    }
+  }, [profilePath, userId, displayName, photoURL, section]);
+
+  useEffect(() => {
+    heartbeat();
+    const interval = setInterval(heartbeat, COLLABORATION_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [heartbeat]);
+
+  // Leave when the form unmounts or the tab closes; expiry covers the rest
+  useEffect(() => {
+    if (!profilePath || !userId) return;
+
+    const leave = () => {
+      hold(null);
+      profileCollaborationService.leave(profilePath, userId)
+        .catch(error => console.error('Error leaving profile:', error));
+    };
+    window.addEventListener('pagehide', leave);
+    return () => {
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [profilePath, userId]);
+
+  const releaseSection = useCallback(async () => {
+    const held = heldRef.current;
+    if (!profilePath || !userId || !held) return;
+
+    hold(null);
+    try {
+      await profileCollaborationService.releaseLock(profilePath, held, userId);
+    } catch (error) {
+      console.error('Error releasing section lock:', error);
+    }
+  }, [profilePath, userId]);
+
+  const claimSection = useCallback(async (target: ProfileSection, { force = false }: { force?: boolean } = {}) => {
+    if (!profilePath || !userId) return true;
+    if (heldRef.current === target && !force) return true;
+    // Keystrokes arrive faster than a transaction; share the claim in flight
+    // for the same section, and queue behind one for another section
+    const pending = claimRef.current;
+    if (pending?.target === target && !force) return pending.result;
+
+    const result = (async () => {
+      await pending?.result;
+      if (heldRef.current === target && !force) return true;
+      if (heldRef.current && heldRef.current !== target) {
+        await releaseSection();
+      }
+      try {
+        const attempt = await profileCollaborationService.acquireLock(profilePath, target, { userId, displayName }, { force });
+        if (attempt.acquired) {
+          hold(target);
+        }
+        return attempt.acquired;
+      } catch (error) {
+        console.error('Error locking section:', error);
+        // A lock is advisory; failing to take one shouldn't stop the edit
+        return true;
+      }
+    })();
+
+    const claim = { target, result };
+    claimRef.current = claim;
+    try {
+      return await result;
+    } finally {
+      if (claimRef.current === claim) {
+        claimRef.current = null;
+      }
+    }
+  }, [profilePath, userId, displayName, releaseSection]);
+
+  const collaborators = useMemo(
+    () => presence.filter(person => person.userId !== userId && now - person.lastSeenAt.getTime() < PRESENCE_TIMEOUT_MS),
+    [presence, userId, now]
+  );
+
+  const lockFor = useCallback(
+    (target: ProfileSection) =>
+      locks.find(lock => lock.section === target && lock.userId !== userId && lock.expiresAt.getTime() > now) ?? null,
+    [locks, userId, now]
+  );
+
+  return { enabled, collaborators, heldSection, lockFor, claimSection, releaseSection };
+}
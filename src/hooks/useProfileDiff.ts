@@ -1,19 +1,18 @@
 import { useState, useEffect } from 'react';
 import { doc, getDoc } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
-import { Profile } from '@/types/profile';
-import { generateProfileDiffs } from '@/utils/diff';
+import { DiffableProfile, ProfileDiff, generateProfileDiffs } from '@/utils/diff';
 
 interface UseProfileDiffResult {
   isLoading: boolean;
   error: string | null;
-  diffs: ReturnType<typeof generateProfileDiffs> | null;
+  diffs: ProfileDiff | null;
 }
 
 export const useProfileDiff = (profileId: string): UseProfileDiffResult => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [diffs, setDiffs] = useState<ReturnType<typeof generateProfileDiffs> | null>(null);
+  const [diffs, setDiffs] = useState<ProfileDiff | null>(null);
 
   useEffect(() => {
     const fetchProfiles = async () => {
@@ -25,7 +24,7 @@ export const useProfileDiff = (profileId: string): UseProfileDiffResult => {
 
         // Fetch published version
         const publishedDoc = await getDoc(doc(db, 'profiles', profileId));
-        const publishedProfile = publishedDoc.data() as Profile | null;
+        const publishedProfile = publishedDoc.data() as DiffableProfile | null;
 
         if (!publishedProfile) {
           setError('No published version found');
@@ -34,7 +33,7 @@ export const useProfileDiff = (profileId: string): UseProfileDiffResult => {
 
         // Fetch draft version
         const draftDoc = await getDoc(doc(db, 'profiles', `${profileId}_draft`));
-        const draftProfile = draftDoc.data() as Profile | null;
+        const draftProfile = draftDoc.data() as DiffableProfile | null;
 
         if (!draftProfile) {
           setError('No draft version found');
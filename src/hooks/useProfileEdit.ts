@@ -6,6 +6,7 @@ import { doc, updateDoc, setDoc } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { getDb } from '@/lib/firebase';
 import { Profile } from '@/types/profile';
+import { auditLogService, auditActorFromUser } from '@/services/auditLogService';
 
 interface UseProfileEditProps {
   profileId: string;
@@ -48,6 +49,7 @@ interface UseProfileEditResult {
 export const useProfileEdit = (profileId: string): UseProfileEditResult => {
   const [isEditing, setIsEditing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
 
   const editProfile = async (data: Partial<Profile>) => {
     setIsEditing(true);
@@ -69,6 +71,11 @@ export const useProfileEdit = (profileId: string): UseProfileEditResult => {
   };
 
   const publishProfile = async (data: Partial<Profile>) => {
+    if (!user) {
+      setError('You must be logged in to publish changes');
+      return;
+    }
+
     setIsEditing(true);
     setError(null);
 
@@ -79,6 +86,14 @@ export const useProfileEdit = (profileId: string): UseProfileEditResult => {
         ...data,
         updatedAt: new Date().toISOString()
       });
+      await auditLogService.log({
+        action: 'profile.updated',
+        resourceType: 'profile',
+        resourceId: profileId,
+        universityId: data.universityId,
+        actor: auditActorFromUser(user),
+        metadata: { fields: Object.keys(data) },
+      });
     } catch (err) {
       setError('Failed to publish changes');
       console.error('Error publishing profile changes:', err);
@@ -115,6 +130,13 @@ export const useProfileEditOriginal = ({ profileId, onSuccess }: UseProfileEditP
         ...data,
         updatedAt: new Date().toISOString()
       });
+      await auditLogService.log({
+        action: 'profile.updated',
+        resourceType: 'profile',
+        resourceId: profileId,
+        actor: auditActorFromUser(user),
+        metadata: { fields: Object.keys(data) },
+      });
 
       toast.success('Profile updated successfully');
       onSuccess?.();
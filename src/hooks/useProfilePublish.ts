@@ -1,11 +1,18 @@
 import { useState, useCallback } from 'react';
-import { doc, updateDoc, collection, addDoc, serverTimestamp, getDoc } from 'firebase/firestore';
+import { doc, updateDoc, serverTimestamp, getDoc } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
 import { useToast } from './useToast';
 import { useAnalytics } from './useAnalytics';
 import { usePermissions } from './usePermissions';
 import { useAuth } from './useAuth';
 import { AlumniProfile } from '@/types/profile';
+import { versionService, versionActorFromUser } from '@/services/versionService';
+import { readVersion } from '@/lib/firestore-utils';
+import { timelineService } from '@/services/TimelineService';
+import { toTimelineEvent } from '@/utils/timelineConverters';
+import { validateTimeline } from '@/utils/timelineValidation';
+import { auditLogService, auditActorFromUser } from '@/services/auditLogService';
+import { publishReason, universitySettingsService } from '@/services/universitySettings';
 
 interface UseProfilePublishProps {
   orgId: string;
@@ -17,6 +24,12 @@ interface ProfileValidationError {
   message: string;
 }
 
+// Memorial profiles keep their dates and, when it was saved with them, their timeline
+type PublishedProfile = AlumniProfile & {
+  timeline?: Record<string, unknown>[];
+  basicInfo?: { dateOfBirth?: unknown; dateOfDeath?: unknown };
+};
+
 export function useProfilePublish({ orgId, profileId }: UseProfilePublishProps) {
   const [isPublishing, setIsPublishing] = useState(false);
   const { showToast } = useToast();
@@ -32,8 +45,17 @@ export function useProfilePublish({ orgId, profileId }: UseProfilePublishProps)
       errors.push({ field: 'name', message: 'Name is required' });
     }
 
+    // The builders only warn about these; nothing goes out with them
+    const { timeline, basicInfo } = profile as PublishedProfile;
+    const events = Array.isArray(timeline) && timeline.length
+      ? timeline.map(event => toTimelineEvent(event))
+      : (await timelineService.getTimeline(profileId)).events;
+    validateTimeline(events, { dateOfBirth: basicInfo?.dateOfBirth, dateOfDeath: basicInfo?.dateOfDeath })
+      .filter(issue => issue.blocking)
+      .forEach(issue => errors.push({ field: 'timeline', message: issue.message }));
+
     return errors;
-  }, []);
+  }, [profileId]);
 
   const publishProfile = useCallback(async () => {
     if (!orgId || !profileId || !user) return;
@@ -64,24 +86,54 @@ export function useProfilePublish({ orgId, profileId }: UseProfilePublishProps)
         throw new Error(`Profile validation failed:\n${errorMessage}`);
       }
 
-      // Update profile status
+      // Universities that require approval only publish what was approved
+      const approval = await universitySettingsService.checkPublishApproval(
+        {
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId: orgId,
+          contentVersion: readVersion(profile, 'metadata.version'),
+        }
+      );
+      if (approval.status === 'submitted' || approval.status === 'in_review') {
+        showToast({
+          title: 'Approval needed',
+          description: approval.status === 'submitted'
+            ? 'The profile has been sent for approval'
+            : 'The profile is still waiting for approval',
+          status: 'info',
+        });
+        return;
+      }
+
+      // Snapshot the published state into the version history; an approved
+      // edit is recorded once, here, with the final reviewer's comments
+      const { version } = await versionService.recordVersion({
+        resourceType: 'profile',
+        resourceId: profileId,
+        universityId: orgId,
+        snapshot: { ...profile, status: 'published' },
+        status: 'published',
+        ...publishReason(approval),
+        actor: versionActorFromUser(user),
+      });
+
+      // Update profile status. metadata.version is the edit counter, not the
+      // history number, so it only ever moves forward.
       await updateDoc(profileRef, {
         status: 'published',
+        'metadata.version': Math.max(version, readVersion(profile, 'metadata.version') + 1),
         updatedAt: serverTimestamp(),
       });
 
-      // Log the publish action
-      const logsRef = collection(dbInstance, 'logs');
-      await addDoc(logsRef, {
-        type: 'profilePublished',
-        orgId,
-        profileId,
-        timestamp: serverTimestamp(),
-        metadata: {
-          publishedBy: user.id,
-          publishedByName: user.displayName || 'Unknown',
-          validationStatus: 'passed',
-        },
+      await auditLogService.log({
+        action: 'profile.published',
+        resourceType: 'profile',
+        resourceId: profileId,
+        universityId: orgId,
+        actor: auditActorFromUser(user),
+        changes: [{ field: 'status', oldValue: profile.status ?? null, newValue: 'published' }],
+        metadata: { version, validationStatus: 'passed' },
       });
 
       showToast({
@@ -1,8 +1,13 @@
 import { useState } from 'react';
-import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
+import { readVersion } from '@/lib/firestore-utils';
 import { useToast } from './useToast';
 import { usePermissions } from './usePermissions';
+import { useAuth } from './useAuth';
+import { auditLogService, auditActorFromUser } from '@/services/auditLogService';
+import { PublishApproval, publishReason, universitySettingsService } from '@/services/universitySettings';
+import { versionService, versionActorFromUser } from '@/services/versionService';
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000; // 1 second
@@ -16,13 +21,15 @@ export const useProfileStatus = (orgId: string, profileId: string) => {
   const [isPublishing, setIsPublishing] = useState(false);
   const { showToast } = useToast();
   const { isAdmin } = usePermissions();
+  const { user } = useAuth();
 
   /**
-   * Publishes a profile with retry mechanism
+   * Publishes a profile with retry mechanism. Where the university requires
+   * approval, an unapproved profile is sent for review instead.
    * @returns Promise<boolean> - Whether the publication was successful
    */
   const publishProfile = async (): Promise<boolean> => {
-    if (!isAdmin) {
+    if (!isAdmin || !user) {
       showToast({
         title: 'Error',
         description: 'You do not have permission to publish profiles.',
@@ -31,18 +38,76 @@ export const useProfileStatus = (orgId: string, profileId: string) => {
       return false;
     }
 
+    let approval: PublishApproval;
+    try {
+      const profileDoc = await getDoc(doc(await getDb(), 'organizations', orgId, 'profiles', profileId));
+      approval = await universitySettingsService.checkPublishApproval(
+        {
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId: orgId,
+          contentVersion: readVersion(profileDoc.data(), 'metadata.version'),
+        }
+      );
+      if (approval.status === 'submitted' || approval.status === 'in_review') {
+        showToast({
+          title: 'Approval needed',
+          description: approval.status === 'submitted'
+            ? 'This university reviews profiles before they go live. The profile has been sent for approval.'
+            : 'This profile is waiting for approval and will be publishable once it is approved.',
+          status: 'info',
+        });
+        return false;
+      }
+    } catch (error) {
+      console.error('Error checking publish approval:', error);
+      showToast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check whether the profile needs approval.',
+        status: 'error',
+      });
+      return false;
+    }
+
     let retries = 0;
+    // Recorded once, so a retried status write doesn't add a second snapshot
+    let version: number | null = null;
     while (retries < MAX_RETRIES) {
       try {
         setIsPublishing(true);
 
-        // Update the profile status
         const dbInstance = await getDb();
         const profileRef = doc(dbInstance, 'organizations', orgId, 'profiles', profileId);
+        const profileDoc = await getDoc(profileRef);
+        if (!profileDoc.exists()) {
+          throw new Error('Profile not found');
+        }
+
+        // Snapshot the published state into the version history
+        const profile = profileDoc.data();
+        version ??= (await versionService.recordVersion({
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId: orgId,
+          snapshot: { ...profile, status: 'published' },
+          status: 'published',
+          ...publishReason(approval),
+          actor: versionActorFromUser(user),
+        })).version;
+
         await updateDoc(profileRef, {
           status: 'published',
+          'metadata.version': Math.max(version, readVersion(profile, 'metadata.version') + 1),
           publishedAt: serverTimestamp(),
         });
+        await auditLogService.log({
+          action: 'profile.published',
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId: orgId,
+          actor: auditActorFromUser(user),
+          metadata: { version },
+        });
 
         showToast({
           title: 'Success',
@@ -1,38 +1,27 @@
 import { useEffect, useState, useCallback } from 'react';
 import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { getFirebaseServices } from '@/lib/firebase';
+import { useAuth } from '@/hooks/useAuth';
+import { auditLogService, auditActorFromUser } from '@/services/auditLogService';
+import { computeVersionChanges } from '@/services/versionService';
+import {
+  Announcement,
+  Branding,
+  DEFAULT_SITE_SETTINGS,
+  FeatureFlagKey,
+  FeatureFlagRule,
+  FeatureToggles,
+  SiteSettings,
+} from '@/types/siteSettings';
 
-export interface Announcement {
-  enabled: boolean;
-  text: string;
-}
-
-export interface Branding {
-  siteName: string;
-  logoUrl: string;
-}
-
-export interface FeatureToggles {
-  betaFeatures: boolean;
-  chatSupport: boolean;
-}
-
-export interface SiteSettings {
-  announcement: Announcement;
-  supportEmail: string;
-  defaultUserRole: 'viewer' | 'editor' | 'admin';
-  maintenanceMode: boolean;
-  branding: Branding;
-  contactPhone: string;
-  googleAnalyticsId: string;
-  featureToggles: FeatureToggles;
-}
+export type { Announcement, Branding, FeatureToggles, SiteSettings } from '@/types/siteSettings';
 
 export function useSiteSettings() {
   const [settings, setSettings] = useState<SiteSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
 
   const fetchSettings = useCallback(async () => {
     setLoading(true);
@@ -45,18 +34,8 @@ export function useSiteSettings() {
         setSettings(snap.data() as SiteSettings);
       } else {
         // Initialize with defaults if not present
-        const defaultSettings: SiteSettings = {
-          announcement: { enabled: false, text: '' },
-          supportEmail: '',
-          defaultUserRole: 'viewer',
-          maintenanceMode: false,
-          branding: { siteName: 'Storiats', logoUrl: '' },
-          contactPhone: '',
-          googleAnalyticsId: '',
-          featureToggles: { betaFeatures: false, chatSupport: false },
-        };
-        await setDoc(ref, defaultSettings);
-        setSettings(defaultSettings);
+        await setDoc(ref, DEFAULT_SITE_SETTINGS);
+        setSettings(DEFAULT_SITE_SETTINGS);
       }
     } catch (err) {
       setError('Failed to load site settings');
@@ -76,6 +55,15 @@ export function useSiteSettings() {
       const { db } = await getFirebaseServices();
       const ref = doc(db, 'site_settings', 'global');
       await updateDoc(ref, updates);
+      if (user) {
+        await auditLogService.log({
+          action: 'settings.updated',
+          resourceType: 'settings',
+          resourceId: 'site_settings/global',
+          actor: auditActorFromUser(user),
+          changes: computeVersionChanges(settings, { ...settings, ...updates }),
+        });
+      }
       setSettings(prev => prev ? { ...prev, ...updates } : prev);
     } catch (err) {
       setError('Failed to update site settings');
@@ -88,11 +76,14 @@ export function useSiteSettings() {
   const setAnnouncement = (announcement: Announcement) => updateSettings({ announcement });
   const setSupportEmail = (supportEmail: string) => updateSettings({ supportEmail });
   const setDefaultUserRole = (defaultUserRole: 'viewer' | 'editor' | 'admin') => updateSettings({ defaultUserRole });
-  const setMaintenanceMode = (maintenanceMode: boolean) => updateSettings({ maintenanceMode });
+  const setMaintenanceMode = (maintenanceMode: boolean, maintenanceMessage?: string) =>
+    updateSettings(maintenanceMessage === undefined ? { maintenanceMode } : { maintenanceMode, maintenanceMessage });
   const setBranding = (branding: Branding) => updateSettings({ branding });
   const setContactPhone = (contactPhone: string) => updateSettings({ contactPhone });
   const setGoogleAnalyticsId = (googleAnalyticsId: string) => updateSettings({ googleAnalyticsId });
   const setFeatureToggles = (featureToggles: FeatureToggles) => updateSettings({ featureToggles });
+  const setFeatureFlag = (flag: FeatureFlagKey, rule: FeatureFlagRule) =>
+    updateSettings({ featureFlags: { ...settings?.featureFlags, [flag]: rule } });
 
   return {
     settings,
@@ -108,5 +99,6 @@ export function useSiteSettings() {
     setContactPhone,
     setGoogleAnalyticsId,
     setFeatureToggles,
+    setFeatureFlag,
   };
 } 
\ No newline at end of file
@@ -1,9 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { doc, getDoc } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
+import { readVersion } from '@/lib/firestore-utils';
 import { useToast } from './useToast';
 import { useAnalytics } from './useAnalytics';
+import { answerVersionField, saveStoryAnswer } from '@/services/storyAnswers';
+import { isConnectivityError, syncOutbox } from '@/services/syncOutbox';
+import { StoryAnswerOperation } from '@/types/outbox';
 import { QuestionCategory, STORY_QUESTIONS } from '@/types/questions';
+import { INITIAL_VERSION } from '@/types/repositories';
+import { ConflictResolution, FieldConflict } from '@/types/collaboration';
+import { VersionConflictError } from '@/utils/errors';
 import { debounce } from '@/lib/utils';
 
 export interface UseStoryAnswersProps {
@@ -12,6 +19,9 @@ export interface UseStoryAnswersProps {
   selectedCategories?: QuestionCategory[];
 }
 
+const questionText = (questionId: string) =>
+  Object.values(STORY_QUESTIONS).flat().find(question => question.id === questionId)?.text ?? questionId;
+
 interface Progress {
   answeredCount: number;
   totalQuestions: number;
@@ -23,6 +33,10 @@ export function useStoryAnswers({ orgId, profileId, selectedCategories }: UseSto
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+  // The saved version of each answer the next save is based on
+  const versionsRef = useRef<Record<string, number>>({});
+  const savedRef = useRef<Record<string, string>>({});
   const { showToast } = useToast();
   const { trackEvent } = useAnalytics();
 
@@ -42,6 +56,10 @@ export function useStoryAnswers({ orgId, profileId, selectedCategories }: UseSto
       }
 
       const profileData = profileDoc.data();
+      savedRef.current = profileData.answers || {};
+      versionsRef.current = Object.fromEntries(
+        Object.keys(savedRef.current).map(questionId => [questionId, readVersion(profileData, answerVersionField(questionId))])
+      );
       setAnswers(profileData.answers || {});
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to load answers'));
@@ -74,16 +92,27 @@ export function useStoryAnswers({ orgId, profileId, selectedCategories }: UseSto
       return;
     }
 
+    const queued: StoryAnswerOperation = {
+      kind: 'storyAnswer',
+      orgId,
+      profileId,
+      questionId,
+      answer: response,
+      baseVersion: versionsRef.current[questionId] ?? INITIAL_VERSION,
+    };
+
     try {
       setIsSaving(true);
       setError(null);
 
-      const dbInstance = await getDb();
-      const profileRef = doc(dbInstance, 'universities', orgId, 'profiles', profileId);
-      await updateDoc(profileRef, {
-        [`answers.${questionId}`]: response,
-        updatedAt: new Date(),
-      });
+      if (syncOutbox.shouldQueue(queued)) {
+        await syncOutbox.enqueue(queued);
+        setAnswers((prev) => ({ ...prev, [questionId]: response }));
+        return;
+      }
+
+      versionsRef.current[questionId] = await saveStoryAnswer(orgId, profileId, questionId, response, queued.baseVersion);
+      savedRef.current = { ...savedRef.current, [questionId]: response };
 
       setAnswers((prev) => ({
         ...prev,
@@ -96,6 +125,31 @@ export function useStoryAnswers({ orgId, profileId, selectedCategories }: UseSto
         hasResponse: !!response,
       });
     } catch (err) {
+      if (err instanceof VersionConflictError) {
+        versionsRef.current[questionId] = err.currentVersion;
+        setConflicts(prev => [
+          ...prev.filter(conflict => conflict.path !== questionId),
+          {
+            path: questionId,
+            label: questionText(questionId),
+            base: savedRef.current[questionId],
+            mine: response,
+            theirs: err.current,
+          },
+        ]);
+        savedRef.current = { ...savedRef.current, [questionId]: err.current as string };
+        showToast({
+          title: 'Answer changed elsewhere',
+          description: 'Someone else saved this answer too. Choose which version to keep.',
+          status: 'warning',
+        });
+        return;
+      }
+      // Relatives often write on patchy connections; hold the answer until it can upload
+      if (isConnectivityError(err)) {
+        await syncOutbox.enqueue(queued);
+        return;
+      }
       setError(err instanceof Error ? err : new Error('Failed to save answer'));
       showToast({
         title: 'Error',
@@ -107,6 +161,15 @@ export function useStoryAnswers({ orgId, profileId, selectedCategories }: UseSto
     }
   }, [orgId, profileId, showToast, trackEvent]);
 
+  // Answers queued while offline move their saved version on when they upload
+  useEffect(() => syncOutbox.onSynced(({ entry, version }) => {
+    if (entry.kind !== 'storyAnswer' || entry.orgId !== orgId || entry.profileId !== profileId || version === undefined) {
+      return;
+    }
+    versionsRef.current[entry.questionId] = version;
+    savedRef.current = { ...savedRef.current, [entry.questionId]: entry.answer };
+  }), [orgId, profileId]);
+
   const debouncedSaveAnswer = useCallback(
     debounce((questionId: string, response: string) => {
       saveAnswer(questionId, response);
@@ -125,6 +188,18 @@ export function useStoryAnswers({ orgId, profileId, selectedCategories }: UseSto
     [debouncedSaveAnswer]
   );
 
+  /** Keeps the answers picked in the conflict dialog, saving ours over theirs where chosen */
+  const resolveConflicts = useCallback((choices: Record<string, ConflictResolution>) => {
+    conflicts.forEach(conflict => {
+      if (choices[conflict.path] === 'theirs') {
+        setAnswers(prev => ({ ...prev, [conflict.path]: conflict.theirs as string }));
+      } else {
+        saveAnswer(conflict.path, conflict.mine as string);
+      }
+    });
+    setConflicts([]);
+  }, [conflicts, saveAnswer]);
+
   const progress: Progress = {
     answeredCount: Object.keys(answers).length,
     totalQuestions: selectedCategories
@@ -150,6 +225,9 @@ export function useStoryAnswers({ orgId, profileId, selectedCategories }: UseSto
     error,
     isSaving,
     updateAnswer,
+    /** Answers someone else saved differently; shown with PendingConflicts */
+    conflicts,
+    resolveConflicts,
     refetch: loadAnswers,
     progress,
   };
@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { resolveStoryPrompts, storyPromptService, StoryPromptOptions } from '@/services/storyPrompts';
+import { DEFAULT_STORY_PROMPTS, ResolvedStoryCategory } from '@/types/questions';
+
+interface UseStoryPromptLibraryOptions extends StoryPromptOptions {
+  /** Applies the university's changes to the global library */
+  universityId?: string | null;
+}
+
+/**
+ * The story prompts to show, by category. The locale defaults to the
+ * browser's; if the library can't be loaded the built-in prompts are used.
+ */
+export function useStoryPromptLibrary({ universityId, audience, locale }: UseStoryPromptLibraryOptions = {}) {
+  const [categories, setCategories] = useState<ResolvedStoryCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const options: StoryPromptOptions = {
+      audience,
+      locale: locale ?? (typeof navigator !== 'undefined' ? navigator.language : undefined),
+    };
+
+    setLoading(true);
+    storyPromptService.getPrompts(universityId, options)
+      .then(loaded => {
+        if (cancelled) return;
+        setCategories(loaded);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading story prompts:', err);
+        if (cancelled) return;
+        setCategories(resolveStoryPrompts(DEFAULT_STORY_PROMPTS, null, options));
+        setError(err instanceof Error ? err : new Error('Failed to load story prompts'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [universityId, audience, locale]);
+
+  return { categories, loading, error };
+}
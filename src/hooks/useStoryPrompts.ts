@@ -1,25 +1,45 @@
 "use client";
 
-import { useState } from 'react';
-import { doc, updateDoc } from 'firebase/firestore';
+import { useEffect, useRef, useState } from 'react';
+import { doc, getDoc } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
+import { readVersion, updateWithVersion } from '@/lib/firestore-utils';
+import { VersionConflictError } from '@/utils/errors';
+import { INITIAL_VERSION } from '@/types/repositories';
 import { useToast } from './useToast';
 import { useAnalytics } from './useAnalytics';
+import { useStoryPromptLibrary } from './useStoryPromptLibrary';
 import { StoryAnswer } from '../types/profile';
+import type { StoryPromptOptions } from '@/services/storyPrompts';
 
 interface UseStoryPromptsOptions {
   orgId: string;
   profileId: string;
+  /** Who the prompts are for; every prompt when unset */
+  audience?: StoryPromptOptions['audience'];
 }
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000; // 1 second
 
-export const useStoryPrompts = ({ orgId, profileId }: UseStoryPromptsOptions) => {
+export const useStoryPrompts = ({ orgId, profileId, audience }: UseStoryPromptsOptions) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // The organization's prompts from the library
+  const { categories, loading: promptsLoading } = useStoryPromptLibrary({ universityId: orgId, audience });
+  // The profile version the answers on screen were loaded against
+  const versionRef = useRef<Promise<number> | null>(null);
   const { showToast } = useToast();
   const { trackEvent } = useAnalytics();
 
+  useEffect(() => {
+    if (!orgId || !profileId) return;
+    const loading = getDb()
+      .then(db => getDoc(doc(db, 'organizations', orgId, 'profiles', profileId)))
+      .then(profileDoc => readVersion(profileDoc.data(), 'metadata.version'));
+    versionRef.current = loading;
+    loading.catch(error => console.error('Error loading profile version:', error));
+  }, [orgId, profileId]);
+
   const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
   const updateStoryAnswers = async (answers: StoryAnswer[]) => {
@@ -31,10 +51,15 @@ export const useStoryPrompts = ({ orgId, profileId }: UseStoryPromptsOptions) =>
         try {
           const db = await getDb();
           const profileRef = doc(db, 'organizations', orgId, 'profiles', profileId);
-          await updateDoc(profileRef, {
+          const version = await updateWithVersion(profileRef, (await versionRef.current) ?? INITIAL_VERSION, {
             storyAnswers: answers,
             updatedAt: new Date().toISOString(),
+          }, {
+            versionField: 'metadata.version',
+            resource: 'profile',
+            current: (data) => (data.storyAnswers ?? []) as StoryAnswer[],
           });
+          versionRef.current = Promise.resolve(version);
 
           showToast({
             title: 'Answers Saved',
@@ -49,6 +74,15 @@ export const useStoryPrompts = ({ orgId, profileId }: UseStoryPromptsOptions) =>
 
           return; // Success, exit the function
         } catch (error) {
+          // Saving again would only hit the same newer copy
+          if (error instanceof VersionConflictError) {
+            showToast({
+              title: 'Answers changed elsewhere',
+              description: 'Someone else saved answers to this profile. Reload to see them before saving yours.',
+              status: 'warning',
+            });
+            throw error;
+          }
           retryCount++;
           
           if (retryCount === MAX_RETRIES) {
@@ -82,6 +116,8 @@ export const useStoryPrompts = ({ orgId, profileId }: UseStoryPromptsOptions) =>
   };
 
   return {
+    categories,
+    promptsLoading,
     updateStoryAnswers,
     isSubmitting,
   };
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { syncOutbox } from '@/services/syncOutbox';
+import type { SyncStatus } from '@/types/outbox';
+
+const initialStatus: SyncStatus = {
+  online: true,
+  syncing: false,
+  pending: 0,
+  needsAttention: [],
+};
+
+/** Live state of the offline outbox, with the actions for entries that stopped */
+export function useSyncStatus() {
+  const [status, setStatus] = useState<SyncStatus>(initialStatus);
+
+  useEffect(() => syncOutbox.subscribe(setStatus), []);
+
+  return {
+    ...status,
+    retry: (seq: number) => syncOutbox.retry(seq),
+    keepMine: (seq: number) => syncOutbox.keepMine(seq),
+    discard: (seq: number) => syncOutbox.discard(seq),
+  };
+}
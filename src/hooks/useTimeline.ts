@@ -4,7 +4,8 @@ import { useState, useCallback, useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { collection, query, where, orderBy, limit, startAfter, getDocs, DocumentData } from 'firebase/firestore';
 import { getFirebaseServices } from '@/lib/firebase';
-import { TimelineEvent } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
+import { toTimelineEvent } from '@/utils/timelineConverters';
 import { useToast } from './useToast';
 import { useAnalytics } from './useAnalytics';
 
@@ -63,10 +64,7 @@ export function useTimeline({
       }
 
       const snapshot = await getDocs(q);
-      const events = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as TimelineEvent[];
+      const events = snapshot.docs.map(doc => toTimelineEvent(doc.data(), doc.id));
 
       setLastDoc(snapshot.docs[snapshot.docs.length - 1]);
       setHasMore(snapshot.docs.length === pageSize);
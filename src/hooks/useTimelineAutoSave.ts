@@ -1,14 +1,20 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { doc, setDoc, collection, writeBatch, getDocs, DocumentData } from 'firebase/firestore';
-import { getDb } from '@/lib/firebase';
 import { useAnalytics } from './useAnalytics';
 import { useToast } from './useToast';
-import { LifeEvent } from '@/types/profile';
+import { timelineService } from '@/services/TimelineService';
+import { isConnectivityError, syncOutbox } from '@/services/syncOutbox';
+import { TimelineEvent } from '@/types/timeline';
+import { TimelineOperation } from '@/types/outbox';
+import { ConflictResolution, FieldConflict } from '@/types/collaboration';
+import { VersionConflictError } from '@/utils/errors';
+import { applyListResolutions, mergeListById } from '@/utils/fieldConflicts';
 
 interface UseTimelineAutoSaveProps {
   orgId: string;
   profileId: string;
-  events: LifeEvent[];
+  events: TimelineEvent[];
+  /** Takes the timeline after someone else's saved entries were merged in */
+  onMerged: (events: TimelineEvent[]) => void;
 }
 
 const AUTO_SAVE_DELAY = 5000; // 5 seconds
@@ -19,45 +25,73 @@ export const useTimelineAutoSave = ({
   orgId,
   profileId,
   events,
+  onMerged,
 }: UseTimelineAutoSaveProps) => {
   const [isSaving, setIsSaving] = useState(false);
   const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
   const retryCountRef = useRef(0);
+  // The last saved timeline and its version; what the next save is based on
+  const baseRef = useRef<TimelineEvent[]>([]);
+  const versionRef = useRef<Promise<number> | null>(null);
+  // A merged timeline waiting to be saved until the caller's events move on from it
+  const mergedRef = useRef<TimelineEvent[] | null>(null);
   const { trackEvent } = useAnalytics();
   const { showToast } = useToast();
 
+  // Note the version the editor starts from before anything is saved over it
+  useEffect(() => {
+    const loading = timelineService.getTimeline(profileId).then(({ version, events: saved }) => {
+      baseRef.current = saved;
+      return version;
+    });
+    versionRef.current = loading;
+    loading.catch(error => console.error('Error loading timeline version:', error));
+  }, [profileId]);
+
+  // Edits queued while offline move the saved version on when they upload
+  useEffect(() => syncOutbox.onSynced(({ entry, version }) => {
+    if (entry.kind !== 'timeline' || entry.profileId !== profileId || version === undefined) return;
+    versionRef.current = Promise.resolve(version);
+    baseRef.current = entry.events;
+  }), [profileId]);
+
+  const applyMerge = useCallback((merged: TimelineEvent[]) => {
+    mergedRef.current = merged;
+    onMerged(merged);
+  }, [onMerged]);
+
+  useEffect(() => {
+    if (mergedRef.current && mergedRef.current !== events) {
+      mergedRef.current = null;
+    }
+  }, [events]);
+
   const saveEvents = useCallback(async () => {
-    if (isSaving) return;
+    if (isSaving || conflicts.length) return;
 
+    const toSave = mergedRef.current ?? events;
+    let queued: TimelineOperation | null = null;
     setIsSaving(true);
     try {
-      const dbInstance = await getDb();
-      const timelineRef = collection(dbInstance, 'profiles', profileId, 'timeline');
-      
-      // Use a batch write to ensure atomic updates
-      const batch = writeBatch(dbInstance);
-      
-      // Delete existing events
-      const existingEvents = await getDocs(timelineRef);
-      existingEvents.docs.forEach((doc: DocumentData) => {
-        batch.delete(doc.ref);
-      });
-      
-      // Add new events
-      events.forEach(event => {
-        const newEventRef = doc(timelineRef);
-        batch.set(newEventRef, {
-          ...event,
-          createdAt: event.createdAt || new Date(),
-          updatedAt: new Date()
-        });
-      });
-      
-      await batch.commit();
+      const expectedVersion = await (versionRef.current ?? timelineService.getTimeline(profileId).then(saved => saved.version));
+      queued = { kind: 'timeline', profileId, events: toSave, baseVersion: expectedVersion };
+      if (syncOutbox.shouldQueue(queued)) {
+        await syncOutbox.enqueue(queued);
+        mergedRef.current = null;
+        setLastSavedAt(new Date());
+        return;
+      }
+
+      const version = await timelineService.saveTimeline(profileId, toSave, expectedVersion);
+
+      versionRef.current = Promise.resolve(version);
+      baseRef.current = toSave;
+      mergedRef.current = null;
 
       trackEvent('timeline_autosave_success', {
-        eventCount: events.length,
+        eventCount: toSave.length,
         profileId,
       });
 
@@ -70,6 +104,46 @@ export const useTimelineAutoSave = ({
       setLastSavedAt(new Date());
       retryCountRef.current = 0;
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        const theirs = error.current as TimelineEvent[];
+        const { merged, conflicts: found } = mergeListById(
+          baseRef.current,
+          toSave,
+          theirs,
+          event => event.title || 'Untitled event',
+          'timeline'
+        );
+        baseRef.current = theirs;
+        versionRef.current = Promise.resolve(error.currentVersion);
+        applyMerge(merged);
+        setConflicts(found);
+        if (!found.length) {
+          // Nothing to ask about; put ours back on top of theirs
+          setTimeout(saveEvents, 0);
+        }
+
+        trackEvent('timeline_autosave_conflict', {
+          conflictCount: found.length,
+          profileId,
+        });
+        showToast({
+          title: 'Timeline updated elsewhere',
+          description: found.length
+            ? 'Someone else changed the same entries. Choose which versions to keep.'
+            : 'Someone else saved changes; they have been merged with yours.',
+          status: found.length ? 'warning' : 'info',
+        });
+        return;
+      }
+
+      // Keep the edit on this device until the connection is back
+      if (queued && isConnectivityError(error)) {
+        await syncOutbox.enqueue(queued);
+        mergedRef.current = null;
+        setLastSavedAt(new Date());
+        return;
+      }
+
       trackEvent('timeline_autosave_failure', {
         error: error instanceof Error ? error.message : 'Unknown error',
         profileId,
@@ -90,7 +164,7 @@ export const useTimelineAutoSave = ({
     } finally {
       setIsSaving(false);
     }
-  }, [events, isSaving, orgId, profileId, showToast, trackEvent]);
+  }, [events, isSaving, conflicts, orgId, profileId, applyMerge, showToast, trackEvent]);
 
   // Auto-save on delay
   useEffect(() => {
@@ -119,8 +193,17 @@ export const useTimelineAutoSave = ({
     };
   }, [saveEvents]);
 
+  /** Keeps the entries picked in the conflict dialog; the next auto-save stores them */
+  const resolveConflicts = useCallback((choices: Record<string, ConflictResolution>) => {
+    applyMerge(applyListResolutions(mergedRef.current ?? events, conflicts, choices));
+    setConflicts([]);
+  }, [events, conflicts, applyMerge]);
+
   return {
     isSaving,
     lastSavedAt,
+    /** Entries someone else saved differently; auto-save waits until they're resolved */
+    conflicts,
+    resolveConflicts,
   };
-}; 
\ No newline at end of file
+};
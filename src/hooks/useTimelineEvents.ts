@@ -1,7 +1,6 @@
 import { useState, useEffect } from 'react';
-import { collection, query, orderBy, limit, getDocs } from 'firebase/firestore';
-import { getDb } from '@/lib/firebase';
-import { LifeEvent } from '@/types/profile';
+import { timelineService } from '@/services/TimelineService';
+import { TimelineEvent } from '@/types/timeline';
 import { useAuth } from '@/hooks/useAuth';
 import { useAnalytics } from '@/hooks/useAnalytics';
 
@@ -11,7 +10,7 @@ interface UseTimelineEventsProps {
 }
 
 export const useTimelineEvents = ({ orgId, profileId }: UseTimelineEventsProps) => {
-  const [events, setEvents] = useState<LifeEvent[]>([]);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const { user } = useAuth();
@@ -24,25 +23,7 @@ export const useTimelineEvents = ({ orgId, profileId }: UseTimelineEventsProps)
       setIsLoading(true);
       setError(null);
 
-      const dbInstance = await getDb();
-      const eventsRef = collection(
-        dbInstance,
-        'profiles',
-        profileId,
-        'timeline'
-      );
-
-      const q = query(
-        eventsRef,
-        orderBy('createdAt', 'desc'),
-        limit(100)
-      );
-
-      const snapshot = await getDocs(q);
-      const fetchedEvents = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as LifeEvent[];
+      const fetchedEvents = await timelineService.getTimelineEvents(profileId);
 
       setEvents(fetchedEvents);
       trackEvent('timeline_loaded', {
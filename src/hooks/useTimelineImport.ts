@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { timelineService } from '@/services/TimelineService';
+import type { DraftTimelineEvent, TimelineEvent, TimelineImportDraft, TimelineImportStatus } from '@/types/timeline';
+import { isChronological, isFuzzyDate } from '@/utils/date';
+import { parseLinkedInCsv, parseResumeText, toImportDrafts } from '@/utils/timelineImport';
+import { useToast } from './useToast';
+
+/** Why a draft can't be saved as it is; null when it can */
+export function draftProblem(event: DraftTimelineEvent): string | null {
+  if (!event.title.trim()) return 'Needs a title';
+  if (!isFuzzyDate(event.startDate)) return 'Needs a start date';
+  if (event.endDate && !isFuzzyDate(event.endDate)) return 'The end date is not a date';
+  if (!isChronological(event.startDate, event.endDate)) return 'Ends before it starts';
+  return null;
+}
+
+/**
+ * Hook for importing a timeline from a LinkedIn data export or CV text:
+ * reads them into drafts, keeps track of what has been accepted, edited or
+ * discarded, and saves the accepted ones.
+ * @param profileId - The profile the events are added to
+ * @param existingEvents - Events already on the timeline, so they aren't imported twice
+ */
+export const useTimelineImport = (profileId: string, existingEvents: TimelineEvent[] = []) => {
+  const [drafts, setDrafts] = useState<TimelineImportDraft[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { showToast } = useToast();
+
+  /**
+   * Reads the files of a LinkedIn data export; other files are skipped
+   * @returns How many of the files were understood
+   */
+  const readLinkedInFiles = async (files: File[]): Promise<number> => {
+    const tables = await Promise.all(files.map(async file => parseLinkedInCsv(await file.text())));
+    const events = tables.flatMap(table => table ?? []);
+    setDrafts(toImportDrafts('linkedin', events, existingEvents));
+    setErrors({});
+    return tables.filter(Boolean).length;
+  };
+
+  /**
+   * Reads pasted CV text
+   * @returns How many events were found
+   */
+  const readResume = (text: string): number => {
+    const events = parseResumeText(text);
+    setDrafts(toImportDrafts('resume', events, existingEvents));
+    setErrors({});
+    return events.length;
+  };
+
+  const updateDraft = (key: string, event: DraftTimelineEvent) => {
+    setDrafts(prev => prev.map(draft => (draft.key === key ? { ...draft, event } : draft)));
+  };
+
+  const setStatus = (key: string, status: TimelineImportStatus) => {
+    setDrafts(prev => prev.map(draft => (draft.key === key ? { ...draft, status } : draft)));
+  };
+
+  /** Accepts every pending draft that can be saved */
+  const acceptAll = () => {
+    setDrafts(prev =>
+      prev.map(draft => (draft.status === 'pending' && !draftProblem(draft.event) ? { ...draft, status: 'accepted' } : draft))
+    );
+  };
+
+  const reset = () => {
+    setDrafts([]);
+    setErrors({});
+  };
+
+  /**
+   * Saves the accepted drafts one at a time, in the order shown, each
+   * against the timeline version the last one left. Drafts that fail to
+   * save stay on the list with the reason.
+   * @returns The events that were saved
+   */
+  const importAccepted = async (): Promise<TimelineEvent[]> => {
+    const accepted = drafts.filter(draft => draft.status === 'accepted');
+    const created: TimelineEvent[] = [];
+    const failed: Record<string, string> = {};
+
+    setIsImporting(true);
+    try {
+      let version = await timelineService.getTimelineVersion(profileId);
+      for (const draft of accepted) {
+        try {
+          const { event, timelineVersion } = await timelineService.createTimelineEvent({ ...draft.event, profileId }, version);
+          created.push(event);
+          version = timelineVersion;
+        } catch (error) {
+          failed[draft.key] = error instanceof Error ? error.message : 'Could not be saved';
+        }
+      }
+    } catch (error) {
+      accepted.forEach(draft => {
+        failed[draft.key] = error instanceof Error ? error.message : 'Could not be saved';
+      });
+    } finally {
+      setIsImporting(false);
+    }
+
+    const saved = new Set(accepted.filter(draft => !failed[draft.key]).map(draft => draft.key));
+    setDrafts(prev => prev.filter(draft => !saved.has(draft.key)));
+    setErrors(failed);
+
+    const failures = Object.keys(failed).length;
+    showToast({
+      title: failures ? 'Import incomplete' : 'Timeline imported',
+      description: failures
+        ? `${created.length} of ${accepted.length} events were added. The rest are still on the list.`
+        : `${created.length} ${created.length === 1 ? 'event was' : 'events were'} added to the timeline.`,
+      status: failures ? 'error' : 'success',
+    });
+
+    return created;
+  };
+
+  return {
+    drafts,
+    errors,
+    isImporting,
+    readLinkedInFiles,
+    readResume,
+    updateDraft,
+    setStatus,
+    acceptAll,
+    reset,
+    importAccepted,
+  };
+};
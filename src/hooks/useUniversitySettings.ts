@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { universitySettingsService } from '@/services/universitySettings';
+import type { UniversitySettings } from '@/types/university';
+
+/**
+ * The university's settings, or null until they have loaded, so that
+ * anything the university can turn off stays hidden until then
+ */
+export function useUniversitySettings(universityId: string | undefined) {
+  const [settings, setSettings] = useState<UniversitySettings | null>(null);
+
+  useEffect(() => {
+    if (!universityId) return;
+
+    let cancelled = false;
+    universitySettingsService.getSettings(universityId)
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .catch(err => console.error('Error loading university settings:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [universityId]);
+
+  return settings;
+}
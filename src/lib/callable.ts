@@ -0,0 +1,20 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { getFirebaseServices } from '@/lib/firebase';
+import { AppError } from '@/utils/errors';
+
+// A callable's own message says what to fix, so keep it over the generic one
+function callableError(error: any): AppError {
+  const mapped = AppError.fromFirebaseError({ ...error, code: String(error?.code ?? '').replace(/^functions\//, '') });
+  return new AppError(mapped.code, error?.message || mapped.message, mapped.status, error);
+}
+
+/** Calls an HTTPS callable Cloud Function, rejecting with an AppError */
+export async function callFunction<TRequest, TResponse>(name: string, data: TRequest): Promise<TResponse> {
+  try {
+    const services = await getFirebaseServices();
+    const call = httpsCallable<TRequest, TResponse>(getFunctions(services.app), name);
+    return (await call(data)).data;
+  } catch (error) {
+    throw callableError(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { readDocument } from '@/lib/firestoreRest';
+import { CUSTOM_DOMAINS_COLLECTION, UniversitySettings } from '@/types/university';
+
+/**
+ * Server-side lookups between universities and their verified custom
+ * domains, usable from the edge middleware. Misses are cached too, since
+ * most requests arrive on the app's own host.
+ */
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_CACHED = 500;
+
+function cachedByKey<T>(load: (key: string) => Promise<T>): (key: string) => Promise<T> {
+  const entries = new Map<string, { value: Promise<T>; expiresAt: number }>();
+  return key => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt >= Date.now()) return entry.value;
+
+    if (entries.size >= MAX_CACHED) {
+      entries.forEach((other, otherKey) => {
+        if (other.expiresAt < Date.now()) entries.delete(otherKey);
+      });
+    }
+    const value = load(key);
+    entries.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    // A failed read shouldn't be remembered
+    value.catch(() => entries.delete(key));
+    return value;
+  };
+}
+
+/** The university served on a verified custom domain, or null */
+export const getCustomDomainUniversityId = cachedByKey(async (hostname): Promise<string | null> => {
+  const record = await readDocument(`${CUSTOM_DOMAINS_COLLECTION}/${encodeURIComponent(hostname)}`);
+  return typeof record?.universityId === 'string' ? record.universityId : null;
+});
+
+/** A university's verified custom domain, or null */
+export const getUniversityCustomDomain = cachedByKey(async (universityId): Promise<string | null> => {
+  const university = await readDocument(`universities/${encodeURIComponent(universityId)}`);
+  const settings = university?.settings as Partial<UniversitySettings> | undefined;
+  return settings?.customDomain || null;
+});
+
+/** Whether a request host is one of the app's own rather than a university's */
+export function isAppHost(hostname: string): boolean {
+  if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname.endsWith('.vercel.app')) {
+    return true;
+  }
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) return false;
+  try {
+    const appHost = new URL(appUrl).hostname;
+    return hostname === appHost || hostname === `www.${appHost}`;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,35 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { EmailBranding } from '@/types/email';
+import { UniversityProfile } from '@/types/university';
+
+export const DEFAULT_BRANDING: EmailBranding = {
+  senderName: 'Storiats',
+  primaryColor: '#4F46E5',
+  secondaryColor: '#111827',
+};
+
+/**
+ * Resolve the branding for a university's outgoing email, falling back to
+ * platform defaults for anything the university hasn't configured.
+ */
+export async function getUniversityBranding(universityId?: string): Promise<EmailBranding> {
+  if (!universityId) return DEFAULT_BRANDING;
+
+  try {
+    const db = await getDb();
+    const snapshot = await getDoc(doc(db, 'universities', universityId));
+    if (!snapshot.exists()) return DEFAULT_BRANDING;
+
+    const university = snapshot.data() as Partial<UniversityProfile>;
+    return {
+      senderName: university.branding?.senderName || university.name || DEFAULT_BRANDING.senderName,
+      logoUrl: university.branding?.logoUrl || university.logoUrl || university.logo,
+      primaryColor: university.branding?.primaryColor || DEFAULT_BRANDING.primaryColor,
+      secondaryColor: university.branding?.secondaryColor || DEFAULT_BRANDING.secondaryColor,
+    };
+  } catch (error) {
+    console.error(`Error loading email branding for university ${universityId}:`, error);
+    return DEFAULT_BRANDING;
+  }
+}
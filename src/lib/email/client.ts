@@ -0,0 +1,47 @@
+import { getSession } from '@/lib/supabase';
+import { SendEmailRequest, EmailTemplateId, EmailTemplateVariables } from '@/types/email';
+
+/**
+ * Browser helper for /api/send-email. Attaches the current session's
+ * access token; throws when signed out or when the route rejects the send.
+ */
+export async function requestTemplatedEmail<K extends EmailTemplateId>(
+  request: SendEmailRequest<K>
+): Promise<void> {
+  const session = await getSession();
+  if (!session?.access_token) {
+    throw new Error('You must be signed in to send email');
+  }
+
+  const response = await fetch('/api/send-email', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `send-email responded with ${response.status}`);
+  }
+}
+
+/**
+ * Browser helper for /api/contact, which needs no session.
+ * @returns Whether the message was emailed to anyone
+ */
+export async function requestContactEmail(variables: EmailTemplateVariables['contact_message']): Promise<boolean> {
+  const response = await fetch('/api/contact', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(variables),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error || `contact responded with ${response.status}`);
+  }
+  return body?.delivered === true;
+}
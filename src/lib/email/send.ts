@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import { doc, getDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { getUniversityCustomDomain } from '@/lib/customDomains';
+import { getUserUniversityRole } from '@/lib/permissions';
+import { getContactEmailRecipients } from '@/lib/siteSettings';
+import { AppError } from '@/utils/errors';
+import type { AllowedRole } from '@/types/permission';
+import { EMAIL_TEMPLATE_IDS, EmailTemplateId, emailTemplateSchemas } from '@/types/email';
+import { getUniversityBranding } from './branding';
+import { renderEmail } from './templates';
+import { formatFromAddress, getEmailTransport } from './transport';
+
+const MAX_RECIPIENTS = 50;
+
+const sendEmailRequestSchema = z.object({
+  templateId: z.enum(EMAIL_TEMPLATE_IDS as [EmailTemplateId, ...EmailTemplateId[]]),
+  to: z.union([z.string().email(), z.array(z.string().email()).min(1).max(MAX_RECIPIENTS)]),
+  variables: z.record(z.unknown()),
+  universityId: z.string().min(1).optional(),
+});
+
+// Contact messages and digests are only sent by the server itself
+type UserTemplateId = Exclude<EmailTemplateId, 'contact_message' | 'notification_digest'>;
+
+/**
+ * Templates a signed-in user may ask for, and the university roles that
+ * may send each in the university's name
+ */
+const SENDER_ROLES: Record<UserTemplateId, readonly AllowedRole[]> = {
+  invitation: ['admin', 'editor'],
+  role_granted: ['admin'],
+  role_revoked: ['admin'],
+  approval_requested: ['admin', 'editor', 'contributor'],
+  approval_decided: ['admin', 'editor', 'contributor'],
+  memorial_published: ['admin', 'editor'],
+  // Sent on behalf of whoever commented or acted, which any member may do
+  comment_reply: ['admin', 'editor', 'contributor', 'viewer'],
+  notification: ['admin', 'editor', 'contributor', 'viewer'],
+};
+
+const USER_TEMPLATE_IDS = Object.keys(SENDER_ROLES) as [UserTemplateId, ...UserTemplateId[]];
+
+// Invitees may not have an account yet, so they are addressed directly
+const ADDRESSED_TEMPLATE_IDS: EmailTemplateId[] = ['invitation'];
+
+const userEmailRequestSchema = z.object({
+  templateId: z.enum(USER_TEMPLATE_IDS),
+  to: z.union([z.string().email(), z.array(z.string().email()).min(1).max(MAX_RECIPIENTS)]).optional(),
+  toUserIds: z.array(z.string().min(1)).min(1).max(MAX_RECIPIENTS).optional(),
+  variables: z.record(z.unknown()),
+  universityId: z.string().min(1),
+});
+
+const hostOf = (url: string | undefined): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+};
+
+/** Hosts an email may link to: the app's own and the university's verified custom domain */
+async function allowedLinkHosts(universityId?: string): Promise<Set<string>> {
+  const hosts = new Set<string>();
+  const appHost = hostOf(process.env.NEXT_PUBLIC_APP_URL);
+  if (appHost) hosts.add(appHost).add(`www.${appHost}`);
+  const deploymentHost = hostOf(process.env.VERCEL_URL && `https://${process.env.VERCEL_URL}`);
+  if (deploymentHost) hosts.add(deploymentHost);
+  if (process.env.NODE_ENV !== 'production') hosts.add('localhost').add('127.0.0.1');
+
+  if (universityId) {
+    const customDomain = await getUniversityCustomDomain(universityId).catch(() => null);
+    if (customDomain) hosts.add(customDomain);
+  }
+  return hosts;
+}
+
+// Every link variable is named url or ends in Url
+const linkValues = (value: unknown, key = ''): string[] => {
+  if (Array.isArray(value)) return value.flatMap(item => linkValues(item));
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([childKey, child]) => linkValues(child, childKey));
+  }
+  return typeof value === 'string' && /(^u|U)rl$/.test(key) ? [value] : [];
+};
+
+async function assertAppLinks(variables: unknown, universityId?: string): Promise<void> {
+  const links = linkValues(variables);
+  if (links.length === 0) return;
+
+  const hosts = await allowedLinkHosts(universityId);
+  const offsite = links.filter(link => {
+    try {
+      const { protocol, hostname } = new URL(link);
+      return !['https:', 'http:'].includes(protocol) || !hosts.has(hostname);
+    } catch {
+      return true;
+    }
+  });
+  if (offsite.length > 0) {
+    throw new AppError('email/invalid-link', 'Emails may only link to this site', 400, { links: offsite });
+  }
+}
+
+/**
+ * The addresses on file for the given users, who must all have a role at
+ * the university; users without an address are skipped
+ */
+async function resolveRecipients(userIds: string[], universityId: string): Promise<string[]> {
+  const uniqueIds = Array.from(new Set(userIds));
+  const roles = await Promise.all(uniqueIds.map(id => getUserUniversityRole(id, universityId)));
+  if (roles.some(role => !role)) {
+    throw new AppError('email/forbidden', 'Email can only be sent to members of this university', 403);
+  }
+
+  const db = await getDb();
+  const userDocs = await Promise.all(uniqueIds.map(id => getDoc(doc(db, 'users', id))));
+  return userDocs
+    .map(userDoc => userDoc.data()?.email)
+    .filter((email): email is string => typeof email === 'string' && email.length > 0);
+}
+
+/**
+ * Validate, render and deliver a templated email. Throws AppError with a
+ * 400 status for invalid input and 500 when no transport is configured.
+ * Trusts its caller with recipients and branding; requests from users go
+ * through sendUserEmail.
+ */
+export async function sendTemplatedEmail(input: unknown): Promise<{ id?: string }> {
+  const request = sendEmailRequestSchema.safeParse(input);
+  if (!request.success) {
+    throw new AppError('email/invalid-request', 'Invalid email request', 400, request.error.flatten());
+  }
+
+  const { templateId, to, universityId } = request.data;
+  const variables = emailTemplateSchemas[templateId].safeParse(request.data.variables);
+  if (!variables.success) {
+    throw new AppError('email/invalid-variables', `Invalid variables for template ${templateId}`, 400, variables.error.flatten());
+  }
+  await assertAppLinks(variables.data, universityId);
+
+  const transport = getEmailTransport();
+  if (!transport) {
+    throw new AppError('email/not-configured', 'Email service is not configured', 500);
+  }
+
+  const branding = await getUniversityBranding(universityId);
+  const rendered = renderEmail(templateId, variables.data as never, branding);
+
+  return transport.send({
+    from: formatFromAddress(branding.senderName),
+    to: Array.isArray(to) ? to : [to],
+    ...rendered,
+  });
+}
+
+/**
+ * Send an email a signed-in user asked for, in the name of a university.
+ * Recipients are members of it given by user ID and looked up here, except
+ * for invitations; the sender needs a role at it that may send the template.
+ */
+export async function sendUserEmail(input: unknown, callerId: string): Promise<{ id?: string }> {
+  const request = userEmailRequestSchema.safeParse(input);
+  if (!request.success) {
+    throw new AppError('email/invalid-request', 'Invalid email request', 400, request.error.flatten());
+  }
+
+  const { templateId, to, toUserIds, variables, universityId } = request.data;
+  const addressed = ADDRESSED_TEMPLATE_IDS.includes(templateId);
+  if (addressed ? !to : !toUserIds || to) {
+    throw new AppError(
+      'email/invalid-request',
+      addressed
+        ? `The ${templateId} template needs recipient addresses`
+        : `The ${templateId} template is sent to user IDs, not addresses`,
+      400
+    );
+  }
+
+  const callerRole = await getUserUniversityRole(callerId, universityId);
+  if (!callerRole || !SENDER_ROLES[templateId].includes(callerRole)) {
+    throw new AppError('email/forbidden', 'You cannot send this email for this university', 403);
+  }
+
+  const recipients = addressed ? to! : await resolveRecipients(toUserIds!, universityId);
+  if (recipients.length === 0) {
+    throw new AppError('email/no-recipients', 'None of the recipients has an email address', 400);
+  }
+
+  return sendTemplatedEmail({ templateId, to: recipients, variables, universityId });
+}
+
+/**
+ * Email a contact-form message to the site's configured recipients. Anyone
+ * may send one, so the recipients are never taken from the request.
+ * @returns Whether there was anyone to send it to
+ */
+export async function sendContactMessage(input: unknown): Promise<{ delivered: boolean }> {
+  const recipients = (await getContactEmailRecipients()).slice(0, MAX_RECIPIENTS);
+  if (recipients.length === 0) {
+    return { delivered: false };
+  }
+
+  await sendTemplatedEmail({ templateId: 'contact_message', to: recipients, variables: input });
+  return { delivered: true };
+}
@@ -0,0 +1,198 @@
+import {
+  EmailBranding,
+  EmailTemplateId,
+  EmailTemplateVariables,
+  RenderedEmail,
+} from '@/types/email';
+
+/**
+ * Template output before it is wrapped in the branded layout. Paragraphs
+ * are plain text; they are escaped for HTML at render time.
+ */
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+type TemplateRegistry = {
+  [K in EmailTemplateId]: (vars: EmailTemplateVariables[K], branding: EmailBranding) => EmailContent;
+};
+
+const greeting = (name?: string) => (name ? `Hi ${name},` : 'Hello,');
+
+const DECISION_LABELS = {
+  approved: 'approved',
+  rejected: 'rejected',
+  changes_requested: 'returned with requested changes',
+} as const;
+
+export const emailTemplates: TemplateRegistry = {
+  invitation: (vars) => ({
+    subject: `You're invited to contribute to ${vars.universityName}`,
+    heading: `Join ${vars.universityName}`,
+    paragraphs: [
+      greeting(),
+      `${vars.inviterName ?? vars.universityName} has invited you to join as a ${vars.role}.`,
+      `This invitation expires on ${vars.expiresAt}.`,
+    ],
+    action: { label: 'Accept invitation', url: vars.acceptUrl },
+  }),
+
+  role_granted: (vars) => ({
+    subject: `You're now a ${vars.role} at ${vars.universityName}`,
+    heading: 'Your access has changed',
+    paragraphs: [
+      greeting(vars.recipientName),
+      `${vars.grantedBy ?? 'An administrator'} gave you the ${vars.role} role at ${vars.universityName}.`,
+    ],
+    action: { label: 'Open dashboard', url: vars.dashboardUrl },
+  }),
+
+  role_revoked: (vars) => ({
+    subject: `Your ${vars.role} access at ${vars.universityName} was removed`,
+    heading: 'Your access has changed',
+    paragraphs: [
+      greeting(vars.recipientName),
+      `Your ${vars.role} role at ${vars.universityName} has been removed.`,
+      'If you think this is a mistake, contact the university administrators.',
+    ],
+  }),
+
+  approval_requested: (vars) => ({
+    subject: `Review requested: ${vars.resourceTitle}`,
+    heading: 'A submission is waiting for your review',
+    paragraphs: [
+      greeting(vars.reviewerName),
+      `${vars.submittedBy} submitted "${vars.resourceTitle}" for the ${vars.stageName} stage.`,
+      `Please review it by ${vars.dueAt}.`,
+    ],
+    action: { label: 'Review submission', url: vars.reviewUrl },
+  }),
+
+  approval_decided: (vars) => ({
+    subject: `"${vars.resourceTitle}" was ${DECISION_LABELS[vars.decision]}`,
+    heading: 'Review decision',
+    paragraphs: [
+      greeting(vars.recipientName),
+      `${vars.reviewerName} ${DECISION_LABELS[vars.decision]} "${vars.resourceTitle}".`,
+      ...(vars.comments ? [`Comments: ${vars.comments}`] : []),
+    ],
+    action: { label: 'View', url: vars.resourceUrl },
+  }),
+
+  comment_reply: (vars) => ({
+    subject: `${vars.replierName} replied to your comment`,
+    heading: `New reply on ${vars.profileName}`,
+    paragraphs: [
+      greeting(vars.recipientName),
+      `${vars.replierName} replied to your comment:`,
+      `"${vars.excerpt}"`,
+    ],
+    action: { label: 'View reply', url: vars.commentUrl },
+  }),
+
+  memorial_published: (vars) => ({
+    subject: `${vars.memorialName}'s memorial is now live`,
+    heading: 'Memorial published',
+    paragraphs: [
+      greeting(vars.recipientName),
+      `The memorial for ${vars.memorialName} has been published by ${vars.universityName}.`,
+    ],
+    action: { label: 'View memorial', url: vars.memorialUrl },
+  }),
+
+  notification: (vars) => ({
+    subject: vars.title,
+    heading: vars.title,
+    paragraphs: [greeting(vars.recipientName), vars.body],
+    action: vars.actionUrl ? { label: 'Open', url: vars.actionUrl } : undefined,
+  }),
+
+  notification_digest: (vars) => ({
+    subject: `Your ${vars.period} Storiats summary`,
+    heading: vars.period === 'daily' ? "Today's activity" : "This week's activity",
+    paragraphs: [
+      greeting(vars.recipientName),
+      ...vars.sections.flatMap((section) => [
+        section.label,
+        ...section.items.map((item) => [`• ${item.title}`, item.body, item.url].filter(Boolean).join('\n')),
+      ]),
+      ...(vars.omittedCount > 0 ? [`And ${vars.omittedCount} more.`] : []),
+    ],
+    action: { label: 'View all notifications', url: vars.notificationsUrl },
+  }),
+
+  contact_message: (vars) => ({
+    subject: `New Contact Form Submission: ${vars.subject}`,
+    heading: 'New contact form submission',
+    paragraphs: [
+      `Name: ${vars.name}`,
+      `Email: ${vars.email}`,
+      `Subject: ${vars.subject}`,
+      vars.message,
+    ],
+  }),
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderHtml = (content: EmailContent, branding: EmailBranding): string => {
+  const logo = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.senderName)}" style="max-height:48px;margin-bottom:16px;" />`
+    : '';
+  const paragraphs = content.paragraphs
+    .map((paragraph) => `<p style="margin:0 0 12px;line-height:1.5;">${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`)
+    .join('');
+  const action = content.action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(content.action.url)}" style="background:${escapeHtml(branding.primaryColor)};color:#ffffff;padding:10px 20px;border-radius:6px;text-decoration:none;display:inline-block;">${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-top:4px solid ${escapeHtml(branding.primaryColor)};border-radius:8px;padding:32px;">
+      ${logo}
+      <h1 style="font-size:20px;margin:0 0 16px;color:${escapeHtml(branding.secondaryColor)};">${escapeHtml(content.heading)}</h1>
+      ${paragraphs}
+      ${action}
+      <p style="margin-top:32px;font-size:12px;color:#6b7280;">Sent by ${escapeHtml(branding.senderName)}</p>
+    </div>
+  </body>
+</html>`;
+};
+
+const renderText = (content: EmailContent, branding: EmailBranding): string =>
+  [
+    content.heading,
+    '',
+    ...content.paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ''] : []),
+    `Sent by ${branding.senderName}`,
+  ].join('\n');
+
+/**
+ * Render a template to subject, HTML and plaintext. Variables must already
+ * be validated against the template's schema.
+ */
+export const renderEmail = <K extends EmailTemplateId>(
+  templateId: K,
+  variables: EmailTemplateVariables[K],
+  branding: EmailBranding
+): RenderedEmail => {
+  const template = emailTemplates[templateId] as TemplateRegistry[K];
+  const content = template(variables, branding);
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content, branding),
+    text: renderText(content, branding),
+  };
+};
@@ -0,0 +1,71 @@
+import { Resend } from 'resend';
+
+export interface OutgoingEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  send(email: OutgoingEmail): Promise<{ id?: string }>;
+}
+
+export class ResendTransport implements EmailTransport {
+  private client: Resend;
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(email: OutgoingEmail): Promise<{ id?: string }> {
+    const { data, error } = await this.client.emails.send(email);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return { id: data?.id };
+  }
+}
+
+/**
+ * Keeps sent messages in memory instead of delivering them. Used for local
+ * development and tests (EMAIL_TRANSPORT=memory).
+ */
+export class InMemoryTransport implements EmailTransport {
+  readonly outbox: OutgoingEmail[] = [];
+
+  async send(email: OutgoingEmail): Promise<{ id?: string }> {
+    this.outbox.push(email);
+    return { id: `memory-${this.outbox.length}` };
+  }
+
+  clear() {
+    this.outbox.length = 0;
+  }
+}
+
+let transport: EmailTransport | null | undefined;
+
+const createTransport = (): EmailTransport | null => {
+  if (process.env.EMAIL_TRANSPORT === 'memory') {
+    return new InMemoryTransport();
+  }
+  const apiKey = process.env.RESEND_API_KEY;
+  return apiKey ? new ResendTransport(apiKey) : null;
+};
+
+/** Returns the configured transport, or null when email is not configured */
+export const getEmailTransport = (): EmailTransport | null => {
+  if (transport === undefined) {
+    transport = createTransport();
+  }
+  return transport;
+};
+
+export const setEmailTransport = (next: EmailTransport | null) => {
+  transport = next;
+};
+
+export const formatFromAddress = (senderName: string) =>
+  `${senderName.replace(/[<>"]/g, '')} <${process.env.EMAIL_FROM_ADDRESS || 'support@storiats.com'}>`;
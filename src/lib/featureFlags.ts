@@ -0,0 +1,17 @@
+import type { FeatureFlagContext, FeatureFlagKey } from '@/types/siteSettings';
+import { isFeatureFlagOn } from '@/utils/featureFlags';
+import { getSiteSettings } from './siteSettings';
+
+/**
+ * Server-side counterpart of useFeatureFlag, for route handlers, server
+ * components and middleware. Flags fall back to their defaults when the
+ * settings can't be read.
+ */
+export async function isFeatureEnabled(flag: FeatureFlagKey, context?: FeatureFlagContext): Promise<boolean> {
+  try {
+    return isFeatureFlagOn(flag, await getSiteSettings(), context);
+  } catch (error) {
+    console.error(`Error checking feature flag ${flag}:`, error);
+    return isFeatureFlagOn(flag, null, context);
+  }
+}
@@ -1 +1,77 @@
- 
\ No newline at end of file
+import { DocumentData, DocumentReference, runTransaction, Transaction } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { AppError, VersionConflictError } from '@/utils/errors';
+import { getByPath } from '@/utils/diff';
+import { setByPath } from '@/utils/fieldConflicts';
+import { INITIAL_VERSION } from '@/types/repositories';
+
+export const readVersion = (data: DocumentData | undefined, versionField = 'version'): number => {
+  const value = data ? getByPath(data, versionField) : undefined;
+  return typeof value === 'number' ? value : INITIAL_VERSION;
+};
+
+// Firestore rejects a write naming both `metadata` and `metadata.version`
+const withVersion = (changes: DocumentData, versionField: string, version: number): DocumentData => {
+  const [head, ...rest] = versionField.split('.');
+  if (!rest.length || !changes[head] || typeof changes[head] !== 'object') {
+    return { ...changes, [versionField]: version };
+  }
+  return { ...changes, [head]: withVersion(changes[head], rest.join('.'), version) };
+};
+
+interface VersionedUpdateOptions<T> {
+  /** Dotted path of the counter; profiles keep theirs under metadata */
+  versionField?: string;
+  /** Names the record in the conflict message */
+  resource?: string;
+  /** Builds the server copy handed back on a conflict; defaults to the document data */
+  current?: (data: DocumentData) => T | Promise<T>;
+  /** Further writes that must land in the same transaction */
+  alsoWrite?: (transaction: Transaction) => void | Promise<void>;
+  /** Create the document when it doesn't exist yet rather than failing */
+  upsert?: boolean;
+}
+
+/**
+ * Applies `changes` only if the document is still at `expectedVersion`,
+ * bumping the counter in the same transaction. A stale write is rejected
+ * with a VersionConflictError holding the current server copy.
+ *
+ * Resolves to the version the document is at after the write.
+ */
+export async function updateWithVersion<T = DocumentData>(
+  ref: DocumentReference,
+  expectedVersion: number,
+  changes: DocumentData,
+  { versionField = 'version', resource = 'record', current, alsoWrite, upsert = false }: VersionedUpdateOptions<T> = {}
+): Promise<number> {
+  const db = await getDb();
+
+  const outcome = await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists() && !upsert) {
+      throw new AppError('NOT_FOUND', `The ${resource} was not found`, 404);
+    }
+
+    const data = snapshot.exists() ? snapshot.data() : undefined;
+    const version = readVersion(data, versionField);
+    if (version !== expectedVersion) {
+      return { conflict: true as const, data: data ?? {}, version };
+    }
+
+    const next = version + 1;
+    await alsoWrite?.(transaction);
+    if (snapshot.exists()) {
+      transaction.update(ref, withVersion(changes, versionField, next));
+    } else {
+      transaction.set(ref, setByPath(changes, versionField, next), { merge: true });
+    }
+    return { conflict: false as const, version: next };
+  });
+
+  if (outcome.conflict) {
+    const serverCopy = current ? await current(outcome.data) : (outcome.data as T);
+    throw new VersionConflictError<T>(serverCopy, expectedVersion, outcome.version, resource);
+  }
+  return outcome.version;
+}
@@ -0,0 +1,44 @@
+/**
+ * Document reads through the Firestore REST API rather than the SDK, so
+ * that the edge middleware can use them; the documents must be publicly
+ * readable.
+ */
+
+type FirestoreValue = {
+  nullValue?: null;
+  booleanValue?: boolean;
+  stringValue?: string;
+  integerValue?: string;
+  doubleValue?: number;
+  timestampValue?: string;
+  arrayValue?: { values?: FirestoreValue[] };
+  mapValue?: { fields?: Record<string, FirestoreValue> };
+};
+
+function decodeValue(value: FirestoreValue): unknown {
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(decodeValue);
+  if (value.mapValue) return decodeFields(value.mapValue.fields ?? {});
+  if (value.integerValue !== undefined) return Number(value.integerValue);
+  if (value.timestampValue !== undefined) return new Date(value.timestampValue);
+  return value.booleanValue ?? value.stringValue ?? value.doubleValue ?? null;
+}
+
+function decodeFields(fields: Record<string, FirestoreValue>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+}
+
+/** The document's fields, or null when it doesn't exist */
+export async function readDocument(path: string): Promise<Record<string, unknown> | null> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!projectId) throw new Error('NEXT_PUBLIC_FIREBASE_PROJECT_ID is not set');
+
+  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/${path}` +
+    (apiKey ? `?key=${apiKey}` : '');
+  const response = await fetch(url, { cache: 'no-store' });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Reading ${path} failed with ${response.status}`);
+
+  const document = await response.json();
+  return decodeFields(document.fields ?? {});
+}
@@ -0,0 +1,56 @@
+import type { OutboxEntry } from '@/types/outbox';
+
+const DB_NAME = 'storiats-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+
+let opening: Promise<IDBDatabase | null> | null = null;
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves to null where IndexedDB isn't available (server rendering, some
+// private browsing modes); the outbox then only lasts as long as the page
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!opening) {
+    if (typeof indexedDB === 'undefined') {
+      opening = Promise.resolve(null);
+    } else {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'seq' });
+      };
+      opening = settle(request).catch(error => {
+        console.error('Error opening the offline outbox:', error);
+        return null;
+      });
+    }
+  }
+  return opening;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  return settle(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+/** Every stored entry in replay order */
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  const entries = await withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+  return (entries ?? []).sort((a, b) => a.seq - b.seq);
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry));
+}
+
+export async function deleteOutboxEntry(seq: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(seq));
+}
@@ -0,0 +1,244 @@
+import {
+  addDoc,
+  collection,
+  CollectionReference,
+  deleteDoc,
+  doc,
+  DocumentData,
+  DocumentSnapshot,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  QueryConstraint,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { updateWithVersion } from '@/lib/firestore-utils';
+import { AppError } from '@/utils/errors';
+import { toTimelineDocument, toTimelineEvent } from '@/utils/timelineConverters';
+import { sortTimelineEvents } from '@/utils/timeline';
+import type { Profile, University, MemorialInvitation } from '@/types';
+import type { Photo } from '@/types/profile';
+import type { TimelineEvent } from '@/types/timeline';
+import type { Comment } from '@/types/comments';
+import type { ProfilePermissionRecord, Repositories, VersionedWriteOptions } from '@/types/repositories';
+
+type Db = Awaited<ReturnType<typeof getDb>>;
+
+/**
+ * Dates have been stored as ISO strings and as Firestore timestamps over
+ * time, so accept either
+ */
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (value instanceof Date) return value;
+  return new Date(value);
+};
+
+type VersionedUpdate = VersionedWriteOptions & { versionField?: string };
+
+// Firestore rejects undefined field values
+const defined = <T extends object>(data: T): DocumentData =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+/**
+ * The CRUD plumbing shared by every collection: reading maps a document to
+ * the domain type, writing strips undefined fields and stamps updatedAt as
+ * the Firestore services always have.
+ */
+function collectionAccess<T extends { id: string }>(
+  path: (db: Db) => CollectionReference,
+  fromDoc: (id: string, data: DocumentData) => T,
+  label: string
+) {
+  const read = (snapshot: DocumentSnapshot): T | null =>
+    snapshot.exists() ? fromDoc(snapshot.id, snapshot.data()) : null;
+
+  return {
+    async get(id: string): Promise<T | null> {
+      return read(await getDoc(doc(path(await getDb()), id)));
+    },
+    async find(...constraints: QueryConstraint[]): Promise<T[]> {
+      const snapshot = await getDocs(query(path(await getDb()), ...constraints));
+      return snapshot.docs.map(item => fromDoc(item.id, item.data()));
+    },
+    async create(data: DocumentData): Promise<T> {
+      const ref = await addDoc(path(await getDb()), { ...defined(data), updatedAt: Timestamp.now() });
+      return read(await getDoc(ref)) as T;
+    },
+    async update(id: string, data: DocumentData, versioned?: VersionedUpdate): Promise<T> {
+      const ref = doc(path(await getDb()), id);
+      if (versioned?.expectedVersion !== undefined) {
+        await updateWithVersion<T>(ref, versioned.expectedVersion, { ...defined(data), updatedAt: Timestamp.now() }, {
+          versionField: versioned.versionField,
+          resource: label.toLowerCase(),
+          current: (current) => fromDoc(id, current),
+        });
+        return read(await getDoc(ref)) as T;
+      }
+      const existing = await getDoc(ref);
+      if (!existing.exists()) {
+        throw new AppError('NOT_FOUND', `${label} not found`, 404);
+      }
+      await updateDoc(ref, { ...defined(data), updatedAt: Timestamp.now() });
+      return read(await getDoc(ref)) as T;
+    },
+    async delete(id: string): Promise<void> {
+      await deleteDoc(doc(path(await getDb()), id));
+    },
+  };
+}
+
+const mapUniversity = (id: string, data: DocumentData): University => ({
+  id,
+  name: data.name,
+  createdAt: toDate(data.createdAt) ?? new Date(),
+  createdBy: data.createdBy,
+  admins: data.adminIds || data.admins || [],
+  isActive: data.isActive ?? true,
+  ...(data.settings ? { settings: data.settings } : {}),
+  ...(data.domainVerification ? {
+    domainVerification: {
+      ...data.domainVerification,
+      requestedAt: toDate(data.domainVerification.requestedAt) ?? new Date(),
+      lastCheckedAt: toDate(data.domainVerification.lastCheckedAt),
+      verifiedAt: toDate(data.domainVerification.verifiedAt),
+    },
+  } : {}),
+  updatedAt: toDate(data.updatedAt),
+});
+
+const mapTimelineEvent = (id: string, data: DocumentData): TimelineEvent => toTimelineEvent(data, id);
+
+const mapComment = (id: string, data: DocumentData): Comment => ({
+  ...data,
+  id,
+  createdAt: toDate(data.createdAt) ?? new Date(),
+  updatedAt: toDate(data.updatedAt),
+} as Comment);
+
+const mapMedia = (id: string, data: DocumentData): Photo => ({
+  ...data,
+  id,
+  uploadedAt: toDate(data.uploadedAt)?.toISOString() ?? '',
+} as Photo);
+
+const mapInvitation = (id: string, data: DocumentData): MemorialInvitation => ({
+  ...data,
+  id,
+  role: data.role || 'contributor',
+  createdAt: toDate(data.createdAt) ?? new Date(),
+  expiresAt: toDate(data.expiresAt) ?? new Date(),
+  acceptedAt: toDate(data.acceptedAt),
+  lastSentAt: toDate(data.lastSentAt),
+  revokedAt: toDate(data.revokedAt),
+} as MemorialInvitation);
+
+// Invitations keep their dates as ISO strings, like the invitation service writes them
+const invitationDates = (data: Partial<MemorialInvitation>): DocumentData => ({
+  ...data,
+  ...Object.fromEntries(
+    (['createdAt', 'expiresAt', 'acceptedAt', 'lastSentAt', 'revokedAt'] as const)
+      .filter(key => data[key] instanceof Date)
+      .map(key => [key, (data[key] as Date).toISOString()])
+  ),
+});
+
+const mapPermission = (profileId: string, userId: string, data: DocumentData): ProfilePermissionRecord => ({
+  profileId,
+  userId,
+  role: data.role,
+  grantedBy: data.grantedBy,
+  grantedAt: toDate(data.grantedAt)?.toISOString() ?? '',
+});
+
+/**
+ * Repositories over the Firestore collections the existing services use
+ */
+export function createFirebaseRepositories(): Repositories {
+  // Profiles keep their Firestore timestamps; the Profile type expects them
+  const profiles = collectionAccess<Profile>(db => collection(db, 'profiles'), (id, data) => ({ id, ...data } as Profile), 'Profile');
+  const universities = collectionAccess(db => collection(db, 'universities'), mapUniversity, 'University');
+  const timeline = (profileId: string) =>
+    collectionAccess(db => collection(db, 'profiles', profileId, 'timeline'), mapTimelineEvent, 'Timeline event');
+  const comments = collectionAccess(db => collection(db, 'comments'), mapComment, 'Comment');
+  const media = collectionAccess(db => collection(db, 'media'), mapMedia, 'Media');
+  const invitations = collectionAccess(db => collection(db, 'invitations'), mapInvitation, 'Invitation');
+
+  return {
+    backend: 'firebase',
+
+    profiles: {
+      get: (profileId) => profiles.get(profileId),
+      list: () => profiles.find(),
+      listByUniversity: (universityId) => profiles.find(where('universityId', '==', universityId)),
+      create: (data) => profiles.create(data),
+      update: (profileId, data, options) =>
+        profiles.update(profileId, data, options && { ...options, versionField: 'metadata.version' }),
+      delete: (profileId) => profiles.delete(profileId),
+    },
+
+    universities: {
+      get: (universityId) => universities.get(universityId),
+      list: () => universities.find(),
+      create: (data) => universities.create(data),
+      update: (universityId, data) => universities.update(universityId, data),
+    },
+
+    timeline: {
+      // Fuzzy dates ('192X') don't order as strings, so events are sorted here
+      listByProfile: async (profileId) => sortTimelineEvents(await timeline(profileId).find()).reverse(),
+      create: (profileId, data) => timeline(profileId).create(toTimelineDocument(data)),
+      update: (profileId, eventId, data, options) => timeline(profileId).update(eventId, toTimelineDocument(data), options),
+      delete: (profileId, eventId) => timeline(profileId).delete(eventId),
+    },
+
+    comments: {
+      get: (commentId) => comments.get(commentId),
+      listByProfile: (profileId) => comments.find(where('profileId', '==', profileId), orderBy('createdAt', 'desc')),
+      create: (data) => comments.create(data),
+      update: (commentId, data) => comments.update(commentId, data),
+      delete: (commentId) => comments.delete(commentId),
+    },
+
+    media: {
+      get: (mediaId) => media.get(mediaId),
+      listByFolder: (folderId) => media.find(where('folderId', '==', folderId), orderBy('uploadedAt', 'desc')),
+      create: (data) => media.create(data),
+      update: (mediaId, data) => media.update(mediaId, data),
+      delete: (mediaId) => media.delete(mediaId),
+    },
+
+    permissions: {
+      async get(profileId, userId) {
+        const snapshot = await getDoc(doc(await getDb(), 'profiles', profileId, 'permissions', userId));
+        return snapshot.exists() ? mapPermission(profileId, userId, snapshot.data()) : null;
+      },
+      async listByProfile(profileId) {
+        const snapshot = await getDocs(collection(await getDb(), 'profiles', profileId, 'permissions'));
+        return snapshot.docs.map(item => mapPermission(profileId, item.id, item.data()));
+      },
+      async set(profileId, userId, permission) {
+        await setDoc(doc(await getDb(), 'profiles', profileId, 'permissions', userId), defined(permission));
+        return { ...permission, profileId, userId };
+      },
+      async remove(profileId, userId) {
+        await deleteDoc(doc(await getDb(), 'profiles', profileId, 'permissions', userId));
+      },
+    },
+
+    invitations: {
+      get: (invitationId) => invitations.get(invitationId),
+      getByToken: async (token) => (await invitations.find(where('token', '==', token), limit(1)))[0] ?? null,
+      listByUniversity: (universityId) => invitations.find(where('universityId', '==', universityId)),
+      create: (data) => invitations.create(invitationDates(data)),
+      update: (invitationId, data) => invitations.update(invitationId, invitationDates(data)),
+    },
+  };
+}
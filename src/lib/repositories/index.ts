@@ -0,0 +1,54 @@
+import { AppError } from '@/utils/errors';
+import { DATA_BACKENDS, DataBackend, Repositories } from '@/types/repositories';
+import { createFirebaseRepositories } from './firebase';
+import { createSupabaseRepositories } from './supabase';
+import { createMemoryRepositories } from './memory';
+
+export { createMemoryRepositories } from './memory';
+export type { MemorySeed } from './memory';
+
+const DEFAULT_BACKEND: DataBackend = 'firebase';
+
+let active: Repositories | null = null;
+
+/**
+ * The backend named by NEXT_PUBLIC_DATA_BACKEND, defaulting to Firestore
+ * while the Supabase migration is in progress
+ */
+export function getConfiguredBackend(): DataBackend {
+  const configured = process.env.NEXT_PUBLIC_DATA_BACKEND || DEFAULT_BACKEND;
+  if (!DATA_BACKENDS.includes(configured as DataBackend)) {
+    throw new AppError('INVALID_ARGUMENT', `Unknown data backend "${configured}"`, 500);
+  }
+  return configured as DataBackend;
+}
+
+export function createRepositories(backend: DataBackend): Repositories {
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseRepositories();
+    case 'memory':
+      return createMemoryRepositories();
+    default:
+      return createFirebaseRepositories();
+  }
+}
+
+/**
+ * The repository set for the configured backend. Services, hooks and pages
+ * should reach data through this rather than a backend SDK.
+ */
+export function getRepositories(): Repositories {
+  if (!active) {
+    active = createRepositories(getConfiguredBackend());
+  }
+  return active;
+}
+
+/**
+ * Swap the active repositories, e.g. for an in-memory set in tests. Pass
+ * null to go back to the configured backend.
+ */
+export function setRepositories(repositories: Repositories | null): void {
+  active = repositories;
+}
@@ -0,0 +1,196 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AppError, VersionConflictError } from '@/utils/errors';
+import { applyTimelineEventChanges } from '@/utils/timelineConverters';
+import { compareFuzzyDates } from '@/utils/date';
+import type { Profile, University, MemorialInvitation } from '@/types';
+import type { Photo } from '@/types/profile';
+import type { TimelineEvent } from '@/types/timeline';
+import type { Comment } from '@/types/comments';
+import { INITIAL_VERSION } from '@/types/repositories';
+import type { NewRecord, ProfilePermissionRecord, Repositories } from '@/types/repositories';
+
+/** Records to start an in-memory repository set with */
+export interface MemorySeed {
+  profiles?: Profile[];
+  universities?: University[];
+  timeline?: (TimelineEvent & { profileId: string })[];
+  comments?: Comment[];
+  media?: Photo[];
+  permissions?: ProfilePermissionRecord[];
+  invitations?: MemorialInvitation[];
+}
+
+/**
+ * A keyed table that hands out copies, so callers can't mutate stored
+ * records by accident
+ */
+class MemoryTable<T extends { id: string }> {
+  private rows = new Map<string, T>();
+
+  constructor(private readonly label: string, seed: T[] = []) {
+    seed.forEach(row => this.rows.set(row.id, { ...row }));
+  }
+
+  get(id: string): T | null {
+    const row = this.rows.get(id);
+    return row ? { ...row } : null;
+  }
+
+  filter(predicate: (row: T) => boolean = () => true): T[] {
+    return Array.from(this.rows.values()).filter(predicate).map(row => ({ ...row }));
+  }
+
+  insert(data: Omit<T, 'id'>, id: string = uuidv4()): T {
+    const row = { ...data, id } as T;
+    this.rows.set(id, row);
+    return { ...row };
+  }
+
+  patch(id: string, data: Partial<T>): T {
+    const row = this.rows.get(id);
+    if (!row) {
+      throw new AppError('NOT_FOUND', `${this.label} not found`, 404);
+    }
+    const next = { ...row, ...data, id };
+    this.rows.set(id, next);
+    return { ...next };
+  }
+
+  remove(id: string): void {
+    this.rows.delete(id);
+  }
+}
+
+/**
+ * The version a checked update moves a row to. Throws a conflict carrying
+ * the stored row when it has moved on from `expectedVersion`.
+ */
+const nextVersion = <T>(row: T, stored: number | undefined, expectedVersion: number, resource: string): number => {
+  const version = stored ?? INITIAL_VERSION;
+  if (version !== expectedVersion) {
+    throw new VersionConflictError(row, expectedVersion, version, resource);
+  }
+  return version + 1;
+};
+
+const byTime = (value: unknown): number => {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof (value as { toMillis?: () => number }).toMillis === 'function') {
+    return (value as { toMillis: () => number }).toMillis();
+  }
+  return value ? new Date(value as string).getTime() : 0;
+};
+
+/**
+ * Repositories backed by plain Maps. State lives as long as the returned
+ * object, which makes a fresh set per test a complete reset.
+ */
+export function createMemoryRepositories(seed: MemorySeed = {}): Repositories {
+  const profiles = new MemoryTable<Profile>('Profile', seed.profiles);
+  const universities = new MemoryTable<University>('University', seed.universities);
+  const timeline = new MemoryTable<TimelineEvent & { profileId: string }>('Timeline event', seed.timeline);
+  const comments = new MemoryTable<Comment>('Comment', seed.comments);
+  const media = new MemoryTable<Photo>('Media', seed.media);
+  const permissions = new MemoryTable<ProfilePermissionRecord & { id: string }>(
+    'Permission',
+    seed.permissions?.map(permission => ({ ...permission, id: `${permission.profileId}/${permission.userId}` }))
+  );
+  const invitations = new MemoryTable<MemorialInvitation>('Invitation', seed.invitations);
+
+  const withoutProfileId = ({ profileId: _profileId, ...event }: TimelineEvent & { profileId: string }): TimelineEvent => event;
+  const withoutKey = ({ id: _id, ...permission }: ProfilePermissionRecord & { id: string }): ProfilePermissionRecord => permission;
+
+  return {
+    backend: 'memory',
+
+    profiles: {
+      get: async (profileId) => profiles.get(profileId),
+      list: async () => profiles.filter(),
+      listByUniversity: async (universityId) => profiles.filter(profile => profile.universityId === universityId),
+      create: async (data) => profiles.insert(data),
+      update: async (profileId, data, options) => {
+        const existing = profiles.get(profileId);
+        if (!existing || options?.expectedVersion === undefined) {
+          return profiles.patch(profileId, data);
+        }
+        const version = nextVersion(existing, existing.metadata?.version, options.expectedVersion, 'profile');
+        return profiles.patch(profileId, { ...data, metadata: { ...existing.metadata, ...data.metadata, version } });
+      },
+      delete: async (profileId) => profiles.remove(profileId),
+    },
+
+    universities: {
+      get: async (universityId) => universities.get(universityId),
+      list: async () => universities.filter(),
+      create: async (data) => universities.insert(data),
+      update: async (universityId, data) => universities.patch(universityId, data),
+    },
+
+    timeline: {
+      listByProfile: async (profileId) =>
+        timeline
+          .filter(event => event.profileId === profileId)
+          .sort((a, b) => compareFuzzyDates(b.startDate, a.startDate))
+          .map(withoutProfileId),
+      create: async (profileId, data) => withoutProfileId(timeline.insert({ ...data, profileId })),
+      update: async (profileId, eventId, data, options) => {
+        const existing = timeline.get(eventId);
+        if (!existing || existing.profileId !== profileId) {
+          throw new AppError('NOT_FOUND', 'Timeline event not found', 404);
+        }
+        const changed = applyTimelineEventChanges(withoutProfileId(existing), data);
+        if (options?.expectedVersion === undefined) {
+          return withoutProfileId(timeline.patch(eventId, changed));
+        }
+        const version = nextVersion(withoutProfileId(existing), existing.version, options.expectedVersion, 'timeline event');
+        return withoutProfileId(timeline.patch(eventId, { ...changed, version }));
+      },
+      delete: async (_profileId, eventId) => timeline.remove(eventId),
+    },
+
+    comments: {
+      get: async (commentId) => comments.get(commentId),
+      listByProfile: async (profileId) =>
+        comments
+          .filter(comment => comment.profileId === profileId)
+          .sort((a, b) => byTime(b.createdAt) - byTime(a.createdAt)),
+      create: async (data) => comments.insert(data),
+      update: async (commentId, data) => comments.patch(commentId, data),
+      delete: async (commentId) => comments.remove(commentId),
+    },
+
+    media: {
+      get: async (mediaId) => media.get(mediaId),
+      listByFolder: async (folderId) =>
+        media
+          .filter(item => item.folderId === folderId)
+          .sort((a, b) => byTime(b.uploadedAt) - byTime(a.uploadedAt)),
+      create: async (data) => media.insert(data),
+      update: async (mediaId, data) => media.patch(mediaId, data),
+      delete: async (mediaId) => media.remove(mediaId),
+    },
+
+    permissions: {
+      get: async (profileId, userId) => {
+        const permission = permissions.get(`${profileId}/${userId}`);
+        return permission ? withoutKey(permission) : null;
+      },
+      listByProfile: async (profileId) =>
+        permissions.filter(permission => permission.profileId === profileId).map(withoutKey),
+      set: async (profileId, userId, permission) =>
+        withoutKey(permissions.insert({ ...permission, profileId, userId }, `${profileId}/${userId}`)),
+      remove: async (profileId, userId) => permissions.remove(`${profileId}/${userId}`),
+    },
+
+    invitations: {
+      get: async (invitationId) => invitations.get(invitationId),
+      getByToken: async (token) => invitations.filter(invitation => invitation.token === token)[0] ?? null,
+      listByUniversity: async (universityId) =>
+        invitations
+          .filter(invitation => invitation.universityId === universityId)
+          .sort((a, b) => byTime(b.createdAt) - byTime(a.createdAt)),
+      create: async (data) => invitations.insert(data),
+      update: async (invitationId, data) => invitations.patch(invitationId, data),
+    },
+  };
+}
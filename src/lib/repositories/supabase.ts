@@ -0,0 +1,447 @@
+import { Timestamp } from 'firebase/firestore';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { SupabaseProfile, SupabaseTimelineEvent, SupabaseUniversity } from '@/lib/supabase-services';
+import { AppError, VersionConflictError } from '@/utils/errors';
+import { fromSupabaseTimelineEvent, toSupabaseTimelineEvent } from '@/utils/timelineConverters';
+import { fuzzyDateColumn } from '@/utils/date';
+import { sortTimelineEvents } from '@/utils/timeline';
+import type { Profile, University, MemorialInvitation } from '@/types';
+import type { Photo } from '@/types/profile';
+import type { Comment } from '@/types/comments';
+import { INITIAL_VERSION } from '@/types/repositories';
+import type { NewRecord, ProfilePermissionRecord, Repositories } from '@/types/repositories';
+
+const POSTGRES_ERRORS: Record<string, { code: string; status: number }> = {
+  '23505': { code: 'ALREADY_EXISTS', status: 409 },
+  '42501': { code: 'PERMISSION_DENIED', status: 403 },
+};
+
+function unwrap<T>({ data, error }: { data: T | null; error: PostgrestError | null }): T | null {
+  if (error) {
+    const mapped = POSTGRES_ERRORS[error.code] ?? { code: 'DATABASE_ERROR', status: 500 };
+    throw new AppError(mapped.code, error.message, mapped.status, error);
+  }
+  return data;
+}
+
+function required<T>(result: { data: T | null; error: PostgrestError | null }, label: string): T {
+  const data = unwrap(result);
+  if (data === null) {
+    throw new AppError('NOT_FOUND', `${label} not found`, 404);
+  }
+  return data;
+}
+
+/**
+ * A compare-and-set update that matched no row: either the record is gone
+ * or its version moved on before the write landed. Look again to tell which.
+ */
+function staleWrite<T>(current: T | null, version: number | undefined, expectedVersion: number, label: string): never {
+  if (!current) {
+    throw new AppError('NOT_FOUND', `${label} not found`, 404);
+  }
+  throw new VersionConflictError(current, expectedVersion, version ?? INITIAL_VERSION, label.toLowerCase());
+}
+
+const toDate = (value: string | null | undefined): Date | undefined => (value ? new Date(value) : undefined);
+
+const toIso = (value: unknown): string | null | undefined => {
+  if (value === undefined) return undefined;
+  if (!value) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof (value as Timestamp).toDate === 'function') return (value as Timestamp).toDate().toISOString();
+  return String(value);
+};
+
+// Birth and death dates that are only partly known keep their text in
+// metadata.fuzzyDates; the date columns hold the earliest day they can be
+const PROFILE_DATE_FIELDS = ['dateOfBirth', 'dateOfDeath'] as const;
+
+// Firestore-era fields of Profile that have a column in the profiles table
+function profileFromRow(row: SupabaseProfile): Profile {
+  const stamp = (value: string | null) => Timestamp.fromDate(value ? new Date(value) : new Date(0));
+  const fuzzyDates: Record<string, string> = row.metadata?.fuzzyDates ?? {};
+  return {
+    id: row.id,
+    name: row.fullName,
+    isDeceased: row.type === 'memorial' || !!row.dateOfDeath,
+    createdBy: row.metadata?.createdBy ?? row.userId ?? '',
+    status: row.status === 'pending_review' ? 'draft' : row.status,
+    createdAt: stamp(row.createdAt),
+    universityId: row.universityId ?? '',
+    basicInfo: {
+      dateOfBirth: fuzzyDates.dateOfBirth ?? stamp(row.dateOfBirth),
+      ...(row.dateOfDeath ? { dateOfDeath: fuzzyDates.dateOfDeath ?? stamp(row.dateOfDeath) } : {}),
+      biography: row.bio ?? '',
+      photo: row.photoUrl ?? '',
+      birthLocation: row.birthLocation ?? '',
+      deathLocation: row.deathLocation ?? '',
+    },
+    lifeStory: {
+      content: row.metadata?.lifeStory?.content ?? '',
+      updatedAt: stamp(row.metadata?.lifeStory?.updatedAt ?? row.updatedAt),
+    },
+    metadata: { version: row.metadata?.version ?? INITIAL_VERSION },
+  };
+}
+
+// What a write changes in the metadata column. A date's fuzzyDates entry
+// is set when the date is fuzzy and cleared (null) when it becomes exact.
+interface ProfileMetadataPatch {
+  createdBy?: string;
+  lifeStory?: { content: string; updatedAt: string | null | undefined };
+  fuzzyDates: Partial<Record<(typeof PROFILE_DATE_FIELDS)[number], string | null>>;
+}
+
+function profileToRow(data: Partial<NewRecord<Profile>>): { row: Partial<SupabaseProfile>; metadata: ProfileMetadataPatch | null } {
+  const row: Partial<SupabaseProfile> = {
+    fullName: data.name,
+    universityId: data.universityId,
+    status: data.status,
+    createdAt: toIso(data.createdAt) ?? undefined,
+    ...(data.isDeceased !== undefined ? { type: data.isDeceased ? 'memorial' : 'personal' } : {}),
+  };
+  const patch: ProfileMetadataPatch = {
+    ...(data.createdBy ? { createdBy: data.createdBy } : {}),
+    ...(data.lifeStory ? { lifeStory: { content: data.lifeStory.content, updatedAt: toIso(data.lifeStory.updatedAt) } } : {}),
+    fuzzyDates: {},
+  };
+  if (data.basicInfo) {
+    const basicInfo = data.basicInfo;
+    const [dateOfBirth, dateOfDeath] = PROFILE_DATE_FIELDS.map(field => {
+      if (!(field in basicInfo)) return undefined;
+      const fuzzy = fuzzyDateColumn(basicInfo[field]);
+      patch.fuzzyDates[field] = fuzzy ? fuzzy.text : null;
+      return fuzzy ? fuzzy.iso : toIso(basicInfo[field]);
+    });
+    Object.assign(row, {
+      dateOfBirth,
+      dateOfDeath: dateOfDeath ?? null,
+      bio: data.basicInfo.biography,
+      photoUrl: data.basicInfo.photo,
+      birthLocation: data.basicInfo.birthLocation,
+      deathLocation: data.basicInfo.deathLocation,
+    });
+  }
+  const hasPatch = patch.createdBy || patch.lifeStory || Object.keys(patch.fuzzyDates).length > 0;
+  return {
+    row: Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined)),
+    metadata: hasPatch ? patch : null,
+  };
+}
+
+/**
+ * Apply a write's metadata changes over what is stored, keeping keys the
+ * write doesn't mention, such as the version counter
+ */
+function mergeProfileMetadata(stored: Record<string, any> | null | undefined, patch: ProfileMetadataPatch): Record<string, any> {
+  const { fuzzyDates: fuzzyPatch, ...rest } = patch;
+  const fuzzyDates: Record<string, string> = { ...(stored?.fuzzyDates ?? {}) };
+  Object.entries(fuzzyPatch).forEach(([field, text]) => {
+    if (text) {
+      fuzzyDates[field] = text;
+    } else {
+      delete fuzzyDates[field];
+    }
+  });
+
+  const { fuzzyDates: _stored, ...others } = stored ?? {};
+  return {
+    ...others,
+    ...rest,
+    ...(Object.keys(fuzzyDates).length > 0 ? { fuzzyDates } : {}),
+  };
+}
+
+// The settings column also carries createdBy, which has no column of its own
+const universityFromRow = (row: SupabaseUniversity, admins: string[]): University => {
+  const { createdBy, ...settings } = row.settings ?? {};
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: toDate(row.createdAt) ?? new Date(),
+    createdBy: createdBy ?? '',
+    admins,
+    isActive: row.isActive,
+    ...(Object.keys(settings).length ? { settings } : {}),
+    updatedAt: toDate(row.updatedAt),
+  };
+};
+
+const commentFromRow = (row: any): Comment => ({
+  ...row,
+  createdAt: toDate(row.createdAt) ?? new Date(),
+  updatedAt: toDate(row.updatedAt),
+});
+
+const INVITATION_DATES = ['createdAt', 'expiresAt', 'acceptedAt', 'lastSentAt', 'revokedAt'] as const;
+
+const invitationFromRow = (row: any): MemorialInvitation => ({
+  ...row,
+  ...Object.fromEntries(INVITATION_DATES.map(key => [key, toDate(row[key])])),
+});
+
+const invitationToRow = (data: Partial<NewRecord<MemorialInvitation>>) => ({
+  ...data,
+  ...Object.fromEntries(INVITATION_DATES.filter(key => key in data).map(key => [key, toIso(data[key])])),
+});
+
+/**
+ * Repositories over the Postgres tables described in supabase-services.
+ * Column names are camelCase, as in the rest of the Supabase schema.
+ */
+export function createSupabaseRepositories(): Repositories {
+  const adminsFor = async (universityIds: string[]): Promise<Map<string, string[]>> => {
+    const rows = unwrap(await supabase.from('university_admins').select('userId, universityId').in('universityId', universityIds)) ?? [];
+    const admins = new Map<string, string[]>();
+    rows.forEach((row: { userId: string; universityId: string }) =>
+      admins.set(row.universityId, [...(admins.get(row.universityId) ?? []), row.userId])
+    );
+    return admins;
+  };
+
+  const replaceAdmins = async (universityId: string, admins: string[]) => {
+    unwrap(await supabase.from('university_admins').delete().eq('universityId', universityId));
+    if (admins.length) {
+      unwrap(await supabase.from('university_admins').insert(admins.map(userId => ({ userId, universityId }))));
+    }
+  };
+
+  const getUniversity = async (universityId: string): Promise<University | null> => {
+    const row = unwrap(await supabase.from('universities').select('*').eq('id', universityId).maybeSingle());
+    if (!row) return null;
+    const admins = await adminsFor([universityId]);
+    return universityFromRow(row, admins.get(universityId) ?? []);
+  };
+
+  return {
+    backend: 'supabase',
+
+    profiles: {
+      async get(profileId) {
+        const row = unwrap(await supabase.from('profiles').select('*').eq('id', profileId).maybeSingle());
+        return row ? profileFromRow(row) : null;
+      },
+      async list() {
+        return (unwrap(await supabase.from('profiles').select('*')) ?? []).map(profileFromRow);
+      },
+      async listByUniversity(universityId) {
+        return (unwrap(await supabase.from('profiles').select('*').eq('universityId', universityId)) ?? []).map(profileFromRow);
+      },
+      async create(data) {
+        const { row, metadata } = profileToRow(data);
+        return profileFromRow(required(
+          await supabase.from('profiles').insert([{ ...row, ...(metadata ? { metadata: mergeProfileMetadata(null, metadata) } : {}) }]).select().single(),
+          'Profile'
+        ));
+      },
+      async update(profileId, data, options) {
+        const { row, metadata } = profileToRow(data);
+        if (options?.expectedVersion === undefined) {
+          // Metadata is one jsonb column, so merge into what is stored rather than replace it
+          let update: Partial<SupabaseProfile> = row;
+          if (metadata) {
+            const existing: Pick<SupabaseProfile, 'metadata'> | null =
+              unwrap(await supabase.from('profiles').select('metadata').eq('id', profileId).maybeSingle());
+            update = { ...row, metadata: mergeProfileMetadata(existing?.metadata, metadata) };
+          }
+          return profileFromRow(required(
+            await supabase.from('profiles').update(update).eq('id', profileId).select().maybeSingle(),
+            'Profile'
+          ));
+        }
+
+        // The version sits in the metadata column alongside other keys, so carry those over
+        const { expectedVersion } = options;
+        const existing: SupabaseProfile | null = unwrap(await supabase.from('profiles').select('*').eq('id', profileId).maybeSingle());
+        const stored: number | undefined = existing?.metadata?.version;
+        if (!existing || (stored ?? INITIAL_VERSION) !== expectedVersion) {
+          staleWrite(existing && profileFromRow(existing), stored, expectedVersion, 'Profile');
+        }
+
+        const merged = metadata ? mergeProfileMetadata(existing.metadata, metadata) : existing.metadata;
+        const update = supabase
+          .from('profiles')
+          .update({ ...row, metadata: { ...merged, version: expectedVersion + 1 } })
+          .eq('id', profileId);
+        const saved = unwrap(await (stored === undefined ? update.is('metadata->>version', null) : update.eq('metadata->>version', String(stored)))
+          .select()
+          .maybeSingle());
+        if (!saved) {
+          const current: SupabaseProfile | null = unwrap(await supabase.from('profiles').select('*').eq('id', profileId).maybeSingle());
+          staleWrite(current && profileFromRow(current), current?.metadata?.version, expectedVersion, 'Profile');
+        }
+        return profileFromRow(saved);
+      },
+      async delete(profileId) {
+        unwrap(await supabase.from('profiles').delete().eq('id', profileId));
+      },
+    },
+
+    universities: {
+      get: getUniversity,
+      async list() {
+        const rows: SupabaseUniversity[] = unwrap(await supabase.from('universities').select('*').order('name')) ?? [];
+        const admins = rows.length ? await adminsFor(rows.map(row => row.id)) : new Map<string, string[]>();
+        return rows.map(row => universityFromRow(row, admins.get(row.id) ?? []));
+      },
+      async create({ admins, createdBy, settings, createdAt: _createdAt, updatedAt: _updatedAt, ...data }) {
+        const row = required<SupabaseUniversity>(
+          await supabase.from('universities').insert([{ ...data, settings: { ...settings, createdBy } }]).select().single(),
+          'University'
+        );
+        await replaceAdmins(row.id, admins);
+        return universityFromRow(row, admins);
+      },
+      async update(universityId, { admins, createdBy: _createdBy, createdAt: _createdAt, updatedAt: _updatedAt, settings, ...data }) {
+        const row: Record<string, unknown> = { ...data };
+        if (settings) {
+          const current = await getUniversity(universityId);
+          if (!current) {
+            throw new AppError('NOT_FOUND', 'University not found', 404);
+          }
+          row.settings = { ...settings, createdBy: current.createdBy };
+        }
+        if (Object.keys(row).length) {
+          required(await supabase.from('universities').update(row).eq('id', universityId).select().maybeSingle(), 'University');
+        }
+        if (admins) {
+          await replaceAdmins(universityId, admins);
+        }
+        const university = await getUniversity(universityId);
+        if (!university) {
+          throw new AppError('NOT_FOUND', 'University not found', 404);
+        }
+        return university;
+      },
+    },
+
+    timeline: {
+      async listByProfile(profileId) {
+        // Newest first; fuzzy dates ('192X') don't order as strings
+        const rows = unwrap(await supabase.from('timeline_events').select('*').eq('profileId', profileId)) ?? [];
+        return sortTimelineEvents(rows.map(fromSupabaseTimelineEvent)).reverse();
+      },
+      async create(profileId, data) {
+        return fromSupabaseTimelineEvent(required(
+          await supabase.from('timeline_events').insert([{ ...toSupabaseTimelineEvent(data), profileId }]).select().single(),
+          'Timeline event'
+        ));
+      },
+      async update(profileId, eventId, data, options) {
+        if (options?.expectedVersion === undefined) {
+          return fromSupabaseTimelineEvent(required(
+            await supabase.from('timeline_events').update(toSupabaseTimelineEvent(data)).eq('id', eventId).eq('profileId', profileId).select().maybeSingle(),
+            'Timeline event'
+          ));
+        }
+
+        const { expectedVersion } = options;
+        const saved = unwrap(await supabase
+          .from('timeline_events')
+          .update({ ...toSupabaseTimelineEvent(data), version: expectedVersion + 1 })
+          .eq('id', eventId)
+          .eq('profileId', profileId)
+          .eq('version', expectedVersion)
+          .select()
+          .maybeSingle());
+        if (!saved) {
+          const current: SupabaseTimelineEvent | null = unwrap(
+            await supabase.from('timeline_events').select('*').eq('id', eventId).eq('profileId', profileId).maybeSingle()
+          );
+          staleWrite(current && fromSupabaseTimelineEvent(current), current?.version, expectedVersion, 'Timeline event');
+        }
+        return fromSupabaseTimelineEvent(saved);
+      },
+      async delete(profileId, eventId) {
+        unwrap(await supabase.from('timeline_events').delete().eq('id', eventId).eq('profileId', profileId));
+      },
+    },
+
+    comments: {
+      async get(commentId) {
+        const row = unwrap(await supabase.from('comments').select('*').eq('id', commentId).maybeSingle());
+        return row ? commentFromRow(row) : null;
+      },
+      async listByProfile(profileId) {
+        const rows = unwrap(await supabase.from('comments').select('*').eq('profileId', profileId).order('createdAt', { ascending: false })) ?? [];
+        return rows.map(commentFromRow);
+      },
+      async create(data) {
+        return commentFromRow(required(await supabase.from('comments').insert([data]).select().single(), 'Comment'));
+      },
+      async update(commentId, data) {
+        return commentFromRow(required(await supabase.from('comments').update(data).eq('id', commentId).select().maybeSingle(), 'Comment'));
+      },
+      async delete(commentId) {
+        unwrap(await supabase.from('comments').delete().eq('id', commentId));
+      },
+    },
+
+    media: {
+      async get(mediaId) {
+        return unwrap(await supabase.from('media').select('*').eq('id', mediaId).maybeSingle()) as Photo | null;
+      },
+      async listByFolder(folderId) {
+        const base = supabase.from('media').select('*');
+        const filtered = folderId === null ? base.is('folderId', null) : base.eq('folderId', folderId);
+        return (unwrap(await filtered.order('uploadedAt', { ascending: false })) ?? []) as Photo[];
+      },
+      async create(data) {
+        return required(await supabase.from('media').insert([data]).select().single(), 'Media') as Photo;
+      },
+      async update(mediaId, data) {
+        return required(await supabase.from('media').update(data).eq('id', mediaId).select().maybeSingle(), 'Media') as Photo;
+      },
+      async delete(mediaId) {
+        unwrap(await supabase.from('media').delete().eq('id', mediaId));
+      },
+    },
+
+    permissions: {
+      async get(profileId, userId) {
+        return unwrap(await supabase.from('profile_permissions').select('*').eq('profileId', profileId).eq('userId', userId).maybeSingle()) as ProfilePermissionRecord | null;
+      },
+      async listByProfile(profileId) {
+        return (unwrap(await supabase.from('profile_permissions').select('*').eq('profileId', profileId)) ?? []) as ProfilePermissionRecord[];
+      },
+      async set(profileId, userId, permission) {
+        return required(
+          await supabase.from('profile_permissions')
+            .upsert([{ ...permission, profileId, userId }], { onConflict: 'profileId,userId' })
+            .select()
+            .single(),
+          'Permission'
+        ) as ProfilePermissionRecord;
+      },
+      async remove(profileId, userId) {
+        unwrap(await supabase.from('profile_permissions').delete().eq('profileId', profileId).eq('userId', userId));
+      },
+    },
+
+    invitations: {
+      async get(invitationId) {
+        const row = unwrap(await supabase.from('invitations').select('*').eq('id', invitationId).maybeSingle());
+        return row ? invitationFromRow(row) : null;
+      },
+      async getByToken(token) {
+        const row = unwrap(await supabase.from('invitations').select('*').eq('token', token).maybeSingle());
+        return row ? invitationFromRow(row) : null;
+      },
+      async listByUniversity(universityId) {
+        const rows = unwrap(await supabase.from('invitations').select('*').eq('universityId', universityId).order('createdAt', { ascending: false })) ?? [];
+        return rows.map(invitationFromRow);
+      },
+      async create(data) {
+        return invitationFromRow(required(await supabase.from('invitations').insert([invitationToRow(data)]).select().single(), 'Invitation'));
+      },
+      async update(invitationId, data) {
+        return invitationFromRow(required(
+          await supabase.from('invitations').update(invitationToRow(data)).eq('id', invitationId).select().maybeSingle(),
+          'Invitation'
+        ));
+      },
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import type { Session } from '@supabase/supabase-js';
+
+/**
+ * Supabase keeps the session in local storage, out of the server's sight.
+ * The access token is mirrored into this cookie so the middleware can tell
+ * who is asking (it only trusts the token after checking it with Supabase).
+ */
+export const SESSION_COOKIE = 'storiats-access-token';
+
+/** Call whenever the Supabase session changes */
+export function syncSessionCookie(session: Session | null): void {
+  if (typeof document === 'undefined') return;
+
+  const secure = window.location.protocol === 'https:' ? '; secure' : '';
+  if (!session) {
+    document.cookie = `${SESSION_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`;
+    return;
+  }
+
+  const maxAge = session.expires_in ?? 3600;
+  document.cookie = `${SESSION_COOKIE}=${session.access_token}; path=/; max-age=${maxAge}; samesite=lax${secure}`;
+}
+
+/** The email of a valid Supabase access token's user, or null */
+export async function verifySessionEmail(accessToken: string): Promise<string | null> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !anonKey) return null;
+
+  const response = await fetch(`${supabaseUrl}/auth/v1/user`, {
+    headers: { apikey: anonKey, Authorization: `Bearer ${accessToken}` },
+    cache: 'no-store',
+  });
+  if (!response.ok) return null;
+
+  const user = await response.json();
+  return typeof user?.email === 'string' ? user.email.toLowerCase() : null;
+}
@@ -0,0 +1,48 @@
+import { DEFAULT_SITE_SETTINGS, SiteSettings } from '@/types/siteSettings';
+import { readDocument } from '@/lib/firestoreRest';
+
+/**
+ * Server-side reads of the site-wide settings documents, usable from the
+ * edge middleware too.
+ */
+
+const CACHE_TTL_MS = 30 * 1000;
+
+function cached<T>(load: () => Promise<T>): () => Promise<T> {
+  let entry: { value: Promise<T>; expiresAt: number } | null = null;
+  return () => {
+    if (!entry || entry.expiresAt < Date.now()) {
+      const value = load();
+      entry = { value, expiresAt: Date.now() + CACHE_TTL_MS };
+      // A failed read shouldn't be remembered
+      value.catch(() => { entry = null; });
+    }
+    return entry.value;
+  };
+}
+
+/** The site_settings/global document, with defaults for anything unset */
+export const getSiteSettings = cached(async (): Promise<SiteSettings> => {
+  const stored = await readDocument('site_settings/global');
+  return { ...DEFAULT_SITE_SETTINGS, ...(stored as Partial<SiteSettings> | null) };
+});
+
+/** The Storiats admin allowlist kept by useAdminSettings, lower-cased */
+export const getStoriatsAdminEmails = cached(async (): Promise<string[]> => {
+  const stored = await readDocument('adminSettings/storiatsAdmins');
+  const emails = Array.isArray(stored?.adminEmails) ? stored.adminEmails : [];
+  return emails.filter((email): email is string => typeof email === 'string').map(email => email.toLowerCase());
+});
+
+/**
+ * Where contact-form messages are emailed: the emailRecipients kept with
+ * the admin allowlist, or CONTACT_EMAIL_RECIPIENTS when none are stored
+ */
+export const getContactEmailRecipients = cached(async (): Promise<string[]> => {
+  const stored = await readDocument('adminSettings/storiatsAdmins');
+  const emails = Array.isArray(stored?.emailRecipients)
+    ? stored.emailRecipients.filter((email): email is string => typeof email === 'string')
+    : [];
+  const recipients = emails.length > 0 ? emails : (process.env.CONTACT_EMAIL_RECIPIENTS ?? '').split(',');
+  return recipients.map(email => email.trim().toLowerCase()).filter(Boolean);
+});
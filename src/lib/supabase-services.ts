@@ -66,6 +66,8 @@ export interface SupabaseTimelineEvent {
   importance: 'high' | 'medium' | 'low';
   visibility: 'public' | 'private';
   tags: string[];
+  /** Bumped on every checked update; see VersionedWriteOptions */
+  version: number;
   createdAt: string;
   updatedAt: string;
   createdBy: string | null;
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { University } from '@/types';
 
 /**
  * Utility function to conditionally join class names together
@@ -16,8 +17,23 @@ export function formatDate(date: Date): string {
   }).format(date);
 }
 
-export function generateShareableUrl(orgUrl: string, profileId: string): string {
-  return `${orgUrl}/profile/${profileId}`;
+/**
+ * Absolute URL of a university's home page: its verified custom domain
+ * when it has one, otherwise its page on the app's own host
+ */
+export function universityUrl(university: Pick<University, 'id' | 'settings'>): string {
+  const customDomain = university.settings?.customDomain;
+  if (customDomain) return `https://${customDomain}`;
+
+  // Not window.location, which may be another university's domain
+  const origin = process.env.NEXT_PUBLIC_APP_URL || (typeof window !== 'undefined' ? window.location.origin : '');
+  return `${origin}/university/${university.id}`;
+}
+
+/** Null when the university has turned sharing off */
+export function generateShareableUrl(university: Pick<University, 'id' | 'settings'>, profileId: string): string | null {
+  if (university.settings?.allowSharing === false) return null;
+  return `${universityUrl(university)}/profile/${profileId}`;
 }
 
 export function isValidEmail(email: string): boolean {
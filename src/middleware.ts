@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { maintenanceResponse } from './middleware/maintenance';
+import { canonicalLink, customDomainCanonical, customDomainRoute } from './middleware/customDomain';
 
 // Paths that should skip middleware processing
 const SKIP_PATHS = [
@@ -17,19 +19,8 @@ const SKIP_PATHS = [
 const UNIVERSITY_MEMORIAL_PATTERN = /^\/university\/([^/]+)\/memorials\/([^/]+)$/;
 const UNIVERSITY_PROFILE_PATTERN = /^\/university\/([^/]+)\/profile\/([^/]+)$/;
 
-export async function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
-
-  // Early return for development environment
-  if (process.env.NODE_ENV !== 'production') {
-    return NextResponse.next();
-  }
-
-  // Early return for static files and API routes
-  if (SKIP_PATHS.some(path => pathname.startsWith(path))) {
-    return NextResponse.next();
-  }
-
+/** Request headers naming the university page being asked for, or null for other pages */
+function universityRequestHeaders(request: NextRequest, pathname: string): Headers | null {
   // Handle university memorial routes
   const memorialMatch = pathname.match(UNIVERSITY_MEMORIAL_PATTERN);
   if (memorialMatch) {
@@ -37,7 +28,7 @@ export async function middleware(request: NextRequest) {
     const requestHeaders = new Headers(request.headers);
     requestHeaders.set('x-university-id', universityId);
     requestHeaders.set('x-memorial-id', memorialId);
-    return NextResponse.next({ request: { headers: requestHeaders } });
+    return requestHeaders;
   }
 
   // Handle profile routes
@@ -47,10 +38,58 @@ export async function middleware(request: NextRequest) {
     const requestHeaders = new Headers(request.headers);
     requestHeaders.set('x-university-id', universityId);
     requestHeaders.set('x-profile-id', profileId);
-    return NextResponse.next({ request: { headers: requestHeaders } });
+    return requestHeaders;
+  }
+
+  return null;
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  // Early return for static files and API routes
+  if (SKIP_PATHS.some(path => pathname.startsWith(path))) {
+    return NextResponse.next();
+  }
+
+  // Maintenance mode applies in every environment so it can be tried out locally
+  const maintenance = await maintenanceResponse(request);
+  if (maintenance) {
+    return maintenance;
+  }
+
+  // A university's custom domain serves its pages without the /university/<id> prefix
+  const domainRoute = await customDomainRoute(request);
+  if (domainRoute && 'redirect' in domainRoute) {
+    return NextResponse.redirect(domainRoute.redirect, 308);
+  }
+  if (domainRoute) {
+    const requestHeaders = universityRequestHeaders(request, domainRoute.rewrite.pathname);
+    const response = NextResponse.rewrite(
+      domainRoute.rewrite,
+      requestHeaders ? { request: { headers: requestHeaders } } : undefined
+    );
+    response.headers.set('Link', canonicalLink(domainRoute.canonical));
+    return response;
+  }
+
+  // Early return for development environment
+  if (process.env.NODE_ENV !== 'production') {
+    return NextResponse.next();
+  }
+
+  const requestHeaders = universityRequestHeaders(request, pathname);
+  const response = requestHeaders
+    ? NextResponse.next({ request: { headers: requestHeaders } })
+    : NextResponse.next();
+
+  // Pages of universities with their own domain name it as canonical
+  const canonical = await customDomainCanonical(pathname);
+  if (canonical) {
+    response.headers.set('Link', canonicalLink(canonical));
   }
 
-  return NextResponse.next();
+  return response;
 }
 
 export const config = {
@@ -0,0 +1,67 @@
+import type { NextRequest } from 'next/server';
+import { getCustomDomainUniversityId, getUniversityCustomDomain, isAppHost } from '@/lib/customDomains';
+
+// Site-wide pages a university's domain serves as they are
+const SITE_PATHS = ['/login', '/signup', '/auth', '/maintenance', '/notifications', '/invitation'];
+
+const UNIVERSITY_PATH_PATTERN = /^\/university\/([^/]+)(\/.*)?$/;
+
+export type CustomDomainRoute =
+  | { redirect: URL }
+  | { rewrite: URL; canonical: string };
+
+const isSitePath = (pathname: string) =>
+  SITE_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`));
+
+/**
+ * Where a request on a university's verified custom domain is served
+ * from: `/profile/abc` on the domain is `/university/<id>/profile/abc`.
+ * Links that still carry the `/university/<id>` prefix are redirected
+ * to drop it. Returns null for the app's own hosts, for site-wide pages,
+ * and when the domain can't be looked up.
+ */
+export async function customDomainRoute(request: NextRequest): Promise<CustomDomainRoute | null> {
+  const { hostname, pathname } = request.nextUrl;
+  if (isAppHost(hostname) || isSitePath(pathname)) return null;
+
+  let universityId: string | null;
+  try {
+    universityId = await getCustomDomainUniversityId(hostname);
+  } catch (error) {
+    console.error('Error looking up custom domain:', error);
+    return null;
+  }
+  if (!universityId) return null;
+
+  const prefix = `/university/${universityId}`;
+  if (pathname === prefix || pathname.startsWith(`${prefix}/`)) {
+    const redirect = request.nextUrl.clone();
+    redirect.pathname = pathname.slice(prefix.length) || '/';
+    return { redirect };
+  }
+
+  const rewrite = request.nextUrl.clone();
+  rewrite.pathname = pathname === '/' ? prefix : `${prefix}${pathname}`;
+  return { rewrite, canonical: `https://${hostname}${pathname}` };
+}
+
+/**
+ * The canonical URL of a `/university/<id>/...` page on the app's own
+ * host, when the university has a verified custom domain
+ */
+export async function customDomainCanonical(pathname: string): Promise<string | null> {
+  const match = pathname.match(UNIVERSITY_PATH_PATTERN);
+  if (!match) return null;
+
+  const [, universityId, rest = '/'] = match;
+  try {
+    const domain = await getUniversityCustomDomain(universityId);
+    return domain ? `https://${domain}${rest}` : null;
+  } catch (error) {
+    console.error('Error looking up custom domain:', error);
+    return null;
+  }
+}
+
+/** A Link header value naming the canonical URL */
+export const canonicalLink = (url: string) => `<${url}>; rel="canonical"`;
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getSiteSettings, getStoriatsAdminEmails } from '@/lib/siteSettings';
+import { SESSION_COOKIE, verifySessionEmail } from '@/lib/sessionCookie';
+
+export const MAINTENANCE_PATH = '/maintenance';
+
+// Reachable during maintenance so admins can still sign in
+const MAINTENANCE_OPEN_PATHS = [MAINTENANCE_PATH, '/login', '/auth'];
+
+const SESSION_CACHE_TTL_MS = 60 * 1000;
+const sessionEmails = new Map<string, { email: string | null; expiresAt: number }>();
+
+async function sessionEmail(accessToken: string): Promise<string | null> {
+  const cachedEntry = sessionEmails.get(accessToken);
+  if (cachedEntry && cachedEntry.expiresAt > Date.now()) return cachedEntry.email;
+
+  const email = await verifySessionEmail(accessToken);
+  if (sessionEmails.size > 500) {
+    sessionEmails.forEach((entry, token) => {
+      if (entry.expiresAt <= Date.now()) sessionEmails.delete(token);
+    });
+  }
+  sessionEmails.set(accessToken, { email, expiresAt: Date.now() + SESSION_CACHE_TTL_MS });
+  return email;
+}
+
+async function isStoriatsAdminRequest(request: NextRequest): Promise<boolean> {
+  const accessToken = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!accessToken) return false;
+
+  const [email, adminEmails] = await Promise.all([sessionEmail(accessToken), getStoriatsAdminEmails()]);
+  return !!email && adminEmails.includes(email);
+}
+
+/**
+ * While maintenance mode is on, everyone but the Storiats admins is shown
+ * the maintenance page. Returns null when the request should go ahead.
+ * If the settings can't be read the site stays up.
+ */
+export async function maintenanceResponse(request: NextRequest): Promise<NextResponse | null> {
+  const { pathname } = request.nextUrl;
+  if (MAINTENANCE_OPEN_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`))) {
+    return null;
+  }
+
+  try {
+    const { maintenanceMode } = await getSiteSettings();
+    if (!maintenanceMode || (await isStoriatsAdminRequest(request))) {
+      return null;
+    }
+  } catch (error) {
+    console.error('Error checking maintenance mode:', error);
+    return null;
+  }
+
+  const response = NextResponse.rewrite(new URL(MAINTENANCE_PATH, request.url), { status: 503 });
+  response.headers.set('Retry-After', '3600');
+  response.headers.set('Cache-Control', 'no-store');
+  return response;
+}
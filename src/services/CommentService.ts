@@ -1,7 +1,15 @@
 import { getFirebaseServices } from '@/lib/firebase';
-import { collection, doc, getDoc, getDocs, addDoc, updateDoc, deleteDoc, query, where, orderBy, serverTimestamp, setDoc, writeBatch, arrayUnion, arrayRemove, limit, startAfter, Timestamp, increment } from 'firebase/firestore';
-import type { Comment, CommentThread, CommentFilters, CreateCommentDTO, UpdateCommentDTO, CommentReaction, CommentNotification } from '@/types/comments';
+import { collection, doc, getDoc, getDocs, addDoc, updateDoc, deleteDoc, query, where, orderBy, serverTimestamp, setDoc, writeBatch, arrayUnion, arrayRemove, limit, startAfter, Timestamp, increment, runTransaction, DocumentData } from 'firebase/firestore';
+import type { Comment, CommentThread, CommentFilters, CreateCommentDTO, UpdateCommentDTO, CommentReaction, CommentNotification, CommentReport, CommentReportReason, CommentModerationDecision, ModerationQueueItem } from '@/types/comments';
 import { commentSchema } from '@/types/comments';
+import { AppError } from '@/utils/errors';
+import { isUniversityAdmin } from '@/lib/permissions';
+import { auditLogService } from '@/services/auditLogService';
+import { commentFilterService } from '@/services/commentFilter';
+import { getMentionCandidates, isMentionOptedOut, resolveMentions } from '@/services/mentions';
+import { notificationService } from '@/services/notifications';
+import { universitySettingsService } from '@/services/universitySettings';
+import { AuditAction, AuditActor, SYSTEM_ACTOR } from '@/types/audit';
 
 export interface CreateCommentInput {
   content: string;
@@ -16,26 +24,88 @@ export interface CreateCommentInput {
   orgId: string;
 }
 
+const MODERATION_AUDIT_ACTIONS: Record<CommentModerationDecision, AuditAction> = {
+  hide: 'comment.hidden',
+  restore: 'comment.restored',
+  delete: 'comment.deleted',
+  ban_author: 'comment.author_banned',
+};
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+// Comments written by CommentService carry the author in createdBy; older
+// documents only have authorId or userId
+const authorIdOf = (data: DocumentData): string | undefined =>
+  data.createdBy?.id ?? data.authorId ?? data.userId;
+
 export class CommentService {
   private static readonly COMMENTS_PER_PAGE = 20;
   private static readonly MAX_REPLY_DEPTH = 3;
   private static readonly COLLECTION = 'comments';
 
+  /** Distinct reports after which a comment is hidden until a moderator reviews it */
+  static readonly AUTO_HIDE_REPORT_THRESHOLD = 3;
+
   /**
    * Create a new comment
    */
   static async createComment(input: CreateCommentInput): Promise<Comment> {
     try {
       const { db } = await getFirebaseServices();
+
+      await universitySettingsService.assertCommentsAllowed(input.orgId);
+      if (await this.isUserBanned(input.orgId, input.createdBy.id)) {
+        throw new AppError('comment/author-banned', 'You can no longer comment on this university\'s profiles', 403);
+      }
       
+      const filterResult = await commentFilterService.checkComment(input.orgId, input.createdBy.id, input.content);
+      if (filterResult.outcome === 'reject') {
+        throw new AppError('comment/rejected', 'This comment can\'t be posted because it breaks the community guidelines', 422, filterResult.matches);
+      }
+      const held = filterResult.outcome === 'hold';
+
+      // Only users with a role on the profile can be mentioned
+      const mentions = input.content.includes('@')
+        ? resolveMentions(input.content, await getMentionCandidates(input.profileId))
+            .filter(userId => userId !== input.createdBy.id)
+        : [];
+
       const commentData = {
         ...input,
+        mentions,
         createdAt: serverTimestamp(),
         reactions: {},
-        isResolved: false
+        isResolved: false,
+        // Held comments stay hidden and wait in the moderation queue
+        ...(held
+          ? {
+              isHidden: true,
+              isFlagged: true,
+              filterMatches: filterResult.matches,
+              moderation: { decision: 'held', decidedBy: SYSTEM_ACTOR.id, decidedAt: serverTimestamp() },
+            }
+          : {})
       };
 
       const docRef = await addDoc(collection(db, this.COLLECTION), commentData);
+      if (held) {
+        await auditLogService.log({
+          action: 'comment.hidden',
+          resourceType: 'comment',
+          resourceId: docRef.id,
+          universityId: input.orgId,
+          actor: SYSTEM_ACTOR,
+          metadata: { filter: true, rules: filterResult.matches.map(match => match.ruleId) },
+        });
+      }
+      // Held comments notify nobody; they may never be published
+      if (!held && mentions.length) {
+        await this.notifyMentions(docRef.id, input, mentions);
+      }
+      if (!held && input.parentId) {
+        await this.notifyReply(docRef.id, input, mentions);
+      }
       const docSnap = await getDoc(docRef);
       
       return {
@@ -45,14 +115,16 @@ export class CommentService {
       } as Comment;
     } catch (error) {
       console.error('Error creating comment:', error);
+      if (error instanceof AppError) throw error;
       throw new Error('Failed to create comment');
     }
   }
 
   /**
-   * Get comments for a media item with pagination and filtering
+   * Get comments for a profile. Hidden and soft-deleted comments are left
+   * out unless includeHidden is set.
    */
-  static async getComments(profileId: string): Promise<Comment[]> {
+  static async getComments(profileId: string, includeHidden = false): Promise<Comment[]> {
     try {
       const { db } = await getFirebaseServices();
       
@@ -63,12 +135,14 @@ export class CommentService {
       );
 
       const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map((doc) => ({
+      const comments = querySnapshot.docs.map((doc) => ({
         id: doc.id,
         ...doc.data(),
         createdAt: doc.data().createdAt?.toDate(),
         updatedAt: doc.data().updatedAt?.toDate()
       })) as Comment[];
+
+      return includeHidden ? comments : comments.filter(c => !c.isHidden && !c.isDeleted);
     } catch (error) {
       console.error('Error fetching comments:', error);
       throw new Error('Failed to fetch comments');
@@ -188,41 +262,108 @@ export class CommentService {
   }
 
   /**
-   * Create a notification for a comment action
+   * Send a comment notification through the notification center
+   */
+  private static async createNotification(notification: Omit<CommentNotification, 'id'> & { orgId: string }): Promise<void> {
+    const isReply = notification.type === 'reply';
+    await notificationService.notify({
+      userId: notification.toUserId,
+      type: isReply ? 'comment_reply' : 'mention',
+      title: isReply
+        ? `${notification.fromUserName} replied to your comment`
+        : `${notification.fromUserName} mentioned you in a comment`,
+      body: notification.content,
+      link: `/profile/${notification.profileId ?? notification.mediaId}`,
+      actor: { id: notification.fromUserId, name: notification.fromUserName },
+      resourceType: 'comment',
+      resourceId: notification.commentId,
+      universityId: notification.orgId,
+      metadata: {
+        commentType: notification.type,
+        mediaId: notification.mediaId,
+        profileId: notification.profileId,
+        fromUserAvatar: notification.fromUserAvatar,
+      },
+    });
+  }
+
+  /**
+   * Notify mentioned users, skipping anyone who opted out of mentions on
+   * the profile. A failed notification doesn't fail the comment.
+   */
+  private static async notifyMentions(commentId: string, input: CreateCommentInput, userIds: string[]): Promise<void> {
+    await Promise.all(userIds.map(async (userId) => {
+      try {
+        if (await isMentionOptedOut(input.profileId, userId)) return;
+        await this.createNotification(this.commentNotification('mention', commentId, input, userId));
+      } catch (error) {
+        console.error(`Error notifying ${userId} of mention in comment ${commentId}:`, error);
+      }
+    }));
+  }
+
+  /**
+   * Tell the parent comment's author about a reply, unless they wrote it
+   * or were already notified of a mention in it
    */
-  private static async createNotification(notification: Omit<CommentNotification, 'id'>): Promise<void> {
+  private static async notifyReply(commentId: string, input: CreateCommentInput, mentioned: string[]): Promise<void> {
     try {
       const { db } = await getFirebaseServices();
-      
-      await addDoc(collection(db, 'commentNotifications'), {
-        ...notification,
-        createdAt: serverTimestamp()
-      });
+      const parentDoc = await getDoc(doc(db, this.COLLECTION, input.parentId!));
+      const parentAuthorId = parentDoc.exists() ? authorIdOf(parentDoc.data()) : undefined;
+      if (!parentAuthorId || parentAuthorId === input.createdBy.id || mentioned.includes(parentAuthorId)) return;
+
+      await this.createNotification(this.commentNotification('reply', commentId, input, parentAuthorId));
     } catch (error) {
-      console.error('Error creating notification:', error);
-      throw new Error('Failed to create notification');
+      console.error(`Error notifying parent author of reply ${commentId}:`, error);
     }
   }
 
+  private static commentNotification(
+    type: CommentNotification['type'],
+    commentId: string,
+    input: CreateCommentInput,
+    toUserId: string
+  ): Omit<CommentNotification, 'id'> & { orgId: string } {
+    return {
+      type,
+      commentId,
+      mediaId: input.profileId,
+      profileId: input.profileId,
+      orgId: input.orgId,
+      toUserId,
+      fromUserId: input.createdBy.id,
+      fromUserName: input.createdBy.name,
+      ...(input.createdBy.avatarUrl ? { fromUserAvatar: input.createdBy.avatarUrl } : {}),
+      content: input.content.slice(0, 200),
+      isRead: false,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
   /**
-   * Get unread notifications for a user
+   * Get a user's unread comment notifications from the notification center
    */
   static async getUnreadNotifications(userId: string): Promise<CommentNotification[]> {
     try {
-      const { db } = await getFirebaseServices();
-      
-      const notificationsQuery = query(
-        collection(db, 'commentNotifications'),
-        where('toUserId', '==', userId),
-        where('isRead', '==', false),
-        orderBy('createdAt', 'desc')
-      );
-
-      const snapshot = await getDocs(notificationsQuery);
-      return snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as CommentNotification));
+      const notifications = await notificationService.getNotifications(userId, { unreadOnly: true });
+      return notifications
+        .filter(notification => notification.resourceType === 'comment')
+        .map(notification => ({
+          id: notification.id,
+          type: (notification.metadata?.commentType as CommentNotification['type']) ??
+            (notification.type === 'comment_reply' ? 'reply' : 'mention'),
+          commentId: notification.resourceId ?? '',
+          mediaId: (notification.metadata?.mediaId as string) ?? '',
+          profileId: notification.metadata?.profileId as string | undefined,
+          toUserId: notification.userId,
+          fromUserId: notification.actor?.id ?? '',
+          fromUserName: notification.actor?.name ?? 'Someone',
+          fromUserAvatar: notification.metadata?.fromUserAvatar as string | undefined,
+          content: notification.body,
+          isRead: notification.isRead,
+          createdAt: notification.createdAt.toISOString(),
+        }));
     } catch (error) {
       console.error('Error getting notifications:', error);
       throw new Error('Failed to get notifications');
@@ -234,18 +375,7 @@ export class CommentService {
    */
   static async markNotificationsAsRead(notificationIds: string[]): Promise<void> {
     try {
-      const { db } = await getFirebaseServices();
-      const batch = writeBatch(db);
-      
-      notificationIds.forEach(id => {
-        const notificationRef = doc(db, 'commentNotifications', id);
-        batch.update(notificationRef, {
-          isRead: true,
-          updatedAt: serverTimestamp()
-        });
-      });
-
-      await batch.commit();
+      await notificationService.markAsRead(notificationIds);
     } catch (error) {
       console.error('Error marking notifications as read:', error);
       throw new Error('Failed to mark notifications as read');
@@ -266,4 +396,212 @@ export class CommentService {
       throw new Error('Failed to resolve comment');
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Report a comment. Each user can report a comment once; the comment is
+   * hidden automatically once it reaches AUTO_HIDE_REPORT_THRESHOLD reports.
+   */
+  static async reportComment(
+    commentId: string,
+    reporter: AuditActor,
+    reason: CommentReportReason,
+    details?: string
+  ): Promise<{ autoHidden: boolean }> {
+    const { db } = await getFirebaseServices();
+    const commentRef = doc(db, this.COLLECTION, commentId);
+    const reportRef = doc(db, this.COLLECTION, commentId, 'reports', reporter.id);
+
+    const { autoHidden, universityId, reportCount } = await runTransaction(db, async (transaction) => {
+      const commentSnap = await transaction.get(commentRef);
+      if (!commentSnap.exists()) {
+        throw new AppError('comment/not-found', 'Comment not found', 404);
+      }
+      const data = commentSnap.data();
+      if (authorIdOf(data) === reporter.id) {
+        throw new AppError('comment/own-comment', 'You cannot report your own comment', 400);
+      }
+
+      const existingReport = await transaction.get(reportRef);
+      if (existingReport.exists()) {
+        throw new AppError('comment/already-reported', 'You have already reported this comment', 409);
+      }
+
+      const reportCount = (data.reportCount ?? 0) + 1;
+      const autoHidden = reportCount >= this.AUTO_HIDE_REPORT_THRESHOLD && !data.isHidden && !data.isDeleted;
+
+      transaction.set(reportRef, {
+        commentId,
+        universityId: data.orgId ?? null,
+        reporterId: reporter.id,
+        reason,
+        ...(details?.trim() ? { details: details.trim() } : {}),
+        createdAt: serverTimestamp(),
+        resolvedAt: null,
+      });
+      transaction.update(commentRef, {
+        reportCount,
+        isFlagged: true,
+        ...(autoHidden
+          ? {
+              isHidden: true,
+              moderation: { decision: 'auto_hidden', decidedBy: SYSTEM_ACTOR.id, decidedAt: serverTimestamp() },
+            }
+          : {}),
+      });
+
+      return { autoHidden, universityId: (data.orgId as string | undefined) ?? null, reportCount };
+    });
+
+    if (autoHidden) {
+      await auditLogService.log({
+        action: 'comment.hidden',
+        resourceType: 'comment',
+        resourceId: commentId,
+        universityId,
+        actor: SYSTEM_ACTOR,
+        metadata: { automatic: true, reportCount },
+      });
+    }
+
+    return { autoHidden };
+  }
+
+  /**
+   * Flagged comments for a university with their open reports, most
+   * reported first
+   */
+  static async getModerationQueue(universityId: string): Promise<ModerationQueueItem[]> {
+    try {
+      const { db } = await getFirebaseServices();
+      const snapshot = await getDocs(query(
+        collection(db, this.COLLECTION),
+        where('orgId', '==', universityId),
+        where('isFlagged', '==', true)
+      ));
+
+      const items = await Promise.all(snapshot.docs.map(async (commentDoc) => {
+        const data = commentDoc.data();
+        const comment = {
+          id: commentDoc.id,
+          ...data,
+          authorId: authorIdOf(data),
+          authorName: data.authorName ?? data.createdBy?.name,
+          createdAt: toDate(data.createdAt),
+          updatedAt: toDate(data.updatedAt),
+        } as Comment;
+
+        const reportsSnapshot = await getDocs(query(
+          collection(db, this.COLLECTION, commentDoc.id, 'reports'),
+          where('resolvedAt', '==', null)
+        ));
+        const reports = reportsSnapshot.docs.map(reportDoc => ({
+          id: reportDoc.id,
+          ...reportDoc.data(),
+          createdAt: toDate(reportDoc.data().createdAt) ?? new Date(),
+        } as CommentReport));
+
+        return { comment, reports };
+      }));
+
+      return items.sort((a, b) => (b.comment.reportCount ?? 0) - (a.comment.reportCount ?? 0));
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+      throw new Error('Failed to load moderation queue');
+    }
+  }
+
+  /**
+   * Apply a moderator decision to a reported comment. Open reports are
+   * resolved, the decision is stored on the comment and written to the
+   * audit log; banning also hides the comment. Only admins of the comment's
+   * university may moderate it.
+   */
+  static async moderateComment(
+    commentId: string,
+    decision: CommentModerationDecision,
+    moderator: AuditActor,
+    note?: string
+  ): Promise<void> {
+    const { db } = await getFirebaseServices();
+    const commentRef = doc(db, this.COLLECTION, commentId);
+    const commentSnap = await getDoc(commentRef);
+    if (!commentSnap.exists()) {
+      throw new AppError('comment/not-found', 'Comment not found', 404);
+    }
+    const data = commentSnap.data();
+    const universityId: string | null = data.orgId ?? null;
+    if (!universityId || !(await isUniversityAdmin(moderator.id, universityId))) {
+      throw new AppError('PERMISSION_DENIED', 'Only university admins can moderate comments', 403);
+    }
+    const authorId = authorIdOf(data);
+    const trimmedNote = note?.trim();
+
+    const visibility: Record<CommentModerationDecision, Partial<Comment>> = {
+      hide: { isHidden: true },
+      restore: { isHidden: false, isDeleted: false },
+      delete: { isHidden: true, isDeleted: true },
+      ban_author: { isHidden: true },
+    };
+
+    const batch = writeBatch(db);
+    batch.update(commentRef, {
+      ...visibility[decision],
+      isFlagged: false,
+      reportCount: 0,
+      moderation: {
+        decision,
+        decidedBy: moderator.id,
+        decidedAt: serverTimestamp(),
+        ...(trimmedNote ? { note: trimmedNote } : {}),
+      },
+      updatedAt: serverTimestamp(),
+    });
+
+    const openReports = await getDocs(query(
+      collection(db, this.COLLECTION, commentId, 'reports'),
+      where('resolvedAt', '==', null)
+    ));
+    openReports.docs.forEach(reportDoc => {
+      batch.update(reportDoc.ref, { resolvedAt: serverTimestamp(), resolution: decision });
+    });
+
+    if (decision === 'ban_author') {
+      if (!authorId) {
+        throw new AppError('comment/ban-unavailable', 'This comment has no author to ban', 400);
+      }
+      batch.set(doc(db, 'universities', universityId, 'bannedUsers', authorId), {
+        userId: authorId,
+        bannedBy: moderator.id,
+        commentId,
+        ...(trimmedNote ? { reason: trimmedNote } : {}),
+        bannedAt: serverTimestamp(),
+      });
+    }
+
+    await batch.commit();
+
+    await auditLogService.log({
+      action: MODERATION_AUDIT_ACTIONS[decision],
+      resourceType: 'comment',
+      resourceId: commentId,
+      universityId,
+      actor: moderator,
+      metadata: {
+        profileId: data.profileId,
+        authorId,
+        reports: openReports.size,
+        ...(trimmedNote ? { note: trimmedNote } : {}),
+      },
+    });
+  }
+
+  /**
+   * Whether the user has been banned from commenting at a university
+   */
+  static async isUserBanned(universityId: string | undefined, userId: string): Promise<boolean> {
+    if (!universityId) return false;
+    const { db } = await getFirebaseServices();
+    const banDoc = await getDoc(doc(db, 'universities', universityId, 'bannedUsers', userId));
+    return banDoc.exists();
+  }
+}
\ No newline at end of file
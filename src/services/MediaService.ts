@@ -4,6 +4,7 @@ import { getStorage, ref, uploadBytes, getDownloadURL, deleteObject, uploadBytes
 import { MediaFolder, Photo } from '@/types/profile';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from '@/hooks/useAuth';
+import { auditLogService } from '@/services/auditLogService';
 
 export interface UploadProgress {
   file: File;
@@ -415,6 +416,13 @@ export class MediaService {
                   thumbnailUrl: file.type.startsWith('video/') ? downloadURL : undefined
                 }
               });
+              await auditLogService.log({
+                action: 'media.uploaded',
+                resourceType: 'media',
+                resourceId: mediaRef.id,
+                actor: { id: userId },
+                metadata: { fileName: file.name, fileType: file.type, fileSize: file.size, folderId }
+              });
               resolve(mediaRef.id);
             } catch (error) {
               console.error('Error saving media metadata:', error);
@@ -432,7 +440,7 @@ export class MediaService {
   /**
    * Delete media item
    */
-  static async deleteMedia(mediaId: string): Promise<void> {
+  static async deleteMedia(mediaId: string, deletedBy: string): Promise<void> {
     try {
       const { storage, db } = await getFirebaseServices();
       
@@ -452,6 +460,14 @@ export class MediaService {
       
       // Delete document
       await deleteDoc(mediaRef);
+
+      await auditLogService.log({
+        action: 'media.deleted',
+        resourceType: 'media',
+        resourceId: mediaId,
+        actor: { id: deletedBy },
+        metadata: { fileName: mediaData.fileName, uploadedBy: mediaData.uploadedBy }
+      });
     } catch (error) {
       console.error('Error deleting media:', error);
       throw new Error('Failed to delete media');
@@ -3,8 +3,10 @@ import { doc, getDoc, setDoc, deleteDoc, Timestamp, runTransaction } from 'fireb
 import { AppError } from '../utils/errors';
 import { User } from '../types/profile';
 import { AllowedRole, UserPermission } from '@/types/permission';
+import { AUDIT_LOG_COLLECTION, AuditEvent } from '@/types/audit';
 import { LRUCache } from 'lru-cache';
 import { RateLimiter } from '@/lib/rateLimiter';
+import { notificationService } from './notifications';
 import { getAuth } from 'firebase/auth';
 import { collection, getDocs, writeBatch } from 'firebase/firestore';
 import { query, where } from 'firebase/firestore';
@@ -134,19 +136,35 @@ export class PermissionService {
         await transaction.set(permissionRef, permission);
         
         // Update audit log
-        const auditRef = doc(db, 'audit_logs', `${profileId}_${userId}_${Date.now()}`);
-        await transaction.set(auditRef, {
-          type: 'permission_change',
-          profileId,
-          userId,
-          role,
-          grantedBy,
+        const auditRef = doc(db, AUDIT_LOG_COLLECTION, `${profileId}_${userId}_${Date.now()}`);
+        const auditEvent: AuditEvent<Timestamp> = {
+          action: 'role.granted',
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId: null,
+          actor: { id: grantedBy },
+          metadata: { targetUserId: userId, role },
           timestamp: Timestamp.now()
-        });
+        };
+        await transaction.set(auditRef, auditEvent);
       });
 
       // Invalidate cache
       this.permissionCache.delete(`profile_permission:${userId}:${profileId}`);
+
+      if (userId !== grantedBy) {
+        await notificationService.notify({
+          userId,
+          type: 'role_changed',
+          title: 'Your access has changed',
+          body: `You were given the ${role} role on a profile.`,
+          link: `/profile/${profileId}`,
+          actor: { id: grantedBy },
+          resourceType: 'profile',
+          resourceId: profileId,
+          metadata: { role, change: 'granted' },
+        });
+      }
     } catch (error) {
       console.error('Error setting user profile permission:', error);
       throw new AppError('PERMISSION_ERROR', 'Failed to set user permission', 500);
@@ -160,7 +178,7 @@ export class PermissionService {
       const db = await getDb();
       const permissionRef = doc(db, 'profiles', profileId, 'permissions', userId);
       
-      await runTransaction(db, async (transaction) => {
+      const previousRole = await runTransaction(db, async (transaction) => {
         const permissionDoc = await transaction.get(permissionRef);
         if (!permissionDoc.exists()) {
           throw new AppError('NOT_FOUND', 'Permission not found', 404);
@@ -169,18 +187,35 @@ export class PermissionService {
         await transaction.delete(permissionRef);
         
         // Update audit log
-        const auditRef = doc(db, 'audit_logs', `${profileId}_${userId}_${Date.now()}`);
-        await transaction.set(auditRef, {
-          type: 'permission_revoked',
-          profileId,
-          userId,
-          revokedBy,
+        const auditRef = doc(db, AUDIT_LOG_COLLECTION, `${profileId}_${userId}_${Date.now()}`);
+        const auditEvent: AuditEvent<Timestamp> = {
+          action: 'role.revoked',
+          resourceType: 'profile',
+          resourceId: profileId,
+          universityId: null,
+          actor: { id: revokedBy },
+          metadata: { targetUserId: userId, previousRole: permissionDoc.data().role },
           timestamp: Timestamp.now()
-        });
+        };
+        await transaction.set(auditRef, auditEvent);
+        return permissionDoc.data().role as AllowedRole;
       });
 
       // Invalidate cache
       this.permissionCache.delete(`profile_permission:${userId}:${profileId}`);
+
+      if (userId !== revokedBy) {
+        await notificationService.notify({
+          userId,
+          type: 'role_changed',
+          title: 'Your access has changed',
+          body: `Your ${previousRole} role on a profile was removed.`,
+          actor: { id: revokedBy },
+          resourceType: 'profile',
+          resourceId: profileId,
+          metadata: { role: previousRole, change: 'revoked' },
+        });
+      }
     } catch (error) {
       console.error('Error revoking user profile permission:', error);
       throw new AppError('PERMISSION_ERROR', 'Failed to revoke user permission', 500);
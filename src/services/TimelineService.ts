@@ -1,11 +1,32 @@
 import { getDb } from '@/lib/firebase';
-import { collection, doc, getDoc, getDocs, addDoc, updateDoc, deleteDoc, query, where, orderBy, writeBatch } from 'firebase/firestore';
-import { AppError } from '../utils/errors';
-import { TimelineEvent, TimelineEventCreateDTO, TimelineEventUpdateDTO, TimelineEventFilters, timelineEventSchema } from '../types/profile';
+import { readVersion, updateWithVersion } from '@/lib/firestore-utils';
+import { collection, doc, getDoc, getDocs, CollectionReference, Transaction } from 'firebase/firestore';
+import { AppError, VersionConflictError } from '../utils/errors';
+import { TimelineEventCreateDTO, TimelineEventUpdateDTO, TimelineEventFilters } from '../types/profile';
+import { TimelineEvent, timelineEventSchema } from '@/types/timeline';
+import { applyTimelineEventChanges, toTimelineDocument, toTimelineEvent } from '@/utils/timelineConverters';
+import { isChronological } from '@/utils/date';
+import { sortTimelineEvents } from '@/utils/timeline';
 import { PermissionService } from './PermissionService';
-import { TimelineEntry } from '@/types/profile';
-import { getFirestore } from 'firebase/firestore';
 
+// The timeline's version lives on the profile. Every write to the timeline
+// moves it on, so a whole-timeline save based on an older copy conflicts
+// instead of deleting events added since.
+const TIMELINE_VERSION_FIELD = 'timelineVersion';
+
+// The rest of what validateTimeline finds is left to the builders and publishing
+function assertChronological(event: Pick<TimelineEvent, 'startDate' | 'endDate'>): void {
+  if (!isChronological(event.startDate, event.endDate)) {
+    throw new AppError('INVALID_ARGUMENT', 'A timeline event cannot end before it starts', 400);
+  }
+}
+
+/**
+ * Reads and writes the timeline of a profile. Events are stored in
+ * `profiles/{id}/timeline` in whatever shape they were first saved with;
+ * everything coming out of here is the canonical TimelineEvent and
+ * everything going in is written back in the canonical shape.
+ */
 export class TimelineService {
   private permissionService: PermissionService;
 
@@ -17,35 +38,29 @@ export class TimelineService {
     try {
       const db = await getDb();
       const eventsRef = collection(db, 'profiles', profileId, 'timeline');
-      let q = query(eventsRef, orderBy('startDate', 'desc'));
+      const snapshot = await getDocs(eventsRef);
+      // Newest first. Fuzzy dates ('192X', '1923~') don't order as strings,
+      // so neither sorting nor the date range can be left to the query
+      let events = sortTimelineEvents(snapshot.docs.map(doc => toTimelineEvent(doc.data(), doc.id))).reverse();
 
-      if (filters?.eventTypes?.length) {
-        q = query(q, where('type', 'in', filters.eventTypes));
+      if (filters?.dateRange?.start || filters?.dateRange?.end) {
+        const { start, end } = filters.dateRange;
+        events = events.filter(event => isChronological(start, event.endDate ?? event.startDate) && isChronological(event.startDate, end));
       }
 
-      if (filters?.dateRange?.start) {
-        q = query(q, where('startDate', '>=', filters.dateRange.start));
-      }
-
-      if (filters?.dateRange?.end) {
-        q = query(q, where('startDate', '<=', filters.dateRange.end));
+      // Apply additional filters in memory; older events are stored under
+      // other type names ('job', 'other'), so type can't be queried for
+      if (filters?.eventTypes?.length) {
+        events = events.filter(event => filters.eventTypes?.includes(event.type));
       }
 
-      const snapshot = await getDocs(q);
-      let events = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as TimelineEvent[];
-
-      // Apply additional filters in memory
       if (filters?.searchTerm) {
         const searchLower = filters.searchTerm.toLowerCase();
         events = events.filter(event => 
           event.title.toLowerCase().includes(searchLower) ||
           event.description?.toLowerCase().includes(searchLower) ||
           event.location?.toLowerCase().includes(searchLower) ||
-          (event.type === 'education' && event.metadata?.institution?.toLowerCase().includes(searchLower)) ||
-          (event.type === 'job' && event.metadata?.company?.toLowerCase().includes(searchLower)) ||
+          Object.values(event.details).some(value => value?.toLowerCase().includes(searchLower)) ||
           event.metadata?.tags?.some(tag => tag.toLowerCase().includes(searchLower))
         );
       }
@@ -74,7 +89,14 @@ export class TimelineService {
     }
   }
 
-  async createTimelineEvent(data: TimelineEventCreateDTO): Promise<TimelineEvent> {
+  /**
+   * Adds an event to a timeline still at `expectedVersion`. Resolves to
+   * the event and the timeline's new version.
+   */
+  async createTimelineEvent(
+    data: TimelineEventCreateDTO,
+    expectedVersion: number
+  ): Promise<{ event: TimelineEvent; timelineVersion: number }> {
     try {
       // Validate permissions
       const canEdit = await this.permissionService.canEditProfile(data.profileId);
@@ -83,19 +105,24 @@ export class TimelineService {
       }
 
       // Validate data
+      const { profileId, ...fields } = data;
       const validatedData = timelineEventSchema.parse({
-        ...data,
+        ...fields,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
+      assertChronological(validatedData);
 
-      const db = await getDb();
-      const eventsRef = collection(db, 'profiles', data.profileId, 'timeline');
-      const docRef = await addDoc(eventsRef, validatedData);
+      let eventId = '';
+      const timelineVersion = await this.writeTimeline(profileId, expectedVersion, (transaction, timelineRef) => {
+        const eventRef = doc(timelineRef);
+        eventId = eventRef.id;
+        transaction.set(eventRef, toTimelineDocument(validatedData));
+      });
 
       return {
-        ...validatedData,
-        id: docRef.id,
+        event: { ...validatedData, id: eventId },
+        timelineVersion,
       };
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -103,7 +130,14 @@ export class TimelineService {
     }
   }
 
-  async updateTimelineEvent(data: TimelineEventUpdateDTO & { id: string }): Promise<TimelineEvent> {
+  /**
+   * Applies an edit made to the event at `data.version` on a timeline still
+   * at `expectedVersion`. Resolves to the event and the timeline's new version.
+   */
+  async updateTimelineEvent(
+    data: TimelineEventUpdateDTO & { id: string },
+    expectedVersion: number
+  ): Promise<{ event: TimelineEvent; timelineVersion: number }> {
     try {
       // Validate permissions
       const canEdit = await this.permissionService.canEditProfile(data.profileId);
@@ -111,38 +145,41 @@ export class TimelineService {
         throw new AppError('PERMISSION_DENIED', 'You do not have permission to update timeline events', 403);
       }
 
-      const db = await getDb();
-      const eventRef = doc(db, 'profiles', data.profileId, 'timeline', data.id);
-      const eventDoc = await getDoc(eventRef);
+      const { version: eventVersion, profileId, ...changes } = data;
+      let event: TimelineEvent | undefined;
 
-      if (!eventDoc.exists()) {
-        throw new AppError('NOT_FOUND', 'Timeline event not found', 404);
-      }
+      const timelineVersion = await this.writeTimeline(profileId, expectedVersion, async (transaction, timelineRef) => {
+        const eventRef = doc(timelineRef, data.id);
+        const eventDoc = await transaction.get(eventRef);
+        if (!eventDoc.exists()) {
+          throw new AppError('NOT_FOUND', 'Timeline event not found', 404);
+        }
 
-      const updateData = {
-        ...data,
-        updatedAt: new Date(),
-      };
+        const saved = toTimelineEvent(eventDoc.data(), data.id);
+        const savedVersion = readVersion(eventDoc.data());
+        if (savedVersion !== eventVersion) {
+          throw new VersionConflictError(saved, eventVersion, savedVersion, 'timeline event');
+        }
 
-      // Validate data
-      const validatedData = timelineEventSchema.parse({
-        ...eventDoc.data(),
-        ...updateData,
-      });
+        // Validate data
+        const validatedData = timelineEventSchema.parse(
+          applyTimelineEventChanges(saved, { ...changes, updatedAt: new Date() })
+        );
+        assertChronological(validatedData);
 
-      await updateDoc(eventRef, validatedData);
+        transaction.update(eventRef, { ...toTimelineDocument(validatedData), version: savedVersion + 1 });
+        event = { ...validatedData, id: data.id, version: savedVersion + 1 };
+      });
 
-      return {
-        ...validatedData,
-        id: data.id,
-      };
+      return { event: event!, timelineVersion };
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.fromFirebaseError(error as any);
     }
   }
 
-  async deleteTimelineEvent(profileId: string, eventId: string): Promise<void> {
+  /** Deletes an event from a timeline still at `expectedVersion`; resolves to the new version */
+  async deleteTimelineEvent(profileId: string, eventId: string, expectedVersion: number): Promise<number> {
     try {
       // Validate permissions
       const canEdit = await this.permissionService.canEditProfile(profileId);
@@ -150,16 +187,17 @@ export class TimelineService {
         throw new AppError('PERMISSION_DENIED', 'You do not have permission to delete timeline events', 403);
       }
 
-      const db = await getDb();
-      const eventRef = doc(db, 'profiles', profileId, 'timeline', eventId);
-      await deleteDoc(eventRef);
+      return await this.writeTimeline(profileId, expectedVersion, (transaction, timelineRef) => {
+        transaction.delete(doc(timelineRef, eventId));
+      });
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.fromFirebaseError(error as any);
     }
   }
 
-  async reorderTimelineEvents(profileId: string, eventIds: string[]): Promise<void> {
+  /** Reorders the events of a timeline still at `expectedVersion`; resolves to the new version */
+  async reorderTimelineEvents(profileId: string, eventIds: string[], expectedVersion: number): Promise<number> {
     try {
       // Validate permissions
       const canEdit = await this.permissionService.canEditProfile(profileId);
@@ -167,18 +205,83 @@ export class TimelineService {
         throw new AppError('PERMISSION_DENIED', 'You do not have permission to reorder timeline events', 403);
       }
 
-      const db = await getDb();
       // Update each event with its new order
-      const batch = writeBatch(db);
-      eventIds.forEach((eventId, index) => {
-        const eventRef = doc(db, 'profiles', profileId, 'timeline', eventId);
-        batch.update(eventRef, { order: index });
+      return await this.writeTimeline(profileId, expectedVersion, (transaction, timelineRef) => {
+        eventIds.forEach((eventId, index) => {
+          transaction.update(doc(timelineRef, eventId), { order: index });
+        });
       });
-
-      await batch.commit();
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.fromFirebaseError(error as any);
     }
   }
-} 
\ No newline at end of file
+
+  /** The version the profile's saved timeline is at */
+  async getTimelineVersion(profileId: string): Promise<number> {
+    const db = await getDb();
+    const profileDoc = await getDoc(doc(db, 'profiles', profileId));
+    return readVersion(profileDoc.data(), TIMELINE_VERSION_FIELD);
+  }
+
+  /** The whole saved timeline of a profile and the version it is at */
+  async getTimeline(profileId: string): Promise<{ version: number; events: TimelineEvent[] }> {
+    const db = await getDb();
+    const [version, saved] = await Promise.all([
+      this.getTimelineVersion(profileId),
+      getDocs(collection(db, 'profiles', profileId, 'timeline')),
+    ]);
+    return {
+      version,
+      events: saved.docs.map(item => toTimelineEvent(item.data(), item.id)),
+    };
+  }
+
+  /**
+   * Replaces the saved timeline with `events` if it is still at
+   * `expectedVersion`; a stale save rejects with a VersionConflictError
+   * holding the saved events. Resolves to the new version.
+   */
+  async saveTimeline(profileId: string, events: TimelineEvent[], expectedVersion: number): Promise<number> {
+    const db = await getDb();
+
+    // Events keep their IDs so other editors' copies can be matched up
+    const existingEvents = await getDocs(collection(db, 'profiles', profileId, 'timeline'));
+    return this.writeTimeline(profileId, expectedVersion, (transaction, timelineRef) => {
+      existingEvents.docs
+        .filter(existing => !events.some(event => event.id === existing.id))
+        .forEach(existing => transaction.delete(existing.ref));
+      events.forEach(event => {
+        const { id, ...fields } = toTimelineDocument(event);
+        transaction.set(id ? doc(timelineRef, String(id)) : doc(timelineRef), {
+          ...fields,
+          createdAt: event.createdAt || new Date(),
+          updatedAt: new Date()
+        });
+      });
+    });
+  }
+
+  /**
+   * Makes `write` to the timeline if it is still at `expectedVersion`,
+   * moving the version on in the same transaction. A stale write rejects
+   * with a VersionConflictError holding the saved events.
+   */
+  private async writeTimeline(
+    profileId: string,
+    expectedVersion: number,
+    write: (transaction: Transaction, timelineRef: CollectionReference) => void | Promise<void>
+  ): Promise<number> {
+    const db = await getDb();
+    const timelineRef = collection(db, 'profiles', profileId, 'timeline');
+    return updateWithVersion<TimelineEvent[]>(doc(db, 'profiles', profileId), expectedVersion, {}, {
+      versionField: TIMELINE_VERSION_FIELD,
+      resource: 'timeline',
+      upsert: true,
+      current: async () => (await this.getTimeline(profileId)).events,
+      alsoWrite: (transaction) => write(transaction, timelineRef),
+    });
+  }
+}
+
+export const timelineService = new TimelineService();
@@ -0,0 +1,109 @@
+import { addDoc, writeBatch } from 'firebase/firestore';
+import { createMemoryRepositories, setRepositories } from '@/lib/repositories';
+import { isUniversityAdmin } from '@/lib/permissions';
+import { CommentService, CreateCommentInput } from '@/services/CommentService';
+import type { UniversitySettings } from '@/types/university';
+
+jest.mock('firebase/firestore', () => ({
+  addDoc: jest.fn(async () => ({ id: 'comment-1' })),
+  collection: jest.fn(),
+  doc: jest.fn(() => ({})),
+  getDoc: jest.fn(async () => ({
+    exists: () => true,
+    data: () => ({ content: 'Lovely memories', orgId: 'uni-1', createdBy: { id: 'user-1' } }),
+  })),
+  getDocs: jest.fn(async () => ({ docs: [] })),
+  query: jest.fn(),
+  where: jest.fn(),
+  writeBatch: jest.fn(),
+  serverTimestamp: jest.fn(() => 'now'),
+  Timestamp: class {},
+}));
+jest.mock('@/lib/permissions', () => ({ isUniversityAdmin: jest.fn() }));
+jest.mock('@/lib/firebase', () => ({
+  getFirebaseServices: jest.fn(async () => ({ db: {} })),
+}));
+jest.mock('@/lib/repositories/firebase', () => ({ createFirebaseRepositories: jest.fn() }));
+jest.mock('@/lib/repositories/supabase', () => ({ createSupabaseRepositories: jest.fn() }));
+jest.mock('@/services/commentFilter', () => ({
+  commentFilterService: { checkComment: jest.fn(async () => ({ outcome: 'allow', matches: [] })) },
+}));
+jest.mock('@/services/auditLogService', () => ({ auditLogService: { log: jest.fn() } }));
+jest.mock('@/services/notifications', () => ({ notificationService: { notify: jest.fn() } }));
+jest.mock('@/services/approvalWorkflow', () => ({ approvalWorkflowService: {} }));
+
+const input: CreateCommentInput = {
+  content: 'Lovely memories',
+  createdBy: { id: 'user-1', name: 'Sam', email: 'sam@example.com' },
+  profileId: 'profile-1',
+  orgId: 'uni-1',
+};
+
+const seed = (settings: Partial<UniversitySettings>) =>
+  setRepositories(createMemoryRepositories({
+    universities: [{
+      id: 'uni-1',
+      name: 'Test University',
+      createdAt: new Date('2024-01-01'),
+      createdBy: 'admin-1',
+      admins: ['admin-1'],
+      isActive: true,
+      settings,
+    }],
+  }));
+
+describe('CommentService.createComment', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(CommentService, 'isUserBanned').mockResolvedValue(false);
+  });
+
+  afterAll(() => {
+    setRepositories(null);
+  });
+
+  it('refuses comments when the university has turned them off', async () => {
+    seed({ allowComments: false });
+
+    await expect(CommentService.createComment(input)).rejects.toMatchObject({
+      code: 'comment/disabled',
+      status: 403,
+    });
+    expect(addDoc).not.toHaveBeenCalled();
+  });
+
+  it('saves comments when they are allowed', async () => {
+    seed({ allowComments: true });
+
+    await expect(CommentService.createComment(input)).resolves.toMatchObject({ id: 'comment-1' });
+    expect(addDoc).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CommentService.moderateComment', () => {
+  const commit = jest.fn();
+  const moderator = { id: 'mod-1', name: 'Morgan' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (writeBatch as jest.Mock).mockReturnValue({ update: jest.fn(), set: jest.fn(), commit });
+  });
+
+  it('refuses moderators who are not admins of the comment\'s university', async () => {
+    (isUniversityAdmin as jest.Mock).mockResolvedValue(false);
+
+    await expect(CommentService.moderateComment('comment-1', 'hide', moderator)).rejects.toMatchObject({
+      code: 'PERMISSION_DENIED',
+      status: 403,
+    });
+    expect(isUniversityAdmin).toHaveBeenCalledWith('mod-1', 'uni-1');
+    expect(writeBatch).not.toHaveBeenCalled();
+  });
+
+  it('applies decisions made by university admins', async () => {
+    (isUniversityAdmin as jest.Mock).mockResolvedValue(true);
+
+    await CommentService.moderateComment('comment-1', 'hide', moderator);
+    expect(commit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,140 @@
+import { DEFAULT_COMMENT_FILTER_CONFIG, evaluateCommentFilter } from '@/services/commentFilter';
+import type { CommentFilterConfig, CommentFilterOutcome } from '@/types/commentFilter';
+
+jest.mock('firebase/firestore', () => ({ Timestamp: class {} }));
+jest.mock('@/lib/firebase', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/permissions', () => ({ isUniversityAdmin: jest.fn() }));
+jest.mock('@/services/auditLogService', () => ({ auditLogService: { log: jest.fn() } }));
+
+type Config = Omit<CommentFilterConfig, 'universityId'>;
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const config = (overrides: Partial<Config> = {}): Config => ({ ...DEFAULT_COMMENT_FILTER_CONFIG, ...overrides });
+
+const words = (list: string[], outcome: CommentFilterOutcome = 'reject') =>
+  config({ wordLists: [{ id: 'words', name: 'Words', words: list, outcome }] });
+
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+describe('evaluateCommentFilter outcome', () => {
+  it('allows content no rule matches', () => {
+    expect(evaluateCommentFilter('Lovely memories', words(['awful']), { recentComments: [] }, NOW)).toEqual({
+      outcome: 'allow',
+      matches: [],
+    });
+  });
+
+  it('takes the most severe outcome whatever order the rules match in', () => {
+    const result = evaluateCommentFilter(
+      'spam and scam, see http://a.example http://b.example http://c.example',
+      config({
+        wordLists: [
+          { id: 'mild', name: 'Mild', words: ['spam'], outcome: 'hold' },
+          { id: 'severe', name: 'Severe', words: ['scam'], outcome: 'reject' },
+        ],
+        regexRules: [{ id: 'see', name: 'See', pattern: 'see', outcome: 'hold' }],
+      }),
+      undefined,
+      NOW
+    );
+
+    expect(result.outcome).toBe('reject');
+    expect(result.matches.map(match => match.ruleId)).toEqual(['mild', 'severe', 'see', 'link_limit']);
+  });
+
+  it('holds rather than allows when only a hold rule matches', () => {
+    const result = evaluateCommentFilter(
+      'Nice',
+      config({ regexRules: [{ id: 'any', name: 'Any', pattern: '.', outcome: 'hold' }] }),
+      undefined,
+      NOW
+    );
+    expect(result.outcome).toBe('hold');
+  });
+
+  it('ignores rules whose outcome is allow when deciding', () => {
+    const result = evaluateCommentFilter('Hello there', words(['hello'], 'allow'), undefined, NOW);
+    expect(result).toMatchObject({ outcome: 'allow', matches: [{ ruleId: 'words', outcome: 'allow' }] });
+  });
+
+  it('allows everything when the filter is turned off', () => {
+    expect(evaluateCommentFilter('scam', { ...words(['scam']), enabled: false }, undefined, NOW)).toEqual({
+      outcome: 'allow',
+      matches: [],
+    });
+  });
+
+  it('skips an invalid stored pattern and still applies the other rules', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const result = evaluateCommentFilter(
+      'scam',
+      config({
+        wordLists: [{ id: 'words', name: 'Words', words: ['scam'], outcome: 'hold' }],
+        regexRules: [{ id: 'broken', name: 'Broken', pattern: '(', outcome: 'reject' }],
+      }),
+      undefined,
+      NOW
+    );
+    expect(result).toMatchObject({ outcome: 'hold', matches: [{ ruleId: 'words' }] });
+    error.mockRestore();
+  });
+
+  it('applies the spam outcome to posting rate and repeated text', () => {
+    const activity = {
+      recentComments: [
+        ...[1, 2, 3, 4, 5].map(minutes => ({ content: `Comment ${minutes}`, createdAt: minutesAgo(minutes) })),
+        { content: '  so SORRY   for your loss ', createdAt: minutesAgo(60 * 23) },
+      ],
+    };
+    const result = evaluateCommentFilter('So sorry for your loss', config(), activity, NOW);
+
+    expect(result.outcome).toBe('hold');
+    expect(result.matches.map(match => match.ruleId)).toEqual(['spam_rate', 'spam_duplicate']);
+  });
+
+  it('does not count activity outside the windows', () => {
+    const activity = {
+      recentComments: [
+        ...[11, 12, 13, 14, 15].map(minutes => ({ content: `Comment ${minutes}`, createdAt: minutesAgo(minutes) })),
+        { content: 'So sorry for your loss', createdAt: minutesAgo(60 * 25) },
+      ],
+    };
+    expect(evaluateCommentFilter('So sorry for your loss', config(), activity, NOW).outcome).toBe('allow');
+  });
+});
+
+describe('evaluateCommentFilter word matching', () => {
+  const matches = (list: string[], content: string) => evaluateCommentFilter(content, words(list), undefined, NOW).matches;
+
+  it('matches whole words regardless of case', () => {
+    expect(matches(['scam'], 'What a SCAM.')).toHaveLength(1);
+    expect(matches(['scam'], 'Scampi for dinner')).toEqual([]);
+    expect(matches(['scam'], 'antiscam')).toEqual([]);
+  });
+
+  it('matches terms that end in punctuation', () => {
+    expect(matches(['c++'], 'Loved c++ and coffee')).toHaveLength(1);
+    expect(matches(['c++'], 'c++')).toHaveLength(1);
+    expect(matches(['f***'], 'oh f***!')).toHaveLength(1);
+    expect(matches(['c++'], 'c++x')).toEqual([]);
+  });
+
+  it('matches terms that start with punctuation', () => {
+    expect(matches(['#hashtag'], 'Look at #hashtag now')).toHaveLength(1);
+    expect(matches(['@everyone'], 'hi @everyone')).toHaveLength(1);
+    expect(matches(['#hashtag'], 'Look at #hashtags')).toEqual([]);
+    expect(matches(['.net'], 'asp.net')).toEqual([]);
+  });
+
+  it('treats letters outside ASCII as part of the word', () => {
+    expect(matches(['née'], 'Marie, née Curie')).toHaveLength(1);
+    expect(matches(['caf'], 'the café')).toEqual([]);
+  });
+
+  it('lists every word from the list that was found', () => {
+    expect(matches(['spam', ' scam ', '', 'fraud'], 'spam or scam')).toEqual([
+      expect.objectContaining({ ruleId: 'words', detail: 'Contains: spam, scam' }),
+    ]);
+  });
+});
@@ -0,0 +1,248 @@
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryRepositories, setRepositories } from '@/lib/repositories';
+import { isUniversityAdmin } from '@/lib/permissions';
+import { approvalWorkflowService } from '@/services/approvalWorkflow';
+import { auditLogService } from '@/services/auditLogService';
+import { profilesService } from '@/services/profiles';
+import { universitySettingsService, validateUniversitySettings } from '@/services/universitySettings';
+import { DEFAULT_UNIVERSITY_SETTINGS, UniversitySettings } from '@/types/university';
+import type { Profile, University } from '@/types';
+import type { WorkflowSubmission } from '@/types/workflow';
+
+// Only the in-memory repositories are used; keep the backend SDKs out
+jest.mock('firebase/firestore', () => ({
+  Timestamp: class {
+    static now() {
+      return { toMillis: () => Date.now() };
+    }
+  },
+}));
+jest.mock('@/lib/repositories/firebase', () => ({ createFirebaseRepositories: jest.fn() }));
+jest.mock('@/lib/repositories/supabase', () => ({ createSupabaseRepositories: jest.fn() }));
+
+jest.mock('@/lib/permissions', () => ({
+  isUniversityAdmin: jest.fn(),
+}));
+
+jest.mock('@/services/auditLogService', () => ({
+  auditLogService: { log: jest.fn() },
+}));
+
+jest.mock('@/services/approvalWorkflow', () => ({
+  approvalWorkflowService: {
+    getLatestSubmission: jest.fn(),
+    submitForReview: jest.fn(),
+  },
+}));
+
+const UNIVERSITY_ID = 'uni-1';
+const USER_ID = 'user-1';
+const ADMIN = { id: 'admin-1', name: 'Ada Admin' };
+
+const university = (settings?: Partial<UniversitySettings>): University => ({
+  id: UNIVERSITY_ID,
+  name: 'Test University',
+  createdAt: new Date('2024-01-01'),
+  createdBy: ADMIN.id,
+  admins: [ADMIN.id],
+  isActive: true,
+  ...(settings ? { settings } : {}),
+});
+
+let profileCount = 0;
+const profile = (changes: Partial<Profile> = {}): Profile => ({
+  id: `profile-${++profileCount}`,
+  name: 'Someone',
+  isDeceased: false,
+  createdBy: USER_ID,
+  status: 'draft',
+  createdAt: Timestamp.now(),
+  universityId: UNIVERSITY_ID,
+  basicInfo: {
+    dateOfBirth: '1950',
+    biography: '',
+    photo: '',
+    birthLocation: '',
+    deathLocation: '',
+  },
+  lifeStory: { content: '', updatedAt: Timestamp.now() },
+  ...changes,
+});
+
+const submission = (status: WorkflowSubmission['status'], contentVersion = 3): WorkflowSubmission => ({
+  id: 'submission-1',
+  resourceType: 'profile',
+  resourceId: 'profile-1',
+  universityId: UNIVERSITY_ID,
+  status,
+  stages: [],
+  currentStageIndex: 0,
+  assignedReviewers: {},
+  decisions: [],
+  submittedBy: USER_ID,
+  submittedAt: new Date(),
+  stageEnteredAt: new Date(),
+  dueAt: new Date(),
+  slaBreached: false,
+  contentVersion,
+});
+
+const seed = (settings?: Partial<UniversitySettings>, profiles: Profile[] = []) =>
+  setRepositories(createMemoryRepositories({ universities: [university(settings)], profiles }));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (isUniversityAdmin as jest.Mock).mockResolvedValue(true);
+});
+
+afterAll(() => {
+  setRepositories(null);
+});
+
+describe('validateUniversitySettings', () => {
+  it('accepts the defaults', () => {
+    expect(validateUniversitySettings(DEFAULT_UNIVERSITY_SETTINGS)).toBeNull();
+  });
+
+  it('rejects negative, fractional and oversized caps', () => {
+    expect(validateUniversitySettings({ ...DEFAULT_UNIVERSITY_SETTINGS, maxProfilesPerUser: -1 })).toMatch(/Max profiles/);
+    expect(validateUniversitySettings({ ...DEFAULT_UNIVERSITY_SETTINGS, maxMemorialsPerUser: 1.5 })).toMatch(/Max memorials/);
+    expect(validateUniversitySettings({ ...DEFAULT_UNIVERSITY_SETTINGS, maxProfilesPerUser: 5000 })).toMatch(/Max profiles/);
+  });
+
+  it('rejects a malformed notification email or custom domain', () => {
+    expect(validateUniversitySettings({ ...DEFAULT_UNIVERSITY_SETTINGS, notificationEmail: 'nope' })).toMatch(/email/);
+    expect(validateUniversitySettings({ ...DEFAULT_UNIVERSITY_SETTINGS, customDomain: 'https://x' })).toMatch(/domain/);
+    expect(validateUniversitySettings({ ...DEFAULT_UNIVERSITY_SETTINGS, customDomain: 'alumni.example.edu' })).toBeNull();
+  });
+});
+
+describe('getSettings and updateSettings', () => {
+  it('fills unset keys with defaults', async () => {
+    seed({ allowComments: false });
+    await expect(universitySettingsService.getSettings(UNIVERSITY_ID)).resolves.toEqual({
+      ...DEFAULT_UNIVERSITY_SETTINGS,
+      allowComments: false,
+    });
+  });
+
+  it('stores valid changes against the university and audits them', async () => {
+    seed();
+    const saved = await universitySettingsService.updateSettings(UNIVERSITY_ID, { maxProfilesPerUser: 3 }, ADMIN);
+
+    expect(saved.maxProfilesPerUser).toBe(3);
+    await expect(universitySettingsService.getSettings(UNIVERSITY_ID)).resolves.toMatchObject({ maxProfilesPerUser: 3 });
+    expect(auditLogService.log).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'settings.updated',
+      resourceType: 'university',
+      resourceId: UNIVERSITY_ID,
+      changes: [expect.objectContaining({ field: 'maxProfilesPerUser', oldValue: 0, newValue: 3 })],
+    }));
+  });
+
+  it('refuses invalid settings without saving them', async () => {
+    seed();
+    await expect(
+      universitySettingsService.updateSettings(UNIVERSITY_ID, { maxMemorialsPerUser: -2 }, ADMIN)
+    ).rejects.toMatchObject({ code: 'INVALID_ARGUMENT', status: 400 });
+    await expect(universitySettingsService.getSettings(UNIVERSITY_ID)).resolves.toEqual(DEFAULT_UNIVERSITY_SETTINGS);
+  });
+
+  it('only lets university admins change settings', async () => {
+    seed();
+    (isUniversityAdmin as jest.Mock).mockResolvedValue(false);
+    await expect(
+      universitySettingsService.updateSettings(UNIVERSITY_ID, { allowComments: false }, { id: USER_ID })
+    ).rejects.toMatchObject({ code: 'PERMISSION_DENIED', status: 403 });
+  });
+});
+
+describe('profile creation caps', () => {
+  const newProfile = (isDeceased = false) => {
+    const { id: _id, ...data } = profile({ isDeceased });
+    return data;
+  };
+
+  it('allows any number of profiles when the cap is 0', async () => {
+    seed({ maxProfilesPerUser: 0 }, [profile(), profile(), profile()]);
+    await expect(profilesService.createProfile(newProfile())).resolves.toMatchObject({ createdBy: USER_ID });
+  });
+
+  it('refuses a profile past the per-user cap', async () => {
+    seed({ maxProfilesPerUser: 2 }, [profile(), profile()]);
+    await expect(profilesService.createProfile(newProfile())).rejects.toMatchObject({
+      code: 'FAILED_PRECONDITION',
+      details: { limit: 2, created: 2 },
+    });
+  });
+
+  it('counts only the user\'s own profiles of the same kind', async () => {
+    seed({ maxProfilesPerUser: 1, maxMemorialsPerUser: 1 }, [
+      profile({ createdBy: 'someone-else' }),
+      profile({ isDeceased: true }),
+    ]);
+    await expect(profilesService.createProfile(newProfile())).resolves.toBeDefined();
+    await expect(profilesService.createProfile(newProfile(true))).rejects.toMatchObject({ code: 'FAILED_PRECONDITION' });
+  });
+
+  it('refuses memorials when the university has turned them off', async () => {
+    seed({ allowMemorials: false });
+    await expect(profilesService.createProfile(newProfile(true))).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+    await expect(profilesService.createProfile(newProfile())).resolves.toBeDefined();
+  });
+});
+
+describe('checkPublishApproval', () => {
+  const ref = { resourceType: 'profile' as const, resourceId: 'profile-1', universityId: UNIVERSITY_ID, contentVersion: 3 };
+
+  it('lets publishing go ahead when approval is not required', async () => {
+    seed({ requireApproval: false });
+    await expect(universitySettingsService.checkPublishApproval(ref)).resolves.toEqual({ status: 'not_required' });
+    expect(approvalWorkflowService.submitForReview).not.toHaveBeenCalled();
+  });
+
+  it('submits unreviewed content for approval', async () => {
+    seed({ requireApproval: true });
+    (approvalWorkflowService.getLatestSubmission as jest.Mock).mockResolvedValue(null);
+    (approvalWorkflowService.submitForReview as jest.Mock).mockResolvedValue(submission('in_review'));
+
+    await expect(universitySettingsService.checkPublishApproval(ref)).resolves.toMatchObject({ status: 'submitted' });
+    expect(approvalWorkflowService.submitForReview).toHaveBeenCalledWith(ref);
+  });
+
+  it('resubmits content whose last review was rejected', async () => {
+    seed({ requireApproval: true });
+    (approvalWorkflowService.getLatestSubmission as jest.Mock).mockResolvedValue(submission('rejected'));
+    (approvalWorkflowService.submitForReview as jest.Mock).mockResolvedValue(submission('in_review'));
+
+    await expect(universitySettingsService.checkPublishApproval(ref)).resolves.toMatchObject({ status: 'submitted' });
+  });
+
+  it('waits while a review is open and publishes the approved version', async () => {
+    seed({ requireApproval: true });
+    (approvalWorkflowService.getLatestSubmission as jest.Mock).mockResolvedValueOnce(submission('in_review'));
+    await expect(universitySettingsService.checkPublishApproval(ref)).resolves.toMatchObject({ status: 'in_review' });
+
+    (approvalWorkflowService.getLatestSubmission as jest.Mock).mockResolvedValueOnce(submission('approved'));
+    await expect(universitySettingsService.checkPublishApproval(ref)).resolves.toMatchObject({ status: 'approved' });
+    expect(approvalWorkflowService.submitForReview).not.toHaveBeenCalled();
+  });
+
+  it('resubmits content edited after it was approved', async () => {
+    seed({ requireApproval: true });
+    (approvalWorkflowService.getLatestSubmission as jest.Mock).mockResolvedValue(submission('approved', 3));
+    (approvalWorkflowService.submitForReview as jest.Mock).mockResolvedValue(submission('in_review', 4));
+
+    const edited = { ...ref, contentVersion: 4 };
+    await expect(universitySettingsService.checkPublishApproval(edited)).resolves.toMatchObject({ status: 'submitted' });
+    expect(approvalWorkflowService.submitForReview).toHaveBeenCalledWith(edited);
+  });
+
+  it('does not accept an approval that names no version', async () => {
+    seed({ requireApproval: true });
+    (approvalWorkflowService.getLatestSubmission as jest.Mock).mockResolvedValue({ ...submission('approved'), contentVersion: undefined });
+    (approvalWorkflowService.submitForReview as jest.Mock).mockResolvedValue(submission('in_review'));
+
+    await expect(universitySettingsService.checkPublishApproval(ref)).resolves.toMatchObject({ status: 'submitted' });
+  });
+});
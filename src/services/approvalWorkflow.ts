@@ -0,0 +1,220 @@
+import { getDb } from '@/lib/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  Timestamp,
+  DocumentSnapshot,
+} from 'firebase/firestore';
+import { AppError } from '@/utils/errors';
+import { callFunction } from '@/lib/callable';
+import { getUserProfileRole, getUserUniversityRole } from '@/lib/permissions';
+import {
+  DEFAULT_WORKFLOW_STAGES,
+  SerializedWorkflowSubmission,
+  SubmitForReviewRequest,
+  WorkflowConfig,
+  WorkflowDecisionType,
+  WorkflowStage,
+  WorkflowSubmission,
+} from '@/types/workflow';
+
+export { DEFAULT_WORKFLOW_STAGES, isSubmissionOverdue, validateWorkflowStages } from '@/types/workflow';
+
+const toDate = (value: any): Date => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (typeof value === 'string') return new Date(value);
+  return value instanceof Date ? value : new Date();
+};
+
+const toSubmission = (id: string, data: Record<string, any>): WorkflowSubmission => {
+  return {
+    ...data,
+    id,
+    submittedAt: toDate(data.submittedAt),
+    stageEnteredAt: toDate(data.stageEnteredAt),
+    dueAt: toDate(data.dueAt),
+    completedAt: data.completedAt ? toDate(data.completedAt) : undefined,
+    decisions: (data.decisions ?? []).map((decision: any) => ({
+      ...decision,
+      decidedAt: toDate(decision.decidedAt),
+    })),
+  } as WorkflowSubmission;
+};
+
+const convertToSubmission = (snapshot: DocumentSnapshot): WorkflowSubmission =>
+  toSubmission(snapshot.id, snapshot.data() ?? {});
+
+const fromSerialized = ({ id, ...data }: SerializedWorkflowSubmission): WorkflowSubmission =>
+  toSubmission(id, data);
+
+class ApprovalWorkflowService {
+  private readonly submissionsCollection = 'approvalSubmissions';
+
+  private configRef(db: Awaited<ReturnType<typeof getDb>>, universityId: string) {
+    return doc(db, 'universities', universityId, 'settings', 'approvalWorkflow');
+  }
+
+  /**
+   * A reviewer qualifies for a stage when their role on the profile, or on
+   * the university, is one of the stage's reviewer roles.
+   */
+  private async isEligibleReviewer(
+    userId: string,
+    submission: WorkflowSubmission,
+    stage: WorkflowStage
+  ): Promise<boolean> {
+    const [universityRole, profileRole] = await Promise.all([
+      getUserUniversityRole(userId, submission.universityId),
+      submission.resourceType === 'profile'
+        ? getUserProfileRole(userId, submission.resourceId)
+        : Promise.resolve(null),
+    ]);
+
+    return [universityRole, profileRole].some(role => role !== null && stage.reviewerRoles.includes(role));
+  }
+
+  async getWorkflowConfig(universityId: string): Promise<WorkflowConfig> {
+    try {
+      const db = await getDb();
+      const configDoc = await getDoc(this.configRef(db, universityId));
+
+      if (!configDoc.exists()) {
+        return { universityId, stages: DEFAULT_WORKFLOW_STAGES };
+      }
+
+      const data = configDoc.data();
+      return {
+        universityId,
+        stages: data.stages ?? DEFAULT_WORKFLOW_STAGES,
+        updatedAt: data.updatedAt ? toDate(data.updatedAt) : undefined,
+        updatedBy: data.updatedBy,
+      };
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /** Saves the university's stages; the workflow function checks the caller is one of its admins */
+  async saveWorkflowConfig(universityId: string, stages: WorkflowStage[]): Promise<void> {
+    await callFunction<{ universityId: string; stages: WorkflowStage[] }, { success: boolean }>(
+      'saveWorkflowConfig',
+      { universityId, stages }
+    );
+  }
+
+  async getSubmission(submissionId: string): Promise<WorkflowSubmission> {
+    try {
+      const db = await getDb();
+      const submissionDoc = await getDoc(doc(db, this.submissionsCollection, submissionId));
+      if (!submissionDoc.exists()) {
+        throw new AppError('NOT_FOUND', 'Submission not found', 404);
+      }
+      return convertToSubmission(submissionDoc);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async getActiveSubmission(resourceId: string): Promise<WorkflowSubmission | null> {
+    try {
+      const db = await getDb();
+      const activeQuery = query(
+        collection(db, this.submissionsCollection),
+        where('resourceId', '==', resourceId),
+        where('status', '==', 'in_review')
+      );
+      const snapshot = await getDocs(activeQuery);
+      return snapshot.empty ? null : convertToSubmission(snapshot.docs[0]);
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /** The most recent submission for a resource, whatever its outcome */
+  async getLatestSubmission(resourceId: string): Promise<WorkflowSubmission | null> {
+    try {
+      const db = await getDb();
+      const snapshot = await getDocs(
+        query(collection(db, this.submissionsCollection), where('resourceId', '==', resourceId))
+      );
+      const submissions = snapshot.docs.map(convertToSubmission);
+      return submissions.reduce<WorkflowSubmission | null>(
+        (latest, submission) => (!latest || submission.submittedAt > latest.submittedAt ? submission : latest),
+        null
+      );
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async getOpenSubmissions(universityId: string): Promise<WorkflowSubmission[]> {
+    try {
+      const db = await getDb();
+      const openQuery = query(
+        collection(db, this.submissionsCollection),
+        where('universityId', '==', universityId),
+        where('status', '==', 'in_review')
+      );
+      const snapshot = await getDocs(openQuery);
+      return snapshot.docs.map(convertToSubmission);
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /**
+   * Opens a review of the resource. The workflow function checks that the
+   * caller may edit it and that it isn't already in review.
+   */
+  async submitForReview(ref: SubmitForReviewRequest): Promise<WorkflowSubmission> {
+    return fromSerialized(await callFunction<SubmitForReviewRequest, SerializedWorkflowSubmission>('submitForReview', ref));
+  }
+
+  async assignReviewers(submissionId: string, stageId: string, reviewerIds: string[]): Promise<WorkflowSubmission> {
+    return fromSerialized(await callFunction<
+      { submissionId: string; stageId: string; reviewerIds: string[] },
+      SerializedWorkflowSubmission
+    >('assignWorkflowReviewers', { submissionId, stageId, reviewerIds }));
+  }
+
+  /**
+   * Whether to offer the user a decision on the submission's current stage.
+   * Assigned reviewers take precedence; unassigned stages are open to every
+   * user holding one of the stage's roles. The workflow function checks
+   * again before recording anything.
+   */
+  async canReview(submission: WorkflowSubmission, userId: string): Promise<boolean> {
+    if (submission.status !== 'in_review') return false;
+
+    const stage = submission.stages[submission.currentStageIndex];
+    const assigned = submission.assignedReviewers[stage.id] ?? [];
+    if (assigned.length > 0) {
+      return assigned.includes(userId);
+    }
+
+    return this.isEligibleReviewer(userId, submission, stage);
+  }
+
+  /** Records the signed-in reviewer's decision on the submission's current stage */
+  async recordDecision(
+    submissionId: string,
+    decision: WorkflowDecisionType,
+    comments?: string
+  ): Promise<WorkflowSubmission> {
+    return fromSerialized(await callFunction<
+      { submissionId: string; decision: WorkflowDecisionType; comments?: string },
+      SerializedWorkflowSubmission
+    >('decideWorkflowSubmission', { submissionId, decision, ...(comments ? { comments } : {}) }));
+  }
+
+  async withdrawSubmission(submissionId: string): Promise<void> {
+    await callFunction<{ submissionId: string }, { success: boolean }>('withdrawWorkflowSubmission', { submissionId });
+  }
+}
+
+export const approvalWorkflowService = new ApprovalWorkflowService();
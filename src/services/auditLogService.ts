@@ -1,54 +1,181 @@
 import { getDb } from '@/lib/firebase';
-import { collection, addDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  serverTimestamp,
+  Timestamp,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import {
+  AUDIT_LOG_COLLECTION,
+  AuditActor,
+  AuditEvent,
+  AuditLogEntry,
+  AuditLogFilters,
+} from '@/types/audit';
 
 export type RoleChangeType = 'role_added' | 'role_removed';
 
-export interface RoleChangeLog {
-  type: RoleChangeType;
-  orgId: string;
-  actedBy: string;
-  targetUserId: string;
-  role: string;
-  timestamp: Timestamp;
+export type NewAuditEvent = Omit<AuditEvent, 'timestamp' | 'universityId'> & {
+  universityId?: string | null;
+};
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: QueryDocumentSnapshot<DocumentData> | null;
 }
 
-class AuditLogService {
-  private readonly logsCollection = 'logs/permissions';
+/** Build the audit actor for the signed-in user returned by useAuth */
+export const auditActorFromUser = (user: {
+  id: string;
+  email?: string | null;
+  displayName?: string | null;
+}): AuditActor => ({
+  id: user.id,
+  name: user.displayName || undefined,
+  email: user.email || undefined,
+});
 
-  async logRoleChange(
-    type: RoleChangeType,
-    orgId: string,
-    actedBy: string,
-    targetUserId: string,
-    role: string
-  ): Promise<void> {
+// Firestore rejects undefined fields, including nested ones
+const stripUndefined = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(stripUndefined);
+  if (value && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Timestamp)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, stripUndefined(v)])
+    );
+  }
+  return value;
+};
+
+const toDate = (value: unknown): Date =>
+  value instanceof Timestamp ? value.toDate() : value instanceof Date ? value : new Date(0);
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render audit entries as CSV, one row per event, with field changes and
+ * metadata serialised as JSON.
+ */
+export const auditEntriesToCsv = (entries: AuditLogEntry[]): string => {
+  const header = [
+    'timestamp',
+    'action',
+    'resourceType',
+    'resourceId',
+    'universityId',
+    'actorId',
+    'actorName',
+    'actorEmail',
+    'changes',
+    'metadata',
+  ];
+  const rows = entries.map(entry => [
+    entry.timestamp.toISOString(),
+    entry.action,
+    entry.resourceType,
+    entry.resourceId,
+    entry.universityId,
+    entry.actor.id,
+    entry.actor.name,
+    entry.actor.email,
+    entry.changes?.length ? entry.changes : '',
+    entry.metadata && Object.keys(entry.metadata).length ? entry.metadata : '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+class AuditLogService {
+  async log(event: NewAuditEvent): Promise<void> {
     try {
       const db = await getDb();
-      await addDoc(collection(db, this.logsCollection), {
-        type,
-        orgId,
-        actedBy,
-        targetUserId,
-        role,
+      await addDoc(collection(db, AUDIT_LOG_COLLECTION), {
+        ...(stripUndefined(event) as Record<string, unknown>),
+        universityId: event.universityId ?? null,
         timestamp: serverTimestamp(),
       });
     } catch (error) {
       // Fallback to console log in development
       if (process.env.NODE_ENV === 'development') {
         console.error('Failed to write audit log:', error);
-        console.log('Role change:', {
-          type,
-          orgId,
-          actedBy,
-          targetUserId,
-          role,
-          timestamp: new Date().toISOString(),
-        });
+        console.log('Audit event:', { ...event, timestamp: new Date().toISOString() });
       }
       throw error;
     }
   }
 
+  async logRoleChange(
+    type: RoleChangeType,
+    orgId: string,
+    actedBy: string,
+    targetUserId: string,
+    role: string
+  ): Promise<void> {
+    return this.log({
+      action: type === 'role_added' ? 'role.granted' : 'role.revoked',
+      resourceType: 'university',
+      resourceId: orgId,
+      universityId: orgId,
+      actor: { id: actedBy },
+      metadata: { targetUserId, role },
+    });
+  }
+
+  /**
+   * Newest-first page of audit events. Each equality filter combined with a
+   * date range needs a composite index on (field, timestamp).
+   */
+  async queryEvents(
+    filters: AuditLogFilters = {},
+    pageSize = 50,
+    cursor?: QueryDocumentSnapshot<DocumentData> | null
+  ): Promise<AuditLogPage> {
+    const db = await getDb();
+    const constraints: QueryConstraint[] = [];
+
+    if (filters.actorId) constraints.push(where('actor.id', '==', filters.actorId));
+    if (filters.resourceType) constraints.push(where('resourceType', '==', filters.resourceType));
+    if (filters.resourceId) constraints.push(where('resourceId', '==', filters.resourceId));
+    if (filters.action) constraints.push(where('action', '==', filters.action));
+    if (filters.universityId) constraints.push(where('universityId', '==', filters.universityId));
+    if (filters.from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(filters.from)));
+    if (filters.to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(filters.to)));
+
+    constraints.push(orderBy('timestamp', 'desc'));
+    if (cursor) constraints.push(startAfter(cursor));
+    constraints.push(limit(pageSize));
+
+    const snapshot = await getDocs(query(collection(db, AUDIT_LOG_COLLECTION), ...constraints));
+    const entries = snapshot.docs.map(auditDoc => {
+      const data = auditDoc.data();
+      return {
+        ...data,
+        id: auditDoc.id,
+        actor: data.actor ?? { id: 'unknown' },
+        universityId: data.universityId ?? null,
+        timestamp: toDate(data.timestamp),
+      } as AuditLogEntry;
+    });
+
+    return {
+      entries,
+      nextCursor: snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : null,
+    };
+  }
+
   async logRoleAdded(
     orgId: string,
     actedBy: string,
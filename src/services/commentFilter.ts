@@ -0,0 +1,263 @@
+import { getDb } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, setDoc, Timestamp, where } from 'firebase/firestore';
+import { AppError } from '@/utils/errors';
+import { isUniversityAdmin } from '@/lib/permissions';
+import { auditLogService } from './auditLogService';
+import type {
+  CommentAuthorActivity,
+  CommentFilterConfig,
+  CommentFilterMatch,
+  CommentFilterOutcome,
+  CommentFilterResult,
+} from '@/types/commentFilter';
+
+const OUTCOME_SEVERITY: Record<CommentFilterOutcome, number> = { allow: 0, hold: 1, reject: 2 };
+
+const MAX_ACTIVITY_LOOKBACK = 50;
+
+export const DEFAULT_COMMENT_FILTER_CONFIG: Omit<CommentFilterConfig, 'universityId'> = {
+  enabled: true,
+  wordLists: [],
+  regexRules: [],
+  linkLimit: { maxLinks: 2, outcome: 'hold' },
+  spam: { maxCommentsPerWindow: 5, windowMinutes: 10, duplicateWindowHours: 24, outcome: 'hold' },
+};
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b needs a word character on one side, so it never matches next to terms
+// like "c++" or "#tag"; look for letters and digits around the term instead
+const wordPattern = (word: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegex(word)}(?![\\p{L}\\p{N}_])`, 'iu');
+
+const normalizeContent = (content: string) => content.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const toDate = (value: any): Date => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (typeof value === 'string') return new Date(value);
+  return value instanceof Date ? value : new Date();
+};
+
+/**
+ * Validate a university's filter configuration
+ * @returns An error message, or null when the configuration is valid
+ */
+export const validateCommentFilterConfig = (config: Omit<CommentFilterConfig, 'universityId'>): string | null => {
+  for (const list of config.wordLists) {
+    if (!list.name.trim()) return 'Every word list needs a name';
+    if (!list.words.some(word => word.trim())) return `Word list "${list.name}" has no words`;
+  }
+  for (const rule of config.regexRules) {
+    if (!rule.name.trim()) return 'Every pattern rule needs a name';
+    try {
+      new RegExp(rule.pattern, (rule.flags ?? 'i').replace('g', ''));
+    } catch {
+      return `Pattern rule "${rule.name}" is not a valid regular expression`;
+    }
+  }
+  if (!(config.linkLimit.maxLinks >= 0)) return 'The link limit cannot be negative';
+  if (!(config.spam.maxCommentsPerWindow > 0) || !(config.spam.windowMinutes > 0)) {
+    return 'The rate limit needs a positive comment count and window';
+  }
+  if (!(config.spam.duplicateWindowHours >= 0)) return 'The duplicate window cannot be negative';
+  return null;
+};
+
+/**
+ * Run content through a university's filter rules. The result's outcome is
+ * the most severe outcome of all matching rules, or 'allow' when none match.
+ * Activity is optional so rules can be tried against sample text.
+ */
+export const evaluateCommentFilter = (
+  content: string,
+  config: Omit<CommentFilterConfig, 'universityId'>,
+  activity?: CommentAuthorActivity,
+  now: Date = new Date()
+): CommentFilterResult => {
+  if (!config.enabled) return { outcome: 'allow', matches: [] };
+
+  const matches: CommentFilterMatch[] = [];
+
+  for (const list of config.wordLists) {
+    const found = list.words
+      .map(word => word.trim())
+      .filter(word => word && wordPattern(word).test(content));
+    if (found.length) {
+      matches.push({ ruleId: list.id, ruleName: list.name, outcome: list.outcome, detail: `Contains: ${found.join(', ')}` });
+    }
+  }
+
+  for (const rule of config.regexRules) {
+    try {
+      const match = new RegExp(rule.pattern, (rule.flags ?? 'i').replace('g', '')).exec(content);
+      if (match) {
+        matches.push({ ruleId: rule.id, ruleName: rule.name, outcome: rule.outcome, detail: `Matched "${match[0]}"` });
+      }
+    } catch (error) {
+      // An invalid stored pattern shouldn't block every comment
+      console.error(`Skipping invalid comment filter pattern ${rule.id}:`, error);
+    }
+  }
+
+  const linkCount = content.match(LINK_PATTERN)?.length ?? 0;
+  if (linkCount > config.linkLimit.maxLinks) {
+    matches.push({
+      ruleId: 'link_limit',
+      ruleName: 'Link limit',
+      outcome: config.linkLimit.outcome,
+      detail: `${linkCount} links (limit ${config.linkLimit.maxLinks})`,
+    });
+  }
+
+  if (activity) {
+    const { spam } = config;
+    const windowStart = now.getTime() - spam.windowMinutes * 60 * 1000;
+    const recentCount = activity.recentComments.filter(c => c.createdAt.getTime() >= windowStart).length;
+    if (recentCount >= spam.maxCommentsPerWindow) {
+      matches.push({
+        ruleId: 'spam_rate',
+        ruleName: 'Posting rate',
+        outcome: spam.outcome,
+        detail: `${recentCount} comments in the last ${spam.windowMinutes} minutes`,
+      });
+    }
+
+    const duplicateStart = now.getTime() - spam.duplicateWindowHours * 60 * 60 * 1000;
+    const normalized = normalizeContent(content);
+    const isDuplicate = activity.recentComments.some(
+      c => c.createdAt.getTime() >= duplicateStart && normalizeContent(c.content) === normalized
+    );
+    if (isDuplicate) {
+      matches.push({
+        ruleId: 'spam_duplicate',
+        ruleName: 'Repeated content',
+        outcome: spam.outcome,
+        detail: `Same text posted within ${spam.duplicateWindowHours} hours`,
+      });
+    }
+  }
+
+  const outcome = matches.reduce<CommentFilterOutcome>(
+    (worst, match) => (OUTCOME_SEVERITY[match.outcome] > OUTCOME_SEVERITY[worst] ? match.outcome : worst),
+    'allow'
+  );
+
+  return { outcome, matches };
+};
+
+class CommentFilterService {
+  private configRef(db: Awaited<ReturnType<typeof getDb>>, universityId: string) {
+    return doc(db, 'universities', universityId, 'settings', 'commentFilter');
+  }
+
+  async getConfig(universityId: string): Promise<CommentFilterConfig> {
+    try {
+      const db = await getDb();
+      const configDoc = await getDoc(this.configRef(db, universityId));
+
+      if (!configDoc.exists()) {
+        return { universityId, ...DEFAULT_COMMENT_FILTER_CONFIG };
+      }
+
+      const data = configDoc.data();
+      return {
+        universityId,
+        enabled: data.enabled ?? DEFAULT_COMMENT_FILTER_CONFIG.enabled,
+        wordLists: data.wordLists ?? [],
+        regexRules: data.regexRules ?? [],
+        linkLimit: data.linkLimit ?? DEFAULT_COMMENT_FILTER_CONFIG.linkLimit,
+        spam: data.spam ?? DEFAULT_COMMENT_FILTER_CONFIG.spam,
+        updatedAt: data.updatedAt ? toDate(data.updatedAt) : undefined,
+        updatedBy: data.updatedBy,
+      };
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async saveConfig(
+    universityId: string,
+    config: Omit<CommentFilterConfig, 'universityId' | 'updatedAt' | 'updatedBy'>,
+    actorId: string
+  ): Promise<CommentFilterConfig> {
+    try {
+      if (!(await isUniversityAdmin(actorId, universityId))) {
+        throw new AppError('PERMISSION_DENIED', 'Only university admins can configure the comment filter', 403);
+      }
+
+      const validationError = validateCommentFilterConfig(config);
+      if (validationError) {
+        throw new AppError('INVALID_ARGUMENT', validationError, 400);
+      }
+
+      const db = await getDb();
+      const now = new Date();
+      const stored = {
+        enabled: config.enabled,
+        wordLists: config.wordLists.map(list => ({
+          ...list,
+          words: list.words.map(word => word.trim()).filter(Boolean),
+        })),
+        regexRules: config.regexRules,
+        linkLimit: config.linkLimit,
+        spam: config.spam,
+      };
+      await setDoc(this.configRef(db, universityId), {
+        ...stored,
+        updatedAt: Timestamp.fromDate(now),
+        updatedBy: actorId,
+      });
+
+      await auditLogService.log({
+        action: 'settings.updated',
+        resourceType: 'settings',
+        resourceId: `universities/${universityId}/settings/commentFilter`,
+        universityId,
+        actor: { id: actorId },
+      });
+
+      return { universityId, ...stored, updatedAt: now, updatedBy: actorId };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /**
+   * The author's most recent comments within the longest spam window
+   */
+  async getAuthorActivity(authorId: string, config: CommentFilterConfig, now: Date = new Date()): Promise<CommentAuthorActivity> {
+    const lookbackMs = Math.max(config.spam.windowMinutes * 60 * 1000, config.spam.duplicateWindowHours * 60 * 60 * 1000);
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, 'comments'),
+      where('createdBy.id', '==', authorId),
+      where('createdAt', '>=', Timestamp.fromMillis(now.getTime() - lookbackMs)),
+      orderBy('createdAt', 'desc'),
+      limit(MAX_ACTIVITY_LOOKBACK)
+    ));
+
+    return {
+      recentComments: snapshot.docs.map(commentDoc => ({
+        content: commentDoc.data().content ?? '',
+        createdAt: toDate(commentDoc.data().createdAt),
+      })),
+    };
+  }
+
+  /**
+   * Evaluate a new comment against its university's rules, including the
+   * author's recent activity
+   */
+  async checkComment(universityId: string, authorId: string, content: string): Promise<CommentFilterResult> {
+    const config = await this.getConfig(universityId);
+    if (!config.enabled) return { outcome: 'allow', matches: [] };
+
+    const activity = await this.getAuthorActivity(authorId, config);
+    return evaluateCommentFilter(content, config, activity);
+  }
+}
+
+export const commentFilterService = new CommentFilterService();
@@ -0,0 +1,60 @@
+import { callFunction } from '@/lib/callable';
+import { getRepositories } from '@/lib/repositories';
+import { AppError } from '@/utils/errors';
+import { CustomDomainTxtRecord, CustomDomainVerification, customDomainTxtRecord } from '@/types/university';
+
+export interface CustomDomainState {
+  /** The domain the university is served on, once verified */
+  domain: string | null;
+  /** The domain being verified, or last verified */
+  verification: CustomDomainVerification | null;
+  /** The TXT record that proves control of `verification.domain` */
+  record: CustomDomainTxtRecord | null;
+}
+
+export interface CustomDomainCheck {
+  verified: boolean;
+  domain: string;
+  failureReason?: string;
+}
+
+/**
+ * Custom domains for university sites. An admin adds a domain, publishes
+ * the TXT record they are given, then asks for it to be checked; the
+ * checks themselves run in Cloud Functions.
+ */
+class CustomDomainService {
+  async getState(universityId: string): Promise<CustomDomainState> {
+    const university = await getRepositories().universities.get(universityId);
+    if (!university) {
+      throw new AppError('NOT_FOUND', 'University not found', 404);
+    }
+
+    const verification = university.domainVerification ?? null;
+    return {
+      domain: university.settings?.customDomain ?? null,
+      verification,
+      record: verification ? customDomainTxtRecord(verification.domain, verification.token) : null,
+    };
+  }
+
+  /** Starts verifying a domain, returning the TXT record to publish */
+  async requestVerification(universityId: string, domain: string): Promise<CustomDomainTxtRecord> {
+    const { record } = await callFunction<{ universityId: string; domain: string }, { record: CustomDomainTxtRecord }>(
+      'requestCustomDomainVerification',
+      { universityId, domain }
+    );
+    return record;
+  }
+
+  /** Checks the pending domain's TXT record, switching the university over when it matches */
+  async verify(universityId: string): Promise<CustomDomainCheck> {
+    return callFunction<{ universityId: string }, CustomDomainCheck>('verifyCustomDomain', { universityId });
+  }
+
+  async remove(universityId: string): Promise<void> {
+    await callFunction<{ universityId: string }, { success: boolean }>('removeCustomDomain', { universityId });
+  }
+}
+
+export const customDomainService = new CustomDomainService();
@@ -0,0 +1,230 @@
+import { getDb } from '@/lib/firebase';
+import {
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  DocumentSnapshot,
+} from 'firebase/firestore';
+import { AppError } from '@/utils/errors';
+import { isProfileAdmin, isUniversityAdmin } from '@/lib/permissions';
+import type { AuditActor } from '@/types/audit';
+import type { EditorRequest, EditorRequesterHistory, EditorRequestStats } from '@/types/requests';
+import { auditLogService } from './auditLogService';
+import { notificationService } from './notifications';
+import { PermissionService } from './PermissionService';
+
+/** Whose requests a queue shows: one profile's, or every profile's at a university */
+export type EditorRequestScope = { profileId: string } | { universityId: string };
+
+const toRequest = (snapshot: DocumentSnapshot): EditorRequest =>
+  ({ ...snapshot.data(), id: snapshot.id } as EditorRequest);
+
+const newestFirst = (a: EditorRequest, b: EditorRequest) =>
+  (b.requestedAt?.toMillis() ?? 0) - (a.requestedAt?.toMillis() ?? 0);
+
+/**
+ * The review side of editor access requests. Requests are made with
+ * EditorRequestButton; profile admins and the admins of the profile's
+ * university approve or reject them here. Request statistics are kept by
+ * the syncEditorRequestStats Cloud Function and only read from here.
+ */
+class EditorRequestService {
+  private requestRef(db: Awaited<ReturnType<typeof getDb>>, profileId: string, requestId: string) {
+    return doc(db, 'profiles', profileId, 'editorRequests', requestId);
+  }
+
+  /** The university a profile belongs to, as the Cloud Function records it */
+  private async universityOf(profileId: string): Promise<string | null> {
+    const db = await getDb();
+    const profile = (await getDoc(doc(db, 'profiles', profileId))).data();
+    return profile?.universityId ?? profile?.orgId ?? null;
+  }
+
+  /** Whether a user may review requests for a profile */
+  async canReview(userId: string, profileId: string, universityId?: string | null): Promise<boolean> {
+    if (await isProfileAdmin(userId, profileId)) return true;
+    const university = universityId ?? (await this.universityOf(profileId));
+    return !!university && isUniversityAdmin(userId, university);
+  }
+
+  async getPendingRequests(scope: EditorRequestScope): Promise<EditorRequest[]> {
+    try {
+      const db = await getDb();
+      const pending = 'profileId' in scope
+        ? query(collection(db, 'profiles', scope.profileId, 'editorRequests'), where('status', '==', 'pending'))
+        : query(
+            collectionGroup(db, 'editorRequests'),
+            where('universityId', '==', scope.universityId),
+            where('status', '==', 'pending')
+          );
+      const snapshot = await getDocs(pending);
+      // Oldest first, so nobody waits longest
+      return snapshot.docs.map(toRequest).sort(newestFirst).reverse();
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async getRequesterHistory(userId: string): Promise<EditorRequesterHistory> {
+    try {
+      const db = await getDb();
+      const [statsDoc, requests] = await Promise.all([
+        getDoc(doc(db, 'users', userId, 'editorRequestStats', 'stats')),
+        getDocs(query(collectionGroup(db, 'editorRequests'), where('userId', '==', userId))),
+      ]);
+      return {
+        stats: statsDoc.exists() ? (statsDoc.data() as EditorRequestStats) : null,
+        requests: requests.docs.map(toRequest).sort(newestFirst),
+      };
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /**
+   * Marks a pending request reviewed. Two admins deciding at once can't
+   * both succeed: the second gets a 409.
+   */
+  private async recordReview(
+    request: EditorRequest,
+    status: 'approved' | 'rejected',
+    reviewer: AuditActor,
+    reviewNotes?: string
+  ): Promise<EditorRequest> {
+    const db = await getDb();
+    const ref = this.requestRef(db, request.profileId, request.id);
+    return runTransaction(db, async (transaction) => {
+      const current = await transaction.get(ref);
+      if (!current.exists()) {
+        throw new AppError('NOT_FOUND', 'Editor request not found', 404);
+      }
+      if (current.data().status !== 'pending') {
+        throw new AppError('FAILED_PRECONDITION', 'This request has already been reviewed', 409);
+      }
+
+      const review = {
+        status,
+        reviewedBy: reviewer.id,
+        reviewedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        ...(reviewNotes?.trim() && { reviewNotes: reviewNotes.trim() }),
+      };
+      transaction.update(ref, review);
+      return { ...toRequest(current), ...review } as EditorRequest;
+    });
+  }
+
+  /**
+   * Puts an approval back to pending when the grant behind it failed, so
+   * the request isn't left approved for someone who isn't an editor
+   */
+  private async reopenApproval(request: EditorRequest, reviewer: AuditActor): Promise<void> {
+    const db = await getDb();
+    const ref = this.requestRef(db, request.profileId, request.id);
+    await runTransaction(db, async (transaction) => {
+      const current = await transaction.get(ref);
+      if (current.data()?.status !== 'approved' || current.data()?.reviewedBy !== reviewer.id) return;
+      transaction.update(ref, {
+        status: 'pending',
+        reviewedBy: deleteField(),
+        reviewedAt: deleteField(),
+        reviewNotes: deleteField(),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  }
+
+  private async assertCanReview(request: EditorRequest, reviewer: AuditActor): Promise<void> {
+    if (!(await this.canReview(reviewer.id, request.profileId, request.universityId))) {
+      throw new AppError('PERMISSION_DENIED', 'Only profile and university admins can review editor requests', 403);
+    }
+  }
+
+  /**
+   * Grants the requester the editor role. They hear about it through the
+   * role_changed notification the grant sends. If the grant fails, the
+   * request goes back to pending.
+   */
+  async approveRequest(request: EditorRequest, reviewer: AuditActor, reviewNotes?: string): Promise<EditorRequest> {
+    try {
+      await this.assertCanReview(request, reviewer);
+      const reviewed = await this.recordReview(request, 'approved', reviewer, reviewNotes);
+      try {
+        await PermissionService.getInstance().setUserProfilePermission(
+          request.userId,
+          request.profileId,
+          'editor',
+          reviewer.id
+        );
+      } catch (grantError) {
+        await this.reopenApproval(request, reviewer).catch(error =>
+          console.error(`Error reopening editor request ${request.id}:`, error)
+        );
+        throw grantError;
+      }
+
+      await auditLogService.log({
+        action: 'editor_request.approved',
+        resourceType: 'profile',
+        resourceId: request.profileId,
+        universityId: request.universityId ?? null,
+        actor: reviewer,
+        changes: [{ field: 'status', oldValue: 'pending', newValue: 'approved' }],
+        metadata: { requestId: request.id, targetUserId: request.userId },
+      });
+
+      return reviewed;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /** Turns a request down; the requester is told why */
+  async rejectRequest(request: EditorRequest, reviewer: AuditActor, reviewNotes: string): Promise<EditorRequest> {
+    try {
+      if (!reviewNotes.trim()) {
+        throw new AppError('INVALID_ARGUMENT', 'Say why the request was rejected', 400);
+      }
+      await this.assertCanReview(request, reviewer);
+      const reviewed = await this.recordReview(request, 'rejected', reviewer, reviewNotes);
+
+      await auditLogService.log({
+        action: 'editor_request.rejected',
+        resourceType: 'profile',
+        resourceId: request.profileId,
+        universityId: request.universityId ?? null,
+        actor: reviewer,
+        changes: [{ field: 'status', oldValue: 'pending', newValue: 'rejected' }],
+        metadata: { requestId: request.id, targetUserId: request.userId, reviewNotes: reviewNotes.trim() },
+      });
+
+      await notificationService.notify({
+        userId: request.userId,
+        type: 'editor_request_reviewed',
+        title: 'Your editor request was declined',
+        body: reviewNotes.trim(),
+        link: `/profile/${request.profileId}`,
+        actor: { id: reviewer.id, name: reviewer.name },
+        resourceType: 'profile',
+        resourceId: request.profileId,
+        universityId: request.universityId ?? null,
+        metadata: { requestId: request.id, status: 'rejected' },
+      });
+
+      return reviewed;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+}
+
+export const editorRequestService = new EditorRequestService();
@@ -0,0 +1,88 @@
+import { collection, deleteDoc, doc, getDoc, getDocs, serverTimestamp, setDoc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { AllowedRole } from '@/types/permission';
+import { MentionCandidate } from '@/types/comments';
+
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w.-]+)/;
+
+/**
+ * The handle inserted by autocomplete: the display name (or the local part
+ * of the email) without spaces or punctuation
+ */
+export function toMentionHandle(displayName: string, email?: string): string {
+  const source = displayName.trim() || email?.split('@')[0] || '';
+  return source.replace(/[^\w.-]/g, '').replace(/[.-]+$/, '');
+}
+
+/**
+ * Extract the @handles written in a comment, lowercased and deduplicated
+ */
+export function parseMentionHandles(content: string): string[] {
+  const pattern = new RegExp(MENTION_PATTERN.source, 'g');
+  const handles = new Set<string>();
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    // Trailing punctuation belongs to the sentence, not the handle
+    handles.add(match[1].replace(/[.-]+$/, '').toLowerCase());
+  }
+  return Array.from(handles);
+}
+
+/**
+ * Map the handles in a comment to the IDs of users who can be mentioned.
+ * Handles that don't match a candidate are ignored.
+ */
+export function resolveMentions(content: string, candidates: MentionCandidate[]): string[] {
+  const handles = parseMentionHandles(content);
+  if (!handles.length) return [];
+
+  const byHandle = new Map(candidates.map(candidate => [candidate.handle.toLowerCase(), candidate.userId]));
+  const ids = handles
+    .map(handle => byHandle.get(handle))
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Users with a role on the profile, which is who can be mentioned in its comments
+ */
+export async function getMentionCandidates(profileId: string): Promise<MentionCandidate[]> {
+  const db = await getDb();
+  const permissions = await getDocs(collection(db, 'profiles', profileId, 'permissions'));
+
+  const candidates = await Promise.all(permissions.docs.map(async (permissionDoc) => {
+    const userDoc = await getDoc(doc(db, 'users', permissionDoc.id));
+    const userData = userDoc.exists() ? userDoc.data() : {};
+    const displayName: string = userData.displayName || userData.email || 'Unknown user';
+    return {
+      userId: permissionDoc.id,
+      handle: toMentionHandle(userData.displayName || '', userData.email),
+      displayName,
+      email: userData.email,
+      role: permissionDoc.data().role as AllowedRole,
+    };
+  }));
+
+  return candidates
+    .filter(candidate => candidate.handle)
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+export async function isMentionOptedOut(profileId: string, userId: string): Promise<boolean> {
+  const db = await getDb();
+  const optOutDoc = await getDoc(doc(db, 'profiles', profileId, 'mentionOptOuts', userId));
+  return optOutDoc.exists();
+}
+
+/**
+ * Stop (or resume) mention notifications for a user on one profile
+ */
+export async function setMentionOptOut(profileId: string, userId: string, optedOut: boolean): Promise<void> {
+  const db = await getDb();
+  const optOutRef = doc(db, 'profiles', profileId, 'mentionOptOuts', userId);
+  if (optedOut) {
+    await setDoc(optOutRef, { userId, createdAt: serverTimestamp() });
+  } else {
+    await deleteDoc(optOutRef);
+  }
+}
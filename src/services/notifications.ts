@@ -0,0 +1,226 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  Unsubscribe,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { requestTemplatedEmail } from '@/lib/email/client';
+import { AppError } from '@/utils/errors';
+import {
+  AppNotification,
+  NewNotification,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_PREFERENCES_COLLECTION,
+  NOTIFICATION_TYPES,
+  NOTIFICATIONS_COLLECTION,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  resolveNotificationChannel,
+} from '@/types/notifications';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toNotification = (id: string, data: Record<string, any>): AppNotification => ({
+  id,
+  ...data,
+  universityId: data.universityId ?? null,
+  createdAt: toDate(data.createdAt) ?? new Date(),
+  readAt: toDate(data.readAt),
+} as AppNotification);
+
+/**
+ * In-app notifications and the per-type delivery preferences that decide
+ * which of them are also emailed. Daily and weekly digests are assembled
+ * by the deliverNotificationEmails Cloud Function.
+ */
+class NotificationService {
+  private preferencesRef(db: Awaited<ReturnType<typeof getDb>>, userId: string) {
+    return doc(db, NOTIFICATION_PREFERENCES_COLLECTION, userId);
+  }
+
+  /**
+   * Record a notification for a user and email it straight away if that's
+   * how they want this type delivered. Never throws: a notification that
+   * can't be written shouldn't fail the action that triggered it.
+   */
+  async notify(notification: NewNotification): Promise<void> {
+    try {
+      const db = await getDb();
+      const { channels } = await this.getPreferences(notification.userId);
+      const channel = channels[notification.type];
+
+      const notificationRef = await addDoc(collection(db, NOTIFICATIONS_COLLECTION), {
+        ...JSON.parse(JSON.stringify(notification)),
+        universityId: notification.universityId ?? null,
+        isRead: false,
+        emailStatus: channel === 'in_app' ? 'skipped' : 'pending',
+        createdAt: serverTimestamp(),
+      });
+
+      if (channel === 'immediate') {
+        await this.sendImmediately(notificationRef.id, notification);
+      }
+    } catch (error) {
+      console.error(`Error notifying ${notification.userId} (${notification.type}):`, error);
+    }
+  }
+
+  /**
+   * Email a notification from the browser. On failure it stays pending and
+   * the hourly delivery job retries it.
+   */
+  private async sendImmediately(notificationId: string, notification: NewNotification): Promise<void> {
+    // Users only send email in a university's name; the rest wait for the job
+    if (!notification.universityId) return;
+
+    try {
+      const db = await getDb();
+      const userDoc = await getDoc(doc(db, 'users', notification.userId));
+      if (!userDoc.data()?.email) return;
+
+      await requestTemplatedEmail({
+        templateId: 'notification',
+        toUserIds: [notification.userId],
+        universityId: notification.universityId,
+        variables: {
+          recipientName: userDoc.data()?.displayName || undefined,
+          title: notification.title,
+          body: notification.body,
+          actionUrl: notification.link ? `${window.location.origin}${notification.link}` : undefined,
+        },
+      });
+      await updateDoc(doc(db, NOTIFICATIONS_COLLECTION, notificationId), { emailStatus: 'sent' });
+    } catch (error) {
+      console.error(`Error emailing notification ${notificationId}:`, error);
+    }
+  }
+
+  async getNotifications(userId: string, options: { unreadOnly?: boolean; max?: number } = {}): Promise<AppNotification[]> {
+    try {
+      const db = await getDb();
+      const constraints = [
+        where('userId', '==', userId),
+        ...(options.unreadOnly ? [where('isRead', '==', false)] : []),
+        orderBy('createdAt', 'desc'),
+        limit(options.max ?? DEFAULT_PAGE_SIZE),
+      ];
+      const snapshot = await getDocs(query(collection(db, NOTIFICATIONS_COLLECTION), ...constraints));
+      return snapshot.docs.map(notificationDoc => toNotification(notificationDoc.id, notificationDoc.data()));
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /**
+   * Live unread count for the header bell. Returns the unsubscribe function.
+   */
+  subscribeToUnreadCount(userId: string, onChange: (count: number) => void): Unsubscribe {
+    let unsubscribe: Unsubscribe = () => {};
+    let cancelled = false;
+
+    getDb()
+      .then((db) => {
+        if (cancelled) return;
+        unsubscribe = onSnapshot(
+          query(
+            collection(db, NOTIFICATIONS_COLLECTION),
+            where('userId', '==', userId),
+            where('isRead', '==', false)
+          ),
+          (snapshot) => onChange(snapshot.size),
+          (error) => console.error('Error watching unread notifications:', error)
+        );
+      })
+      .catch((error) => console.error('Error watching unread notifications:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }
+
+  async markAsRead(notificationIds: string[]): Promise<void> {
+    if (!notificationIds.length) return;
+    try {
+      const db = await getDb();
+      const batch = writeBatch(db);
+      notificationIds.forEach(id => {
+        batch.update(doc(db, NOTIFICATIONS_COLLECTION, id), { isRead: true, readAt: serverTimestamp() });
+      });
+      await batch.commit();
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async markAllAsRead(userId: string): Promise<void> {
+    const unread = await this.getNotifications(userId, { unreadOnly: true, max: 500 });
+    await this.markAsRead(unread.map(notification => notification.id));
+  }
+
+  /**
+   * A user's delivery channel for every type, with defaults filled in
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    try {
+      const db = await getDb();
+      const preferencesDoc = await getDoc(this.preferencesRef(db, userId));
+      const data = preferencesDoc.data() ?? {};
+
+      const channels = Object.fromEntries(
+        NOTIFICATION_TYPES.map(type => [type, resolveNotificationChannel(data.channels, type)])
+      ) as Record<NotificationType, NotificationChannel>;
+
+      return {
+        userId,
+        channels,
+        lastDailyDigestAt: toDate(data.lastDailyDigestAt),
+        lastWeeklyDigestAt: toDate(data.lastWeeklyDigestAt),
+        updatedAt: toDate(data.updatedAt),
+      };
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async savePreferences(userId: string, channels: Record<NotificationType, NotificationChannel>): Promise<void> {
+    const invalid = Object.entries(channels).find(
+      ([type, channel]) =>
+        !NOTIFICATION_TYPES.includes(type as NotificationType) || !NOTIFICATION_CHANNELS.includes(channel)
+    );
+    if (invalid) {
+      throw new AppError('INVALID_ARGUMENT', `Invalid notification preference: ${invalid[0]}`, 400);
+    }
+
+    try {
+      const db = await getDb();
+      // Merge so the digest timestamps kept by the delivery job survive
+      await setDoc(this.preferencesRef(db, userId), {
+        userId,
+        channels,
+        updatedAt: Timestamp.now(),
+      }, { merge: true });
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
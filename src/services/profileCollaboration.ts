@@ -0,0 +1,203 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  setDoc,
+  Timestamp,
+  Unsubscribe,
+  where,
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { AppError } from '@/utils/errors';
+import {
+  Collaborator,
+  LockAttempt,
+  ProfileSection,
+  SECTION_LOCK_TTL_MS,
+  SectionLock,
+} from '@/types/collaboration';
+
+const PRESENCE_COLLECTION = 'presence';
+const LOCKS_COLLECTION = 'sectionLocks';
+
+const toDate = (value: any): Date => (value?.toDate ? value.toDate() : new Date(value ?? 0));
+
+const toCollaborator = (data: Record<string, any>): Collaborator => ({
+  ...data,
+  lastSeenAt: toDate(data.lastSeenAt),
+} as Collaborator);
+
+const toLock = (data: Record<string, any>): SectionLock => ({
+  ...data,
+  acquiredAt: toDate(data.acquiredAt),
+  expiresAt: toDate(data.expiresAt),
+} as SectionLock);
+
+type Holder = Pick<SectionLock, 'userId' | 'displayName'>;
+
+/**
+ * Presence and per-section soft locks for a profile being edited. Both live
+ * in subcollections of the profile document, addressed by its path, so the
+ * same service works wherever a profile is stored.
+ *
+ * Records carry their own expiry and are filtered by readers rather than
+ * cleaned up, so a browser that disappears without saying goodbye only
+ * holds a section until its lock runs out.
+ */
+class ProfileCollaborationService {
+  private watch<T>(
+    path: string,
+    map: (data: Record<string, any>) => T,
+    onChange: (items: T[]) => void,
+    label: string
+  ): Unsubscribe {
+    let unsubscribe: Unsubscribe = () => {};
+    let cancelled = false;
+
+    getDb()
+      .then((db) => {
+        if (cancelled) return;
+        unsubscribe = onSnapshot(
+          collection(db, path),
+          (snapshot) => onChange(snapshot.docs.map(item => map(item.data()))),
+          (error) => console.error(`Error watching ${label}:`, error)
+        );
+      })
+      .catch((error) => console.error(`Error watching ${label}:`, error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }
+
+  subscribeToCollaborators(profilePath: string, onChange: (collaborators: Collaborator[]) => void): Unsubscribe {
+    return this.watch(`${profilePath}/${PRESENCE_COLLECTION}`, toCollaborator, onChange, 'profile presence');
+  }
+
+  subscribeToLocks(profilePath: string, onChange: (locks: SectionLock[]) => void): Unsubscribe {
+    return this.watch(`${profilePath}/${LOCKS_COLLECTION}`, toLock, onChange, 'section locks');
+  }
+
+  /**
+   * Live saved versions of the profile. Local writes that haven't reached
+   * the server yet are skipped; they are this editor's own changes.
+   */
+  subscribeToProfile(profilePath: string, onChange: (data: Record<string, any>) => void): Unsubscribe {
+    let unsubscribe: Unsubscribe = () => {};
+    let cancelled = false;
+
+    getDb()
+      .then((db) => {
+        if (cancelled) return;
+        unsubscribe = onSnapshot(
+          doc(db, profilePath),
+          (snapshot) => {
+            if (snapshot.exists() && !snapshot.metadata.hasPendingWrites) {
+              onChange({ id: snapshot.id, ...snapshot.data() });
+            }
+          },
+          (error) => console.error('Error watching profile:', error)
+        );
+      })
+      .catch((error) => console.error('Error watching profile:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }
+
+  async updatePresence(profilePath: string, presence: Omit<Collaborator, 'lastSeenAt'>): Promise<void> {
+    try {
+      const db = await getDb();
+      await setDoc(doc(db, `${profilePath}/${PRESENCE_COLLECTION}`, presence.userId), {
+        ...Object.fromEntries(Object.entries(presence).filter(([, value]) => value !== undefined)),
+        lastSeenAt: Timestamp.now(),
+      });
+    } catch (error) {
+      throw AppError.fromFirebaseError(error);
+    }
+  }
+
+  /** Removes the user's presence and frees every section they hold */
+  async leave(profilePath: string, userId: string): Promise<void> {
+    try {
+      const db = await getDb();
+      const held = await getDocs(query(collection(db, `${profilePath}/${LOCKS_COLLECTION}`), where('userId', '==', userId)));
+      await Promise.all([
+        deleteDoc(doc(db, `${profilePath}/${PRESENCE_COLLECTION}`, userId)),
+        ...held.docs.map(item => deleteDoc(item.ref)),
+      ]);
+    } catch (error) {
+      throw AppError.fromFirebaseError(error);
+    }
+  }
+
+  /**
+   * Takes or renews the lock on a section. A live lock held by someone else
+   * is left alone and returned, unless `force` is set to take it over.
+   */
+  async acquireLock(
+    profilePath: string,
+    section: ProfileSection,
+    holder: Holder,
+    { force = false }: { force?: boolean } = {}
+  ): Promise<LockAttempt> {
+    try {
+      const db = await getDb();
+      const lockRef = doc(db, `${profilePath}/${LOCKS_COLLECTION}`, section);
+
+      return await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(lockRef);
+        const now = new Date();
+
+        if (snapshot.exists() && !force) {
+          const existing = toLock(snapshot.data());
+          if (existing.userId !== holder.userId && existing.expiresAt > now) {
+            return { acquired: false, lock: existing } as LockAttempt;
+          }
+        }
+
+        const renewing = snapshot.exists() && snapshot.data().userId === holder.userId;
+        const lock: SectionLock = {
+          section,
+          ...holder,
+          acquiredAt: renewing ? toLock(snapshot.data()).acquiredAt : now,
+          expiresAt: new Date(now.getTime() + SECTION_LOCK_TTL_MS),
+        };
+        transaction.set(lockRef, {
+          ...lock,
+          acquiredAt: Timestamp.fromDate(lock.acquiredAt),
+          expiresAt: Timestamp.fromDate(lock.expiresAt),
+        });
+        return { acquired: true, lock } as LockAttempt;
+      });
+    } catch (error) {
+      throw AppError.fromFirebaseError(error);
+    }
+  }
+
+  /** Frees a section, but only if the user still holds it */
+  async releaseLock(profilePath: string, section: ProfileSection, userId: string): Promise<void> {
+    try {
+      const db = await getDb();
+      const lockRef = doc(db, `${profilePath}/${LOCKS_COLLECTION}`, section);
+
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(lockRef);
+        if (snapshot.exists() && snapshot.data().userId === userId) {
+          transaction.delete(lockRef);
+        }
+      });
+    } catch (error) {
+      throw AppError.fromFirebaseError(error);
+    }
+  }
+}
+
+export const profileCollaborationService = new ProfileCollaborationService();
@@ -1,112 +1,82 @@
-import { getDb } from '@/lib/firebase';
-import { collection, doc, getDoc, getDocs, query, where, addDoc, updateDoc, deleteDoc, Timestamp } from 'firebase/firestore';
+import { Timestamp } from 'firebase/firestore';
 import type { Profile } from '@/types';
 import { ProfileService } from '@/types/services';
+import { getRepositories } from '@/lib/repositories';
+import { auditLogService } from '@/services/auditLogService';
+import { computeVersionChanges } from '@/services/versionService';
+import { universitySettingsService } from '@/services/universitySettings';
+import type { AuditActor } from '@/types/audit';
 
-async function assertDb() {
-  const db = await getDb();
-  if (!db) throw new Error('Firestore is not initialized');
-  return db;
-}
+// Older documents may lack these fields
+const withDefaults = (profile: Profile): Profile => ({
+  ...profile,
+  isDeceased: profile.isDeceased || false,
+  status: profile.status || 'draft',
+  createdAt: profile.createdAt || Timestamp.now(),
+});
 
 export const profilesService: ProfileService = {
   async getProfile(profileId: string) {
-    const db = await assertDb();
-
-    const profileRef = doc(db, 'profiles', profileId);
-    const profileDoc = await getDoc(profileRef);
-    
-    if (!profileDoc.exists()) {
+    const profile = await getRepositories().profiles.get(profileId);
+    if (!profile) {
       throw new Error('Profile not found');
     }
-    
-    return { id: profileDoc.id, ...profileDoc.data() } as Profile;
+    return profile;
   },
 
+  // Organizations were renamed universities; profiles only carry universityId
   async getProfilesByOrganization(organizationId: string) {
-    const db = await assertDb();
-
-    const profilesRef = collection(db, 'profiles');
-    const q = query(profilesRef, where('organizationId', '==', organizationId));
-    const snapshot = await getDocs(q);
-    
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Profile));
+    return getRepositories().profiles.listByUniversity(organizationId);
   },
 
   async createProfile(data: Omit<Profile, 'id'>) {
-    const db = await assertDb();
+    await universitySettingsService.assertCanCreateProfile(data.universityId, data.createdBy, data.isDeceased);
 
-    const profilesRef = collection(db, 'profiles');
-    const docRef = await addDoc(profilesRef, {
+    const profile = await getRepositories().profiles.create({
       ...data,
       createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now()
+    });
+
+    await auditLogService.log({
+      action: 'profile.created',
+      resourceType: 'profile',
+      resourceId: profile.id,
+      universityId: data.universityId,
+      actor: { id: data.createdBy }
     });
     
-    return { id: docRef.id, ...data } as Profile;
+    return profile;
   },
 
-  async updateProfile(profileId: string, data: Partial<Profile>) {
-    const db = await assertDb();
+  async updateProfile(profileId: string, data: Partial<Profile>, updatedBy: AuditActor, expectedVersion: number) {
+    const previous = await this.getProfile(profileId);
 
-    const profileRef = doc(db, 'profiles', profileId);
-    await updateDoc(profileRef, {
-      ...data,
-      updatedAt: Timestamp.now()
+    const { id: _id, ...changes } = data;
+    const updated = await getRepositories().profiles.update(profileId, changes, { expectedVersion });
+
+    await auditLogService.log({
+      action: data.status === 'archived' && previous.status !== 'archived' ? 'profile.archived' : 'profile.updated',
+      resourceType: 'profile',
+      resourceId: profileId,
+      universityId: previous.universityId,
+      actor: updatedBy,
+      changes: computeVersionChanges(previous, { ...previous, ...data })
     });
     
-    return this.getProfile(profileId);
+    return updated;
   },
 
   async deleteProfile(profileId: string) {
-    const db = await assertDb();
-
-    const profileRef = doc(db, 'profiles', profileId);
-    await deleteDoc(profileRef);
+    await getRepositories().profiles.delete(profileId);
   },
 
   async getProfilesByUniversity(universityId: string): Promise<Profile[]> {
-    const db = await assertDb();
-
-    const profilesRef = collection(db, 'profiles');
-    const q = query(profilesRef, where('universityId', '==', universityId));
-    const querySnapshot = await getDocs(q);
-    
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        name: data.name,
-        isDeceased: data.isDeceased || false,
-        createdBy: data.createdBy,
-        status: data.status || 'draft',
-        createdAt: data.createdAt || Timestamp.now(),
-        universityId: data.universityId,
-        basicInfo: data.basicInfo,
-        lifeStory: data.lifeStory
-      };
-    });
+    const profiles = await getRepositories().profiles.listByUniversity(universityId);
+    return profiles.map(withDefaults);
   },
 
   async listProfiles(): Promise<Profile[]> {
-    const db = await assertDb();
-
-    const profilesRef = collection(db, 'profiles');
-    const snapshot = await getDocs(profilesRef);
-    
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        name: data.name,
-        isDeceased: data.isDeceased || false,
-        createdBy: data.createdBy,
-        status: data.status || 'draft',
-        createdAt: data.createdAt || Timestamp.now(),
-        universityId: data.universityId,
-        basicInfo: data.basicInfo,
-        lifeStory: data.lifeStory
-      };
-    });
+    const profiles = await getRepositories().profiles.list();
+    return profiles.map(withDefaults);
   }
-}; 
\ No newline at end of file
+};
\ No newline at end of file
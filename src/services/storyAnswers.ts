@@ -0,0 +1,35 @@
+import { doc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { updateWithVersion } from '@/lib/firestore-utils';
+
+// Each answer is versioned on its own so people answering different questions don't collide
+export const answerVersionField = (questionId: string) => `answerVersions.${questionId}`;
+
+/**
+ * Saves one story answer if it is still at `expectedVersion`; a stale save
+ * rejects with a VersionConflictError holding the saved answer. Resolves
+ * to the answer's new version.
+ */
+export async function saveStoryAnswer(
+  orgId: string,
+  profileId: string,
+  questionId: string,
+  answer: string,
+  expectedVersion: number
+): Promise<number> {
+  const dbInstance = await getDb();
+  const profileRef = doc(dbInstance, 'universities', orgId, 'profiles', profileId);
+  return updateWithVersion<string>(
+    profileRef,
+    expectedVersion,
+    {
+      [`answers.${questionId}`]: answer,
+      updatedAt: new Date(),
+    },
+    {
+      versionField: answerVersionField(questionId),
+      resource: 'answer',
+      current: (data) => data.answers?.[questionId] ?? '',
+    }
+  );
+}
@@ -0,0 +1,331 @@
+import { getDb } from '@/lib/firebase';
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { AppError } from '@/utils/errors';
+import { isUniversityAdmin } from '@/lib/permissions';
+import { auditLogService } from './auditLogService';
+import type { AuditActor } from '@/types/audit';
+import {
+  CATEGORIES,
+  DEFAULT_PROMPT_MAX_LENGTH,
+  DEFAULT_STORY_PROMPTS,
+  MAX_PROMPT_MAX_LENGTH,
+  QuestionCategory,
+  ResolvedStoryCategory,
+  ResolvedStoryPrompt,
+  StoryPromptAudience,
+  StoryPromptLibrary,
+  StoryQuestion,
+  UniversityStoryPromptConfig,
+} from '@/types/questions';
+
+export interface StoryPromptOptions {
+  /** Only prompts for this audience (and those for everyone); all prompts when unset */
+  audience?: Exclude<StoryPromptAudience, 'all'>;
+  /** Falls back from 'fr-CA' to 'fr' to the prompt's own text */
+  locale?: string;
+}
+
+export type EditableStoryPromptConfig = Omit<UniversityStoryPromptConfig, 'universityId' | 'updatedAt' | 'updatedBy'>;
+
+export const EMPTY_STORY_PROMPT_CONFIG: EditableStoryPromptConfig = {
+  disabledPromptIds: [],
+  order: {},
+  customPrompts: [],
+};
+
+const AUDIENCES: StoryPromptAudience[] = ['alumni', 'memorial', 'all'];
+const CATEGORY_IDS = new Set<string>(CATEGORIES.map(category => category.id));
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+const toDate = (value: any): Date | undefined => {
+  if (value instanceof Timestamp) return value.toDate();
+  return value instanceof Date ? value : undefined;
+};
+
+/**
+ * Validate a set of prompts, such as the global library or a university's
+ * own prompts
+ * @returns An error message, or null when the prompts are valid
+ */
+export const validateStoryPrompts = (prompts: StoryQuestion[]): string | null => {
+  const ids = new Set<string>();
+  for (const prompt of prompts) {
+    if (!prompt.id.trim()) return 'Every prompt needs an ID';
+    if (ids.has(prompt.id)) return `The prompt ID "${prompt.id}" is used more than once`;
+    ids.add(prompt.id);
+
+    if (!CATEGORY_IDS.has(prompt.categoryId)) return `Prompt "${prompt.id}" has an unknown category`;
+    if (!prompt.text.trim()) return `Prompt "${prompt.id}" has no text`;
+    if (
+      prompt.maxLength !== undefined &&
+      (!Number.isInteger(prompt.maxLength) || prompt.maxLength < 1 || prompt.maxLength > MAX_PROMPT_MAX_LENGTH)
+    ) {
+      return `Prompt "${prompt.id}" needs a maximum length from 1 to ${MAX_PROMPT_MAX_LENGTH}`;
+    }
+    if (prompt.audience && !AUDIENCES.includes(prompt.audience)) {
+      return `Prompt "${prompt.id}" has an unknown audience`;
+    }
+    for (const [locale, variant] of Object.entries(prompt.locales ?? {})) {
+      if (!LOCALE_PATTERN.test(locale)) return `Prompt "${prompt.id}" has an invalid locale "${locale}"`;
+      if (!variant.text?.trim()) return `Prompt "${prompt.id}" has no ${locale} text`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Validate a university's changes against the global library
+ * @returns An error message, or null when the configuration is valid
+ */
+export const validateStoryPromptConfig = (
+  config: EditableStoryPromptConfig,
+  library: StoryQuestion[]
+): string | null => {
+  const libraryIds = new Set(library.map(prompt => prompt.id));
+  const clash = config.customPrompts.find(prompt => libraryIds.has(prompt.id));
+  if (clash) return `The prompt ID "${clash.id}" is already used by the global library`;
+  return validateStoryPrompts(config.customPrompts);
+};
+
+/** The prompt's text and placeholder in the closest locale it has */
+export const localizePrompt = (
+  prompt: StoryQuestion,
+  locale?: string
+): Pick<StoryQuestion, 'text' | 'placeholder'> => {
+  const variants = Object.entries(prompt.locales ?? {});
+  if (locale && variants.length) {
+    for (const candidate of [locale, locale.split('-')[0]].map(value => value.toLowerCase())) {
+      const match = variants.find(([key]) => key.toLowerCase() === candidate);
+      if (match) return { text: match[1].text, placeholder: match[1].placeholder ?? prompt.placeholder };
+    }
+  }
+  return { text: prompt.text, placeholder: prompt.placeholder };
+};
+
+/**
+ * Puts prompts in the given order; those it doesn't mention keep their
+ * relative order after the rest
+ */
+export const orderPrompts = <T extends { id: string }>(prompts: T[], order: string[] = []): T[] => {
+  const rank = (id: string) => {
+    const index = order.indexOf(id);
+    return index === -1 ? order.length : index;
+  };
+  return prompts
+    .map((prompt, index) => ({ prompt, index }))
+    .sort((a, b) => rank(a.prompt.id) - rank(b.prompt.id) || a.index - b.index)
+    .map(({ prompt }) => prompt);
+};
+
+/**
+ * Every prompt a university could ask in a category, its own included and
+ * disabled ones too, in the university's order
+ */
+export const universityCategoryPrompts = (
+  library: StoryQuestion[],
+  config: Pick<EditableStoryPromptConfig, 'order' | 'customPrompts'> | null,
+  categoryId: QuestionCategory
+): StoryQuestion[] =>
+  orderPrompts(
+    [...library, ...(config?.customPrompts ?? [])].filter(prompt => prompt.categoryId === categoryId),
+    config?.order[categoryId]
+  );
+
+/**
+ * The prompts to show, by category, after a university's changes (if
+ * any) to the global library. Categories left without prompts are dropped.
+ */
+export const resolveStoryPrompts = (
+  library: StoryQuestion[],
+  config: EditableStoryPromptConfig | null,
+  { audience, locale }: StoryPromptOptions = {}
+): ResolvedStoryCategory[] => {
+  const disabled = new Set(config?.disabledPromptIds ?? []);
+
+  return CATEGORIES.map(category => {
+    const prompts = universityCategoryPrompts(library, config, category.id)
+      .filter(prompt => !disabled.has(prompt.id))
+      .filter(prompt => !audience || !prompt.audience || prompt.audience === 'all' || prompt.audience === audience)
+      .map((prompt): ResolvedStoryPrompt => ({
+        id: prompt.id,
+        categoryId: prompt.categoryId,
+        ...localizePrompt(prompt, locale),
+        maxLength: prompt.maxLength ?? DEFAULT_PROMPT_MAX_LENGTH,
+        audience: prompt.audience ?? 'all',
+      }));
+    return { ...category, prompts };
+  }).filter(category => category.prompts.length > 0);
+};
+
+/** Trimmed, and without the empty or unset fields Firestore won't store */
+const cleanPrompt = (prompt: StoryQuestion): StoryQuestion => {
+  const locales = Object.entries(prompt.locales ?? {}).map(([locale, variant]) => [
+    locale,
+    { text: variant.text.trim(), ...(variant.placeholder?.trim() && { placeholder: variant.placeholder.trim() }) },
+  ]);
+  return {
+    id: prompt.id.trim(),
+    categoryId: prompt.categoryId,
+    text: prompt.text.trim(),
+    ...(prompt.placeholder?.trim() && { placeholder: prompt.placeholder.trim() }),
+    ...(prompt.maxLength !== undefined && { maxLength: prompt.maxLength }),
+    ...(prompt.audience && prompt.audience !== 'all' && { audience: prompt.audience }),
+    ...(locales.length > 0 && { locales: Object.fromEntries(locales) }),
+  };
+};
+
+async function isStoriatsAdmin(email?: string): Promise<boolean> {
+  if (!email) return false;
+  const db = await getDb();
+  const adminSettings = await getDoc(doc(db, 'adminSettings', 'storiatsAdmins'));
+  const adminEmails: string[] = adminSettings.data()?.adminEmails ?? [];
+  return adminEmails.some(adminEmail => adminEmail.toLowerCase() === email.toLowerCase());
+}
+
+class StoryPromptService {
+  private libraryRef(db: Awaited<ReturnType<typeof getDb>>) {
+    return doc(db, 'storyPrompts', 'global');
+  }
+
+  private configRef(db: Awaited<ReturnType<typeof getDb>>, universityId: string) {
+    return doc(db, 'universities', universityId, 'settings', 'storyPrompts');
+  }
+
+  /** The global library, or the built-in prompts until one is saved */
+  async getLibrary(): Promise<StoryPromptLibrary> {
+    try {
+      const db = await getDb();
+      const libraryDoc = await getDoc(this.libraryRef(db));
+      if (!libraryDoc.exists()) {
+        return { prompts: DEFAULT_STORY_PROMPTS };
+      }
+
+      const data = libraryDoc.data();
+      return {
+        prompts: data.prompts ?? [],
+        updatedAt: toDate(data.updatedAt),
+        updatedBy: data.updatedBy,
+      };
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async saveLibrary(prompts: StoryQuestion[], actor: AuditActor): Promise<StoryPromptLibrary> {
+    try {
+      if (!(await isStoriatsAdmin(actor.email))) {
+        throw new AppError('PERMISSION_DENIED', 'Only Storiats admins can change the prompt library', 403);
+      }
+
+      const cleaned = prompts.map(cleanPrompt);
+      const validationError = validateStoryPrompts(cleaned);
+      if (validationError) {
+        throw new AppError('INVALID_ARGUMENT', validationError, 400);
+      }
+
+      const db = await getDb();
+      const now = new Date();
+      await setDoc(this.libraryRef(db), {
+        prompts: cleaned,
+        updatedAt: Timestamp.fromDate(now),
+        updatedBy: actor.id,
+      });
+
+      await auditLogService.log({
+        action: 'settings.updated',
+        resourceType: 'settings',
+        resourceId: 'storyPrompts/global',
+        actor,
+        metadata: { promptCount: cleaned.length },
+      });
+
+      return { prompts: cleaned, updatedAt: now, updatedBy: actor.id };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async getUniversityConfig(universityId: string): Promise<UniversityStoryPromptConfig> {
+    try {
+      const db = await getDb();
+      const configDoc = await getDoc(this.configRef(db, universityId));
+      if (!configDoc.exists()) {
+        return { universityId, ...EMPTY_STORY_PROMPT_CONFIG };
+      }
+
+      const data = configDoc.data();
+      return {
+        universityId,
+        disabledPromptIds: data.disabledPromptIds ?? [],
+        order: data.order ?? {},
+        customPrompts: data.customPrompts ?? [],
+        updatedAt: toDate(data.updatedAt),
+        updatedBy: data.updatedBy,
+      };
+    } catch (error) {
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async saveUniversityConfig(
+    universityId: string,
+    config: EditableStoryPromptConfig,
+    actorId: string
+  ): Promise<UniversityStoryPromptConfig> {
+    try {
+      if (!(await isUniversityAdmin(actorId, universityId))) {
+        throw new AppError('PERMISSION_DENIED', 'Only university admins can configure story prompts', 403);
+      }
+
+      const { prompts: library } = await this.getLibrary();
+      const customPrompts = config.customPrompts.map(cleanPrompt);
+      const validationError = validateStoryPromptConfig({ ...config, customPrompts }, library);
+      if (validationError) {
+        throw new AppError('INVALID_ARGUMENT', validationError, 400);
+      }
+
+      // Drop references to prompts that no longer exist
+      const knownIds = new Set([...library, ...customPrompts].map(prompt => prompt.id));
+      const stored: EditableStoryPromptConfig = {
+        disabledPromptIds: Array.from(new Set(config.disabledPromptIds)).filter(id => knownIds.has(id)),
+        order: Object.fromEntries(
+          Object.entries(config.order).map(([categoryId, ids]) => [categoryId, (ids ?? []).filter(id => knownIds.has(id))])
+        ),
+        customPrompts,
+      };
+
+      const db = await getDb();
+      const now = new Date();
+      await setDoc(this.configRef(db, universityId), {
+        ...stored,
+        updatedAt: Timestamp.fromDate(now),
+        updatedBy: actorId,
+      });
+
+      await auditLogService.log({
+        action: 'settings.updated',
+        resourceType: 'settings',
+        resourceId: `universities/${universityId}/settings/storyPrompts`,
+        universityId,
+        actor: { id: actorId },
+      });
+
+      return { universityId, ...stored, updatedAt: now, updatedBy: actorId };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /** The prompts to show, for a university when one is given */
+  async getPrompts(universityId: string | null | undefined, options: StoryPromptOptions = {}): Promise<ResolvedStoryCategory[]> {
+    const [library, config] = await Promise.all([
+      this.getLibrary(),
+      universityId ? this.getUniversityConfig(universityId) : Promise.resolve(null),
+    ]);
+    return resolveStoryPrompts(library.prompts, config, options);
+  }
+}
+
+export const storyPromptService = new StoryPromptService();
@@ -0,0 +1,322 @@
+import { doc } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { updateWithVersion } from '@/lib/firestore-utils';
+import { deleteOutboxEntry, loadOutbox, putOutboxEntry } from '@/lib/outboxStore';
+import { MediaService } from '@/services/MediaService';
+import { timelineService } from '@/services/TimelineService';
+import { saveStoryAnswer } from '@/services/storyAnswers';
+import { VersionConflictError } from '@/utils/errors';
+import { toTimelineEvent } from '@/utils/timelineConverters';
+import type { OutboxEntry, OutboxOperation, SyncedOperation, SyncStatus } from '@/types/outbox';
+
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAYS = [2000, 5000, 15000, 30000]; // Backoff between attempts
+const CONNECTIVITY_ERROR_CODES = ['unavailable', 'deadline-exceeded'];
+
+type VersionedEntry = Exclude<OutboxEntry, { kind: 'media' }>;
+
+const isVersioned = (entry: OutboxEntry): entry is VersionedEntry => entry.kind !== 'media';
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+/** Whether a failed save is down to the connection rather than the data */
+export const isConnectivityError = (error: unknown): boolean => {
+  if (!isOnline()) return true;
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && CONNECTIVITY_ERROR_CODES.includes(code);
+};
+
+const resourceKeyOf = (operation: OutboxOperation): string => {
+  switch (operation.kind) {
+    case 'profile':
+      return `profile:${operation.path}`;
+    case 'timeline':
+      return `timeline:${operation.profileId}`;
+    case 'storyAnswer':
+      return `answer:${operation.orgId}/${operation.profileId}/${operation.questionId}`;
+    case 'media':
+      return `media:${operation.userId}/${operation.folderId ?? 'root'}`;
+  }
+};
+
+// IndexedDB keeps plain data; Firestore timestamps would come back as bare
+// {seconds, nanoseconds} maps, so they are stored as dates instead
+const toStorable = (value: unknown): unknown => {
+  if (value === null || typeof value !== 'object' || value instanceof Date || value instanceof Blob) {
+    return value;
+  }
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  if (Array.isArray(value)) return value.map(toStorable);
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toStorable(item)]));
+};
+
+// A further edit to a record folds into the entry already waiting for it
+const fold = (waiting: OutboxEntry, next: OutboxOperation): OutboxEntry | null => {
+  if (waiting.kind === 'profile' && next.kind === 'profile') {
+    return { ...waiting, changes: { ...waiting.changes, ...next.changes } };
+  }
+  if (waiting.kind === 'timeline' && next.kind === 'timeline') {
+    return { ...waiting, events: next.events };
+  }
+  if (waiting.kind === 'storyAnswer' && next.kind === 'storyAnswer') {
+    return { ...waiting, answer: next.answer };
+  }
+  return null;
+};
+
+/**
+ * Holds edits made offline in IndexedDB and uploads them in the order they
+ * were made once the connection is back. Each versioned edit is replayed
+ * against the version it was made on, so anything someone else saved in
+ * between is reported as a conflict instead of being overwritten.
+ */
+class SyncOutboxService {
+  private entries: OutboxEntry[] = [];
+  private inFlight: number | null = null;
+  private online = true;
+  private ready: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private syncedListeners = new Set<(synced: SyncedOperation) => void>();
+
+  private start(): Promise<void> {
+    if (!this.ready) {
+      this.online = isOnline();
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', () => {
+          this.online = true;
+          this.notify();
+          void this.flush();
+        });
+        window.addEventListener('offline', () => {
+          this.online = false;
+          this.notify();
+        });
+      }
+      this.ready = loadOutbox()
+        .then(entries => {
+          this.entries = entries;
+          this.notify();
+          void this.flush();
+        })
+        .catch(error => console.error('Error loading the offline outbox:', error));
+    }
+    return this.ready;
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      online: this.online,
+      syncing: this.inFlight !== null,
+      pending: this.entries.filter(entry => entry.status === 'pending').length,
+      needsAttention: this.entries.filter(entry => entry.status !== 'pending'),
+    };
+  }
+
+  /**
+   * Whether an edit has to go through the outbox: while offline, and while
+   * earlier edits to the same record are still waiting, so they land in order.
+   */
+  shouldQueue(operation: OutboxOperation): boolean {
+    const resourceKey = resourceKeyOf(operation);
+    return !isOnline() || this.entries.some(entry => entry.resourceKey === resourceKey);
+  }
+
+  async enqueue(operation: OutboxOperation): Promise<void> {
+    await this.start();
+    const storable = (operation.kind === 'media' ? operation : toStorable(operation)) as OutboxOperation;
+    const resourceKey = resourceKeyOf(storable);
+
+    const last = [...this.entries].reverse().find(entry => entry.resourceKey === resourceKey);
+    const folded = last && last.status === 'pending' && last.seq !== this.inFlight ? fold(last, storable) : null;
+
+    if (folded) {
+      await this.save(folded);
+    } else {
+      const entry: OutboxEntry = {
+        ...storable,
+        seq: this.entries.reduce((max, item) => Math.max(max, item.seq), 0) + 1,
+        resourceKey,
+        createdAt: Date.now(),
+        attempts: 0,
+        status: 'pending',
+      };
+      this.entries = [...this.entries, entry];
+      await putOutboxEntry(entry);
+    }
+
+    this.notify();
+    void this.flush();
+  }
+
+  /** Uploads waiting entries now rather than on the next retry */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /** Gives an entry that kept failing another round of attempts */
+  async retry(seq: number): Promise<void> {
+    const entry = this.find(seq);
+    if (entry?.status !== 'failed') return;
+    await this.save({ ...entry, status: 'pending', attempts: 0, lastError: undefined });
+    this.notify();
+    void this.flush();
+  }
+
+  /** Saves a conflicting entry over what someone else saved in the meantime */
+  async keepMine(seq: number): Promise<void> {
+    const entry = this.find(seq);
+    if (entry?.status !== 'conflict' || !isVersioned(entry) || entry.serverVersion === undefined) return;
+    await this.save({
+      ...entry,
+      status: 'pending',
+      baseVersion: entry.serverVersion,
+      serverVersion: undefined,
+      lastError: undefined,
+    });
+    this.notify();
+    void this.flush();
+  }
+
+  /** Drops an entry that stopped, letting later edits to the record through */
+  async discard(seq: number): Promise<void> {
+    const entry = this.find(seq);
+    if (!entry || entry.status === 'pending') return;
+    this.entries = this.entries.filter(item => item.seq !== seq);
+    await deleteOutboxEntry(seq);
+    this.notify();
+    void this.flush();
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.getStatus());
+    void this.start();
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /** Hears about each entry once it is uploaded, e.g. to pick up the version it was saved as */
+  onSynced(listener: (synced: SyncedOperation) => void): () => void {
+    this.syncedListeners.add(listener);
+    void this.start();
+    return () => {
+      this.syncedListeners.delete(listener);
+    };
+  }
+
+  private find(seq: number): OutboxEntry | undefined {
+    return this.entries.find(entry => entry.seq === seq);
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    this.entries = this.entries.map(item => (item.seq === entry.seq ? entry : item));
+    await putOutboxEntry(entry);
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  // The first pending entry not held up by a stopped entry for the same record
+  private nextToSend(held: Set<string>): OutboxEntry | undefined {
+    for (const entry of this.entries) {
+      if (held.has(entry.resourceKey)) continue;
+      if (entry.status === 'pending') return entry;
+      held.add(entry.resourceKey);
+    }
+    return undefined;
+  }
+
+  private async replay(): Promise<void> {
+    await this.start();
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const held = new Set<string>();
+    while (this.online) {
+      const entry = this.nextToSend(held);
+      if (!entry) return;
+
+      this.inFlight = entry.seq;
+      this.notify();
+      try {
+        const outcome = await this.send(entry);
+        await this.complete(entry, outcome.version);
+        this.syncedListeners.forEach(listener => listener({ entry, ...outcome }));
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          await this.save({ ...entry, status: 'conflict', serverVersion: error.currentVersion, lastError: error.message });
+          held.add(entry.resourceKey);
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        const lastError = error instanceof Error ? error.message : 'Upload failed';
+        if (attempts >= MAX_ATTEMPTS) {
+          await this.save({ ...entry, attempts, status: 'failed', lastError });
+          held.add(entry.resourceKey);
+          continue;
+        }
+
+        // Later entries wait too, keeping edits in the order they were made
+        await this.save({ ...entry, attempts, lastError });
+        this.retryTimer = setTimeout(() => void this.flush(), RETRY_DELAYS[attempts - 1]);
+        return;
+      } finally {
+        this.inFlight = null;
+        this.notify();
+      }
+    }
+  }
+
+  private async send(entry: OutboxEntry): Promise<Omit<SyncedOperation, 'entry'>> {
+    switch (entry.kind) {
+      case 'profile': {
+        const db = await getDb();
+        const version = await updateWithVersion(doc(db, entry.path), entry.baseVersion, entry.changes, {
+          versionField: entry.versionField,
+          resource: 'profile',
+        });
+        return { version };
+      }
+      case 'timeline': {
+        // Entries queued before the canonical model still hold builder events
+        const events = entry.events.map(event => toTimelineEvent({ ...event }));
+        return { version: await timelineService.saveTimeline(entry.profileId, events, entry.baseVersion) };
+      }
+      case 'storyAnswer':
+        return {
+          version: await saveStoryAnswer(entry.orgId, entry.profileId, entry.questionId, entry.answer, entry.baseVersion),
+        };
+      case 'media':
+        return { mediaId: await MediaService.uploadMedia(entry.file, entry.folderId, entry.userId) };
+    }
+  }
+
+  private async complete(entry: OutboxEntry, version?: number): Promise<void> {
+    this.entries = this.entries.filter(item => item.seq !== entry.seq);
+    await deleteOutboxEntry(entry.seq);
+    if (version === undefined) return;
+
+    // Edits queued behind this one were made on top of it
+    const followers = this.entries.filter(
+      (item): item is VersionedEntry => item.resourceKey === entry.resourceKey && isVersioned(item)
+    );
+    await Promise.all(followers.map(follower => this.save({ ...follower, baseVersion: version })));
+  }
+}
+
+export const syncOutbox = new SyncOutboxService();
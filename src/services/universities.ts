@@ -1,17 +1,7 @@
 import { getDb } from '@/lib/firebase';
-import { 
-  collection, 
-  doc, 
-  getDoc, 
-  getDocs, 
-  addDoc, 
-  updateDoc, 
-  query, 
-  where,
-  serverTimestamp,
-  Timestamp
-} from 'firebase/firestore';
+import { collection, getDocs, query, where } from 'firebase/firestore';
 import { University } from '@/types';
+import { getRepositories } from '@/lib/repositories';
 import { analytics } from './analytics';
 
 async function assertDb() {
@@ -22,81 +12,41 @@ async function assertDb() {
 
 export const universitiesService = {
   async getUniversity(id: string): Promise<University> {
-    const db = await assertDb();
-    const docRef = doc(db, 'universities', id);
-    const docSnap = await getDoc(docRef);
-    
-    if (!docSnap.exists()) {
+    const university = await getRepositories().universities.get(id);
+    if (!university) {
       throw new Error('University not found');
     }
-    
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      name: data.name,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      createdBy: data.createdBy,
-      admins: data.adminIds || data.admins || [],
-      isActive: data.isActive ?? true
-    };
+    return university;
   },
 
   async listUniversities(): Promise<University[]> {
-    const db = await assertDb();
-    const universitiesRef = collection(db, 'universities');
-    const snapshot = await getDocs(universitiesRef);
-    
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        name: data.name,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        createdBy: data.createdBy,
-        admins: data.adminIds || data.admins || [],
-        isActive: data.isActive ?? true
-      };
-    });
+    return getRepositories().universities.list();
   },
 
   async createUniversity(universityData: Omit<University, 'id' | 'createdAt'>): Promise<string> {
-    const db = await assertDb();
-    const universitiesRef = collection(db, 'universities');
-    const docRef = await addDoc(universitiesRef, {
+    const university = await getRepositories().universities.create({
       ...universityData,
-      createdAt: serverTimestamp(),
+      createdAt: new Date(),
       admins: universityData.admins || [],
       isActive: universityData.isActive ?? true
     });
     
     // Log analytics event
-    await analytics.logUniversityCreated(docRef.id, universityData.createdBy);
+    await analytics.logUniversityCreated(university.id, universityData.createdBy);
     
-    return docRef.id;
+    return university.id;
   },
 
   async updateUniversity(id: string, updates: Partial<University>): Promise<void> {
-    const db = await assertDb();
-    const universityRef = doc(db, 'universities', id);
-    await updateDoc(universityRef, {
-      ...updates,
-      updatedAt: serverTimestamp()
-    });
+    const { id: _id, ...changes } = updates;
+    await getRepositories().universities.update(id, changes);
   },
 
   async addAdmin(universityId: string, adminEmail: string): Promise<void> {
-    const db = await assertDb();
-    const universityRef = doc(db, 'universities', universityId);
-    const universityDoc = await getDoc(universityRef);
-    
-    if (!universityDoc.exists()) {
-      throw new Error('University not found');
-    }
+    const university = await this.getUniversity(universityId);
 
-    const university = universityDoc.data();
-    const admins = university.admins || [];
-
-    // Get user by email
+    // Users aren't behind a repository yet
+    const db = await assertDb();
     const usersRef = collection(db, 'users');
     const q = query(usersRef, where('email', '==', adminEmail));
     const querySnapshot = await getDocs(q);
@@ -107,9 +57,9 @@ export const universitiesService = {
 
     const userId = querySnapshot.docs[0].id;
 
-    if (!admins.includes(userId)) {
-      await updateDoc(universityRef, {
-        admins: [...admins, userId]
+    if (!university.admins.includes(userId)) {
+      await getRepositories().universities.update(universityId, {
+        admins: [...university.admins, userId]
       });
     }
   }
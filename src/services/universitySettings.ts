@@ -0,0 +1,205 @@
+import { getRepositories } from '@/lib/repositories';
+import { isUniversityAdmin } from '@/lib/permissions';
+import { AppError } from '@/utils/errors';
+import { computeVersionChanges } from '@/services/versionService';
+import { DEFAULT_UNIVERSITY_SETTINGS, MAX_PER_USER_LIMIT, UniversitySettings } from '@/types/university';
+import type { AuditActor } from '@/types/audit';
+import type { VersionReason } from '@/types/version';
+import type { WorkflowResourceType, WorkflowSubmission } from '@/types/workflow';
+import { approvalWorkflowService } from './approvalWorkflow';
+import { auditLogService } from './auditLogService';
+
+const BOOLEAN_SETTINGS = [
+  'allowPublicProfiles',
+  'requireApproval',
+  'allowComments',
+  'allowSharing',
+  'allowMemorials',
+  'allowDonations',
+] as const;
+
+const LIMIT_SETTINGS = ['maxProfilesPerUser', 'maxMemorialsPerUser'] as const;
+
+const LIMIT_LABELS: Record<typeof LIMIT_SETTINGS[number], string> = {
+  maxProfilesPerUser: 'Max profiles per user',
+  maxMemorialsPerUser: 'Max memorials per user',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+/** What publishing has to wait for under the university's settings */
+export type PublishApproval =
+  | { status: 'not_required' }
+  | { status: 'approved' | 'in_review' | 'submitted'; submission: WorkflowSubmission };
+
+/**
+ * Why a publish is being recorded in the version history: content that
+ * went through review is an approved edit, noted with the final reviewer's
+ * comments.
+ */
+export const publishReason = (approval: PublishApproval): { reason: VersionReason; comments?: string } => {
+  if (approval.status !== 'approved') return { reason: 'publish' };
+  const comments = approval.submission.decisions[approval.submission.decisions.length - 1]?.comments;
+  return { reason: 'approved_edit', ...(comments ? { comments } : {}) };
+};
+
+/**
+ * Validate a university's settings
+ * @returns An error message, or null when the settings are valid
+ */
+export const validateUniversitySettings = (settings: UniversitySettings): string | null => {
+  for (const key of BOOLEAN_SETTINGS) {
+    if (typeof settings[key] !== 'boolean') {
+      return `${key} must be on or off`;
+    }
+  }
+
+  for (const key of LIMIT_SETTINGS) {
+    const value = settings[key];
+    if (!Number.isInteger(value) || value < 0 || value > MAX_PER_USER_LIMIT) {
+      return `${LIMIT_LABELS[key]} must be a whole number from 0 to ${MAX_PER_USER_LIMIT}`;
+    }
+  }
+
+  if (settings.notificationEmail && !EMAIL_PATTERN.test(settings.notificationEmail)) {
+    return 'Notification email is not a valid email address';
+  }
+  if (settings.customDomain && !HOSTNAME_PATTERN.test(settings.customDomain)) {
+    return 'Custom domain must be a hostname such as alumni.example.edu';
+  }
+
+  return null;
+};
+
+class UniversitySettingsService {
+  /** A university's settings, with defaults for anything it hasn't set */
+  async getSettings(universityId: string): Promise<UniversitySettings> {
+    const university = await getRepositories().universities.get(universityId);
+    return { ...DEFAULT_UNIVERSITY_SETTINGS, ...university?.settings };
+  }
+
+  async updateSettings(
+    universityId: string,
+    changes: Partial<UniversitySettings>,
+    actor: AuditActor
+  ): Promise<UniversitySettings> {
+    try {
+      if (!(await isUniversityAdmin(actor.id, universityId))) {
+        throw new AppError('PERMISSION_DENIED', 'Only university admins can change university settings', 403);
+      }
+
+      const university = await getRepositories().universities.get(universityId);
+      if (!university) {
+        throw new AppError('NOT_FOUND', 'University not found', 404);
+      }
+
+      // The custom domain only changes through domain verification
+      const { customDomain: _customDomain, ...editable } = changes;
+      const previous = { ...DEFAULT_UNIVERSITY_SETTINGS, ...university.settings };
+      const settings: UniversitySettings = {
+        ...previous,
+        ...editable,
+        notificationEmail: (editable.notificationEmail ?? previous.notificationEmail).trim(),
+      };
+      const validationError = validateUniversitySettings(settings);
+      if (validationError) {
+        throw new AppError('INVALID_ARGUMENT', validationError, 400);
+      }
+
+      await getRepositories().universities.update(universityId, { settings });
+      await auditLogService.log({
+        action: 'settings.updated',
+        resourceType: 'university',
+        resourceId: universityId,
+        universityId,
+        actor,
+        changes: computeVersionChanges(previous, settings),
+      });
+
+      return settings;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /** Throws when the university has turned comments off */
+  async assertCommentsAllowed(universityId: string): Promise<void> {
+    const { allowComments } = await this.getSettings(universityId);
+    if (!allowComments) {
+      throw new AppError('comment/disabled', 'Comments are turned off for this university\'s profiles', 403);
+    }
+  }
+
+  /** Throws when the university has turned public profiles off */
+  async assertPublicProfilesAllowed(universityId: string): Promise<void> {
+    const { allowPublicProfiles } = await this.getSettings(universityId);
+    if (!allowPublicProfiles) {
+      throw new AppError('PERMISSION_DENIED', 'This university does not allow public profiles', 403);
+    }
+  }
+
+  /**
+   * Throws when the user may not create another profile of this kind at
+   * the university: memorials are turned off, or they have reached the cap.
+   * Callers that store profiles outside the repositories pass their own
+   * count of what the user has created.
+   */
+  async assertCanCreateProfile(
+    universityId: string,
+    userId: string,
+    isMemorial: boolean,
+    countCreated?: () => Promise<number>
+  ): Promise<void> {
+    const settings = await this.getSettings(universityId);
+    if (isMemorial && !settings.allowMemorials) {
+      throw new AppError('PERMISSION_DENIED', 'This university does not allow new memorials', 403);
+    }
+
+    const limit = isMemorial ? settings.maxMemorialsPerUser : settings.maxProfilesPerUser;
+    if (!limit) return;
+
+    const created = countCreated
+      ? await countCreated()
+      : (await getRepositories().profiles.listByUniversity(universityId))
+        .filter(profile => profile.createdBy === userId && profile.isDeceased === isMemorial).length;
+    if (created >= limit) {
+      const kind = isMemorial ? 'memorials' : 'profiles';
+      throw new AppError(
+        'FAILED_PRECONDITION',
+        `You can create at most ${limit} ${kind} for this university`,
+        409,
+        { limit, created }
+      );
+    }
+  }
+
+  /**
+   * Checks whether publishing may go ahead. Where the university requires
+   * approval, only an approval of the version being published counts;
+   * otherwise the content is submitted for review (unless it already is)
+   * and publishing waits.
+   */
+  async checkPublishApproval(
+    ref: { resourceType: WorkflowResourceType; resourceId: string; universityId: string; contentVersion: number }
+  ): Promise<PublishApproval> {
+    const { requireApproval } = await this.getSettings(ref.universityId);
+    if (!requireApproval) {
+      return { status: 'not_required' };
+    }
+
+    const latest = await approvalWorkflowService.getLatestSubmission(ref.resourceId);
+    if (latest?.status === 'in_review') {
+      return { status: 'in_review', submission: latest };
+    }
+    if (latest?.status === 'approved' && latest.contentVersion === ref.contentVersion) {
+      return { status: 'approved', submission: latest };
+    }
+
+    const submission = await approvalWorkflowService.submitForReview(ref);
+    return { status: 'submitted', submission };
+  }
+}
+
+export const universitySettingsService = new UniversitySettingsService();
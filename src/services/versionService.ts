@@ -0,0 +1,304 @@
+import { getDb } from '@/lib/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  startAfter,
+  setDoc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  DocumentSnapshot,
+} from 'firebase/firestore';
+import { AppError } from '@/utils/errors';
+import { canPerformProfileAction, canEditMemorial, isUniversityAdmin } from '@/lib/permissions';
+import type {
+  ResourceVersion,
+  RecordVersionInput,
+  VersionActor,
+  VersionChange,
+  VersionedResourceRef,
+  VersionedResourceType,
+  VersionListOptions,
+  VersionPage,
+} from '@/types/version';
+
+const DEFAULT_PAGE_SIZE = 10;
+
+// Bookkeeping fields that change on every write and would drown out real edits
+const IGNORED_FIELDS = new Set([
+  'id',
+  'createdAt',
+  'updatedAt',
+  'lastModifiedAt',
+  'lastModifiedBy',
+  'version',
+  'publishedAt',
+  'metadata.lastModifiedAt',
+  'metadata.lastModifiedBy',
+  'metadata.version',
+  'timelineVersion',
+]);
+
+// Story answers each keep a counter under answerVersions.<questionId>
+const IGNORED_PREFIXES = ['answerVersions.'];
+
+const COLLECTIONS: Record<VersionedResourceType, string> = {
+  profile: 'profiles',
+  memorial: 'memorials',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  !(value instanceof Timestamp);
+
+/**
+ * Drop undefined values (Firestore rejects them) while keeping dates and
+ * timestamps intact.
+ */
+const toSnapshot = (value: Record<string, any>): Record<string, any> => {
+  const result: Record<string, any> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    if (entry === undefined) return;
+    if (Array.isArray(entry)) {
+      result[key] = entry.map(item => (isPlainObject(item) ? toSnapshot(item) : item));
+    } else {
+      result[key] = isPlainObject(entry) ? toSnapshot(entry) : entry;
+    }
+  });
+  return result;
+};
+
+const flatten = (value: Record<string, any>, prefix = ''): Record<string, any> => {
+  return Object.entries(value).reduce<Record<string, any>>((acc, [key, entry]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(entry) && Object.keys(entry).length > 0) {
+      Object.assign(acc, flatten(entry, path));
+    } else {
+      acc[path] = entry;
+    }
+    return acc;
+  }, {});
+};
+
+const normalizeValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+
+/**
+ * Field-level changes between two snapshots, using dot paths for nested
+ * objects. Arrays are compared as a whole.
+ */
+export const computeVersionChanges = (
+  previous: Record<string, any> | null,
+  next: Record<string, any>
+): VersionChange[] => {
+  const oldFields = previous ? flatten(previous) : {};
+  const newFields = flatten(next);
+  const fields = Array.from(new Set([...Object.keys(oldFields), ...Object.keys(newFields)])).sort();
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.has(field) && !IGNORED_PREFIXES.some(prefix => field.startsWith(prefix)))
+    .filter(field => !isSameValue(oldFields[field], newFields[field]))
+    .map(field => ({
+      field,
+      oldValue: oldFields[field] ?? null,
+      newValue: newFields[field] ?? null,
+    }));
+};
+
+/** Build the version author for the signed-in user returned by useAuth */
+export const versionActorFromUser = (user: {
+  id: string;
+  email?: string | null;
+  displayName?: string | null;
+}): VersionActor => ({
+  id: user.id,
+  name: user.displayName || user.email || 'Unknown',
+  email: user.email || '',
+});
+
+const convertToVersion = (snapshot: DocumentSnapshot): ResourceVersion => {
+  const data = snapshot.data();
+  return {
+    ...data,
+    id: snapshot.id,
+    createdAt: data?.createdAt?.toDate?.() ?? new Date(),
+  } as ResourceVersion;
+};
+
+class VersionService {
+  private versionsCollection(db: Awaited<ReturnType<typeof getDb>>, ref: VersionedResourceRef) {
+    return collection(db, COLLECTIONS[ref.resourceType], ref.resourceId, 'versions');
+  }
+
+  /**
+   * History is visible to anyone who can read the resource; restoring needs
+   * edit rights. University admins always have both.
+   */
+  private async assertAccess(
+    ref: VersionedResourceRef,
+    userId: string,
+    action: 'read' | 'update'
+  ): Promise<void> {
+    if (!userId) {
+      throw new AppError('UNAUTHENTICATED', 'You must be signed in to view version history', 401);
+    }
+
+    let allowed = await isUniversityAdmin(userId, ref.universityId);
+    if (!allowed) {
+      allowed = ref.resourceType === 'memorial'
+        ? await canEditMemorial(userId, ref.resourceId)
+        : await canPerformProfileAction(userId, ref.resourceId, action);
+    }
+
+    if (!allowed) {
+      throw new AppError('PERMISSION_DENIED', 'You do not have permission to access this version history', 403);
+    }
+  }
+
+  private async getLatestVersion(ref: VersionedResourceRef): Promise<ResourceVersion | null> {
+    const db = await getDb();
+    const latestQuery = query(this.versionsCollection(db, ref), orderBy('version', 'desc'), limit(1));
+    const snapshot = await getDocs(latestQuery);
+    return snapshot.empty ? null : convertToVersion(snapshot.docs[0]);
+  }
+
+  /**
+   * Store an immutable snapshot of a published or approved resource. Version
+   * documents are keyed by their number and never overwritten, so two
+   * concurrent publishes cannot both claim the same version.
+   */
+  async recordVersion(input: RecordVersionInput): Promise<ResourceVersion> {
+    try {
+      const db = await getDb();
+      const latest = await this.getLatestVersion(input);
+      const nextVersion = (latest?.version ?? 0) + 1;
+      const snapshot = toSnapshot(input.snapshot);
+      const changes = computeVersionChanges(latest?.snapshot ?? null, snapshot);
+      const versionRef = doc(this.versionsCollection(db, input), String(nextVersion));
+
+      const data = toSnapshot({
+        resourceType: input.resourceType,
+        resourceId: input.resourceId,
+        universityId: input.universityId,
+        version: nextVersion,
+        status: input.status,
+        reason: input.reason,
+        snapshot,
+        changes,
+        createdBy: input.actor,
+        comments: input.comments,
+      });
+
+      await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(versionRef);
+        if (existing.exists()) {
+          throw new AppError('ABORTED', 'A newer version was recorded at the same time, please retry', 409);
+        }
+        transaction.set(versionRef, { ...data, createdAt: serverTimestamp() });
+      });
+
+      return {
+        ...data,
+        id: versionRef.id,
+        createdAt: new Date(),
+      } as ResourceVersion;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async listVersions(
+    ref: VersionedResourceRef,
+    userId: string,
+    options: VersionListOptions = {}
+  ): Promise<VersionPage> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    try {
+      await this.assertAccess(ref, userId, 'read');
+
+      const db = await getDb();
+      const constraints = [orderBy('version', 'desc')] as Parameters<typeof query>[1][];
+      if (options.cursor !== undefined) {
+        constraints.push(startAfter(options.cursor));
+      }
+      // Fetch one extra to know whether another page exists
+      constraints.push(limit(pageSize + 1));
+
+      const snapshot = await getDocs(query(this.versionsCollection(db, ref), ...constraints));
+      const versions = snapshot.docs.slice(0, pageSize).map(convertToVersion);
+      const hasMore = snapshot.docs.length > pageSize;
+
+      return {
+        versions,
+        nextCursor: hasMore ? versions[versions.length - 1].version : null,
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  async getVersion(ref: VersionedResourceRef, versionId: string, userId: string): Promise<ResourceVersion> {
+    try {
+      await this.assertAccess(ref, userId, 'read');
+
+      const db = await getDb();
+      const versionDoc = await getDoc(doc(this.versionsCollection(db, ref), versionId));
+      if (!versionDoc.exists()) {
+        throw new AppError('NOT_FOUND', 'Version not found', 404);
+      }
+
+      return convertToVersion(versionDoc);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+
+  /**
+   * Restore a version as a new draft. The draft lives next to the live
+   * document as `<id>_draft`, so the published copy stays untouched until
+   * the draft goes through the normal publish flow.
+   * @returns The ID of the draft document
+   */
+  async restoreVersion(ref: VersionedResourceRef, versionId: string, actor: VersionActor): Promise<string> {
+    try {
+      await this.assertAccess(ref, actor.id, 'update');
+
+      const version = await this.getVersion(ref, versionId, actor.id);
+      const db = await getDb();
+      const draftId = `${ref.resourceId}_draft`;
+
+      await setDoc(doc(db, COLLECTIONS[ref.resourceType], draftId), {
+        ...version.snapshot,
+        status: 'draft',
+        restoredFromVersion: version.version,
+        updatedBy: actor.id,
+        updatedAt: serverTimestamp(),
+      });
+
+      return draftId;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.fromFirebaseError(error as any);
+    }
+  }
+}
+
+export const versionService = new VersionService();
@@ -0,0 +1,122 @@
+import { getDocs, runTransaction, where } from 'firebase/firestore';
+import { createMemoryRepositories, setRepositories } from '@/lib/repositories';
+import { createMemorial } from '@/shared/services/memorials';
+import type { University } from '@/types';
+import type { Memorial } from '@/types/memorial';
+import type { UniversitySettings } from '@/types/university';
+
+// Settings come from the in-memory repositories; memorials go to Firestore
+jest.mock('@/lib/repositories/firebase', () => ({ createFirebaseRepositories: jest.fn() }));
+jest.mock('@/lib/repositories/supabase', () => ({ createSupabaseRepositories: jest.fn() }));
+
+jest.mock('@/lib/firebase', () => ({
+  getDb: jest.fn(async () => ({})),
+}));
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn((_db: unknown, path: string) => ({ path })),
+  doc: jest.fn(() => ({ id: 'memorial-1' })),
+  getDocs: jest.fn(),
+  query: jest.fn(() => ({})),
+  where: jest.fn(() => ({})),
+  runTransaction: jest.fn(),
+  Timestamp: { fromDate: (date: Date) => date, now: () => new Date() },
+}));
+
+jest.mock('@/lib/permissions', () => ({
+  isUniversityAdmin: jest.fn(),
+}));
+
+jest.mock('@/services/auditLogService', () => ({
+  auditLogService: { log: jest.fn() },
+}));
+
+jest.mock('@/services/notifications', () => ({
+  notificationService: { notify: jest.fn() },
+}));
+
+jest.mock('@/services/approvalWorkflow', () => ({
+  approvalWorkflowService: {},
+}));
+
+const UNIVERSITY_ID = 'uni-1';
+const USER_ID = 'user-1';
+
+const seed = (settings: Partial<UniversitySettings>) => {
+  const university: University = {
+    id: UNIVERSITY_ID,
+    name: 'Test University',
+    createdAt: new Date('2024-01-01'),
+    createdBy: 'admin-1',
+    admins: ['admin-1'],
+    isActive: true,
+    settings,
+  };
+  setRepositories(createMemoryRepositories({ universities: [university] }));
+};
+
+// The memorials the user already has, as the count query sees them
+const mockCreated = (count: number) => {
+  (getDocs as jest.Mock).mockResolvedValue({ size: count });
+};
+
+const set = jest.fn();
+
+const memorialData = {
+  universityId: UNIVERSITY_ID,
+  status: 'draft',
+  basicInfo: { name: 'Someone' },
+  title: 'Someone',
+  lastModifiedBy: USER_ID,
+  version: 1,
+} as unknown as Omit<Memorial, 'id' | 'createdAt' | 'updatedAt'>;
+
+const create = () => createMemorial(memorialData, { id: USER_ID, name: 'Una User' });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (runTransaction as jest.Mock).mockImplementation((_db, update) => update({ set }));
+});
+
+afterAll(() => {
+  setRepositories(null);
+});
+
+describe('createMemorial creation caps', () => {
+  it('counts the user\'s memorials in the memorials collection', async () => {
+    seed({ maxMemorialsPerUser: 2 });
+    mockCreated(1);
+
+    await expect(create()).resolves.toMatchObject({ id: 'memorial-1', creatorId: USER_ID });
+    expect(where).toHaveBeenCalledWith('universityId', '==', UNIVERSITY_ID);
+    expect(where).toHaveBeenCalledWith('creatorId', '==', USER_ID);
+    expect(set).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a memorial past the per-user cap without writing it', async () => {
+    seed({ maxMemorialsPerUser: 2 });
+    mockCreated(2);
+
+    await expect(create()).rejects.toMatchObject({
+      code: 'FAILED_PRECONDITION',
+      details: { limit: 2, created: 2 },
+    });
+    expect(runTransaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses memorials where the university has turned them off', async () => {
+    seed({ allowMemorials: false });
+
+    await expect(create()).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+    expect(getDocs).not.toHaveBeenCalled();
+    expect(runTransaction).not.toHaveBeenCalled();
+  });
+
+  it('does not count when there is no cap', async () => {
+    seed({ maxMemorialsPerUser: 0 });
+
+    await expect(create()).resolves.toBeDefined();
+    expect(getDocs).not.toHaveBeenCalled();
+    expect(set).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,22 @@
-import { collection, doc, setDoc, getDoc, getDocs, query, where, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, doc, setDoc, getDoc, getDocs, query, where, updateDoc, deleteDoc, writeBatch, increment, runTransaction } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
-import { MemorialInvitation, UserUniversityAssociation } from '@/types';
+import { validateEmail } from '@/lib/validation';
+import {
+  MemorialInvitation,
+  UserUniversityAssociation,
+  InvitationRole,
+  InvitationStats,
+  BulkInvitationRowResult,
+} from '@/types';
 import { v4 as uuidv4 } from 'uuid';
+import { auditLogService } from '@/services/auditLogService';
+import { AuditActor, SYSTEM_ACTOR } from '@/types/audit';
+import { requestTemplatedEmail } from '@/lib/email/client';
+import { notificationService } from '@/services/notifications';
+
+export const INVITATION_ROLES: InvitationRole[] = ['admin', 'contributor'];
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 7;
+export const MAX_BULK_INVITATIONS = 500;
 
 /**
  * Generate a unique invitation token
@@ -10,37 +25,134 @@ function generateToken(): string {
   return uuidv4();
 }
 
+function expiryFrom(now: Date, expiresInDays: number): Date {
+  const expiresAt = new Date(now);
+  expiresAt.setDate(now.getDate() + expiresInDays);
+  return expiresAt;
+}
+
+/**
+ * Invitation dates have been stored as ISO strings and as Firestore
+ * timestamps over time, so accept either.
+ */
+function toDate(value: any): Date | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'object' && typeof value.toDate === 'function') return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'string') return new Date(value);
+  return undefined;
+}
+
+function mapInvitation(id: string, data: Record<string, any>): MemorialInvitation {
+  return {
+    ...data,
+    id,
+    role: data.role || 'contributor',
+    createdAt: toDate(data.createdAt) ?? new Date(),
+    expiresAt: toDate(data.expiresAt) ?? new Date(),
+    acceptedAt: toDate(data.acceptedAt),
+    lastSentAt: toDate(data.lastSentAt),
+    revokedAt: toDate(data.revokedAt),
+  } as MemorialInvitation;
+}
+
+/**
+ * A pending invitation past its expiry date is expired even before the
+ * sweeper has marked it.
+ */
+export function isInvitationExpired(invitation: MemorialInvitation, now: Date = new Date()): boolean {
+  return invitation.status === 'expired'
+    || (invitation.status === 'pending' && invitation.expiresAt.getTime() < now.getTime());
+}
+
+function getAcceptUrl(token: string): string {
+  const origin = typeof window !== 'undefined'
+    ? window.location.origin
+    : process.env.NEXT_PUBLIC_APP_URL || '';
+  return `${origin}/invitation/accept?token=${encodeURIComponent(token)}`;
+}
+
+async function getUniversityName(universityId: string): Promise<string> {
+  const db = await getDb();
+  const snapshot = await getDoc(doc(db, 'universities', universityId));
+  return (snapshot.exists() && snapshot.data().name) || 'Storiats';
+}
+
+/**
+ * Send the invitation email using the 'invitation' template and record the
+ * send. Returns false instead of throwing so a mail outage doesn't undo the
+ * invitation itself; the admin can resend later.
+ */
+async function deliverInvitation(invitation: MemorialInvitation, sender: AuditActor): Promise<boolean> {
+  if (!invitation.email) return false;
+
+  try {
+    await requestTemplatedEmail({
+      templateId: 'invitation',
+      to: invitation.email,
+      universityId: invitation.universityId,
+      variables: {
+        universityName: await getUniversityName(invitation.universityId),
+        role: invitation.role,
+        acceptUrl: getAcceptUrl(invitation.token),
+        expiresAt: invitation.expiresAt.toLocaleDateString(),
+        inviterName: sender.name,
+      },
+    });
+
+    const db = await getDb();
+    await updateDoc(doc(db, 'invitations', invitation.id), {
+      sendCount: increment(1),
+      lastSentAt: new Date().toISOString(),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Error sending invitation email for ${invitation.id}:`, error);
+    return false;
+  }
+}
+
 /**
  * Create a new invitation for someone to create a memorial
  * @param universityId The ID of the university creating the invitation
- * @param email Optional email to associate with the invitation
+ * @param createdBy The user creating the invitation
+ * @param email Optional email to associate with the invitation; when set the invitation is emailed
+ * @param role Role granted to the invitee on acceptance
  * @param expiresInDays Number of days until the invitation expires
  */
 export async function createInvitation(
   universityId: string,
+  createdBy: AuditActor,
   email?: string,
-  expiresInDays: number = 7
+  role: InvitationRole = 'contributor',
+  expiresInDays: number = DEFAULT_INVITATION_EXPIRY_DAYS
 ): Promise<MemorialInvitation> {
   if (!universityId) {
     throw new Error('University ID is required');
   }
+
+  if (!INVITATION_ROLES.includes(role)) {
+    throw new Error(`Invalid role: ${role}`);
+  }
   
   try {
     const db = await getDb();
     const invitationRef = doc(collection(db, 'invitations'));
     const token = generateToken();
     const now = new Date();
-    const expiresAt = new Date();
-    expiresAt.setDate(now.getDate() + expiresInDays);
+    const expiresAt = expiryFrom(now, expiresInDays);
     
     const invitation: MemorialInvitation = {
       id: invitationRef.id,
       universityId,
       token,
       status: 'pending',
-      email,
+      role,
       createdAt: now,
       expiresAt,
+      createdBy: createdBy.id,
+      sendCount: 0,
+      ...(email ? { email: email.trim().toLowerCase() } : {}),
     };
     
     await setDoc(invitationRef, {
@@ -48,6 +160,17 @@ export async function createInvitation(
       createdAt: now.toISOString(),
       expiresAt: expiresAt.toISOString(),
     });
+
+    await auditLogService.log({
+      action: 'invitation.created',
+      resourceType: 'invitation',
+      resourceId: invitation.id,
+      universityId,
+      actor: createdBy,
+      metadata: { email: invitation.email, role, expiresAt: expiresAt.toISOString() },
+    });
+
+    await deliverInvitation(invitation, createdBy);
     
     return invitation;
   } catch (error) {
@@ -60,7 +183,25 @@ export async function createInvitation(
 }
 
 /**
- * Get an invitation by its token
+ * Mark an overdue pending invitation as expired
+ */
+async function markExpired(invitation: MemorialInvitation): Promise<MemorialInvitation> {
+  const db = await getDb();
+  await updateDoc(doc(db, 'invitations', invitation.id), { status: 'expired' });
+  await auditLogService.log({
+    action: 'invitation.expired',
+    resourceType: 'invitation',
+    resourceId: invitation.id,
+    universityId: invitation.universityId,
+    actor: SYSTEM_ACTOR,
+    metadata: { expiresAt: invitation.expiresAt.toISOString() },
+  });
+  return { ...invitation, status: 'expired' };
+}
+
+/**
+ * Get an invitation by its token. Overdue invitations are marked expired on
+ * read so they can never be accepted between sweeps.
  */
 export async function getInvitationByToken(token: string): Promise<MemorialInvitation | null> {
   if (!token) {
@@ -68,60 +209,23 @@ export async function getInvitationByToken(token: string): Promise<MemorialInvit
   }
   
   try {
-    console.log('Getting invitation by token:', token);
     const db = await getDb();
     const invitationsCollection = collection(db, 'invitations');
     const q = query(invitationsCollection, where('token', '==', token));
-    
-    console.log('Attempting to execute Firestore query');
     const querySnapshot = await getDocs(q);
-    console.log('Query executed successfully');
     
     if (querySnapshot.empty) {
       console.log('No invitation found with token:', token);
       return null;
     }
     
-    const doc = querySnapshot.docs[0];
-    const data = doc.data();
-    console.log('Raw invitation data:', data);
-    
-    // Handle date conversion more robustly
-    let createdAt = new Date();
-    let expiresAt = new Date();
-    
-    try {
-      if (data.createdAt) {
-        if (typeof data.createdAt === 'object' && typeof data.createdAt.toDate === 'function') {
-          createdAt = data.createdAt.toDate();
-        } else if (typeof data.createdAt === 'string') {
-          createdAt = new Date(data.createdAt);
-        } else if (data.createdAt instanceof Date) {
-          createdAt = data.createdAt;
-        }
-      }
-      
-      if (data.expiresAt) {
-        if (typeof data.expiresAt === 'object' && typeof data.expiresAt.toDate === 'function') {
-          expiresAt = data.expiresAt.toDate();
-        } else if (typeof data.expiresAt === 'string') {
-          expiresAt = new Date(data.expiresAt);
-        } else if (data.expiresAt instanceof Date) {
-          expiresAt = data.expiresAt;
-        }
-      }
-    } catch (dateError) {
-      console.error('Error parsing dates:', dateError);
+    const invitationDoc = querySnapshot.docs[0];
+    const invitation = mapInvitation(invitationDoc.id, invitationDoc.data());
+
+    if (invitation.status === 'pending' && isInvitationExpired(invitation)) {
+      return markExpired(invitation);
     }
-    
-    const invitation = {
-      ...data,
-      id: doc.id,
-      createdAt,
-      expiresAt,
-    } as MemorialInvitation;
-    
-    console.log('Processed invitation:', invitation);
+
     return invitation;
   } catch (error) {
     console.error('Error getting invitation by token:', error);
@@ -162,48 +266,71 @@ export async function acceptInvitation(
       throw new Error('Invitation not found');
     }
     
-    if (invitation.status !== 'pending') {
-      throw new Error(`Invitation is already ${invitation.status}`);
-    }
-    
-    if (invitation.expiresAt < new Date()) {
-      throw new Error('Invitation has expired');
-    }
-    
     const db = await getDb();
     const invitationRef = doc(db, 'invitations', invitation.id);
-    
-    // Update invitation status
-    const updatedInvitation: Partial<MemorialInvitation> = {
-      status: 'accepted',
-      acceptedBy: userId,
-    };
-    
-    await updateDoc(invitationRef, updatedInvitation);
-    
-    // Create UserUniversityAssociation
     const associationRef = doc(collection(db, 'userUniversityAssociations'));
     const now = new Date();
-    
+
     const association: UserUniversityAssociation = {
       id: associationRef.id,
       userId,
       universityId: invitation.universityId,
-      role: 'contributor',
+      role: invitation.role,
       memorialIds: [], // This will be updated when a memorial is created
       createdAt: now,
     };
-    
-    await setDoc(associationRef, {
-      ...association,
-      createdAt: now.toISOString(),
+
+    // The status is checked and changed together so an invitation can only be accepted once
+    await runTransaction(db, async (transaction) => {
+      const current = await transaction.get(invitationRef);
+      if (!current.exists()) {
+        throw new Error('Invitation not found');
+      }
+
+      const status = current.data().status;
+      if (status === 'expired') {
+        throw new Error('Invitation has expired');
+      }
+      if (status !== 'pending') {
+        throw new Error(`Invitation is already ${status}`);
+      }
+
+      transaction.update(invitationRef, {
+        status: 'accepted',
+        acceptedBy: userId,
+        acceptedAt: now.toISOString(),
+      });
+      transaction.set(associationRef, {
+        ...association,
+        createdAt: now.toISOString(),
+      });
     });
     
-    console.log(`User ${userId} accepted invitation ${invitation.id} for university ${invitation.universityId}`);
-    console.log(`Created association: ${associationRef.id}`);
+    await auditLogService.log({
+      action: 'invitation.accepted',
+      resourceType: 'invitation',
+      resourceId: invitation.id,
+      universityId: invitation.universityId,
+      actor: { id: userId },
+      metadata: { associationId: associationRef.id, role: invitation.role },
+    });
+
+    if (invitation.createdBy && invitation.createdBy !== userId) {
+      await notificationService.notify({
+        userId: invitation.createdBy,
+        type: 'invitation_accepted',
+        title: 'Invitation accepted',
+        body: `${invitation.email ?? 'Someone'} accepted your invitation to join as a ${invitation.role}.`,
+        link: `/admin/universities/${invitation.universityId}`,
+        actor: { id: userId },
+        resourceType: 'invitation',
+        resourceId: invitation.id,
+        universityId: invitation.universityId,
+      });
+    }
     
     return {
-      invitation: { ...invitation, ...updatedInvitation } as MemorialInvitation,
+      invitation: { ...invitation, status: 'accepted', acceptedBy: userId, acceptedAt: now },
       association,
     };
   } catch (error) {
@@ -229,40 +356,9 @@ export async function getUniversityInvitations(universityId: string): Promise<Me
     const q = query(invitationsCollection, where('universityId', '==', universityId));
     const querySnapshot = await getDocs(q);
     
-    const invitations: MemorialInvitation[] = [];
-    
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      
-      // Handle date conversion
-      let createdAt = new Date();
-      let expiresAt = new Date();
-      
-      if (data.createdAt) {
-        if (typeof data.createdAt.toDate === 'function') {
-          createdAt = data.createdAt.toDate();
-        } else if (typeof data.createdAt === 'string') {
-          createdAt = new Date(data.createdAt);
-        }
-      }
-      
-      if (data.expiresAt) {
-        if (typeof data.expiresAt.toDate === 'function') {
-          expiresAt = data.expiresAt.toDate();
-        } else if (typeof data.expiresAt === 'string') {
-          expiresAt = new Date(data.expiresAt);
-        }
-      }
-      
-      invitations.push({
-        ...data,
-        id: doc.id,
-        createdAt,
-        expiresAt,
-      } as MemorialInvitation);
-    });
-    
-    return invitations;
+    return querySnapshot.docs
+      .map((invitationDoc) => mapInvitation(invitationDoc.id, invitationDoc.data()))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   } catch (error) {
     console.error('Error getting university invitations:', error);
     if (error instanceof Error) {
@@ -272,10 +368,321 @@ export async function getUniversityInvitations(universityId: string): Promise<Me
   }
 }
 
+/**
+ * Count invitations by status, treating overdue pending invitations as
+ * expired.
+ */
+export function summarizeInvitations(invitations: MemorialInvitation[]): InvitationStats {
+  const stats: InvitationStats = { pending: 0, accepted: 0, expired: 0, revoked: 0, total: invitations.length };
+
+  for (const invitation of invitations) {
+    const status = isInvitationExpired(invitation) ? 'expired' : invitation.status;
+    stats[status] += 1;
+  }
+
+  return stats;
+}
+
+export async function getInvitationStats(universityId: string): Promise<InvitationStats> {
+  return summarizeInvitations(await getUniversityInvitations(universityId));
+}
+
+/**
+ * Resend an invitation with a fresh token and expiry. The previous link
+ * stops working immediately.
+ */
+export async function resendInvitation(
+  invitationId: string,
+  resentBy: AuditActor,
+  expiresInDays: number = DEFAULT_INVITATION_EXPIRY_DAYS
+): Promise<{ invitation: MemorialInvitation, emailSent: boolean }> {
+  if (!invitationId) {
+    throw new Error('Invitation ID is required');
+  }
+
+  try {
+    const db = await getDb();
+    const invitationRef = doc(db, 'invitations', invitationId);
+    const invitationDoc = await getDoc(invitationRef);
+
+    if (!invitationDoc.exists()) {
+      throw new Error('Invitation not found');
+    }
+
+    const current = mapInvitation(invitationDoc.id, invitationDoc.data());
+    if (current.status !== 'pending' && current.status !== 'expired') {
+      throw new Error(`Cannot resend an invitation that is ${current.status}`);
+    }
+    if (!current.email) {
+      throw new Error('Invitation has no email address');
+    }
+
+    const expiresAt = expiryFrom(new Date(), expiresInDays);
+    const invitation: MemorialInvitation = {
+      ...current,
+      token: generateToken(),
+      status: 'pending',
+      expiresAt,
+    };
+
+    await updateDoc(invitationRef, {
+      token: invitation.token,
+      status: 'pending',
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    await auditLogService.log({
+      action: 'invitation.resent',
+      resourceType: 'invitation',
+      resourceId: invitationId,
+      universityId: invitation.universityId,
+      actor: resentBy,
+      metadata: { email: invitation.email, previousStatus: current.status, expiresAt: expiresAt.toISOString() },
+    });
+
+    const emailSent = await deliverInvitation(invitation, resentBy);
+    return { invitation, emailSent };
+  } catch (error) {
+    console.error('Error resending invitation:', error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to resend invitation: ${error.message}`);
+    }
+    throw new Error('Failed to resend invitation');
+  }
+}
+
+/**
+ * Revoke a pending invitation. The record is kept so the reason stays on
+ * file; use deleteInvitation to remove it entirely.
+ */
+export async function revokeInvitation(
+  invitationId: string,
+  revokedBy: AuditActor,
+  reason: string
+): Promise<void> {
+  if (!invitationId) {
+    throw new Error('Invitation ID is required');
+  }
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required to revoke an invitation');
+  }
+
+  try {
+    const db = await getDb();
+    const invitationRef = doc(db, 'invitations', invitationId);
+    const invitationDoc = await getDoc(invitationRef);
+
+    if (!invitationDoc.exists()) {
+      throw new Error('Invitation not found');
+    }
+
+    const invitation = mapInvitation(invitationDoc.id, invitationDoc.data());
+    if (invitation.status === 'accepted' || invitation.status === 'revoked') {
+      throw new Error(`Invitation is already ${invitation.status}`);
+    }
+
+    await updateDoc(invitationRef, {
+      status: 'revoked',
+      revokedBy: revokedBy.id,
+      revokedAt: new Date().toISOString(),
+      revokeReason: reason.trim(),
+    });
+
+    await auditLogService.log({
+      action: 'invitation.revoked',
+      resourceType: 'invitation',
+      resourceId: invitationId,
+      universityId: invitation.universityId,
+      actor: revokedBy,
+      changes: [{ field: 'status', oldValue: invitation.status, newValue: 'revoked' }],
+      metadata: { reason: reason.trim(), email: invitation.email },
+    });
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to revoke invitation: ${error.message}`);
+    }
+    throw new Error('Failed to revoke invitation');
+  }
+}
+
+/**
+ * Mark every overdue pending invitation as expired. The scheduled
+ * expireInvitations function does the same server-side; this lets the
+ * dashboard catch up without waiting for the next run.
+ */
+export async function expireInvitations(universityId: string): Promise<number> {
+  const db = await getDb();
+  const snapshot = await getDocs(query(
+    collection(db, 'invitations'),
+    where('universityId', '==', universityId),
+    where('status', '==', 'pending')
+  ));
+
+  const overdue = snapshot.docs
+    .map((invitationDoc) => mapInvitation(invitationDoc.id, invitationDoc.data()))
+    .filter((invitation) => isInvitationExpired(invitation));
+
+  if (overdue.length === 0) return 0;
+
+  const batch = writeBatch(db);
+  overdue.forEach((invitation) => {
+    batch.update(doc(db, 'invitations', invitation.id), { status: 'expired' });
+  });
+  await batch.commit();
+
+  await Promise.all(overdue.map((invitation) => auditLogService.log({
+    action: 'invitation.expired',
+    resourceType: 'invitation',
+    resourceId: invitation.id,
+    universityId,
+    actor: SYSTEM_ACTOR,
+    metadata: { expiresAt: invitation.expiresAt.toISOString() },
+  })));
+
+  return overdue.length;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+export interface ParsedInvitationRow {
+  line: number;
+  email: string;
+  role: string;
+}
+
+/**
+ * Parse a CSV of `email,role` rows. A header row is detected and skipped;
+ * a missing role defaults to contributor.
+ */
+export function parseInvitationCsv(csv: string): ParsedInvitationRow[] {
+  const rows: ParsedInvitationRow[] = [];
+  const lines = csv.split(/\r?\n/);
+  let emailColumn = 0;
+  let roleColumn = 1;
+
+  lines.forEach((rawLine, index) => {
+    if (!rawLine.trim()) return;
+    const cells = splitCsvLine(rawLine);
+
+    if (rows.length === 0 && cells.some((cell) => cell.toLowerCase() === 'email')) {
+      emailColumn = cells.findIndex((cell) => cell.toLowerCase() === 'email');
+      const roleIndex = cells.findIndex((cell) => cell.toLowerCase() === 'role');
+      roleColumn = roleIndex === -1 ? -1 : roleIndex;
+      return;
+    }
+
+    rows.push({
+      line: index + 1,
+      email: (cells[emailColumn] || '').toLowerCase(),
+      role: ((roleColumn >= 0 ? cells[roleColumn] : '') || 'contributor').toLowerCase(),
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Create invitations from a CSV of emails and roles. Every row gets a
+ * result: invalid rows and addresses that already have a pending
+ * invitation are reported instead of aborting the import.
+ */
+export async function bulkCreateInvitations(
+  universityId: string,
+  createdBy: AuditActor,
+  csv: string,
+  expiresInDays: number = DEFAULT_INVITATION_EXPIRY_DAYS
+): Promise<BulkInvitationRowResult[]> {
+  const rows = parseInvitationCsv(csv);
+  if (rows.length === 0) {
+    throw new Error('The CSV does not contain any rows');
+  }
+  if (rows.length > MAX_BULK_INVITATIONS) {
+    throw new Error(`A bulk import is limited to ${MAX_BULK_INVITATIONS} rows`);
+  }
+
+  const existing = await getUniversityInvitations(universityId);
+  const pendingEmails = new Set(
+    existing
+      .filter((invitation) => invitation.status === 'pending' && !isInvitationExpired(invitation))
+      .map((invitation) => invitation.email)
+  );
+  const seen = new Set<string>();
+  const results: BulkInvitationRowResult[] = [];
+
+  for (const row of rows) {
+    const result: BulkInvitationRowResult = { ...row, status: 'failed' };
+
+    const emailError = validateEmail(row.email);
+    if (emailError) {
+      results.push({ ...result, message: emailError });
+      continue;
+    }
+    if (!INVITATION_ROLES.includes(row.role as InvitationRole)) {
+      results.push({ ...result, message: `Unknown role "${row.role}"` });
+      continue;
+    }
+    if (seen.has(row.email)) {
+      results.push({ ...result, status: 'skipped', message: 'Duplicate row in this file' });
+      continue;
+    }
+    seen.add(row.email);
+    if (pendingEmails.has(row.email)) {
+      results.push({ ...result, status: 'skipped', message: 'A pending invitation already exists' });
+      continue;
+    }
+
+    try {
+      const invitation = await createInvitation(
+        universityId,
+        createdBy,
+        row.email,
+        row.role as InvitationRole,
+        expiresInDays
+      );
+      results.push({ ...result, status: 'created', invitationId: invitation.id });
+    } catch (error) {
+      results.push({
+        ...result,
+        message: error instanceof Error ? error.message : 'Failed to create invitation',
+      });
+    }
+  }
+
+  return results;
+}
+
 /**
  * Delete an invitation
  */
-export async function deleteInvitation(invitationId: string): Promise<void> {
+export async function deleteInvitation(invitationId: string, deletedBy: AuditActor): Promise<void> {
   if (!invitationId) {
     throw new Error('Invitation ID is required');
   }
@@ -283,7 +690,17 @@ export async function deleteInvitation(invitationId: string): Promise<void> {
   try {
     const db = await getDb();
     const invitationRef = doc(db, 'invitations', invitationId);
+    const invitationDoc = await getDoc(invitationRef);
     await deleteDoc(invitationRef);
+
+    await auditLogService.log({
+      action: 'invitation.revoked',
+      resourceType: 'invitation',
+      resourceId: invitationId,
+      universityId: invitationDoc.data()?.universityId,
+      actor: deletedBy,
+      metadata: { deleted: true },
+    });
   } catch (error) {
     console.error('Error deleting invitation:', error);
     if (error instanceof Error) {
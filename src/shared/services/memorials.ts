@@ -3,7 +3,6 @@ import {
   collection, 
   doc, 
   setDoc, 
-  updateDoc, 
   getDoc, 
   getDocs, 
   query, 
@@ -14,9 +13,19 @@ import {
   QuerySnapshot,
   DocumentData,
   CollectionReference,
-  Timestamp
+  Timestamp,
+  collectionGroup
 } from 'firebase/firestore';
 import { Memorial, MemorialBasicInfo, MemorialLifeStory, MemorialPhoto } from '@/types/memorial';
+import { VersionActor, VersionReason } from '@/types/version';
+import { versionService, computeVersionChanges } from '@/services/versionService';
+import { auditLogService } from '@/services/auditLogService';
+import { notificationService } from '@/services/notifications';
+import { AuditAction, AuditActor, AuditFieldChange } from '@/types/audit';
+import { readVersion, updateWithVersion } from '@/lib/firestore-utils';
+import { VersionConflictError } from '@/utils/errors';
+import { dateBounds, isChronological } from '@/utils/date';
+import { publishReason, universitySettingsService } from '@/services/universitySettings';
 
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000;
@@ -32,15 +41,11 @@ const validateBasicInfo = (basicInfo: MemorialBasicInfo): string | null => {
   if (basicInfo.location && basicInfo.location.length > 200) {
     return 'Location must be less than 200 characters';
   }
-  if (basicInfo.birthDate && basicInfo.deathDate) {
-    const birthDate = new Date(basicInfo.birthDate);
-    const deathDate = new Date(basicInfo.deathDate);
-    if (isNaN(birthDate.getTime()) || isNaN(deathDate.getTime())) {
-      return 'Invalid date format';
-    }
-    if (deathDate < birthDate) {
-      return 'Date of death cannot be before date of birth';
-    }
+  if ((basicInfo.birthDate && !dateBounds(basicInfo.birthDate)) || (basicInfo.deathDate && !dateBounds(basicInfo.deathDate))) {
+    return 'Invalid date format';
+  }
+  if (!isChronological(basicInfo.birthDate, basicInfo.deathDate)) {
+    return 'Date of death cannot be before date of birth';
   }
   return null;
 };
@@ -89,7 +94,7 @@ const validatePhotos = (photos: MemorialPhoto[]): string | null => {
   return null;
 };
 
-// Retry utility
+// Retry utility; a version conflict fails the same way however often it's tried
 const retryWithBackoff = async <T>(
   operation: () => Promise<T>,
   retries = MAX_RETRIES,
@@ -98,7 +103,7 @@ const retryWithBackoff = async <T>(
   try {
     return await operation();
   } catch (error) {
-    if (retries === 0) {
+    if (retries === 0 || error instanceof VersionConflictError) {
       throw error;
     }
     await new Promise(resolve => setTimeout(resolve, delay));
@@ -113,9 +118,68 @@ async function assertDb() {
   return db;
 }
 
+const logMemorialEvent = (
+  action: AuditAction,
+  memorial: Pick<Memorial, 'id' | 'universityId'>,
+  actor: AuditActor,
+  changes?: AuditFieldChange[]
+): Promise<void> =>
+  auditLogService.log({
+    action,
+    resourceType: 'memorial',
+    resourceId: memorial.id,
+    universityId: memorial.universityId,
+    actor,
+    changes,
+  });
+
+/**
+ * Tell everyone who pinned the memorial's university that it's been published
+ */
+const notifyPinnedSchoolFollowers = async (memorial: Memorial, publishedBy: AuditActor): Promise<void> => {
+  try {
+    const pins = await getDocs(query(
+      collectionGroup(await assertDb(), 'pinnedSchools'),
+      where('orgId', '==', memorial.universityId)
+    ));
+    // Pins live at users/{userId}/pinnedSchools/{orgId}
+    const followerIds = pins.docs
+      .map(pin => pin.ref.parent.parent?.id)
+      .filter((userId): userId is string => !!userId && userId !== publishedBy.id);
+
+    await Promise.all(followerIds.map(userId => notificationService.notify({
+      userId,
+      type: 'memorial_published',
+      title: `New memorial: ${memorial.basicInfo?.name ?? 'Untitled'}`,
+      body: `A memorial was published at ${pins.docs[0]?.data().name ?? 'a school you follow'}.`,
+      link: `/university/${memorial.universityId}/memorials/${memorial.id}`,
+      actor: { id: publishedBy.id, name: publishedBy.name },
+      resourceType: 'memorial',
+      resourceId: memorial.id,
+      universityId: memorial.universityId,
+    })));
+  } catch (error) {
+    console.error(`Error notifying followers of memorial ${memorial.id}:`, error);
+  }
+};
+
 // Memorial service functions
-export const createMemorial = async (data: Omit<Memorial, 'id' | 'createdAt' | 'updatedAt'>): Promise<Memorial> => {
+export const createMemorial = async (
+  data: Omit<Memorial, 'id' | 'createdAt' | 'updatedAt'>,
+  createdBy: AuditActor
+): Promise<Memorial> => {
   const db = await assertDb();
+  const creatorId = data.creatorId ?? createdBy.id;
+
+  // Memorials live in their own collection, so the cap counts them there
+  await universitySettingsService.assertCanCreateProfile(data.universityId, creatorId, true, async () => {
+    const created = await getDocs(query(
+      collection(db, 'memorials'),
+      where('universityId', '==', data.universityId),
+      where('creatorId', '==', creatorId)
+    ));
+    return created.size;
+  });
   
   // Create memorial document with transaction to ensure consistency
   const memorial = await runTransaction(db, async (transaction) => {
@@ -124,6 +188,7 @@ export const createMemorial = async (data: Omit<Memorial, 'id' | 'createdAt' | '
     
     const memorialData: Memorial = {
       ...data,
+      creatorId,
       id: memorialRef.id,
       createdAt: Timestamp.fromDate(now),
       updatedAt: Timestamp.fromDate(now)
@@ -138,18 +203,27 @@ export const createMemorial = async (data: Omit<Memorial, 'id' | 'createdAt' | '
     return memorialData;
   });
 
+  await logMemorialEvent('memorial.created', memorial, createdBy);
   return memorial;
 };
 
+/**
+ * Applies `updates` to the memorial as of `expectedVersion`, the version the
+ * editor loaded. Rejects with a VersionConflictError holding the current
+ * memorial if someone has saved since; resolves to the new version.
+ */
 export const updateMemorial = async (
   memorialId: string,
-  updates: Partial<Memorial>
-): Promise<void> => {
+  updates: Partial<Memorial>,
+  updatedBy: AuditActor,
+  expectedVersion: number
+): Promise<number> => {
   if (!memorialId) {
     throw new Error('Memorial ID is required');
   }
 
-  return retryWithBackoff(async () => {
+  const { version: _version, ...changes } = updates;
+  const { previous, version } = await retryWithBackoff(async () => {
     try {
       const memorialRef = doc(await assertDb(), 'memorials', memorialId);
       const memorialDoc = await getDoc(memorialRef);
@@ -183,15 +257,27 @@ export const updateMemorial = async (
       }
 
       // Update the memorial
-      await updateDoc(memorialRef, {
-        ...updates,
+      const version = await updateWithVersion<Memorial>(memorialRef, expectedVersion, {
+        ...changes,
         updatedAt: Timestamp.fromDate(new Date()),
+      }, {
+        resource: 'memorial',
+        current: (current) => ({ ...current, id: memorialId } as Memorial),
       });
+      return { previous: { ...memorial, id: memorialId }, version };
     } catch (error) {
       console.error('Error updating memorial:', error);
       throw error;
     }
   });
+
+  await logMemorialEvent(
+    'memorial.updated',
+    previous,
+    updatedBy,
+    computeVersionChanges(previous, { ...previous, ...changes })
+  );
+  return version;
 };
 
 export const getMemorial = async (memorialId: string): Promise<Memorial | null> => {
@@ -334,8 +420,10 @@ export const getMemorialsByCreator = async (creatorId: string): Promise<Memorial
 
 export const updateMemorialLifeStory = async (
   memorialId: string, 
-  lifeStory: MemorialLifeStory
-): Promise<void> => {
+  lifeStory: MemorialLifeStory,
+  updatedBy: AuditActor,
+  expectedVersion: number
+): Promise<number> => {
   if (!memorialId) {
     throw new Error('Memorial ID is required');
   }
@@ -345,30 +433,51 @@ export const updateMemorialLifeStory = async (
     throw new Error(validationError);
   }
 
-  return retryWithBackoff(async () => {
+  const { previous, version } = await retryWithBackoff(async () => {
     try {
       const memorialRef = doc(await assertDb(), 'memorials', memorialId);
       
-      await runTransaction(await assertDb(), async (transaction) => {
+      return await runTransaction(await assertDb(), async (transaction) => {
         const memorialDoc = await transaction.get(memorialRef);
         
         if (!memorialDoc.exists()) {
           throw new Error('Memorial not found');
         }
 
+        const memorial = { ...(memorialDoc.data() as Memorial), id: memorialId };
+        const currentVersion = readVersion(memorial);
+        if (currentVersion !== expectedVersion) {
+          throw new VersionConflictError(memorial, expectedVersion, currentVersion, 'memorial');
+        }
+
         transaction.update(memorialRef, {
           lifeStory,
+          version: currentVersion + 1,
           updatedAt: Timestamp.fromDate(new Date()),
         });
+        return { previous: memorial, version: currentVersion + 1 };
       });
     } catch (error) {
       console.error('Error updating memorial life story:', error);
       throw error;
     }
   });
+
+  await logMemorialEvent(
+    'memorial.updated',
+    previous,
+    updatedBy,
+    computeVersionChanges({ lifeStory: previous.lifeStory }, { lifeStory })
+  );
+  return version;
 };
 
-export const updateMemorialPhotos = async (memorialId: string, photos: MemorialPhoto[]): Promise<void> => {
+export const updateMemorialPhotos = async (
+  memorialId: string,
+  photos: MemorialPhoto[],
+  updatedBy: AuditActor,
+  expectedVersion: number
+): Promise<number> => {
   if (!memorialId) {
     throw new Error('Memorial ID is required');
   }
@@ -386,12 +495,27 @@ export const updateMemorialPhotos = async (memorialId: string, photos: MemorialP
       throw new Error('Memorial not found');
     }
 
-    await updateDoc(memorialRef, {
+    const version = await updateWithVersion<Memorial>(memorialRef, expectedVersion, {
       photos,
       updatedAt: Timestamp.fromDate(new Date()),
+    }, {
+      resource: 'memorial',
+      current: (current) => ({ ...current, id: memorialId } as Memorial),
     });
+
+    const memorial = memorialDoc.data() as Memorial;
+    await logMemorialEvent(
+      'memorial.updated',
+      { id: memorialId, universityId: memorial.universityId },
+      updatedBy,
+      computeVersionChanges({ photos: memorial.photos ?? [] }, { photos })
+    );
+    return version;
   } catch (error) {
     console.error('Error updating memorial photos:', error);
+    if (error instanceof VersionConflictError) {
+      throw error;
+    }
     if (error instanceof Error) {
       throw new Error(`Failed to update photos: ${error.message}`);
     }
@@ -460,25 +584,96 @@ export const getUniversityMemorials = async (universityId: string): Promise<Memo
   }
 };
 
-export const publishMemorial = async (memorialId: string): Promise<void> => {
+/**
+ * Snapshot the memorial into its version history. The history keeps its
+ * own numbering; the memorial's `version` is the edit counter.
+ */
+const recordMemorialVersion = async (
+  memorial: Memorial,
+  change: { reason: VersionReason; comments?: string },
+  actor: VersionActor
+): Promise<void> => {
+  await versionService.recordVersion({
+    resourceType: 'memorial',
+    resourceId: memorial.id,
+    universityId: memorial.universityId,
+    snapshot: memorial,
+    status: memorial.status,
+    ...change,
+    actor,
+  });
+};
+
+/**
+ * Applies a state change to the memorial as it was read, bumping the edit
+ * counter like any other save. A save made since the read rejects with a
+ * VersionConflictError rather than being overtaken.
+ */
+const updateMemorialState = async (memorial: Memorial, changes: Partial<Memorial>): Promise<Memorial> => {
+  const version = await updateWithVersion<Memorial>(
+    doc(await assertDb(), 'memorials', memorial.id),
+    readVersion(memorial),
+    { ...changes, updatedAt: Timestamp.fromDate(new Date()) },
+    {
+      resource: 'memorial',
+      current: (current) => ({ ...current, id: memorial.id } as Memorial),
+    }
+  );
+  return { ...memorial, ...changes, version };
+};
+
+const readMemorial = async (memorialId: string): Promise<Memorial> => {
+  const memorialDoc = await getDoc(doc(await assertDb(), 'memorials', memorialId));
+  if (!memorialDoc.exists()) {
+    throw new Error('Memorial not found');
+  }
+  return { ...memorialDoc.data(), id: memorialId } as Memorial;
+};
+
+/** `submitted` and `in_review` mean the memorial is waiting for approval and was not published */
+export type MemorialPublishResult = 'published' | 'submitted' | 'in_review';
+
+/**
+ * Publishes the memorial, snapshotting it into the version history.
+ * Where the university requires approval, only an approved version is
+ * published; anything else is sent for review. Publishing one that is
+ * already live changes nothing.
+ */
+export const publishMemorial = async (
+  memorialId: string,
+  publishedBy: VersionActor
+): Promise<MemorialPublishResult> => {
   if (!memorialId) {
     throw new Error('Memorial ID is required');
   }
 
   try {
-    const memorialRef = doc(await assertDb(), 'memorials', memorialId);
-    const memorialDoc = await getDoc(memorialRef);
-    
-    if (!memorialDoc.exists()) {
-      throw new Error('Memorial not found');
+    const current = await readMemorial(memorialId);
+    if (current.status === 'published') return 'published';
+
+    const approval = await universitySettingsService.checkPublishApproval({
+      resourceType: 'memorial',
+      resourceId: memorialId,
+      universityId: current.universityId,
+      contentVersion: readVersion(current),
+    });
+    if (approval.status === 'submitted' || approval.status === 'in_review') {
+      return approval.status;
     }
 
-    await updateDoc(memorialRef, {
+    const memorial = await updateMemorialState(current, {
       status: 'published',
-      updatedAt: Timestamp.fromDate(new Date()),
+      ...(approval.status === 'approved' ? { universityApproved: true } : {}),
     });
+    await recordMemorialVersion(memorial, publishReason(approval), publishedBy);
+    await logMemorialEvent('memorial.published', memorial, publishedBy);
+    await notifyPinnedSchoolFollowers(memorial, publishedBy);
+    return 'published';
   } catch (error) {
     console.error('Error publishing memorial:', error);
+    if (error instanceof VersionConflictError) {
+      throw error;
+    }
     if (error instanceof Error) {
       throw new Error(`Failed to publish memorial: ${error.message}`);
     }
@@ -486,23 +681,18 @@ export const publishMemorial = async (memorialId: string): Promise<void> => {
   }
 };
 
-export const approveMemorial = async (memorialId: string): Promise<void> => {
+/**
+ * Marks the memorial as approved by its university. Nothing is added to the
+ * version history until it is published.
+ */
+export const approveMemorial = async (memorialId: string, approvedBy: AuditActor): Promise<void> => {
   if (!memorialId) {
     throw new Error('Memorial ID is required');
   }
 
   try {
-    const memorialRef = doc(await assertDb(), 'memorials', memorialId);
-    const memorialDoc = await getDoc(memorialRef);
-    
-    if (!memorialDoc.exists()) {
-      throw new Error('Memorial not found');
-    }
-
-    await updateDoc(memorialRef, {
-      universityApproved: true,
-      updatedAt: Timestamp.fromDate(new Date()),
-    });
+    const memorial = await updateMemorialState(await readMemorial(memorialId), { universityApproved: true });
+    await logMemorialEvent('memorial.approved', memorial, approvedBy);
   } catch (error) {
     console.error('Error approving memorial:', error);
     if (error instanceof Error) {
@@ -510,4 +700,27 @@ export const approveMemorial = async (memorialId: string): Promise<void> => {
     }
     throw new Error('Failed to approve memorial. Please try again.');
   }
-}; 
\ No newline at end of file
+};
+
+export const archiveMemorial = async (memorialId: string, archivedBy: AuditActor): Promise<void> => {
+  if (!memorialId) {
+    throw new Error('Memorial ID is required');
+  }
+
+  try {
+    const current = await readMemorial(memorialId);
+    await updateMemorialState(current, { status: 'archived' });
+    await logMemorialEvent(
+      'memorial.archived',
+      current,
+      archivedBy,
+      [{ field: 'status', oldValue: current.status, newValue: 'archived' }]
+    );
+  } catch (error) {
+    console.error('Error archiving memorial:', error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to archive memorial: ${error.message}`);
+    }
+    throw new Error('Failed to archive memorial. Please try again.');
+  }
+};
@@ -1,5 +1,6 @@
 import { getStorage } from '@/lib/firebase';
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { auditLogService } from '@/services/auditLogService';
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
@@ -41,6 +42,14 @@ export const uploadPhoto = async (
     const snapshot = await uploadBytes(storageRef, file);
     const url = await getDownloadURL(snapshot.ref);
 
+    await auditLogService.log({
+      action: 'media.uploaded',
+      resourceType: 'media',
+      resourceId: snapshot.ref.fullPath,
+      actor: { id: userId },
+      metadata: { memorialId, fileName: file.name, fileType: file.type, fileSize: file.size },
+    });
+
     return {
       url,
       size: file.size,
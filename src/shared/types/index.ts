@@ -47,16 +47,47 @@ export interface FamilyMember {
   updatedAt: Date;
 }
 
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export type InvitationRole = UserUniversityAssociation['role'];
+
 export interface MemorialInvitation {
   id: string;
   universityId: string;
   token: string;
-  status: 'pending' | 'accepted' | 'expired';
+  status: InvitationStatus;
+  role: InvitationRole;
   email?: string;
   createdAt: Date;
   expiresAt: Date;
+  createdBy?: string;
   memorialId?: string;
   acceptedBy?: string;
+  acceptedAt?: Date;
+  /** Number of times the invitation email has been sent */
+  sendCount?: number;
+  lastSentAt?: Date;
+  revokedBy?: string;
+  revokedAt?: Date;
+  revokeReason?: string;
+}
+
+export interface InvitationStats {
+  pending: number;
+  accepted: number;
+  expired: number;
+  revoked: number;
+  total: number;
+}
+
+export interface BulkInvitationRowResult {
+  /** 1-based line number in the uploaded CSV */
+  line: number;
+  email: string;
+  role: string;
+  status: 'created' | 'skipped' | 'failed';
+  invitationId?: string;
+  message?: string;
 }
 
 export interface UserUniversityAssociation {
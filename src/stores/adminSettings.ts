@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { doc, getDoc, setDoc, onSnapshot } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
+import { auditLogService } from '@/services/auditLogService';
 
 interface AdminSettings {
   adminEmails: string[];
@@ -46,6 +47,13 @@ export const useAdminSettings = create<AdminSettingsStore>((set, get) => ({
         lastUpdated: new Date(),
         updatedBy
       });
+      await auditLogService.log({
+        action: 'settings.updated',
+        resourceType: 'settings',
+        resourceId: 'adminSettings/storiatsAdmins',
+        actor: { id: updatedBy },
+        changes: [{ field: 'adminEmails', oldValue: settings.adminEmails, newValue: newEmails }]
+      });
     } catch (error) {
       console.error('Error adding admin email:', error);
       throw error;
@@ -70,6 +78,13 @@ export const useAdminSettings = create<AdminSettingsStore>((set, get) => ({
         lastUpdated: new Date(),
         updatedBy
       });
+      await auditLogService.log({
+        action: 'settings.updated',
+        resourceType: 'settings',
+        resourceId: 'adminSettings/storiatsAdmins',
+        actor: { id: updatedBy },
+        changes: [{ field: 'adminEmails', oldValue: settings.adminEmails, newValue: newEmails }]
+      });
     } catch (error) {
       console.error('Error removing admin email:', error);
       throw error;
@@ -0,0 +1,32 @@
+import type { AuditAction, AuditEvent, AuditResourceType } from '../../functions/src/auditEvents';
+
+// The event schema lives with the Cloud Functions so both sides write the
+// same shape; import it from here on the client.
+export {
+  AUDIT_ACTIONS,
+  AUDIT_LOG_COLLECTION,
+  AUDIT_RESOURCE_TYPES,
+  SYSTEM_ACTOR,
+} from '../../functions/src/auditEvents';
+export type {
+  AuditAction,
+  AuditActor,
+  AuditEvent,
+  AuditFieldChange,
+  AuditResourceType,
+} from '../../functions/src/auditEvents';
+
+/** An audit event as read back from Firestore */
+export interface AuditLogEntry extends AuditEvent {
+  id: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  resourceType?: AuditResourceType;
+  resourceId?: string;
+  action?: AuditAction;
+  universityId?: string;
+  from?: Date;
+  to?: Date;
+}
@@ -0,0 +1,71 @@
+/**
+ * Live collaboration on a profile: who has it open, which sections are
+ * being edited, and the saved changes that clash with an editor's own.
+ */
+
+/** The editable sections of a memorial profile; each is one tab of the form */
+export const PROFILE_SECTIONS = ['basic', 'life', 'timeline', 'media', 'settings'] as const;
+
+export type ProfileSection = typeof PROFILE_SECTIONS[number];
+
+export const PROFILE_SECTION_LABELS: Record<ProfileSection, string> = {
+  basic: 'Basic Info',
+  life: 'Life Story',
+  timeline: 'Timeline',
+  media: 'Media',
+  settings: 'Settings',
+};
+
+/** How often presence and held locks are refreshed */
+export const COLLABORATION_HEARTBEAT_MS = 15 * 1000;
+
+/** Presence not refreshed for this long belongs to someone who has left */
+export const PRESENCE_TIMEOUT_MS = 45 * 1000;
+
+/**
+ * How long a section lock survives without a heartbeat. Short enough that a
+ * closed tab or crashed browser frees the section within a minute.
+ */
+export const SECTION_LOCK_TTL_MS = 60 * 1000;
+
+export interface Collaborator {
+  userId: string;
+  displayName: string;
+  photoURL?: string;
+  activity: 'viewing' | 'editing';
+  /** The section they have open */
+  section: ProfileSection | null;
+  lastSeenAt: Date;
+}
+
+/**
+ * A soft lock: other editors are warned and their inputs disabled, but
+ * they can take the section over
+ */
+export interface SectionLock {
+  section: ProfileSection;
+  userId: string;
+  displayName: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+export type LockAttempt =
+  | { acquired: true; lock: SectionLock }
+  | { acquired: false; lock: SectionLock };
+
+/** A field two editors changed differently since they last agreed */
+export interface FieldConflict {
+  path: string;
+  label: string;
+  /** The form section the field is edited in, for profile forms */
+  section?: ProfileSection;
+  /** The value both editors started from */
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  /** Who saved the competing value, when the document records it */
+  theirsBy?: string;
+}
+
+export type ConflictResolution = 'mine' | 'theirs';
@@ -0,0 +1,60 @@
+export type CommentFilterOutcome = 'allow' | 'hold' | 'reject';
+
+export interface CommentWordListRule {
+  id: string;
+  name: string;
+  /** Matched case-insensitively on word boundaries */
+  words: string[];
+  outcome: CommentFilterOutcome;
+}
+
+export interface CommentRegexRule {
+  id: string;
+  name: string;
+  pattern: string;
+  /** Regex flags other than 'g'; defaults to 'i' */
+  flags?: string;
+  outcome: CommentFilterOutcome;
+}
+
+export interface CommentLinkLimitRule {
+  maxLinks: number;
+  outcome: CommentFilterOutcome;
+}
+
+export interface CommentSpamRule {
+  /** Comments an author may post within windowMinutes */
+  maxCommentsPerWindow: number;
+  windowMinutes: number;
+  /** Hours during which posting the same text again counts as spam */
+  duplicateWindowHours: number;
+  outcome: CommentFilterOutcome;
+}
+
+export interface CommentFilterConfig {
+  universityId: string;
+  enabled: boolean;
+  wordLists: CommentWordListRule[];
+  regexRules: CommentRegexRule[];
+  linkLimit: CommentLinkLimitRule;
+  spam: CommentSpamRule;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export interface CommentFilterMatch {
+  ruleId: string;
+  ruleName: string;
+  outcome: CommentFilterOutcome;
+  detail: string;
+}
+
+export interface CommentFilterResult {
+  outcome: CommentFilterOutcome;
+  matches: CommentFilterMatch[];
+}
+
+/** The author's recent comments, used by the spam heuristic */
+export interface CommentAuthorActivity {
+  recentComments: { content: string; createdAt: Date }[];
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { CommentFilterMatch } from './commentFilter';
+import type { AllowedRole } from './permission';
 
 export interface Comment {
   id: string;
@@ -27,6 +29,41 @@ export interface Comment {
     [key: string]: string[]; // emoji -> user IDs
   };
   isResolved?: boolean;
+  orgId?: string; // University the comment belongs to
+  isHidden?: boolean; // Hidden from public view pending or after moderation
+  reportCount?: number; // Number of distinct users who reported the comment
+  moderation?: CommentModerationRecord;
+  filterMatches?: CommentFilterMatch[]; // Filter rules that held the comment for review
+  mentions?: string[]; // IDs of users mentioned with @handle
+}
+
+export const COMMENT_REPORT_REASONS = ['spam', 'harassment', 'inappropriate', 'misinformation', 'other'] as const;
+
+export type CommentReportReason = typeof COMMENT_REPORT_REASONS[number];
+
+export interface CommentReport {
+  id: string; // Reporter's user ID, so each user can report a comment once
+  commentId: string;
+  universityId: string;
+  reporterId: string;
+  reason: CommentReportReason;
+  details?: string;
+  createdAt: Date;
+}
+
+export type CommentModerationDecision = 'hide' | 'restore' | 'delete' | 'ban_author';
+
+/** Latest moderation outcome stored on the comment; history lives in the audit log */
+export interface CommentModerationRecord {
+  decision: CommentModerationDecision | 'auto_hidden' | 'held';
+  decidedBy: string;
+  decidedAt: Date;
+  note?: string;
+}
+
+export interface ModerationQueueItem {
+  comment: Comment;
+  reports: CommentReport[];
 }
 
 export interface CommentThread {
@@ -86,6 +123,8 @@ export interface CommentNotification {
   type: 'reply' | 'reaction' | 'mention';
   commentId: string;
   mediaId: string;
+  profileId?: string;
+  toUserId: string;
   fromUserId: string;
   fromUserName: string;
   fromUserAvatar?: string;
@@ -94,6 +133,15 @@ export interface CommentNotification {
   createdAt: string;
 }
 
+/** A user who can be @mentioned on a profile */
+export interface MentionCandidate {
+  userId: string;
+  handle: string;
+  displayName: string;
+  email?: string;
+  role: AllowedRole;
+}
+
 export const commentSchema = z.object({
   content: z.string().min(1).max(1000),
   userId: z.string(),
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+const url = z.string().url();
+const optionalName = z.string().max(200).optional();
+
+/**
+ * Variables accepted by each transactional email template. The API route
+ * validates requests against these before rendering.
+ */
+export const emailTemplateSchemas = {
+  invitation: z.object({
+    universityName: z.string().min(1),
+    role: z.string().min(1),
+    acceptUrl: url,
+    expiresAt: z.string().min(1),
+    inviterName: optionalName,
+  }),
+  role_granted: z.object({
+    recipientName: optionalName,
+    universityName: z.string().min(1),
+    role: z.string().min(1),
+    grantedBy: optionalName,
+    dashboardUrl: url,
+  }),
+  role_revoked: z.object({
+    recipientName: optionalName,
+    universityName: z.string().min(1),
+    role: z.string().min(1),
+  }),
+  approval_requested: z.object({
+    reviewerName: optionalName,
+    resourceTitle: z.string().min(1),
+    stageName: z.string().min(1),
+    submittedBy: z.string().min(1),
+    dueAt: z.string().min(1),
+    reviewUrl: url,
+  }),
+  approval_decided: z.object({
+    recipientName: optionalName,
+    resourceTitle: z.string().min(1),
+    decision: z.enum(['approved', 'rejected', 'changes_requested']),
+    reviewerName: z.string().min(1),
+    comments: z.string().max(2000).optional(),
+    resourceUrl: url,
+  }),
+  comment_reply: z.object({
+    recipientName: optionalName,
+    replierName: z.string().min(1),
+    profileName: z.string().min(1),
+    excerpt: z.string().max(500),
+    commentUrl: url,
+  }),
+  memorial_published: z.object({
+    recipientName: optionalName,
+    memorialName: z.string().min(1),
+    universityName: z.string().min(1),
+    memorialUrl: url,
+  }),
+  notification: z.object({
+    recipientName: optionalName,
+    title: z.string().min(1).max(200),
+    body: z.string().max(1000),
+    actionUrl: url.optional(),
+  }),
+  notification_digest: z.object({
+    recipientName: optionalName,
+    period: z.enum(['daily', 'weekly']),
+    sections: z.array(z.object({
+      label: z.string().min(1),
+      items: z.array(z.object({
+        title: z.string().min(1).max(200),
+        body: z.string().max(1000),
+        url: url.optional(),
+      })).min(1),
+    })).min(1),
+    omittedCount: z.number().int().min(0),
+    notificationsUrl: url,
+  }),
+  contact_message: z.object({
+    name: z.string().min(1).max(200),
+    email: z.string().email(),
+    subject: z.string().min(1).max(200),
+    message: z.string().min(1).max(5000),
+  }),
+};
+
+export type EmailTemplateId = keyof typeof emailTemplateSchemas;
+
+export type EmailTemplateVariables = {
+  [K in EmailTemplateId]: z.infer<(typeof emailTemplateSchemas)[K]>;
+};
+
+export const EMAIL_TEMPLATE_IDS = Object.keys(emailTemplateSchemas) as EmailTemplateId[];
+
+export interface EmailBranding {
+  senderName: string;
+  logoUrl?: string;
+  primaryColor: string;
+  secondaryColor: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SendEmailRequest<K extends EmailTemplateId = EmailTemplateId> {
+  templateId: K;
+  /** Addresses, for invitations only; everyone else is addressed by user ID */
+  to?: string | string[];
+  /** Recipients' user IDs; their addresses are looked up server-side */
+  toUserIds?: string[];
+  variables: EmailTemplateVariables[K];
+  /** University the email is sent for, whose branding is applied */
+  universityId: string;
+}
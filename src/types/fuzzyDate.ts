@@ -0,0 +1,35 @@
+/**
+ * Dates that are only partly known, as in "April 1923", "the 1920s" or
+ * "about 1900". They are stored as strings in a subset of the Extended
+ * Date/Time Format (ISO 8601-2), so older exact ISO dates stay valid:
+ *
+ *   1923-04-05    exact day (a full ISO date-time is read the same way)
+ *   1923-04       month and year
+ *   1923          year only
+ *   192X          decade
+ *   1923~         circa; the suffix goes on any of the above
+ *   1914/1918     a range between any two of the above
+ */
+export type FuzzyDatePrecision = 'day' | 'month' | 'year' | 'decade';
+
+export interface FuzzyDatePoint {
+  precision: FuzzyDatePrecision;
+  /** For a decade, its first year */
+  year: number;
+  /** 1-12, when the precision is month or day */
+  month?: number;
+  day?: number;
+  approximate: boolean;
+}
+
+export interface FuzzyDate {
+  start: FuzzyDatePoint;
+  /** Set for ranges */
+  end?: FuzzyDatePoint;
+}
+
+/** The earliest and latest days a fuzzy date can mean */
+export interface FuzzyDateBounds {
+  earliest: Date;
+  latest: Date;
+}
@@ -1,4 +1,5 @@
 import { AllowedRole } from './permission';
+import type { CustomDomainVerification, UniversitySettings } from './university';
 import { Timestamp } from 'firebase/firestore';
 
 export interface Organization {
@@ -23,8 +24,9 @@ export interface Profile {
   createdAt: Timestamp;
   universityId: string;
   basicInfo: {
-    dateOfBirth: Timestamp;
-    dateOfDeath?: Timestamp;
+    /** Partly known dates are fuzzy date strings (see types/fuzzyDate) */
+    dateOfBirth: Timestamp | string;
+    dateOfDeath?: Timestamp | string;
     biography: string;
     photo: string;
     birthLocation: string;
@@ -34,6 +36,10 @@ export interface Profile {
     content: string;
     updatedAt: Timestamp;
   };
+  metadata?: {
+    /** Bumped on every save; updates name the version they were based on */
+    version?: number;
+  };
 }
 
 export interface User {
@@ -59,6 +65,10 @@ export interface University {
   createdBy: string; // UID
   admins: string[];
   isActive: boolean;
+  /** Unset keys take their DEFAULT_UNIVERSITY_SETTINGS value */
+  settings?: Partial<UniversitySettings>;
+  /** The domain being verified, or last verified, for `settings.customDomain` */
+  domainVerification?: CustomDomainVerification;
   updatedAt?: Date;
 }
 
@@ -70,4 +80,11 @@ export interface UserPermission {
   grantedBy: string;
 }
 
-export type { MemorialInvitation, UserUniversityAssociation } from '../shared/types/index'; 
\ No newline at end of file
+export type {
+  MemorialInvitation,
+  UserUniversityAssociation,
+  InvitationStatus,
+  InvitationRole,
+  InvitationStats,
+  BulkInvitationRowResult,
+} from '../shared/types/index'; 
\ No newline at end of file
@@ -2,8 +2,9 @@ import { Timestamp } from 'firebase/firestore';
 
 export interface MemorialBasicInfo {
   name: string;
-  birthDate?: Date;
-  deathDate?: Date;
+  /** A Date, or a fuzzy date string when only part of it is known (see types/fuzzyDate) */
+  birthDate?: Date | string;
+  deathDate?: Date | string;
   location?: string;
   description?: string;
 }
@@ -0,0 +1,44 @@
+import type {
+  NotificationChannel,
+  NotificationPreferencesRecord,
+  NotificationRecord,
+  NotificationType,
+} from '../../functions/src/notificationTypes';
+
+// Shared with the Cloud Functions, which write role-change notifications
+// and send the email digests
+export {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_PREFERENCES_COLLECTION,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATIONS_COLLECTION,
+  resolveNotificationChannel,
+} from '../../functions/src/notificationTypes';
+export type {
+  DigestPeriod,
+  NotificationChannel,
+  NotificationEmailStatus,
+  NotificationType,
+} from '../../functions/src/notificationTypes';
+
+/** A notification as read back from Firestore */
+export interface AppNotification extends NotificationRecord {
+  id: string;
+}
+
+export type NewNotification = Omit<NotificationRecord, 'isRead' | 'emailStatus' | 'createdAt' | 'readAt' | 'universityId'> & {
+  universityId?: string | null;
+};
+
+export interface NotificationPreferences extends Omit<NotificationPreferencesRecord, 'channels'> {
+  channels: Record<NotificationType, NotificationChannel>;
+}
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app only',
+  immediate: 'Email immediately',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
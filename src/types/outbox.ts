@@ -0,0 +1,81 @@
+import { TimelineEvent } from './timeline';
+
+/**
+ * An edit made while the connection was down, waiting to be uploaded.
+ * Versioned operations carry the server version they were made against so
+ * replay can tell whether someone else saved in the meantime.
+ */
+export interface ProfileFieldsOperation {
+  kind: 'profile';
+  /** Firestore document path of the profile */
+  path: string;
+  changes: Record<string, unknown>;
+  /** Dotted path of the profile's version counter */
+  versionField: string;
+  baseVersion: number;
+}
+
+export interface TimelineOperation {
+  kind: 'timeline';
+  profileId: string;
+  /** The whole timeline as it should be saved */
+  events: TimelineEvent[];
+  baseVersion: number;
+}
+
+export interface StoryAnswerOperation {
+  kind: 'storyAnswer';
+  orgId: string;
+  profileId: string;
+  questionId: string;
+  answer: string;
+  baseVersion: number;
+}
+
+export interface MediaUploadOperation {
+  kind: 'media';
+  file: File;
+  folderId: string | null;
+  userId: string;
+}
+
+export type OutboxOperation =
+  | ProfileFieldsOperation
+  | TimelineOperation
+  | StoryAnswerOperation
+  | MediaUploadOperation;
+
+export type OutboxEntryStatus = 'pending' | 'failed' | 'conflict';
+
+interface OutboxBookkeeping {
+  /** Replay order */
+  seq: number;
+  /** The record written to; entries for the same record replay one after another */
+  resourceKey: string;
+  createdAt: number;
+  attempts: number;
+  status: OutboxEntryStatus;
+  lastError?: string;
+  /** The version found on the server when replay was turned back as stale */
+  serverVersion?: number;
+}
+
+export type OutboxEntry = OutboxOperation & OutboxBookkeeping;
+
+export interface SyncStatus {
+  online: boolean;
+  /** An entry is being uploaded right now */
+  syncing: boolean;
+  /** Entries still to upload, including ones waiting on a retry */
+  pending: number;
+  /** Entries that stopped: conflicts to decide on and uploads that kept failing */
+  needsAttention: OutboxEntry[];
+}
+
+export interface SyncedOperation {
+  entry: OutboxEntry;
+  /** The version a versioned operation was saved as */
+  version?: number;
+  /** The ID of the media item an upload created */
+  mediaId?: string;
+}
@@ -1,9 +1,18 @@
 import { Timestamp } from 'firebase/firestore';
 import { QuestionCategory } from './questions';
 import { z } from 'zod';
+import type { NewTimelineEvent, TimelineEvent, TimelineEventChanges } from './timeline';
+import { isChronological } from '@/utils/date';
+
+export type { TimelineEvent } from './timeline';
+export { timelineEventSchema } from './timeline';
 
 export type EventType = 'education' | 'work';
 
+/**
+ * @deprecated The shape the timeline builders stored before the canonical
+ * TimelineEvent; stored documents in it are read with toTimelineEvent.
+ */
 export interface LifeEvent {
   id: string;
   type: 'education' | 'work' | 'other';
@@ -23,9 +32,12 @@ export interface LifeEvent {
 }
 
 export interface TimelineBuilderProps {
-  initialEvents?: LifeEvent[];
-  onEventsChange?: (events: LifeEvent[]) => void;
+  initialEvents?: TimelineEvent[];
+  onEventsChange?: (events: TimelineEvent[]) => void;
   onNext?: () => void;
+  /** Events are checked against these on memorial profiles */
+  dateOfBirth?: MemorialDate | null;
+  dateOfDeath?: MemorialDate | null;
 }
 
 export interface EventFormData {
@@ -38,45 +50,30 @@ export interface EventFormData {
 }
 
 export interface EventCardProps {
-  event: LifeEvent;
-  onEdit: (event: LifeEvent) => void;
+  event: TimelineEvent;
+  onEdit: (event: TimelineEvent) => void;
   onDelete: (id: string) => void;
   isDragging?: boolean;
 }
 
 export type ProfileStatus = 'draft' | 'published' | 'archived';
 
-export const timelineEventSchema = z.object({
-  id: z.string(),
-  type: z.enum(['education', 'job', 'event']),
-  title: z.string().min(1, 'Title is required'),
-  institution: z.string().optional(),
-  company: z.string().optional(),
-  startDate: z.string().datetime(),
-  endDate: z.string().datetime().optional(),
-  location: z.string().optional(),
-  description: z.string().optional(),
-  mediaUrls: z.array(z.string().url()).optional(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-  metadata: z.object({
-    tags: z.array(z.string()).optional(),
-    visibility: z.enum(['public', 'private']).optional(),
-    importance: z.enum(['high', 'medium', 'low']).optional(),
-  }).optional(),
-});
+/** A birth or death date; partly known ones are fuzzy date strings (see types/fuzzyDate) */
+export type MemorialDate = Date | Timestamp | string;
 
-export interface TimelineEventWithId extends TimelineEvent {
-  id: string;
-}
+export type TimelineEventWithId = TimelineEvent;
+
+type WithoutTimestamps<T> = T extends unknown ? Omit<T, 'createdAt' | 'updatedAt' | 'version'> : never;
 
-export interface TimelineEventCreateDTO extends Omit<TimelineEvent, 'id' | 'createdAt' | 'updatedAt'> {
+export type TimelineEventCreateDTO = WithoutTimestamps<NewTimelineEvent> & {
   profileId: string;
-}
+};
 
-export interface TimelineEventUpdateDTO extends Partial<Omit<TimelineEvent, 'id' | 'createdAt' | 'updatedAt'>> {
+export type TimelineEventUpdateDTO = Omit<TimelineEventChanges, 'createdAt' | 'updatedAt' | 'version'> & {
   profileId: string;
-}
+  /** The version the edit was based on */
+  version: number;
+};
 
 export interface TimelineEventFilters {
   searchTerm?: string;
@@ -179,8 +176,8 @@ export interface PersonalProfile extends BaseProfile {
 export interface MemorialProfile extends BaseProfile {
   type: 'memorial';
   basicInfo: {
-    dateOfBirth: Date | Timestamp | null;
-    dateOfDeath: Date | Timestamp | null;
+    dateOfBirth: MemorialDate | null;
+    dateOfDeath: MemorialDate | null;
     biography: string;
     photo: string;
     birthLocation: string;
@@ -191,6 +188,7 @@ export interface MemorialProfile extends BaseProfile {
     updatedAt: Date | Timestamp;
   };
   timeline: TimelineEvent[];
+  /** @deprecated Whole-profile lock; editing now takes per-section locks (see types/collaboration) */
   lock?: {
     userId: string;
     timestamp: Date;
@@ -251,8 +249,8 @@ export interface LocalDraft {
   description?: string;
   imageUrl?: string;
   basicInfo?: {
-    dateOfBirth: Date | null;
-    dateOfDeath: Date | null;
+    dateOfBirth: MemorialDate | null;
+    dateOfDeath: MemorialDate | null;
     biography: string;
     photo: string;
     birthLocation: string;
@@ -448,7 +446,11 @@ export interface Photo {
   };
 }
 
-export interface TimelineEvent {
+/**
+ * @deprecated The shape TimelineService stored before the canonical
+ * TimelineEvent ('job' events, institution and company under metadata).
+ */
+export interface LegacyTimelineEvent {
   id: string;
   type: 'education' | 'job' | 'event';
   title: string;
@@ -459,6 +461,8 @@ export interface TimelineEvent {
   mediaUrls?: string[];
   createdAt: Date;
   updatedAt: Date;
+  /** Bumped on every save; updates name the version they were based on */
+  version?: number;
   metadata?: {
     institution?: string;
     company?: string;
@@ -477,7 +481,7 @@ export const isTimelineEvent = (event: any): event is TimelineEvent => {
     typeof event.id === 'string' &&
     typeof event.startDate === 'string' &&
     typeof event.title === 'string' &&
-    ['education', 'job', 'event'].includes(event.type)
+    ['education', 'work', 'event'].includes(event.type)
   );
 };
 
@@ -517,17 +521,8 @@ export const validateProfile = (profile: Partial<Profile>): string[] => {
       errors.push('Description is required for memorial profiles');
     }
 
-    if (memorial.basicInfo?.dateOfBirth && memorial.basicInfo?.dateOfDeath) {
-      const birthDate = memorial.basicInfo.dateOfBirth instanceof Timestamp 
-        ? memorial.basicInfo.dateOfBirth.toDate() 
-        : memorial.basicInfo.dateOfBirth;
-      const deathDate = memorial.basicInfo.dateOfDeath instanceof Timestamp 
-        ? memorial.basicInfo.dateOfDeath.toDate() 
-        : memorial.basicInfo.dateOfDeath;
-
-      if (birthDate > deathDate) {
-        errors.push('Date of birth must be before date of death');
-      }
+    if (!isChronological(memorial.basicInfo?.dateOfBirth, memorial.basicInfo?.dateOfDeath)) {
+      errors.push('Date of birth must be before date of death');
     }
 
     if (!memorial.basicInfo?.biography?.trim()) {
@@ -647,8 +642,8 @@ export interface ProfileFormData {
   description: string;
   imageUrl: string;
   basicInfo: {
-    dateOfBirth: Date | null;
-    dateOfDeath: Date | null;
+    dateOfBirth: MemorialDate | null;
+    dateOfDeath: MemorialDate | null;
     biography: string;
     photo: string;
     birthLocation: string;
@@ -671,8 +666,8 @@ export interface ProfileFormData {
 
 export interface MemorialProfileFormData extends Omit<MemorialProfile, 'basicInfo' | 'lifeStory' | 'timeline'> {
   basicInfo: {
-    dateOfBirth: Date | Timestamp | null;
-    dateOfDeath: Date | Timestamp | null;
+    dateOfBirth: MemorialDate | null;
+    dateOfDeath: MemorialDate | null;
     biography: string;
     photo: string;
     birthLocation: string;
@@ -682,6 +677,6 @@ export interface MemorialProfileFormData extends Omit<MemorialProfile, 'basicInf
     content: string;
     updatedAt: Date | Timestamp;
   };
-  timeline: LifeEvent[];
+  timeline: TimelineEvent[];
   mediaUrls?: string[];
 } 
\ No newline at end of file
@@ -22,12 +22,76 @@ export interface CategoryMetadata {
   icon: string;
 }
 
+/**
+ * Who a prompt is written for: alumni telling their own story, or people
+ * remembering someone on a memorial
+ */
+export type StoryPromptAudience = 'alumni' | 'memorial' | 'all';
+
+export interface StoryPromptLocaleVariant {
+  text: string;
+  placeholder?: string;
+}
+
 export interface StoryQuestion {
   id: string;
   categoryId: QuestionCategory;
   text: string;
   placeholder?: string;
   maxLength?: number;
+  /** Defaults to 'all' */
+  audience?: StoryPromptAudience;
+  /** Translations keyed by locale, such as 'es' or 'fr-CA' */
+  locales?: Record<string, StoryPromptLocaleVariant>;
+}
+
+/** Answers are capped at this length when a prompt doesn't set its own */
+export const DEFAULT_PROMPT_MAX_LENGTH = 2000;
+
+/** The longest maxLength a prompt may have */
+export const MAX_PROMPT_MAX_LENGTH = 10000;
+
+/**
+ * The Storiats-wide prompt library, owned by the Storiats admins and stored
+ * at storyPrompts/global. Prompts appear in array order within a category.
+ */
+export interface StoryPromptLibrary {
+  prompts: StoryQuestion[];
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/**
+ * A university's changes to the global library, stored at
+ * universities/{id}/settings/storyPrompts
+ */
+export interface UniversityStoryPromptConfig {
+  universityId: string;
+  /** Prompts, global or the university's own, that it doesn't ask */
+  disabledPromptIds: string[];
+  /**
+   * Prompt IDs per category in the order the university wants them;
+   * prompts it hasn't placed follow in library order
+   */
+  order: Partial<Record<QuestionCategory, string[]>>;
+  /** Prompts only this university asks */
+  customPrompts: StoryQuestion[];
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/** A prompt as shown to someone answering it: translated and with its limits settled */
+export interface ResolvedStoryPrompt {
+  id: string;
+  categoryId: QuestionCategory;
+  text: string;
+  placeholder?: string;
+  maxLength: number;
+  audience: StoryPromptAudience;
+}
+
+export interface ResolvedStoryCategory extends CategoryMetadata {
+  prompts: ResolvedStoryPrompt[];
 }
 
 export interface StoryAnswer {
@@ -272,4 +336,149 @@ export const STORY_QUESTIONS: Record<QuestionCategory, StoryQuestion[]> = {
       maxLength: 2000,
     },
   ],
-}; 
\ No newline at end of file
+}; 
+const prompt = (
+  id: string,
+  categoryId: QuestionCategory,
+  text: string,
+  extra: Omit<StoryQuestion, 'id' | 'categoryId' | 'text'> = {}
+): StoryQuestion => ({ id, categoryId, text, ...extra });
+
+/**
+ * The global library until the Storiats admins save their own: the
+ * wizard's questions, the prompts the life story and story prompt pages
+ * used to carry (under their old IDs, so saved answers still line up) and
+ * a few for memorials.
+ */
+export const DEFAULT_STORY_PROMPTS: StoryQuestion[] = [
+  ...Object.values(STORY_QUESTIONS).flat(),
+
+  prompt('first-job', 'professional', 'What was your first job and what did you learn from it?', {
+    placeholder: 'Share your early work experience and the lessons it taught you...',
+    maxLength: 500,
+  }),
+  prompt('career-challenge', 'professional', 'Describe a career challenge that shaped who you are today', {
+    placeholder: 'Tell us about a difficult situation at work and how it changed you...',
+    maxLength: 500,
+  }),
+  prompt('proud-achievement', 'professional', 'What professional achievement are you most proud of?', {
+    placeholder: 'Share the accomplishment that means the most to you...',
+    maxLength: 500,
+  }),
+  prompt('personal-challenge', 'personal', 'What\'s a personal challenge you\'ve overcome?', {
+    placeholder: 'Share a difficult time in your life and how you grew from it...',
+    maxLength: 500,
+  }),
+  prompt('changing-goals', 'personal', 'How have your goals changed over the years?', {
+    placeholder: 'Describe how your aspirations have evolved...',
+    maxLength: 500,
+  }),
+  prompt('self-discovery', 'personal', 'What\'s something you\'ve learned about yourself recently?', {
+    placeholder: 'Share a recent insight or realization about yourself...',
+    maxLength: 500,
+  }),
+  prompt('biggest-change', 'personal', 'What was the biggest change you\'ve experienced in life?', {
+    placeholder: 'Describe a major transition and how it affected you...',
+    maxLength: 500,
+  }),
+  prompt('defining-moment', 'personal', 'What moment defined who you are today?', {
+    placeholder: 'Share a pivotal experience that shaped your character...',
+    maxLength: 500,
+  }),
+  prompt('future-goals', 'personal', 'What are your hopes for the future?', {
+    placeholder: 'Share your dreams and aspirations...',
+    maxLength: 500,
+  }),
+  prompt('family-tradition', 'social', 'What\'s a family tradition that\'s important to you?', {
+    placeholder: 'Describe a special custom or ritual in your family...',
+    maxLength: 500,
+  }),
+  prompt('relationship-lesson', 'social', 'What\'s the most important lesson you\'ve learned about relationships?', {
+    placeholder: 'Share wisdom gained from your relationships...',
+    maxLength: 500,
+  }),
+  prompt('family-moment', 'social', 'What\'s your favorite memory with your family?', {
+    placeholder: 'Describe a special moment you shared with your family...',
+    maxLength: 500,
+  }),
+  prompt('core-values', 'philosophical', 'What values are most important to you?', {
+    placeholder: 'Share the principles that guide your life...',
+    maxLength: 500,
+  }),
+  prompt('life-philosophy', 'philosophical', 'What\'s your personal philosophy on life?', {
+    placeholder: 'Describe your approach to living a meaningful life...',
+    maxLength: 500,
+  }),
+  prompt('beliefs', 'philosophical', 'What beliefs have shaped your worldview?', {
+    placeholder: 'Share the ideas and convictions that influence your perspective...',
+    maxLength: 500,
+  }),
+  prompt('biggest-mistake', 'philosophical', 'What\'s the biggest mistake you\'ve learned from?', {
+    placeholder: 'Share a lesson learned from a difficult experience...',
+    maxLength: 500,
+  }),
+  prompt('advice', 'philosophical', 'What advice would you give to your younger self?', {
+    placeholder: 'Share wisdom you wish you had known earlier...',
+    maxLength: 500,
+  }),
+  prompt('life-changing', 'philosophical', 'What\'s something that changed your perspective on life?', {
+    placeholder: 'Describe an experience that shifted your worldview...',
+    maxLength: 500,
+  }),
+  prompt('favorite-hobby', 'creative', 'What\'s your favorite hobby and why do you love it?', {
+    placeholder: 'Describe what you enjoy doing in your free time...',
+    maxLength: 500,
+  }),
+  prompt('passion-project', 'creative', 'What project or activity are you most passionate about?', {
+    placeholder: 'Share what excites and motivates you...',
+    maxLength: 500,
+  }),
+  prompt('skill-learning', 'creative', 'What skill are you currently trying to learn?', {
+    placeholder: 'Tell us about something new you\'re working on...',
+    maxLength: 500,
+  }),
+  prompt('favorite-trip', 'cultural', 'What\'s your favorite travel memory?', {
+    placeholder: 'Share a special moment from your travels...',
+    maxLength: 500,
+  }),
+  prompt('dream-destination', 'cultural', 'Where would you love to visit and why?', {
+    placeholder: 'Describe your dream destination...',
+    maxLength: 500,
+  }),
+  prompt('travel-lesson', 'cultural', 'What\'s the most important lesson you\'ve learned while traveling?', {
+    placeholder: 'Share wisdom gained from your adventures...',
+    maxLength: 500,
+  }),
+
+  prompt('prof-1', 'professional', 'What inspired you to pursue your current career path?', { maxLength: 1000 }),
+  prompt('prof-2', 'professional', 'What has been your most significant professional achievement?', { maxLength: 1000 }),
+  prompt('acad-1', 'academic', 'What was your favorite class and why?', { maxLength: 1000 }),
+  prompt('acad-2', 'academic', 'How did your academic experience shape your future?', { maxLength: 1000 }),
+  prompt('phil-1', 'philosophical', 'What life lesson has had the biggest impact on you?', { maxLength: 1000 }),
+  prompt('phil-2', 'philosophical', 'What do you believe is the key to success?', { maxLength: 1000 }),
+  prompt('pers-1', 'personal', 'What is your favorite memory from your time here?', { maxLength: 1000 }),
+  prompt('pers-2', 'personal', 'How have you grown as a person since graduating?', { maxLength: 1000 }),
+  prompt('fun-1', 'social', 'What was your favorite spot on campus?', { maxLength: 1000 }),
+  prompt('fun-2', 'social', 'What\'s the most interesting thing you\'ve done since graduation?', { maxLength: 1000 }),
+
+  prompt('memorial-academic-1', 'academic', 'What do you remember about their time as a student here?', {
+    placeholder: 'Share the classes, friends or moments they talked about...',
+    audience: 'memorial',
+  }),
+  prompt('memorial-professional-1', 'professional', 'How did their work make a difference to the people around them?', {
+    placeholder: 'Describe what they built, taught or changed...',
+    audience: 'memorial',
+  }),
+  prompt('memorial-personal-1', 'personal', 'What is a favorite memory you shared with them?', {
+    placeholder: 'Tell the story of a moment you want others to know...',
+    audience: 'memorial',
+  }),
+  prompt('memorial-social-1', 'social', 'How did they show up for their friends and community?', {
+    placeholder: 'Share how they cared for the people around them...',
+    audience: 'memorial',
+  }),
+  prompt('memorial-philosophical-1', 'philosophical', 'What lessons did they leave with you?', {
+    placeholder: 'Share the values or advice you carry from them...',
+    audience: 'memorial',
+  }),
+];
@@ -1,5 +1,6 @@
 declare module 'react-hot-toast' {
   export interface ToastOptions {
+    id?: string;
     duration?: number;
     position?: 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
     style?: React.CSSProperties;
@@ -0,0 +1,109 @@
+import type { Profile, University, UserPermission, MemorialInvitation } from './index';
+import type { Photo } from './profile';
+import type { NewTimelineEvent, TimelineEvent, TimelineEventChanges } from './timeline';
+import type { Comment } from './comments';
+
+/**
+ * Storage backends a repository set can be built on. Chosen with
+ * NEXT_PUBLIC_DATA_BACKEND; 'memory' is for tests and local demos.
+ */
+export const DATA_BACKENDS = ['firebase', 'supabase', 'memory'] as const;
+
+export type DataBackend = typeof DATA_BACKENDS[number];
+
+/** A stored record without the ID the repository assigns */
+export type NewRecord<T extends { id: string }> = Omit<T, 'id'>;
+
+/** What a record saved before versioning is taken to be at */
+export const INITIAL_VERSION = 1;
+
+/**
+ * Names the version an update was based on. A record that has moved on
+ * since is left alone and the update rejects with a VersionConflictError
+ * holding the current record; otherwise the version is bumped.
+ */
+export interface VersionedWriteOptions {
+  expectedVersion?: number;
+}
+
+/**
+ * `get` methods resolve to null for a missing record; `update` rejects with
+ * a NOT_FOUND AppError.
+ */
+export interface ProfileRepository {
+  get(profileId: string): Promise<Profile | null>;
+  list(): Promise<Profile[]>;
+  listByUniversity(universityId: string): Promise<Profile[]>;
+  create(data: NewRecord<Profile>): Promise<Profile>;
+  update(profileId: string, data: Partial<NewRecord<Profile>>, options?: VersionedWriteOptions): Promise<Profile>;
+  delete(profileId: string): Promise<void>;
+}
+
+export interface UniversityRepository {
+  get(universityId: string): Promise<University | null>;
+  list(): Promise<University[]>;
+  create(data: NewRecord<University>): Promise<University>;
+  update(universityId: string, data: Partial<NewRecord<University>>): Promise<University>;
+}
+
+/** Timeline events belong to a profile */
+export interface TimelineRepository {
+  listByProfile(profileId: string): Promise<TimelineEvent[]>;
+  create(profileId: string, data: NewTimelineEvent): Promise<TimelineEvent>;
+  update(
+    profileId: string,
+    eventId: string,
+    data: TimelineEventChanges,
+    options?: VersionedWriteOptions
+  ): Promise<TimelineEvent>;
+  delete(profileId: string, eventId: string): Promise<void>;
+}
+
+export interface CommentRepository {
+  get(commentId: string): Promise<Comment | null>;
+  listByProfile(profileId: string): Promise<Comment[]>;
+  create(data: NewRecord<Comment>): Promise<Comment>;
+  update(commentId: string, data: Partial<NewRecord<Comment>>): Promise<Comment>;
+  delete(commentId: string): Promise<void>;
+}
+
+/** Media metadata; file bytes stay with the storage service */
+export interface MediaRepository {
+  get(mediaId: string): Promise<Photo | null>;
+  listByFolder(folderId: string | null): Promise<Photo[]>;
+  create(data: NewRecord<Photo>): Promise<Photo>;
+  update(mediaId: string, data: Partial<NewRecord<Photo>>): Promise<Photo>;
+  delete(mediaId: string): Promise<void>;
+}
+
+/** A user's role on a profile */
+export interface ProfilePermissionRecord extends UserPermission {
+  profileId: string;
+  userId: string;
+}
+
+export interface PermissionRepository {
+  get(profileId: string, userId: string): Promise<ProfilePermissionRecord | null>;
+  listByProfile(profileId: string): Promise<ProfilePermissionRecord[]>;
+  set(profileId: string, userId: string, permission: UserPermission): Promise<ProfilePermissionRecord>;
+  remove(profileId: string, userId: string): Promise<void>;
+}
+
+export interface InvitationRepository {
+  get(invitationId: string): Promise<MemorialInvitation | null>;
+  getByToken(token: string): Promise<MemorialInvitation | null>;
+  listByUniversity(universityId: string): Promise<MemorialInvitation[]>;
+  create(data: NewRecord<MemorialInvitation>): Promise<MemorialInvitation>;
+  update(invitationId: string, data: Partial<NewRecord<MemorialInvitation>>): Promise<MemorialInvitation>;
+}
+
+export interface Repositories {
+  backend: DataBackend;
+  profiles: ProfileRepository;
+  universities: UniversityRepository;
+  timeline: TimelineRepository;
+  comments: CommentRepository;
+  media: MediaRepository;
+  permissions: PermissionRepository;
+  invitations: InvitationRepository;
+}
@@ -1,11 +1,24 @@
 import { Timestamp } from 'firebase/firestore';
+import type { EditorRequestStatsRecord, EditorRequestStatus } from '../../functions/src/editorRequestTypes';
+
+// Shared with the Cloud Function that keeps request statistics up to date
+export {
+  EDITOR_REQUEST_LIMITS,
+  EDITOR_REQUEST_LIMIT_MESSAGES,
+  EDITOR_REQUEST_SYSTEM_REVIEWER,
+  editorRequestLimitReached,
+  summarizeEditorRequests,
+} from '../../functions/src/editorRequestTypes';
+export type { EditorRequestLimit, EditorRequestStatus } from '../../functions/src/editorRequestTypes';
 
 export interface EditorRequest {
   id: string;
   userId: string;
   userEmail: string;
   profileId: string;
-  status: 'pending' | 'approved' | 'rejected';
+  /** The profile's university, recorded server-side when the request is made */
+  universityId?: string | null;
+  status: EditorRequestStatus;
   reason?: string;
   requestedAt: Timestamp;
   updatedAt: Timestamp;
@@ -14,16 +27,11 @@ export interface EditorRequest {
   reviewNotes?: string;
 }
 
-export interface EditorRequestStats {
-  userId: string;
-  totalRequests: number;
-  pendingRequests: number;
-  lastRequestAt: Timestamp;
-  cooldownUntil?: Timestamp;
-}
+export type EditorRequestStats = EditorRequestStatsRecord<Timestamp>;
 
-export const EDITOR_REQUEST_LIMITS = {
-  MAX_PENDING_REQUESTS: 3,
-  COOLDOWN_PERIOD_DAYS: 7,
-  MAX_REQUESTS_PER_MONTH: 5
-} as const; 
\ No newline at end of file
+/** What a reviewer sees about the person asking */
+export interface EditorRequesterHistory {
+  stats: EditorRequestStats | null;
+  /** Their requests for any profile, newest first */
+  requests: EditorRequest[];
+}
@@ -1,10 +1,12 @@
 import type { Profile } from './index';
+import type { AuditActor } from './audit';
 
 export interface ProfileService {
   getProfile(profileId: string): Promise<Profile>;
   getProfilesByOrganization(organizationId: string): Promise<Profile[]>;
   createProfile(data: Omit<Profile, 'id'>): Promise<Profile>;
-  updateProfile(profileId: string, data: Partial<Profile>): Promise<Profile>;
+  /** Rejects with a VersionConflictError if the profile is no longer at `expectedVersion` */
+  updateProfile(profileId: string, data: Partial<Profile>, updatedBy: AuditActor, expectedVersion: number): Promise<Profile>;
   deleteProfile(profileId: string): Promise<void>;
   getProfilesByUniversity(universityId: string): Promise<Profile[]>;
   listProfiles(): Promise<Profile[]>;
@@ -0,0 +1,73 @@
+export interface Announcement {
+  enabled: boolean;
+  text: string;
+}
+
+export interface Branding {
+  siteName: string;
+  logoUrl: string;
+}
+
+/** Every feature flag the app knows about, with what it gates */
+export const FEATURE_FLAGS = {
+  betaFeatures: {
+    description: 'Features still in beta',
+    defaultEnabled: false,
+  },
+  chatSupport: {
+    description: 'The live chat support widget',
+    defaultEnabled: false,
+  },
+} as const;
+
+export type FeatureFlagKey = keyof typeof FEATURE_FLAGS;
+
+/** The original on/off switches, still honoured for flags without a rule */
+export type FeatureToggles = Record<FeatureFlagKey, boolean>;
+
+/**
+ * Who sees a flag. Turned off, nobody does; turned on with no targeting,
+ * everybody does. Otherwise a user sees it when they are listed, their
+ * university is listed, or they fall inside the rollout percentage.
+ */
+export interface FeatureFlagRule {
+  enabled: boolean;
+  userIds?: string[];
+  universityIds?: string[];
+  /** 0-100; a given user stays in or out as the percentage grows */
+  rolloutPercentage?: number;
+}
+
+export type FeatureFlagRules = Partial<Record<FeatureFlagKey, FeatureFlagRule>>;
+
+/** Who a flag is being checked for */
+export interface FeatureFlagContext {
+  userId?: string | null;
+  universityId?: string | null;
+}
+
+export interface SiteSettings {
+  announcement: Announcement;
+  supportEmail: string;
+  defaultUserRole: 'viewer' | 'editor' | 'admin';
+  /** Non-admins are shown the maintenance page while this is on */
+  maintenanceMode: boolean;
+  /** Shown on the maintenance page */
+  maintenanceMessage?: string;
+  branding: Branding;
+  contactPhone: string;
+  googleAnalyticsId: string;
+  featureToggles: FeatureToggles;
+  featureFlags?: FeatureFlagRules;
+}
+
+export const DEFAULT_SITE_SETTINGS: SiteSettings = {
+  announcement: { enabled: false, text: '' },
+  supportEmail: '',
+  defaultUserRole: 'viewer',
+  maintenanceMode: false,
+  branding: { siteName: 'Storiats', logoUrl: '' },
+  contactPhone: '',
+  googleAnalyticsId: '',
+  featureToggles: { betaFeatures: false, chatSupport: false },
+};
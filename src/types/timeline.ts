@@ -1,7 +1,8 @@
-import { LifeEvent } from './profile';
+import { z } from 'zod';
+import { fuzzyDateSchema } from '@/utils/date';
 
 export interface TimelineState {
-  events: LifeEvent[];
+  events: TimelineEvent[];
   isSaving: boolean;
   lastSavedAt: Date | null;
   error: Error | null;
@@ -43,29 +44,196 @@ export interface EventFormValues {
 
 export type TimelineEntryFormValues = EducationFormValues | JobFormValues | EventFormValues;
 
-export interface TimelineEvent {
+/**
+ * The one timeline event model. Every stored or legacy shape is read into
+ * it with the converters in `@/utils/timelineConverters`; kind-specific
+ * fields live in `details`.
+ */
+export type TimelineEventType = 'education' | 'work' | 'event';
+
+export interface EducationDetails {
+  institution?: string;
+  degree?: string;
+  fieldOfStudy?: string;
+}
+
+export interface WorkDetails {
+  company?: string;
+  position?: string;
+}
+
+export interface GeneralEventDetails {
+  /** A finer label older records used as their type, such as 'achievement' */
+  category?: string;
+}
+
+export interface TimelineEventMetadata {
+  tags?: string[];
+  importance?: 'high' | 'medium' | 'low';
+  visibility?: 'public' | 'private';
+}
+
+interface TimelineEventBase {
   id: string;
   title: string;
-  description: string;
-  date: string;
-  type: 'education' | 'work' | 'achievement' | 'other';
+  description?: string;
+  /** When the event started or happened, as a fuzzy date string (see types/fuzzyDate) */
+  startDate: string;
+  endDate?: string;
   location?: string;
-  organization?: string;
-  skills?: string[];
-  tags?: string[];
-  media?: {
-    type: 'image' | 'video' | 'document';
-    url: string;
-    thumbnail?: string;
-  }[];
-  createdAt: string;
-  updatedAt: string;
-  userId: string;
-  isPublic: boolean;
-  likes: number;
-  comments: number;
-  shares: number;
-  views: number;
-  status: 'draft' | 'published' | 'archived';
-  metadata?: Record<string, any>;
-} 
\ No newline at end of file
+  mediaUrls?: string[];
+  /** Position on a timeline arranged by hand */
+  order?: number;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Bumped on every save; updates name the version they were based on */
+  version?: number;
+  metadata?: TimelineEventMetadata;
+  /** Stored fields the model has no place for, written back as they were */
+  extra?: Record<string, unknown>;
+}
+
+export interface EducationTimelineEvent extends TimelineEventBase {
+  type: 'education';
+  details: EducationDetails;
+}
+
+export interface WorkTimelineEvent extends TimelineEventBase {
+  type: 'work';
+  details: WorkDetails;
+}
+
+export interface GeneralTimelineEvent extends TimelineEventBase {
+  type: 'event';
+  details: GeneralEventDetails;
+}
+
+export type TimelineEvent = EducationTimelineEvent | WorkTimelineEvent | GeneralTimelineEvent;
+
+export type TimelineEventDetails<T extends TimelineEventType> = Extract<TimelineEvent, { type: T }>['details'];
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+export type NewTimelineEvent = WithoutId<TimelineEvent>;
+
+/** A partial edit; a change of `type` should bring the matching `details` */
+export type TimelineEventChanges = Partial<Omit<TimelineEventBase, 'id'>> & {
+  type?: TimelineEventType;
+  details?: EducationDetails | WorkDetails | GeneralEventDetails;
+};
+
+/**
+ * The horizontal timeline: one lane per kind of event, positions in
+ * fractional years (1923.5 is the middle of 1923).
+ */
+export interface TimelineBar {
+  event: TimelineEvent;
+  /** Row within the lane; events that overlap in time get separate rows */
+  row: number;
+  start: number;
+  end: number;
+  /** No known duration, drawn as a marker rather than a bar */
+  isPoint: boolean;
+}
+
+export interface TimelineLane {
+  type: TimelineEventType;
+  rows: number;
+  bars: TimelineBar[];
+}
+
+export type TimelineEraKind = 'childhood' | 'university' | 'career';
+
+/** A stretch of a life the timeline is shaded by */
+export interface TimelineEra {
+  kind: TimelineEraKind;
+  label: string;
+  start: number;
+  end: number;
+  row: number;
+}
+
+export interface TimelineLayout {
+  start: number;
+  end: number;
+  lanes: TimelineLane[];
+  eras: TimelineEra[];
+  /** Every bar in date order, for moving through them one at a time */
+  order: TimelineBar[];
+}
+
+export type TimelineIssueKind = 'duplicate' | 'ends-before-start' | 'before-birth' | 'after-death' | 'gap';
+
+/** Something about a timeline's content that looks wrong */
+export interface TimelineIssue {
+  kind: TimelineIssueKind;
+  /** The events concerned, in date order */
+  eventIds: string[];
+  message: string;
+  /** Stops the profile from being published; a gap may well be real, so it doesn't */
+  blocking: boolean;
+}
+
+/** Where imported events were read from */
+export type TimelineImportSource = 'linkedin' | 'resume';
+
+export type TimelineImportStatus = 'pending' | 'accepted' | 'discarded';
+
+type DraftFields<T> = T extends unknown
+  ? Pick<T, Extract<keyof T, 'type' | 'title' | 'description' | 'startDate' | 'endDate' | 'location' | 'details'>>
+  : never;
+
+/** An event read from a CV or LinkedIn export, not yet saved */
+export type DraftTimelineEvent = DraftFields<EducationTimelineEvent | WorkTimelineEvent>;
+
+export interface TimelineImportDraft {
+  /** Identifies the draft on the review screen */
+  key: string;
+  source: TimelineImportSource;
+  status: TimelineImportStatus;
+  /** The start date is empty when none could be read */
+  event: DraftTimelineEvent;
+  /** Title of an event already on the timeline that this one repeats */
+  duplicateOf?: string;
+}
+
+const optionalText = z.string().optional();
+
+const timelineEventFields = {
+  // Assigned when the event is first saved
+  id: optionalText,
+  title: z.string().min(1, 'Title is required'),
+  description: optionalText,
+  startDate: fuzzyDateSchema,
+  endDate: fuzzyDateSchema.optional(),
+  location: optionalText,
+  mediaUrls: z.array(z.string().url()).optional(),
+  order: z.number().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  version: z.number().optional(),
+  metadata: z.object({
+    tags: z.array(z.string()).optional(),
+    visibility: z.enum(['public', 'private']).optional(),
+    importance: z.enum(['high', 'medium', 'low']).optional(),
+  }).optional(),
+  extra: z.record(z.unknown()).optional(),
+};
+
+export const timelineEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...timelineEventFields,
+    type: z.literal('education'),
+    details: z.object({ institution: optionalText, degree: optionalText, fieldOfStudy: optionalText }),
+  }),
+  z.object({
+    ...timelineEventFields,
+    type: z.literal('work'),
+    details: z.object({ company: optionalText, position: optionalText }),
+  }),
+  z.object({
+    ...timelineEventFields,
+    type: z.literal('event'),
+    details: z.object({ category: optionalText }),
+  }),
+]);
@@ -13,6 +13,9 @@ export interface UniversityProfile extends Omit<University, 'id'> {
   branding?: {
     logoUrl: string;
     primaryColor: string;
+    secondaryColor?: string;
+    /** Display name used as the sender on transactional email */
+    senderName?: string;
   };
   adminIds?: string[];
   isActive?: boolean;
@@ -24,4 +27,53 @@ export interface UniversityProfile extends Omit<University, 'id'> {
     phone?: string;
     website?: string;
   };
-} 
\ No newline at end of file
+} 
+// Shared with the Cloud Functions that verify custom domains
+export {
+  CUSTOM_DOMAINS_COLLECTION,
+  CUSTOM_DOMAIN_TXT_LABEL,
+  customDomainTxtRecord,
+  normalizeDomain,
+} from '../../functions/src/customDomainTypes';
+export type {
+  CustomDomainRecord,
+  CustomDomainStatus,
+  CustomDomainTxtRecord,
+  CustomDomainVerification,
+} from '../../functions/src/customDomainTypes';
+
+/**
+ * Per-university rules, stored on the university document under
+ * `settings` and enforced by UniversitySettingsService
+ */
+export interface UniversitySettings {
+  allowPublicProfiles: boolean;
+  /** Publishing goes through the approval workflow first */
+  requireApproval: boolean;
+  allowComments: boolean;
+  allowSharing: boolean;
+  allowMemorials: boolean;
+  allowDonations: boolean;
+  /** Personal profiles one user may create here; 0 means no limit */
+  maxProfilesPerUser: number;
+  /** Memorials one user may create here; 0 means no limit */
+  maxMemorialsPerUser: number;
+  notificationEmail: string;
+  /** Set by the verifyCustomDomain function once the domain is verified */
+  customDomain?: string;
+}
+
+export const DEFAULT_UNIVERSITY_SETTINGS: UniversitySettings = {
+  allowPublicProfiles: true,
+  requireApproval: false,
+  allowComments: true,
+  allowSharing: true,
+  allowMemorials: true,
+  allowDonations: false,
+  maxProfilesPerUser: 0,
+  maxMemorialsPerUser: 0,
+  notificationEmail: '',
+};
+
+/** The most a per-user cap can be set to */
+export const MAX_PER_USER_LIMIT = 1000;
@@ -0,0 +1,62 @@
+export type VersionedResourceType = 'profile' | 'memorial';
+
+export type VersionStatus = 'draft' | 'pending' | 'published' | 'archived';
+
+/**
+ * Why a snapshot was taken. Only publishes and approved edits create
+ * versions; restoring produces a draft, which is versioned once it is
+ * published again.
+ */
+export type VersionReason = 'publish' | 'approved_edit';
+
+export interface VersionedResourceRef {
+  resourceType: VersionedResourceType;
+  resourceId: string;
+  universityId: string;
+}
+
+export interface VersionActor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface VersionChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+export interface ResourceVersion {
+  id: string;
+  resourceType: VersionedResourceType;
+  resourceId: string;
+  universityId: string;
+  version: number;
+  status: VersionStatus;
+  reason: VersionReason;
+  snapshot: Record<string, any>;
+  changes: VersionChange[];
+  createdBy: VersionActor;
+  createdAt: Date;
+  comments?: string;
+}
+
+export interface RecordVersionInput extends VersionedResourceRef {
+  snapshot: Record<string, any>;
+  status: VersionStatus;
+  reason: VersionReason;
+  actor: VersionActor;
+  comments?: string;
+}
+
+export interface VersionListOptions {
+  pageSize?: number;
+  /** Version number of the last item of the previous page */
+  cursor?: number;
+}
+
+export interface VersionPage {
+  versions: ResourceVersion[];
+  nextCursor: number | null;
+}
@@ -0,0 +1,29 @@
+import type { WorkflowStage, WorkflowSubmissionRecord } from '../../functions/src/workflowTypes';
+
+// Shared with the Cloud Functions that run the workflow
+export {
+  DEFAULT_WORKFLOW_STAGES,
+  isSubmissionOverdue,
+  validateWorkflowStages,
+} from '../../functions/src/workflowTypes';
+export type {
+  SerializedWorkflowSubmission,
+  SubmissionStatus,
+  SubmitForReviewRequest,
+  WorkflowDecision,
+  WorkflowDecisionType,
+  WorkflowResourceType,
+  WorkflowStage,
+  WorkflowTransitionType,
+} from '../../functions/src/workflowTypes';
+
+export interface WorkflowConfig {
+  universityId: string;
+  stages: WorkflowStage[];
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export interface WorkflowSubmission extends WorkflowSubmissionRecord {
+  id: string;
+}
@@ -0,0 +1,110 @@
+import {
+  dateBounds,
+  formatFuzzyDate,
+  fuzzyDateBounds,
+  isChronological,
+  parseFuzzyDate,
+  serializeFuzzyDate,
+  toFuzzyDateString,
+} from '@/utils/date';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+// Date.UTC and the Date constructor read years below 100 as 19xx
+const utcDay = (year: number, month: number, date: number) => {
+  const value = new Date(0);
+  value.setUTCFullYear(year, month - 1, date);
+  return value;
+};
+
+const bounds = (text: string) => {
+  const parsed = parseFuzzyDate(text);
+  if (!parsed) throw new Error(`${text} did not parse`);
+  return fuzzyDateBounds(parsed);
+};
+
+describe('fuzzy date round-trips', () => {
+  it.each([
+    '1923-04-05',
+    '1923-04',
+    '1923',
+    '192X',
+    '1923~',
+    '1923-04~',
+    '192X~',
+    '1914/1918',
+    '1914-08/1918-11-11',
+    '0099',
+    '0005-03-01',
+    '000X',
+    '0050/0099~',
+  ])('serializes %s back to itself', text => {
+    const parsed = parseFuzzyDate(text);
+    expect(parsed).not.toBeNull();
+    expect(serializeFuzzyDate(parsed!)).toBe(text);
+  });
+
+  it('normalizes what it accepts loosely', () => {
+    expect(toFuzzyDateString(' 192x ')).toBe('192X');
+    expect(toFuzzyDateString('1923-04-05T10:30:00Z')).toBe('1923-04-05');
+  });
+
+  it('rejects impossible days and malformed text', () => {
+    expect(parseFuzzyDate('1923-02-30')).toBeNull();
+    expect(parseFuzzyDate('1923-13')).toBeNull();
+    expect(parseFuzzyDate('1900-02-29')).toBeNull();
+    expect(parseFuzzyDate('2000-02-29')).not.toBeNull();
+    expect(parseFuzzyDate('1914/1916/1918')).toBeNull();
+    expect(parseFuzzyDate('April 1923')).toBeNull();
+    expect(toFuzzyDateString('1923-02-30')).toBeNull();
+  });
+});
+
+describe('fuzzy date bounds', () => {
+  it('spans the whole unit of the precision given', () => {
+    expect(bounds('1923-04-05')).toEqual({ earliest: day('1923-04-05'), latest: day('1923-04-05') });
+    expect(bounds('1924-02')).toEqual({ earliest: day('1924-02-01'), latest: day('1924-02-29') });
+    expect(bounds('1923')).toEqual({ earliest: day('1923-01-01'), latest: day('1923-12-31') });
+    expect(bounds('192X')).toEqual({ earliest: day('1920-01-01'), latest: day('1929-12-31') });
+    expect(bounds('1914/1918')).toEqual({ earliest: day('1914-01-01'), latest: day('1918-12-31') });
+  });
+
+  it('widens circa dates by one of their own units either way', () => {
+    expect(bounds('1923~')).toEqual({ earliest: day('1922-01-01'), latest: day('1924-12-31') });
+    expect(bounds('1923-01~')).toEqual({ earliest: day('1922-12-01'), latest: day('1923-02-28') });
+    expect(bounds('1923-03-01~')).toEqual({ earliest: day('1923-02-28'), latest: day('1923-03-02') });
+    expect(bounds('192X~')).toEqual({ earliest: day('1910-01-01'), latest: day('1939-12-31') });
+  });
+
+  it('keeps years below 100 in the first century', () => {
+    expect(bounds('0099')).toEqual({ earliest: utcDay(99, 1, 1), latest: utcDay(99, 12, 31) });
+    expect(bounds('0005-03-01')).toEqual({ earliest: utcDay(5, 3, 1), latest: utcDay(5, 3, 1) });
+    expect(bounds('000X')).toEqual({ earliest: utcDay(0, 1, 1), latest: utcDay(9, 12, 31) });
+    expect(formatFuzzyDate('0099')).toBe('99');
+    expect(formatFuzzyDate('0005-03-01')).toBe('Mar 1, 0005');
+  });
+});
+
+describe('backwards ranges', () => {
+  it('are not dates', () => {
+    expect(parseFuzzyDate('1918/1914')).toBeNull();
+    expect(parseFuzzyDate('1923-05/1923-04')).toBeNull();
+    expect(toFuzzyDateString('1918/1914')).toBeNull();
+    expect(dateBounds('1918/1914')).toBeNull();
+  });
+
+  it('allow ends that only overlap the start', () => {
+    expect(parseFuzzyDate('1923-04/1923')).not.toBeNull();
+    expect(parseFuzzyDate('1924/1923~')).not.toBeNull();
+    expect(parseFuzzyDate('1925/1923')).toBeNull();
+  });
+
+  it('only fail chronology when the dates certainly run the wrong way', () => {
+    expect(isChronological('1900~', '1899')).toBe(true);
+    expect(isChronological('1923-04', '1923')).toBe(true);
+    expect(isChronological('1924', '1923')).toBe(false);
+    expect(isChronological('0099', '0100')).toBe(true);
+    expect(isChronological('0100', '0099')).toBe(false);
+    expect(isChronological('1923', 'not a date')).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+import { diffTimeline } from '@/utils/diff';
+import type { TimelineEvent } from '@/types/profile';
+
+jest.mock('firebase/firestore', () => ({ Timestamp: class {} }));
+
+const event = (id: string, title = `Event ${id}`): TimelineEvent =>
+  ({ id, title, type: 'event', startDate: '2000' } as unknown as TimelineEvent);
+
+const timeline = (...ids: string[]) => ids.map(id => event(id));
+
+const summary = (oldEvents: TimelineEvent[], newEvents: TimelineEvent[]) =>
+  diffTimeline(oldEvents, newEvents).map(({ id, kind, moved, fromIndex, toIndex }) => ({ id, kind, moved, fromIndex, toIndex }));
+
+describe('diffTimeline move detection', () => {
+  it('reports nothing for an unchanged timeline', () => {
+    expect(diffTimeline(timeline('a', 'b', 'c'), timeline('a', 'b', 'c'))).toEqual([]);
+  });
+
+  it('marks only the event taken out of order as moved', () => {
+    expect(summary(timeline('a', 'b', 'c', 'd'), timeline('b', 'c', 'd', 'a'))).toEqual([
+      { id: 'a', kind: 'moved', moved: true, fromIndex: 0, toIndex: 3 },
+    ]);
+  });
+
+  it('marks one side of a swap, not both', () => {
+    const diffs = summary(timeline('a', 'b'), timeline('b', 'a'));
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]).toMatchObject({ kind: 'moved', moved: true });
+  });
+
+  it('does not count shifts caused by additions and removals as moves', () => {
+    expect(summary(timeline('a', 'b', 'c'), timeline('x', 'a', 'c'))).toEqual([
+      { id: 'x', kind: 'added', moved: false, fromIndex: null, toIndex: 0 },
+      { id: 'b', kind: 'removed', moved: false, fromIndex: 1, toIndex: null },
+    ]);
+  });
+
+  it('reports an event that was both edited and moved as modified and moved', () => {
+    const diffs = diffTimeline(timeline('a', 'b', 'c'), [event('b'), event('c'), event('a', 'Renamed')]);
+    expect(diffs).toEqual([
+      expect.objectContaining({ id: 'a', kind: 'modified', moved: true, fromIndex: 0, toIndex: 2 }),
+    ]);
+    expect(diffs[0].fields).toEqual([
+      expect.objectContaining({ field: 'title', oldValue: 'Event a', newValue: 'Renamed' }),
+    ]);
+  });
+
+  it('reports an edit in place as modified without a move', () => {
+    expect(summary(timeline('a', 'b'), [event('a'), event('b', 'Renamed')])).toEqual([
+      { id: 'b', kind: 'modified', moved: false, fromIndex: 1, toIndex: 1 },
+    ]);
+  });
+});
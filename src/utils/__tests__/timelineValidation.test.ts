@@ -0,0 +1,139 @@
+import { validateTimeline } from '@/utils/timelineValidation';
+import type { TimelineEvent } from '@/types/timeline';
+
+const base = { createdAt: new Date('2024-01-01'), updatedAt: new Date('2024-01-01') };
+
+const school = (id: string, institution: string, startDate: string, endDate?: string): TimelineEvent => ({
+  ...base,
+  id,
+  type: 'education',
+  title: `Studied at ${institution}`,
+  startDate,
+  endDate,
+  details: { institution },
+});
+
+const job = (id: string, company: string, startDate: string, endDate?: string, title = `Worked at ${company}`): TimelineEvent => ({
+  ...base,
+  id,
+  type: 'work',
+  title,
+  startDate,
+  endDate,
+  details: { company },
+});
+
+const lifeEvent = (id: string, title: string, startDate: string): TimelineEvent => ({
+  ...base,
+  id,
+  type: 'event',
+  title,
+  startDate,
+  details: {},
+});
+
+const kinds = (events: TimelineEvent[], options?: Parameters<typeof validateTimeline>[1]) =>
+  validateTimeline(events, options).map(({ kind, eventIds, blocking }) => ({ kind, eventIds, blocking }));
+
+describe('validateTimeline dates', () => {
+  it('finds nothing wrong with a plausible timeline', () => {
+    expect(validateTimeline([
+      school('school', 'Leeds Grammar', '1935', '1941'),
+      job('job', 'Mill', '1941-09', '1945'),
+    ], { dateOfBirth: '1923-04-05', dateOfDeath: '1990' })).toEqual([]);
+  });
+
+  it('flags an event that certainly ends before it starts', () => {
+    expect(kinds([job('job', 'Mill', '1950', '1945')])).toEqual([
+      { kind: 'ends-before-start', eventIds: ['job'], blocking: true },
+    ]);
+  });
+
+  it('gives partly known dates the benefit of the doubt', () => {
+    expect(kinds([job('job', 'Mill', '1945-06', '1945')])).toEqual([]);
+    expect(kinds([job('job', 'Mill', '1946', '1945~')])).toEqual([]);
+    expect(kinds([job('job', 'Mill', '195X', '1952')])).toEqual([]);
+  });
+
+  it('flags school or work before the date of birth, but not life events', () => {
+    expect(kinds([
+      lifeEvent('emigrated', 'Parents emigrated', '1920'),
+      school('school', 'Leeds Grammar', '1921', '1927'),
+    ], { dateOfBirth: '1923-04-05' })).toEqual([
+      { kind: 'before-birth', eventIds: ['school'], blocking: true },
+    ]);
+  });
+
+  it('flags anything that starts or ends after the date of death, once each', () => {
+    const issues = validateTimeline([
+      job('ended-late', 'Mill', '1985', '1995'),
+      lifeEvent('after', 'Reunion', '1992'),
+    ], { dateOfDeath: '1990' });
+
+    expect(issues.map(({ kind, eventIds }) => ({ kind, eventIds }))).toEqual([
+      { kind: 'after-death', eventIds: ['ended-late'] },
+      { kind: 'after-death', eventIds: ['after'] },
+    ]);
+    expect(issues[0].message).toContain('ends after the date of death (1990)');
+    expect(issues[1].message).toContain('starts after the date of death (1990)');
+  });
+
+  it('ignores the life dates when they are unknown or unreadable', () => {
+    expect(kinds([school('school', 'Leeds Grammar', '1900')], { dateOfBirth: 'sometime' })).toEqual([]);
+  });
+});
+
+describe('validateTimeline duplicates', () => {
+  it('matches the same school however its name is written', () => {
+    expect(kinds([
+      school('a', 'University of Leeds', '1941', '1944'),
+      school('b', 'Leeds University', '1941', '1945'),
+    ])).toEqual([{ kind: 'duplicate', eventIds: ['a', 'b'], blocking: true }]);
+  });
+
+  it('matches jobs with the same title at different companies', () => {
+    expect(kinds([
+      job('a', 'Mill', '1950', '1960', 'Foreman'),
+      job('b', 'Dye works', '1951', '1959', 'foreman'),
+    ])).toEqual([{ kind: 'duplicate', eventIds: ['a', 'b'], blocking: true }]);
+  });
+
+  it('does not count a short overlap where one ends and the next begins', () => {
+    expect(kinds([
+      school('a', 'Leeds University', '1941', '1944'),
+      school('b', 'Leeds University', '1944', '1948'),
+    ])).toEqual([]);
+  });
+
+  it('does not compare events of different kinds', () => {
+    expect(kinds([
+      school('a', 'Leeds University', '1941', '1944'),
+      job('b', 'Leeds University', '1941', '1944'),
+    ])).toEqual([]);
+  });
+});
+
+describe('validateTimeline gaps', () => {
+  it('points out a long gap between schools and jobs without blocking', () => {
+    const issues = validateTimeline([
+      lifeEvent('married', 'Married', '1950'),
+      school('school', 'Leeds Grammar', '1935', '1941'),
+      job('job', 'Mill', '1948', '1960'),
+    ]);
+    expect(issues).toEqual([
+      expect.objectContaining({ kind: 'gap', eventIds: ['school', 'job'], blocking: false }),
+    ]);
+  });
+
+  it('does not count five years or less', () => {
+    expect(kinds([school('school', 'Leeds Grammar', '1935', '1941'), job('job', 'Mill', '1946', '1960')])).toEqual([]);
+  });
+
+  it('measures from the longest job still running, not the last one to start', () => {
+    expect(kinds([
+      job('long', 'Mill', '1940', '1970'),
+      job('short', 'Shop', '1945', '1946'),
+      job('next', 'Dye works', '1968', '1975'),
+    ])).toEqual([]);
+  });
+});
@@ -1,10 +1,228 @@
 import { format, parseISO } from 'date-fns';
+import { z } from 'zod';
+import type { FuzzyDate, FuzzyDateBounds, FuzzyDatePoint, FuzzyDatePrecision } from '@/types/fuzzyDate';
 
 export function formatDate(dateString: string): string {
   try {
-    return format(parseISO(dateString), 'MMM d, yyyy');
+    return formatFuzzyDate(dateString) ?? format(parseISO(dateString), 'MMM d, yyyy');
   } catch (error) {
     console.error('Error formatting date:', error);
     return dateString;
   }
-} 
\ No newline at end of file
+}
+
+// A day, month or year, optionally followed by an ISO time that is ignored
+const POINT_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?)?)?(~)?$/;
+const DECADE_PATTERN = /^(\d{3})[Xx](~)?$/;
+
+// Midnight UTC; unlike Date.UTC this doesn't read years below 100 as 19xx
+const utc = (year: number, month: number, day: number) => {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, day);
+  return date;
+};
+
+const daysInMonth = (year: number, month: number) => utc(year, month, 0).getUTCDate();
+
+function parsePoint(text: string): FuzzyDatePoint | null {
+  const decade = DECADE_PATTERN.exec(text);
+  if (decade) {
+    return { precision: 'decade', year: Number(decade[1]) * 10, approximate: !!decade[2] };
+  }
+
+  const point = POINT_PATTERN.exec(text);
+  if (!point) return null;
+  const [, yearText, monthText, dayText, circa] = point;
+  const year = Number(yearText);
+  const month = monthText ? Number(monthText) : undefined;
+  const day = dayText ? Number(dayText) : undefined;
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+  if (month !== undefined && day !== undefined && (day < 1 || day > daysInMonth(year, month))) return null;
+
+  const precision: FuzzyDatePrecision = day !== undefined ? 'day' : month !== undefined ? 'month' : 'year';
+  return { precision, year, month, day, approximate: !!circa };
+}
+
+/** Reads a stored or typed fuzzy date; null when it isn't one */
+export function parseFuzzyDate(text: string | null | undefined): FuzzyDate | null {
+  const value = text?.trim();
+  if (!value) return null;
+
+  const parts = value.split('/');
+  if (parts.length > 2) return null;
+  const start = parsePoint(parts[0]);
+  if (!start) return null;
+  if (parts.length === 1) return { start };
+
+  const end = parsePoint(parts[1]);
+  if (!end || fuzzyDateBounds({ start: end }).latest < fuzzyDateBounds({ start }).earliest) return null;
+  return { start, end };
+}
+
+export const isFuzzyDate = (text: string | null | undefined): boolean => parseFuzzyDate(text) !== null;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+function serializePoint(point: FuzzyDatePoint): string {
+  const circa = point.approximate ? '~' : '';
+  switch (point.precision) {
+    case 'decade':
+      return `${pad(Math.floor(point.year / 10), 3)}X${circa}`;
+    case 'year':
+      return `${pad(point.year, 4)}${circa}`;
+    case 'month':
+      return `${pad(point.year, 4)}-${pad(point.month ?? 1)}${circa}`;
+    case 'day':
+      return `${pad(point.year, 4)}-${pad(point.month ?? 1)}-${pad(point.day ?? 1)}${circa}`;
+  }
+}
+
+/** The string a fuzzy date is stored as */
+export function serializeFuzzyDate(date: FuzzyDate): string {
+  return date.end ? `${serializePoint(date.start)}/${serializePoint(date.end)}` : serializePoint(date.start);
+}
+
+/**
+ * The stored form of any date value: fuzzy strings are normalized, and
+ * dates, Firestore timestamps and ISO strings become exact days. Null for
+ * anything that isn't a date.
+ */
+export function toFuzzyDateString(value: unknown): string | null {
+  if (typeof value === 'string') {
+    const parsed = parseFuzzyDate(value);
+    if (parsed) return serializeFuzzyDate(parsed);
+    // A fuzzy date with an impossible day or a backwards range, not something new Date should guess at
+    if (value.includes('/') || POINT_PATTERN.test(value.trim()) || DECADE_PATTERN.test(value.trim())) return null;
+  }
+
+  let date: Date | null = null;
+  if (value instanceof Date) {
+    date = value;
+  } else if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    date = (value as { toDate: () => Date }).toDate();
+  } else if (typeof value === 'string' && value.trim()) {
+    date = new Date(value);
+  }
+  if (!date || Number.isNaN(date.getTime())) return null;
+  return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function pointBounds(point: FuzzyDatePoint): FuzzyDateBounds {
+  // A circa date may be off by one of its own units either way
+  const slack = point.approximate ? 1 : 0;
+  switch (point.precision) {
+    case 'decade':
+      return {
+        earliest: utc(point.year - slack * 10, 0, 1),
+        latest: utc(point.year + 9 + slack * 10, 11, 31),
+      };
+    case 'year':
+      return {
+        earliest: utc(point.year - slack, 0, 1),
+        latest: utc(point.year + slack, 11, 31),
+      };
+    case 'month': {
+      const month = (point.month ?? 1) - 1;
+      return {
+        earliest: utc(point.year, month - slack, 1),
+        latest: utc(point.year, month + 1 + slack, 0),
+      };
+    }
+    case 'day': {
+      const month = (point.month ?? 1) - 1;
+      const day = point.day ?? 1;
+      return {
+        earliest: utc(point.year, month, day - slack),
+        latest: utc(point.year, month, day + slack),
+      };
+    }
+  }
+}
+
+/** The earliest and latest days a fuzzy date could be */
+export function fuzzyDateBounds(date: FuzzyDate): FuzzyDateBounds {
+  return {
+    earliest: pointBounds(date.start).earliest,
+    latest: pointBounds(date.end ?? date.start).latest,
+  };
+}
+
+/**
+ * For columns that only hold exact timestamps: a date that is only partly
+ * known goes in as its earliest day, and its text is kept somewhere else.
+ * Null for exact dates, which go in as they are.
+ */
+export function fuzzyDateColumn(value: unknown): { iso: string; text: string } | null {
+  const parsed = typeof value === 'string' ? parseFuzzyDate(value) : null;
+  if (!parsed || (parsed.start.precision === 'day' && !parsed.start.approximate && !parsed.end)) return null;
+  return { iso: fuzzyDateBounds(parsed).earliest.toISOString(), text: serializeFuzzyDate(parsed) };
+}
+
+/** Bounds of a stored date of any kind (see toFuzzyDateString) */
+export function dateBounds(value: unknown): FuzzyDateBounds | null {
+  const parsed = parseFuzzyDate(toFuzzyDateString(value));
+  return parsed && fuzzyDateBounds(parsed);
+}
+
+/**
+ * Whether one date can't have come after another, e.g. a birth and a
+ * death. Only dates that certainly overlap the wrong way fail, so "c. 1900"
+ * may come before "1899".
+ */
+export function isChronological(earlier: unknown, later: unknown): boolean {
+  const first = dateBounds(earlier);
+  const second = dateBounds(later);
+  return !first || !second || first.earliest <= second.latest;
+}
+
+/**
+ * Sort order for dates of any precision: by the earliest day each could
+ * be, then the more precise first. Values that aren't dates go last.
+ */
+export function compareFuzzyDates(a: unknown, b: unknown): number {
+  const first = dateBounds(a);
+  const second = dateBounds(b);
+  if (!first || !second) return first ? -1 : second ? 1 : 0;
+  return (
+    first.earliest.getTime() - second.earliest.getTime() ||
+    first.latest.getTime() - second.latest.getTime()
+  );
+}
+
+/** The year a date is filed under when grouping by year */
+export function fuzzyDateYear(value: unknown): number | null {
+  const parsed = parseFuzzyDate(toFuzzyDateString(value));
+  return parsed ? parsed.start.year : null;
+}
+
+function formatPoint(point: FuzzyDatePoint): string {
+  const local = new Date(point.year, (point.month ?? 1) - 1, point.day ?? 1);
+  // The Date constructor reads years below 100 as 19xx
+  local.setFullYear(point.year);
+  const circa = point.approximate ? 'c. ' : '';
+  switch (point.precision) {
+    case 'decade':
+      return `${circa}${point.year}s`;
+    case 'year':
+      return `${circa}${point.year}`;
+    case 'month':
+      return `${circa}${format(local, 'MMMM yyyy')}`;
+    case 'day':
+      return `${circa}${format(local, 'MMM d, yyyy')}`;
+  }
+}
+
+/**
+ * How a date reads on screen: "Apr 5, 1923", "April 1923", "1923",
+ * "1920s", "c. 1923" or "1914 – 1918". Null when the value isn't a date.
+ */
+export function formatFuzzyDate(value: unknown): string | null {
+  const parsed = parseFuzzyDate(toFuzzyDateString(value));
+  if (!parsed) return null;
+  return parsed.end ? `${formatPoint(parsed.start)} – ${formatPoint(parsed.end)}` : formatPoint(parsed.start);
+}
+
+export const FUZZY_DATE_HINT = 'Use a date like 1923-04-05, 1923-04, 1923, 192X (a decade), 1923~ (circa) or 1914/1918';
+
+/** A stored fuzzy date string */
+export const fuzzyDateSchema = z.string().refine(isFuzzyDate, FUZZY_DATE_HINT);
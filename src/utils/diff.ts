@@ -1,82 +1,344 @@
 import { diff_match_patch } from 'diff-match-patch';
-import { Profile, TimelineEvent, Story } from '@/types/profile';
+import { Timestamp } from 'firebase/firestore';
+import { Profile, MemorialProfile, TimelineEvent, StoryAnswer } from '@/types/profile';
+import { STORY_QUESTIONS } from '@/types/questions';
+
+export interface DiffSegment {
+  type: 'deletion' | 'addition' | 'unchanged';
+  text: string;
+}
 
 export interface DiffResult {
   oldText: string;
   newText: string;
-  changes: Array<{
-    type: 'deletion' | 'addition' | 'unchanged';
-    text: string;
-  }>;
+  changes: DiffSegment[];
 }
 
-export const generateDiff = (oldText: string, newText: string): DiffResult => {
-  const dmp = new diff_match_patch();
-  const diffs = dmp.diff_main(oldText, newText);
-  dmp.diff_cleanupSemantic(diffs);
+export type FieldChangeKind = 'added' | 'removed' | 'modified';
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  kind: FieldChangeKind;
+  oldValue: string | null;
+  newValue: string | null;
+  /** Word-level diff, only present for prose fields */
+  textDiff?: DiffSegment[];
+}
+
+export type TimelineChangeKind = 'added' | 'removed' | 'modified' | 'moved';
+
+export interface TimelineEventDiff {
+  id: string;
+  title: string;
+  kind: TimelineChangeKind;
+  /** Set when the event changed position, even if it was also modified */
+  moved: boolean;
+  fromIndex: number | null;
+  toIndex: number | null;
+  fields: FieldDiff[];
+}
+
+export interface StoryAnswerDiff {
+  questionId: string;
+  question: string;
+  kind: FieldChangeKind;
+  answerDiff: DiffSegment[];
+}
+
+export interface ProfileDiff {
+  fields: FieldDiff[];
+  timeline: TimelineEventDiff[];
+  storyAnswers: StoryAnswerDiff[];
+  hasChanges: boolean;
+}
+
+export type DiffableProfile = Profile | MemorialProfile;
 
-  const changes = diffs.map(([type, text]) => {
+interface FieldSpec {
+  path: string;
+  label: string;
+  prose?: boolean;
+}
+
+const PROFILE_FIELDS: FieldSpec[] = [
+  { path: 'name', label: 'Name' },
+  { path: 'status', label: 'Status' },
+  { path: 'description', label: 'Description', prose: true },
+  { path: 'bio', label: 'Bio', prose: true },
+  { path: 'department', label: 'Department' },
+  { path: 'photoURL', label: 'Photo' },
+  { path: 'imageUrl', label: 'Image' },
+  { path: 'basicInfo.dateOfBirth', label: 'Date of Birth' },
+  { path: 'basicInfo.dateOfDeath', label: 'Date of Death' },
+  { path: 'basicInfo.birthLocation', label: 'Birth Location' },
+  { path: 'basicInfo.deathLocation', label: 'Death Location' },
+  { path: 'basicInfo.photo', label: 'Memorial Photo' },
+  { path: 'basicInfo.biography', label: 'Biography', prose: true },
+  { path: 'lifeStory.content', label: 'Life Story', prose: true },
+];
+
+const TIMELINE_FIELDS: FieldSpec[] = [
+  { path: 'title', label: 'Title' },
+  { path: 'type', label: 'Type' },
+  { path: 'startDate', label: 'Start Date' },
+  { path: 'endDate', label: 'End Date' },
+  { path: 'location', label: 'Location' },
+  { path: 'metadata.institution', label: 'Institution' },
+  { path: 'metadata.degree', label: 'Degree' },
+  { path: 'metadata.company', label: 'Company' },
+  { path: 'metadata.position', label: 'Position' },
+  { path: 'description', label: 'Description', prose: true },
+];
+
+const toSegments = (diffs: Array<[number, string]>): DiffSegment[] =>
+  diffs.map(([type, text]) => {
     if (type === -1) return { type: 'deletion' as const, text };
     if (type === 1) return { type: 'addition' as const, text };
     return { type: 'unchanged' as const, text };
   });
 
+export const generateDiff = (oldText: string, newText: string): DiffResult => {
+  const dmp = new diff_match_patch();
+  const diffs = dmp.diff_main(oldText, newText);
+  dmp.diff_cleanupSemantic(diffs);
+
   return {
     oldText,
     newText,
-    changes,
+    changes: toSegments(diffs),
   };
 };
 
+/**
+ * Word-level diff: each word and whitespace run is mapped to a single
+ * character so diff-match-patch never splits inside a word.
+ */
+export const generateWordDiff = (oldText: string, newText: string): DiffSegment[] => {
+  const tokens: string[] = [];
+  const tokenIndex = new Map<string, number>();
+
+  const encode = (text: string): string =>
+    (text.match(/\s+|[^\s]+/g) || [])
+      .map(token => {
+        if (!tokenIndex.has(token)) {
+          tokenIndex.set(token, tokens.length);
+          tokens.push(token);
+        }
+        return String.fromCharCode(tokenIndex.get(token)! + 0x100);
+      })
+      .join('');
+
+  const decode = (encoded: string): string =>
+    Array.from(encoded)
+      .map(char => tokens[char.charCodeAt(0) - 0x100])
+      .join('');
+
+  const dmp = new diff_match_patch();
+  const diffs = dmp.diff_main(encode(oldText), encode(newText));
+  dmp.diff_cleanupSemantic(diffs);
+
+  return toSegments(diffs.map(([type, text]) => [type, decode(text)] as [number, string]))
+    .filter(segment => segment.text.length > 0);
+};
+
 export const formatTimelineEvent = (event: TimelineEvent): string => {
   return `${event.title} (${event.startDate})`;
 };
 
-export const formatStoryAnswer = (story: Story): string => {
-  return `Q: ${story.question}\nA: ${story.answer}`;
+export const getByPath = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source);
+
+export const formatValue = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Timestamp) return value.toDate().toLocaleDateString();
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (Array.isArray(value)) return value.length ? value.join(', ') : null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const diffFields = (oldSource: unknown, newSource: unknown, specs: FieldSpec[]): FieldDiff[] => {
+  return specs.reduce<FieldDiff[]>((diffs, spec) => {
+    const oldValue = formatValue(getByPath(oldSource, spec.path));
+    const newValue = formatValue(getByPath(newSource, spec.path));
+    if (oldValue === newValue) return diffs;
+
+    const kind: FieldChangeKind = oldValue === null ? 'added' : newValue === null ? 'removed' : 'modified';
+    diffs.push({
+      field: spec.path,
+      label: spec.label,
+      kind,
+      oldValue,
+      newValue,
+      ...(spec.prose && kind === 'modified' ? { textDiff: generateWordDiff(oldValue!, newValue!) } : {}),
+    });
+    return diffs;
+  }, []);
+};
+
+/**
+ * IDs that keep their relative order between the two lists (longest common
+ * subsequence). Any shared ID outside it was moved.
+ */
+const stableIds = (oldIds: string[], newIds: string[]): Set<string> => {
+  const lengths = Array.from({ length: oldIds.length + 1 }, () => new Array(newIds.length + 1).fill(0));
+  for (let i = oldIds.length - 1; i >= 0; i--) {
+    for (let j = newIds.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldIds[i] === newIds[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const stable = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < oldIds.length && j < newIds.length) {
+    if (oldIds[i] === newIds[j]) {
+      stable.add(oldIds[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return stable;
+};
+
+const getTimeline = (profile: DiffableProfile): TimelineEvent[] => {
+  const timeline = (profile as Partial<MemorialProfile>).timeline;
+  return Array.isArray(timeline) ? timeline : [];
+};
+
+export const diffTimeline = (oldEvents: TimelineEvent[], newEvents: TimelineEvent[]): TimelineEventDiff[] => {
+  const oldById = new Map(oldEvents.map((event, index) => [event.id, { event, index }]));
+  const newById = new Map(newEvents.map((event, index) => [event.id, { event, index }]));
+  const shared = (events: TimelineEvent[], other: Map<string, unknown>) =>
+    events.filter(event => other.has(event.id)).map(event => event.id);
+  const stable = stableIds(shared(oldEvents, newById), shared(newEvents, oldById));
+
+  const diffs: TimelineEventDiff[] = [];
+
+  newEvents.forEach((event, toIndex) => {
+    const previous = oldById.get(event.id);
+    if (!previous) {
+      diffs.push({
+        id: event.id,
+        title: event.title,
+        kind: 'added',
+        moved: false,
+        fromIndex: null,
+        toIndex,
+        fields: diffFields(undefined, event, TIMELINE_FIELDS),
+      });
+      return;
+    }
+
+    const fields = diffFields(previous.event, event, TIMELINE_FIELDS);
+    const moved = !stable.has(event.id);
+    if (fields.length === 0 && !moved) return;
+
+    diffs.push({
+      id: event.id,
+      title: event.title,
+      kind: fields.length > 0 ? 'modified' : 'moved',
+      moved,
+      fromIndex: previous.index,
+      toIndex,
+      fields,
+    });
+  });
+
+  oldEvents.forEach((event, fromIndex) => {
+    if (newById.has(event.id)) return;
+    diffs.push({
+      id: event.id,
+      title: event.title,
+      kind: 'removed',
+      moved: false,
+      fromIndex,
+      toIndex: null,
+      fields: diffFields(event, undefined, TIMELINE_FIELDS),
+    });
+  });
+
+  return diffs;
+};
+
+const QUESTION_TEXT: Record<string, string> = Object.values(STORY_QUESTIONS)
+  .flat()
+  .reduce<Record<string, string>>((acc, question) => {
+    acc[question.id] = question.text;
+    return acc;
+  }, {});
+
+/**
+ * Story answers are stored as a `storyAnswers` list, an `answers` map keyed
+ * by question ID, or legacy `stories`. Normalise them all to one list.
+ */
+const getStoryAnswers = (profile: DiffableProfile): StoryAnswer[] => {
+  const source = profile as any;
+
+  if (Array.isArray(source.storyAnswers)) {
+    return source.storyAnswers;
+  }
+
+  if (source.answers && typeof source.answers === 'object') {
+    return Object.entries(source.answers as Record<string, string>).map(([questionId, answer]) => ({
+      id: questionId,
+      questionId,
+      question: QUESTION_TEXT[questionId] || questionId,
+      answer,
+    }));
+  }
+
+  if (Array.isArray(source.stories)) {
+    return source.stories.map((story: { id: string; question: string; answer: string }) => ({
+      id: story.id,
+      questionId: story.id,
+      question: story.question,
+      answer: story.answer,
+    }));
+  }
+
+  return [];
+};
+
+export const diffStoryAnswers = (oldAnswers: StoryAnswer[], newAnswers: StoryAnswer[]): StoryAnswerDiff[] => {
+  const oldByQuestion = new Map(oldAnswers.map(answer => [answer.questionId, answer]));
+  const newByQuestion = new Map(newAnswers.map(answer => [answer.questionId, answer]));
+  const questionIds = Array.from(new Set([...Array.from(oldByQuestion.keys()), ...Array.from(newByQuestion.keys())]));
+
+  return questionIds.reduce<StoryAnswerDiff[]>((diffs, questionId) => {
+    const oldAnswer = oldByQuestion.get(questionId)?.answer?.trim() || '';
+    const newAnswer = newByQuestion.get(questionId)?.answer?.trim() || '';
+    if (oldAnswer === newAnswer) return diffs;
+
+    diffs.push({
+      questionId,
+      question: newByQuestion.get(questionId)?.question || oldByQuestion.get(questionId)?.question || questionId,
+      kind: !oldAnswer ? 'added' : !newAnswer ? 'removed' : 'modified',
+      answerDiff: generateWordDiff(oldAnswer, newAnswer),
+    });
+    return diffs;
+  }, []);
 };
 
 export const generateProfileDiffs = (
-  publishedProfile: Profile,
-  draftProfile: Profile
-): {
-  metadata: DiffResult;
-  timeline: DiffResult;
-  storyAnswers: DiffResult;
-} => {
-  // Generate metadata diff
-  const metadataDiff = generateDiff(
-    JSON.stringify({
-      name: publishedProfile.name,
-      status: publishedProfile.status,
-    }),
-    JSON.stringify({
-      name: draftProfile.name,
-      status: draftProfile.status,
-    })
-  );
-
-  // Generate timeline diff
-  const timelineDiff = generateDiff(
-    (publishedProfile.type === 'memorial' && (publishedProfile as any).timeline ? (publishedProfile as any).timeline : []).map(formatTimelineEvent).join('\n'),
-    (draftProfile.type === 'memorial' && (draftProfile as any).timeline ? (draftProfile as any).timeline : []).map(formatTimelineEvent).join('\n')
-  );
-
-  // Generate story answers diff
-  const storyAnswersDiff = generateDiff(
-    ('stories' in publishedProfile && Array.isArray((publishedProfile as any).stories)
-      ? (publishedProfile as any).stories
-      : []
-    ).map(formatStoryAnswer).join('\n\n'),
-    ('stories' in draftProfile && Array.isArray((draftProfile as any).stories)
-      ? (draftProfile as any).stories
-      : []
-    ).map(formatStoryAnswer).join('\n\n')
-  );
+  publishedProfile: DiffableProfile,
+  draftProfile: DiffableProfile
+): ProfileDiff => {
+  const fields = diffFields(publishedProfile, draftProfile, PROFILE_FIELDS);
+  const timeline = diffTimeline(getTimeline(publishedProfile), getTimeline(draftProfile));
+  const storyAnswers = diffStoryAnswers(getStoryAnswers(publishedProfile), getStoryAnswers(draftProfile));
 
   return {
-    metadata: metadataDiff,
-    timeline: timelineDiff,
-    storyAnswers: storyAnswersDiff,
+    fields,
+    timeline,
+    storyAnswers,
+    hasChanges: fields.length > 0 || timeline.length > 0 || storyAnswers.length > 0,
   };
-}; 
\ No newline at end of file
+};
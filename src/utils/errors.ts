@@ -88,4 +88,25 @@ export class AppError extends Error {
       error
     );
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * A write based on an out-of-date copy of a record. Carries what the server
+ * holds now so the caller can merge instead of overwriting it.
+ */
+export class VersionConflictError<T = unknown> extends AppError {
+  constructor(
+    public current: T,
+    public expectedVersion: number,
+    public currentVersion: number,
+    resource = 'record'
+  ) {
+    super(
+      'VERSION_CONFLICT',
+      `This ${resource} was changed by someone else (version ${currentVersion}, you had ${expectedVersion})`,
+      409,
+      { expectedVersion, currentVersion }
+    );
+    this.name = 'VersionConflictError';
+  }
+}
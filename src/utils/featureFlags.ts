@@ -0,0 +1,57 @@
+import {
+  FEATURE_FLAGS,
+  FeatureFlagContext,
+  FeatureFlagKey,
+  FeatureFlagRule,
+  SiteSettings,
+} from '@/types/siteSettings';
+
+/**
+ * A stable 0-99 bucket for a user and flag (FNV-1a). Hashing the flag in
+ * too means the same users aren't first in line for every rollout.
+ */
+export function rolloutBucket(flag: FeatureFlagKey, userId: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `${flag}:${userId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/** The rule in force for a flag, falling back to its old on/off toggle */
+export function featureFlagRule(
+  flag: FeatureFlagKey,
+  settings: Pick<SiteSettings, 'featureToggles' | 'featureFlags'> | null
+): FeatureFlagRule {
+  const rule = settings?.featureFlags?.[flag];
+  if (rule) return rule;
+  return { enabled: settings?.featureToggles?.[flag] ?? FEATURE_FLAGS[flag].defaultEnabled };
+}
+
+export function evaluateFeatureFlag(
+  flag: FeatureFlagKey,
+  rule: FeatureFlagRule,
+  { userId, universityId }: FeatureFlagContext = {}
+): boolean {
+  if (!rule.enabled) return false;
+
+  const targeted = !!rule.userIds?.length || !!rule.universityIds?.length || rule.rolloutPercentage !== undefined;
+  if (!targeted) return true;
+
+  if (userId && rule.userIds?.includes(userId)) return true;
+  if (universityId && rule.universityIds?.includes(universityId)) return true;
+  if (rule.rolloutPercentage !== undefined) {
+    if (rule.rolloutPercentage >= 100) return true;
+    return !!userId && rolloutBucket(flag, userId) < rule.rolloutPercentage;
+  }
+  return false;
+}
+
+export function isFeatureFlagOn(
+  flag: FeatureFlagKey,
+  settings: Pick<SiteSettings, 'featureToggles' | 'featureFlags'> | null,
+  context?: FeatureFlagContext
+): boolean {
+  return evaluateFeatureFlag(flag, featureFlagRule(flag, settings), context);
+}
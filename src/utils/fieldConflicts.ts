@@ -0,0 +1,191 @@
+import { Timestamp } from 'firebase/firestore';
+import { getByPath } from '@/utils/diff';
+import type { ConflictResolution, FieldConflict, ProfileSection } from '@/types/collaboration';
+
+export interface CollaborativeField {
+  path: string;
+  label: string;
+  section?: ProfileSection;
+}
+
+/** The memorial profile fields editors can change concurrently, by form section */
+export const COLLABORATIVE_FIELDS: CollaborativeField[] = [
+  { path: 'name', label: 'Full Name', section: 'basic' },
+  { path: 'description', label: 'Description', section: 'basic' },
+  { path: 'imageUrl', label: 'Profile Photo', section: 'basic' },
+  { path: 'basicInfo.dateOfBirth', label: 'Date of Birth', section: 'basic' },
+  { path: 'basicInfo.dateOfDeath', label: 'Date of Death', section: 'basic' },
+  { path: 'basicInfo.birthLocation', label: 'Birth Location', section: 'basic' },
+  { path: 'basicInfo.deathLocation', label: 'Death Location', section: 'basic' },
+  { path: 'basicInfo.biography', label: 'Biography', section: 'basic' },
+  { path: 'lifeStory.content', label: 'Life Story', section: 'life' },
+  { path: 'timeline', label: 'Timeline', section: 'timeline' },
+  { path: 'mediaUrls', label: 'Media Gallery', section: 'media' },
+  { path: 'isPublic', label: 'Public Memorial', section: 'settings' },
+  { path: 'metadata.tags', label: 'Tags', section: 'settings' },
+];
+
+// Bookkeeping stamps change on every save without the content changing
+const IGNORED_KEYS = new Set(['createdAt', 'updatedAt']);
+
+// Not worth asking anyone to choose between
+const BOOKKEEPING_FIELDS = new Set(['id', 'version', 'updatedBy', 'lastModifiedAt', 'lastModifiedBy', ...Array.from(IGNORED_KEYS)]);
+
+const humanize = (key: string) => {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * The top-level fields of a few copies of a record, for merging records
+ * that have no field list of their own
+ */
+export const fieldsOf = (...records: object[]): CollaborativeField[] =>
+  Array.from(new Set(records.flatMap(record => Object.keys(record ?? {}))))
+    .filter(key => !BOOKKEEPING_FIELDS.has(key))
+    .map(key => ({ path: key, label: humanize(key) }));
+
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'object') {
+    return Object.keys(value as object)
+      .filter(key => !IGNORED_KEYS.has(key))
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = normalize((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+export const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+/** Copy of `source` with the value at a dotted path replaced */
+export const setByPath = <T extends object>(source: T, path: string, value: unknown): T => {
+  const [key, ...rest] = path.split('.');
+  const current = (source as Record<string, any>)[key];
+  return {
+    ...source,
+    [key]: rest.length ? setByPath(current ?? {}, rest.join('.'), value) : value,
+  };
+};
+
+export interface RemoteMergeResult<T> {
+  /** The local form data with every uncontested remote change applied */
+  merged: T;
+  /** Fields the remote save changed that were taken into the form */
+  applied: string[];
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Three-way merge of a saved remote version into local form data. `base` is
+ * the version the local editor last synced with. A field changed only
+ * remotely is taken, a field changed only locally is kept, and a field
+ * changed differently on both sides becomes a conflict for the editor to
+ * resolve; the local value stays in the form until they do.
+ */
+export function mergeRemoteChanges<T extends object>(
+  base: T,
+  local: T,
+  remote: T,
+  theirsBy?: string,
+  fields: CollaborativeField[] = COLLABORATIVE_FIELDS
+): RemoteMergeResult<T> {
+  return fields.reduce<RemoteMergeResult<T>>((result, field) => {
+    const baseValue = getByPath(base, field.path);
+    const mine = getByPath(local, field.path);
+    const theirs = getByPath(remote, field.path);
+
+    if (sameValue(theirs, baseValue) || sameValue(mine, theirs)) {
+      return result;
+    }
+    if (sameValue(mine, baseValue)) {
+      result.merged = setByPath(result.merged, field.path, theirs);
+      result.applied.push(field.path);
+      return result;
+    }
+    result.conflicts.push({ ...field, base: baseValue, mine, theirs, theirsBy });
+    return result;
+  }, { merged: local, applied: [], conflicts: [] });
+}
+
+/**
+ * Replaces conflicts on the same field with the newer ones; a later remote
+ * save supersedes the value an earlier conflict was about
+ */
+export const mergeConflictLists = (current: FieldConflict[], incoming: FieldConflict[]): FieldConflict[] => [
+  ...current.filter(conflict => !incoming.some(next => next.path === conflict.path)),
+  ...incoming,
+];
+
+/** Applies the versions picked in the conflict dialog to the local data */
+export const applyResolutions = <T extends object>(
+  data: T,
+  conflicts: FieldConflict[],
+  choices: Record<string, ConflictResolution>
+): T =>
+  conflicts.reduce(
+    (result, conflict) => (choices[conflict.path] === 'theirs' ? setByPath(result, conflict.path, conflict.theirs) : result),
+    data
+  );
+
+// Replaces, removes or appends the entry with the given ID
+const resolveListItem = <T extends { id: string }>(list: T[], id: string, item: T | undefined): T[] => {
+  if (!item) return list.filter(entry => entry.id !== id);
+  return list.some(entry => entry.id === id)
+    ? list.map(entry => (entry.id === id ? item : entry))
+    : [...list, item];
+};
+
+/**
+ * The same three-way merge over a list of records matched by ID, such as
+ * timeline entries. Adding, editing and removing an entry each count as a
+ * change; conflicts are keyed by entry ID and keep the local entry (or its
+ * absence) until resolved.
+ */
+export function mergeListById<T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  label: (item: T) => string,
+  section?: ProfileSection
+): RemoteMergeResult<T[]> {
+  const find = (list: T[], id: string) => list.find(item => item.id === id);
+  const ids = Array.from(new Set([...local, ...remote, ...base].map(item => item.id)));
+
+  return ids.reduce<RemoteMergeResult<T[]>>((result, id) => {
+    const baseItem = find(base, id);
+    const mine = find(local, id);
+    const theirs = find(remote, id);
+
+    if (sameValue(theirs, baseItem) || sameValue(mine, theirs)) {
+      return result;
+    }
+    if (sameValue(mine, baseItem)) {
+      result.merged = resolveListItem(result.merged, id, theirs);
+      result.applied.push(id);
+      return result;
+    }
+    const shown = mine ?? theirs ?? baseItem;
+    result.conflicts.push({ path: id, label: shown ? label(shown) : id, section, base: baseItem, mine, theirs });
+    return result;
+  }, { merged: local, applied: [], conflicts: [] });
+}
+
+/** applyResolutions for conflicts from mergeListById */
+export const applyListResolutions = <T extends { id: string }>(
+  list: T[],
+  conflicts: FieldConflict[],
+  choices: Record<string, ConflictResolution>
+): T[] =>
+  conflicts.reduce(
+    (result, conflict) =>
+      choices[conflict.path] === 'theirs' ? resolveListItem(result, conflict.path, conflict.theirs as T | undefined) : result,
+    list
+  );
@@ -1,4 +1,6 @@
 import { TimelineEntry } from '@/types/profile';
+import { TimelineEvent } from '@/types/timeline';
+import { compareFuzzyDates, formatFuzzyDate } from '@/utils/date';
 
 /**
  * Sorts timeline entries chronologically by start date
@@ -29,4 +31,22 @@ export const sortTimelineEntries = (entries: TimelineEntry[]): TimelineEntry[] =
     // Sort by date (ascending)
     return dateA.getTime() - dateB.getTime();
   });
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Sorts canonical timeline events chronologically. Dates of any precision
+ * interleave by the earliest day they could be; events without a usable
+ * date are placed at the end
+ */
+export const sortTimelineEvents = <T extends Pick<TimelineEvent, 'startDate'>>(events: T[]): T[] =>
+  [...events].sort((a, b) => compareFuzzyDates(a.startDate, b.startDate));
+
+/**
+ * The dates of an event as they read on screen, e.g. "c. 1923" or
+ * "April 1923 – 1930s"
+ */
+export const formatTimelineDates = (event: Pick<TimelineEvent, 'startDate' | 'endDate'>): string => {
+  const start = formatFuzzyDate(event.startDate) ?? event.startDate;
+  const end = event.endDate ? formatFuzzyDate(event.endDate) ?? event.endDate : null;
+  return end ? `${start} – ${end}` : start;
+};
@@ -0,0 +1,202 @@
+import type { LegacyTimelineEvent, LifeEvent, TimelineEntry } from '@/types/profile';
+import type { Memorial } from '@/types/memorial';
+import type { SupabaseTimelineEvent } from '@/lib/supabase-services';
+import type {
+  NewTimelineEvent,
+  TimelineEvent,
+  TimelineEventChanges,
+  TimelineEventMetadata,
+  TimelineEventType,
+} from '@/types/timeline';
+
+type StoredEvent = Record<string, unknown>;
+
+const TYPE_NAMES: Record<string, TimelineEventType> = {
+  education: 'education',
+  work: 'work',
+  job: 'work',
+  event: 'event',
+};
+
+const DETAIL_FIELDS: Record<TimelineEventType, string[]> = {
+  education: ['institution', 'degree', 'fieldOfStudy'],
+  work: ['company', 'position'],
+  event: ['category'],
+};
+
+const ALL_DETAIL_FIELDS = Object.values(DETAIL_FIELDS).flat();
+const METADATA_FIELDS = ['tags', 'importance', 'visibility'];
+const IMPORTANCE = ['high', 'medium', 'low'];
+const VISIBILITY = ['public', 'private'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const text = (...values: unknown[]): string | undefined =>
+  values.find((value): value is string => typeof value === 'string' && value !== '');
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value instanceof Date) return value;
+  if (isRecord(value) && typeof value.toDate === 'function') return (value.toDate as () => Date)();
+  if (isRecord(value) && typeof (value.seconds ?? value._seconds) === 'number') {
+    return new Date(Number(value.seconds ?? value._seconds) * 1000);
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+};
+
+// Date strings are kept as written ('1998' stays '1998'); anything else is
+// turned into an ISO string
+const toDateText = (value: unknown): string | undefined =>
+  typeof value === 'string' ? text(value) : toDate(value)?.toISOString();
+
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+
+/**
+ * Reads any type name a timeline event was ever stored with. Names with no
+ * kind of their own ('other', 'achievement') become a general event that
+ * keeps the name as its category.
+ */
+export function toTimelineEventType(type: unknown): { type: TimelineEventType; category?: string } {
+  const name = typeof type === 'string' ? type : '';
+  const known = TYPE_NAMES[name];
+  if (known) return { type: known };
+  return { type: 'event', category: name || undefined };
+}
+
+/**
+ * Builds the canonical event from a document in any stored shape: the
+ * canonical one, the builders' LifeEvent (`metadata.company`, 'other'), the
+ * old service shape ('job', top-level `institution`), TimelineEntry,
+ * memorial timeline items and Supabase rows. Fields the model has no place
+ * for end up in `extra` so saving the event back loses nothing.
+ */
+export function toTimelineEvent(data: StoredEvent, id: string = String(data.id ?? '')): TimelineEvent {
+  const metadata = isRecord(data.metadata) ? data.metadata : {};
+  const details = isRecord(data.details) ? data.details : {};
+  const { type, category } = toTimelineEventType(data.type);
+  const consumed = new Set(['id', 'type', 'title', 'description', 'location', 'mediaUrls', 'order', 'createdAt', 'updatedAt', 'version', 'metadata', 'details', 'extra']);
+
+  const startField = ['startDate', 'date', 'start_date'].find(field => data[field] !== undefined && data[field] !== null);
+  const endField = ['endDate', 'end_date'].find(field => data[field] !== undefined && data[field] !== null);
+  if (startField) consumed.add(startField);
+  if (endField) consumed.add(endField);
+
+  // A detail can sit in `details`, at the top level or under `metadata`
+  const detail = (field: string) => text(details[field], data[field], metadata[field]);
+  const ownDetails = Object.fromEntries(DETAIL_FIELDS[type].map(field => [field, detail(field)]));
+  DETAIL_FIELDS[type].forEach(field => consumed.add(field));
+  if (type === 'event' && !ownDetails.category) ownDetails.category = category;
+
+  const tags = Array.isArray(metadata.tags) ? metadata.tags : data.tags;
+  const importance = metadata.importance ?? data.importance;
+  const visibility = metadata.visibility ?? data.visibility;
+  const eventMetadata: TimelineEventMetadata = withoutUndefined({
+    tags: Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+    importance: IMPORTANCE.includes(importance as string) ? importance as TimelineEventMetadata['importance'] : undefined,
+    visibility: VISIBILITY.includes(visibility as string) ? visibility as TimelineEventMetadata['visibility'] : undefined,
+  });
+  if (eventMetadata.tags && !Array.isArray(metadata.tags)) consumed.add('tags');
+  if (eventMetadata.importance && metadata.importance === undefined) consumed.add('importance');
+  if (eventMetadata.visibility && metadata.visibility === undefined) consumed.add('visibility');
+
+  // Whatever is left over, including details that belong to another kind
+  const leftoverMetadata = Object.fromEntries(
+    Object.entries(metadata).filter(([field]) => !METADATA_FIELDS.includes(field) && !DETAIL_FIELDS[type].includes(field))
+  );
+  const extra: Record<string, unknown> = {
+    ...(isRecord(data.extra) ? data.extra : {}),
+    ...Object.fromEntries(Object.entries(data).filter(([field, value]) => !consumed.has(field) && value !== undefined)),
+    ...Object.fromEntries(
+      Object.entries(details).filter(([field]) => !DETAIL_FIELDS[type].includes(field) && ALL_DETAIL_FIELDS.includes(field))
+    ),
+  };
+  if (Object.keys(leftoverMetadata).length) extra.metadata = leftoverMetadata;
+
+  const base = withoutUndefined({
+    id,
+    title: text(data.title) ?? (type === 'education' ? text(ownDetails.degree, ownDetails.institution) : undefined) ?? '',
+    description: text(data.description),
+    startDate: startField ? toDateText(data[startField]) ?? '' : '',
+    endDate: endField ? toDateText(data[endField]) : undefined,
+    location: text(data.location),
+    mediaUrls: Array.isArray(data.mediaUrls) ? data.mediaUrls.filter((url): url is string => typeof url === 'string') : undefined,
+    order: typeof data.order === 'number' ? data.order : undefined,
+    createdAt: toDate(data.createdAt) ?? new Date(),
+    updatedAt: toDate(data.updatedAt) ?? new Date(),
+    version: typeof data.version === 'number' ? data.version : undefined,
+    metadata: Object.keys(eventMetadata).length ? eventMetadata : undefined,
+    extra: Object.keys(extra).length ? extra : undefined,
+  });
+
+  return { ...base, type, details: withoutUndefined(ownDetails) } as TimelineEvent;
+}
+
+export const fromLifeEvent = (event: LifeEvent): TimelineEvent => toTimelineEvent({ ...event });
+
+export const fromLegacyTimelineEvent = (event: LegacyTimelineEvent): TimelineEvent => toTimelineEvent({ ...event });
+
+export const fromTimelineEntry = (entry: TimelineEntry): TimelineEvent => toTimelineEvent({ ...entry });
+
+export const fromMemorialTimelineItem = (item: NonNullable<Memorial['timeline']>[number]): TimelineEvent =>
+  toTimelineEvent({ ...item });
+
+// Columns of the other kinds come back as nulls; they aren't data worth keeping
+export const fromSupabaseTimelineEvent = (row: SupabaseTimelineEvent): TimelineEvent => {
+  const { profileId: _profileId, createdBy: _createdBy, ...columns } = row;
+  return toTimelineEvent(Object.fromEntries(Object.entries(columns).filter(([, value]) => value !== null)));
+};
+
+/**
+ * An event with a partial edit applied. Details merge field by field,
+ * unless the edit changes the type, which brings a fresh set.
+ */
+export function applyTimelineEventChanges(event: TimelineEvent, changes: TimelineEventChanges): TimelineEvent {
+  const retyped = changes.type !== undefined && changes.type !== event.type;
+  return {
+    ...event,
+    ...changes,
+    details: retyped ? changes.details ?? {} : { ...event.details, ...changes.details },
+  } as TimelineEvent;
+}
+
+/**
+ * The document a canonical event is stored as in Firestore, whole or as a
+ * partial update. Fields kept in `extra` go back where they were read from.
+ */
+export function toTimelineDocument(event: TimelineEvent | NewTimelineEvent | TimelineEventChanges): Record<string, unknown> {
+  const { extra, ...fields } = event;
+  const { metadata: extraMetadata, ...extraFields } = extra ?? {};
+  const document: Record<string, unknown> = withoutUndefined({ ...extraFields, ...fields });
+  if (isRecord(extraMetadata) || fields.metadata) {
+    document.metadata = withoutUndefined({ ...(isRecord(extraMetadata) ? extraMetadata : {}), ...fields.metadata });
+  }
+  if (fields.details) document.details = withoutUndefined({ ...fields.details });
+  return document;
+}
+
+/** The `timeline_events` columns for a whole or partial event */
+export function toSupabaseTimelineEvent(event: TimelineEventChanges): Partial<SupabaseTimelineEvent> {
+  const details: Record<string, string | undefined> = { ...event.details };
+  return withoutUndefined({
+    type: event.type,
+    title: event.title,
+    description: event.description,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    location: event.location,
+    mediaUrls: event.mediaUrls,
+    institution: details.institution,
+    degree: details.degree,
+    fieldOfStudy: details.fieldOfStudy,
+    company: details.company,
+    position: details.position,
+    importance: event.metadata?.importance,
+    visibility: event.metadata?.visibility,
+    tags: event.metadata?.tags,
+  });
+}
@@ -0,0 +1,368 @@
+import type {
+  DraftTimelineEvent,
+  TimelineEvent,
+  TimelineImportDraft,
+  TimelineImportSource,
+} from '@/types/timeline';
+import { compareFuzzyDates, fuzzyDateYear, parseFuzzyDate, serializeFuzzyDate } from '@/utils/date';
+
+/*
+ * Reads a LinkedIn data export (Positions.csv, Education.csv) or pasted CV
+ * text into draft timeline events. Everything happens here in the
+ * browser; nothing is sent anywhere until the drafts are accepted.
+ */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const PRESENT = /^(present|current|now|today|ongoing)$/i;
+
+const YEAR = '(?:1[89]\\d{2}|20\\d{2})';
+// Jan 2015, September 2015, 09/2015, 2015-09 or 2015
+const DATE = `(?:[A-Za-z]{3,9}\\.?\\s+${YEAR}|\\d{1,2}/${YEAR}|${YEAR}-\\d{2}|${YEAR})`;
+const DATE_RANGE = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today|ongoing)`,
+  'i'
+);
+const SINGLE_DATE = new RegExp(`\\b(${DATE})\\b`);
+
+const BULLET = /^[•·▪◦*‣-]\s*/;
+
+const INSTITUTION = /\b(university|universit[äéà]|college|school|institute|academy|polytechnic|conservatory|seminary|gymnasium|lyceum)\b/i;
+const DEGREE = /\b(bachelor|master|doctor|doctorate|associate|diploma|certificate|ph\.?\s?d|mba|b\.?\s?a|b\.?\s?sc?|m\.?\s?a|m\.?\s?sc?|b\.?\s?eng|m\.?\s?eng|ll\.?\s?[bm]|m\.?\s?d|a-levels?|gcses?|high school)\b/i;
+const JOB_TITLE = /\b(engineer|manager|director|developer|teacher|nurse|assistant|analyst|consultant|officer|intern|lead|head|designer|president|founder|owner|professor|lecturer|specialist|coordinator|administrator|executive|clerk|technician|worker|partner|editor|writer|accountant|architect|scientist|researcher|physician|chef|secretary|volunteer)\b/i;
+
+// Headings that start a section of a CV; the rest of the line must be short
+const WORK_HEADING = /^((work|professional|employment|career|relevant) )?(experience|history|employment)$|^career( history)?$/;
+const EDUCATION_HEADING = /^(education|academic (background|history|qualifications)|qualifications)( (and|&) (training|qualifications|certifications))?$/;
+const OTHER_HEADING = /^((key|technical|core) )?(skills|projects|certifications?|certificates|languages|interests|hobbies|references|summary|profile|objective|awards|honou?rs|publications|volunteering|activities|contact( details)?|personal( details)?)( (and|&) \w+)?$/;
+
+type Section = 'work' | 'education';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const clean = (text: string | undefined) => text?.replace(/\s+/g, ' ').trim() || undefined;
+
+/**
+ * Splits CSV text into rows of fields, including quoted fields that hold
+ * commas, quotes or line breaks. Blank rows are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * A date as CVs and LinkedIn write them ("Jan 2015", "09/2015", "2015")
+ * as a fuzzy date string. Null for "Present" and anything unreadable.
+ */
+export function importedDate(text: string | undefined): string | null {
+  const value = text?.trim().replace(/\s+/g, ' ');
+  if (!value || PRESENT.test(value)) return null;
+
+  const fuzzy = (candidate: string) => {
+    const parsed = parseFuzzyDate(candidate);
+    return parsed ? serializeFuzzyDate(parsed) : null;
+  };
+
+  const named = /^([A-Za-z]{3,9})\.?\s+(\d{4})$/.exec(value);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3).toLowerCase());
+    // "Summer 2015" is at least the year
+    return fuzzy(month === -1 ? named[2] : `${named[2]}-${pad(month + 1)}`);
+  }
+
+  const numeric = /^(\d{1,2})[/.](\d{4})$/.exec(value);
+  if (numeric) return fuzzy(`${numeric[2]}-${pad(Number(numeric[1]))}`);
+
+  return fuzzy(value);
+}
+
+function draft(source: TimelineImportSource, event: DraftTimelineEvent, index: number): TimelineImportDraft {
+  return { key: `${source}-${index}`, source, status: 'pending', event };
+}
+
+function educationEvent(fields: {
+  institution?: string;
+  degree?: string;
+  fieldOfStudy?: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  location?: string;
+  description?: string;
+}): DraftTimelineEvent {
+  const institution = clean(fields.institution);
+  const degree = clean(fields.degree);
+  const fieldOfStudy = clean(fields.fieldOfStudy);
+  return {
+    type: 'education',
+    title: (degree && fieldOfStudy ? `${degree} in ${fieldOfStudy}` : degree) ?? institution ?? 'Education',
+    description: fields.description?.trim() || undefined,
+    startDate: fields.startDate ?? '',
+    endDate: fields.endDate ?? undefined,
+    location: clean(fields.location),
+    details: { institution, degree, fieldOfStudy },
+  };
+}
+
+function workEvent(fields: {
+  company?: string;
+  position?: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  location?: string;
+  description?: string;
+}): DraftTimelineEvent {
+  const company = clean(fields.company);
+  const position = clean(fields.position);
+  return {
+    type: 'work',
+    title: position ?? company ?? 'Work',
+    description: fields.description?.trim() || undefined,
+    startDate: fields.startDate ?? '',
+    endDate: fields.endDate ?? undefined,
+    location: clean(fields.location),
+    details: { company, position },
+  };
+}
+
+// The header row may not be the first; some exports open with notes
+function readTable(text: string, required: string): Record<string, string>[] | null {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim() === required));
+  if (headerIndex === -1) return null;
+  const headers = rows[headerIndex].map(cell => cell.trim());
+  return rows.slice(headerIndex + 1).map(row =>
+    Object.fromEntries(headers.map((header, column) => [header, row[column]?.trim() ?? '']))
+  );
+}
+
+/**
+ * Reads one file of a LinkedIn data export. Positions.csv and
+ * Education.csv are told apart by their columns; null for any other file.
+ */
+export function parseLinkedInCsv(text: string): DraftTimelineEvent[] | null {
+  const positions = readTable(text, 'Company Name');
+  if (positions) {
+    return positions
+      .filter(row => row['Company Name'] || row['Title'])
+      .map(row =>
+        workEvent({
+          company: row['Company Name'],
+          position: row['Title'],
+          description: row['Description'],
+          location: row['Location'],
+          startDate: importedDate(row['Started On']),
+          endDate: importedDate(row['Finished On']),
+        })
+      );
+  }
+
+  const schools = readTable(text, 'School Name');
+  if (schools) {
+    return schools
+      .filter(row => row['School Name'] || row['Degree Name'])
+      .map(row =>
+        educationEvent({
+          institution: row['School Name'],
+          degree: row['Degree Name'],
+          description: [row['Notes'], row['Activities']].filter(Boolean).join('\n\n'),
+          startDate: importedDate(row['Start Date']),
+          endDate: importedDate(row['End Date']),
+        })
+      );
+  }
+
+  return null;
+}
+
+function headingOf(line: string): Section | null | undefined {
+  if (line.length > 40 || /\d/.test(line)) return undefined;
+  const heading = line.toLowerCase().replace(/[^a-z\s&]/g, '').replace(/\s+/g, ' ').trim();
+  if (WORK_HEADING.test(heading)) return 'work';
+  if (EDUCATION_HEADING.test(heading)) return 'education';
+  if (OTHER_HEADING.test(heading)) return null;
+  return undefined;
+}
+
+// "Senior Engineer at Acme Corp, London" or "Acme Corp | Senior Engineer"
+const headerParts = (lines: string[]) =>
+  lines
+    .flatMap(line => line.split(/\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+/))
+    .map(part => part.replace(/^[(\s]+|[)\s]+$/g, ''))
+    .filter(Boolean);
+
+function readEntry(section: Section | undefined, header: string[], dates: string[], description: string[]): DraftTimelineEvent {
+  const parts = headerParts(header);
+  const [startDate, endDate] = [importedDate(dates[0]), importedDate(dates[1])];
+  const isEducation = section
+    ? section === 'education'
+    : parts.some(part => INSTITUTION.test(part) || DEGREE.test(part));
+  const text = description.join('\n');
+
+  if (isEducation) {
+    const institution = parts.find(part => INSTITUTION.test(part));
+    const degreeText = parts.find(part => part !== institution && DEGREE.test(part));
+    const rest = parts.filter(part => part !== institution && part !== degreeText);
+    const [degree, fieldOfStudy] = degreeText?.split(/\s+in\s+/i) ?? [];
+    return educationEvent({
+      institution: institution ?? rest.shift(),
+      degree: degree ?? (institution ? rest.shift() : undefined),
+      fieldOfStudy: fieldOfStudy ?? (degreeText && rest.length > 1 ? rest.shift() : undefined),
+      location: rest.join(', '),
+      startDate,
+      endDate,
+      description: text,
+    });
+  }
+
+  let [position, company, ...rest] = parts;
+  if (company && JOB_TITLE.test(company) && !JOB_TITLE.test(position)) {
+    [position, company] = [company, position];
+  }
+  return workEvent({ position, company, location: rest.join(', '), startDate, endDate, description: text });
+}
+
+/**
+ * Reads work and education entries out of CV text. An entry is a line
+ * with dates on it ("Jan 2015 – Present"), the one or two lines naming
+ * the job or school just above it (or just below, when there are none
+ * above) and the lines that follow as its description. Entries outside an
+ * Experience or Education section are sorted by what they mention.
+ */
+export function parseResumeText(text: string): DraftTimelineEvent[] {
+  const events: DraftTimelineEvent[] = [];
+  let section: Section | null | undefined;
+  let pending: string[] = [];
+  let entry: { section: Section | undefined; header: string[]; dates: string[]; description: string[] } | null = null;
+
+  const finish = () => {
+    if (entry) {
+      // Dates with nothing above them take their header from below
+      const lines = [...entry.description, ...pending];
+      if (!entry.header.length) {
+        const headerLines = lines.findIndex(line => BULLET.test(line));
+        entry.header = lines.splice(0, Math.min(headerLines === -1 ? lines.length : headerLines, 2));
+      }
+      const description = lines.map(line => line.replace(BULLET, ''));
+      events.push(readEntry(entry.section, entry.header, entry.dates, description));
+    }
+    entry = null;
+    pending = [];
+  };
+
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    const heading = headingOf(line.replace(/:$/, ''));
+    if (heading !== undefined) {
+      finish();
+      section = heading;
+      return;
+    }
+    // Skills, references and the like hold no events
+    if (section === null) return;
+
+    const range = DATE_RANGE.exec(line);
+    // Schools are often listed with only the year they were finished
+    const single = !range && section === 'education' && !BULLET.test(line) ? SINGLE_DATE.exec(line) : null;
+    const match = range ?? single;
+    if (!match) {
+      if (entry && BULLET.test(line) && !pending.length) {
+        entry.description.push(line);
+      } else {
+        pending.push(line);
+      }
+      return;
+    }
+
+    // The non-bullet lines just above are this entry's header; anything
+    // before them still belongs to the one before
+    let split = pending.length;
+    while (split > 0 && pending.length - split < 2 && !BULLET.test(pending[split - 1])) split--;
+    const header = pending.slice(split);
+    pending = pending.slice(0, split);
+    if (entry) entry.description.push(...pending);
+    pending = [];
+    finish();
+
+    const rest = line.replace(match[0], ' ').replace(/^[\s|,–—-]+|[\s|,–—()-]+$/g, '');
+    entry = {
+      section: section ?? undefined,
+      header: rest ? [...header, rest] : header,
+      dates: range ? [range[1], range[2]] : [match[1]],
+      description: [],
+    };
+  });
+  finish();
+
+  return events;
+}
+
+// Same kind, same name and starting the same year
+function isSameEvent(draftEvent: DraftTimelineEvent, event: TimelineEvent): boolean {
+  if (draftEvent.type !== event.type) return false;
+  const name = (value: string | undefined) => value?.toLowerCase().replace(/[^a-z0-9]/g, '') ?? '';
+  const sameName =
+    name(draftEvent.title) === name(event.title) ||
+    (draftEvent.type === 'work' && event.type === 'work' && !!draftEvent.details.company &&
+      name(draftEvent.details.company) === name(event.details.company) &&
+      name(draftEvent.details.position) === name(event.details.position)) ||
+    (draftEvent.type === 'education' && event.type === 'education' && !!draftEvent.details.institution &&
+      name(draftEvent.details.institution) === name(event.details.institution) &&
+      name(draftEvent.details.degree) === name(event.details.degree));
+  return sameName && (!draftEvent.startDate || fuzzyDateYear(draftEvent.startDate) === fuzzyDateYear(event.startDate));
+}
+
+/**
+ * Drafts for the review screen: undated ones first, as they need a date
+ * before they can be saved, then newest first. Anything already on the
+ * timeline starts out discarded.
+ */
+export function toImportDrafts(
+  source: TimelineImportSource,
+  events: DraftTimelineEvent[],
+  existing: TimelineEvent[] = []
+): TimelineImportDraft[] {
+  return [...events]
+    .sort((a, b) => compareFuzzyDates(b.startDate, a.startDate))
+    .map((event, index) => {
+      const duplicate = existing.find(other => isSameEvent(event, other));
+      return duplicate
+        ? { ...draft(source, event, index), status: 'discarded' as const, duplicateOf: duplicate.title }
+        : draft(source, event, index);
+    });
+}
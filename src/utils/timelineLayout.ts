@@ -0,0 +1,129 @@
+import type {
+  TimelineBar,
+  TimelineEra,
+  TimelineEvent,
+  TimelineEventType,
+  TimelineLayout,
+} from '@/types/timeline';
+import { dateBounds, parseFuzzyDate } from '@/utils/date';
+import { sortTimelineEvents } from '@/utils/timeline';
+
+export const TIMELINE_LANES: TimelineEventType[] = ['education', 'work', 'event'];
+
+const CHILDHOOD_YEARS = 18;
+// Education that starts before this age is school, not university
+const UNIVERSITY_AGE = 16;
+
+const DAY = 1000 * 60 * 60 * 24;
+
+/** A date as a fractional year */
+export function toYears(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = new Date(0);
+  start.setUTCFullYear(year, 0, 1);
+  const next = new Date(0);
+  next.setUTCFullYear(year + 1, 0, 1);
+  return year + (date.getTime() - start.getTime()) / (next.getTime() - start.getTime());
+}
+
+// From the first day an event could have started to the last it could have
+// ended; a single date with no end is a point in time
+function eventSpan(event: TimelineEvent): { start: number; end: number; isPoint: boolean } | null {
+  const startBounds = dateBounds(event.startDate);
+  if (!startBounds) return null;
+  const start = toYears(startBounds.earliest);
+  const endBounds = event.endDate ? dateBounds(event.endDate) : null;
+  if (endBounds) {
+    return { start, end: Math.max(start, toYears(new Date(endBounds.latest.getTime() + DAY))), isPoint: false };
+  }
+  if (parseFuzzyDate(event.startDate)?.end) {
+    return { start, end: toYears(new Date(startBounds.latest.getTime() + DAY)), isPoint: false };
+  }
+  return { start, end: start, isPoint: true };
+}
+
+/**
+ * Gives each span the first row where it doesn't overlap the one before.
+ * `minSpan` is how wide, in years, the shortest span is drawn, so markers
+ * that sit close together don't cover each other.
+ */
+function assignRows<T extends { start: number; end: number; row: number }>(spans: T[], minSpan: number): number {
+  const rowEnds: number[] = [];
+  spans.forEach(span => {
+    const end = Math.max(span.end, span.start + minSpan);
+    const row = rowEnds.findIndex(rowEnd => rowEnd <= span.start);
+    span.row = row === -1 ? rowEnds.length : row;
+    rowEnds[span.row] = end;
+  });
+  return Math.max(rowEnds.length, 1);
+}
+
+function spanOf(bars: TimelineBar[]): { start: number; end: number } | null {
+  if (!bars.length) return null;
+  return {
+    start: Math.min(...bars.map(bar => bar.start)),
+    end: Math.max(...bars.map(bar => bar.end)),
+  };
+}
+
+/**
+ * Life eras the timeline is shaded by. Childhood needs a date of birth;
+ * university years and career are read from education and work events.
+ */
+function lifeEras(bars: TimelineBar[], birth: number | null, death: number | null): Omit<TimelineEra, 'row'>[] {
+  const eras: Omit<TimelineEra, 'row'>[] = [];
+  if (birth !== null) {
+    eras.push({ kind: 'childhood', label: 'Childhood', start: birth, end: Math.min(birth + CHILDHOOD_YEARS, death ?? Infinity) });
+  }
+
+  const university = spanOf(
+    bars.filter(bar => bar.event.type === 'education' && (birth === null || bar.start >= birth + UNIVERSITY_AGE))
+  );
+  if (university) {
+    eras.push({ kind: 'university', label: 'University years', ...university });
+  }
+
+  const career = spanOf(bars.filter(bar => bar.event.type === 'work'));
+  if (career) {
+    eras.push({ kind: 'career', label: 'Career', ...career });
+  }
+
+  return eras.filter(era => era.end > era.start);
+}
+
+/**
+ * Lays events out for the horizontal timeline: lanes by type, overlapping
+ * events on separate rows, and the life eras they fall into. Events
+ * without a usable start date are left out.
+ */
+export function layoutTimeline(
+  events: TimelineEvent[],
+  options: { birthDate?: unknown; deathDate?: unknown; minSpan?: number } = {}
+): TimelineLayout {
+  const minSpan = options.minSpan ?? 0;
+  const birthBounds = dateBounds(options.birthDate);
+  const deathBounds = dateBounds(options.deathDate);
+  const birth = birthBounds ? toYears(birthBounds.earliest) : null;
+  const death = deathBounds ? toYears(new Date(deathBounds.latest.getTime() + DAY)) : null;
+
+  const order: TimelineBar[] = [];
+  sortTimelineEvents(events).forEach(event => {
+    const span = eventSpan(event);
+    if (span) order.push({ event, row: 0, ...span });
+  });
+
+  const lanes = TIMELINE_LANES.map(type => {
+    const bars = order.filter(bar => bar.event.type === type);
+    return { type, bars, rows: assignRows(bars, minSpan) };
+  });
+
+  const eras = lifeEras(order, birth, death).map(era => ({ ...era, row: 0 }));
+  assignRows(eras, 0);
+
+  const starts = [...order.map(bar => bar.start), ...(birth !== null ? [birth] : [])];
+  const ends = [...order.map(bar => bar.end + minSpan), ...(death !== null ? [death] : [])];
+  const start = starts.length ? Math.floor(Math.min(...starts)) : new Date().getFullYear();
+  const end = Math.max(ends.length ? Math.ceil(Math.max(...ends)) : start, start + 1);
+
+  return { start, end, lanes, eras, order };
+}
@@ -0,0 +1,168 @@
+import type { TimelineEvent, TimelineEventType, TimelineIssue } from '@/types/timeline';
+import { dateBounds, formatFuzzyDate, isChronological } from '@/utils/date';
+import { formatTimelineDates, sortTimelineEvents } from '@/utils/timeline';
+
+// Years without any education or work before a gap is pointed out
+const GAP_YEARS = 5;
+
+const YEAR = 1000 * 60 * 60 * 24 * 365.25;
+
+const KIND_NAMES: Record<TimelineEventType, string> = {
+  education: 'education',
+  work: 'job',
+  event: 'event',
+};
+
+interface Span {
+  earliest: Date;
+  latest: Date;
+}
+
+// From the first day an event could have started to the last it could have
+// ended; an event without an end is taken to be over the same day
+function eventSpan(event: TimelineEvent): Span | null {
+  const start = dateBounds(event.startDate);
+  if (!start) return null;
+  const end = event.endDate ? dateBounds(event.endDate) : null;
+  return { earliest: start.earliest, latest: end?.latest ?? start.latest };
+}
+
+/**
+ * Whether two spans share more than half of the shorter one, so that a
+ * degree ending the year the next one starts doesn't count
+ */
+function overlapsMostly(a: Span, b: Span): boolean {
+  const shared = Math.min(a.latest.getTime(), b.latest.getTime()) - Math.max(a.earliest.getTime(), b.earliest.getTime());
+  const shorter = Math.min(a.latest.getTime() - a.earliest.getTime(), b.latest.getTime() - b.earliest.getTime());
+  return shared >= 0 && shared >= shorter / 2;
+}
+
+const FILLER_WORDS = new Set(['the', 'of', 'and', 'at', 'for', 'in']);
+
+// "University of Leeds" and "Leeds University" name the same place
+const normalize = (text: string | undefined) =>
+  text
+    ?.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .sort()
+    .join(' ') || null;
+
+// Where the event happened: the school or employer
+function placeOf(event: TimelineEvent): string | null {
+  switch (event.type) {
+    case 'education':
+      return normalize(event.details.institution);
+    case 'work':
+      return normalize(event.details.company);
+    default:
+      return null;
+  }
+}
+
+function describe(event: TimelineEvent): string {
+  return `"${event.title}" (${formatTimelineDates(event)})`;
+}
+
+/** Events at the same school or employer, or with the same title, whose dates overlap */
+function findDuplicates(events: TimelineEvent[]): TimelineIssue[] {
+  const issues: TimelineIssue[] = [];
+  events.forEach((event, index) => {
+    const span = eventSpan(event);
+    if (!span) return;
+    events.slice(index + 1).forEach(other => {
+      const otherSpan = eventSpan(other);
+      if (other.type !== event.type || !otherSpan || !overlapsMostly(span, otherSpan)) return;
+      const place = placeOf(event);
+      const samePlace = place !== null && place === placeOf(other);
+      const sameTitle = normalize(event.title) === normalize(other.title);
+      if (!samePlace && !sameTitle) return;
+      issues.push({
+        kind: 'duplicate',
+        eventIds: [event.id, other.id],
+        message: `${describe(event)} and ${describe(other)} look like the same ${KIND_NAMES[event.type]}`,
+        blocking: true,
+      });
+    });
+  });
+  return issues;
+}
+
+/** Stretches of more than GAP_YEARS between one school or job and the next */
+function findGaps(events: TimelineEvent[]): TimelineIssue[] {
+  const issues: TimelineIssue[] = [];
+  let covered: { event: TimelineEvent; latest: Date } | null = null;
+
+  events
+    .filter(event => event.type !== 'event')
+    .forEach(event => {
+      const span = eventSpan(event);
+      if (!span) return;
+      if (covered && span.earliest.getTime() - covered.latest.getTime() > GAP_YEARS * YEAR) {
+        issues.push({
+          kind: 'gap',
+          eventIds: [covered.event.id, event.id],
+          message: `Nothing on the timeline between ${describe(covered.event)} and ${describe(event)}`,
+          blocking: false,
+        });
+      }
+      if (!covered || span.latest > covered.latest) {
+        covered = { event, latest: span.latest };
+      }
+    });
+
+  return issues;
+}
+
+/**
+ * Checks a timeline for mistakes in its content: events that end before
+ * they start, education or work before the person was born, anything
+ * after they died, the same school or job entered twice and long gaps.
+ * Dates that are only partly known are given the benefit of the doubt.
+ */
+export function validateTimeline(
+  events: TimelineEvent[],
+  options: { dateOfBirth?: unknown; dateOfDeath?: unknown } = {}
+): TimelineIssue[] {
+  const sorted = sortTimelineEvents(events);
+  const issues: TimelineIssue[] = [];
+  const born = formatFuzzyDate(options.dateOfBirth);
+  const died = formatFuzzyDate(options.dateOfDeath);
+
+  sorted.forEach(event => {
+    if (!isChronological(event.startDate, event.endDate)) {
+      issues.push({
+        kind: 'ends-before-start',
+        eventIds: [event.id],
+        message: `${describe(event)} ends before it starts`,
+        blocking: true,
+      });
+    }
+    // A life event such as a parent's emigration may come before birth
+    if (born && event.type !== 'event' && !isChronological(options.dateOfBirth, event.startDate)) {
+      issues.push({
+        kind: 'before-birth',
+        eventIds: [event.id],
+        message: `${describe(event)} starts before the date of birth (${born})`,
+        blocking: true,
+      });
+    }
+    if (died && !isChronological(event.startDate, options.dateOfDeath)) {
+      issues.push({
+        kind: 'after-death',
+        eventIds: [event.id],
+        message: `${describe(event)} starts after the date of death (${died})`,
+        blocking: true,
+      });
+    } else if (died && event.endDate && !isChronological(event.endDate, options.dateOfDeath)) {
+      issues.push({
+        kind: 'after-death',
+        eventIds: [event.id],
+        message: `${describe(event)} ends after the date of death (${died})`,
+        blocking: true,
+      });
+    }
+  });
+
+  return [...issues, ...findDuplicates(sorted), ...findGaps(sorted)];
+}